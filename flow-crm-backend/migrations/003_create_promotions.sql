@@ -0,0 +1,80 @@
+-- Migration: Create promotions table
+-- Description: Adds promotional campaigns applied automatically to price calculations and pre-sale totals
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Products can now be grouped by category so promotions can target them
+ALTER TABLE products ADD COLUMN IF NOT EXISTS category VARCHAR(100);
+CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
+
+-- Create promotion enum types
+CREATE TYPE promotion_type AS ENUM ('percentage', 'fixed');
+CREATE TYPE promotion_scope AS ENUM ('all', 'product', 'category');
+
+-- Create promotions table
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  type promotion_type NOT NULL,
+  value DECIMAL(10, 2) NOT NULL CHECK (value > 0),
+  scope promotion_scope NOT NULL DEFAULT 'all',
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+  category VARCHAR(100),
+  start_date TIMESTAMP NOT NULL,
+  end_date TIMESTAMP NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  min_amount DECIMAL(10, 2),
+  max_discount DECIMAL(10, 2),
+  usage_limit INTEGER,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT chk_promotions_date_window CHECK (end_date > start_date),
+  CONSTRAINT chk_promotions_scope_target CHECK (
+    (scope = 'all') OR
+    (scope = 'product' AND product_id IS NOT NULL) OR
+    (scope = 'category' AND category IS NOT NULL)
+  )
+);
+
+-- Create indexes for better query performance
+CREATE INDEX idx_promotions_is_active ON promotions(is_active);
+CREATE INDEX idx_promotions_date_window ON promotions(start_date, end_date);
+CREATE INDEX idx_promotions_product_id ON promotions(product_id);
+CREATE INDEX idx_promotions_category ON promotions(category);
+CREATE INDEX idx_promotions_priority ON promotions(priority DESC);
+
+-- Track which promotions were applied to each pre-sale item
+ALTER TABLE presale_items ADD COLUMN IF NOT EXISTS promotion_discount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE presale_items ADD COLUMN IF NOT EXISTS promotion_ids UUID[];
+
+-- Add comments for documentation
+COMMENT ON TABLE promotions IS 'Promotional campaigns applied automatically by the price engine';
+COMMENT ON COLUMN promotions.type IS 'Discount type: percentage of the amount or fixed value';
+COMMENT ON COLUMN promotions.value IS 'Discount value (percentage 0-100 or fixed amount in BRL)';
+COMMENT ON COLUMN promotions.scope IS 'Which products the promotion targets: all, a single product or a category';
+COMMENT ON COLUMN promotions.priority IS 'Higher priority promotions are applied first';
+COMMENT ON COLUMN promotions.min_amount IS 'Minimum line amount required for the promotion to apply';
+COMMENT ON COLUMN promotions.max_discount IS 'Upper bound for percentage discounts';
+COMMENT ON COLUMN promotions.usage_limit IS 'Maximum number of converted sales that may use the promotion (NULL = unlimited)';
+COMMENT ON COLUMN promotions.usage_count IS 'Number of converted sales that used the promotion';
+COMMENT ON COLUMN products.category IS 'Optional product category used for promotion targeting';
+COMMENT ON COLUMN presale_items.promotion_discount IS 'Discount granted by active promotions on this line';
+COMMENT ON COLUMN presale_items.promotion_ids IS 'Promotions applied to this line';
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_promotions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_promotions_updated_at
+  BEFORE UPDATE ON promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_promotions_updated_at();
@@ -0,0 +1,19 @@
+-- Migration: Add customer tiers and negotiated discount rates
+-- Description: Customers get a tier with a default discount and an optional negotiated rate that overrides it
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create customer tier enum type
+CREATE TYPE customer_tier AS ENUM ('regular', 'premium', 'vip');
+
+-- Add tier and negotiated discount columns
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tier customer_tier NOT NULL DEFAULT 'regular';
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS discount_rate DECIMAL(5, 2)
+  CHECK (discount_rate IS NULL OR (discount_rate >= 0 AND discount_rate <= 100));
+
+-- Create index for tier filtering
+CREATE INDEX IF NOT EXISTS idx_customers_tier ON customers(tier);
+
+-- Add comments for documentation
+COMMENT ON COLUMN customers.tier IS 'Customer tier: regular, premium or vip. Each tier has a default discount rate';
+COMMENT ON COLUMN customers.discount_rate IS 'Negotiated discount percentage. When set, overrides the tier default rate';
@@ -0,0 +1,60 @@
+-- Migration: Create tax rate configuration
+-- Description: Adds ICMS/IPI/PIS/COFINS configuration per NCM code and product, ICMS rates per destination state
+--              and the per-line tax breakdown stored on pre-sale items
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create NCM tax rates table
+CREATE TABLE IF NOT EXISTS ncm_tax_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ncm VARCHAR(8) NOT NULL UNIQUE CHECK (ncm ~ '^[0-9]{8}$'),
+  description VARCHAR(255),
+  icms_rate DECIMAL(5, 2) CHECK (icms_rate >= 0 AND icms_rate <= 100),
+  ipi_rate DECIMAL(5, 2) CHECK (ipi_rate >= 0 AND ipi_rate <= 100),
+  pis_rate DECIMAL(5, 2) CHECK (pis_rate >= 0 AND pis_rate <= 100),
+  cofins_rate DECIMAL(5, 2) CHECK (cofins_rate >= 0 AND cofins_rate <= 100),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create ICMS state rates table
+CREATE TABLE IF NOT EXISTS icms_state_rates (
+  state CHAR(2) PRIMARY KEY,
+  rate DECIMAL(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Products can be classified by NCM and override any rate
+ALTER TABLE products ADD COLUMN IF NOT EXISTS ncm VARCHAR(8);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS icms_rate DECIMAL(5, 2);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS ipi_rate DECIMAL(5, 2);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS pis_rate DECIMAL(5, 2);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS cofins_rate DECIMAL(5, 2);
+CREATE INDEX IF NOT EXISTS idx_products_ncm ON products(ncm);
+
+-- Customers carry the destination state used for ICMS
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS state CHAR(2);
+
+-- Pre-sale items keep the taxes calculated when they were priced
+ALTER TABLE presale_items ADD COLUMN IF NOT EXISTS tax_breakdown JSON;
+
+-- Add comments for documentation
+COMMENT ON TABLE ncm_tax_rates IS 'Default tax rates per NCM code';
+COMMENT ON TABLE icms_state_rates IS 'ICMS rate per destination state';
+COMMENT ON COLUMN products.icms_rate IS 'Product-specific ICMS rate. Overrides the destination state and NCM rates';
+COMMENT ON COLUMN customers.state IS 'Destination state (UF) used to resolve the ICMS rate';
+COMMENT ON COLUMN presale_items.tax_breakdown IS 'ICMS, IPI, PIS and COFINS rates and amounts for the line';
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_ncm_tax_rates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_ncm_tax_rates_updated_at
+  BEFORE UPDATE ON ncm_tax_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_ncm_tax_rates_updated_at();
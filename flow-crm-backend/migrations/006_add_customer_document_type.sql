@@ -0,0 +1,25 @@
+-- Migration: Add CNPJ support for business customers
+-- Description: Customers get a document type (CPF or CNPJ) plus company-only fields (razão social and inscrição estadual)
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create document type enum type
+CREATE TYPE document_type AS ENUM ('cpf', 'cnpj');
+
+-- Add document type and company columns
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS document_type document_type NOT NULL DEFAULT 'cpf';
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS company_name VARCHAR(255);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS state_registration VARCHAR(20);
+
+-- The document column stores the CPF or CNPJ digits only, so its length must match the document type
+ALTER TABLE customers ADD CONSTRAINT customers_document_length_check
+  CHECK ((document_type = 'cpf' AND length(cpf) = 11) OR (document_type = 'cnpj' AND length(cpf) = 14));
+
+-- Create index for document type filtering
+CREATE INDEX IF NOT EXISTS idx_customers_document_type ON customers(document_type);
+
+-- Add comments for documentation
+COMMENT ON COLUMN customers.cpf IS 'Customer document digits: CPF (11 digits) or CNPJ (14 digits) according to document_type';
+COMMENT ON COLUMN customers.document_type IS 'Customer document type: cpf for individuals, cnpj for companies';
+COMMENT ON COLUMN customers.company_name IS 'Razão social, only for CNPJ customers';
+COMMENT ON COLUMN customers.state_registration IS 'Inscrição estadual, only for CNPJ customers. ISENTO when exempt';
@@ -0,0 +1,13 @@
+-- Migration: Record the salesperson on every presale
+-- Description: Presales keep the user who created them, so employees can be limited to their own presales
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Add salesperson column (nullable, presales created before this migration have no owner)
+ALTER TABLE presales ADD COLUMN IF NOT EXISTS salesperson_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- Create index for salesperson filtering
+CREATE INDEX IF NOT EXISTS idx_presales_salesperson_id ON presales(salesperson_id);
+
+-- Add comments for documentation
+COMMENT ON COLUMN presales.salesperson_id IS 'User who created the presale. Employees without canViewAll only see their own presales';
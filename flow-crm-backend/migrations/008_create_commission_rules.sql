@@ -0,0 +1,42 @@
+-- Migration: Create commission rules
+-- Description: Adds configurable commission rules per salesperson and/or product category,
+--              optionally tiered by the salesperson's monthly converted volume
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create commission rules table
+CREATE TABLE IF NOT EXISTS commission_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  salesperson_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  category VARCHAR(100),
+  rate DECIMAL(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  tiers JSON,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for rule lookup
+CREATE INDEX IF NOT EXISTS idx_commission_rules_salesperson ON commission_rules(salesperson_id);
+CREATE INDEX IF NOT EXISTS idx_commission_rules_category ON commission_rules(category);
+
+-- Add comments for documentation
+COMMENT ON TABLE commission_rules IS 'Commission percentage paid over converted pre-sales';
+COMMENT ON COLUMN commission_rules.salesperson_id IS 'Salesperson the rule applies to. NULL applies to every salesperson';
+COMMENT ON COLUMN commission_rules.category IS 'Product category the rule applies to. NULL applies to every category';
+COMMENT ON COLUMN commission_rules.tiers IS 'Optional [{ minVolume, rate }] list replacing the rate once the monthly volume is reached';
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_commission_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_commission_rules_updated_at
+  BEFORE UPDATE ON commission_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_commission_rules_updated_at();
@@ -0,0 +1,40 @@
+-- Migration: Create refresh tokens and token revocation
+-- Description: Short-lived access tokens are renewed with rotating refresh tokens stored server-side.
+--              Logout revokes the session, and users can end all their sessions at once
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create refresh tokens table (only the SHA-256 hash of the token is stored)
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  family_id UUID NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  replaced_by_id UUID,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create revoked access tokens table
+CREATE TABLE IF NOT EXISTS revoked_tokens (
+  jti UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Access tokens issued before this moment are rejected ("end all my sessions")
+ALTER TABLE users ADD COLUMN IF NOT EXISTS sessions_revoked_at TIMESTAMP;
+
+-- Create indexes for session lookup and cleanup
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens(family_id);
+CREATE INDEX IF NOT EXISTS idx_revoked_tokens_expires_at ON revoked_tokens(expires_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE refresh_tokens IS 'Rotating refresh tokens. Reusing a rotated token revokes its whole family';
+COMMENT ON COLUMN refresh_tokens.family_id IS 'Login session the token belongs to, shared by every rotation';
+COMMENT ON COLUMN refresh_tokens.replaced_by_id IS 'Token issued when this one was rotated';
+COMMENT ON TABLE revoked_tokens IS 'Access token ids (jti) revoked before expiry. Rows can be purged once expired';
+COMMENT ON COLUMN users.sessions_revoked_at IS 'Access tokens issued before this time are no longer accepted';
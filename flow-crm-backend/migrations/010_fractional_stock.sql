@@ -0,0 +1,18 @@
+-- Migration: Fractional stock quantities
+-- Description: Stock becomes decimal so products sold by weight, length or volume (sale_type 'fractional')
+--              can sell quantities such as 2.5 kg. Matches the precision of presale_items.quantity
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Product stock
+ALTER TABLE products ALTER COLUMN stock TYPE DECIMAL(12, 3) USING stock::DECIMAL(12, 3);
+ALTER TABLE products ALTER COLUMN stock SET DEFAULT 0;
+
+-- Stock adjustment history
+ALTER TABLE stock_adjustments ALTER COLUMN quantity TYPE DECIMAL(12, 3) USING quantity::DECIMAL(12, 3);
+ALTER TABLE stock_adjustments ALTER COLUMN previous_stock TYPE DECIMAL(12, 3) USING previous_stock::DECIMAL(12, 3);
+ALTER TABLE stock_adjustments ALTER COLUMN new_stock TYPE DECIMAL(12, 3) USING new_stock::DECIMAL(12, 3);
+
+-- Add comments for documentation
+COMMENT ON COLUMN products.stock IS 'Stock quantity. Whole numbers for sale_type unit, up to 3 decimals for sale_type fractional';
+COMMENT ON COLUMN stock_adjustments.quantity IS 'Quantity moved, in the product unit';
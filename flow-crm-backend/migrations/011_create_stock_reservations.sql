@@ -0,0 +1,35 @@
+-- Migration: Create stock reservations
+-- Description: Approved pre-sales reserve their quantities so two pre-sales cannot promise the same units.
+--              Cancelling releases the reservation and converting consumes it. Available = stock - active reservations
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create reservation status enum
+CREATE TYPE stock_reservation_status AS ENUM ('active', 'released', 'consumed');
+
+-- Create stock reservations table
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  presale_id UUID NOT NULL REFERENCES presales(id) ON DELETE CASCADE,
+  quantity DECIMAL(12, 3) NOT NULL CHECK (quantity > 0),
+  status stock_reservation_status NOT NULL DEFAULT 'active',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for available stock lookup
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_product_active ON stock_reservations(product_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_presale ON stock_reservations(presale_id);
+
+-- Reserve the items of pre-sales that are already approved
+INSERT INTO stock_reservations (product_id, presale_id, quantity)
+SELECT pi.product_id, pi.presale_id, SUM(pi.quantity)
+FROM presale_items pi
+INNER JOIN presales p ON p.id = pi.presale_id
+WHERE p.status = 'approved'
+GROUP BY pi.product_id, pi.presale_id;
+
+-- Add comments for documentation
+COMMENT ON TABLE stock_reservations IS 'Quantities held by approved pre-sales until they are converted or cancelled';
+COMMENT ON COLUMN stock_reservations.status IS 'active counts against available stock; released on cancel, consumed on conversion';
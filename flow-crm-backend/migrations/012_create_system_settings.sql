@@ -0,0 +1,45 @@
+-- Migration: Create system settings
+-- Description: Adds the company profile printed on pre-sale PDFs and the system-wide preferences (default markup,
+--              low-stock threshold and code prefixes) that were hard-coded in the frontend
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create system settings table, the application keeps a single row
+CREATE TABLE IF NOT EXISTS system_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_name VARCHAR(255),
+  company_cnpj VARCHAR(18),
+  company_address VARCHAR(500),
+  company_logo TEXT,
+  default_markup DECIMAL(7, 2) NOT NULL DEFAULT 50 CHECK (default_markup >= 0),
+  low_stock_threshold DECIMAL(12, 3) NOT NULL DEFAULT 10 CHECK (low_stock_threshold >= 0),
+  product_code_prefix VARCHAR(10) NOT NULL DEFAULT 'PROD' CHECK (product_code_prefix ~ '^[A-Z]{1,10}$'),
+  payment_method_code_prefix VARCHAR(10) NOT NULL DEFAULT 'PAG' CHECK (payment_method_code_prefix ~ '^[A-Z]{1,10}$'),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create the settings row with the defaults
+INSERT INTO system_settings (id)
+SELECT gen_random_uuid()
+WHERE NOT EXISTS (SELECT 1 FROM system_settings);
+
+-- Add comments for documentation
+COMMENT ON TABLE system_settings IS 'Company profile and system-wide preferences, a single row';
+COMMENT ON COLUMN system_settings.company_logo IS 'Logo printed on pre-sale PDFs as a PNG or JPEG data URL';
+COMMENT ON COLUMN system_settings.default_markup IS 'Markup percentage used to suggest sale prices';
+COMMENT ON COLUMN system_settings.low_stock_threshold IS 'Products with less stock than this are reported as low stock';
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_system_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_system_settings_updated_at
+  BEFORE UPDATE ON system_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_system_settings_updated_at();
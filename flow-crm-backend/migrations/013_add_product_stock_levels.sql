@@ -0,0 +1,15 @@
+-- Migration: Per-product stock levels
+-- Description: Adds the minimum stock, reorder point and maximum stock of each product, used by the low-stock
+--              alerts instead of a single threshold for the whole catalog
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Product stock levels, NULL falls back to the low-stock threshold of the system settings
+ALTER TABLE products ADD COLUMN IF NOT EXISTS min_stock DECIMAL(12, 3) CHECK (min_stock >= 0);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS reorder_point DECIMAL(12, 3) CHECK (reorder_point >= 0);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS max_stock DECIMAL(12, 3) CHECK (max_stock >= 0);
+
+-- Add comments for documentation
+COMMENT ON COLUMN products.min_stock IS 'Available stock at or below this level is a critical alert';
+COMMENT ON COLUMN products.reorder_point IS 'Available stock at or below this level should be reordered. Defaults to min_stock';
+COMMENT ON COLUMN products.max_stock IS 'Stock to reach when reordering, used to suggest the reorder quantity';
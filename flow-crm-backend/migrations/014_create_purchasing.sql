@@ -0,0 +1,97 @@
+-- Migration: Create purchasing
+-- Description: Adds suppliers and purchase orders. Receiving an order line raises the product stock through a
+--              stock adjustment linked to the order and updates the product purchase price with the line cost
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create suppliers table
+CREATE TABLE IF NOT EXISTS suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  cnpj VARCHAR(14) UNIQUE,
+  contact_name VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create purchase order status enum
+CREATE TYPE purchase_order_status AS ENUM ('draft', 'ordered', 'partially_received', 'received', 'cancelled');
+
+-- Create purchase orders table
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number INTEGER GENERATED ALWAYS AS IDENTITY UNIQUE NOT NULL,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id),
+  status purchase_order_status NOT NULL DEFAULT 'draft',
+  expected_date DATE,
+  total DECIMAL(12, 2) NOT NULL CHECK (total >= 0),
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ordered_at TIMESTAMP,
+  received_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create purchase order items table
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  quantity DECIMAL(12, 3) NOT NULL CHECK (quantity > 0),
+  received_quantity DECIMAL(12, 3) NOT NULL DEFAULT 0 CHECK (received_quantity >= 0 AND received_quantity <= quantity),
+  unit_cost DECIMAL(10, 2) NOT NULL CHECK (unit_cost >= 0)
+);
+
+-- Link the stock entries created by receiving to their order
+ALTER TABLE stock_adjustments
+  ADD COLUMN IF NOT EXISTS purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL;
+
+-- Create indexes for filtering
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_product ON purchase_order_items(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_adjustments_purchase_order ON stock_adjustments(purchase_order_id)
+  WHERE purchase_order_id IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON TABLE suppliers IS 'Companies products are bought from';
+COMMENT ON COLUMN suppliers.cnpj IS 'CNPJ digits, optional';
+COMMENT ON TABLE purchase_orders IS 'Orders placed with suppliers; stock enters when their lines are received';
+COMMENT ON COLUMN purchase_orders.number IS 'Sequential number shown to users';
+COMMENT ON COLUMN purchase_orders.total IS 'Expected cost: sum of quantity x unit cost of the lines';
+COMMENT ON COLUMN purchase_order_items.unit_cost IS 'Expected cost per unit, copied to the product purchase price on receipt';
+COMMENT ON COLUMN purchase_order_items.received_quantity IS 'Quantity received so far, orders can be received in parts';
+COMMENT ON COLUMN stock_adjustments.purchase_order_id IS 'Purchase order whose receipt created the adjustment';
+
+-- Create triggers to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_suppliers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_suppliers_updated_at
+  BEFORE UPDATE ON suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_suppliers_updated_at();
+
+CREATE OR REPLACE FUNCTION update_purchase_orders_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_purchase_orders_updated_at
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_purchase_orders_updated_at();
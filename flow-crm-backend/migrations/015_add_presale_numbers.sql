@@ -0,0 +1,42 @@
+-- Migration: Add presale numbers
+-- Description: Gives every pre-sale a sequential number per year (PV-2026-000123). The counter row of the year is
+--              incremented in the same transaction that inserts the pre-sale, so numbers have no gaps
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create yearly counters table
+CREATE TABLE IF NOT EXISTS presale_number_sequences (
+  year INTEGER PRIMARY KEY,
+  last_value INTEGER NOT NULL CHECK (last_value >= 0)
+);
+
+-- Add number column, filled below for the existing pre-sales
+ALTER TABLE presales ADD COLUMN IF NOT EXISTS number VARCHAR(20);
+
+-- Number existing pre-sales in creation order within each year
+WITH numbered AS (
+  SELECT
+    id,
+    EXTRACT(YEAR FROM created_at)::INTEGER AS year,
+    ROW_NUMBER() OVER (PARTITION BY EXTRACT(YEAR FROM created_at) ORDER BY created_at, id) AS sequence
+  FROM presales
+  WHERE number IS NULL
+)
+UPDATE presales
+SET number = 'PV-' || numbered.year || '-' || LPAD(numbered.sequence::TEXT, 6, '0')
+FROM numbered
+WHERE presales.id = numbered.id;
+
+-- Continue each year's counter after the numbers assigned above
+INSERT INTO presale_number_sequences (year, last_value)
+SELECT EXTRACT(YEAR FROM created_at)::INTEGER, COUNT(*)
+FROM presales
+GROUP BY EXTRACT(YEAR FROM created_at)
+ON CONFLICT (year) DO NOTHING;
+
+ALTER TABLE presales ALTER COLUMN number SET NOT NULL;
+ALTER TABLE presales ADD CONSTRAINT presales_number_unique UNIQUE (number);
+
+-- Add comments for documentation
+COMMENT ON TABLE presale_number_sequences IS 'Last pre-sale number assigned in each year';
+COMMENT ON COLUMN presales.number IS 'Sequential number shown to users, PV-<year>-<sequence>';
@@ -0,0 +1,13 @@
+-- Migration: Add quote settings
+-- Description: Adds the validity period and the commercial terms printed on the pre-sale quote PDF
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+ALTER TABLE system_settings
+  ADD COLUMN IF NOT EXISTS quote_validity_days INTEGER NOT NULL DEFAULT 7
+    CHECK (quote_validity_days BETWEEN 1 AND 365),
+  ADD COLUMN IF NOT EXISTS quote_terms TEXT;
+
+-- Add comments for documentation
+COMMENT ON COLUMN system_settings.quote_validity_days IS 'Days a quote stays valid after it is issued';
+COMMENT ON COLUMN system_settings.quote_terms IS 'Commercial terms printed at the end of the quote PDF';
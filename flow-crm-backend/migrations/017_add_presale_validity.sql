@@ -0,0 +1,27 @@
+-- Migration: Add presale validity
+-- Description: Gives every pre-sale a last valid day and adds the expired status. Pending and approved pre-sales past
+--              that day are moved to expired by the quote expiry job of the server
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- New status, it cannot be used in the same transaction that adds it
+ALTER TYPE presale_status ADD VALUE IF NOT EXISTS 'expired';
+
+-- Add validity column, filled below for the existing pre-sales
+ALTER TABLE presales ADD COLUMN IF NOT EXISTS valid_until DATE;
+
+-- Existing pre-sales get the configured validity counted from their creation
+UPDATE presales
+SET valid_until = created_at::DATE + COALESCE(
+  (SELECT quote_validity_days FROM system_settings ORDER BY created_at LIMIT 1),
+  7
+)
+WHERE valid_until IS NULL;
+
+ALTER TABLE presales ALTER COLUMN valid_until SET NOT NULL;
+
+-- The expiry job looks for open pre-sales past their validity
+CREATE INDEX IF NOT EXISTS idx_presales_status_valid_until ON presales(status, valid_until);
+
+-- Add comments for documentation
+COMMENT ON COLUMN presales.valid_until IS 'Last day the quote is valid, open pre-sales expire after it';
@@ -0,0 +1,33 @@
+-- Migration: Create presale status history
+-- Description: Records every status change of a pre-sale (from, to, user, moment and an optional note) so the
+--              timeline of a quote can be shown and reports can count sales by the day they were converted
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- Create status history table
+CREATE TABLE IF NOT EXISTS presale_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  presale_id UUID NOT NULL REFERENCES presales(id) ON DELETE CASCADE,
+  from_status presale_status,
+  to_status presale_status NOT NULL,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  note TEXT,
+  changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for the timeline and for the conversion date of the reports
+CREATE INDEX IF NOT EXISTS idx_presale_status_history_presale ON presale_status_history(presale_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_presale_status_history_to_status ON presale_status_history(to_status, changed_at);
+
+-- Existing pre-sales start their history with the status they have now, set on their last update
+INSERT INTO presale_status_history (presale_id, from_status, to_status, changed_at, note)
+SELECT id, NULL, status, updated_at, 'Status anterior ao registro do histórico'
+FROM presales
+WHERE NOT EXISTS (
+  SELECT 1 FROM presale_status_history h WHERE h.presale_id = presales.id
+);
+
+-- Add comments for documentation
+COMMENT ON TABLE presale_status_history IS 'Status changes of pre-sales, the first entry of each pre-sale has no from_status';
+COMMENT ON COLUMN presale_status_history.changed_by IS 'User who changed the status, NULL for changes made by the system';
+COMMENT ON COLUMN presale_status_history.changed_at IS 'Moment of the change, the entry to converted is the sale date';
@@ -0,0 +1,30 @@
+-- Migration: Add discount approval
+-- Description: Adds the largest discount each role may give without approval and the awaiting_approval status.
+--              Pre-sales with a larger discount wait for a manager or an administrator before they can be converted
+-- Author: Flow CRM Team
+-- Date: 2026-10-19
+
+-- New status, it cannot be used in the same transaction that adds it
+ALTER TYPE presale_status ADD VALUE IF NOT EXISTS 'awaiting_approval';
+
+-- Discount limits in percent of the gross total, administrators have no limit
+ALTER TABLE system_settings
+  ADD COLUMN IF NOT EXISTS employee_discount_limit DECIMAL(5,2) NOT NULL DEFAULT 10
+    CHECK (employee_discount_limit BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS manager_discount_limit DECIMAL(5,2) NOT NULL DEFAULT 20
+    CHECK (manager_discount_limit BETWEEN 0 AND 100);
+
+-- Discount asked for on each pre-sale and the approval given to it
+ALTER TABLE presales
+  ADD COLUMN IF NOT EXISTS requested_discount DECIMAL(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount_approved_percentage DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS discount_approved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS discount_approved_at TIMESTAMP;
+
+-- Add comments for documentation
+COMMENT ON COLUMN system_settings.employee_discount_limit IS 'Largest discount in percent an employee may give without approval';
+COMMENT ON COLUMN system_settings.manager_discount_limit IS 'Largest discount in percent a manager may give or approve';
+COMMENT ON COLUMN presales.requested_discount IS 'Largest discount of the pre-sale in percent, per item or overall';
+COMMENT ON COLUMN presales.discount_approved_percentage IS 'Discount in percent approved by a manager, NULL when never approved';
+COMMENT ON COLUMN presales.discount_approved_by IS 'User who approved the discount';
+COMMENT ON COLUMN presales.discount_approved_at IS 'Moment the discount was approved';
@@ -8,6 +8,13 @@ const environmentSchema = z.object({
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters long').default('supersecretjwtkeythatisatleastthirtytwocharacterslong'),
   JWT_EXPIRES_IN: z.string().default('24h'),
   FRONTEND_URL: z.string().url('Invalid FRONTEND_URL format').optional(),
+  RETENTION_ENABLED: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  RETENTION_INTERVAL_HOURS: z.string().default('24').transform(Number).pipe(z.number().positive()),
+  RETENTION_ARCHIVE_DIR: z.string().default('./archives'),
+  AUDIT_LOG_RETENTION_DAYS: z.string().default('365').transform(Number).pipe(z.number().int().positive()),
+  STOCK_ADJUSTMENT_RETENTION_DAYS: z.string().default('730').transform(Number).pipe(z.number().int().positive()),
+  QUOTE_EXPIRY_ENABLED: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  QUOTE_EXPIRY_INTERVAL_HOURS: z.string().default('1').transform(Number).pipe(z.number().positive()),
 });
 
 export type Environment = z.infer<typeof environmentSchema>;
@@ -5,7 +5,8 @@ import { z } from 'zod';
  */
 const jwtConfigSchema = z.object({
   secret: z.string().min(32, 'JWT secret must be at least 32 characters'),
-  expiresIn: z.string().default('24h'),
+  expiresIn: z.string().default('15m'),
+  refreshExpiresInDays: z.coerce.number().int().positive().default(7),
   issuer: z.string().default('flow-crm-backend'),
 });
 
@@ -14,7 +15,8 @@ const jwtConfigSchema = z.object({
  */
 const rawJwtConfig = {
   secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production-minimum-32-chars',
-  expiresIn: process.env.JWT_EXPIRES_IN || '24h',
+  expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+  refreshExpiresInDays: process.env.JWT_REFRESH_EXPIRES_IN_DAYS || 7,
   issuer: process.env.JWT_ISSUER || 'flow-crm-backend',
 };
 
@@ -28,7 +30,10 @@ export interface JwtPayload {
   userId: string;
   email: string;
   role: 'admin' | 'manager' | 'employee';
+  jti?: string;
   iat?: number;
+  // Issue time in milliseconds, iat only has second precision
+  iatMs?: number;
   exp?: number;
   iss?: string;
 }
\ No newline at end of file
@@ -1,6 +1,48 @@
+import { Readable } from 'node:stream';
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { auditLogService } from '../services/audit-logs.service';
-import { AuditLogQueryParams, UserIdParams } from '../schemas/audit-logs.schemas';
+import { auditLogService, type AuditLog } from '../services/audit-logs.service';
+import {
+  AuditLogQueryParams,
+  UserIdParams,
+  auditLogQuerySchema,
+  recentAuditLogsQuerySchema,
+  userIdParamSchema,
+  auditHistoryParamsSchema,
+  auditHistoryQuerySchema
+} from '../schemas/audit-logs.schemas';
+import { parseAuditDetails } from '../utils/audit-diff';
+import { type ExportColumn, EXPORT_CONTENT_TYPES, streamCsv } from '../utils/export-formats';
+import { sendInternalError, sendPaginated, sendSuccess, sendValidationError } from '../utils/response-helpers';
+
+const ACTION_LABELS: Record<AuditLog['action'], string> = {
+  login: 'Login',
+  logout: 'Logout',
+  create: 'Criação',
+  update: 'Alteração',
+  delete: 'Exclusão',
+  view: 'Visualização'
+};
+
+/**
+ * Columns of the audit log export
+ * Structured details are split into the summary and the list of changed fields.
+ */
+const AUDIT_LOG_EXPORT_COLUMNS: ExportColumn<AuditLog>[] = [
+  { header: 'Data', value: log => log.createdAt.toISOString() },
+  { header: 'Usuário', value: log => log.userName },
+  { header: 'Ação', value: log => ACTION_LABELS[log.action] ?? log.action },
+  { header: 'Recurso', value: log => log.resource },
+  { header: 'ID do Recurso', value: log => log.resourceId },
+  { header: 'Detalhes', value: log => parseAuditDetails(log.details)?.summary ?? log.details },
+  {
+    header: 'Alterações',
+    value: log =>
+      parseAuditDetails(log.details)
+        ?.changes.map(change => `${change.field}: ${change.from ?? '-'} -> ${change.to ?? '-'}`)
+        .join(' | ') ?? null
+  },
+  { header: 'IP', value: log => log.ipAddress }
+];
 
 /**
  * Audit Logs Controller
@@ -11,49 +53,52 @@ export class AuditLogsController {
    * Get all audit logs with pagination and filters
    * GET /api/audit-logs
    */
-  async getAuditLogs(
-    request: FastifyRequest<{ Querystring: AuditLogQueryParams }>,
-    reply: FastifyReply
-  ): Promise<void> {
+  async getAuditLogs(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     try {
-      const filters = request.query;
+      const queryValidation = auditLogQuerySchema.safeParse(request.query);
 
-      // Get audit logs
-      const logs = await auditLogService.findAll(filters);
+      if (!queryValidation.success) {
+        return sendValidationError(reply, queryValidation.error.issues[0]?.message || 'Validation failed');
+      }
 
-      // Get total count for pagination
-      const total = await auditLogService.count(filters);
+      const filters = queryValidation.data;
+      const [logs, total] = await Promise.all([
+        auditLogService.findAll(filters),
+        auditLogService.count(filters)
+      ]);
 
-      // Calculate pagination metadata
-      const { page = 1, limit = 50 } = filters;
-      const totalPages = Math.ceil(total / limit);
-
-      reply.status(200).send({
-        success: true,
-        data: logs,
-        pagination: {
-          total,
-          page,
-          limit,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        },
-        message: 'Audit logs retrieved successfully',
-        timestamp: new Date().toISOString()
-      });
+      return sendPaginated(reply, logs, total, filters.page, filters.limit, 'Audit logs retrieved successfully');
     } catch (error) {
+      console.error('Error getting audit logs:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve audit logs';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
 
-      reply.status(500).send({
-        success: false,
-        error: {
-          code: 'FETCH_FAILED',
-          message: errorMessage
-        },
-        timestamp: new Date().toISOString(),
-        path: request.url
-      });
+  /**
+   * Export the audit logs matching the filters as CSV
+   * GET /api/audit-logs/export
+   */
+  async exportAuditLogs(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const queryValidation = auditLogQuerySchema.safeParse(request.query);
+
+      if (!queryValidation.success) {
+        return sendValidationError(reply, queryValidation.error.issues[0]?.message || 'Validation failed');
+      }
+
+      const fileName = `auditoria_${new Date().toISOString().split('T')[0]}.csv`;
+      const stream = Readable.from(streamCsv(AUDIT_LOG_EXPORT_COLUMNS, auditLogService.iterateAll(queryValidation.data)));
+      stream.on('error', (error) => console.error('Error streaming audit logs export:', error));
+
+      return reply
+        .header('Content-Type', EXPORT_CONTENT_TYPES.csv)
+        .header('Content-Disposition', `attachment; filename="${fileName}"`)
+        .send(stream);
+    } catch (error) {
+      console.error('Error exporting audit logs:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to export audit logs';
+      return sendInternalError(reply, errorMessage);
     }
   }
 
@@ -113,35 +158,23 @@ export class AuditLogsController {
 
   /**
    * Get audit statistics for a user
-   * GET /api/users/:userId/audit-stats
+   * GET /api/audit-logs/users/:userId/stats
    */
-  async getUserAuditStats(
-    request: FastifyRequest<{ Params: UserIdParams }>,
-    reply: FastifyReply
-  ): Promise<void> {
+  async getUserAuditStats(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     try {
-      const { userId } = request.params;
+      const paramsValidation = userIdParamSchema.safeParse(request.params);
 
-      const stats = await auditLogService.getUserStatistics(userId);
+      if (!paramsValidation.success) {
+        return sendValidationError(reply, paramsValidation.error.issues[0]?.message || 'Validation failed');
+      }
 
-      reply.status(200).send({
-        success: true,
-        data: stats,
-        message: 'User audit statistics retrieved successfully',
-        timestamp: new Date().toISOString()
-      });
+      const stats = await auditLogService.getUserStatistics(paramsValidation.data.userId);
+
+      return sendSuccess(reply, stats, 'User audit statistics retrieved successfully');
     } catch (error) {
+      console.error('Error getting user audit statistics:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve user audit statistics';
-
-      reply.status(500).send({
-        success: false,
-        error: {
-          code: 'FETCH_FAILED',
-          message: errorMessage
-        },
-        timestamp: new Date().toISOString(),
-        path: request.url
-      });
+      return sendInternalError(reply, errorMessage);
     }
   }
 
@@ -149,33 +182,50 @@ export class AuditLogsController {
    * Get recent audit logs
    * GET /api/audit-logs/recent
    */
-  async getRecentAuditLogs(
-    request: FastifyRequest<{ Querystring: { limit?: number } }>,
-    reply: FastifyReply
-  ): Promise<void> {
+  async getRecentAuditLogs(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     try {
-      const limit = request.query.limit || 50;
+      const queryValidation = recentAuditLogsQuerySchema.safeParse(request.query);
 
-      const logs = await auditLogService.findRecent(limit);
+      if (!queryValidation.success) {
+        return sendValidationError(reply, queryValidation.error.issues[0]?.message || 'Validation failed');
+      }
 
-      reply.status(200).send({
-        success: true,
-        data: logs,
-        message: 'Recent audit logs retrieved successfully',
-        timestamp: new Date().toISOString()
-      });
+      const logs = await auditLogService.findRecent(queryValidation.data.limit);
+
+      return sendSuccess(reply, logs, 'Recent audit logs retrieved successfully');
     } catch (error) {
+      console.error('Error getting recent audit logs:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve recent audit logs';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
 
-      reply.status(500).send({
-        success: false,
-        error: {
-          code: 'FETCH_FAILED',
-          message: errorMessage
-        },
-        timestamp: new Date().toISOString(),
-        path: request.url
-      });
+  /**
+   * Get the change history of a product, customer or pre-sale
+   * GET /api/products/:id/history, /api/customers/:id/history, /api/presales/:id/history
+   * Access to the record is checked by the module routes.
+   */
+  async getResourceHistory(resources: string[], request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = auditHistoryParamsSchema.safeParse(request.params);
+      const queryValidation = auditHistoryQuerySchema.safeParse(request.query);
+
+      if (!paramsValidation.success) {
+        return sendValidationError(reply, paramsValidation.error.issues[0]?.message || 'Validation failed');
+      }
+
+      if (!queryValidation.success) {
+        return sendValidationError(reply, queryValidation.error.issues[0]?.message || 'Validation failed');
+      }
+
+      const { page, limit } = queryValidation.data;
+      const { entries, total } = await auditLogService.findHistory(resources, paramsValidation.data.id, page, limit);
+
+      return sendPaginated(reply, entries, total, page, limit, 'History retrieved successfully');
+    } catch (error) {
+      console.error('Error getting history:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve history';
+      return sendInternalError(reply, errorMessage);
     }
   }
 }
@@ -0,0 +1,188 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { commissionService } from '../services/commissions.service';
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  sendNotFound,
+  sendBadRequest,
+  sendInternalError,
+  sendValidationError
+} from '../utils/response-helpers';
+import {
+  validateCreateCommissionRule,
+  validateUpdateCommissionRule,
+  validateCommissionRuleId,
+  validateCommissionRuleFilters,
+  getValidationErrorMessage,
+  getValidationErrorDetails
+} from '../schemas/commissions.schemas';
+import { AuditHelper } from '../utils/audit-helper';
+
+/**
+ * Commissions controller handling commission rule HTTP requests
+ */
+export class CommissionsController {
+  /**
+   * Get all commission rules with optional filtering
+   * GET /api/commissions/rules
+   */
+  async getRules(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const filtersValidation = validateCommissionRuleFilters(request.query);
+
+      if (!filtersValidation.success) {
+        const errorMessage = getValidationErrorMessage(filtersValidation.error);
+        const errorDetails = getValidationErrorDetails(filtersValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const rules = await commissionService.findAll(filtersValidation.data);
+
+      return sendSuccess(reply, rules, 'Commission rules retrieved successfully');
+    } catch (error) {
+      console.error('Error getting commission rules:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve commission rules';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Create a commission rule
+   * POST /api/commissions/rules
+   */
+  async createRule(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateCreateCommissionRule(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const rule = await commissionService.create(bodyValidation.data);
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logCreate(
+          'commissions',
+          rule.id,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request,
+          `Created commission rule: ${rule.name} (${rule.rate}%)`
+        );
+      }
+
+      return sendCreated(reply, rule, 'Commission rule created successfully');
+    } catch (error) {
+      console.error('Error creating commission rule:', error);
+      return this.handleServiceError(reply, error, 'Failed to create commission rule');
+    }
+  }
+
+  /**
+   * Update a commission rule
+   * PUT /api/commissions/rules/:id
+   */
+  async updateRule(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validateCommissionRuleId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateUpdateCommissionRule(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const rule = await commissionService.update(id, bodyValidation.data);
+
+      if (!rule) {
+        return sendNotFound(reply, 'Commission rule not found');
+      }
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logUpdate(
+          'commissions',
+          id,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request,
+          `Updated commission rule: ${rule.name}`
+        );
+      }
+
+      return sendSuccess(reply, rule, 'Commission rule updated successfully');
+    } catch (error) {
+      console.error('Error updating commission rule:', error);
+      return this.handleServiceError(reply, error, 'Failed to update commission rule');
+    }
+  }
+
+  /**
+   * Delete a commission rule
+   * DELETE /api/commissions/rules/:id
+   */
+  async deleteRule(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validateCommissionRuleId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const deleted = await commissionService.delete(id);
+
+      if (!deleted) {
+        return sendNotFound(reply, 'Commission rule not found');
+      }
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logDelete(
+          'commissions',
+          id,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request
+        );
+      }
+
+      return sendNoContent(reply);
+    } catch (error) {
+      console.error('Error deleting commission rule:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete commission rule';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Map commission service errors to HTTP responses
+   */
+  private handleServiceError(reply: FastifyReply, error: unknown, fallbackMessage: string) {
+    const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+
+    if (errorMessage.includes('Salesperson not found')) {
+      return sendBadRequest(reply, errorMessage);
+    }
+
+    return sendInternalError(reply, errorMessage);
+  }
+}
+
+// Export singleton instance
+export const commissionsController = new CommissionsController();
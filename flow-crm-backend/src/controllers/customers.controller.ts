@@ -1,5 +1,9 @@
+import { Readable } from 'node:stream';
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { customerService, CustomerFilters } from '../services/customers.service';
+import { customerService, type Customer, CustomerFilters } from '../services/customers.service';
+import { customerImportService } from '../services/customer-import.service';
+import { ValidationError } from '../types/error.types';
+import { AuditHelper } from '../utils/audit-helper';
 import {
   sendSuccess,
   sendCreated,
@@ -16,9 +20,36 @@ import {
   validateUpdateCustomer,
   validateCustomerFilters,
   validateCustomerId,
+  validateCustomerImport,
+  validateCustomerMerge,
   getValidationErrorMessage,
   getValidationErrorDetails
 } from '../schemas/customers.schemas';
+import { formatDocument } from '../utils/cpf-cnpj-validator';
+import { type ExportColumn, EXPORT_CONTENT_TYPES, streamCsv } from '../utils/export-formats';
+
+const TIER_LABELS: Record<Customer['tier'], string> = {
+  regular: 'Regular',
+  premium: 'Premium',
+  vip: 'VIP'
+};
+
+/**
+ * Columns of the customer export, the same headers are read back by the customer import
+ */
+const CUSTOMER_EXPORT_COLUMNS: ExportColumn<Customer>[] = [
+  { header: 'Nome', value: customer => customer.name },
+  { header: 'E-mail', value: customer => customer.email },
+  { header: 'Telefone', value: customer => customer.phone },
+  { header: 'CPF/CNPJ', value: customer => formatDocument(customer.cpf, customer.documentType) },
+  { header: 'Tipo de Documento', value: customer => customer.documentType.toUpperCase() },
+  { header: 'Razão Social', value: customer => customer.companyName },
+  { header: 'Inscrição Estadual', value: customer => customer.stateRegistration },
+  { header: 'Endereço', value: customer => customer.address ?? null },
+  { header: 'UF', value: customer => customer.state },
+  { header: 'Nível', value: customer => TIER_LABELS[customer.tier] },
+  { header: 'Desconto', value: customer => customer.discountRate !== null ? parseFloat(customer.discountRate) : null }
+];
 
 /**
  * Customer controller handling all customer-related HTTP requests
@@ -66,6 +97,125 @@ export class CustomerController {
     }
   }
 
+  /**
+   * Export customers as CSV, streamed
+   * GET /api/customers/export
+   */
+  async exportCustomers(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const filtersValidation = validateCustomerFilters(request.query);
+
+      if (!filtersValidation.success) {
+        const errorMessage = getValidationErrorMessage(filtersValidation.error);
+        const errorDetails = getValidationErrorDetails(filtersValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const fileName = `clientes_${new Date().toISOString().split('T')[0]}.csv`;
+      const stream = Readable.from(
+        streamCsv(CUSTOMER_EXPORT_COLUMNS, customerService.iterateAll(filtersValidation.data))
+      );
+      stream.on('error', (error) => console.error('Error streaming customers export:', error));
+
+      return reply
+        .header('Content-Type', EXPORT_CONTENT_TYPES.csv)
+        .header('Content-Disposition', `attachment; filename="${fileName}"`)
+        .send(stream);
+    } catch (error) {
+      console.error('Error exporting customers:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to export customers';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Import customers from CSV, previewing by default
+   * POST /api/customers/import
+   */
+  async importCustomers(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateCustomerImport(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { content, dryRun } = bodyValidation.data;
+      const result = await customerImportService.importCustomers(Buffer.from(content, 'base64'), {
+        dryRun,
+        auditContext: AuditHelper.getContext(request)
+      });
+
+      // A real import with invalid rows is rolled back, the rows tell what to fix
+      if (!dryRun && !result.committed) {
+        return sendValidationError(reply, `${result.summary.errors} rows have errors, no customer was imported`, result);
+      }
+
+      return sendSuccess(reply, result, dryRun ? 'Import preview generated' : 'Customers imported successfully');
+    } catch (error) {
+      console.error('Error importing customers:', error);
+
+      if (error instanceof ValidationError) {
+        return sendValidationError(reply, error.message, error.details);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to import customers';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * List groups of customers that look like duplicates
+   * GET /api/customers/duplicates
+   */
+  async getDuplicates(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const groups = await customerService.findDuplicates();
+
+      return sendSuccess(reply, groups, 'Duplicate customers retrieved successfully');
+    } catch (error) {
+      console.error('Error getting duplicate customers:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve duplicate customers';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Merge a duplicate customer into another one
+   * POST /api/customers/merge
+   */
+  async mergeCustomers(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateCustomerMerge(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { sourceId, targetId } = bodyValidation.data;
+      const result = await customerService.merge(sourceId, targetId, AuditHelper.getContext(request));
+
+      return sendSuccess(reply, result, 'Customers merged successfully');
+    } catch (error) {
+      console.error('Error merging customers:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to merge customers';
+
+      if (errorMessage.includes('Customer not found')) {
+        return sendNotFound(reply, 'Customer not found');
+      }
+
+      if (errorMessage.includes('into itself')) {
+        return sendBadRequest(reply, errorMessage);
+      }
+
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
   /**
    * Get customer by ID
    * GET /api/customers/:id
@@ -116,6 +266,8 @@ export class CustomerController {
 
       const customer = await customerService.create(customerData);
 
+      await AuditHelper.logMutation('customer', customer.id, request, null, customer, `Created customer ${customer.name}`);
+
       return sendCreated(reply, customer, 'Customer created successfully');
     } catch (error) {
       console.error('Error creating customer:', error);
@@ -130,10 +282,22 @@ export class CustomerController {
         return sendConflict(reply, 'A customer with this email already exists');
       }
 
+      if (errorMessage.includes('CNPJ already exists')) {
+        return sendConflict(reply, 'A customer with this CNPJ already exists');
+      }
+
       if (errorMessage.includes('Invalid CPF format')) {
         return sendBadRequest(reply, 'Invalid CPF format');
       }
 
+      if (errorMessage.includes('Invalid CNPJ format')) {
+        return sendBadRequest(reply, 'Invalid CNPJ format');
+      }
+
+      if (errorMessage.includes('Company name is required')) {
+        return sendBadRequest(reply, 'Company name is required for CNPJ customers');
+      }
+
       return sendInternalError(reply, errorMessage);
     }
   }
@@ -165,8 +329,11 @@ export class CustomerController {
       const { id } = paramsValidation.data;
       const customerData = bodyValidation.data;
 
+      const previous = await customerService.findById(id);
       const customer = await customerService.update(id, customerData);
 
+      await AuditHelper.logMutation('customer', id, request, previous, customer, `Updated customer ${customer.name}`);
+
       return sendSuccess(reply, customer, 'Customer updated successfully');
     } catch (error) {
       console.error('Error updating customer:', error);
@@ -185,10 +352,22 @@ export class CustomerController {
         return sendConflict(reply, 'A customer with this email already exists');
       }
 
+      if (errorMessage.includes('CNPJ already exists')) {
+        return sendConflict(reply, 'A customer with this CNPJ already exists');
+      }
+
       if (errorMessage.includes('Invalid CPF format')) {
         return sendBadRequest(reply, 'Invalid CPF format');
       }
 
+      if (errorMessage.includes('Invalid CNPJ format')) {
+        return sendBadRequest(reply, 'Invalid CNPJ format');
+      }
+
+      if (errorMessage.includes('Company name is required')) {
+        return sendBadRequest(reply, 'Company name is required for CNPJ customers');
+      }
+
       return sendInternalError(reply, errorMessage);
     }
   }
@@ -210,8 +389,13 @@ export class CustomerController {
 
       const { id } = paramsValidation.data;
 
+      const previous = await customerService.findById(id);
       await customerService.delete(id);
 
+      if (previous) {
+        await AuditHelper.logMutation('customer', id, request, previous, null, `Deleted customer ${previous.name}`);
+      }
+
       return sendNoContent(reply);
     } catch (error) {
       console.error('Error deleting customer:', error);
@@ -222,8 +406,8 @@ export class CustomerController {
         return sendNotFound(reply, 'Customer not found');
       }
 
-      if (errorMessage.includes('active pre-sales')) {
-        return sendConflict(reply, 'Cannot delete customer with active pre-sales');
+      if (errorMessage.includes('Customer has pre-sales')) {
+        return sendConflict(reply, 'Cannot delete customer with pre-sales, merge it into another customer instead');
       }
 
       return sendInternalError(reply, errorMessage);
@@ -7,6 +7,8 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { CacheMonitor } from '../utils/cache-manager';
 import { DatabaseOptimizer } from '../utils/database-optimizer';
 import { auditLogger } from '../utils/audit-logger';
+import { retentionService } from '../services/retention.service';
+import { quoteExpiryService } from '../services/quote-expiry.service';
 import { sendSuccess, sendInternalError } from '../utils/response-helpers';
 
 /**
@@ -70,6 +72,38 @@ export class MonitoringController {
         }
     }
 
+    /**
+     * Get the status of the data retention jobs
+     * GET /api/monitoring/retention-jobs
+     */
+    async getRetentionJobs(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
+        try {
+            return sendSuccess(reply, {
+                retention: retentionService.getStatus(),
+                timestamp: new Date().toISOString()
+            }, 'Retention jobs status retrieved successfully');
+        } catch (error) {
+            console.error('Error retrieving retention jobs status:', error);
+            return sendInternalError(reply, 'Failed to retrieve retention jobs status');
+        }
+    }
+
+    /**
+     * Get the status of the quote expiry job
+     * GET /api/monitoring/quote-expiry
+     */
+    async getQuoteExpiry(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
+        try {
+            return sendSuccess(reply, {
+                quoteExpiry: quoteExpiryService.getStatus(),
+                timestamp: new Date().toISOString()
+            }, 'Quote expiry job status retrieved successfully');
+        } catch (error) {
+            console.error('Error retrieving quote expiry job status:', error);
+            return sendInternalError(reply, 'Failed to retrieve quote expiry job status');
+        }
+    }
+
     /**
      * Get comprehensive system metrics
      * GET /api/monitoring/system-metrics
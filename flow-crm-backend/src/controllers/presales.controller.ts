@@ -1,5 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { preSalesService, PreSalesFilters } from '../services/presales.service';
+import { preSalesService, PreSalesFilters, PreSaleWithItems } from '../services/presales.service';
+import { preSaleQuotesService } from '../services/presale-quotes.service';
+import { preSaleStatusHistoryService } from '../services/presale-status-history.service';
 import { PreSaleStatus } from '../types/common.types';
 import {
   sendSuccess,
@@ -8,6 +10,7 @@ import {
   sendBadRequest,
   sendNotFound,
   sendConflict,
+  sendForbidden,
   sendInternalError,
   sendPaginated,
   sendValidationError
@@ -16,12 +19,18 @@ import {
   validateCreatePreSale,
   validateUpdatePreSale,
   validateUpdatePreSaleStatus,
+  validateApproveDiscount,
+  validateRejectDiscount,
   validatePreSaleFilters,
   validatePreSaleId,
   getValidationErrorMessage,
   getValidationErrorDetails,
   validatePreSaleBusinessRules
 } from '../schemas/presales.schemas';
+import { canViewAllPreSales } from '../middlewares/auth.middleware';
+import { AuditHelper } from '../utils/audit-helper';
+import { auditLogsController } from './audit-logs.controller';
+import { getQuoteFileName } from '../utils/quote-pdf';
 
 /**
  * PreSales controller handling all pre-sales-related HTTP requests
@@ -44,6 +53,11 @@ export class PreSalesController {
 
       const filters = filtersValidation.data;
 
+      // Users without canViewAll only list their own pre-sales
+      if (!canViewAllPreSales(request)) {
+        filters.salespersonId = request.user?.id;
+      }
+
       const preSales = await preSalesService.findAll(filters);
       const total = await preSalesService.count(filters);
 
@@ -81,7 +95,7 @@ export class PreSalesController {
 
       const preSale = await preSalesService.findById(id);
 
-      if (!preSale) {
+      if (!preSale || !this.canAccessPreSale(request, preSale)) {
         return sendNotFound(reply, 'Pre-sale not found');
       }
 
@@ -93,6 +107,94 @@ export class PreSalesController {
     }
   }
 
+  /**
+   * Get the change history of a pre-sale
+   * GET /api/presales/:id/history
+   */
+  async getPreSaleHistory(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePreSaleId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      if (!(await this.findAccessiblePreSale(request, paramsValidation.data.id))) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      return auditLogsController.getResourceHistory(['presale'], request, reply);
+    } catch (error) {
+      console.error('Error getting pre-sale history:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve pre-sale history';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Get the status timeline of a pre-sale
+   * GET /api/presales/:id/status-history
+   */
+  async getPreSaleStatusHistory(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePreSaleId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+
+      if (!(await this.findAccessiblePreSale(request, id))) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      const history = await preSaleStatusHistoryService.findByPreSaleId(id);
+
+      return sendSuccess(reply, history, 'Pre-sale status history retrieved successfully');
+    } catch (error) {
+      console.error('Error getting pre-sale status history:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve pre-sale status history';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Download the quote PDF of a pre-sale
+   * GET /api/presales/:id/pdf
+   */
+  async getPreSalePdf(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePreSaleId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const preSale = await this.findAccessiblePreSale(request, paramsValidation.data.id);
+      if (!preSale) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      const pdf = await preSaleQuotesService.renderPdf(preSale);
+
+      return reply
+        .header('Content-Type', 'application/pdf')
+        .header('Content-Disposition', `attachment; filename="${getQuoteFileName(preSale.number)}"`)
+        .send(pdf);
+    } catch (error) {
+      console.error('Error generating pre-sale PDF:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to generate pre-sale PDF';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
   /**
    * Create a new pre-sale with items
    * POST /api/presales
@@ -125,7 +227,19 @@ export class PreSalesController {
       }
 
       // Service handles automatic discount conversion
-      const preSale = await preSalesService.create(preSaleData);
+      const preSale = await preSalesService.create({
+        ...preSaleData,
+        salespersonId: request.user?.id ?? null
+      });
+
+      await AuditHelper.logMutation(
+        'presale',
+        preSale.id,
+        request,
+        null,
+        preSalesService.toAuditSnapshot(preSale),
+        'Created pre-sale'
+      );
 
       return sendCreated(reply, preSale, 'Pre-sale created successfully');
     } catch (error) {
@@ -145,6 +259,10 @@ export class PreSalesController {
         return sendConflict(reply, errorMessage);
       }
 
+      if (errorMessage.includes('Invalid quantity')) {
+        return sendBadRequest(reply, errorMessage);
+      }
+
       return sendInternalError(reply, errorMessage);
     }
   }
@@ -181,6 +299,11 @@ export class PreSalesController {
       const { id } = paramsValidation.data;
       const preSaleData = bodyValidation.data;
 
+      const previous = await this.findAccessiblePreSale(request, id);
+      if (!previous) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
       // Validate business rules
       const businessRuleErrors = validatePreSaleBusinessRules(preSaleData);
       if (businessRuleErrors.length > 0) {
@@ -188,7 +311,16 @@ export class PreSalesController {
       }
 
       // Service handles automatic discount conversion
-      const preSale = await preSalesService.update(id, preSaleData);
+      const preSale = await preSalesService.update(id, preSaleData, { changedBy: request.user?.id ?? null });
+
+      await AuditHelper.logMutation(
+        'presale',
+        id,
+        request,
+        preSalesService.toAuditSnapshot(previous),
+        preSalesService.toAuditSnapshot(preSale),
+        'Updated pre-sale'
+      );
 
       return sendSuccess(reply, preSale, 'Pre-sale updated successfully');
     } catch (error) {
@@ -212,10 +344,22 @@ export class PreSalesController {
         return sendConflict(reply, errorMessage);
       }
 
+      if (errorMessage.includes('Invalid quantity')) {
+        return sendBadRequest(reply, errorMessage);
+      }
+
       if (errorMessage.includes('Invalid status transition')) {
         return sendBadRequest(reply, errorMessage);
       }
 
+      if (errorMessage.includes('Quote expired')) {
+        return sendConflict(reply, errorMessage);
+      }
+
+      if (errorMessage.includes('requires manager approval')) {
+        return sendConflict(reply, errorMessage);
+      }
+
       return sendInternalError(reply, errorMessage);
     }
   }
@@ -237,8 +381,22 @@ export class PreSalesController {
 
       const { id } = paramsValidation.data;
 
+      const previous = await this.findAccessiblePreSale(request, id);
+      if (!previous) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
       await preSalesService.delete(id);
 
+      await AuditHelper.logMutation(
+        'presale',
+        id,
+        request,
+        preSalesService.toAuditSnapshot(previous),
+        null,
+        'Deleted pre-sale'
+      );
+
       return sendNoContent(reply);
     } catch (error) {
       console.error('Error deleting pre-sale:', error);
@@ -278,9 +436,26 @@ export class PreSalesController {
       }
 
       const { id } = paramsValidation.data;
-      const { status } = bodyValidation.data;
+      const { status, note } = bodyValidation.data;
 
-      const preSale = await preSalesService.updateStatus(id, status);
+      const previous = await this.findAccessiblePreSale(request, id);
+      if (!previous) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      const preSale = await preSalesService.updateStatus(id, status, {
+        changedBy: request.user?.id ?? null,
+        note
+      });
+
+      await AuditHelper.logMutation(
+        'presale',
+        id,
+        request,
+        preSalesService.toAuditSnapshot(previous),
+        preSalesService.toAuditSnapshot({ ...previous, ...preSale }),
+        `Changed pre-sale status to ${preSale.status}`
+      );
 
       return sendSuccess(reply, preSale, 'Pre-sale status updated successfully');
     } catch (error) {
@@ -292,13 +467,223 @@ export class PreSalesController {
         return sendNotFound(reply, 'Pre-sale not found');
       }
 
+      if (errorMessage.includes('Insufficient stock')) {
+        return sendConflict(reply, errorMessage);
+      }
+
       if (errorMessage.includes('Invalid status transition')) {
         return sendBadRequest(reply, errorMessage);
       }
 
+      if (errorMessage.includes('Quote expired')) {
+        return sendConflict(reply, errorMessage);
+      }
+
+      if (errorMessage.includes('requires manager approval')) {
+        return sendConflict(reply, errorMessage);
+      }
+
       return sendInternalError(reply, errorMessage);
     }
   }
+
+  /**
+   * Renew a quote at the current product prices with a new validity period
+   * POST /api/presales/:id/renew
+   */
+  async renewPreSale(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePreSaleId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+
+      const previous = await this.findAccessiblePreSale(request, id);
+      if (!previous) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      const preSale = await preSalesService.renew(id, { changedBy: request.user?.id ?? null });
+
+      await AuditHelper.logMutation(
+        'presale',
+        id,
+        request,
+        preSalesService.toAuditSnapshot(previous),
+        preSalesService.toAuditSnapshot(preSale),
+        'Renewed pre-sale quote'
+      );
+
+      return sendSuccess(reply, preSale, 'Pre-sale renewed successfully');
+    } catch (error) {
+      console.error('Error renewing pre-sale:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to renew pre-sale';
+
+      if (errorMessage.includes('Pre-sale not found')) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      if (errorMessage.includes('Cannot renew')) {
+        return sendBadRequest(reply, errorMessage);
+      }
+
+      if (errorMessage.includes('Product not found')) {
+        return sendNotFound(reply, errorMessage);
+      }
+
+      if (errorMessage.includes('Insufficient stock')) {
+        return sendConflict(reply, errorMessage);
+      }
+
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Approve the discount of a pre-sale awaiting approval
+   * POST /api/presales/:id/approve-discount
+   */
+  async approvePreSaleDiscount(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePreSaleId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateApproveDiscount(request.body ?? {});
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+
+      const previous = await this.findAccessiblePreSale(request, id);
+      if (!previous || !request.user) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      const preSale = await preSalesService.approveDiscount(
+        id,
+        { id: request.user.id, role: request.user.role },
+        bodyValidation.data.reason
+      );
+
+      await AuditHelper.logMutation(
+        'presale',
+        id,
+        request,
+        preSalesService.toAuditSnapshot(previous),
+        preSalesService.toAuditSnapshot(preSale),
+        `Approved pre-sale discount of ${parseFloat(preSale.requestedDiscount)}%`
+      );
+
+      return sendSuccess(reply, preSale, 'Pre-sale discount approved successfully');
+    } catch (error) {
+      console.error('Error approving pre-sale discount:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to approve pre-sale discount';
+
+      if (errorMessage.includes('Pre-sale not found')) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      if (errorMessage.includes('not awaiting discount approval')) {
+        return sendConflict(reply, errorMessage);
+      }
+
+      if (errorMessage.includes('above your approval limit')) {
+        return sendForbidden(reply, errorMessage);
+      }
+
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Reject the discount of a pre-sale awaiting approval, sending it back to draft
+   * POST /api/presales/:id/reject-discount
+   */
+  async rejectPreSaleDiscount(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePreSaleId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateRejectDiscount(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+
+      const previous = await this.findAccessiblePreSale(request, id);
+      if (!previous) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      const preSale = await preSalesService.rejectDiscount(id, {
+        changedBy: request.user?.id ?? null,
+        note: bodyValidation.data.reason
+      });
+
+      await AuditHelper.logMutation(
+        'presale',
+        id,
+        request,
+        preSalesService.toAuditSnapshot(previous),
+        preSalesService.toAuditSnapshot(preSale),
+        `Rejected pre-sale discount of ${parseFloat(preSale.requestedDiscount)}%`
+      );
+
+      return sendSuccess(reply, preSale, 'Pre-sale discount rejected successfully');
+    } catch (error) {
+      console.error('Error rejecting pre-sale discount:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reject pre-sale discount';
+
+      if (errorMessage.includes('Pre-sale not found')) {
+        return sendNotFound(reply, 'Pre-sale not found');
+      }
+
+      if (errorMessage.includes('not awaiting discount approval')) {
+        return sendConflict(reply, errorMessage);
+      }
+
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Check if the authenticated user can access a pre-sale.
+   * Pre-sales of other salespeople are reported as not found to avoid leaking their existence.
+   */
+  private canAccessPreSale(request: FastifyRequest, preSale: PreSaleWithItems): boolean {
+    return canViewAllPreSales(request) || preSale.salespersonId === request.user?.id;
+  }
+
+  /**
+   * Load a pre-sale the authenticated user can access, null when it does not exist or belongs to someone else
+   */
+  private async findAccessiblePreSale(request: FastifyRequest, id: string): Promise<PreSaleWithItems | null> {
+    const preSale = await preSalesService.findById(id);
+    return preSale && this.canAccessPreSale(request, preSale) ? preSale : null;
+  }
 }
 
 // Export singleton instance
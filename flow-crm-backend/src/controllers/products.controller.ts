@@ -1,6 +1,9 @@
+import { Readable } from 'node:stream';
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { productService, ProductFilters } from '../services/products.service';
+import { productService, type Product, ProductFilters } from '../services/products.service';
+import { productImportService } from '../services/product-import.service';
 import { ValidationError } from '../types/error.types';
+import { AuditHelper } from '../utils/audit-helper';
 import {
   sendSuccess,
   sendCreated,
@@ -16,10 +19,41 @@ import {
   validateCreateProduct,
   validateUpdateProduct,
   validateProductFilters,
+  validateProductExport,
+  validateLowStockQuery,
+  validateBulkUpdateProducts,
+  validateProductImport,
   validateProductId,
   getValidationErrorMessage,
   getValidationErrorDetails
 } from '../schemas/products.schemas';
+import {
+  type ExportColumn,
+  EXPORT_CONTENT_TYPES,
+  streamCsv,
+  streamXlsx
+} from '../utils/export-formats';
+
+/**
+ * Columns of the product export (Portuguese headers, the files go to suppliers and the accountant)
+ */
+const PRODUCT_EXPORT_COLUMNS: ExportColumn<Product>[] = [
+  { header: 'Código', value: product => product.code },
+  { header: 'Nome', value: product => product.name },
+  { header: 'Descrição', value: product => product.description },
+  { header: 'Categoria', value: product => product.category },
+  { header: 'Unidade', value: product => product.unit },
+  { header: 'Tipo de Venda', value: product => product.saleType === 'fractional' ? 'Fracionado' : 'Unidade' },
+  { header: 'Estoque', value: product => product.stock },
+  { header: 'Reservado', value: product => product.reservedStock ?? 0 },
+  { header: 'Disponível', value: product => product.availableStock ?? product.stock },
+  { header: 'Estoque Mínimo', value: product => product.minStock },
+  { header: 'Ponto de Pedido', value: product => product.reorderPoint },
+  { header: 'Estoque Máximo', value: product => product.maxStock },
+  { header: 'Preço de Custo', value: product => parseFloat(product.purchasePrice) },
+  { header: 'Preço de Venda', value: product => parseFloat(product.salePrice) },
+  { header: 'NCM', value: product => product.ncm }
+];
 
 /**
  * Product controller handling all product-related HTTP requests
@@ -60,6 +94,76 @@ export class ProductController {
     }
   }
 
+  /**
+   * Get the products whose available stock reached their reorder point
+   * GET /api/products/low-stock?threshold=10
+   */
+  async getLowStockProducts(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const queryValidation = validateLowStockQuery(request.query);
+
+      if (!queryValidation.success) {
+        const errorMessage = getValidationErrorMessage(queryValidation.error);
+        const errorDetails = getValidationErrorDetails(queryValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const lowStockProducts = await productService.findLowStock(queryValidation.data);
+
+      return sendSuccess(reply, lowStockProducts, 'Low stock products retrieved successfully');
+    } catch (error) {
+      console.error('Error getting low stock products:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve low stock products';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Export every product matching the filters as CSV or XLSX
+   * GET /api/products/export?format=csv|xlsx
+   */
+  async exportProducts(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      // Validate format and filters
+      const exportValidation = validateProductExport(request.query);
+
+      if (!exportValidation.success) {
+        const errorMessage = getValidationErrorMessage(exportValidation.error);
+        const errorDetails = getValidationErrorDetails(exportValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const filtersValidation = validateProductFilters(request.query);
+
+      if (!filtersValidation.success) {
+        const errorMessage = getValidationErrorMessage(filtersValidation.error);
+        const errorDetails = getValidationErrorDetails(filtersValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { format } = exportValidation.data;
+      const rows = productService.iterateAll(filtersValidation.data);
+      const fileName = `produtos_${new Date().toISOString().split('T')[0]}.${format}`;
+
+      // Rows are read in batches and written as they come, the list is never held in memory
+      const stream = Readable.from(
+        format === 'xlsx'
+          ? streamXlsx(PRODUCT_EXPORT_COLUMNS, rows, 'Produtos')
+          : streamCsv(PRODUCT_EXPORT_COLUMNS, rows)
+      );
+      stream.on('error', (error) => console.error('Error streaming products export:', error));
+
+      return reply
+        .header('Content-Type', EXPORT_CONTENT_TYPES[format])
+        .header('Content-Disposition', `attachment; filename="${fileName}"`)
+        .send(stream);
+    } catch (error) {
+      console.error('Error exporting products:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to export products';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
   /**
    * Get product by ID
    * GET /api/products/:id
@@ -110,6 +214,8 @@ export class ProductController {
 
       const product = await productService.create(productData);
 
+      await AuditHelper.logMutation('product', product.id, request, null, product, `Created product ${product.code}`);
+
       return sendCreated(reply, product, 'Product created successfully');
     } catch (error) {
       console.error('Error creating product:', error);
@@ -132,6 +238,14 @@ export class ProductController {
         return sendBadRequest(reply, 'Sale price should not be lower than purchase price');
       }
 
+      if (errorMessage.includes('whole number')) {
+        return sendBadRequest(reply, 'Stock must be a whole number for products sold by unit');
+      }
+
+      if (errorMessage.includes('Stock levels must follow')) {
+        return sendBadRequest(reply, errorMessage);
+      }
+
       return sendInternalError(reply, errorMessage);
     }
   }
@@ -163,8 +277,11 @@ export class ProductController {
       const { id } = paramsValidation.data;
       const productData = bodyValidation.data;
 
+      const previous = await productService.findById(id);
       const product = await productService.update(id, productData);
 
+      await AuditHelper.logMutation('product', id, request, previous, product, `Updated product ${product.code}`);
+
       return sendSuccess(reply, product, 'Product updated successfully');
     } catch (error) {
       console.error('Error updating product:', error);
@@ -197,6 +314,82 @@ export class ProductController {
         return sendBadRequest(reply, 'Sale price should not be lower than purchase price');
       }
 
+      if (errorMessage.includes('whole number')) {
+        return sendBadRequest(reply, 'Stock must be a whole number for products sold by unit');
+      }
+
+      if (errorMessage.includes('Stock levels must follow')) {
+        return sendBadRequest(reply, errorMessage);
+      }
+
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Update several products at once, all rows are saved or none
+   * PATCH /api/products/bulk-update
+   */
+  async bulkUpdateProducts(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateBulkUpdateProducts(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const products = await productService.bulkUpdate(bodyValidation.data.updates, AuditHelper.getContext(request));
+
+      return sendSuccess(reply, products, `${products.length} products updated successfully`);
+    } catch (error) {
+      console.error('Error bulk updating products:', error);
+
+      // Row errors roll back the whole batch and are reported per row
+      if (error instanceof ValidationError) {
+        return sendValidationError(reply, error.message, error.details);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update products';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Import products from a CSV or XLSX file, previewing the result unless dryRun is false
+   * POST /api/products/import
+   */
+  async importProducts(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateProductImport(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { format, content, dryRun } = bodyValidation.data;
+      const result = await productImportService.importProducts(format, Buffer.from(content, 'base64'), {
+        dryRun,
+        auditContext: AuditHelper.getContext(request)
+      });
+
+      // A real import with invalid rows is rolled back, the rows tell what to fix
+      if (!dryRun && !result.committed) {
+        return sendValidationError(reply, `${result.summary.errors} rows have errors, no product was imported`, result);
+      }
+
+      return sendSuccess(reply, result, dryRun ? 'Import preview generated' : 'Products imported successfully');
+    } catch (error) {
+      console.error('Error importing products:', error);
+
+      if (error instanceof ValidationError) {
+        return sendValidationError(reply, error.message, error.details);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to import products';
       return sendInternalError(reply, errorMessage);
     }
   }
@@ -218,8 +411,13 @@ export class ProductController {
 
       const { id } = paramsValidation.data;
 
+      const previous = await productService.findById(id);
       await productService.delete(id);
 
+      if (previous) {
+        await AuditHelper.logMutation('product', id, request, previous, null, `Deleted product ${previous.code}`);
+      }
+
       return sendNoContent(reply);
     } catch (error) {
       console.error('Error deleting product:', error);
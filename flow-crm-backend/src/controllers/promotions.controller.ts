@@ -0,0 +1,245 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { promotionService } from '../services/promotions.service';
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  sendBadRequest,
+  sendNotFound,
+  sendInternalError,
+  sendPaginated,
+  sendValidationError
+} from '../utils/response-helpers';
+import {
+  validateCreatePromotion,
+  validateUpdatePromotion,
+  validatePromotionFilters,
+  validatePromotionId,
+  getValidationErrorMessage,
+  getValidationErrorDetails
+} from '../schemas/promotions.schemas';
+import { AuditHelper } from '../utils/audit-helper';
+
+/**
+ * Business rule errors raised by the promotion service that map to 400 responses
+ */
+const PROMOTION_RULE_ERRORS = [
+  'End date must be after start date',
+  'Percentage promotions cannot exceed 100%',
+  'Product is required for product promotions',
+  'Category is required for category promotions'
+];
+
+/**
+ * Promotions controller handling all promotion-related HTTP requests
+ */
+export class PromotionsController {
+  /**
+   * Get all promotions with optional filtering
+   * GET /api/promotions
+   */
+  async getPromotions(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const filtersValidation = validatePromotionFilters(request.query);
+
+      if (!filtersValidation.success) {
+        const errorMessage = getValidationErrorMessage(filtersValidation.error);
+        const errorDetails = getValidationErrorDetails(filtersValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const filters = filtersValidation.data;
+
+      const promotionsList = await promotionService.findAll(filters);
+      const total = await promotionService.count(filters);
+
+      return sendPaginated(
+        reply,
+        promotionsList,
+        total,
+        filters.page,
+        filters.limit,
+        'Promotions retrieved successfully'
+      );
+    } catch (error) {
+      console.error('Error getting promotions:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve promotions';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Get promotion by ID
+   * GET /api/promotions/:id
+   */
+  async getPromotionById(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePromotionId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const promotion = await promotionService.findById(paramsValidation.data.id);
+
+      if (!promotion) {
+        return sendNotFound(reply, 'Promotion not found');
+      }
+
+      return sendSuccess(reply, promotion, 'Promotion retrieved successfully');
+    } catch (error) {
+      console.error('Error getting promotion by ID:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve promotion';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Create a new promotion
+   * POST /api/promotions
+   */
+  async createPromotion(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateCreatePromotion(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const user = request.user;
+
+      const promotion = await promotionService.create({
+        ...bodyValidation.data,
+        createdBy: user?.id
+      });
+
+      if (user) {
+        await AuditHelper.logCreate(
+          'promotions',
+          promotion.id,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request,
+          `Created promotion: ${promotion.name}`
+        );
+      }
+
+      return sendCreated(reply, promotion, 'Promotion created successfully');
+    } catch (error) {
+      console.error('Error creating promotion:', error);
+      return this.handleServiceError(reply, error, 'Failed to create promotion');
+    }
+  }
+
+  /**
+   * Update an existing promotion
+   * PUT /api/promotions/:id
+   */
+  async updatePromotion(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePromotionId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateUpdatePromotion(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const promotion = await promotionService.update(id, bodyValidation.data);
+
+      if (!promotion) {
+        return sendNotFound(reply, 'Promotion not found');
+      }
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logUpdate(
+          'promotions',
+          id,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request,
+          `Updated promotion: ${promotion.name}`
+        );
+      }
+
+      return sendSuccess(reply, promotion, 'Promotion updated successfully');
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      return this.handleServiceError(reply, error, 'Failed to update promotion');
+    }
+  }
+
+  /**
+   * Delete a promotion
+   * DELETE /api/promotions/:id
+   */
+  async deletePromotion(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePromotionId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const deleted = await promotionService.delete(id);
+
+      if (!deleted) {
+        return sendNotFound(reply, 'Promotion not found');
+      }
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logDelete(
+          'promotions',
+          id,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request
+        );
+      }
+
+      return sendNoContent(reply);
+    } catch (error) {
+      console.error('Error deleting promotion:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete promotion';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Map promotion service errors to HTTP responses
+   */
+  private handleServiceError(reply: FastifyReply, error: unknown, fallbackMessage: string) {
+    const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+
+    if (errorMessage.includes('not found')) {
+      return sendNotFound(reply, errorMessage);
+    }
+
+    if (PROMOTION_RULE_ERRORS.some(rule => errorMessage.includes(rule))) {
+      return sendBadRequest(reply, errorMessage);
+    }
+
+    return sendInternalError(reply, errorMessage);
+  }
+}
+
+// Export singleton instance
+export const promotionsController = new PromotionsController();
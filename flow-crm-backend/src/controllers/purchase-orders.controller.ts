@@ -0,0 +1,334 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { purchaseOrderService } from '../services/purchase-orders.service';
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  sendNotFound,
+  sendBadRequest,
+  sendConflict,
+  sendInternalError,
+  sendPaginated,
+  sendValidationError
+} from '../utils/response-helpers';
+import {
+  validateCreatePurchaseOrder,
+  validateUpdatePurchaseOrder,
+  validateUpdatePurchaseOrderStatus,
+  validateReceivePurchaseOrder,
+  validatePurchaseOrderId,
+  validatePurchaseOrderFilters,
+  getValidationErrorMessage,
+  getValidationErrorDetails
+} from '../schemas/purchase-orders.schemas';
+import { AuditHelper } from '../utils/audit-helper';
+
+/**
+ * Purchase orders controller handling purchasing and goods receiving HTTP requests
+ */
+export class PurchaseOrdersController {
+  /**
+   * Get all purchase orders with filtering and pagination
+   * GET /api/purchase-orders
+   */
+  async getPurchaseOrders(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const filtersValidation = validatePurchaseOrderFilters(request.query);
+
+      if (!filtersValidation.success) {
+        const errorMessage = getValidationErrorMessage(filtersValidation.error);
+        const errorDetails = getValidationErrorDetails(filtersValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const filters = filtersValidation.data;
+      const [orders, total] = await Promise.all([
+        purchaseOrderService.findAll(filters),
+        purchaseOrderService.count(filters)
+      ]);
+
+      return sendPaginated(reply, orders, total, filters.page, filters.limit, 'Purchase orders retrieved successfully');
+    } catch (error) {
+      console.error('Error getting purchase orders:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve purchase orders';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Get the products to reorder with suggested quantities
+   * GET /api/purchase-orders/suggestions
+   */
+  async getSuggestions(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const suggestions = await purchaseOrderService.getSuggestions();
+
+      return sendSuccess(reply, suggestions, 'Purchase order suggestions retrieved successfully');
+    } catch (error) {
+      console.error('Error getting purchase order suggestions:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve purchase order suggestions';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Get a purchase order with its lines and receipts
+   * GET /api/purchase-orders/:id
+   */
+  async getPurchaseOrderById(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePurchaseOrderId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const order = await purchaseOrderService.findById(paramsValidation.data.id);
+
+      if (!order) {
+        return sendNotFound(reply, 'Purchase order not found');
+      }
+
+      return sendSuccess(reply, order, 'Purchase order retrieved successfully');
+    } catch (error) {
+      console.error('Error getting purchase order:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve purchase order';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Create a draft purchase order
+   * POST /api/purchase-orders
+   */
+  async createPurchaseOrder(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateCreatePurchaseOrder(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const order = await purchaseOrderService.create(bodyValidation.data, request.user?.id);
+
+      await AuditHelper.logMutation(
+        'purchase_order',
+        order.id,
+        request,
+        null,
+        purchaseOrderService.toAuditSnapshot(order),
+        `Created purchase order #${order.number}`
+      );
+
+      return sendCreated(reply, order, 'Purchase order created successfully');
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      return this.handleServiceError(reply, error, 'Failed to create purchase order');
+    }
+  }
+
+  /**
+   * Update a draft purchase order
+   * PUT /api/purchase-orders/:id
+   */
+  async updatePurchaseOrder(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePurchaseOrderId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateUpdatePurchaseOrder(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const previous = await purchaseOrderService.findById(id);
+      const order = await purchaseOrderService.update(id, bodyValidation.data);
+
+      await AuditHelper.logMutation(
+        'purchase_order',
+        id,
+        request,
+        previous ? purchaseOrderService.toAuditSnapshot(previous) : null,
+        purchaseOrderService.toAuditSnapshot(order),
+        `Updated purchase order #${order.number}`
+      );
+
+      return sendSuccess(reply, order, 'Purchase order updated successfully');
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      return this.handleServiceError(reply, error, 'Failed to update purchase order');
+    }
+  }
+
+  /**
+   * Place or cancel a purchase order
+   * PATCH /api/purchase-orders/:id/status
+   */
+  async updatePurchaseOrderStatus(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePurchaseOrderId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateUpdatePurchaseOrderStatus(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const previous = await purchaseOrderService.findById(id);
+      const order = await purchaseOrderService.updateStatus(id, bodyValidation.data.status);
+
+      await AuditHelper.logMutation(
+        'purchase_order',
+        id,
+        request,
+        previous ? purchaseOrderService.toAuditSnapshot(previous) : null,
+        purchaseOrderService.toAuditSnapshot(order),
+        `Changed purchase order #${order.number} status to ${order.status}`
+      );
+
+      return sendSuccess(reply, order, 'Purchase order status updated successfully');
+    } catch (error) {
+      console.error('Error updating purchase order status:', error);
+      return this.handleServiceError(reply, error, 'Failed to update purchase order status');
+    }
+  }
+
+  /**
+   * Receive quantities of the lines of a purchase order
+   * POST /api/purchase-orders/:id/receive
+   */
+  async receivePurchaseOrder(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePurchaseOrderId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateReceivePurchaseOrder(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const previous = await purchaseOrderService.findById(id);
+      const order = await purchaseOrderService.receive(id, bodyValidation.data, AuditHelper.getContext(request));
+
+      await AuditHelper.logMutation(
+        'purchase_order',
+        id,
+        request,
+        previous ? purchaseOrderService.toAuditSnapshot(previous) : null,
+        purchaseOrderService.toAuditSnapshot(order),
+        `Received items of purchase order #${order.number}`
+      );
+
+      return sendSuccess(reply, order, 'Purchase order items received successfully');
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      return this.handleServiceError(reply, error, 'Failed to receive purchase order');
+    }
+  }
+
+  /**
+   * Delete a draft purchase order
+   * DELETE /api/purchase-orders/:id
+   */
+  async deletePurchaseOrder(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validatePurchaseOrderId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const deleted = await purchaseOrderService.delete(id);
+
+      if (!deleted) {
+        return sendNotFound(reply, 'Purchase order not found');
+      }
+
+      await AuditHelper.logMutation(
+        'purchase_order',
+        id,
+        request,
+        purchaseOrderService.toAuditSnapshot(deleted),
+        null,
+        `Deleted purchase order #${deleted.number}`
+      );
+
+      return sendNoContent(reply);
+    } catch (error) {
+      console.error('Error deleting purchase order:', error);
+      return this.handleServiceError(reply, error, 'Failed to delete purchase order');
+    }
+  }
+
+  /**
+   * Map purchase order service errors to HTTP responses
+   */
+  private handleServiceError(reply: FastifyReply, error: unknown, fallbackMessage: string) {
+    const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+
+    if (errorMessage.includes('Purchase order not found')) {
+      return sendNotFound(reply, errorMessage);
+    }
+
+    if (
+      errorMessage.includes('Only draft purchase orders') ||
+      errorMessage.includes('Only ordered purchase orders') ||
+      errorMessage.includes('Invalid status transition')
+    ) {
+      return sendConflict(reply, errorMessage);
+    }
+
+    if (
+      errorMessage.includes('Supplier not found') ||
+      errorMessage.includes('Supplier is inactive') ||
+      errorMessage.includes('Product not found') ||
+      errorMessage.includes('only once in a purchase order') ||
+      errorMessage.includes('Purchase order item') ||
+      errorMessage.includes('Invalid quantity') ||
+      errorMessage.includes('Invalid received quantity') ||
+      errorMessage.includes('exceeds the outstanding quantity') ||
+      errorMessage.includes('whole number')
+    ) {
+      return sendBadRequest(reply, errorMessage);
+    }
+
+    return sendInternalError(reply, errorMessage);
+  }
+}
+
+// Export singleton instance
+export const purchaseOrdersController = new PurchaseOrdersController();
@@ -1,10 +1,13 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { reportsService, ReportFilters } from '../services/reports.service';
 import { simpleReportsService } from '../services/reports.service.simple';
+import { commissionService, CommissionReportFilters } from '../services/commissions.service';
+import { canViewAllPreSales } from '../middlewares/auth.middleware';
 import {
     sanitizeAndValidateQuery,
     createPaymentMethodsReportResponse,
     createReportSummaryResponse,
+    createCommissionsReportResponse,
     createErrorResponse,
     ReportsQuery
 } from '../schemas/reports.schemas';
@@ -16,6 +19,7 @@ interface ReportsQueryParams {
     startDate?: string;
     endDate?: string;
     paymentMethodId?: string;
+    salespersonId?: string;
     [key: string]: unknown;
 }
 
@@ -137,6 +141,66 @@ export class ReportsController {
         }
     }
 
+    /**
+     * Get commissions report
+     * GET /api/reports/commissions
+     */
+    async getCommissionsReport(
+        request: FastifyRequest<{ Querystring: ReportsQueryParams }>,
+        reply: FastifyReply
+    ) {
+        try {
+            // Sanitize and validate query parameters using schema
+            const validatedQuery = sanitizeAndValidateQuery(request.query);
+
+            const filters: CommissionReportFilters = {
+                ...this.convertQueryToFilters(validatedQuery),
+                salespersonId: validatedQuery.salespersonId
+            };
+
+            // Users that only see their own pre-sales only see their own commission
+            if (!canViewAllPreSales(request)) {
+                filters.salespersonId = request.user?.id;
+            }
+
+            const reportData = await commissionService.getCommissionsReport(filters);
+
+            // Create standardized response
+            const response = createCommissionsReportResponse(reportData);
+            return reply.status(200).send(response);
+
+        } catch (error) {
+            console.error('Error in getCommissionsReport:', error);
+
+            // Handle validation errors
+            if (error instanceof Error && (
+                error.message.includes('Invalid date') ||
+                error.message.includes('Invalid UUID') ||
+                error.message.includes('Start date') ||
+                error.message.includes('Both startDate and endDate')
+            )) {
+                const errorResponse = createErrorResponse(error.message, 'INVALID_FILTERS');
+                return reply.status(400).send(errorResponse);
+            }
+
+            // Handle service errors
+            if (error instanceof Error && error.message.includes('Failed to generate')) {
+                const errorResponse = createErrorResponse(
+                    'Internal server error while generating commissions report',
+                    'REPORT_GENERATION_ERROR'
+                );
+                return reply.status(500).send(errorResponse);
+            }
+
+            // Handle unexpected errors
+            const errorResponse = createErrorResponse(
+                'An unexpected error occurred',
+                'INTERNAL_ERROR'
+            );
+            return reply.status(500).send(errorResponse);
+        }
+    }
+
     /**
      * Convert validated query to service filters format
      */
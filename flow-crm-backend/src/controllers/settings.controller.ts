@@ -0,0 +1,71 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { settingsService } from '../services/settings.service';
+import {
+  sendSuccess,
+  sendInternalError,
+  sendValidationError
+} from '../utils/response-helpers';
+import {
+  validateUpdateSystemSettings,
+  getValidationErrorMessage,
+  getValidationErrorDetails
+} from '../schemas/settings.schemas';
+import { AuditHelper } from '../utils/audit-helper';
+
+/**
+ * Settings controller handling system settings HTTP requests
+ */
+export class SettingsController {
+  /**
+   * Get the system settings
+   * GET /api/settings
+   */
+  async getSettings(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const settings = await settingsService.get();
+
+      return sendSuccess(reply, settings, 'Settings retrieved successfully');
+    } catch (error) {
+      console.error('Error getting settings:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve settings';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Update the system settings
+   * PUT /api/settings
+   */
+  async updateSettings(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateUpdateSystemSettings(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const previous = await settingsService.get();
+      const settings = await settingsService.update(bodyValidation.data);
+
+      await AuditHelper.logMutation(
+        'settings',
+        settings.id,
+        request,
+        settingsService.toAuditSnapshot(previous),
+        settingsService.toAuditSnapshot(settings),
+        'Updated system settings'
+      );
+
+      return sendSuccess(reply, settings, 'Settings updated successfully');
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update settings';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+}
+
+// Export singleton instance
+export const settingsController = new SettingsController();
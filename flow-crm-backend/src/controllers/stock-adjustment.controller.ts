@@ -80,6 +80,10 @@ export class StockAdjustmentController {
                 return sendBadRequest(reply, errorMessage);
             }
 
+            if (errorMessage.includes('whole number')) {
+                return sendBadRequest(reply, errorMessage);
+            }
+
             return sendInternalError(reply, errorMessage);
         }
     }
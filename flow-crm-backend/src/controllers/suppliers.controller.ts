@@ -0,0 +1,193 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { supplierService } from '../services/suppliers.service';
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  sendNotFound,
+  sendConflict,
+  sendInternalError,
+  sendPaginated,
+  sendValidationError
+} from '../utils/response-helpers';
+import {
+  validateCreateSupplier,
+  validateUpdateSupplier,
+  validateSupplierId,
+  validateSupplierFilters,
+  getValidationErrorMessage,
+  getValidationErrorDetails
+} from '../schemas/suppliers.schemas';
+import { AuditHelper } from '../utils/audit-helper';
+
+/**
+ * Suppliers controller handling supplier HTTP requests
+ */
+export class SuppliersController {
+  /**
+   * Get all suppliers with filtering and pagination
+   * GET /api/suppliers
+   */
+  async getSuppliers(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const filtersValidation = validateSupplierFilters(request.query);
+
+      if (!filtersValidation.success) {
+        const errorMessage = getValidationErrorMessage(filtersValidation.error);
+        const errorDetails = getValidationErrorDetails(filtersValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const filters = filtersValidation.data;
+      const [suppliersList, total] = await Promise.all([
+        supplierService.findAll(filters),
+        supplierService.count(filters)
+      ]);
+
+      return sendPaginated(reply, suppliersList, total, filters.page, filters.limit, 'Suppliers retrieved successfully');
+    } catch (error) {
+      console.error('Error getting suppliers:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve suppliers';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Get a supplier by ID
+   * GET /api/suppliers/:id
+   */
+  async getSupplierById(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validateSupplierId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const supplier = await supplierService.findById(paramsValidation.data.id);
+
+      if (!supplier) {
+        return sendNotFound(reply, 'Supplier not found');
+      }
+
+      return sendSuccess(reply, supplier, 'Supplier retrieved successfully');
+    } catch (error) {
+      console.error('Error getting supplier:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve supplier';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Create a supplier
+   * POST /api/suppliers
+   */
+  async createSupplier(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateCreateSupplier(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const supplier = await supplierService.create(bodyValidation.data);
+
+      await AuditHelper.logMutation('supplier', supplier.id, request, null, supplier, `Created supplier ${supplier.name}`);
+
+      return sendCreated(reply, supplier, 'Supplier created successfully');
+    } catch (error) {
+      console.error('Error creating supplier:', error);
+      return this.handleServiceError(reply, error, 'Failed to create supplier');
+    }
+  }
+
+  /**
+   * Update a supplier
+   * PUT /api/suppliers/:id
+   */
+  async updateSupplier(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validateSupplierId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateUpdateSupplier(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const previous = await supplierService.findById(id);
+      const supplier = await supplierService.update(id, bodyValidation.data);
+
+      await AuditHelper.logMutation('supplier', id, request, previous, supplier, `Updated supplier ${supplier.name}`);
+
+      return sendSuccess(reply, supplier, 'Supplier updated successfully');
+    } catch (error) {
+      console.error('Error updating supplier:', error);
+      return this.handleServiceError(reply, error, 'Failed to update supplier');
+    }
+  }
+
+  /**
+   * Delete a supplier without purchase orders
+   * DELETE /api/suppliers/:id
+   */
+  async deleteSupplier(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validateSupplierId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const previous = await supplierService.findById(id);
+      const deleted = await supplierService.delete(id);
+
+      if (!deleted || !previous) {
+        return sendNotFound(reply, 'Supplier not found');
+      }
+
+      await AuditHelper.logMutation('supplier', id, request, previous, null, `Deleted supplier ${previous.name}`);
+
+      return sendNoContent(reply);
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+      return this.handleServiceError(reply, error, 'Failed to delete supplier');
+    }
+  }
+
+  /**
+   * Map supplier service errors to HTTP responses
+   */
+  private handleServiceError(reply: FastifyReply, error: unknown, fallbackMessage: string) {
+    const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+
+    if (errorMessage.includes('Supplier not found')) {
+      return sendNotFound(reply, errorMessage);
+    }
+
+    if (errorMessage.includes('CNPJ already exists') || errorMessage.includes('has purchase orders')) {
+      return sendConflict(reply, errorMessage);
+    }
+
+    return sendInternalError(reply, errorMessage);
+  }
+}
+
+// Export singleton instance
+export const suppliersController = new SuppliersController();
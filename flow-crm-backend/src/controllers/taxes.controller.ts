@@ -0,0 +1,302 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { taxService } from '../services/taxes.service';
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  sendNotFound,
+  sendConflict,
+  sendInternalError,
+  sendPaginated,
+  sendValidationError
+} from '../utils/response-helpers';
+import {
+  validateCreateNcmTaxRate,
+  validateUpdateNcmTaxRate,
+  validateNcmTaxRateId,
+  validateNcmTaxRateFilters,
+  validateStateParam,
+  validateIcmsStateRate,
+  getValidationErrorMessage,
+  getValidationErrorDetails
+} from '../schemas/taxes.schemas';
+import { AuditHelper } from '../utils/audit-helper';
+
+/**
+ * Taxes controller handling tax configuration HTTP requests
+ */
+export class TaxesController {
+  /**
+   * Get all NCM tax rates with optional filtering
+   * GET /api/taxes/ncm
+   */
+  async getNcmRates(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const filtersValidation = validateNcmTaxRateFilters(request.query);
+
+      if (!filtersValidation.success) {
+        const errorMessage = getValidationErrorMessage(filtersValidation.error);
+        const errorDetails = getValidationErrorDetails(filtersValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const filters = filtersValidation.data;
+
+      const ncmRates = await taxService.findAllNcmRates(filters);
+      const total = await taxService.countNcmRates(filters);
+
+      return sendPaginated(
+        reply,
+        ncmRates,
+        total,
+        filters.page,
+        filters.limit,
+        'NCM tax rates retrieved successfully'
+      );
+    } catch (error) {
+      console.error('Error getting NCM tax rates:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve NCM tax rates';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Create an NCM tax rate
+   * POST /api/taxes/ncm
+   */
+  async createNcmRate(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const bodyValidation = validateCreateNcmTaxRate(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const ncmRate = await taxService.createNcmRate(bodyValidation.data);
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logCreate(
+          'taxes',
+          ncmRate.id,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request,
+          `Created NCM tax rate: ${ncmRate.ncm}`
+        );
+      }
+
+      return sendCreated(reply, ncmRate, 'NCM tax rate created successfully');
+    } catch (error) {
+      console.error('Error creating NCM tax rate:', error);
+      return this.handleServiceError(reply, error, 'Failed to create NCM tax rate');
+    }
+  }
+
+  /**
+   * Update an NCM tax rate
+   * PUT /api/taxes/ncm/:id
+   */
+  async updateNcmRate(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validateNcmTaxRateId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateUpdateNcmTaxRate(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const ncmRate = await taxService.updateNcmRate(id, bodyValidation.data);
+
+      if (!ncmRate) {
+        return sendNotFound(reply, 'NCM tax rate not found');
+      }
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logUpdate(
+          'taxes',
+          id,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request,
+          `Updated NCM tax rate: ${ncmRate.ncm}`
+        );
+      }
+
+      return sendSuccess(reply, ncmRate, 'NCM tax rate updated successfully');
+    } catch (error) {
+      console.error('Error updating NCM tax rate:', error);
+      return this.handleServiceError(reply, error, 'Failed to update NCM tax rate');
+    }
+  }
+
+  /**
+   * Delete an NCM tax rate
+   * DELETE /api/taxes/ncm/:id
+   */
+  async deleteNcmRate(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validateNcmTaxRateId(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { id } = paramsValidation.data;
+      const deleted = await taxService.deleteNcmRate(id);
+
+      if (!deleted) {
+        return sendNotFound(reply, 'NCM tax rate not found');
+      }
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logDelete(
+          'taxes',
+          id,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request
+        );
+      }
+
+      return sendNoContent(reply);
+    } catch (error) {
+      console.error('Error deleting NCM tax rate:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete NCM tax rate';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Get all ICMS state rates
+   * GET /api/taxes/states
+   */
+  async getStateRates(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const stateRates = await taxService.findAllStateRates();
+
+      return sendSuccess(reply, stateRates, 'ICMS state rates retrieved successfully');
+    } catch (error) {
+      console.error('Error getting ICMS state rates:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve ICMS state rates';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Set the ICMS rate of a destination state
+   * PUT /api/taxes/states/:state
+   */
+  async setStateRate(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validateStateParam(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const bodyValidation = validateIcmsStateRate(request.body);
+
+      if (!bodyValidation.success) {
+        const errorMessage = getValidationErrorMessage(bodyValidation.error);
+        const errorDetails = getValidationErrorDetails(bodyValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { state } = paramsValidation.data;
+      const stateRate = await taxService.upsertStateRate(state, bodyValidation.data.rate);
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logUpdate(
+          'taxes',
+          state,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request,
+          `Set ICMS rate for ${state}: ${stateRate.rate}%`
+        );
+      }
+
+      return sendSuccess(reply, stateRate, 'ICMS state rate saved successfully');
+    } catch (error) {
+      console.error('Error saving ICMS state rate:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save ICMS state rate';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Remove the ICMS rate of a destination state
+   * DELETE /api/taxes/states/:state
+   */
+  async deleteStateRate(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const paramsValidation = validateStateParam(request.params);
+
+      if (!paramsValidation.success) {
+        const errorMessage = getValidationErrorMessage(paramsValidation.error);
+        const errorDetails = getValidationErrorDetails(paramsValidation.error);
+        return sendValidationError(reply, errorMessage, errorDetails);
+      }
+
+      const { state } = paramsValidation.data;
+      const deleted = await taxService.deleteStateRate(state);
+
+      if (!deleted) {
+        return sendNotFound(reply, 'ICMS state rate not found');
+      }
+
+      const user = request.user;
+      if (user) {
+        await AuditHelper.logDelete(
+          'taxes',
+          state,
+          user.id,
+          user.name || user.email || 'Unknown',
+          request
+        );
+      }
+
+      return sendNoContent(reply);
+    } catch (error) {
+      console.error('Error deleting ICMS state rate:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete ICMS state rate';
+      return sendInternalError(reply, errorMessage);
+    }
+  }
+
+  /**
+   * Map tax service errors to HTTP responses
+   */
+  private handleServiceError(reply: FastifyReply, error: unknown, fallbackMessage: string) {
+    const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+
+    if (errorMessage.includes('already exists')) {
+      return sendConflict(reply, errorMessage);
+    }
+
+    return sendInternalError(reply, errorMessage);
+  }
+}
+
+// Export singleton instance
+export const taxesController = new TaxesController();
@@ -0,0 +1,34 @@
+import 'dotenv/config';
+import { checkDatabaseConnection } from './connection';
+import { retentionService } from '../services/retention.service';
+
+/**
+ * Restore a retention archive into its table
+ * Usage: npm run db:restore-archive -- archives/audit_logs_2026-01-01T03-00-00-000Z.ndjson.gz
+ */
+async function restoreArchive(filePath: string | undefined) {
+  if (!filePath) {
+    throw new Error('Inform the archive file to restore');
+  }
+
+  const isConnected = await checkDatabaseConnection();
+  if (!isConnected) {
+    throw new Error('Database connection failed');
+  }
+
+  console.log(`Restoring ${filePath}...`);
+  const result = await retentionService.restore(filePath);
+  console.log(`Restored ${result.restoredRows} rows into ${result.job} (${result.skippedRows} already present)`);
+}
+
+// Run restore if this file is executed directly
+if (require.main === module) {
+  restoreArchive(process.argv[2])
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Restore failed:', error);
+      process.exit(1);
+    });
+}
+
+export { restoreArchive };
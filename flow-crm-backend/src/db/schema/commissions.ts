@@ -0,0 +1,20 @@
+import { pgTable, uuid, varchar, decimal, boolean, timestamp, json } from 'drizzle-orm/pg-core';
+import { users } from './users';
+import type { CommissionTier } from '../../utils/commission-calculations';
+
+/**
+ * Commission rules table schema
+ * Percentage paid over converted pre-sales, per salesperson and/or product category.
+ * Rules without salesperson and category apply to everyone.
+ */
+export const commissionRules = pgTable('commission_rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 255 }).notNull(),
+  salespersonId: uuid('salesperson_id').references(() => users.id, { onDelete: 'cascade' }),
+  category: varchar('category', { length: 100 }),
+  rate: decimal('rate', { precision: 5, scale: 2 }).notNull(),
+  tiers: json('tiers').$type<CommissionTier[]>(),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
@@ -1,12 +1,22 @@
-import { pgTable, uuid, varchar, text, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, decimal, pgEnum, char } from 'drizzle-orm/pg-core';
+
+export const customerTierEnum = pgEnum('customer_tier', ['regular', 'premium', 'vip']);
+export const documentTypeEnum = pgEnum('document_type', ['cpf', 'cnpj']);
 
 export const customers = pgTable('customers', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: varchar('name', { length: 255 }).notNull(),
   email: varchar('email', { length: 255 }).notNull(),
   phone: varchar('phone', { length: 20 }).notNull(),
+  // CPF or CNPJ digits, according to documentType
   cpf: varchar('cpf', { length: 14 }).notNull().unique(),
+  documentType: documentTypeEnum('document_type').default('cpf').notNull(),
+  companyName: varchar('company_name', { length: 255 }),
+  stateRegistration: varchar('state_registration', { length: 20 }),
   address: text('address'),
+  state: char('state', { length: 2 }),
+  tier: customerTierEnum('tier').default('regular').notNull(),
+  discountRate: decimal('discount_rate', { precision: 5, scale: 2 }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull()
-});
\ No newline at end of file
+});
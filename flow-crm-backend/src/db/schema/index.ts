@@ -6,3 +6,11 @@ export * from './presales';
 export * from './payment-methods';
 export * from './audit-logs';
 export * from './stock-adjustments';
+export * from './promotions';
+export * from './taxes';
+export * from './commissions';
+export * from './sessions';
+export * from './stock-reservations';
+export * from './settings';
+export * from './suppliers';
+export * from './purchase-orders';
@@ -1,25 +1,54 @@
-import { pgTable, uuid, decimal, text, timestamp, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, decimal, text, timestamp, date, pgEnum, json, varchar, integer } from 'drizzle-orm/pg-core';
 import { customers } from './customers';
 import { products } from './products';
 import { paymentMethods } from './payment-methods';
+import { users } from './users';
+import type { TaxBreakdown } from '../../utils/tax-calculations';
 
-export const presaleStatusEnum = pgEnum('presale_status', ['draft', 'pending', 'approved', 'cancelled', 'converted']);
+export const presaleStatusEnum = pgEnum('presale_status', ['draft', 'pending', 'approved', 'cancelled', 'converted', 'expired', 'awaiting_approval']);
 export const discountTypeEnum = pgEnum('discount_type', ['fixed', 'percentage']);
 
 export const preSales = pgTable('presales', {
   id: uuid('id').primaryKey().defaultRandom(),
+  // Sequential number per year shown to users (PV-2026-000123)
+  number: varchar('number', { length: 20 }).notNull().unique(),
   customerId: uuid('customer_id').references(() => customers.id).notNull(),
   paymentMethodId: uuid('payment_method_id').references(() => paymentMethods.id),
+  salespersonId: uuid('salesperson_id').references(() => users.id, { onDelete: 'set null' }),
   status: presaleStatusEnum('status').notNull(),
   total: decimal('total', { precision: 10, scale: 2 }).notNull(),
   discount: decimal('discount', { precision: 10, scale: 2 }).default('0').notNull(),
   discountType: discountTypeEnum('discount_type').default('fixed').notNull(),
   discountPercentage: decimal('discount_percentage', { precision: 5, scale: 2 }).default('0').notNull(),
   notes: text('notes'),
+  // Last day the quote is valid (YYYY-MM-DD), open pre-sales expire after it
+  validUntil: date('valid_until', { mode: 'string' }).notNull(),
+  // Largest discount in percent (per item or overall) and the approval given to it when above the limit
+  requestedDiscount: decimal('requested_discount', { precision: 5, scale: 2 }).default('0').notNull(),
+  discountApprovedPercentage: decimal('discount_approved_percentage', { precision: 5, scale: 2 }),
+  discountApprovedBy: uuid('discount_approved_by').references(() => users.id, { onDelete: 'set null' }),
+  discountApprovedAt: timestamp('discount_approved_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Status changes of each pre-sale, the first entry (creation) has no fromStatus
+export const preSaleStatusHistory = pgTable('presale_status_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  preSaleId: uuid('presale_id').references(() => preSales.id, { onDelete: 'cascade' }).notNull(),
+  fromStatus: presaleStatusEnum('from_status'),
+  toStatus: presaleStatusEnum('to_status').notNull(),
+  changedBy: uuid('changed_by').references(() => users.id, { onDelete: 'set null' }),
+  note: text('note'),
+  changedAt: timestamp('changed_at').defaultNow().notNull()
+});
+
+// Last pre-sale number assigned in each year
+export const preSaleNumberSequences = pgTable('presale_number_sequences', {
+  year: integer('year').primaryKey(),
+  lastValue: integer('last_value').notNull()
+});
+
 export const preSaleItems = pgTable('presale_items', {
   id: uuid('id').primaryKey().defaultRandom(),
   preSaleId: uuid('presale_id').references(() => preSales.id, { onDelete: 'cascade' }).notNull(),
@@ -29,5 +58,8 @@ export const preSaleItems = pgTable('presale_items', {
   totalPrice: decimal('total_price', { precision: 10, scale: 2 }).notNull(),
   discount: decimal('discount', { precision: 10, scale: 2 }).default('0').notNull(),
   discountType: discountTypeEnum('discount_type').default('fixed').notNull(),
-  discountPercentage: decimal('discount_percentage', { precision: 5, scale: 2 }).default('0').notNull()
+  discountPercentage: decimal('discount_percentage', { precision: 5, scale: 2 }).default('0').notNull(),
+  promotionDiscount: decimal('promotion_discount', { precision: 10, scale: 2 }).default('0').notNull(),
+  promotionIds: uuid('promotion_ids').array(),
+  taxBreakdown: json('tax_breakdown').$type<TaxBreakdown>()
 });
\ No newline at end of file
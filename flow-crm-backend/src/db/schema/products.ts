@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, integer, decimal, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, decimal, timestamp } from 'drizzle-orm/pg-core';
 
 export const products = pgTable('products', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -6,10 +6,19 @@ export const products = pgTable('products', {
   name: varchar('name', { length: 255 }).notNull(),
   unit: varchar('unit', { length: 20 }).notNull(),
   description: text('description'),
-  stock: integer('stock').default(0).notNull(),
+  stock: decimal('stock', { precision: 12, scale: 3, mode: 'number' }).default(0).notNull(),
+  minStock: decimal('min_stock', { precision: 12, scale: 3, mode: 'number' }),
+  reorderPoint: decimal('reorder_point', { precision: 12, scale: 3, mode: 'number' }),
+  maxStock: decimal('max_stock', { precision: 12, scale: 3, mode: 'number' }),
   purchasePrice: decimal('purchase_price', { precision: 10, scale: 2 }).notNull(),
   salePrice: decimal('sale_price', { precision: 10, scale: 2 }).notNull(),
   saleType: varchar('sale_type', { length: 50 }).notNull(),
+  category: varchar('category', { length: 100 }),
+  ncm: varchar('ncm', { length: 8 }),
+  icmsRate: decimal('icms_rate', { precision: 5, scale: 2 }),
+  ipiRate: decimal('ipi_rate', { precision: 5, scale: 2 }),
+  pisRate: decimal('pis_rate', { precision: 5, scale: 2 }),
+  cofinsRate: decimal('cofins_rate', { precision: 5, scale: 2 }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull()
 });
\ No newline at end of file
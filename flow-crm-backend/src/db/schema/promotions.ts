@@ -0,0 +1,42 @@
+import { pgTable, uuid, varchar, text, integer, decimal, boolean, timestamp, pgEnum } from 'drizzle-orm/pg-core';
+import { products } from './products';
+import { users } from './users';
+
+/**
+ * Promotion discount types enum
+ */
+export const promotionTypeEnum = pgEnum('promotion_type', ['percentage', 'fixed']);
+
+/**
+ * Promotion scope enum
+ * - all: applies to every product
+ * - product: applies to a single product
+ * - category: applies to every product in a category
+ */
+export const promotionScopeEnum = pgEnum('promotion_scope', ['all', 'product', 'category']);
+
+/**
+ * Promotions table schema
+ * Stores time-boxed discount campaigns applied automatically by the price engine
+ */
+export const promotions = pgTable('promotions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  type: promotionTypeEnum('type').notNull(),
+  value: decimal('value', { precision: 10, scale: 2 }).notNull(),
+  scope: promotionScopeEnum('scope').default('all').notNull(),
+  productId: uuid('product_id').references(() => products.id, { onDelete: 'cascade' }),
+  category: varchar('category', { length: 100 }),
+  startDate: timestamp('start_date').notNull(),
+  endDate: timestamp('end_date').notNull(),
+  priority: integer('priority').default(0).notNull(),
+  minAmount: decimal('min_amount', { precision: 10, scale: 2 }),
+  maxDiscount: decimal('max_discount', { precision: 10, scale: 2 }),
+  usageLimit: integer('usage_limit'),
+  usageCount: integer('usage_count').default(0).notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
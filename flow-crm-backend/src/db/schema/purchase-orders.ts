@@ -0,0 +1,40 @@
+import { pgTable, uuid, integer, decimal, text, date, timestamp, pgEnum } from 'drizzle-orm/pg-core';
+import { suppliers } from './suppliers';
+import { products } from './products';
+import { users } from './users';
+
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', [
+  'draft',
+  'ordered',
+  'partially_received',
+  'received',
+  'cancelled'
+]);
+
+/**
+ * Purchase orders table schema
+ * Drafts can be edited; once ordered, stock only enters through receipts of the order lines
+ */
+export const purchaseOrders = pgTable('purchase_orders', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  number: integer('number').generatedAlwaysAsIdentity().notNull().unique(),
+  supplierId: uuid('supplier_id').references(() => suppliers.id).notNull(),
+  status: purchaseOrderStatusEnum('status').default('draft').notNull(),
+  expectedDate: date('expected_date'),
+  total: decimal('total', { precision: 12, scale: 2 }).notNull(),
+  notes: text('notes'),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  orderedAt: timestamp('ordered_at'),
+  receivedAt: timestamp('received_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+export const purchaseOrderItems = pgTable('purchase_order_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  purchaseOrderId: uuid('purchase_order_id').references(() => purchaseOrders.id, { onDelete: 'cascade' }).notNull(),
+  productId: uuid('product_id').references(() => products.id).notNull(),
+  quantity: decimal('quantity', { precision: 12, scale: 3, mode: 'number' }).notNull(),
+  receivedQuantity: decimal('received_quantity', { precision: 12, scale: 3, mode: 'number' }).default(0).notNull(),
+  unitCost: decimal('unit_cost', { precision: 10, scale: 2 }).notNull()
+});
@@ -0,0 +1,28 @@
+import { pgTable, uuid, varchar, timestamp } from 'drizzle-orm/pg-core';
+import { users } from './users';
+
+/**
+ * Refresh Tokens table schema
+ * Stores hashed refresh tokens; every rotation keeps the family of the login session
+ */
+export const refreshTokens = pgTable('refresh_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  familyId: uuid('family_id').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  replacedById: uuid('replaced_by_id'),
+  createdAt: timestamp('created_at').defaultNow().notNull()
+});
+
+/**
+ * Revoked Tokens table schema
+ * Access tokens revoked before their expiry, checked on every authenticated request
+ */
+export const revokedTokens = pgTable('revoked_tokens', {
+  jti: uuid('jti').primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull()
+});
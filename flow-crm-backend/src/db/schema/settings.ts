@@ -0,0 +1,24 @@
+import { pgTable, uuid, varchar, text, decimal, integer, timestamp } from 'drizzle-orm/pg-core';
+
+/**
+ * System settings table schema
+ * Single row with the company profile printed on documents and the system-wide preferences
+ */
+export const systemSettings = pgTable('system_settings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyName: varchar('company_name', { length: 255 }),
+  companyCnpj: varchar('company_cnpj', { length: 18 }),
+  companyAddress: varchar('company_address', { length: 500 }),
+  companyLogo: text('company_logo'),
+  defaultMarkup: decimal('default_markup', { precision: 7, scale: 2, mode: 'number' }).default(50).notNull(),
+  lowStockThreshold: decimal('low_stock_threshold', { precision: 12, scale: 3, mode: 'number' }).default(10).notNull(),
+  productCodePrefix: varchar('product_code_prefix', { length: 10 }).default('PROD').notNull(),
+  paymentMethodCodePrefix: varchar('payment_method_code_prefix', { length: 10 }).default('PAG').notNull(),
+  quoteValidityDays: integer('quote_validity_days').default(7).notNull(),
+  quoteTerms: text('quote_terms'),
+  // Largest discount in percent each role may give without approval, administrators have no limit
+  employeeDiscountLimit: decimal('employee_discount_limit', { precision: 5, scale: 2, mode: 'number' }).default(10).notNull(),
+  managerDiscountLimit: decimal('manager_discount_limit', { precision: 5, scale: 2, mode: 'number' }).default(20).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
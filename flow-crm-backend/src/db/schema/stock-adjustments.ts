@@ -1,6 +1,7 @@
-import { pgTable, uuid, varchar, integer, text, timestamp, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, decimal, text, timestamp, pgEnum } from 'drizzle-orm/pg-core';
 import { products } from './products';
 import { users } from './users';
+import { purchaseOrders } from './purchase-orders';
 
 /**
  * Stock adjustment types enum
@@ -18,10 +19,12 @@ export const stockAdjustments = pgTable('stock_adjustments', {
     id: uuid('id').primaryKey().defaultRandom(),
     productId: uuid('product_id').references(() => products.id).notNull(),
     adjustmentType: stockAdjustmentTypeEnum('adjustment_type').notNull(),
-    quantity: integer('quantity').notNull(),
-    previousStock: integer('previous_stock').notNull(),
-    newStock: integer('new_stock').notNull(),
+    quantity: decimal('quantity', { precision: 12, scale: 3, mode: 'number' }).notNull(),
+    previousStock: decimal('previous_stock', { precision: 12, scale: 3, mode: 'number' }).notNull(),
+    newStock: decimal('new_stock', { precision: 12, scale: 3, mode: 'number' }).notNull(),
     reason: text('reason').notNull(),
+    // Set on the entries created by receiving a purchase order
+    purchaseOrderId: uuid('purchase_order_id').references(() => purchaseOrders.id, { onDelete: 'set null' }),
     userId: uuid('user_id').references(() => users.id),
     userName: varchar('user_name', { length: 255 }).notNull(),
     ipAddress: varchar('ip_address', { length: 45 }),
@@ -0,0 +1,26 @@
+import { pgTable, uuid, decimal, timestamp, pgEnum } from 'drizzle-orm/pg-core';
+import { products } from './products';
+import { preSales } from './presales';
+
+/**
+ * Stock reservation status enum
+ */
+export const stockReservationStatusEnum = pgEnum('stock_reservation_status', [
+    'active',
+    'released',
+    'consumed'
+]);
+
+/**
+ * Stock Reservations table schema
+ * Ledger of quantities held by approved pre-sales; only active rows count against available stock
+ */
+export const stockReservations = pgTable('stock_reservations', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    productId: uuid('product_id').references(() => products.id, { onDelete: 'cascade' }).notNull(),
+    preSaleId: uuid('presale_id').references(() => preSales.id, { onDelete: 'cascade' }).notNull(),
+    quantity: decimal('quantity', { precision: 12, scale: 3, mode: 'number' }).notNull(),
+    status: stockReservationStatusEnum('status').default('active').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
@@ -0,0 +1,27 @@
+import { pgTable, uuid, varchar, decimal, timestamp, char } from 'drizzle-orm/pg-core';
+
+/**
+ * NCM tax rates table schema
+ * Default ICMS, IPI, PIS and COFINS rates for every product classified under an NCM code
+ */
+export const ncmTaxRates = pgTable('ncm_tax_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ncm: varchar('ncm', { length: 8 }).notNull().unique(),
+  description: varchar('description', { length: 255 }),
+  icmsRate: decimal('icms_rate', { precision: 5, scale: 2 }),
+  ipiRate: decimal('ipi_rate', { precision: 5, scale: 2 }),
+  pisRate: decimal('pis_rate', { precision: 5, scale: 2 }),
+  cofinsRate: decimal('cofins_rate', { precision: 5, scale: 2 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+/**
+ * ICMS state rates table schema
+ * ICMS rate charged for each destination state
+ */
+export const icmsStateRates = pgTable('icms_state_rates', {
+  state: char('state', { length: 2 }).primaryKey(),
+  rate: decimal('rate', { precision: 5, scale: 2 }).notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
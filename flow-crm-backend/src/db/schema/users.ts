@@ -9,6 +9,7 @@ export const users = pgTable('users', {
   name: varchar('name', { length: 255 }).notNull(),
   role: userRoleEnum('role').notNull(),
   permissions: json('permissions'),
+  sessionsRevokedAt: timestamp('sessions_revoked_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull()
 });
\ No newline at end of file
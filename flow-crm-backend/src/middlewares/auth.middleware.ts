@@ -1,6 +1,51 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { authService } from '../services/auth.service';
-import type { User } from '../types/auth.types';
+import type { User, UserPermissions, PermissionKey } from '../types/auth.types';
+
+/**
+ * Permissions used when a user has no permissions stored, or is missing some keys
+ */
+const DEFAULT_PERMISSIONS: Record<User['role'], UserPermissions> = {
+  admin: {
+    modules: { products: true, customers: true, reports: true, paymentMethods: true, userManagement: true },
+    presales: { canCreate: true, canViewOwn: true, canViewAll: true }
+  },
+  manager: {
+    modules: { products: true, customers: true, reports: true, paymentMethods: true, userManagement: false },
+    presales: { canCreate: true, canViewOwn: true, canViewAll: true }
+  },
+  employee: {
+    modules: { products: true, customers: true, reports: false, paymentMethods: false, userManagement: false },
+    presales: { canCreate: true, canViewOwn: true, canViewAll: false }
+  }
+};
+
+/**
+ * Merge the stored permissions of a user over the defaults of their role
+ */
+function getEffectivePermissions(user: User): UserPermissions {
+  const defaults = DEFAULT_PERMISSIONS[user.role] || DEFAULT_PERMISSIONS.employee;
+  const stored = user.permissions || {};
+
+  return {
+    modules: { ...defaults.modules, ...stored.modules },
+    presales: { ...defaults.presales, ...stored.presales }
+  };
+}
+
+/**
+ * Check a single permission of a user, admins have every permission
+ */
+function userHasPermission(user: User, permission: PermissionKey): boolean {
+  if (user.role === 'admin') {
+    return true;
+  }
+
+  const [group, key] = permission.split('.') as [keyof UserPermissions, string];
+  const groupPermissions = getEffectivePermissions(user)[group] as Record<string, boolean>;
+
+  return groupPermissions[key] === true;
+}
 
 /**
  * Authentication middleware factory
@@ -9,8 +54,10 @@ import type { User } from '../types/auth.types';
 export function createAuthMiddleware(options: {
   required?: boolean;
   roles?: ('admin' | 'manager' | 'employee')[];
+  /** User needs at least one of these permissions */
+  permissions?: PermissionKey[];
 } = {}) {
-  const { required = true, roles } = options;
+  const { required = true, roles, permissions } = options;
 
   return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
     try {
@@ -54,6 +101,21 @@ export function createAuthMiddleware(options: {
         }
       }
 
+      // Check permissions stored for the user if specified
+      if (permissions && permissions.length > 0) {
+        if (!permissions.some(permission => userHasPermission(user, permission))) {
+          return reply.status(403).send({
+            success: false,
+            error: {
+              code: 'FORBIDDEN',
+              message: 'Insufficient permissions'
+            },
+            timestamp: new Date().toISOString(),
+            path: request.url
+          });
+        }
+      }
+
       request.log.debug('User authenticated successfully', {
         userId: user.id,
         email: user.email,
@@ -133,4 +195,18 @@ export function hasRole(request: FastifyRequest, role: 'admin' | 'manager' | 'em
  */
 export function hasAnyRole(request: FastifyRequest, roles: ('admin' | 'manager' | 'employee')[]): boolean {
   return request.user ? roles.includes(request.user.role) : false;
-}
\ No newline at end of file
+}
+
+/**
+ * Helper function to check if user has a permission, e.g. "modules.customers"
+ */
+export function hasPermission(request: FastifyRequest, permission: PermissionKey): boolean {
+  return request.user ? userHasPermission(request.user, permission) : false;
+}
+
+/**
+ * Helper function to check if user can see every pre-sale or only their own
+ */
+export function canViewAllPreSales(request: FastifyRequest): boolean {
+  return hasPermission(request, 'presales.canViewAll');
+}
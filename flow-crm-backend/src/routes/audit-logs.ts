@@ -1,45 +1,56 @@
 import { FastifyInstance } from 'fastify';
 import { auditLogsController } from '../controllers/audit-logs.controller';
+import { createAuthMiddleware } from '../middlewares/auth.middleware';
 
 /**
  * Audit Logs routes
- * Handles all routes for audit logs (read-only, admin access only)
+ * Handles all routes for audit logs (read-only, user management access only)
  */
 export async function auditLogsRoutes(fastify: FastifyInstance): Promise<void> {
-  // Authentication middleware
-  const authenticate = async (request: any, reply: any) => {
-    const token = request.headers.authorization?.replace('Bearer ', '');
-    if (!token) {
-      return reply.status(401).send({
-        success: false,
-        error: {
-          code: 'UNAUTHORIZED',
-          message: 'No token provided'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-    // TODO: Validate JWT and check for admin role
-  };
+  // Audit logs are read by whoever manages the users
+  const authenticate = createAuthMiddleware({
+    required: true,
+    permissions: ['modules.userManagement']
+  });
 
   /**
    * GET /api/audit-logs
-   * List all audit logs with pagination and filters (admin only)
+   * List all audit logs with pagination and filters
+   */
+  fastify.get('/', {
+    preHandler: authenticate
+  }, async (request, reply) => {
+    return auditLogsController.getAuditLogs(request, reply);
+  });
+
+  /**
+   * GET /api/audit-logs/export
+   * Export the audit logs matching the filters as CSV
    */
-  fastify.get('/', { 
+  fastify.get('/export', {
     preHandler: authenticate
   }, async (request, reply) => {
-    return auditLogsController.getAuditLogs(request as any, reply);
+    return auditLogsController.exportAuditLogs(request, reply);
   });
 
   /**
    * GET /api/audit-logs/recent
-   * Get recent audit logs (admin only)
+   * Get recent audit logs
    */
   fastify.get('/recent', {
     preHandler: authenticate
   }, async (request, reply) => {
-    return auditLogsController.getRecentAuditLogs(request as any, reply);
+    return auditLogsController.getRecentAuditLogs(request, reply);
+  });
+
+  /**
+   * GET /api/audit-logs/users/:userId/stats
+   * Get the audit statistics of a user
+   */
+  fastify.get('/users/:userId/stats', {
+    preHandler: authenticate
+  }, async (request, reply) => {
+    return auditLogsController.getUserAuditStats(request, reply);
   });
 
   fastify.log.info('Audit logs routes registered successfully');
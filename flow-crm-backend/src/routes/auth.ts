@@ -1,6 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { authService } from '../services/auth.service';
 import { authenticateUser, authenticateAdmin } from '../middlewares/auth.middleware';
+import { extractTokenFromHeader } from '../utils/jwt';
 
 /**
  * Authentication routes
@@ -18,6 +19,8 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
         data: {
           user: authResponse.user,
           token: authResponse.token,
+          refreshToken: authResponse.refreshToken,
+          expiresIn: authResponse.expiresIn,
         },
         message: 'Login successful',
         timestamp: new Date().toISOString()
@@ -90,13 +93,90 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
     });
   });
 
-  // Logout route
+  // Refresh route - rotates the refresh token and issues a new access token
+  fastify.post('/refresh', async (request, reply) => {
+    try {
+      const { refreshToken } = (request.body as { refreshToken?: string } | undefined) || {};
+
+      const authResponse = await authService.refreshSession(refreshToken as string);
+
+      return reply.status(200).send({
+        success: true,
+        data: {
+          user: authResponse.user,
+          token: authResponse.token,
+          refreshToken: authResponse.refreshToken,
+          expiresIn: authResponse.expiresIn,
+        },
+        message: 'Token refreshed successfully',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      return reply.status(401).send({
+        success: false,
+        error: {
+          code: 'INVALID_REFRESH_TOKEN',
+          message: error instanceof Error ? error.message : 'Invalid refresh token',
+        },
+        timestamp: new Date().toISOString(),
+        path: request.url
+      });
+    }
+  });
+
+  // Logout route - revokes the access token and the refresh token session
+  // Works without a valid access token so expired sessions can still be ended
   fastify.post('/logout', async (request, reply) => {
-    return reply.status(200).send({
-      success: true,
-      message: 'Logout successful',
-      timestamp: new Date().toISOString()
-    });
+    try {
+      const { refreshToken } = (request.body as { refreshToken?: string } | undefined) || {};
+
+      await authService.logout(extractTokenFromHeader(request.headers.authorization), refreshToken);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Logout successful',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error during logout:', error);
+
+      return reply.status(500).send({
+        success: false,
+        error: {
+          code: 'LOGOUT_FAILED',
+          message: 'Failed to end session',
+        },
+        timestamp: new Date().toISOString(),
+        path: request.url
+      });
+    }
+  });
+
+  // Logout from all sessions of the current user, on every device
+  fastify.post('/logout-all', {
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    try {
+      await authService.logoutAll(request.user?.id as string);
+
+      return reply.status(200).send({
+        success: true,
+        message: 'All sessions ended successfully',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error ending all sessions:', error);
+
+      return reply.status(500).send({
+        success: false,
+        error: {
+          code: 'LOGOUT_FAILED',
+          message: 'Failed to end sessions',
+        },
+        timestamp: new Date().toISOString(),
+        path: request.url
+      });
+    }
   });
 
   fastify.log.info('Auth routes registered with improved middleware');
@@ -0,0 +1,32 @@
+import { FastifyInstance } from 'fastify';
+import { commissionsController } from '../controllers/commissions.controller';
+import { authenticateManager, authenticateAdmin } from '../middlewares/auth.middleware';
+
+/**
+ * Commission rule routes
+ * Managers can read commission rules; only administrators manage them
+ */
+export async function commissionRoutes(fastify: FastifyInstance): Promise<void> {
+
+  // Get all commission rules with filtering
+  fastify.get('/rules', { preHandler: authenticateManager }, async (request, reply) => {
+    return commissionsController.getRules(request, reply);
+  });
+
+  // Create commission rule
+  fastify.post('/rules', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return commissionsController.createRule(request, reply);
+  });
+
+  // Update commission rule
+  fastify.put('/rules/:id', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return commissionsController.updateRule(request, reply);
+  });
+
+  // Delete commission rule
+  fastify.delete('/rules/:id', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return commissionsController.deleteRule(request, reply);
+  });
+
+  fastify.log.info('Commission routes registered successfully');
+}
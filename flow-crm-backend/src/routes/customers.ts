@@ -1,29 +1,55 @@
 import { FastifyInstance } from 'fastify';
 import { customerController } from '../controllers/customers.controller';
+import { auditLogsController } from '../controllers/audit-logs.controller';
+import { createAuthMiddleware } from '../middlewares/auth.middleware';
 
 /**
  * Customer routes
  */
 export async function customerRoutes(fastify: FastifyInstance): Promise<void> {
-  // Authentication middleware
-  const authenticate = async (request: any, reply: any) => {
-    const token = request.headers.authorization?.replace('Bearer ', '');
-    if (!token) {
-      return reply.status(401).send({ message: 'No token provided' });
-    }
-    // For now, just check if token exists - in real implementation would validate JWT
-  };
+  // Authentication middleware, requires access to the customers module
+  const authenticate = createAuthMiddleware({
+    permissions: ['modules.customers']
+  });
 
   // Get all customers with filtering
   fastify.get('/', { preHandler: authenticate }, async (request, reply) => {
     return customerController.getCustomers(request, reply);
   });
 
+  // Export customers as CSV with the same filters as the listing
+  fastify.get('/export', { preHandler: authenticate }, async (request, reply) => {
+    return customerController.exportCustomers(request, reply);
+  });
+
+  // Import customers from CSV, base64 files are larger than the default body limit
+  fastify.post('/import', {
+    preHandler: authenticate,
+    bodyLimit: 15 * 1024 * 1024
+  }, async (request, reply) => {
+    return customerController.importCustomers(request, reply);
+  });
+
+  // List customers that look like duplicates
+  fastify.get('/duplicates', { preHandler: authenticate }, async (request, reply) => {
+    return customerController.getDuplicates(request, reply);
+  });
+
+  // Merge a duplicate customer into another one
+  fastify.post('/merge', { preHandler: authenticate }, async (request, reply) => {
+    return customerController.mergeCustomers(request, reply);
+  });
+
   // Get customer by ID
   fastify.get('/:id', { preHandler: authenticate }, async (request, reply) => {
     return customerController.getCustomerById(request, reply);
   });
 
+  // Change history of a customer
+  fastify.get('/:id/history', { preHandler: authenticate }, async (request, reply) => {
+    return auditLogsController.getResourceHistory(['customer'], request, reply);
+  });
+
   // Create customer
   fastify.post('/', { preHandler: authenticate }, async (request, reply) => {
     return customerController.createCustomer(request, reply);
@@ -10,6 +10,12 @@ import { auditLogsRoutes } from './audit-logs';
 import { userRoutes } from './users';
 import { stockAdjustmentRoutes } from './stock-adjustments';
 import { reportsRoutes } from './reports.routes';
+import { promotionRoutes } from './promotions';
+import { taxRoutes } from './taxes';
+import { commissionRoutes } from './commissions';
+import { settingsRoutes } from './settings';
+import { supplierRoutes } from './suppliers';
+import { purchaseOrderRoutes } from './purchase-orders';
 import { debugRoutes } from './debug.routes';
 
 export const registerRoutes: FastifyPluginAsync = async (fastify) => {
@@ -51,6 +57,22 @@ export const registerRoutes: FastifyPluginAsync = async (fastify) => {
   // Register reports routes
   await fastify.register(reportsRoutes, { prefix: '/api/reports' });
 
+  // Register promotions routes
+  await fastify.register(promotionRoutes, { prefix: '/api/promotions' });
+
+  // Register tax configuration routes
+  await fastify.register(taxRoutes, { prefix: '/api/taxes' });
+
+  // Register commission rule routes
+  await fastify.register(commissionRoutes, { prefix: '/api/commissions' });
+
+  // Register system settings routes
+  await fastify.register(settingsRoutes, { prefix: '/api/settings' });
+
+  // Register purchasing routes
+  await fastify.register(supplierRoutes, { prefix: '/api/suppliers' });
+  await fastify.register(purchaseOrderRoutes, { prefix: '/api/purchase-orders' });
+
   // Register debug routes (development only)
   await fastify.register(debugRoutes, { prefix: '/api/debug' });
 
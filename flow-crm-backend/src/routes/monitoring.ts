@@ -129,6 +129,90 @@ export async function monitoringRoutes(fastify: FastifyInstance) {
         }
     }, monitoringController.getAuditStats.bind(monitoringController));
 
+    // Data retention jobs status endpoint
+    fastify.get('/retention-jobs', {
+        schema: {
+            description: 'Get the status of the audit log and stock adjustment retention jobs',
+            tags: ['monitoring'],
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' },
+                        data: {
+                            type: 'object',
+                            properties: {
+                                retention: {
+                                    type: 'object',
+                                    properties: {
+                                        enabled: { type: 'boolean' },
+                                        intervalHours: { type: 'number' },
+                                        archiveDir: { type: 'string' },
+                                        nextRunAt: { type: ['string', 'null'], format: 'date-time' },
+                                        jobs: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    name: { type: 'string' },
+                                                    daysToKeep: { type: 'number' },
+                                                    running: { type: 'boolean' },
+                                                    lastRunAt: { type: ['string', 'null'], format: 'date-time' },
+                                                    lastSuccessAt: { type: ['string', 'null'], format: 'date-time' },
+                                                    lastArchivedRows: { type: 'number' },
+                                                    lastArchiveFile: { type: ['string', 'null'] },
+                                                    lastError: { type: ['string', 'null'] }
+                                                }
+                                            }
+                                        }
+                                    }
+                                },
+                                timestamp: { type: 'string' }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }, monitoringController.getRetentionJobs.bind(monitoringController));
+
+    // Quote expiry job status endpoint
+    fastify.get('/quote-expiry', {
+        schema: {
+            description: 'Get the status of the job that expires pre-sales past their validity',
+            tags: ['monitoring'],
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' },
+                        data: {
+                            type: 'object',
+                            properties: {
+                                quoteExpiry: {
+                                    type: 'object',
+                                    properties: {
+                                        enabled: { type: 'boolean' },
+                                        intervalHours: { type: 'number' },
+                                        running: { type: 'boolean' },
+                                        nextRunAt: { type: ['string', 'null'], format: 'date-time' },
+                                        lastRunAt: { type: ['string', 'null'], format: 'date-time' },
+                                        lastSuccessAt: { type: ['string', 'null'], format: 'date-time' },
+                                        lastExpiredCount: { type: 'number' },
+                                        lastError: { type: ['string', 'null'] }
+                                    }
+                                },
+                                timestamp: { type: 'string' }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }, monitoringController.getQuoteExpiry.bind(monitoringController));
+
     // Comprehensive system metrics endpoint
     fastify.get('/system-metrics', {
         schema: {
@@ -1,25 +1,18 @@
 import { FastifyInstance } from 'fastify';
 import { preSalesController } from '../controllers/presales.controller';
+import { authenticateManager, createAuthMiddleware } from '../middlewares/auth.middleware';
 
 /**
  * PreSales routes
  */
 export async function preSalesRoutes(fastify: FastifyInstance): Promise<void> {
-  // Authentication middleware
-  const authenticate = async (request: any, reply: any) => {
-    const token = request.headers.authorization?.replace('Bearer ', '');
-    if (!token) {
-      return reply.status(401).send({
-        success: false,
-        error: {
-          code: 'UNAUTHORIZED',
-          message: 'No token provided'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-    // For now, just check if token exists - in real implementation would validate JWT
-  };
+  // Pre-sales are owned by their salesperson, the controller limits users to their own
+  const authenticate = createAuthMiddleware({
+    permissions: ['presales.canViewOwn', 'presales.canViewAll']
+  });
+  const authenticateCreate = createAuthMiddleware({
+    permissions: ['presales.canCreate']
+  });
 
   // Get all pre-sales with filtering
   fastify.get('/', { preHandler: authenticate }, async (request, reply) => {
@@ -31,8 +24,23 @@ export async function preSalesRoutes(fastify: FastifyInstance): Promise<void> {
     return preSalesController.getPreSaleById(request, reply);
   });
 
+  // Change history of a presale
+  fastify.get('/:id/history', { preHandler: authenticate }, async (request, reply) => {
+    return preSalesController.getPreSaleHistory(request, reply);
+  });
+
+  // Status timeline of a presale
+  fastify.get('/:id/status-history', { preHandler: authenticate }, async (request, reply) => {
+    return preSalesController.getPreSaleStatusHistory(request, reply);
+  });
+
+  // Quote PDF of a presale
+  fastify.get('/:id/pdf', { preHandler: authenticate }, async (request, reply) => {
+    return preSalesController.getPreSalePdf(request, reply);
+  });
+
   // Create presale
-  fastify.post('/', { preHandler: authenticate }, async (request, reply) => {
+  fastify.post('/', { preHandler: authenticateCreate }, async (request, reply) => {
     return preSalesController.createPreSale(request, reply);
   });
 
@@ -46,6 +54,20 @@ export async function preSalesRoutes(fastify: FastifyInstance): Promise<void> {
     return preSalesController.updatePreSaleStatus(request, reply);
   });
 
+  // Renew an open or expired quote at the current prices
+  fastify.post('/:id/renew', { preHandler: authenticate }, async (request, reply) => {
+    return preSalesController.renewPreSale(request, reply);
+  });
+
+  // Approve or reject a discount above the limit of the salesperson, managers and admins only
+  fastify.post('/:id/approve-discount', { preHandler: authenticateManager }, async (request, reply) => {
+    return preSalesController.approvePreSaleDiscount(request, reply);
+  });
+
+  fastify.post('/:id/reject-discount', { preHandler: authenticateManager }, async (request, reply) => {
+    return preSalesController.rejectPreSaleDiscount(request, reply);
+  });
+
   // Delete presale
   fastify.delete('/:id', { preHandler: authenticate }, async (request, reply) => {
     return preSalesController.deletePreSale(request, reply);
@@ -1,5 +1,6 @@
 import { FastifyInstance } from 'fastify';
 import { productController } from '../controllers/products.controller';
+import { auditLogsController } from '../controllers/audit-logs.controller';
 import { stockAdjustmentController } from '../controllers/stock-adjustment.controller';
 import { authenticateUser } from '../middlewares/auth.middleware';
 import { stockAdjustmentRateLimit } from '../middlewares/rate-limit.middleware';
@@ -14,11 +15,39 @@ export async function productRoutes(fastify: FastifyInstance): Promise<void> {
     return productController.getProducts(request, reply);
   });
 
+  // Export products as CSV or XLSX with the same filters as the list
+  fastify.get('/export', { preHandler: authenticateUser }, async (request, reply) => {
+    return productController.exportProducts(request, reply);
+  });
+
+  // Products whose available stock reached their reorder point
+  fastify.get('/low-stock', { preHandler: authenticateUser }, async (request, reply) => {
+    return productController.getLowStockProducts(request, reply);
+  });
+
+  // Import products from CSV or XLSX, base64 files are larger than the default body limit
+  fastify.post('/import', {
+    preHandler: authenticateUser,
+    bodyLimit: 15 * 1024 * 1024
+  }, async (request, reply) => {
+    return productController.importProducts(request, reply);
+  });
+
+  // Update several products in one transaction
+  fastify.patch('/bulk-update', { preHandler: authenticateUser }, async (request, reply) => {
+    return productController.bulkUpdateProducts(request, reply);
+  });
+
   // Get product by ID
   fastify.get('/:id', { preHandler: authenticateUser }, async (request, reply) => {
     return productController.getProductById(request, reply);
   });
 
+  // Change history of a product, including stock adjustments
+  fastify.get('/:id/history', { preHandler: authenticateUser }, async (request, reply) => {
+    return auditLogsController.getResourceHistory(['product', 'product_stock'], request, reply);
+  });
+
   // Create product - now with standardized response format including generated code
   fastify.post('/', { preHandler: authenticateUser }, async (request, reply) => {
     return productController.createProduct(request, reply);
@@ -0,0 +1,37 @@
+import { FastifyInstance } from 'fastify';
+import { promotionsController } from '../controllers/promotions.controller';
+import { authenticateUser, authenticateAdmin } from '../middlewares/auth.middleware';
+
+/**
+ * Promotion routes
+ * Any authenticated user can read promotions; only administrators manage them
+ */
+export async function promotionRoutes(fastify: FastifyInstance): Promise<void> {
+
+  // Get all promotions with filtering
+  fastify.get('/', { preHandler: authenticateUser }, async (request, reply) => {
+    return promotionsController.getPromotions(request, reply);
+  });
+
+  // Get promotion by ID
+  fastify.get('/:id', { preHandler: authenticateUser }, async (request, reply) => {
+    return promotionsController.getPromotionById(request, reply);
+  });
+
+  // Create promotion
+  fastify.post('/', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return promotionsController.createPromotion(request, reply);
+  });
+
+  // Update promotion
+  fastify.put('/:id', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return promotionsController.updatePromotion(request, reply);
+  });
+
+  // Delete promotion
+  fastify.delete('/:id', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return promotionsController.deletePromotion(request, reply);
+  });
+
+  fastify.log.info('Promotion routes registered successfully');
+}
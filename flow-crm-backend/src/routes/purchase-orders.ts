@@ -0,0 +1,52 @@
+import type { FastifyInstance } from 'fastify';
+import { purchaseOrdersController } from '../controllers/purchase-orders.controller';
+import { authenticateUser } from '../middlewares/auth.middleware';
+
+/**
+ * Purchase order routes
+ * Orders are created as drafts, placed with the supplier and received in one or more parts
+ */
+export async function purchaseOrderRoutes(fastify: FastifyInstance): Promise<void> {
+
+  // Get all purchase orders with filtering and pagination
+  fastify.get('/', { preHandler: authenticateUser }, async (request, reply) => {
+    return purchaseOrdersController.getPurchaseOrders(request, reply);
+  });
+
+  // Products to reorder, with suggested quantities
+  fastify.get('/suggestions', { preHandler: authenticateUser }, async (request, reply) => {
+    return purchaseOrdersController.getSuggestions(request, reply);
+  });
+
+  // Get purchase order by ID with its lines and receipts
+  fastify.get('/:id', { preHandler: authenticateUser }, async (request, reply) => {
+    return purchaseOrdersController.getPurchaseOrderById(request, reply);
+  });
+
+  // Create draft purchase order
+  fastify.post('/', { preHandler: authenticateUser }, async (request, reply) => {
+    return purchaseOrdersController.createPurchaseOrder(request, reply);
+  });
+
+  // Update draft purchase order
+  fastify.put('/:id', { preHandler: authenticateUser }, async (request, reply) => {
+    return purchaseOrdersController.updatePurchaseOrder(request, reply);
+  });
+
+  // Place or cancel purchase order
+  fastify.patch('/:id/status', { preHandler: authenticateUser }, async (request, reply) => {
+    return purchaseOrdersController.updatePurchaseOrderStatus(request, reply);
+  });
+
+  // Receive purchase order lines into stock
+  fastify.post('/:id/receive', { preHandler: authenticateUser }, async (request, reply) => {
+    return purchaseOrdersController.receivePurchaseOrder(request, reply);
+  });
+
+  // Delete draft purchase order
+  fastify.delete('/:id', { preHandler: authenticateUser }, async (request, reply) => {
+    return purchaseOrdersController.deletePurchaseOrder(request, reply);
+  });
+
+  fastify.log.info('Purchase order routes registered successfully');
+}
@@ -198,4 +198,85 @@ export async function reportsRoutes(fastify: FastifyInstance) {
         },
         handler: reportsController.getReportSummary.bind(reportsController)
     });
+
+    // GET /api/reports/commissions - Get commissions report
+    fastify.get('/commissions', {
+        schema: {
+            description: 'Get commissions per salesperson over converted presales',
+            tags: ['Reports'],
+            querystring: {
+                type: 'object',
+                properties: {
+                    startDate: {
+                        type: 'string',
+                        format: 'date-time',
+                        description: 'Start date for filtering (ISO 8601 format)'
+                    },
+                    endDate: {
+                        type: 'string',
+                        format: 'date-time',
+                        description: 'End date for filtering (ISO 8601 format)'
+                    },
+                    salespersonId: {
+                        type: 'string',
+                        format: 'uuid',
+                        description: 'Filter by specific salesperson ID'
+                    }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        data: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    salesperson: {
+                                        type: 'object',
+                                        properties: {
+                                            id: { type: 'string' },
+                                            name: { type: 'string' }
+                                        }
+                                    },
+                                    salesCount: { type: 'number' },
+                                    totalAmount: { type: 'number' },
+                                    commissionAmount: { type: 'number' },
+                                    averageRate: { type: 'number' }
+                                }
+                            }
+                        },
+                        message: { type: 'string' }
+                    }
+                },
+                400: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' },
+                        code: { type: 'string' }
+                    }
+                },
+                403: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' },
+                        code: { type: 'string' }
+                    }
+                },
+                500: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' },
+                        code: { type: 'string' }
+                    }
+                }
+            }
+        },
+        handler: reportsController.getCommissionsReport.bind(reportsController)
+    });
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import type { FastifyInstance } from 'fastify';
+import { settingsController } from '../controllers/settings.controller';
+import { authenticateUser, authenticateAdmin } from '../middlewares/auth.middleware';
+
+/**
+ * System settings routes
+ * Any authenticated user can read the settings; only administrators change them
+ */
+export async function settingsRoutes(fastify: FastifyInstance): Promise<void> {
+
+  // Get the system settings
+  fastify.get('/', { preHandler: authenticateUser }, async (request, reply) => {
+    return settingsController.getSettings(request, reply);
+  });
+
+  // Update the system settings
+  fastify.put('/', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return settingsController.updateSettings(request, reply);
+  });
+
+  fastify.log.info('Settings routes registered successfully');
+}
@@ -0,0 +1,37 @@
+import type { FastifyInstance } from 'fastify';
+import { suppliersController } from '../controllers/suppliers.controller';
+import { authenticateUser, authenticateAdmin } from '../middlewares/auth.middleware';
+
+/**
+ * Supplier routes
+ * Every user can manage suppliers; only administrators delete them
+ */
+export async function supplierRoutes(fastify: FastifyInstance): Promise<void> {
+
+  // Get all suppliers with filtering and pagination
+  fastify.get('/', { preHandler: authenticateUser }, async (request, reply) => {
+    return suppliersController.getSuppliers(request, reply);
+  });
+
+  // Get supplier by ID
+  fastify.get('/:id', { preHandler: authenticateUser }, async (request, reply) => {
+    return suppliersController.getSupplierById(request, reply);
+  });
+
+  // Create supplier
+  fastify.post('/', { preHandler: authenticateUser }, async (request, reply) => {
+    return suppliersController.createSupplier(request, reply);
+  });
+
+  // Update supplier
+  fastify.put('/:id', { preHandler: authenticateUser }, async (request, reply) => {
+    return suppliersController.updateSupplier(request, reply);
+  });
+
+  // Delete supplier
+  fastify.delete('/:id', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return suppliersController.deleteSupplier(request, reply);
+  });
+
+  fastify.log.info('Supplier routes registered successfully');
+}
@@ -0,0 +1,47 @@
+import { FastifyInstance } from 'fastify';
+import { taxesController } from '../controllers/taxes.controller';
+import { authenticateUser, authenticateAdmin } from '../middlewares/auth.middleware';
+
+/**
+ * Tax configuration routes
+ * Any authenticated user can read tax rates; only administrators manage them
+ */
+export async function taxRoutes(fastify: FastifyInstance): Promise<void> {
+
+  // Get all NCM tax rates with filtering
+  fastify.get('/ncm', { preHandler: authenticateUser }, async (request, reply) => {
+    return taxesController.getNcmRates(request, reply);
+  });
+
+  // Create NCM tax rate
+  fastify.post('/ncm', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return taxesController.createNcmRate(request, reply);
+  });
+
+  // Update NCM tax rate
+  fastify.put('/ncm/:id', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return taxesController.updateNcmRate(request, reply);
+  });
+
+  // Delete NCM tax rate
+  fastify.delete('/ncm/:id', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return taxesController.deleteNcmRate(request, reply);
+  });
+
+  // Get all ICMS state rates
+  fastify.get('/states', { preHandler: authenticateUser }, async (request, reply) => {
+    return taxesController.getStateRates(request, reply);
+  });
+
+  // Set ICMS rate for a destination state
+  fastify.put('/states/:state', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return taxesController.setStateRate(request, reply);
+  });
+
+  // Remove ICMS rate for a destination state
+  fastify.delete('/states/:state', { preHandler: authenticateAdmin }, async (request, reply) => {
+    return taxesController.deleteStateRate(request, reply);
+  });
+
+  fastify.log.info('Tax routes registered successfully');
+}
@@ -14,6 +14,13 @@ export const auditLogQuerySchema = z.object({
   endDate: z.coerce.date().optional()
 });
 
+/**
+ * Schema for the recent audit logs query
+ */
+export const recentAuditLogsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).optional().default(50)
+});
+
 /**
  * Schema for user ID parameter
  */
@@ -21,6 +28,18 @@ export const userIdParamSchema = z.object({
   userId: z.string().uuid('Invalid user ID format')
 });
 
+/**
+ * Schema for the change history of a record
+ */
+export const auditHistoryParamsSchema = z.object({
+  id: z.string().uuid('Invalid ID format')
+});
+
+export const auditHistoryQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20)
+});
+
 /**
  * TypeScript types inferred from schemas
  */
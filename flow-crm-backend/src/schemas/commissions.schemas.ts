@@ -0,0 +1,128 @@
+import { z, type ZodError } from 'zod';
+
+/**
+ * Zod validation schemas for commission rules
+ */
+
+// Commission rate validation (percentage with up to 2 decimal places)
+export const commissionRateSchema = z
+  .string()
+  .regex(/^\d+(\.\d{1,2})?$/, 'Rate must be a valid decimal number with up to 2 decimal places')
+  .refine(val => parseFloat(val) <= 100, 'Rate cannot exceed 100%');
+
+// Tier validation, the rate replaces the base rate once the monthly volume is reached
+export const commissionTierSchema = z.object({
+  minVolume: z.coerce.number().positive('Tier minimum volume must be greater than zero'),
+  rate: z.coerce.number().min(0, 'Tier rate cannot be negative').max(100, 'Tier rate cannot exceed 100%')
+}).strict();
+
+export const commissionTiersSchema = z
+  .array(commissionTierSchema)
+  .max(10, 'A rule can have at most 10 tiers')
+  .refine(
+    tiers => new Set(tiers.map(tier => tier.minVolume)).size === tiers.length,
+    'Tiers must have different minimum volumes'
+  )
+  .optional()
+  .nullable();
+
+// Base commission rule schema with common fields
+const baseCommissionRuleSchema = {
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(255, 'Name must be less than 255 characters')
+    .trim(),
+
+  salespersonId: z
+    .union([z.string().uuid('Invalid salesperson ID format'), z.literal('')])
+    .optional()
+    .nullable()
+    .transform(id => id === '' ? null : id),
+
+  category: z
+    .string()
+    .max(100, 'Category must be less than 100 characters')
+    .trim()
+    .optional()
+    .nullable()
+    .transform(category => category === '' ? null : category),
+
+  rate: commissionRateSchema,
+  tiers: commissionTiersSchema,
+  isActive: z.boolean().optional()
+};
+
+/**
+ * Schema for creating a commission rule
+ */
+export const createCommissionRuleSchema = z.object(baseCommissionRuleSchema).strict();
+
+/**
+ * Schema for updating a commission rule
+ */
+export const updateCommissionRuleSchema = z.object({
+  ...baseCommissionRuleSchema,
+  name: baseCommissionRuleSchema.name.optional(),
+  rate: baseCommissionRuleSchema.rate.optional()
+}).strict()
+  .refine(
+    data => Object.keys(data).length > 0,
+    'At least one field must be provided for update'
+  );
+
+/**
+ * Schema for commission rule ID parameter
+ */
+export const commissionRuleIdSchema = z.object({
+  id: z.string().uuid('Invalid commission rule ID format')
+});
+
+/**
+ * Schema for commission rule query filters
+ */
+export const commissionRuleFiltersSchema = z.object({
+  salespersonId: z.string().uuid('Invalid salesperson ID format').optional(),
+  isActive: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform(val => val === undefined ? undefined : val === 'true')
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateCommissionRuleRequest = z.infer<typeof createCommissionRuleSchema>;
+export type UpdateCommissionRuleRequest = z.infer<typeof updateCommissionRuleSchema>;
+export type CommissionRuleFiltersQuery = z.infer<typeof commissionRuleFiltersSchema>;
+
+// Schema validation helpers
+export const validateCreateCommissionRule = (data: unknown) => {
+  return createCommissionRuleSchema.safeParse(data);
+};
+
+export const validateUpdateCommissionRule = (data: unknown) => {
+  return updateCommissionRuleSchema.safeParse(data);
+};
+
+export const validateCommissionRuleId = (data: unknown) => {
+  return commissionRuleIdSchema.safeParse(data);
+};
+
+export const validateCommissionRuleFilters = (data: unknown) => {
+  return commissionRuleFiltersSchema.safeParse(data);
+};
+
+// Error message helpers
+export const getValidationErrorMessage = (error: ZodError): string => {
+  const firstError = error.issues[0];
+  return firstError?.message || 'Validation failed';
+};
+
+export const getValidationErrorDetails = (error: ZodError) => {
+  return error.issues.map((err: z.ZodIssue) => ({
+    field: err.path.join('.'),
+    message: err.message,
+    value: err.code === 'invalid_type' ? undefined : err.input
+  }));
+};
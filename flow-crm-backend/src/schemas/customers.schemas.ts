@@ -1,13 +1,14 @@
 import { z, ZodError } from 'zod';
-import { validateCpf } from '../utils/cpf-cnpj-validator';
+import { validateCpf, validateCnpj, validateDocument } from '../utils/cpf-cnpj-validator';
+import { stateSchema } from './taxes.schemas';
 
 /**
  * Zod validation schemas for customers
  */
 
-// CPF validation function for Zod
-const cpfValidation = (cpf: string) => {
-  return validateCpf(cpf);
+// CPF/CNPJ validation function for Zod, the document type is checked at object level
+const documentValidation = (document: string) => {
+  return validateCpf(document) || validateCnpj(document);
 };
 
 // Base customer schema with common fields
@@ -35,11 +36,32 @@ const baseCustomerSchema = {
 
   cpf: z
     .string()
-    .min(11, 'CPF must have at least 11 digits')
-    .max(14, 'CPF must be less than 14 characters')
+    .min(11, 'CPF/CNPJ must have at least 11 digits')
+    .max(18, 'CPF/CNPJ must be less than 18 characters')
+    .trim()
+    .regex(/^[\d\.\-\/]+$/, 'CPF/CNPJ must contain only numbers, dots, slashes, and hyphens')
+    .refine(documentValidation, 'Invalid CPF/CNPJ format or check digits'),
+
+  documentType: z.enum(['cpf', 'cnpj'], {
+    message: 'Document type must be cpf or cnpj'
+  }),
+
+  companyName: z
+    .string()
+    .max(255, 'Company name must be less than 255 characters')
+    .trim()
+    .optional()
+    .nullable()
+    .transform(companyName => companyName === '' ? null : companyName),
+
+  stateRegistration: z
+    .string()
+    .max(20, 'State registration must be less than 20 characters')
     .trim()
-    .regex(/^[\d\.\-]+$/, 'CPF must contain only numbers, dots, and hyphens')
-    .refine(cpfValidation, 'Invalid CPF format or check digits'),
+    .regex(/^([\d\.\-\/]*|ISENTO)$/i, 'State registration must contain only numbers, dots, slashes, and hyphens, or ISENTO')
+    .optional()
+    .nullable()
+    .transform(stateRegistration => stateRegistration === '' ? null : stateRegistration),
 
   address: z
     .string()
@@ -47,14 +69,51 @@ const baseCustomerSchema = {
     .trim()
     .optional()
     .nullable()
-    .transform(address => address === '' ? null : address)
+    .transform(address => address === '' ? null : address),
+
+  state: z
+    .union([stateSchema, z.literal('')])
+    .optional()
+    .nullable()
+    .transform(state => state === '' ? null : state),
+
+  tier: z.enum(['regular', 'premium', 'vip'], {
+    message: 'Tier must be regular, premium or vip'
+  }),
+
+  discountRate: z
+    .string()
+    .regex(/^\d+(\.\d{1,2})?$/, 'Discount rate must be a valid decimal number with up to 2 decimal places')
+    .refine(val => parseFloat(val) <= 100, 'Discount rate cannot exceed 100%')
+    .optional()
+    .nullable()
+    .transform(rate => rate === '' ? null : rate)
 };
 
 // Create customer schema
 export const createCustomerSchema = z.object({
   ...baseCustomerSchema,
-  // All fields are required for creation except address
-}).strict(); // Prevent additional properties
+  // All fields are required for creation except address, company fields, tier and discount rate
+  documentType: baseCustomerSchema.documentType.optional().default('cpf'),
+  tier: baseCustomerSchema.tier.optional().default('regular')
+}).strict() // Prevent additional properties
+  .superRefine((data, ctx) => {
+    if (!validateDocument(data.cpf, data.documentType)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['cpf'],
+        message: `Invalid ${data.documentType.toUpperCase()} format or check digits`
+      });
+    }
+
+    if (data.documentType === 'cnpj' && !data.companyName) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['companyName'],
+        message: 'Company name is required for CNPJ customers'
+      });
+    }
+  });
 
 // Update customer schema
 export const updateCustomerSchema = z.object({
@@ -62,7 +121,13 @@ export const updateCustomerSchema = z.object({
   email: baseCustomerSchema.email.optional(),
   phone: baseCustomerSchema.phone.optional(),
   cpf: baseCustomerSchema.cpf.optional(),
-  address: baseCustomerSchema.address
+  documentType: baseCustomerSchema.documentType.optional(),
+  companyName: baseCustomerSchema.companyName,
+  stateRegistration: baseCustomerSchema.stateRegistration,
+  address: baseCustomerSchema.address,
+  state: baseCustomerSchema.state,
+  tier: baseCustomerSchema.tier.optional(),
+  discountRate: baseCustomerSchema.discountRate
 }).strict() // Prevent additional properties
   .refine(
     (data) => Object.keys(data).length > 0,
@@ -76,7 +141,13 @@ export const customerResponseSchema = z.object({
   email: z.string().email(),
   phone: z.string(),
   cpf: z.string(),
+  documentType: z.enum(['cpf', 'cnpj']),
+  companyName: z.string().nullable(),
+  stateRegistration: z.string().nullable(),
   address: z.string().nullable(),
+  state: z.string().nullable(),
+  tier: z.enum(['regular', 'premium', 'vip']),
+  discountRate: z.string().nullable(),
   createdAt: z.date(),
   updatedAt: z.date()
 });
@@ -146,7 +217,19 @@ export const customerFiltersSchema = z.object({
       }
       return val;
     })
-    .refine(val => !val || val.length <= 14, 'CPF filter must be less than 14 characters'),
+    .refine(val => !val || val.length <= 18, 'CPF/CNPJ filter must be less than 18 characters'),
+
+  documentType: z
+    .enum(['cpf', 'cnpj'], {
+      message: 'Document type filter must be cpf or cnpj'
+    })
+    .optional(),
+
+  tier: z
+    .enum(['regular', 'premium', 'vip'], {
+      message: 'Tier filter must be regular, premium or vip'
+    })
+    .optional(),
 
   search: z
     .string()
@@ -169,6 +252,31 @@ export const customerIdSchema = z.object({
     .uuid('Invalid customer ID format')
 });
 
+// Customer import schema, the CSV file is sent base64 encoded
+export const customerImportSchema = z.object({
+  content: z
+    .string()
+    .min(1, 'File content is required')
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, 'File content must be base64 encoded'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(true)
+});
+
+// Customer merge schema, the source customer is merged into the target and deleted
+export const customerMergeSchema = z.object({
+  sourceId: z
+    .string()
+    .uuid('Invalid source customer ID format'),
+  targetId: z
+    .string()
+    .uuid('Invalid target customer ID format')
+}).refine(
+  (data) => data.sourceId !== data.targetId,
+  { message: 'Source and target customers must be different', path: ['targetId'] }
+);
+
 // Paginated customers response schema
 export const paginatedCustomersResponseSchema = z.object({
   success: z.boolean(),
@@ -218,6 +326,8 @@ export type UpdateCustomerRequest = z.infer<typeof updateCustomerSchema>;
 export type CustomerResponse = z.infer<typeof customerResponseSchema>;
 export type CustomerFilters = z.infer<typeof customerFiltersSchema>;
 export type CustomerIdParams = z.infer<typeof customerIdSchema>;
+export type CustomerImportRequest = z.infer<typeof customerImportSchema>;
+export type CustomerMergeRequest = z.infer<typeof customerMergeSchema>;
 export type PaginatedCustomersResponse = z.infer<typeof paginatedCustomersResponseSchema>;
 export type CustomerSuccessResponse = z.infer<typeof customerSuccessResponseSchema>;
 export type CustomerErrorResponse = z.infer<typeof customerErrorResponseSchema>;
@@ -235,6 +345,10 @@ export const validateCustomerCpf = (cpf: string): boolean => {
   return validateCpf(cpf);
 };
 
+export const validateCustomerCnpj = (cnpj: string): boolean => {
+  return validateCnpj(cnpj);
+};
+
 // Schema validation helpers
 export const validateCreateCustomer = (data: unknown) => {
   return createCustomerSchema.safeParse(data);
@@ -252,6 +366,14 @@ export const validateCustomerId = (data: unknown) => {
   return customerIdSchema.safeParse(data);
 };
 
+export const validateCustomerImport = (data: unknown) => {
+  return customerImportSchema.safeParse(data);
+};
+
+export const validateCustomerMerge = (data: unknown) => {
+  return customerMergeSchema.safeParse(data);
+};
+
 // Error message helpers
 export const getValidationErrorMessage = (error: ZodError): string => {
   const firstError = error.issues[0];
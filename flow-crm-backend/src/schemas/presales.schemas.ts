@@ -1,13 +1,14 @@
 import { z, ZodError } from 'zod';
 import { PreSaleStatus } from '../types/common.types';
+import { isQuoteDate, toQuoteDate } from '../utils/quote-validity';
 
 /**
  * Zod validation schemas for pre-sales
  */
 
 // Pre-sale status enum validation
-const preSaleStatusSchema = z.enum(['draft', 'pending', 'approved', 'cancelled', 'converted'], {
-  message: 'Status must be one of: draft, pending, approved, cancelled, converted'
+const preSaleStatusSchema = z.enum(['draft', 'pending', 'approved', 'cancelled', 'converted', 'expired', 'awaiting_approval'], {
+  message: 'Status must be one of: draft, pending, approved, cancelled, converted, expired, awaiting_approval'
 });
 
 // Discount type enum validation
@@ -38,6 +39,13 @@ const quantityStringSchema = z
 // UUID validation
 const uuidSchema = z.string().uuid('Invalid UUID format');
 
+// Last day of a quote (YYYY-MM-DD), it cannot be before today
+const validUntilSchema = z
+  .string()
+  .trim()
+  .refine(isQuoteDate, 'Valid until must be a date in YYYY-MM-DD format')
+  .refine(val => val >= toQuoteDate(new Date()), 'Valid until cannot be in the past');
+
 // Pre-sale item schema for creation
 const createPreSaleItemSchema = z.object({
   productId: uuidSchema,
@@ -82,6 +90,7 @@ export const createPreSaleSchema = z.object({
     .optional()
     .nullable()
     .transform(notes => notes === '' ? null : notes),
+  validUntil: validUntilSchema.optional(), // Defaults to the quote validity of the settings
   items: z
     .array(createPreSaleItemSchema)
     .min(1, 'At least one item is required')
@@ -104,6 +113,7 @@ export const updatePreSaleSchema = z.object({
     .optional()
     .nullable()
     .transform(notes => notes === '' ? null : notes),
+  validUntil: validUntilSchema.optional(),
   items: z
     .array(updatePreSaleItemSchema)
     .min(1, 'At least one item is required')
@@ -117,7 +127,35 @@ export const updatePreSaleSchema = z.object({
 
 // Update pre-sale status schema
 export const updatePreSaleStatusSchema = z.object({
-  status: preSaleStatusSchema
+  status: preSaleStatusSchema,
+  // Reason for the change, kept in the status history
+  note: z
+    .string()
+    .max(500, 'Note must be less than 500 characters')
+    .trim()
+    .optional()
+    .nullable()
+    .transform(note => note === '' ? null : note)
+}).strict();
+
+// Approve discount schema, the reason is optional and kept in the status history
+export const approveDiscountSchema = z.object({
+  reason: z
+    .string()
+    .max(500, 'Reason must be less than 500 characters')
+    .trim()
+    .optional()
+    .nullable()
+    .transform(reason => reason === '' ? null : reason)
+}).strict();
+
+// Reject discount schema, the salesperson needs to know why
+export const rejectDiscountSchema = z.object({
+  reason: z
+    .string({ message: 'Reason is required' })
+    .trim()
+    .min(1, 'Reason is required')
+    .max(500, 'Reason must be less than 500 characters')
 }).strict();
 
 // Pre-sale query filters schema
@@ -150,6 +188,8 @@ export const preSaleFiltersSchema = z.object({
 
   customerId: uuidSchema.optional(),
 
+  salespersonId: uuidSchema.optional(),
+
   status: z
     .union([
       preSaleStatusSchema,
@@ -198,6 +238,13 @@ export const preSaleFiltersSchema = z.object({
     .refine(val => !val || /^\d{4}-\d{2}-\d{2}$/.test(val), 'Date must be in YYYY-MM-DD format')
     .refine(val => !val || !isNaN(Date.parse(val)), 'Invalid date format'),
 
+  number: z
+    .string()
+    .trim()
+    .optional()
+    .transform(val => val || undefined)
+    .refine(val => !val || val.length <= 20, 'Pre-sale number must be less than 20 characters'),
+
   search: z
     .string()
     .trim()
@@ -256,13 +303,20 @@ export const customerInfoSchema = z.object({
 // Pre-sale response schema
 export const preSaleResponseSchema = z.object({
   id: z.string().uuid(),
+  number: z.string(),
   customerId: z.string().uuid(),
+  salespersonId: z.string().uuid().nullable(),
   status: preSaleStatusSchema,
   total: z.string(),
   discount: z.string(),
   discountType: discountTypeSchema,
   discountPercentage: z.string(),
   notes: z.string().nullable(),
+  validUntil: z.string(),
+  requestedDiscount: z.string(),
+  discountApprovedPercentage: z.string().nullable(),
+  discountApprovedBy: z.string().uuid().nullable(),
+  discountApprovedAt: z.date().nullable(),
   createdAt: z.date(),
   updatedAt: z.date()
 });
@@ -270,6 +324,10 @@ export const preSaleResponseSchema = z.object({
 // Pre-sale with items response schema
 export const preSaleWithItemsResponseSchema = preSaleResponseSchema.extend({
   customer: customerInfoSchema,
+  salesperson: z.object({
+    id: z.string().uuid(),
+    name: z.string()
+  }).nullable(),
   items: z.array(preSaleItemResponseSchema)
 });
 
@@ -320,6 +378,8 @@ export const validationErrorDetailsSchema = z.object({
 export type CreatePreSaleRequest = z.infer<typeof createPreSaleSchema>;
 export type UpdatePreSaleRequest = z.infer<typeof updatePreSaleSchema>;
 export type UpdatePreSaleStatusRequest = z.infer<typeof updatePreSaleStatusSchema>;
+export type ApproveDiscountRequest = z.infer<typeof approveDiscountSchema>;
+export type RejectDiscountRequest = z.infer<typeof rejectDiscountSchema>;
 export type PreSaleFilters = z.infer<typeof preSaleFiltersSchema>;
 export type PreSaleIdParams = z.infer<typeof preSaleIdSchema>;
 export type PreSaleResponse = z.infer<typeof preSaleResponseSchema>;
@@ -335,10 +395,12 @@ export type ValidationErrorDetails = z.infer<typeof validationErrorDetailsSchema
 export const validateStatusTransition = (currentStatus: PreSaleStatus, newStatus: PreSaleStatus): boolean => {
   const validTransitions: Record<PreSaleStatus, PreSaleStatus[]> = {
     draft: ['pending', 'cancelled'],
-    pending: ['approved', 'cancelled', 'converted'], // Agora permite conversão direta de pending
-    approved: ['converted', 'cancelled'],
+    pending: ['approved', 'cancelled', 'converted', 'expired'], // Agora permite conversão direta de pending
+    approved: ['converted', 'cancelled', 'expired'],
     cancelled: [], // Cannot transition from cancelled
     converted: [], // Cannot transition from converted
+    expired: ['cancelled'], // Back to pending only through renew, which reprices the items
+    awaiting_approval: ['pending', 'draft', 'cancelled', 'expired'], // Entered only when the discount is above the limit
   };
 
   const allowedTransitions = validTransitions[currentStatus];
@@ -377,6 +439,14 @@ export const validateUpdatePreSaleStatus = (data: unknown) => {
   return updatePreSaleStatusSchema.safeParse(data);
 };
 
+export const validateApproveDiscount = (data: unknown) => {
+  return approveDiscountSchema.safeParse(data);
+};
+
+export const validateRejectDiscount = (data: unknown) => {
+  return rejectDiscountSchema.safeParse(data);
+};
+
 export const validatePreSaleFilters = (data: unknown) => {
   return preSaleFiltersSchema.safeParse(data);
 };
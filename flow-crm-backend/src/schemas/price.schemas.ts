@@ -1,4 +1,5 @@
 import { z, ZodError } from 'zod';
+import { stateSchema } from './taxes.schemas';
 
 /**
  * Zod validation schemas for price calculations
@@ -45,6 +46,8 @@ export const priceCalculationParamsSchema = z.object({
         .uuid('Customer ID must be a valid UUID')
         .optional(),
 
+    destinationState: stateSchema.optional(),
+
     applyPromotions: z
         .boolean()
         .optional()
@@ -207,12 +210,21 @@ export const discountBreakdownSchema = z.object({
     totalDiscount: z.number().min(0, 'Total discount must be 0 or greater')
 });
 
-// Tax breakdown schema
-export const taxBreakdownSchema = z.object({
+// Single tax line schema
+export const taxLineSchema = z.object({
     amount: z.number().min(0, 'Tax amount must be 0 or greater'),
     rate: z.number().min(0, 'Tax rate must be 0 or greater')
 });
 
+// Tax breakdown schema (combined values plus each tax separately)
+export const taxBreakdownSchema = taxLineSchema.extend({
+    icms: taxLineSchema,
+    ipi: taxLineSchema,
+    pis: taxLineSchema,
+    cofins: taxLineSchema,
+    destinationState: z.string().length(2).nullable()
+});
+
 // Margin breakdown schema
 export const marginBreakdownSchema = z.object({
     amount: z.number(),
@@ -1,9 +1,19 @@
 import { z, ZodError } from 'zod';
+import { ncmSchema, optionalTaxRateSchema } from './taxes.schemas';
+import { hasStockPrecision, STOCK_DECIMAL_PLACES } from '../utils/stock-calculations';
 
 /**
  * Zod validation schemas for products
  */
 
+// Optional stock level, null clears it
+const stockLevelSchema = (field: string) => z
+  .number()
+  .min(0, `${field} cannot be negative`)
+  .refine(hasStockPrecision, `${field} must have at most ${STOCK_DECIMAL_PLACES} decimal places`)
+  .optional()
+  .nullable();
+
 // Price validation function for Zod
 const priceValidation = (price: string) => {
   const numPrice = parseFloat(price);
@@ -55,11 +65,15 @@ const baseProductSchema = {
 
   stock: z
     .number()
-    .int('Stock must be an integer')
     .min(0, 'Stock cannot be negative')
+    .refine(hasStockPrecision, `Stock must have at most ${STOCK_DECIMAL_PLACES} decimal places`)
     .optional()
     .default(0),
 
+  minStock: stockLevelSchema('Minimum stock'),
+  reorderPoint: stockLevelSchema('Reorder point'),
+  maxStock: stockLevelSchema('Maximum stock'),
+
   purchasePrice: z
     .string()
     .min(1, 'Purchase price is required')
@@ -76,7 +90,26 @@ const baseProductSchema = {
     .string()
     .min(1, 'Sale type is required')
     .max(50, 'Sale type must be less than 50 characters')
+    .trim(),
+
+  category: z
+    .string()
+    .max(100, 'Category must be less than 100 characters')
     .trim()
+    .optional()
+    .nullable()
+    .transform(category => category === '' ? null : category),
+
+  ncm: z
+    .union([ncmSchema, z.literal('')])
+    .optional()
+    .nullable()
+    .transform(ncm => ncm === '' ? null : ncm),
+
+  icmsRate: optionalTaxRateSchema('ICMS rate'),
+  ipiRate: optionalTaxRateSchema('IPI rate'),
+  pisRate: optionalTaxRateSchema('PIS rate'),
+  cofinsRate: optionalTaxRateSchema('COFINS rate')
 };
 
 // Create product schema
@@ -86,9 +119,18 @@ export const createProductSchema = z.object({
   unit: baseProductSchema.unit,
   description: baseProductSchema.description,
   stock: baseProductSchema.stock,
+  minStock: baseProductSchema.minStock,
+  reorderPoint: baseProductSchema.reorderPoint,
+  maxStock: baseProductSchema.maxStock,
   purchasePrice: baseProductSchema.purchasePrice,
   salePrice: baseProductSchema.salePrice,
-  saleType: baseProductSchema.saleType
+  saleType: baseProductSchema.saleType,
+  category: baseProductSchema.category,
+  ncm: baseProductSchema.ncm,
+  icmsRate: baseProductSchema.icmsRate,
+  ipiRate: baseProductSchema.ipiRate,
+  pisRate: baseProductSchema.pisRate,
+  cofinsRate: baseProductSchema.cofinsRate
 }).strict() // Prevent additional properties
   .refine(
     (data) => {
@@ -108,9 +150,18 @@ export const updateProductSchema = z.object({
   unit: baseProductSchema.unit.optional(),
   description: baseProductSchema.description,
   stock: baseProductSchema.stock.optional(),
+  minStock: baseProductSchema.minStock,
+  reorderPoint: baseProductSchema.reorderPoint,
+  maxStock: baseProductSchema.maxStock,
   purchasePrice: baseProductSchema.purchasePrice.optional(),
   salePrice: baseProductSchema.salePrice.optional(),
-  saleType: baseProductSchema.saleType.optional()
+  saleType: baseProductSchema.saleType.optional(),
+  category: baseProductSchema.category,
+  ncm: baseProductSchema.ncm,
+  icmsRate: baseProductSchema.icmsRate,
+  ipiRate: baseProductSchema.ipiRate,
+  pisRate: baseProductSchema.pisRate,
+  cofinsRate: baseProductSchema.cofinsRate
 }).strict() // Prevent additional properties
   .refine(
     (data) => Object.keys(data).length > 0,
@@ -140,9 +191,18 @@ export const productResponseSchema = z.object({
   unit: z.string(),
   description: z.string().nullable(),
   stock: z.number(),
+  minStock: z.number().nullable(),
+  reorderPoint: z.number().nullable(),
+  maxStock: z.number().nullable(),
   purchasePrice: z.string(),
   salePrice: z.string(),
   saleType: z.string(),
+  category: z.string().nullable(),
+  ncm: z.string().nullable(),
+  icmsRate: z.string().nullable(),
+  ipiRate: z.string().nullable(),
+  pisRate: z.string().nullable(),
+  cofinsRate: z.string().nullable(),
   createdAt: z.date(),
   updatedAt: z.date()
 });
@@ -201,6 +261,19 @@ export const productFiltersSchema = z.object({
     })
     .refine(val => !val || val.length <= 255, 'Name filter must be less than 255 characters'),
 
+  unit: z
+    .string()
+    .trim()
+    .optional()
+    .transform(val => {
+      // Treat empty strings, 'string', 'undefined', 'null' as undefined
+      if (!val || val === '' || val === 'string' || val === 'undefined' || val === 'null') {
+        return undefined;
+      }
+      return val;
+    })
+    .refine(val => !val || val.length <= 20, 'Unit filter must be less than 20 characters'),
+
   saleType: z
     .string()
     .trim()
@@ -236,7 +309,7 @@ export const productFiltersSchema = z.object({
       if (!val || val === '' || val === 'string' || val === 'undefined' || val === 'null') {
         return undefined;
       }
-      const parsed = parseInt(val, 10);
+      const parsed = parseFloat(val);
       return isNaN(parsed) ? undefined : parsed;
     })
     .refine(val => val === undefined || val >= 0, 'Minimum stock must be 0 or greater'),
@@ -250,7 +323,7 @@ export const productFiltersSchema = z.object({
       if (!val || val === '' || val === 'string' || val === 'undefined' || val === 'null') {
         return undefined;
       }
-      const parsed = parseInt(val, 10);
+      const parsed = parseFloat(val);
       return isNaN(parsed) ? undefined : parsed;
     })
     .refine(val => val === undefined || val >= 0, 'Maximum stock must be 0 or greater')
@@ -267,6 +340,60 @@ export const productFiltersSchema = z.object({
   }
 );
 
+// Low-stock query schema, without a threshold the low-stock threshold of the system settings is used
+export const lowStockQuerySchema = z.object({
+  threshold: z.coerce
+    .number()
+    .min(0, 'Threshold must be 0 or greater')
+    .optional(),
+
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be greater than 0')
+    .max(500, 'Limit must be 500 or less')
+    .optional()
+    .default(100)
+});
+
+// Product export format schema, the filters come from productFiltersSchema
+export const productExportSchema = z.object({
+  format: z
+    .enum(['csv', 'xlsx'], {
+      message: 'Format must be csv or xlsx'
+    })
+    .optional()
+    .default('csv')
+});
+
+// Bulk product update schema - every row is validated like a single update
+export const bulkUpdateProductsSchema = z.object({
+  updates: z
+    .array(z.object({
+      id: z
+        .string()
+        .uuid('Invalid product ID format'),
+      data: updateProductSchema
+    }))
+    .min(1, 'At least one product must be updated')
+    .max(500, 'At most 500 products can be updated at once')
+});
+
+// Product import schema - the file is sent base64 encoded, dry runs only preview the result
+export const productImportSchema = z.object({
+  format: z.enum(['csv', 'xlsx'], {
+    message: 'Format must be csv or xlsx'
+  }),
+  content: z
+    .string()
+    .min(1, 'File content is required')
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, 'File content must be base64 encoded'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(true)
+});
+
 // Product ID parameter schema
 export const productIdSchema = z.object({
   id: z
@@ -278,15 +405,15 @@ export const productIdSchema = z.object({
 export const stockUpdateSchema = z.object({
   quantity: z
     .number()
-    .int('Stock quantity must be an integer')
     .min(0, 'Stock quantity cannot be negative')
+    .refine(hasStockPrecision, `Stock quantity must have at most ${STOCK_DECIMAL_PLACES} decimal places`)
 });
 
 // Stock adjustment schema
 export const stockAdjustmentSchema = z.object({
   adjustment: z
     .number()
-    .int('Stock adjustment must be an integer')
+    .refine(hasStockPrecision, `Stock adjustment must have at most ${STOCK_DECIMAL_PLACES} decimal places`)
 });
 
 // Paginated products response schema
@@ -337,6 +464,9 @@ export type CreateProductRequest = z.infer<typeof createProductSchema>;
 export type UpdateProductRequest = z.infer<typeof updateProductSchema>;
 export type ProductResponse = z.infer<typeof productResponseSchema>;
 export type ProductFilters = z.infer<typeof productFiltersSchema>;
+export type ProductExportQuery = z.infer<typeof productExportSchema>;
+export type BulkUpdateProductsRequest = z.infer<typeof bulkUpdateProductsSchema>;
+export type ProductImportRequest = z.infer<typeof productImportSchema>;
 export type ProductIdParams = z.infer<typeof productIdSchema>;
 export type StockUpdateRequest = z.infer<typeof stockUpdateSchema>;
 export type StockAdjustmentRequest = z.infer<typeof stockAdjustmentSchema>;
@@ -378,6 +508,22 @@ export const validateProductFilters = (data: unknown) => {
   return productFiltersSchema.safeParse(data);
 };
 
+export const validateLowStockQuery = (data: unknown) => {
+  return lowStockQuerySchema.safeParse(data);
+};
+
+export const validateProductExport = (data: unknown) => {
+  return productExportSchema.safeParse(data);
+};
+
+export const validateBulkUpdateProducts = (data: unknown) => {
+  return bulkUpdateProductsSchema.safeParse(data);
+};
+
+export const validateProductImport = (data: unknown) => {
+  return productImportSchema.safeParse(data);
+};
+
 export const validateProductId = (data: unknown) => {
   return productIdSchema.safeParse(data);
 };
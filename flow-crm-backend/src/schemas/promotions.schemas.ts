@@ -0,0 +1,218 @@
+import { z, ZodError } from 'zod';
+
+/**
+ * Zod validation schemas for promotions
+ */
+
+// Decimal amount validation (up to 2 decimal places)
+const amountSchema = (field: string) => z
+  .string()
+  .regex(/^\d+(\.\d{1,2})?$/, `${field} must be a valid decimal number with up to 2 decimal places`);
+
+// Base promotion schema with common fields
+const basePromotionSchema = {
+  name: z
+    .string()
+    .min(2, 'Promotion name must be at least 2 characters long')
+    .max(255, 'Promotion name must not exceed 255 characters')
+    .trim(),
+
+  description: z
+    .string()
+    .max(1000, 'Description must be less than 1000 characters')
+    .trim()
+    .optional()
+    .nullable()
+    .transform(desc => desc === '' ? null : desc),
+
+  type: z.enum(['percentage', 'fixed'], {
+    message: 'Promotion type must be percentage or fixed'
+  }),
+
+  value: amountSchema('Value')
+    .refine(val => parseFloat(val) > 0, 'Value must be greater than zero'),
+
+  scope: z.enum(['all', 'product', 'category'], {
+    message: 'Scope must be all, product or category'
+  }),
+
+  productId: z.string().uuid('Invalid product ID format').optional().nullable(),
+
+  category: z
+    .string()
+    .max(100, 'Category must be less than 100 characters')
+    .trim()
+    .optional()
+    .nullable()
+    .transform(category => category === '' ? null : category),
+
+  startDate: z.coerce.date({ message: 'Start date must be a valid date' }),
+
+  endDate: z.coerce.date({ message: 'End date must be a valid date' }),
+
+  priority: z
+    .number()
+    .int('Priority must be an integer')
+    .min(0, 'Priority cannot be negative')
+    .max(1000, 'Priority must not exceed 1000'),
+
+  minAmount: amountSchema('Minimum amount').optional().nullable(),
+
+  maxDiscount: amountSchema('Maximum discount').optional().nullable(),
+
+  usageLimit: z
+    .number()
+    .int('Usage limit must be an integer')
+    .positive('Usage limit must be greater than zero')
+    .optional()
+    .nullable(),
+
+  isActive: z.boolean()
+};
+
+/**
+ * Cross-field rules shared by create and update
+ */
+const promotionRules = <T extends {
+  type?: 'percentage' | 'fixed';
+  value?: string;
+  scope?: 'all' | 'product' | 'category';
+  productId?: string | null;
+  category?: string | null;
+  startDate?: Date;
+  endDate?: Date;
+}>(schema: z.ZodType<T>) => schema
+  .refine(
+    data => !(data.startDate && data.endDate) || data.endDate > data.startDate,
+    { message: 'End date must be after start date', path: ['endDate'] }
+  )
+  .refine(
+    data => !(data.type === 'percentage' && data.value) || parseFloat(data.value) <= 100,
+    { message: 'Percentage promotions cannot exceed 100%', path: ['value'] }
+  )
+  .refine(
+    data => data.scope !== 'product' || !!data.productId,
+    { message: 'Product is required for product promotions', path: ['productId'] }
+  )
+  .refine(
+    data => data.scope !== 'category' || !!data.category,
+    { message: 'Category is required for category promotions', path: ['category'] }
+  );
+
+/**
+ * Schema for creating a promotion
+ */
+export const createPromotionSchema = promotionRules(z.object({
+  name: basePromotionSchema.name,
+  description: basePromotionSchema.description,
+  type: basePromotionSchema.type,
+  value: basePromotionSchema.value,
+  scope: basePromotionSchema.scope.optional().default('all'),
+  productId: basePromotionSchema.productId,
+  category: basePromotionSchema.category,
+  startDate: basePromotionSchema.startDate,
+  endDate: basePromotionSchema.endDate,
+  priority: basePromotionSchema.priority.optional().default(0),
+  minAmount: basePromotionSchema.minAmount,
+  maxDiscount: basePromotionSchema.maxDiscount,
+  usageLimit: basePromotionSchema.usageLimit,
+  isActive: basePromotionSchema.isActive.optional().default(true)
+}).strict());
+
+/**
+ * Schema for updating a promotion
+ */
+export const updatePromotionSchema = promotionRules(z.object({
+  name: basePromotionSchema.name.optional(),
+  description: basePromotionSchema.description,
+  type: basePromotionSchema.type.optional(),
+  value: basePromotionSchema.value.optional(),
+  scope: basePromotionSchema.scope.optional(),
+  productId: basePromotionSchema.productId,
+  category: basePromotionSchema.category,
+  startDate: basePromotionSchema.startDate.optional(),
+  endDate: basePromotionSchema.endDate.optional(),
+  priority: basePromotionSchema.priority.optional(),
+  minAmount: basePromotionSchema.minAmount,
+  maxDiscount: basePromotionSchema.maxDiscount,
+  usageLimit: basePromotionSchema.usageLimit,
+  isActive: basePromotionSchema.isActive.optional()
+}).strict())
+  .refine(
+    data => Object.keys(data).length > 0,
+    'At least one field must be provided for update'
+  );
+
+/**
+ * Schema for promotion ID parameter
+ */
+export const promotionIdSchema = z.object({
+  id: z.string().uuid('Invalid promotion ID format')
+});
+
+/**
+ * Schema for promotion query filters
+ */
+export const promotionFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(50),
+  sortBy: z.enum(['name', 'priority', 'startDate', 'endDate', 'createdAt']).optional().default('priority'),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+  isActive: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform(val => val === undefined ? undefined : val === 'true'),
+  status: z.enum(['current', 'scheduled', 'expired']).optional(),
+  scope: z.enum(['all', 'product', 'category']).optional(),
+  productId: z.string().uuid('Invalid product ID format').optional(),
+  search: z
+    .string()
+    .trim()
+    .optional()
+    .transform(val => {
+      // Treat empty strings, 'string', 'undefined', 'null' as undefined
+      if (!val || val === '' || val === 'string' || val === 'undefined' || val === 'null') {
+        return undefined;
+      }
+      return val;
+    })
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreatePromotionRequest = z.infer<typeof createPromotionSchema>;
+export type UpdatePromotionRequest = z.infer<typeof updatePromotionSchema>;
+export type PromotionIdParams = z.infer<typeof promotionIdSchema>;
+export type PromotionFiltersQuery = z.infer<typeof promotionFiltersSchema>;
+
+// Schema validation helpers
+export const validateCreatePromotion = (data: unknown) => {
+  return createPromotionSchema.safeParse(data);
+};
+
+export const validateUpdatePromotion = (data: unknown) => {
+  return updatePromotionSchema.safeParse(data);
+};
+
+export const validatePromotionId = (data: unknown) => {
+  return promotionIdSchema.safeParse(data);
+};
+
+export const validatePromotionFilters = (data: unknown) => {
+  return promotionFiltersSchema.safeParse(data);
+};
+
+// Error message helpers
+export const getValidationErrorMessage = (error: ZodError): string => {
+  const firstError = error.issues[0];
+  return firstError?.message || 'Validation failed';
+};
+
+export const getValidationErrorDetails = (error: ZodError) => {
+  return error.issues.map((err: z.ZodIssue) => ({
+    field: err.path.join('.'),
+    message: err.message,
+    value: err.code === 'invalid_type' ? undefined : err.input
+  }));
+};
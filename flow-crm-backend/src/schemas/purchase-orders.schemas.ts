@@ -0,0 +1,160 @@
+import { z, type ZodError } from 'zod';
+import { hasStockPrecision, STOCK_DECIMAL_PLACES } from '../utils/stock-calculations';
+
+/**
+ * Zod validation schemas for purchase orders
+ */
+
+// Quantity ordered or received, the unit rules of the product are checked by the service
+const quantitySchema = z
+  .number()
+  .positive('Quantity must be greater than zero')
+  .refine(hasStockPrecision, `Quantity must have at most ${STOCK_DECIMAL_PLACES} decimal places`);
+
+// Purchase order line validation
+export const purchaseOrderItemSchema = z.object({
+  productId: z.string().uuid('Invalid product ID format'),
+  quantity: quantitySchema,
+  unitCost: z
+    .string()
+    .min(1, 'Unit cost is required')
+    .regex(/^\d+(\.\d{1,2})?$/, 'Unit cost must be a valid decimal number with up to 2 decimal places')
+}).strict();
+
+// Base purchase order schema with common fields
+const basePurchaseOrderSchema = {
+  supplierId: z.string().uuid('Invalid supplier ID format'),
+
+  expectedDate: z
+    .union([z.iso.date('Expected date must be a valid date (YYYY-MM-DD)'), z.literal('')])
+    .optional()
+    .nullable()
+    .transform(date => date === '' ? null : date),
+
+  notes: z
+    .string()
+    .trim()
+    .max(1000, 'Notes must be less than 1000 characters')
+    .optional()
+    .nullable()
+    .transform(notes => notes === '' ? null : notes),
+
+  items: z
+    .array(purchaseOrderItemSchema)
+    .min(1, 'A purchase order must have at least one item')
+    .max(200, 'A purchase order can have at most 200 items')
+};
+
+/**
+ * Schema for creating a purchase order
+ */
+export const createPurchaseOrderSchema = z.object(basePurchaseOrderSchema).strict();
+
+/**
+ * Schema for updating a draft purchase order
+ */
+export const updatePurchaseOrderSchema = z.object({
+  ...basePurchaseOrderSchema,
+  supplierId: basePurchaseOrderSchema.supplierId.optional(),
+  items: basePurchaseOrderSchema.items.optional()
+}).strict()
+  .refine(
+    data => Object.keys(data).length > 0,
+    'At least one field must be provided for update'
+  );
+
+/**
+ * Schema for placing or cancelling a purchase order
+ */
+export const updatePurchaseOrderStatusSchema = z.object({
+  status: z.enum(['ordered', 'cancelled'], {
+    message: 'Status must be ordered or cancelled'
+  })
+}).strict();
+
+/**
+ * Schema for receiving purchase order lines
+ */
+export const receivePurchaseOrderSchema = z.object({
+  items: z
+    .array(z.object({
+      itemId: z.string().uuid('Invalid purchase order item ID format'),
+      quantity: quantitySchema
+    }).strict())
+    .min(1, 'Inform at least one received item'),
+
+  notes: z
+    .string()
+    .trim()
+    .max(200, 'Notes must be less than 200 characters')
+    .optional()
+    .nullable()
+}).strict();
+
+/**
+ * Schema for purchase order ID parameter
+ */
+export const purchaseOrderIdSchema = z.object({
+  id: z.string().uuid('Invalid purchase order ID format')
+});
+
+/**
+ * Schema for purchase order query filters
+ */
+export const purchaseOrderFiltersSchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit cannot exceed 100').default(20),
+  status: z
+    .enum(['draft', 'ordered', 'partially_received', 'received', 'cancelled'], {
+      message: 'Status must be draft, ordered, partially_received, received or cancelled'
+    })
+    .optional(),
+  supplierId: z.string().uuid('Invalid supplier ID format').optional()
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreatePurchaseOrderRequest = z.infer<typeof createPurchaseOrderSchema>;
+export type UpdatePurchaseOrderRequest = z.infer<typeof updatePurchaseOrderSchema>;
+export type ReceivePurchaseOrderRequest = z.infer<typeof receivePurchaseOrderSchema>;
+export type PurchaseOrderFiltersQuery = z.infer<typeof purchaseOrderFiltersSchema>;
+
+// Schema validation helpers
+export const validateCreatePurchaseOrder = (data: unknown) => {
+  return createPurchaseOrderSchema.safeParse(data);
+};
+
+export const validateUpdatePurchaseOrder = (data: unknown) => {
+  return updatePurchaseOrderSchema.safeParse(data);
+};
+
+export const validateUpdatePurchaseOrderStatus = (data: unknown) => {
+  return updatePurchaseOrderStatusSchema.safeParse(data);
+};
+
+export const validateReceivePurchaseOrder = (data: unknown) => {
+  return receivePurchaseOrderSchema.safeParse(data);
+};
+
+export const validatePurchaseOrderId = (data: unknown) => {
+  return purchaseOrderIdSchema.safeParse(data);
+};
+
+export const validatePurchaseOrderFilters = (data: unknown) => {
+  return purchaseOrderFiltersSchema.safeParse(data);
+};
+
+// Error message helpers
+export const getValidationErrorMessage = (error: ZodError): string => {
+  const firstError = error.issues[0];
+  return firstError?.message || 'Validation failed';
+};
+
+export const getValidationErrorDetails = (error: ZodError) => {
+  return error.issues.map(err => ({
+    field: err.path.join('.'),
+    message: err.message,
+    value: err.code === 'invalid_type' ? undefined : err.input
+  }));
+};
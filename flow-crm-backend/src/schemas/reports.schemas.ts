@@ -16,7 +16,8 @@ const dateStringSchema = z.string().datetime('Invalid date format. Please use IS
 export const reportsQuerySchema = z.object({
     startDate: dateStringSchema.optional(),
     endDate: dateStringSchema.optional(),
-    paymentMethodId: uuidSchema.optional()
+    paymentMethodId: uuidSchema.optional(),
+    salespersonId: uuidSchema.optional()
 }).refine(
     (data) => {
         // If one date is provided, both must be provided
@@ -99,6 +100,20 @@ export const reportSummarySchema = z.object({
     })
 });
 
+/**
+ * Commission report data schema
+ */
+export const commissionReportDataSchema = z.object({
+    salesperson: z.object({
+        id: uuidSchema,
+        name: z.string()
+    }),
+    salesCount: z.number().int().min(0, 'Sales count must be a non-negative integer'),
+    totalAmount: z.number().min(0, 'Total amount must be non-negative'),
+    commissionAmount: z.number().min(0, 'Commission amount must be non-negative'),
+    averageRate: z.number().min(0, 'Average rate must be non-negative')
+});
+
 /**
  * Payment methods report response schema
  */
@@ -117,6 +132,15 @@ export const reportSummaryResponseSchema = z.object({
     message: z.string()
 });
 
+/**
+ * Commissions report response schema
+ */
+export const commissionsReportResponseSchema = z.object({
+    success: z.boolean(),
+    data: z.array(commissionReportDataSchema),
+    message: z.string()
+});
+
 /**
  * Error response schema
  */
@@ -133,8 +157,10 @@ export type ReportsQuery = z.infer<typeof reportsQuerySchema>;
 export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
 export type PaymentMethodReportData = z.infer<typeof paymentMethodReportDataSchema>;
 export type ReportSummary = z.infer<typeof reportSummarySchema>;
+export type CommissionReportData = z.infer<typeof commissionReportDataSchema>;
 export type PaymentMethodsReportResponse = z.infer<typeof paymentMethodsReportResponseSchema>;
 export type ReportSummaryResponse = z.infer<typeof reportSummaryResponseSchema>;
+export type CommissionsReportResponse = z.infer<typeof commissionsReportResponseSchema>;
 export type ErrorResponse = z.infer<typeof errorResponseSchema>;
 
 /**
@@ -208,6 +234,11 @@ export function sanitizeAndValidateQuery(query: Record<string, unknown>): Report
         sanitized.paymentMethodId = query.paymentMethodId.replace(/[^0-9a-f\-]/gi, '').substring(0, 36);
     }
 
+    if (query.salespersonId && typeof query.salespersonId === 'string') {
+        // Remove non-UUID characters and limit length
+        sanitized.salespersonId = query.salespersonId.replace(/[^0-9a-f\-]/gi, '').substring(0, 36);
+    }
+
     // Validate the sanitized input
     return validateReportsQuery(sanitized);
 }
@@ -249,4 +280,18 @@ export function createReportSummaryResponse(
         data,
         message
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Create standardized success response for commissions report
+ */
+export function createCommissionsReportResponse(
+    data: CommissionReportData[],
+    message: string = 'Commissions report generated successfully'
+): CommissionsReportResponse {
+    return {
+        success: true,
+        data,
+        message
+    };
+}
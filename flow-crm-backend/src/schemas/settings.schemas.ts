@@ -0,0 +1,120 @@
+import { z, type ZodError } from 'zod';
+import { validateCnpj, formatCnpj } from '../utils/cpf-cnpj-validator';
+import { hasStockPrecision, STOCK_DECIMAL_PLACES } from '../utils/stock-calculations';
+
+/**
+ * Zod validation schemas for system settings
+ */
+
+// A 500KB image takes about 683KB once base64 encoded
+const MAX_LOGO_LENGTH = 700 * 1000;
+
+// Logos are stored as data URLs so they can be embedded in the PDFs as they are
+const LOGO_DATA_URL_REGEX = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+=*$/;
+
+// Optional text, empty strings clear the value
+const optionalTextSchema = (field: string, maxLength: number) => z
+  .string()
+  .trim()
+  .max(maxLength, `${field} must be less than ${maxLength} characters`)
+  .optional()
+  .nullable()
+  .transform(value => value === '' ? null : value);
+
+// Code prefix validation (letters only, stored in uppercase)
+const codePrefixSchema = (field: string) => z
+  .string()
+  .trim()
+  .transform(prefix => prefix.toUpperCase())
+  .refine(prefix => /^[A-Z]{1,10}$/.test(prefix), `${field} must have 1 to 10 letters`);
+
+// Discount limit in percent of the gross total
+const discountLimitSchema = (field: string) => z
+  .number()
+  .min(0, `${field} cannot be negative`)
+  .max(100, `${field} cannot exceed 100%`);
+
+/**
+ * Schema for updating the system settings
+ */
+export const updateSystemSettingsSchema = z.object({
+  companyName: optionalTextSchema('Company name', 255),
+  companyAddress: optionalTextSchema('Company address', 500),
+
+  companyCnpj: z
+    .string()
+    .trim()
+    .optional()
+    .nullable()
+    .refine(cnpj => !cnpj || validateCnpj(cnpj), 'Invalid CNPJ')
+    .transform(cnpj => cnpj ? formatCnpj(cnpj) : cnpj === '' ? null : cnpj),
+
+  companyLogo: z
+    .string()
+    .max(MAX_LOGO_LENGTH, 'Company logo must be smaller than 500KB')
+    .optional()
+    .nullable()
+    .refine(logo => !logo || LOGO_DATA_URL_REGEX.test(logo), 'Company logo must be a PNG or JPEG image')
+    .transform(logo => logo === '' ? null : logo),
+
+  defaultMarkup: z
+    .number()
+    .min(0, 'Default markup cannot be negative')
+    .max(1000, 'Default markup cannot exceed 1000%')
+    .optional(),
+
+  lowStockThreshold: z
+    .number()
+    .min(0, 'Low stock threshold cannot be negative')
+    .refine(hasStockPrecision, `Low stock threshold must have at most ${STOCK_DECIMAL_PLACES} decimal places`)
+    .optional(),
+
+  productCodePrefix: codePrefixSchema('Product code prefix').optional(),
+  paymentMethodCodePrefix: codePrefixSchema('Payment method code prefix').optional(),
+
+  quoteValidityDays: z
+    .number()
+    .int('Quote validity must be a whole number of days')
+    .min(1, 'Quote validity must be at least 1 day')
+    .max(365, 'Quote validity cannot exceed 365 days')
+    .optional(),
+
+  quoteTerms: optionalTextSchema('Quote terms', 2000),
+
+  employeeDiscountLimit: discountLimitSchema('Employee discount limit').optional(),
+  managerDiscountLimit: discountLimitSchema('Manager discount limit').optional()
+}).strict()
+  .refine(
+    data => Object.keys(data).length > 0,
+    'At least one field must be provided for update'
+  )
+  .refine(
+    data => data.employeeDiscountLimit === undefined
+      || data.managerDiscountLimit === undefined
+      || data.managerDiscountLimit >= data.employeeDiscountLimit,
+    'Manager discount limit cannot be lower than the employee discount limit'
+  );
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type UpdateSystemSettingsRequest = z.infer<typeof updateSystemSettingsSchema>;
+
+// Schema validation helpers
+export const validateUpdateSystemSettings = (data: unknown) => {
+  return updateSystemSettingsSchema.safeParse(data);
+};
+
+// Error message helpers
+export const getValidationErrorMessage = (error: ZodError): string => {
+  const firstError = error.issues[0];
+  return firstError?.message || 'Validation failed';
+};
+
+export const getValidationErrorDetails = (error: ZodError) => {
+  return error.issues.map(err => ({
+    field: err.path.join('.'),
+    message: err.message,
+    value: err.code === 'invalid_type' ? undefined : err.input
+  }));
+};
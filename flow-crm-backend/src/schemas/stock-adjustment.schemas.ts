@@ -1,4 +1,5 @@
 import { z, ZodError } from 'zod';
+import { hasStockPrecision, STOCK_DECIMAL_PLACES } from '../utils/stock-calculations';
 
 /**
  * Zod validation schemas for stock adjustments
@@ -14,9 +15,9 @@ export const stockAdjustmentSchema = z.object({
     adjustmentType: stockAdjustmentTypeEnum,
     quantity: z
         .number()
-        .int('Quantity must be an integer')
-        .min(1, 'Quantity must be greater than 0')
-        .max(999999, 'Quantity cannot exceed 999,999'),
+        .positive('Quantity must be greater than 0')
+        .max(999999, 'Quantity cannot exceed 999,999')
+        .refine(hasStockPrecision, `Quantity must have at most ${STOCK_DECIMAL_PLACES} decimal places`),
     reason: z
         .string()
         .min(1, 'Reason is required')
@@ -132,6 +133,7 @@ export const stockAdjustmentResponseSchema = z.object({
     previousStock: z.number(),
     newStock: z.number(),
     reason: z.string(),
+    purchaseOrderId: z.string().uuid().nullable(),
     userId: z.string().uuid().nullable(),
     userName: z.string(),
     ipAddress: z.string().nullable(),
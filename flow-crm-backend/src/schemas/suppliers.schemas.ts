@@ -0,0 +1,128 @@
+import { z, type ZodError } from 'zod';
+import { validateCnpj } from '../utils/cpf-cnpj-validator';
+
+/**
+ * Zod validation schemas for suppliers
+ */
+
+// Optional text, empty strings clear the value
+const optionalTextSchema = (field: string, maxLength: number) => z
+  .string()
+  .trim()
+  .max(maxLength, `${field} must be less than ${maxLength} characters`)
+  .optional()
+  .nullable()
+  .transform(value => value === '' ? null : value);
+
+// Base supplier schema with common fields
+const baseSupplierSchema = {
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(255, 'Name must be less than 255 characters'),
+
+  // Accepted formatted or not, stored as digits
+  cnpj: z
+    .string()
+    .trim()
+    .optional()
+    .nullable()
+    .refine(cnpj => !cnpj || validateCnpj(cnpj), 'Invalid CNPJ')
+    .transform(cnpj => cnpj ? cnpj.replace(/\D/g, '') : cnpj === '' ? null : cnpj),
+
+  contactName: optionalTextSchema('Contact name', 255),
+
+  email: z
+    .union([z.email('Invalid email format').max(255, 'Email must be less than 255 characters'), z.literal('')])
+    .optional()
+    .nullable()
+    .transform(email => email ? email.toLowerCase() : email === '' ? null : email),
+
+  phone: z
+    .string()
+    .trim()
+    .max(20, 'Phone must be less than 20 characters')
+    .regex(/^[\d\s\-()+]*$/, 'Phone must contain only numbers, spaces, hyphens, parentheses, and plus signs')
+    .optional()
+    .nullable()
+    .transform(phone => phone === '' ? null : phone),
+
+  notes: optionalTextSchema('Notes', 1000),
+  isActive: z.boolean().optional()
+};
+
+/**
+ * Schema for creating a supplier
+ */
+export const createSupplierSchema = z.object(baseSupplierSchema).strict();
+
+/**
+ * Schema for updating a supplier
+ */
+export const updateSupplierSchema = z.object({
+  ...baseSupplierSchema,
+  name: baseSupplierSchema.name.optional()
+}).strict()
+  .refine(
+    data => Object.keys(data).length > 0,
+    'At least one field must be provided for update'
+  );
+
+/**
+ * Schema for supplier ID parameter
+ */
+export const supplierIdSchema = z.object({
+  id: z.string().uuid('Invalid supplier ID format')
+});
+
+/**
+ * Schema for supplier query filters
+ */
+export const supplierFiltersSchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit cannot exceed 100').default(50),
+  search: z.string().trim().max(255, 'Search term must be less than 255 characters').optional(),
+  isActive: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform(val => val === undefined ? undefined : val === 'true')
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateSupplierRequest = z.infer<typeof createSupplierSchema>;
+export type UpdateSupplierRequest = z.infer<typeof updateSupplierSchema>;
+export type SupplierFiltersQuery = z.infer<typeof supplierFiltersSchema>;
+
+// Schema validation helpers
+export const validateCreateSupplier = (data: unknown) => {
+  return createSupplierSchema.safeParse(data);
+};
+
+export const validateUpdateSupplier = (data: unknown) => {
+  return updateSupplierSchema.safeParse(data);
+};
+
+export const validateSupplierId = (data: unknown) => {
+  return supplierIdSchema.safeParse(data);
+};
+
+export const validateSupplierFilters = (data: unknown) => {
+  return supplierFiltersSchema.safeParse(data);
+};
+
+// Error message helpers
+export const getValidationErrorMessage = (error: ZodError): string => {
+  const firstError = error.issues[0];
+  return firstError?.message || 'Validation failed';
+};
+
+export const getValidationErrorDetails = (error: ZodError) => {
+  return error.issues.map(err => ({
+    field: err.path.join('.'),
+    message: err.message,
+    value: err.code === 'invalid_type' ? undefined : err.input
+  }));
+};
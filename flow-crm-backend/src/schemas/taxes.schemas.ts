@@ -0,0 +1,157 @@
+import { z, ZodError } from 'zod';
+import { isBrazilianState } from '../utils/tax-calculations';
+
+/**
+ * Zod validation schemas for tax configuration
+ */
+
+// Tax rate validation (percentage with up to 2 decimal places)
+export const taxRateSchema = (field: string) => z
+  .string()
+  .regex(/^\d+(\.\d{1,2})?$/, `${field} must be a valid decimal number with up to 2 decimal places`)
+  .refine(val => parseFloat(val) <= 100, `${field} cannot exceed 100%`);
+
+// Optional tax rate, empty strings clear the rate
+export const optionalTaxRateSchema = (field: string) => z
+  .union([taxRateSchema(field), z.literal('')])
+  .optional()
+  .nullable()
+  .transform(rate => rate === '' ? null : rate);
+
+// NCM code validation (8 digits, dots allowed on input)
+export const ncmSchema = z
+  .string()
+  .trim()
+  .transform(ncm => ncm.replace(/\./g, ''))
+  .refine(ncm => /^\d{8}$/.test(ncm), 'NCM must have exactly 8 digits');
+
+// Destination state validation
+export const stateSchema = z
+  .string()
+  .trim()
+  .transform(state => state.toUpperCase())
+  .refine(isBrazilianState, 'State must be a valid Brazilian UF code');
+
+// Base NCM tax rate schema with common fields
+const baseNcmTaxRateSchema = {
+  ncm: ncmSchema,
+
+  description: z
+    .string()
+    .max(255, 'Description must be less than 255 characters')
+    .trim()
+    .optional()
+    .nullable()
+    .transform(desc => desc === '' ? null : desc),
+
+  icmsRate: optionalTaxRateSchema('ICMS rate'),
+  ipiRate: optionalTaxRateSchema('IPI rate'),
+  pisRate: optionalTaxRateSchema('PIS rate'),
+  cofinsRate: optionalTaxRateSchema('COFINS rate')
+};
+
+/**
+ * Schema for creating an NCM tax rate
+ */
+export const createNcmTaxRateSchema = z.object(baseNcmTaxRateSchema).strict();
+
+/**
+ * Schema for updating an NCM tax rate
+ */
+export const updateNcmTaxRateSchema = z.object({
+  ...baseNcmTaxRateSchema,
+  ncm: baseNcmTaxRateSchema.ncm.optional()
+}).strict()
+  .refine(
+    data => Object.keys(data).length > 0,
+    'At least one field must be provided for update'
+  );
+
+/**
+ * Schema for NCM tax rate ID parameter
+ */
+export const ncmTaxRateIdSchema = z.object({
+  id: z.string().uuid('Invalid NCM tax rate ID format')
+});
+
+/**
+ * Schema for NCM tax rate query filters
+ */
+export const ncmTaxRateFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(50),
+  sortBy: z.enum(['ncm', 'createdAt']).optional().default('ncm'),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
+  search: z
+    .string()
+    .trim()
+    .optional()
+    .transform(val => {
+      // Treat empty strings, 'string', 'undefined', 'null' as undefined
+      if (!val || val === '' || val === 'string' || val === 'undefined' || val === 'null') {
+        return undefined;
+      }
+      return val;
+    })
+});
+
+/**
+ * Schema for ICMS state rate parameter
+ */
+export const stateParamSchema = z.object({
+  state: stateSchema
+});
+
+/**
+ * Schema for setting an ICMS state rate
+ */
+export const icmsStateRateSchema = z.object({
+  rate: taxRateSchema('ICMS rate')
+}).strict();
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateNcmTaxRateRequest = z.infer<typeof createNcmTaxRateSchema>;
+export type UpdateNcmTaxRateRequest = z.infer<typeof updateNcmTaxRateSchema>;
+export type NcmTaxRateFiltersQuery = z.infer<typeof ncmTaxRateFiltersSchema>;
+export type IcmsStateRateRequest = z.infer<typeof icmsStateRateSchema>;
+
+// Schema validation helpers
+export const validateCreateNcmTaxRate = (data: unknown) => {
+  return createNcmTaxRateSchema.safeParse(data);
+};
+
+export const validateUpdateNcmTaxRate = (data: unknown) => {
+  return updateNcmTaxRateSchema.safeParse(data);
+};
+
+export const validateNcmTaxRateId = (data: unknown) => {
+  return ncmTaxRateIdSchema.safeParse(data);
+};
+
+export const validateNcmTaxRateFilters = (data: unknown) => {
+  return ncmTaxRateFiltersSchema.safeParse(data);
+};
+
+export const validateStateParam = (data: unknown) => {
+  return stateParamSchema.safeParse(data);
+};
+
+export const validateIcmsStateRate = (data: unknown) => {
+  return icmsStateRateSchema.safeParse(data);
+};
+
+// Error message helpers
+export const getValidationErrorMessage = (error: ZodError): string => {
+  const firstError = error.issues[0];
+  return firstError?.message || 'Validation failed';
+};
+
+export const getValidationErrorDetails = (error: ZodError) => {
+  return error.issues.map((err: z.ZodIssue) => ({
+    field: err.path.join('.'),
+    message: err.message,
+    value: err.code === 'invalid_type' ? undefined : err.input
+  }));
+};
@@ -2,6 +2,8 @@ import 'dotenv/config';
 import { buildApp } from './app';
 import { env } from './config/environment';
 import { checkDatabaseConnection } from './db/connection';
+import { retentionService } from './services/retention.service';
+import { quoteExpiryService } from './services/quote-expiry.service';
 
 /**
  * Application entry point with proper error handling and graceful shutdown
@@ -33,6 +35,18 @@ const start = async (): Promise<void> => {
     app.log.info(`📊 Health check available at ${address}/health`);
     app.log.info(`🔧 Environment: ${env.NODE_ENV}`);
 
+    // Archive and delete expired audit logs and stock adjustments on a schedule
+    retentionService.start();
+    app.log.info(env.RETENTION_ENABLED
+      ? `🗄️  Retention jobs every ${env.RETENTION_INTERVAL_HOURS}h, archives in ${env.RETENTION_ARCHIVE_DIR}`
+      : '🗄️  Retention jobs disabled');
+
+    // Move open quotes past their validity to expired
+    quoteExpiryService.start();
+    app.log.info(env.QUOTE_EXPIRY_ENABLED
+      ? `⏳ Quote expiry job every ${env.QUOTE_EXPIRY_INTERVAL_HOURS}h`
+      : '⏳ Quote expiry job disabled');
+
   } catch (error) {
     if (app) {
       app.log.error(error, 'Error starting server');
@@ -56,6 +70,9 @@ const gracefulShutdown = async (signal: string): Promise<void> => {
       process.exit(1);
     }, 10000); // 10 seconds timeout
 
+    retentionService.stop();
+    quoteExpiryService.stop();
+
     // Close the server gracefully
     const app = buildApp();
     await app.close();
@@ -1,7 +1,8 @@
-import { eq, and, desc, gte, lte, sql } from 'drizzle-orm';
+import { eq, and, desc, gte, lte, sql, inArray } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { auditLogs } from '../db/schema/audit-logs';
 import { BaseFilters } from '../types/common.types';
+import { type AuditFieldChange, type AuditSnapshot, diffAuditSnapshots, parseAuditDetails } from '../utils/audit-diff';
 
 /**
  * Audit action types
@@ -38,18 +39,46 @@ export interface CreateAuditLogData {
   userAgent?: string | null;
 }
 
+/**
+ * Who performed a mutation, taken from the authenticated request
+ */
+export interface AuditContext {
+  userId?: string | null;
+  userName: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Entry of the change history of a record
+ */
+export interface AuditHistoryEntry {
+  id: string;
+  action: AuditAction;
+  resource: string;
+  userName: string;
+  summary: string;
+  changes: AuditFieldChange[];
+  createdAt: Date;
+}
+
 /**
  * Audit Log filters interface
  */
 export interface AuditLogFilters extends BaseFilters {
   userId?: string;
   action?: AuditAction;
-  resource?: string;
+  resource?: string | string[];
   resourceId?: string;
   startDate?: Date;
   endDate?: Date;
 }
 
+/**
+ * Audit logs read per query while exporting
+ */
+const EXPORT_BATCH_SIZE = 500;
+
 /**
  * Audit Log service class containing all audit log-related business logic
  */
@@ -187,6 +216,38 @@ export class AuditLogService {
     });
   }
 
+  /**
+   * Log a create, update or delete with the changed fields
+   * The action follows from the snapshots: no previous state is a create, no next state is a delete.
+   * Updates that change nothing are not logged.
+   */
+  async logMutation(
+    context: AuditContext,
+    resource: string,
+    resourceId: string,
+    before: AuditSnapshot | null,
+    after: AuditSnapshot | null,
+    summary: string
+  ): Promise<AuditLog | null> {
+    const action: AuditAction = !before ? 'create' : after ? 'update' : 'delete';
+    const changes = diffAuditSnapshots(before, after);
+
+    if (action === 'update' && changes.length === 0) {
+      return null;
+    }
+
+    return this.create({
+      userId: context.userId,
+      userName: context.userName,
+      action,
+      resource,
+      resourceId,
+      details: JSON.stringify({ summary, changes }),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    });
+  }
+
   /**
    * Log a view action
    */
@@ -238,7 +299,7 @@ export class AuditLogService {
     }
 
     if (resource) {
-      conditions.push(eq(auditLogs.resource, resource));
+      conditions.push(Array.isArray(resource) ? inArray(auditLogs.resource, resource) : eq(auditLogs.resource, resource));
     }
 
     if (resourceId) {
@@ -262,13 +323,27 @@ export class AuditLogService {
       .select()
       .from(auditLogs)
       .where(whereCondition)
-      .orderBy(desc(auditLogs.createdAt))
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
       .limit(limit)
       .offset(offset);
 
     return result;
   }
 
+  /**
+   * Iterate over every audit log matching the filters, reading them in batches
+   */
+  async *iterateAll(filters: Omit<AuditLogFilters, 'page' | 'limit'> = {}): AsyncGenerator<AuditLog> {
+    for (let page = 1; ; page++) {
+      const batch = await this.findAll({ ...filters, page, limit: EXPORT_BATCH_SIZE });
+      yield* batch;
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
   /**
    * Count total audit logs with filters
    */
@@ -286,7 +361,7 @@ export class AuditLogService {
     }
 
     if (resource) {
-      conditions.push(eq(auditLogs.resource, resource));
+      conditions.push(Array.isArray(resource) ? inArray(auditLogs.resource, resource) : eq(auditLogs.resource, resource));
     }
 
     if (resourceId) {
@@ -329,6 +404,39 @@ export class AuditLogService {
     return this.findAll({ resource, resourceId, limit });
   }
 
+  /**
+   * Change history of a record, newest first
+   * Entries written before details were structured are returned with their text as summary.
+   */
+  async findHistory(
+    resources: string[],
+    resourceId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ entries: AuditHistoryEntry[]; total: number }> {
+    const filters = { resource: resources, resourceId };
+    const [logs, total] = await Promise.all([
+      this.findAll({ ...filters, page, limit }),
+      this.count(filters)
+    ]);
+
+    const entries = logs.map(log => {
+      const details = parseAuditDetails(log.details);
+
+      return {
+        id: log.id,
+        action: log.action,
+        resource: log.resource,
+        userName: log.userName,
+        summary: details?.summary ?? log.details ?? '',
+        changes: details?.changes ?? [],
+        createdAt: log.createdAt
+      };
+    });
+
+    return { entries, total };
+  }
+
   /**
    * Find recent audit logs
    */
@@ -1,8 +1,11 @@
-import { eq } from 'drizzle-orm';
+import { randomUUID } from 'node:crypto';
+import { eq, and, isNull, lt } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { users } from '../db/schema/users';
+import { refreshTokens, revokedTokens } from '../db/schema/sessions';
+import { jwtConfig, type JwtPayload } from '../config/jwt';
 import { hashPassword, comparePassword } from '../utils/password-hash';
-import { generateToken, verifyToken } from '../utils/jwt';
+import { generateToken, verifyToken, decodeToken, generateRefreshToken, hashRefreshToken } from '../utils/jwt';
 import { User, CreateUserData, LoginCredentials, AuthResponse, AuthService } from '../types/auth.types';
 
 /**
@@ -12,7 +15,7 @@ class AuthServiceImpl implements AuthService {
   /**
    * Authenticate user with email and password
    * @param credentials - User login credentials
-   * @returns Promise that resolves to user data and JWT token
+   * @returns Promise that resolves to user data, access token and refresh token
    */
   async login(credentials: LoginCredentials): Promise<AuthResponse> {
     const { email, password } = credentials;
@@ -36,12 +39,8 @@ class AuthServiceImpl implements AuthService {
       throw new Error('Invalid email or password');
     }
 
-    // Generate JWT token
-    const token = await generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // Generate access and refresh tokens for a new session
+    const { token, refreshToken, expiresIn } = await this.issueTokens(user, randomUUID());
 
     // Return user data without password
     const userResponse: User = {
@@ -57,9 +56,148 @@ class AuthServiceImpl implements AuthService {
     return {
       user: userResponse,
       token,
+      refreshToken,
+      expiresIn,
+    };
+  }
+
+  /**
+   * Rotate a refresh token and issue a new access token for the same session
+   * Presenting a token that was already rotated revokes the whole session
+   * @param refreshToken - Refresh token received on login or on the last refresh
+   * @returns Promise that resolves to user data and the new token pair
+   */
+  async refreshSession(refreshToken: string): Promise<AuthResponse> {
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      throw new Error('Refresh token is required');
+    }
+
+    const storedResult = await db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, hashRefreshToken(refreshToken)))
+      .limit(1);
+
+    if (storedResult.length === 0) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const stored = storedResult[0];
+
+    if (stored.expiresAt <= new Date()) {
+      throw new Error('Refresh token has expired');
+    }
+
+    // Claim the token, only one request can rotate it
+    const claimed = await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.id, stored.id), isNull(refreshTokens.revokedAt)))
+      .returning({ id: refreshTokens.id });
+
+    if (claimed.length === 0) {
+      // Reuse of a rotated token means it may have leaked, end the session for everyone holding it
+      await this.revokeSession(stored.familyId);
+      throw new Error('Refresh token has been revoked');
+    }
+
+    const userResult = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, stored.userId))
+      .limit(1);
+
+    if (userResult.length === 0) {
+      throw new Error('User not found or has been deactivated');
+    }
+
+    const user = userResult[0];
+    const tokens = await this.issueTokens(user, stored.familyId);
+
+    await db
+      .update(refreshTokens)
+      .set({ replacedById: tokens.refreshTokenId })
+      .where(eq(refreshTokens.id, stored.id));
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        permissions: user.permissions,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
     };
   }
 
+  /**
+   * End the current session: revoke the access token and the refresh token session
+   * @param token - Access token of the request, expired or invalid tokens are ignored
+   * @param refreshToken - Refresh token of the session, if the client still has it
+   */
+  async logout(token: string | null, refreshToken?: string): Promise<void> {
+    if (token) {
+      let payload: JwtPayload | null = null;
+      try {
+        payload = await verifyToken(token);
+      } catch {
+        // Expired or invalid tokens are already rejected, nothing to revoke
+      }
+
+      if (payload?.jti && payload.exp) {
+        await db
+          .insert(revokedTokens)
+          .values({
+            jti: payload.jti,
+            userId: payload.userId,
+            expiresAt: new Date(payload.exp * 1000),
+          })
+          .onConflictDoNothing();
+      }
+    }
+
+    if (refreshToken) {
+      const storedResult = await db
+        .select({ familyId: refreshTokens.familyId })
+        .from(refreshTokens)
+        .where(eq(refreshTokens.tokenHash, hashRefreshToken(refreshToken)))
+        .limit(1);
+
+      if (storedResult.length > 0) {
+        await this.revokeSession(storedResult[0].familyId);
+      }
+    }
+
+    // Revoked access tokens only need to be kept until they expire
+    await db
+      .delete(revokedTokens)
+      .where(lt(revokedTokens.expiresAt, new Date()));
+  }
+
+  /**
+   * End all sessions of a user, on every device
+   * Access tokens issued until now stop being accepted and no refresh token can be used anymore
+   * @param userId - User whose sessions are ended
+   */
+  async logoutAll(userId: string): Promise<void> {
+    const now = new Date();
+
+    await db
+      .update(users)
+      .set({ sessionsRevokedAt: now })
+      .where(eq(users.id, userId));
+
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: now })
+      .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+  }
+
   /**
    * Register a new user (admin only functionality)
    * @param userData - User registration data
@@ -176,6 +314,11 @@ class AuthServiceImpl implements AuthService {
         throw new Error('Token email mismatch with user data');
       }
 
+      // Reject tokens revoked on logout or issued before the user ended all sessions
+      if (await this.isTokenRevoked(payload, user.sessionsRevokedAt)) {
+        throw new Error('Token has been revoked');
+      }
+
       // Return user data without password
       return {
         id: user.id,
@@ -198,7 +341,8 @@ class AuthServiceImpl implements AuthService {
         error.message.includes('format') ||
         error.message.includes('not found') ||
         error.message.includes('deactivated') ||
-        error.message.includes('mismatch')
+        error.message.includes('mismatch') ||
+        error.message.includes('revoked')
       )) {
         throw error;
       }
@@ -207,6 +351,84 @@ class AuthServiceImpl implements AuthService {
     }
   }
 
+  /**
+   * Generate an access token and store a new refresh token for the session
+   * @param user - User the tokens are issued to
+   * @param familyId - Session the refresh token belongs to
+   * @returns Promise that resolves to the token pair and the stored refresh token ID
+   */
+  private async issueTokens(
+    user: { id: string; email: string; role: User['role'] },
+    familyId: string
+  ): Promise<{ token: string; refreshToken: string; refreshTokenId: string; expiresIn: number }> {
+    const token = await generateToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+    });
+
+    const refreshToken = generateRefreshToken();
+    const storedResult = await db
+      .insert(refreshTokens)
+      .values({
+        userId: user.id,
+        tokenHash: hashRefreshToken(refreshToken),
+        familyId,
+        expiresAt: new Date(Date.now() + jwtConfig.refreshExpiresInDays * 24 * 60 * 60 * 1000),
+      })
+      .returning({ id: refreshTokens.id });
+
+    const exp = decodeToken(token)?.exp ?? 0;
+
+    return {
+      token,
+      refreshToken,
+      refreshTokenId: storedResult[0].id,
+      expiresIn: Math.max(0, exp - Math.floor(Date.now() / 1000)),
+    };
+  }
+
+  /**
+   * Revoke every refresh token of a session
+   * @param familyId - Session the refresh tokens belong to
+   */
+  private async revokeSession(familyId: string): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+  }
+
+  /**
+   * Check an access token against the revocation list
+   * Tokens are compared with the end of all sessions in milliseconds, tokens issued before iatMs existed fall back to iat
+   * @param payload - Verified token payload
+   * @param sessionsRevokedAt - When the user last ended all sessions
+   * @returns Promise that resolves to true if the token is revoked
+   */
+  private async isTokenRevoked(payload: JwtPayload, sessionsRevokedAt: Date | null): Promise<boolean> {
+    const issuedAtMs = payload.iatMs ?? (payload.iat ?? 0) * 1000;
+    if (sessionsRevokedAt && issuedAtMs <= sessionsRevokedAt.getTime()) {
+      return true;
+    }
+
+    if (!payload.jti) {
+      return false;
+    }
+
+    try {
+      const revokedResult = await db
+        .select({ jti: revokedTokens.jti })
+        .from(revokedTokens)
+        .where(eq(revokedTokens.jti, payload.jti))
+        .limit(1);
+
+      return revokedResult.length > 0;
+    } catch {
+      throw new Error('Database error while validating token');
+    }
+  }
+
   /**
    * Hash a password using bcrypt
    * @param password - Plain text password
@@ -0,0 +1,384 @@
+import { eq, and, isNotNull, inArray, asc } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { commissionRules } from '../db/schema/commissions';
+import { preSales, preSaleItems, preSaleStatusHistory } from '../db/schema/presales';
+import { products } from '../db/schema/products';
+import { users } from '../db/schema/users';
+import { convertedWithin, type ReportFilters } from './reports.service';
+import {
+  type CommissionTier,
+  findCommissionRule,
+  resolveCommissionRate,
+  calculateCommission,
+  allocateAmount,
+  getMonthKey
+} from '../utils/commission-calculations';
+import { roundMoney } from '../utils/price-calculations';
+
+/**
+ * Commission rule entity interface
+ */
+export interface CommissionRule {
+  id: string;
+  name: string;
+  salespersonId: string | null;
+  category: string | null;
+  rate: string;
+  tiers: CommissionTier[] | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Commission rule with the salesperson it applies to
+ */
+export interface CommissionRuleWithSalesperson extends CommissionRule {
+  salesperson: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+/**
+ * Commission rule creation data interface
+ */
+export interface CreateCommissionRuleData {
+  name: string;
+  salespersonId?: string | null;
+  category?: string | null;
+  rate: string;
+  tiers?: CommissionTier[] | null;
+  isActive?: boolean;
+}
+
+/**
+ * Commission rule update data interface
+ */
+export interface UpdateCommissionRuleData {
+  name?: string;
+  salespersonId?: string | null;
+  category?: string | null;
+  rate?: string;
+  tiers?: CommissionTier[] | null;
+  isActive?: boolean;
+}
+
+/**
+ * Commission rule filters interface
+ */
+export interface CommissionRuleFilters {
+  salespersonId?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Commission report filters, report filters narrowed to a salesperson
+ */
+export interface CommissionReportFilters extends ReportFilters {
+  salespersonId?: string;
+}
+
+/**
+ * Commission report data per salesperson
+ */
+export interface CommissionReportData {
+  salesperson: {
+    id: string;
+    name: string;
+  };
+  salesCount: number;
+  totalAmount: number;
+  commissionAmount: number;
+  averageRate: number;
+}
+
+/**
+ * Commission service class containing commission rules and commission report logic
+ */
+export class CommissionService {
+  /**
+   * Find all commission rules with optional filtering
+   */
+  async findAll(filters: CommissionRuleFilters = {}): Promise<CommissionRuleWithSalesperson[]> {
+    const conditions = [];
+
+    if (filters.salespersonId) {
+      conditions.push(eq(commissionRules.salespersonId, filters.salespersonId));
+    }
+
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(commissionRules.isActive, filters.isActive));
+    }
+
+    const result = await db
+      .select({
+        rule: commissionRules,
+        salespersonName: users.name
+      })
+      .from(commissionRules)
+      .leftJoin(users, eq(commissionRules.salespersonId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(commissionRules.createdAt));
+
+    return result.map(row => this.withSalesperson(row.rule, row.salespersonName));
+  }
+
+  /**
+   * Find commission rule by ID
+   */
+  async findById(id: string): Promise<CommissionRuleWithSalesperson | null> {
+    const result = await db
+      .select({
+        rule: commissionRules,
+        salespersonName: users.name
+      })
+      .from(commissionRules)
+      .leftJoin(users, eq(commissionRules.salespersonId, users.id))
+      .where(eq(commissionRules.id, id))
+      .limit(1);
+
+    const row = result[0];
+    return row ? this.withSalesperson(row.rule, row.salespersonName) : null;
+  }
+
+  /**
+   * Create a new commission rule
+   */
+  async create(data: CreateCommissionRuleData): Promise<CommissionRuleWithSalesperson> {
+    if (data.salespersonId) {
+      await this.validateSalesperson(data.salespersonId);
+    }
+
+    const result = await db
+      .insert(commissionRules)
+      .values({
+        name: data.name.trim(),
+        salespersonId: data.salespersonId || null,
+        category: data.category?.trim() || null,
+        rate: data.rate,
+        tiers: this.normalizeTiers(data.tiers),
+        isActive: data.isActive ?? true
+      })
+      .returning();
+
+    const rule = await this.findById(result[0].id);
+    if (!rule) {
+      throw new Error('Failed to retrieve created commission rule');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Update a commission rule
+   */
+  async update(id: string, data: UpdateCommissionRuleData): Promise<CommissionRuleWithSalesperson | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    if (data.salespersonId && data.salespersonId !== existing.salespersonId) {
+      await this.validateSalesperson(data.salespersonId);
+    }
+
+    const updateData: Partial<typeof commissionRules.$inferInsert> = {
+      updatedAt: new Date()
+    };
+
+    if (data.name !== undefined) updateData.name = data.name.trim();
+    if (data.salespersonId !== undefined) updateData.salespersonId = data.salespersonId || null;
+    if (data.category !== undefined) updateData.category = data.category?.trim() || null;
+    if (data.rate !== undefined) updateData.rate = data.rate;
+    if (data.tiers !== undefined) updateData.tiers = this.normalizeTiers(data.tiers);
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+    await db
+      .update(commissionRules)
+      .set(updateData)
+      .where(eq(commissionRules.id, id));
+
+    return this.findById(id);
+  }
+
+  /**
+   * Delete a commission rule
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await db
+      .delete(commissionRules)
+      .where(eq(commissionRules.id, id))
+      .returning({ id: commissionRules.id });
+
+    return result.length > 0;
+  }
+
+  /**
+   * Get commissions per salesperson over converted pre-sales
+   * Each item is paid with the most specific active rule for its salesperson and product category.
+   * Tiers are resolved with the salesperson's converted volume in the whole calendar month of the sale.
+   * Like the sales reports, sales are dated by their conversion in the status history, not by the quote creation.
+   */
+  async getCommissionsReport(filters?: CommissionReportFilters): Promise<CommissionReportData[]> {
+    try {
+      const conditions = [
+        eq(preSales.status, 'converted'),
+        isNotNull(preSales.salespersonId)
+      ];
+
+      // Load whole months so tiers use the full monthly volume
+      if (filters?.dateRange) {
+        const { startDate, endDate } = filters.dateRange;
+        conditions.push(convertedWithin({
+          startDate: new Date(startDate.getFullYear(), startDate.getMonth(), 1),
+          endDate: new Date(endDate.getFullYear(), endDate.getMonth() + 1, 0, 23, 59, 59, 999)
+        }));
+      }
+
+      if (filters?.salespersonId) {
+        conditions.push(eq(preSales.salespersonId, filters.salespersonId));
+      }
+
+      const convertedPreSales = await db
+        .select({
+          id: preSales.id,
+          // Taken from the joined user so it is never null
+          salespersonId: users.id,
+          salespersonName: users.name,
+          total: preSales.total,
+          convertedAt: preSaleStatusHistory.changedAt
+        })
+        .from(preSales)
+        .innerJoin(users, eq(preSales.salespersonId, users.id))
+        // Converted is a final status, each converted pre-sale has a single entry to it
+        .innerJoin(preSaleStatusHistory, and(
+          eq(preSaleStatusHistory.preSaleId, preSales.id),
+          eq(preSaleStatusHistory.toStatus, 'converted')
+        ))
+        .where(and(...conditions));
+
+      // Monthly converted volume per salesperson
+      const monthlyVolumes = new Map<string, number>();
+      for (const preSale of convertedPreSales) {
+        const key = `${preSale.salespersonId}|${getMonthKey(preSale.convertedAt)}`;
+        monthlyVolumes.set(key, (monthlyVolumes.get(key) || 0) + parseFloat(preSale.total));
+      }
+
+      const dateRange = filters?.dateRange;
+      const reportedPreSales = dateRange
+        ? convertedPreSales.filter(preSale =>
+          preSale.convertedAt >= dateRange.startDate && preSale.convertedAt <= dateRange.endDate
+        )
+        : convertedPreSales;
+
+      if (reportedPreSales.length === 0) {
+        return [];
+      }
+
+      const items = await db
+        .select({
+          preSaleId: preSaleItems.preSaleId,
+          totalPrice: preSaleItems.totalPrice,
+          category: products.category
+        })
+        .from(preSaleItems)
+        .innerJoin(products, eq(preSaleItems.productId, products.id))
+        .where(inArray(preSaleItems.preSaleId, reportedPreSales.map(preSale => preSale.id)));
+
+      const itemsByPreSale = new Map<string, { amount: number; category: string | null }[]>();
+      for (const item of items) {
+        const preSaleItemList = itemsByPreSale.get(item.preSaleId) || [];
+        preSaleItemList.push({ amount: parseFloat(item.totalPrice), category: item.category });
+        itemsByPreSale.set(item.preSaleId, preSaleItemList);
+      }
+
+      const rules = await this.findAll({ isActive: true });
+      const results = new Map<string, CommissionReportData>();
+
+      for (const preSale of reportedPreSales) {
+        const { salespersonId } = preSale;
+        const total = parseFloat(preSale.total);
+        const monthlyVolume = monthlyVolumes.get(`${salespersonId}|${getMonthKey(preSale.convertedAt)}`) || 0;
+
+        // Split the converted total across the items so category rules apply to their share
+        const lines = itemsByPreSale.get(preSale.id) || [{ amount: total, category: null }];
+        const lineTotals = allocateAmount(total, lines.map(line => line.amount));
+
+        let commissionAmount = 0;
+        lines.forEach((line, index) => {
+          const rule = findCommissionRule(rules, salespersonId, line.category);
+          if (rule) {
+            commissionAmount += calculateCommission(lineTotals[index], resolveCommissionRate(rule, monthlyVolume));
+          }
+        });
+
+        const row = results.get(salespersonId) || {
+          salesperson: { id: salespersonId, name: preSale.salespersonName },
+          salesCount: 0,
+          totalAmount: 0,
+          commissionAmount: 0,
+          averageRate: 0
+        };
+
+        row.salesCount += 1;
+        row.totalAmount = roundMoney(row.totalAmount + total);
+        row.commissionAmount = roundMoney(row.commissionAmount + commissionAmount);
+        results.set(salespersonId, row);
+      }
+
+      return Array.from(results.values())
+        .map(row => ({
+          ...row,
+          averageRate: row.totalAmount > 0 ? roundMoney(row.commissionAmount / row.totalAmount * 100) : 0
+        }))
+        .sort((a, b) => b.commissionAmount - a.commissionAmount);
+    } catch (error) {
+      console.error('Error generating commissions report:', error);
+      throw new Error(`Failed to generate commissions report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Attach the salesperson to a commission rule row
+   */
+  private withSalesperson(rule: CommissionRule, salespersonName: string | null): CommissionRuleWithSalesperson {
+    return {
+      ...rule,
+      salesperson: rule.salespersonId && salespersonName
+        ? { id: rule.salespersonId, name: salespersonName }
+        : null
+    };
+  }
+
+  /**
+   * Sort tiers by volume, empty lists are stored as no tiers
+   */
+  private normalizeTiers(tiers?: CommissionTier[] | null): CommissionTier[] | null {
+    if (!tiers || tiers.length === 0) {
+      return null;
+    }
+
+    return [...tiers]
+      .map(tier => ({ minVolume: Number(tier.minVolume), rate: Number(tier.rate) }))
+      .sort((a, b) => a.minVolume - b.minVolume);
+  }
+
+  /**
+   * Validate that the salesperson exists
+   */
+  private async validateSalesperson(salespersonId: string): Promise<void> {
+    const result = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, salespersonId))
+      .limit(1);
+
+    if (result.length === 0) {
+      throw new Error('Salesperson not found');
+    }
+  }
+}
+
+// Export singleton instance
+export const commissionService = new CommissionService();
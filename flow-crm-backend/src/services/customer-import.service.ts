@@ -0,0 +1,323 @@
+import { inArray } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { customers } from '../db/schema/customers';
+import {
+  validateCreateCustomer,
+  validateUpdateCustomer,
+  getValidationErrorDetails,
+  type ValidationErrorDetails
+} from '../schemas/customers.schemas';
+import { ValidationError } from '../types/error.types';
+import { cleanCpf } from '../utils/cpf-cnpj-validator';
+import {
+  type ImportAction,
+  type ImportChange,
+  type ImportSummary,
+  parseCsv,
+  parseDecimalCell,
+  normalizeHeader,
+  summarizeImport,
+  diffFields,
+  ImportRollback,
+  UnchangedRow
+} from '../utils/import-formats';
+import { auditLogService, type AuditContext } from './audit-logs.service';
+import {
+  customerService,
+  type Customer,
+  type CustomerExecutor,
+  type CreateCustomerData,
+  type UpdateCustomerData
+} from './customers.service';
+
+/**
+ * Result of a single CSV row
+ */
+export interface CustomerImportRow {
+  row: number;
+  action: ImportAction;
+  document: string | null;
+  name: string | null;
+  changes?: ImportChange[];
+  errors?: ValidationErrorDetails[];
+}
+
+/**
+ * Result of an import, a preview when it is a dry run
+ */
+export interface CustomerImportResult {
+  dryRun: boolean;
+  committed: boolean;
+  summary: ImportSummary;
+  rows: CustomerImportRow[];
+}
+
+/**
+ * Import options
+ */
+export interface CustomerImportOptions {
+  dryRun: boolean;
+  auditContext: AuditContext;
+}
+
+type ImportField = keyof CreateCustomerData;
+
+/**
+ * Maximum number of data rows in one file
+ */
+const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * CSV headers per customer field, normalized without accents, spaces or case
+ * The Portuguese headers are the ones written by the customer export.
+ */
+const IMPORT_HEADERS: Record<string, ImportField> = {
+  nome: 'name',
+  name: 'name',
+  email: 'email',
+  telefone: 'phone',
+  celular: 'phone',
+  phone: 'phone',
+  cpfcnpj: 'cpf',
+  cpf: 'cpf',
+  cnpj: 'cpf',
+  documento: 'cpf',
+  document: 'cpf',
+  tipodedocumento: 'documentType',
+  documenttype: 'documentType',
+  razaosocial: 'companyName',
+  companyname: 'companyName',
+  inscricaoestadual: 'stateRegistration',
+  ie: 'stateRegistration',
+  stateregistration: 'stateRegistration',
+  endereco: 'address',
+  address: 'address',
+  uf: 'state',
+  estado: 'state',
+  state: 'state',
+  nivel: 'tier',
+  tier: 'tier',
+  desconto: 'discountRate',
+  discountrate: 'discountRate'
+};
+
+/**
+ * Customer import service class
+ * Rows are matched to customers by CPF/CNPJ; rows with an unknown document create customers.
+ * Every import runs in one transaction, a dry run rolls it back so the preview matches the real import.
+ */
+export class CustomerImportService {
+  /**
+   * Import customers from a CSV file
+   */
+  async importCustomers(file: Buffer, options: CustomerImportOptions): Promise<CustomerImportResult> {
+    const [headerRow, ...dataRows] = parseCsv(file.toString('utf8'));
+    const fields = (headerRow || []).map(header => IMPORT_HEADERS[normalizeHeader(header)]);
+
+    if (!fields.includes('cpf')) {
+      throw new ValidationError('The first row must have the column headers, including CPF/CNPJ');
+    }
+
+    if (dataRows.length === 0) {
+      throw new ValidationError('The file has no customers to import');
+    }
+
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`At most ${MAX_IMPORT_ROWS} customers can be imported at once`);
+    }
+
+    const records = dataRows.map(cells => this.toRecord(fields, cells));
+
+    let result: CustomerImportResult;
+    const created: Customer[] = [];
+    const updated: { previous: Customer; customer: Customer }[] = [];
+
+    try {
+      result = await db.transaction(async (tx) => {
+        const rows = await this.applyRecords(records, tx, created, updated);
+        const summary = summarizeImport(rows);
+        const importResult: CustomerImportResult = {
+          dryRun: options.dryRun,
+          committed: !options.dryRun && summary.errors === 0,
+          summary,
+          rows
+        };
+
+        if (!importResult.committed) {
+          throw new ImportRollback(importResult);
+        }
+
+        return importResult;
+      });
+    } catch (error) {
+      if (error instanceof ImportRollback) {
+        return error.result as CustomerImportResult;
+      }
+      throw error;
+    }
+
+    await this.logImport(created, updated, options.auditContext);
+
+    return result;
+  }
+
+  /**
+   * Create or update the customer of each record, each row inside its own savepoint
+   */
+  private async applyRecords(
+    records: Partial<Record<ImportField, string>>[],
+    tx: CustomerExecutor,
+    created: Customer[],
+    updated: { previous: Customer; customer: Customer }[]
+  ): Promise<CustomerImportRow[]> {
+    const documents = records
+      .map(record => (record.cpf ? cleanCpf(record.cpf) : ''))
+      .filter(document => document !== '');
+    const existingCustomers = documents.length > 0
+      ? await tx.select().from(customers).where(inArray(customers.cpf, documents))
+      : [];
+    const existingByDocument = new Map(existingCustomers.map(customer => [customer.cpf, customer]));
+    const seenDocuments = new Set<string>();
+
+    const rows: CustomerImportRow[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const document = record.cpf ? cleanCpf(record.cpf) : null;
+      const row: CustomerImportRow = {
+        row: index + 2, // CSV line, after the header
+        action: 'error',
+        document,
+        name: record.name ?? null
+      };
+      rows.push(row);
+
+      if (!document) {
+        row.errors = [{ field: 'cpf', message: 'CPF/CNPJ is required' }];
+        continue;
+      }
+
+      if (seenDocuments.has(document)) {
+        row.errors = [{ field: 'cpf', message: 'CPF/CNPJ appears more than once in the file', value: record.cpf }];
+        continue;
+      }
+      seenDocuments.add(document);
+
+      const existing = existingByDocument.get(document);
+
+      if (existing) {
+        // The document identifies the customer, it is never changed by an import
+        const data = { ...record };
+        delete data.cpf;
+        delete data.documentType;
+        row.name = row.name ?? existing.name;
+
+        if (Object.keys(data).length === 0) {
+          row.action = 'unchanged';
+          continue;
+        }
+
+        const validation = validateUpdateCustomer(data);
+        if (!validation.success) {
+          row.errors = getValidationErrorDetails(validation.error);
+          continue;
+        }
+
+        try {
+          await tx.transaction(async (savepoint) => {
+            const customer = await customerService.update(
+              existing.id,
+              validation.data as UpdateCustomerData,
+              savepoint
+            );
+            const changes = diffFields(existing, customer, Object.keys(validation.data));
+
+            if (changes.length === 0) {
+              throw new UnchangedRow();
+            }
+
+            row.action = 'update';
+            row.changes = changes;
+            updated.push({ previous: existing, customer });
+          });
+        } catch (error) {
+          if (error instanceof UnchangedRow) {
+            row.action = 'unchanged';
+          } else {
+            row.errors = [{ field: '', message: error instanceof Error ? error.message : 'Failed to update customer' }];
+          }
+        }
+        continue;
+      }
+
+      const validation = validateCreateCustomer({
+        ...record,
+        documentType: record.documentType ?? (document.length === 14 ? 'cnpj' : 'cpf')
+      });
+      if (!validation.success) {
+        row.errors = getValidationErrorDetails(validation.error);
+        continue;
+      }
+
+      try {
+        const customer = await tx.transaction(async (savepoint) =>
+          customerService.create(validation.data as CreateCustomerData, savepoint)
+        );
+        row.action = 'create';
+        created.push(customer);
+      } catch (error) {
+        row.errors = [{ field: '', message: error instanceof Error ? error.message : 'Failed to create customer' }];
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Convert the cells of a row to customer fields, leaving out empty cells
+   */
+  private toRecord(fields: (ImportField | undefined)[], cells: string[]): Partial<Record<ImportField, string>> {
+    const record: Partial<Record<ImportField, string>> = {};
+
+    fields.forEach((field, index) => {
+      const value = (cells[index] ?? '').trim();
+      if (!field || value === '') return;
+
+      if (field === 'documentType' || field === 'tier') {
+        record[field] = normalizeHeader(value);
+      } else if (field === 'state') {
+        record.state = value.toUpperCase();
+      } else if (field === 'discountRate') {
+        const rate = parseDecimalCell(value.replace(/%$/, ''));
+        record.discountRate = Number.isNaN(rate) ? value : String(rate);
+      } else {
+        record[field] = value;
+      }
+    });
+
+    return record;
+  }
+
+  /**
+   * Write one audit entry per imported customer, failures do not undo the import
+   */
+  private async logImport(
+    created: Customer[],
+    updated: { previous: Customer; customer: Customer }[],
+    auditContext: AuditContext
+  ): Promise<void> {
+    try {
+      for (const customer of created) {
+        await auditLogService.logMutation(auditContext, 'customer', customer.id, null, customer, `Imported customer ${customer.name}`);
+      }
+
+      for (const { previous, customer } of updated) {
+        await auditLogService.logMutation(auditContext, 'customer', customer.id, previous, customer, `Import of customer ${customer.name}`);
+      }
+    } catch (auditError) {
+      console.error('Failed to create audit log:', auditError);
+    }
+  }
+}
+
+// Export singleton instance
+export const customerImportService = new CustomerImportService();
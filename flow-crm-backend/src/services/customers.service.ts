@@ -1,8 +1,16 @@
-import { eq, ilike, or, and, sql, desc, asc } from 'drizzle-orm';
+import { eq, ilike, or, and, sql, desc, asc, inArray } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { customers } from '../db/schema/customers';
-import { validateCpf, cleanCpf, formatCpf } from '../utils/cpf-cnpj-validator';
+import { preSales } from '../db/schema/presales';
+import { validateCpf, cleanCpf, formatCpf, validateDocument, formatDocument, DocumentType } from '../utils/cpf-cnpj-validator';
 import { BaseFilters } from '../types/common.types';
+import { customerCache, calculationCache } from '../utils/cache-manager';
+import { auditLogService, type AuditContext } from './audit-logs.service';
+
+/**
+ * Customer tier type
+ */
+export type CustomerTier = 'regular' | 'premium' | 'vip';
 
 /**
  * Customer entity interface
@@ -13,7 +21,13 @@ export interface Customer {
   email: string;
   phone: string;
   cpf: string;
+  documentType: DocumentType;
+  companyName: string | null;
+  stateRegistration: string | null;
   address?: string | null;
+  state: string | null;
+  tier: CustomerTier;
+  discountRate: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,7 +40,13 @@ export interface CreateCustomerData {
   email: string;
   phone: string;
   cpf: string;
+  documentType?: DocumentType;
+  companyName?: string | null;
+  stateRegistration?: string | null;
   address?: string | null;
+  state?: string | null;
+  tier?: CustomerTier;
+  discountRate?: string | null;
 }
 
 /**
@@ -37,7 +57,13 @@ export interface UpdateCustomerData {
   email?: string;
   phone?: string;
   cpf?: string;
+  documentType?: DocumentType;
+  companyName?: string | null;
+  stateRegistration?: string | null;
   address?: string | null;
+  state?: string | null;
+  tier?: CustomerTier;
+  discountRate?: string | null;
 }
 
 /**
@@ -47,9 +73,45 @@ export interface CustomerFilters extends BaseFilters {
   name?: string;
   email?: string;
   cpf?: string;
+  documentType?: DocumentType;
+  tier?: CustomerTier;
   search?: string;
 }
 
+/**
+ * Customer that may be a duplicate of others, with the number of pre-sales it holds
+ */
+export interface DuplicateCustomer extends Customer {
+  preSaleCount: number;
+}
+
+/**
+ * Customers sharing the same name, e-mail or phone
+ */
+export interface DuplicateCustomerGroup {
+  reason: 'name' | 'email' | 'phone';
+  value: string;
+  customers: DuplicateCustomer[];
+}
+
+/**
+ * Result of merging a customer into another
+ */
+export interface CustomerMergeResult {
+  customer: Customer;
+  movedPreSales: number;
+}
+
+/**
+ * Database or open transaction customer queries run on
+ */
+export type CustomerExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Customers read per query while exporting
+ */
+const EXPORT_BATCH_SIZE = 500;
+
 /**
  * Customer service class containing all customer-related business logic
  */
@@ -66,6 +128,8 @@ export class CustomerService {
       name,
       email,
       cpf,
+      documentType,
+      tier,
       search
     } = filters;
 
@@ -85,7 +149,15 @@ export class CustomerService {
       conditions.push(ilike(customers.cpf, `%${cleanedCpf}%`));
     }
 
-    // Global search across name, email, and CPF (same pattern as products)
+    if (documentType) {
+      conditions.push(eq(customers.documentType, documentType));
+    }
+
+    if (tier) {
+      conditions.push(eq(customers.tier, tier));
+    }
+
+    // Global search across name, company name, email, and CPF/CNPJ (same pattern as products)
     if (search) {
       const searchTerm = `%${search}%`;
       const cleanedSearchCpf = cleanCpf(search);
@@ -93,6 +165,7 @@ export class CustomerService {
       conditions.push(
         or(
           ilike(customers.name, searchTerm),
+          ilike(customers.companyName, searchTerm),
           ilike(customers.email, searchTerm),
           ilike(customers.cpf, `%${cleanedSearchCpf}%`)
         )
@@ -116,22 +189,37 @@ export class CustomerService {
     // Apply pagination
     const offset = (page - 1) * limit;
 
+    // The id keeps the order stable between pages when the sort field repeats
     const result = await db
       .select()
       .from(customers)
       .where(whereCondition)
-      .orderBy(orderBy)
+      .orderBy(orderBy, asc(customers.id))
       .limit(limit)
       .offset(offset);
 
     return result;
   }
 
+  /**
+   * Iterate over every customer matching the filters, reading them in batches
+   */
+  async *iterateAll(filters: Omit<CustomerFilters, 'page' | 'limit'> = {}): AsyncGenerator<Customer> {
+    for (let page = 1; ; page++) {
+      const batch = await this.findAll({ ...filters, page, limit: EXPORT_BATCH_SIZE });
+      yield* batch;
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
   /**
    * Find customer by ID
    */
-  async findById(id: string): Promise<Customer | null> {
-    const result = await db
+  async findById(id: string, executor: CustomerExecutor = db): Promise<Customer | null> {
+    const result = await executor
       .select()
       .from(customers)
       .where(eq(customers.id, id))
@@ -143,19 +231,27 @@ export class CustomerService {
   /**
    * Create a new customer
    */
-  async create(customerData: CreateCustomerData): Promise<Customer> {
-    // Validate and clean CPF
+  async create(customerData: CreateCustomerData, executor: CustomerExecutor = db): Promise<Customer> {
+    const documentType = customerData.documentType ?? 'cpf';
+
+    // Validate and clean CPF/CNPJ
     const cleanedCpf = cleanCpf(customerData.cpf);
 
-    if (!validateCpf(cleanedCpf)) {
-      throw new Error('Invalid CPF format');
+    if (!validateDocument(cleanedCpf, documentType)) {
+      throw new Error(`Invalid ${documentType.toUpperCase()} format`);
     }
 
-    // Check for CPF uniqueness
-    await this.validateCpfUniqueness(cleanedCpf);
+    // Check for CPF/CNPJ uniqueness
+    await this.validateDocumentUniqueness(cleanedCpf, documentType, executor);
+
+    const companyFields = this.resolveCompanyFields(
+      documentType,
+      customerData.companyName,
+      customerData.stateRegistration
+    );
 
     // Check for email uniqueness
-    await this.validateEmailUniqueness(customerData.email.toLowerCase().trim());
+    await this.validateEmailUniqueness(customerData.email.toLowerCase().trim(), executor);
 
     // Sanitize and prepare data
     const sanitizedData = {
@@ -163,10 +259,15 @@ export class CustomerService {
       email: customerData.email.toLowerCase().trim(),
       phone: customerData.phone.trim(),
       cpf: cleanedCpf,
-      address: customerData.address?.trim() || null
+      documentType,
+      ...companyFields,
+      address: customerData.address?.trim() || null,
+      state: customerData.state || null,
+      tier: customerData.tier ?? 'regular',
+      discountRate: customerData.discountRate ?? null
     };
 
-    const result = await db
+    const result = await executor
       .insert(customers)
       .values(sanitizedData)
       .returning();
@@ -177,9 +278,9 @@ export class CustomerService {
   /**
    * Update an existing customer
    */
-  async update(id: string, customerData: UpdateCustomerData): Promise<Customer> {
+  async update(id: string, customerData: UpdateCustomerData, executor: CustomerExecutor = db): Promise<Customer> {
     // Check if customer exists
-    const existingCustomer = await this.findById(id);
+    const existingCustomer = await this.findById(id, executor);
     if (!existingCustomer) {
       throw new Error('Customer not found');
     }
@@ -197,7 +298,7 @@ export class CustomerService {
       const email = customerData.email.toLowerCase().trim();
       // Check email uniqueness only if it's different from current email
       if (email !== existingCustomer.email) {
-        await this.validateEmailUniqueness(email);
+        await this.validateEmailUniqueness(email, executor);
       }
       updateData.email = email;
     }
@@ -206,31 +307,62 @@ export class CustomerService {
       updateData.phone = customerData.phone.trim();
     }
 
-    if (customerData.cpf !== undefined) {
-      const cleanedCpf = cleanCpf(customerData.cpf);
+    const documentType = customerData.documentType ?? existingCustomer.documentType;
 
-      if (!validateCpf(cleanedCpf)) {
-        throw new Error('Invalid CPF format');
+    if (customerData.cpf !== undefined || documentType !== existingCustomer.documentType) {
+      const cleanedCpf = cleanCpf(customerData.cpf ?? existingCustomer.cpf);
+
+      if (!validateDocument(cleanedCpf, documentType)) {
+        throw new Error(`Invalid ${documentType.toUpperCase()} format`);
       }
 
-      // Check CPF uniqueness only if it's different from current CPF
+      // Check CPF/CNPJ uniqueness only if it's different from current document
       if (cleanedCpf !== existingCustomer.cpf) {
-        await this.validateCpfUniqueness(cleanedCpf);
+        await this.validateDocumentUniqueness(cleanedCpf, documentType, executor);
       }
 
       updateData.cpf = cleanedCpf;
+      updateData.documentType = documentType;
+    }
+
+    if (
+      customerData.documentType !== undefined ||
+      customerData.companyName !== undefined ||
+      customerData.stateRegistration !== undefined
+    ) {
+      Object.assign(updateData, this.resolveCompanyFields(
+        documentType,
+        customerData.companyName !== undefined ? customerData.companyName : existingCustomer.companyName,
+        customerData.stateRegistration !== undefined ? customerData.stateRegistration : existingCustomer.stateRegistration
+      ));
     }
 
     if (customerData.address !== undefined) {
       updateData.address = customerData.address?.trim() || null;
     }
 
-    const result = await db
+    if (customerData.state !== undefined) {
+      updateData.state = customerData.state || null;
+    }
+
+    if (customerData.tier !== undefined) {
+      updateData.tier = customerData.tier;
+    }
+
+    if (customerData.discountRate !== undefined) {
+      updateData.discountRate = customerData.discountRate;
+    }
+
+    const result = await executor
       .update(customers)
       .set(updateData)
       .where(eq(customers.id, id))
       .returning();
 
+    // Cached price calculations may carry this customer's previous discount
+    customerCache.delete(id);
+    calculationCache.clear();
+
     return result[0];
   }
 
@@ -244,13 +376,140 @@ export class CustomerService {
       throw new Error('Customer not found');
     }
 
-    // Check for active pre-sales (this will be implemented when pre-sales are ready)
-    // For now, we'll just delete the customer
-    // TODO: Add constraint check for active pre-sales when pre-sales module is implemented
+    // Pre-sales keep their customer; duplicates are removed by merging them instead
+    const preSaleCount = await this.countPreSales(id);
+    if (preSaleCount > 0) {
+      throw new Error('Customer has pre-sales');
+    }
 
     await db
       .delete(customers)
       .where(eq(customers.id, id));
+
+    customerCache.delete(id);
+  }
+
+  /**
+   * Find groups of customers that look like the same person or company
+   * Documents are unique, so duplicates come from records sharing the name, e-mail or phone.
+   */
+  async findDuplicates(): Promise<DuplicateCustomerGroup[]> {
+    const keys = {
+      name: sql<string>`lower(trim(${customers.name}))`,
+      email: sql<string>`lower(trim(${customers.email}))`,
+      phone: sql<string>`regexp_replace(${customers.phone}, '[^0-9]', '', 'g')`
+    };
+
+    const groups: DuplicateCustomerGroup[] = [];
+    const grouped = new Set<string>();
+
+    for (const reason of ['name', 'email', 'phone'] as const) {
+      const key = keys[reason];
+      const duplicateValues = await db
+        .select({ value: key })
+        .from(customers)
+        .groupBy(key)
+        .having(sql`count(*) > 1 and ${key} <> ''`);
+
+      if (duplicateValues.length === 0) continue;
+
+      const rows = await db
+        .select({ customer: customers, value: key })
+        .from(customers)
+        .where(inArray(key, duplicateValues.map(row => row.value)))
+        .orderBy(asc(customers.createdAt));
+
+      const preSaleCounts = await this.countPreSalesByCustomer(rows.map(row => row.customer.id));
+      const byValue = new Map<string, DuplicateCustomer[]>();
+
+      for (const row of rows) {
+        const list = byValue.get(row.value) || [];
+        list.push({ ...row.customer, preSaleCount: preSaleCounts.get(row.customer.id) || 0 });
+        byValue.set(row.value, list);
+      }
+
+      for (const [value, list] of byValue) {
+        // The same set of customers is listed once, under the first reason found
+        const signature = list.map(customer => customer.id).sort().join('|');
+        if (grouped.has(signature)) continue;
+        grouped.add(signature);
+
+        groups.push({ reason, value, customers: list });
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Merge a duplicate customer into another one
+   * The pre-sales of the source customer are moved to the target and the source record is deleted.
+   */
+  async merge(sourceId: string, targetId: string, auditContext: AuditContext): Promise<CustomerMergeResult> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a customer into itself');
+    }
+
+    const { source, target, movedPreSales } = await db.transaction(async (tx) => {
+      // Lock both records so they cannot be edited or merged elsewhere meanwhile
+      const locked = await tx
+        .select()
+        .from(customers)
+        .where(inArray(customers.id, [sourceId, targetId]))
+        .orderBy(customers.id)
+        .for('update');
+
+      const sourceCustomer = locked.find(customer => customer.id === sourceId);
+      const targetCustomer = locked.find(customer => customer.id === targetId);
+
+      if (!sourceCustomer || !targetCustomer) {
+        throw new Error('Customer not found');
+      }
+
+      const moved = await tx
+        .update(preSales)
+        .set({ customerId: targetId, updatedAt: new Date() })
+        .where(eq(preSales.customerId, sourceId))
+        .returning({ id: preSales.id });
+
+      await tx
+        .delete(customers)
+        .where(eq(customers.id, sourceId));
+
+      return { source: sourceCustomer, target: targetCustomer, movedPreSales: moved.length };
+    });
+
+    customerCache.delete(sourceId);
+    customerCache.delete(targetId);
+    calculationCache.clear();
+
+    try {
+      await auditLogService.create({
+        userId: auditContext.userId,
+        userName: auditContext.userName,
+        action: 'update',
+        resource: 'customer',
+        resourceId: target.id,
+        details: JSON.stringify({
+          summary: `Merged customer ${source.name} (${source.cpf}) into this customer, moved ${movedPreSales} pre-sales`,
+          changes: []
+        }),
+        ipAddress: auditContext.ipAddress,
+        userAgent: auditContext.userAgent
+      });
+      await auditLogService.logMutation(
+        auditContext,
+        'customer',
+        source.id,
+        source,
+        null,
+        `Deleted customer after merging it into ${target.name} (${target.cpf})`
+      );
+    } catch (auditError) {
+      console.error('Failed to create audit log:', auditError);
+    }
+
+    return { customer: target, movedPreSales };
   }
 
   /**
@@ -274,11 +533,18 @@ export class CustomerService {
     return cleanCpf(cpf);
   }
 
+  /**
+   * Format CPF or CNPJ for display
+   */
+  formatDocument(document: string, documentType: DocumentType): string {
+    return formatDocument(document, documentType);
+  }
+
   /**
    * Count total customers with filters
    */
   async count(filters: CustomerFilters = {}): Promise<number> {
-    const { name, email, cpf, search } = filters;
+    const { name, email, cpf, documentType, tier, search } = filters;
 
     const conditions = [];
 
@@ -295,12 +561,21 @@ export class CustomerService {
       conditions.push(ilike(customers.cpf, `%${cleanedCpf}%`));
     }
 
+    if (documentType) {
+      conditions.push(eq(customers.documentType, documentType));
+    }
+
+    if (tier) {
+      conditions.push(eq(customers.tier, tier));
+    }
+
     if (search) {
       const searchTerm = `%${search}%`;
       const cleanedSearchCpf = cleanCpf(search);
       conditions.push(
         or(
           ilike(customers.name, searchTerm),
+          ilike(customers.companyName, searchTerm),
           ilike(customers.email, searchTerm),
           ilike(customers.cpf, `%${cleanedSearchCpf}%`)
         )
@@ -318,25 +593,86 @@ export class CustomerService {
   }
 
   /**
-   * Private method to validate CPF uniqueness
+   * Count the pre-sales of a customer
+   */
+  private async countPreSales(customerId: string): Promise<number> {
+    const counts = await this.countPreSalesByCustomer([customerId]);
+    return counts.get(customerId) || 0;
+  }
+
+  /**
+   * Count the pre-sales of several customers
    */
-  private async validateCpfUniqueness(cpf: string): Promise<void> {
-    const existing = await db
+  private async countPreSalesByCustomer(customerIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (customerIds.length === 0) {
+      return counts;
+    }
+
+    const result = await db
+      .select({
+        customerId: preSales.customerId,
+        count: sql<number>`count(*)::int`
+      })
+      .from(preSales)
+      .where(inArray(preSales.customerId, customerIds))
+      .groupBy(preSales.customerId);
+
+    for (const row of result) {
+      counts.set(row.customerId, Number(row.count));
+    }
+
+    return counts;
+  }
+
+  /**
+   * Private method to validate CPF/CNPJ uniqueness
+   */
+  private async validateDocumentUniqueness(
+    document: string,
+    documentType: DocumentType,
+    executor: CustomerExecutor = db
+  ): Promise<void> {
+    const existing = await executor
       .select({ id: customers.id })
       .from(customers)
-      .where(eq(customers.cpf, cpf))
+      .where(eq(customers.cpf, document))
       .limit(1);
 
     if (existing.length > 0) {
-      throw new Error('CPF already exists');
+      throw new Error(`${documentType.toUpperCase()} already exists`);
     }
   }
 
+  /**
+   * Private method to resolve company-only fields.
+   * Razão social is required for CNPJ customers, and both fields are cleared for CPF customers.
+   */
+  private resolveCompanyFields(
+    documentType: DocumentType,
+    companyName?: string | null,
+    stateRegistration?: string | null
+  ): { companyName: string | null; stateRegistration: string | null } {
+    if (documentType === 'cpf') {
+      return { companyName: null, stateRegistration: null };
+    }
+
+    const trimmedCompanyName = companyName?.trim() || null;
+    if (!trimmedCompanyName) {
+      throw new Error('Company name is required for CNPJ customers');
+    }
+
+    return {
+      companyName: trimmedCompanyName,
+      stateRegistration: stateRegistration?.trim().toUpperCase() || null
+    };
+  }
+
   /**
    * Private method to validate email uniqueness
    */
-  private async validateEmailUniqueness(email: string): Promise<void> {
-    const existing = await db
+  private async validateEmailUniqueness(email: string, executor: CustomerExecutor = db): Promise<void> {
+    const existing = await executor
       .select({ id: customers.id })
       .from(customers)
       .where(eq(customers.email, email))
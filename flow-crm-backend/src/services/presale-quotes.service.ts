@@ -0,0 +1,87 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { preSales } from '../db/schema/presales';
+import { customers } from '../db/schema/customers';
+import { paymentMethods } from '../db/schema/payment-methods';
+import type { PreSaleWithItems } from './presales.service';
+import { settingsService } from './settings.service';
+import { formatDocument } from '../utils/cpf-cnpj-validator';
+import { renderQuotePdf, type QuoteDocument } from '../utils/quote-pdf';
+
+/**
+ * Pre-sale quote service class
+ * Assembles the quote printed for a pre-sale from the pre-sale itself, the company settings,
+ * the customer contact data and the chosen payment method
+ */
+export class PreSaleQuotesService {
+  /**
+   * Build the quote document of a pre-sale
+   */
+  async buildQuote(preSale: PreSaleWithItems): Promise<QuoteDocument> {
+    const settings = await settingsService.get();
+
+    const [details] = await db
+      .select({
+        phone: customers.phone,
+        address: customers.address,
+        state: customers.state,
+        paymentMethod: paymentMethods.description
+      })
+      .from(preSales)
+      .innerJoin(customers, eq(preSales.customerId, customers.id))
+      .leftJoin(paymentMethods, eq(preSales.paymentMethodId, paymentMethods.id))
+      .where(eq(preSales.id, preSale.id))
+      .limit(1);
+
+    const address = details?.address
+      ? [details.address, details.state].filter(Boolean).join(' - ')
+      : null;
+
+    return {
+      number: preSale.number,
+      issuedAt: preSale.createdAt,
+      validUntil: preSale.validUntil,
+      company: {
+        name: settings.companyName,
+        cnpj: settings.companyCnpj,
+        address: settings.companyAddress,
+        logo: settings.companyLogo
+      },
+      customer: {
+        name: preSale.customer.name,
+        companyName: preSale.customer.companyName,
+        document: formatDocument(preSale.customer.cpf, preSale.customer.documentType),
+        documentType: preSale.customer.documentType,
+        email: preSale.customer.email,
+        phone: details?.phone ?? null,
+        address
+      },
+      salespersonName: preSale.salesperson?.name ?? null,
+      paymentMethod: details?.paymentMethod ?? null,
+      items: preSale.items.map(item => ({
+        code: item.product.code,
+        name: item.product.name,
+        unit: item.product.unit,
+        quantity: parseFloat(item.quantity),
+        unitPrice: parseFloat(item.unitPrice),
+        discount: parseFloat(item.discount),
+        promotionDiscount: parseFloat(item.promotionDiscount),
+        totalPrice: parseFloat(item.totalPrice),
+        taxBreakdown: item.taxBreakdown
+      })),
+      globalDiscount: parseFloat(preSale.discount),
+      notes: preSale.notes ?? null,
+      terms: settings.quoteTerms
+    };
+  }
+
+  /**
+   * Render the quote PDF of a pre-sale
+   */
+  async renderPdf(preSale: PreSaleWithItems): Promise<Buffer> {
+    return renderQuotePdf(await this.buildQuote(preSale));
+  }
+}
+
+// Export singleton instance
+export const preSaleQuotesService = new PreSaleQuotesService();
@@ -0,0 +1,97 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { preSaleStatusHistory } from '../db/schema/presales';
+import { users } from '../db/schema/users';
+import type { PreSaleStatus } from '../types/common.types';
+import type { ReservationExecutor } from './stock-reservation.service';
+
+/**
+ * Who changed a pre-sale status and why
+ */
+export interface StatusChangeContext {
+    // NULL for changes made by the system, like the quote expiry job
+    changedBy: string | null;
+    note?: string | null;
+}
+
+/**
+ * Status change to record
+ */
+export interface PreSaleStatusChange extends StatusChangeContext {
+    preSaleId: string;
+    // NULL on the entry written when the pre-sale is created
+    fromStatus: PreSaleStatus | null;
+    toStatus: PreSaleStatus;
+}
+
+/**
+ * Status history entry with the name of the user who made the change
+ */
+export interface PreSaleStatusHistoryEntry {
+    id: string;
+    preSaleId: string;
+    fromStatus: PreSaleStatus | null;
+    toStatus: PreSaleStatus;
+    changedBy: {
+        id: string;
+        name: string;
+    } | null;
+    note: string | null;
+    changedAt: Date;
+}
+
+/**
+ * Pre-sale status history service class
+ * Keeps one entry per status change so the timeline of a quote and the day it was converted are not lost
+ * when the status is overwritten
+ */
+export class PreSaleStatusHistoryService {
+    /**
+     * Record a status change, in the same transaction as the change itself
+     */
+    async record(change: PreSaleStatusChange, tx: ReservationExecutor = db): Promise<void> {
+        await tx
+            .insert(preSaleStatusHistory)
+            .values({
+                preSaleId: change.preSaleId,
+                fromStatus: change.fromStatus,
+                toStatus: change.toStatus,
+                changedBy: change.changedBy,
+                note: change.note || null
+            });
+    }
+
+    /**
+     * Get the status history of a pre-sale, oldest change first
+     */
+    async findByPreSaleId(preSaleId: string): Promise<PreSaleStatusHistoryEntry[]> {
+        const result = await db
+            .select({
+                id: preSaleStatusHistory.id,
+                preSaleId: preSaleStatusHistory.preSaleId,
+                fromStatus: preSaleStatusHistory.fromStatus,
+                toStatus: preSaleStatusHistory.toStatus,
+                note: preSaleStatusHistory.note,
+                changedAt: preSaleStatusHistory.changedAt,
+                userId: users.id,
+                userName: users.name
+            })
+            .from(preSaleStatusHistory)
+            .leftJoin(users, eq(preSaleStatusHistory.changedBy, users.id))
+            .where(eq(preSaleStatusHistory.preSaleId, preSaleId))
+            .orderBy(asc(preSaleStatusHistory.changedAt));
+
+        return result.map(row => ({
+            id: row.id,
+            preSaleId: row.preSaleId,
+            fromStatus: row.fromStatus,
+            toStatus: row.toStatus,
+            changedBy: row.userId && row.userName ? { id: row.userId, name: row.userName } : null,
+            note: row.note,
+            changedAt: row.changedAt
+        }));
+    }
+}
+
+// Export singleton instance
+export const preSaleStatusHistoryService = new PreSaleStatusHistoryService();
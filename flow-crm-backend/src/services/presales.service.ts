@@ -1,9 +1,10 @@
-import { eq, ilike, or, and, sql, desc, asc, inArray } from 'drizzle-orm';
+import { eq, ilike, or, and, sql, desc, asc, inArray, lt } from 'drizzle-orm';
 import { db } from '../db/connection';
-import { preSales, preSaleItems } from '../db/schema/presales';
+import { preSales, preSaleItems, preSaleNumberSequences } from '../db/schema/presales';
 import { customers } from '../db/schema/customers';
+import { users } from '../db/schema/users';
 import { products } from '../db/schema/products';
-import { BaseFilters, PreSaleStatus } from '../types/common.types';
+import { BaseFilters, PreSaleStatus, type UserRole } from '../types/common.types';
 import {
   calculatePreSaleTotals,
   validateStockForPreSale,
@@ -13,25 +14,68 @@ import {
   DiscountType as CalcDiscountType
 } from '../utils/presales-calculations';
 import { stockAdjustmentService } from './stock-adjustment.service';
+import { stockReservationService, type ReservationExecutor } from './stock-reservation.service';
 import { stockAdjustments } from '../db/schema/stock-adjustments';
+import { promotionService } from './promotions.service';
+import { taxService } from './taxes.service';
+import { TaxBreakdown } from '../utils/tax-calculations';
+import { applyStockChange, calculateAvailableStock } from '../utils/stock-calculations';
+import { DocumentType } from '../utils/cpf-cnpj-validator';
+import type { AuditValue } from '../utils/audit-diff';
+import { formatPreSaleNumber, normalizePreSaleNumber } from '../utils/presale-numbers';
+import { calculateQuoteValidUntil, isQuoteOverdue, toQuoteDate } from '../utils/quote-validity';
+import { settingsService } from './settings.service';
+import { auditLogService } from './audit-logs.service';
+import { preSaleStatusHistoryService, type StatusChangeContext } from './presale-status-history.service';
+import { calculateRequestedDiscount, getDiscountLimit, requiresDiscountApproval } from '../utils/discount-approval';
 
 /**
  * Discount type
  */
 export type DiscountType = 'fixed' | 'percentage';
 
+/**
+ * Open quotes, the ones that expire after their validity
+ */
+const EXPIRABLE_STATUSES: PreSaleStatus[] = ['pending', 'approved', 'awaiting_approval'];
+
+/**
+ * Quotes that can be renewed, approved ones only once they expire so their prices do not change after approval
+ */
+const RENEWABLE_STATUSES: PreSaleStatus[] = ['draft', 'pending', 'expired', 'awaiting_approval'];
+
+/**
+ * Statuses a pre-sale with a discount above the limit of its salesperson only reaches once the discount is approved,
+ * until then it waits in awaiting_approval
+ */
+const DISCOUNT_GATED_STATUSES: PreSaleStatus[] = ['pending', 'approved'];
+
+/**
+ * Author of the audit entries written by the expiry job
+ */
+const QUOTE_EXPIRY_AUDIT_CONTEXT = { userId: null, userName: 'Sistema' };
+
 /**
  * PreSale entity interface
  */
 export interface PreSale {
   id: string;
+  number: string;
   customerId: string;
+  salespersonId: string | null;
   status: PreSaleStatus;
   total: string;
   discount: string;
   discountType: DiscountType;
   discountPercentage: string;
   notes?: string | null;
+  // Last day the quote is valid, YYYY-MM-DD
+  validUntil: string;
+  // Largest discount in percent and the approval given to it, see utils/discount-approval
+  requestedDiscount: string;
+  discountApprovedPercentage: string | null;
+  discountApprovedBy: string | null;
+  discountApprovedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,6 +93,9 @@ export interface PreSaleItem {
   discount: string;
   discountType: DiscountType;
   discountPercentage: string;
+  promotionDiscount: string;
+  promotionIds: string[] | null;
+  taxBreakdown: TaxBreakdown | null;
 }
 
 /**
@@ -69,7 +116,13 @@ export interface PreSaleWithItems extends PreSale {
     name: string;
     email: string;
     cpf: string;
+    documentType: DocumentType;
+    companyName: string | null;
   };
+  salesperson: {
+    id: string;
+    name: string;
+  } | null;
 }
 
 /**
@@ -77,11 +130,13 @@ export interface PreSaleWithItems extends PreSale {
  */
 export interface CreatePreSaleData {
   customerId: string;
+  salespersonId?: string | null;
   status?: PreSaleStatus;
   discount?: string;
   discountType?: DiscountType;
   discountPercentage?: string;
   notes?: string | null;
+  validUntil?: string;
   items: CreatePreSaleItemData[];
 }
 
@@ -97,6 +152,32 @@ export interface CreatePreSaleItemData {
   discountPercentage?: string;
 }
 
+/**
+ * Item data accepted by the pricing helpers
+ * Stored items carry the promotion discount granted when they were priced
+ */
+interface PreSaleItemPricingInput extends CreatePreSaleItemData {
+  promotionDiscount?: string;
+  promotionIds?: string[] | null;
+  taxBreakdown?: TaxBreakdown | null;
+}
+
+/**
+ * Priced item ready to be persisted
+ */
+interface PricedPreSaleItem {
+  productId: string;
+  quantity: string;
+  unitPrice: string;
+  totalPrice: string;
+  discount: string;
+  discountType: DiscountType;
+  discountPercentage: string;
+  promotionDiscount: string;
+  promotionIds: string[] | null;
+  taxBreakdown: TaxBreakdown;
+}
+
 /**
  * PreSale update data interface
  */
@@ -107,6 +188,7 @@ export interface UpdatePreSaleData {
   discountType?: DiscountType;
   discountPercentage?: string;
   notes?: string | null;
+  validUntil?: string;
   items?: UpdatePreSaleItemData[];
 }
 
@@ -128,10 +210,12 @@ export interface UpdatePreSaleItemData {
  */
 export interface PreSalesFilters extends BaseFilters {
   customerId?: string;
+  salespersonId?: string;
   status?: PreSaleStatus | PreSaleStatus[];
   customerName?: string;
   dateFrom?: string;
   dateTo?: string;
+  number?: string;
   search?: string;
 }
 
@@ -149,10 +233,12 @@ export class PreSalesService {
       sortBy = 'createdAt',
       sortOrder = 'desc',
       customerId,
+      salespersonId,
       status,
       customerName,
       dateFrom,
       dateTo,
+      number,
       search
     } = filters;
 
@@ -163,6 +249,10 @@ export class PreSalesService {
       conditions.push(eq(preSales.customerId, customerId));
     }
 
+    if (salespersonId) {
+      conditions.push(eq(preSales.salespersonId, salespersonId));
+    }
+
     if (status) {
       if (Array.isArray(status)) {
         conditions.push(inArray(preSales.status, status));
@@ -179,15 +269,22 @@ export class PreSalesService {
       conditions.push(sql`${preSales.createdAt} <= ${new Date(dateTo)}`);
     }
 
-    // Handle customer name search and global search
+    if (number) {
+      conditions.push(eq(preSales.number, normalizePreSaleNumber(number) ?? number.trim().toUpperCase()));
+    }
+
+    // Handle customer name search and global search, which also matches the pre-sale number
     if (customerName || search) {
       const searchTerm = customerName || search;
-      conditions.push(
-        sql`EXISTS (
+      const customerCondition = sql`EXISTS (
           SELECT 1 FROM ${customers} 
           WHERE ${customers.id} = ${preSales.customerId} 
           AND ${ilike(customers.name, `%${searchTerm}%`)}
-        )`
+        )`;
+      conditions.push(
+        search && !customerName
+          ? sql`(${customerCondition} OR ${ilike(preSales.number, `%${normalizePreSaleNumber(search) ?? search}%`)})`
+          : customerCondition
       );
     }
 
@@ -212,21 +309,32 @@ export class PreSalesService {
     const preSaleResults = await db
       .select({
         id: preSales.id,
+        number: preSales.number,
         customerId: preSales.customerId,
+        salespersonId: preSales.salespersonId,
         status: preSales.status,
         total: preSales.total,
         discount: preSales.discount,
         discountType: preSales.discountType,
         discountPercentage: preSales.discountPercentage,
         notes: preSales.notes,
+        validUntil: preSales.validUntil,
+        requestedDiscount: preSales.requestedDiscount,
+        discountApprovedPercentage: preSales.discountApprovedPercentage,
+        discountApprovedBy: preSales.discountApprovedBy,
+        discountApprovedAt: preSales.discountApprovedAt,
         createdAt: preSales.createdAt,
         updatedAt: preSales.updatedAt,
         customerName: customers.name,
         customerEmail: customers.email,
         customerCpf: customers.cpf,
+        customerDocumentType: customers.documentType,
+        customerCompanyName: customers.companyName,
+        salespersonName: users.name,
       })
       .from(preSales)
       .innerJoin(customers, eq(preSales.customerId, customers.id))
+      .leftJoin(users, eq(preSales.salespersonId, users.id))
       .where(whereCondition)
       .orderBy(orderBy)
       .limit(limit)
@@ -248,6 +356,9 @@ export class PreSalesService {
           discount: preSaleItems.discount,
           discountType: preSaleItems.discountType,
           discountPercentage: preSaleItems.discountPercentage,
+          promotionDiscount: preSaleItems.promotionDiscount,
+          promotionIds: preSaleItems.promotionIds,
+          taxBreakdown: preSaleItems.taxBreakdown,
           productCode: products.code,
           productName: products.name,
           productUnit: products.unit,
@@ -273,6 +384,9 @@ export class PreSalesService {
         discount: item.discount,
         discountType: item.discountType,
         discountPercentage: item.discountPercentage,
+        promotionDiscount: item.promotionDiscount,
+        promotionIds: item.promotionIds,
+        taxBreakdown: item.taxBreakdown,
         product: {
           id: item.productId,
           code: item.productCode,
@@ -287,13 +401,20 @@ export class PreSalesService {
     // Format the response
     const results: PreSaleWithItems[] = preSaleResults.map((preSale) => ({
       id: preSale.id,
+      number: preSale.number,
       customerId: preSale.customerId,
+      salespersonId: preSale.salespersonId,
       status: preSale.status,
       total: preSale.total,
       discount: preSale.discount,
       discountType: preSale.discountType,
       discountPercentage: preSale.discountPercentage,
       notes: preSale.notes,
+      validUntil: preSale.validUntil,
+      requestedDiscount: preSale.requestedDiscount,
+      discountApprovedPercentage: preSale.discountApprovedPercentage,
+      discountApprovedBy: preSale.discountApprovedBy,
+      discountApprovedAt: preSale.discountApprovedAt,
       createdAt: preSale.createdAt,
       updatedAt: preSale.updatedAt,
       customer: {
@@ -301,7 +422,12 @@ export class PreSalesService {
         name: preSale.customerName,
         email: preSale.customerEmail,
         cpf: preSale.customerCpf,
+        documentType: preSale.customerDocumentType,
+        companyName: preSale.customerCompanyName,
       },
+      salesperson: preSale.salespersonId && preSale.salespersonName
+        ? { id: preSale.salespersonId, name: preSale.salespersonName }
+        : null,
       items: itemsByPresaleId[preSale.id] || [],
     }));
 
@@ -316,21 +442,32 @@ export class PreSalesService {
     const preSaleResult = await db
       .select({
         id: preSales.id,
+        number: preSales.number,
         customerId: preSales.customerId,
+        salespersonId: preSales.salespersonId,
         status: preSales.status,
         total: preSales.total,
         discount: preSales.discount,
         discountType: preSales.discountType,
         discountPercentage: preSales.discountPercentage,
         notes: preSales.notes,
+        validUntil: preSales.validUntil,
+        requestedDiscount: preSales.requestedDiscount,
+        discountApprovedPercentage: preSales.discountApprovedPercentage,
+        discountApprovedBy: preSales.discountApprovedBy,
+        discountApprovedAt: preSales.discountApprovedAt,
         createdAt: preSales.createdAt,
         updatedAt: preSales.updatedAt,
         customerName: customers.name,
         customerEmail: customers.email,
         customerCpf: customers.cpf,
+        customerDocumentType: customers.documentType,
+        customerCompanyName: customers.companyName,
+        salespersonName: users.name,
       })
       .from(preSales)
       .innerJoin(customers, eq(preSales.customerId, customers.id))
+      .leftJoin(users, eq(preSales.salespersonId, users.id))
       .where(eq(preSales.id, id))
       .limit(1);
 
@@ -352,6 +489,9 @@ export class PreSalesService {
         discount: preSaleItems.discount,
         discountType: preSaleItems.discountType,
         discountPercentage: preSaleItems.discountPercentage,
+        promotionDiscount: preSaleItems.promotionDiscount,
+        promotionIds: preSaleItems.promotionIds,
+        taxBreakdown: preSaleItems.taxBreakdown,
         productCode: products.code,
         productName: products.name,
         productUnit: products.unit,
@@ -364,13 +504,20 @@ export class PreSalesService {
     // Format the response
     const result: PreSaleWithItems = {
       id: preSale.id,
+      number: preSale.number,
       customerId: preSale.customerId,
+      salespersonId: preSale.salespersonId,
       status: preSale.status,
       total: preSale.total,
       discount: preSale.discount,
       discountType: preSale.discountType,
       discountPercentage: preSale.discountPercentage,
       notes: preSale.notes,
+      validUntil: preSale.validUntil,
+      requestedDiscount: preSale.requestedDiscount,
+      discountApprovedPercentage: preSale.discountApprovedPercentage,
+      discountApprovedBy: preSale.discountApprovedBy,
+      discountApprovedAt: preSale.discountApprovedAt,
       createdAt: preSale.createdAt,
       updatedAt: preSale.updatedAt,
       customer: {
@@ -378,7 +525,12 @@ export class PreSalesService {
         name: preSale.customerName,
         email: preSale.customerEmail,
         cpf: preSale.customerCpf,
+        documentType: preSale.customerDocumentType,
+        companyName: preSale.customerCompanyName,
       },
+      salesperson: preSale.salespersonId && preSale.salespersonName
+        ? { id: preSale.salespersonId, name: preSale.salespersonName }
+        : null,
       items: itemsResult.map((item: typeof itemsResult[0]) => ({
         id: item.id,
         preSaleId: item.preSaleId,
@@ -389,6 +541,9 @@ export class PreSalesService {
         discount: item.discount,
         discountType: item.discountType,
         discountPercentage: item.discountPercentage,
+        promotionDiscount: item.promotionDiscount,
+        promotionIds: item.promotionIds,
+        taxBreakdown: item.taxBreakdown,
         product: {
           id: item.productId,
           code: item.productCode,
@@ -412,64 +567,69 @@ export class PreSalesService {
     // Validate products exist and have sufficient stock
     await this.validateProductsAndStock(preSaleData.items);
 
-    // Calculate totals and handle discount conversion
-    const { subtotal, total, globalDiscount } = await this.calculateTotalsWithConversion(
+    // Calculate totals (item discounts, active promotions and line taxes) and handle discount conversion
+    const { total, globalDiscount, pricedItems, requestedDiscount } = await this.calculateTotalsWithConversion(
       preSaleData.items,
       preSaleData.discount,
       preSaleData.discountType,
-      preSaleData.discountPercentage
+      preSaleData.discountPercentage,
+      await this.getCustomerState(preSaleData.customerId)
     );
 
-    // Create pre-sale
-    const preSaleResult = await db
-      .insert(preSales)
-      .values({
-        customerId: preSaleData.customerId,
-        status: preSaleData.status || 'draft',
-        total: total.toString(),
-        discount: globalDiscount.fixedValue.toString(),
-        discountType: preSaleData.discountType || 'fixed',
-        discountPercentage: globalDiscount.percentage.toString(),
-        notes: preSaleData.notes || null,
-      })
-      .returning();
-
-    const createdPreSale = preSaleResult[0];
+    // Pre-sales with a discount above the limit of the salesperson wait for approval instead of opening
+    const discountCheck = await this.checkDiscountApproval({
+      salespersonId: preSaleData.salespersonId || null,
+      requestedDiscount: requestedDiscount.toString(),
+      discountApprovedPercentage: null
+    }, preSaleData.status === 'awaiting_approval' ? 'pending' : preSaleData.status || 'draft');
+    const status = discountCheck.status;
+    const validUntil = preSaleData.validUntil
+      ?? calculateQuoteValidUntil(new Date(), (await settingsService.get()).quoteValidityDays);
+
+    const createdPreSale = await db.transaction(async (tx) => {
+      // Create pre-sale
+      const preSaleResult = await tx
+        .insert(preSales)
+        .values({
+          number: await this.assignNumber(tx),
+          customerId: preSaleData.customerId,
+          salespersonId: preSaleData.salespersonId || null,
+          status,
+          total: total.toString(),
+          discount: globalDiscount.fixedValue.toString(),
+          discountType: preSaleData.discountType || 'fixed',
+          discountPercentage: globalDiscount.percentage.toString(),
+          notes: preSaleData.notes || null,
+          validUntil,
+          requestedDiscount: requestedDiscount.toString(),
+        })
+        .returning();
 
-    // Create pre-sale items with discount conversion
-    const itemsToInsert = preSaleData.items.map(item => {
-      const quantity = parseFloat(item.quantity);
-      const unitPrice = parseFloat(item.unitPrice);
-      const lineSubtotal = quantity * unitPrice;
+      // Create pre-sale items with the prices calculated above
+      const itemsToInsert = pricedItems.map(item => ({
+        preSaleId: preSaleResult[0].id,
+        ...item,
+      }));
 
-      // Calculate discount with conversion
-      const itemDiscountType = item.discountType || 'fixed';
-      const itemDiscountValue = itemDiscountType === 'percentage'
-        ? (item.discountPercentage || '0')
-        : (item.discount || '0');
+      await tx.insert(preSaleItems).values(itemsToInsert);
 
-      const discountCalc = calculateDiscountWithConversion(
-        lineSubtotal,
-        itemDiscountValue,
-        itemDiscountType
-      );
+      // Pre-sales created already approved hold their stock right away
+      if (status === 'approved') {
+        await stockReservationService.reserveForPreSale(preSaleResult[0].id, tx);
+      }
 
-      const totalPrice = lineSubtotal - discountCalc.discountAmount;
+      // The history of a pre-sale starts with the status it was created with
+      await preSaleStatusHistoryService.record({
+        preSaleId: preSaleResult[0].id,
+        fromStatus: null,
+        toStatus: status,
+        changedBy: preSaleData.salespersonId || null,
+        note: discountCheck.note
+      }, tx);
 
-      return {
-        preSaleId: createdPreSale.id,
-        productId: item.productId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        totalPrice: totalPrice.toString(),
-        discount: discountCalc.fixedValue.toString(),
-        discountType: itemDiscountType,
-        discountPercentage: discountCalc.percentage.toString(),
-      };
+      return preSaleResult[0];
     });
 
-    await db.insert(preSaleItems).values(itemsToInsert);
-
     // Return the created pre-sale with items
     const result = await this.findById(createdPreSale.id);
     if (!result) {
@@ -482,7 +642,11 @@ export class PreSalesService {
   /**
    * Update an existing pre-sale
    */
-  async update(id: string, preSaleData: UpdatePreSaleData): Promise<PreSaleWithItems> {
+  async update(
+    id: string,
+    preSaleData: UpdatePreSaleData,
+    context: StatusChangeContext = { changedBy: null }
+  ): Promise<PreSaleWithItems> {
     // Check if pre-sale exists
     const existingPreSale = await this.findById(id);
     if (!existingPreSale) {
@@ -499,6 +663,8 @@ export class PreSalesService {
       this.validateStatusTransition(existingPreSale.status, preSaleData.status);
     }
 
+    const statusChanged = preSaleData.status !== undefined && preSaleData.status !== existingPreSale.status;
+
     // Prepare update data
     const updateData: any = {
       updatedAt: new Date(),
@@ -506,72 +672,48 @@ export class PreSalesService {
 
     // Handle items update if provided
     if (preSaleData.items) {
-      // Validate products and stock
-      await this.validateProductsAndStock(preSaleData.items);
-
-      // Delete existing items
-      await db.delete(preSaleItems).where(eq(preSaleItems.preSaleId, id));
-
-      // Insert new items with discount conversion
-      const itemsToInsert = preSaleData.items.map(item => {
-        const quantity = parseFloat(item.quantity);
-        const unitPrice = parseFloat(item.unitPrice);
-        const lineSubtotal = quantity * unitPrice;
-
-        // Calculate discount with conversion
-        const itemDiscountType = item.discountType || 'fixed';
-        const itemDiscountValue = itemDiscountType === 'percentage'
-          ? (item.discountPercentage || '0')
-          : (item.discount || '0');
-
-        const discountCalc = calculateDiscountWithConversion(
-          lineSubtotal,
-          itemDiscountValue,
-          itemDiscountType
-        );
-
-        const totalPrice = lineSubtotal - discountCalc.discountAmount;
-
-        return {
-          preSaleId: id,
-          productId: item.productId,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          totalPrice: totalPrice.toString(),
-          discount: discountCalc.fixedValue.toString(),
-          discountType: itemDiscountType,
-          discountPercentage: discountCalc.percentage.toString(),
-        };
-      });
+      // Validate products and stock, the units this pre-sale already reserved stay available to it
+      await this.validateProductsAndStock(preSaleData.items, id);
 
-      await db.insert(preSaleItems).values(itemsToInsert);
-
-      // Recalculate totals with discount conversion
+      // Recalculate totals with discount conversion and active promotions
       const discountType = preSaleData.discountType || existingPreSale.discountType;
       const discountValue = preSaleData.discountType === 'percentage'
         ? preSaleData.discountPercentage
         : preSaleData.discount;
 
-      const { subtotal, total, globalDiscount } = await this.calculateTotalsWithConversion(
+      const { total, globalDiscount, pricedItems, requestedDiscount } = await this.calculateTotalsWithConversion(
         preSaleData.items,
         discountValue,
         discountType,
-        preSaleData.discountPercentage
+        preSaleData.discountPercentage,
+        await this.getCustomerState(preSaleData.customerId || existingPreSale.customerId)
       );
 
+      await db.transaction(async (tx) => {
+        // Replace existing items with the repriced ones
+        await tx.delete(preSaleItems).where(eq(preSaleItems.preSaleId, id));
+
+        await tx.insert(preSaleItems).values(pricedItems.map(item => ({
+          preSaleId: id,
+          ...item,
+        })));
+
+        // An approved pre-sale keeps its reservation in line with its items
+        if (existingPreSale.status === 'approved' && !statusChanged) {
+          await stockReservationService.reserveForPreSale(id, tx);
+        }
+      });
+
       updateData.total = total.toString();
       updateData.discount = globalDiscount.fixedValue.toString();
       updateData.discountPercentage = globalDiscount.percentage.toString();
+      updateData.requestedDiscount = requestedDiscount.toString();
     }
 
     if (preSaleData.customerId !== undefined) {
       updateData.customerId = preSaleData.customerId;
     }
 
-    if (preSaleData.status !== undefined) {
-      updateData.status = preSaleData.status;
-    }
-
     // Handle discount updates with conversion
     if (preSaleData.discount !== undefined || preSaleData.discountType !== undefined || preSaleData.discountPercentage !== undefined) {
       const newDiscountType = preSaleData.discountType || existingPreSale.discountType;
@@ -588,9 +730,12 @@ export class PreSalesService {
           discount: item.discount,
           discountType: item.discountType,
           discountPercentage: item.discountPercentage,
+          promotionDiscount: item.promotionDiscount,
+          promotionIds: item.promotionIds,
+          taxBreakdown: item.taxBreakdown,
         }));
 
-        const { subtotal, total, globalDiscount } = await this.calculateTotalsWithConversion(
+        const { total, globalDiscount, requestedDiscount } = await this.calculateTotalsWithConversion(
           currentItems,
           newDiscountValue,
           newDiscountType,
@@ -601,6 +746,7 @@ export class PreSalesService {
         updateData.discount = globalDiscount.fixedValue.toString();
         updateData.discountType = newDiscountType;
         updateData.discountPercentage = globalDiscount.percentage.toString();
+        updateData.requestedDiscount = requestedDiscount.toString();
       } else {
         // If items are being updated, discount conversion is already handled above
         if (preSaleData.discountType !== undefined) {
@@ -613,13 +759,35 @@ export class PreSalesService {
       updateData.notes = preSaleData.notes;
     }
 
+    if (preSaleData.validUntil !== undefined) {
+      updateData.validUntil = preSaleData.validUntil;
+    }
 
 
-    // Update pre-sale
-    await db
-      .update(preSales)
-      .set(updateData)
-      .where(eq(preSales.id, id));
+
+    // Update pre-sale, locked so a discount approval running at the same time sees either the old or the new discount
+    await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ status: preSales.status })
+        .from(preSales)
+        .where(eq(preSales.id, id))
+        .for('update');
+
+      await tx
+        .update(preSales)
+        .set(updateData)
+        .where(eq(preSales.id, id));
+
+      // An open pre-sale whose discount grew above the limit goes back to waiting for approval
+      if (!statusChanged && updateData.requestedDiscount !== undefined && current && DISCOUNT_GATED_STATUSES.includes(current.status)) {
+        await this.updateStatusInTransaction(id, current.status, context, tx);
+      }
+    });
+
+    // Status changes go through updateStatus so stock is reserved, released or consumed
+    if (statusChanged) {
+      await this.updateStatus(id, preSaleData.status as PreSaleStatus, context);
+    }
 
     // Return updated pre-sale
     const result = await this.findById(id);
@@ -630,6 +798,32 @@ export class PreSalesService {
     return result;
   }
 
+  /**
+   * Flatten a pre-sale for the audit trail, with one line per item
+   */
+  toAuditSnapshot(preSale: PreSaleWithItems): Record<string, AuditValue> {
+    return {
+      number: preSale.number,
+      customer: preSale.customer?.name ?? preSale.customerId,
+      salesperson: preSale.salesperson?.name ?? null,
+      status: preSale.status,
+      discount: preSale.discount,
+      discountType: preSale.discountType,
+      discountPercentage: preSale.discountPercentage,
+      total: preSale.total,
+      notes: preSale.notes ?? null,
+      validUntil: preSale.validUntil,
+      requestedDiscount: preSale.requestedDiscount,
+      discountApprovedPercentage: preSale.discountApprovedPercentage,
+      items: preSale.items
+        .map(item => {
+          const discount = parseFloat(item.discount) > 0 ? ` - ${item.discount}` : '';
+          return `${item.product?.code ?? item.productId} x ${item.quantity} @ ${item.unitPrice}${discount}`;
+        })
+        .join('; ')
+    };
+  }
+
   /**
    * Delete a pre-sale and all its items
    */
@@ -646,53 +840,187 @@ export class PreSalesService {
 
   /**
    * Update pre-sale status
+   * The status, its side effects on stock and the history entry are written together
    */
-  async updateStatus(id: string, status: PreSaleStatus): Promise<PreSale> {
-    // Check if pre-sale exists
-    const existingPreSale = await db
-      .select()
-      .from(preSales)
-      .where(eq(preSales.id, id))
-      .limit(1);
+  async updateStatus(
+    id: string,
+    status: PreSaleStatus,
+    context: StatusChangeContext = { changedBy: null }
+  ): Promise<PreSale> {
+    return await db.transaction(async (tx) => this.updateStatusInTransaction(id, status, context, tx));
+  }
 
-    if (existingPreSale.length === 0) {
+  /**
+   * Renew a quote: reprice its items at the current product prices and start a new validity period
+   * Item and global discounts are kept, promotions and taxes are recalculated. Expired quotes go back to pending,
+   * or to awaiting approval when their discount is above the limit and was not approved.
+   */
+  async renew(id: string, context: StatusChangeContext = { changedBy: null }): Promise<PreSaleWithItems> {
+    const existingPreSale = await this.findById(id);
+    if (!existingPreSale) {
       throw new Error('Pre-sale not found');
     }
 
-    // Validate status transition
-    this.validateStatusTransition(existingPreSale[0].status, status);
+    if (!RENEWABLE_STATUSES.includes(existingPreSale.status)) {
+      throw new Error(`Cannot renew a pre-sale with status ${existingPreSale.status}`);
+    }
+
+    const currentPrices = await db
+      .select({ id: products.id, salePrice: products.salePrice })
+      .from(products)
+      .where(inArray(products.id, existingPreSale.items.map(item => item.productId)));
+    const priceByProductId = new Map(currentPrices.map(product => [product.id, product.salePrice]));
 
-    // Use transaction to ensure atomicity when converting to "converted" status
-    if (status === 'converted' && existingPreSale[0].status !== 'converted') {
-      return await db.transaction(async (tx) => {
-        // First, validate and reduce stock
-        await this.processStockReductionForSaleInTransaction(id, tx);
+    const settings = await settingsService.get();
 
-        // Then update status
-        const result = await tx
+    await this.update(id, {
+      discount: existingPreSale.discount,
+      discountType: existingPreSale.discountType,
+      discountPercentage: existingPreSale.discountPercentage,
+      validUntil: calculateQuoteValidUntil(new Date(), settings.quoteValidityDays),
+      items: existingPreSale.items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: priceByProductId.get(item.productId) ?? item.unitPrice,
+        discount: item.discount,
+        discountType: item.discountType,
+        discountPercentage: item.discountPercentage,
+      })),
+    });
+
+    if (existingPreSale.status === 'expired') {
+      const [renewed] = await db.select().from(preSales).where(eq(preSales.id, id)).limit(1);
+      const discountCheck = await this.checkDiscountApproval(renewed, 'pending');
+
+      await db.transaction(async (tx) => {
+        await tx
           .update(preSales)
-          .set({
-            status,
-            updatedAt: new Date(),
-          })
-          .where(eq(preSales.id, id))
-          .returning();
+          .set({ status: discountCheck.status, updatedAt: new Date() })
+          .where(eq(preSales.id, id));
 
-        return result[0];
+        await preSaleStatusHistoryService.record({
+          preSaleId: id,
+          fromStatus: 'expired',
+          toStatus: discountCheck.status,
+          changedBy: context.changedBy,
+          note: context.note ?? discountCheck.note ?? 'Orçamento renovado com os preços atuais'
+        }, tx);
       });
-    } else {
-      // For other status changes, no transaction needed
-      const result = await db
+    }
+
+    const result = await this.findById(id);
+    if (!result) {
+      throw new Error('Failed to retrieve renewed pre-sale');
+    }
+
+    return result;
+  }
+
+  /**
+   * Approve the discount of a pre-sale awaiting approval and move it to pending
+   * The approval covers the current discount, a larger one later needs a new approval. Managers only approve
+   * discounts up to their own limit, administrators approve any discount.
+   */
+  async approveDiscount(
+    id: string,
+    approver: { id: string; role: UserRole },
+    reason?: string | null
+  ): Promise<PreSaleWithItems> {
+    const settings = await settingsService.get();
+
+    // The discount is read, approved and the status moved with the pre-sale locked, so an edit made meanwhile
+    // cannot raise the discount under the approval and a failed status change does not leave an approval behind
+    await db.transaction(async (tx) => {
+      const preSale = await this.findAwaitingApproval(id, tx);
+      const requestedDiscount = parseFloat(preSale.requestedDiscount);
+
+      const approverLimit = getDiscountLimit(approver.role, settings);
+      if (approverLimit !== null && requestedDiscount > approverLimit) {
+        throw new Error(`Discount of ${requestedDiscount}% is above your approval limit of ${approverLimit}%`);
+      }
+
+      await tx
         .update(preSales)
         .set({
-          status,
+          discountApprovedPercentage: preSale.requestedDiscount,
+          discountApprovedBy: approver.id,
+          discountApprovedAt: new Date(),
           updatedAt: new Date(),
         })
-        .where(eq(preSales.id, id))
-        .returning();
+        .where(eq(preSales.id, id));
 
-      return result[0];
+      await this.updateStatusInTransaction(id, 'pending', {
+        changedBy: approver.id,
+        note: reason || `Desconto de ${requestedDiscount}% aprovado`
+      }, tx);
+    });
+
+    const result = await this.findById(id);
+    if (!result) {
+      throw new Error('Failed to retrieve approved pre-sale');
     }
+
+    return result;
+  }
+
+  /**
+   * Reject the discount of a pre-sale awaiting approval, it goes back to draft so the salesperson can review it
+   */
+  async rejectDiscount(id: string, context: StatusChangeContext): Promise<PreSaleWithItems> {
+    await db.transaction(async (tx) => {
+      await this.findAwaitingApproval(id, tx);
+      await this.updateStatusInTransaction(id, 'draft', context, tx);
+    });
+
+    const result = await this.findById(id);
+    if (!result) {
+      throw new Error('Failed to retrieve rejected pre-sale');
+    }
+
+    return result;
+  }
+
+  /**
+   * Move the open pre-sales past their validity to expired, giving back the stock reserved by approved ones
+   * Each pre-sale is expired on its own so one failure does not block the others. Returns how many expired.
+   */
+  async expireOverdue(now: Date = new Date()): Promise<number> {
+    const overdue = await db
+      .select({ id: preSales.id })
+      .from(preSales)
+      .where(and(
+        inArray(preSales.status, EXPIRABLE_STATUSES),
+        lt(preSales.validUntil, toQuoteDate(now))
+      ))
+      .orderBy(asc(preSales.validUntil));
+
+    let expired = 0;
+    for (const { id } of overdue) {
+      try {
+        const previous = await this.findById(id);
+        // Converted or cancelled since the query above
+        if (!previous || !EXPIRABLE_STATUSES.includes(previous.status)) continue;
+
+        await this.updateStatus(id, 'expired', {
+          changedBy: null,
+          note: `Orçamento válido até ${previous.validUntil.split('-').reverse().join('/')}`
+        });
+        expired++;
+
+        await auditLogService.logMutation(
+          QUOTE_EXPIRY_AUDIT_CONTEXT,
+          'presale',
+          id,
+          this.toAuditSnapshot(previous),
+          this.toAuditSnapshot({ ...previous, status: 'expired' }),
+          `Pre-sale expired, it was valid until ${previous.validUntil}`
+        );
+      } catch (error) {
+        console.error(`Failed to expire pre-sale ${id}:`, error);
+      }
+    }
+
+    return expired;
   }
 
   /**
@@ -718,39 +1046,27 @@ export class PreSalesService {
 
   /**
    * Calculate totals with discount type conversion
+   * Each line gets its item discount first, then the active promotions for the product
+   * over the remaining amount; the global discount is applied over the resulting subtotal.
+   * Line taxes are calculated for the destination state and reported separately from the totals.
    */
   async calculateTotalsWithConversion(
-    items: CreatePreSaleItemData[] | UpdatePreSaleItemData[],
+    items: PreSaleItemPricingInput[],
     discountValue?: string,
     discountType?: DiscountType,
-    discountPercentage?: string
+    discountPercentage?: string,
+    destinationState?: string | null
   ): Promise<{
     subtotal: number;
     total: number;
-    globalDiscount: { fixedValue: number; percentage: number; discountAmount: number }
+    globalDiscount: { fixedValue: number; percentage: number; discountAmount: number };
+    pricedItems: PricedPreSaleItem[];
+    requestedDiscount: number;
   }> {
-    // Calculate subtotal from items (after item-level discounts)
-    let subtotal = 0;
+    const pricedItems = await this.priceItems(items, destinationState);
 
-    for (const item of items) {
-      const quantity = parseFloat(item.quantity);
-      const unitPrice = parseFloat(item.unitPrice);
-      const lineSubtotal = quantity * unitPrice;
-
-      // Handle item-level discount
-      const itemDiscountType = item.discountType || 'fixed';
-      const itemDiscountValue = itemDiscountType === 'percentage'
-        ? (item.discountPercentage || '0')
-        : (item.discount || '0');
-
-      const itemDiscount = calculateDiscountWithConversion(
-        lineSubtotal,
-        itemDiscountValue,
-        itemDiscountType
-      );
-
-      subtotal += (lineSubtotal - itemDiscount.discountAmount);
-    }
+    // Calculate subtotal from items (after item-level and promotional discounts)
+    const subtotal = pricedItems.reduce((sum, item) => sum + parseFloat(item.totalPrice), 0);
 
     // Apply global discount with conversion
     const globalDiscountType = discountType || 'fixed';
@@ -770,14 +1086,80 @@ export class PreSalesService {
       subtotal: roundMoney(subtotal),
       total: roundMoney(total),
       globalDiscount,
+      pricedItems,
+      requestedDiscount: calculateRequestedDiscount(
+        pricedItems.map(item => ({
+          quantity: parseFloat(item.quantity),
+          unitPrice: parseFloat(item.unitPrice),
+          discount: parseFloat(item.discount),
+        })),
+        globalDiscount.discountAmount
+      ),
     };
   }
 
+  /**
+   * Price pre-sale items applying item discounts, active promotions and line taxes
+   * Items that already carry a promotion discount or taxes (stored items) keep them instead of being repriced
+   */
+  private async priceItems(
+    items: PreSaleItemPricingInput[],
+    destinationState?: string | null
+  ): Promise<PricedPreSaleItem[]> {
+    const pricedItems: PricedPreSaleItem[] = [];
+
+    for (const item of items) {
+      const quantity = parseFloat(item.quantity);
+      const unitPrice = parseFloat(item.unitPrice);
+      const lineSubtotal = quantity * unitPrice;
+
+      // Handle item-level discount
+      const itemDiscountType = item.discountType || 'fixed';
+      const itemDiscountValue = itemDiscountType === 'percentage'
+        ? (item.discountPercentage || '0')
+        : (item.discount || '0');
+
+      const discountCalc = calculateDiscountWithConversion(
+        lineSubtotal,
+        itemDiscountValue,
+        itemDiscountType
+      );
+
+      const amountAfterDiscount = lineSubtotal - discountCalc.discountAmount;
+
+      // Apply active promotions over the discounted line amount
+      const promotion = item.promotionDiscount !== undefined
+        ? { discount: parseFloat(item.promotionDiscount), promotionIds: item.promotionIds || [] }
+        : await promotionService.calculateLineDiscount(item.productId, amountAfterDiscount);
+
+      const totalPrice = roundMoney(Math.max(0, amountAfterDiscount - promotion.discount));
+
+      // Taxes are calculated over the line total
+      const taxBreakdown = item.taxBreakdown
+        ?? await taxService.calculateLineTaxes(item.productId, totalPrice, destinationState);
+
+      pricedItems.push({
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice: totalPrice.toString(),
+        discount: discountCalc.fixedValue.toString(),
+        discountType: itemDiscountType,
+        discountPercentage: discountCalc.percentage.toString(),
+        promotionDiscount: promotion.discount.toString(),
+        promotionIds: promotion.promotionIds.length > 0 ? promotion.promotionIds : null,
+        taxBreakdown,
+      });
+    }
+
+    return pricedItems;
+  }
+
   /**
    * Count total pre-sales with filters
    */
   async count(filters: PreSalesFilters = {}): Promise<number> {
-    const { customerId, status, customerName, dateFrom, dateTo, search } = filters;
+    const { customerId, salespersonId, status, customerName, dateFrom, dateTo, number, search } = filters;
 
     const conditions = [];
 
@@ -785,6 +1167,10 @@ export class PreSalesService {
       conditions.push(eq(preSales.customerId, customerId));
     }
 
+    if (salespersonId) {
+      conditions.push(eq(preSales.salespersonId, salespersonId));
+    }
+
     if (status) {
       if (Array.isArray(status)) {
         conditions.push(inArray(preSales.status, status));
@@ -801,14 +1187,21 @@ export class PreSalesService {
       conditions.push(sql`${preSales.createdAt} <= ${new Date(dateTo)}`);
     }
 
+    if (number) {
+      conditions.push(eq(preSales.number, normalizePreSaleNumber(number) ?? number.trim().toUpperCase()));
+    }
+
     if (customerName || search) {
       const searchTerm = customerName || search;
-      conditions.push(
-        sql`EXISTS (
+      const customerCondition = sql`EXISTS (
           SELECT 1 FROM ${customers} 
           WHERE ${customers.id} = ${preSales.customerId} 
           AND ${ilike(customers.name, `%${searchTerm}%`)}
-        )`
+        )`;
+      conditions.push(
+        search && !customerName
+          ? sql`(${customerCondition} OR ${ilike(preSales.number, `%${normalizePreSaleNumber(search) ?? search}%`)})`
+          : customerCondition
       );
     }
 
@@ -822,6 +1215,195 @@ export class PreSalesService {
     return result[0].count;
   }
 
+  /**
+   * Private method to take the next pre-sale number of the current year
+   * The upsert locks the counter row of the year until the transaction ends, so concurrent pre-sales
+   * wait for each other, and a rolled back pre-sale gives its number back instead of leaving a gap.
+   */
+  private async assignNumber(tx: ReservationExecutor): Promise<string> {
+    const [sequence] = await tx
+      .insert(preSaleNumberSequences)
+      .values({ year: sql`EXTRACT(YEAR FROM NOW())::int`, lastValue: 1 })
+      .onConflictDoUpdate({
+        target: preSaleNumberSequences.year,
+        set: { lastValue: sql`${preSaleNumberSequences.lastValue} + 1` }
+      })
+      .returning();
+
+    return formatPreSaleNumber(sequence.year, sequence.lastValue);
+  }
+
+  /**
+   * Private method to get the customer's state, used as the ICMS destination
+   */
+  private async getCustomerState(customerId: string): Promise<string | null> {
+    const customer = await db
+      .select({ state: customers.state })
+      .from(customers)
+      .where(eq(customers.id, customerId))
+      .limit(1);
+
+    return customer[0]?.state ?? null;
+  }
+
+  /**
+   * Private method to update the pre-sale status inside a transaction, with the pre-sale row locked
+   */
+  private async updateStatusInTransaction(
+    id: string,
+    status: PreSaleStatus,
+    context: StatusChangeContext,
+    tx: ReservationExecutor
+  ): Promise<PreSale> {
+    // Check if pre-sale exists
+    const existingPreSale = await tx
+      .select()
+      .from(preSales)
+      .where(eq(preSales.id, id))
+      .for('update');
+
+    if (existingPreSale.length === 0) {
+      throw new Error('Pre-sale not found');
+    }
+
+    const currentStatus = existingPreSale[0].status;
+
+    // Validate status transition
+    this.validateStatusTransition(currentStatus, status);
+
+    // A discount above the limit sends the pre-sale to wait for approval, only the approval takes it out of there
+    const discountCheck = await this.checkDiscountApproval(existingPreSale[0], status);
+    if (discountCheck.status === 'awaiting_approval' && currentStatus === 'awaiting_approval' && status !== currentStatus) {
+      throw new Error(`Discount of ${parseFloat(existingPreSale[0].requestedDiscount)}% requires manager approval`);
+    }
+    const newStatus = discountCheck.status;
+
+    // Nothing changes, so nothing goes to the history either
+    if (newStatus === currentStatus) {
+      return existingPreSale[0];
+    }
+
+    // A quote past its validity cannot move forward, even before the expiry job reaches it
+    if ((newStatus === 'approved' || newStatus === 'converted') && isQuoteOverdue(existingPreSale[0].validUntil)) {
+      throw new Error(`Quote expired on ${existingPreSale[0].validUntil}, renew it before changing its status`);
+    }
+
+    if (newStatus === 'converted') {
+      // First, validate and reduce stock, then consume the reservation of the pre-sale
+      await this.processStockReductionForSaleInTransaction(id, tx);
+      await stockReservationService.consumeForPreSale(id, tx);
+
+      // Count the sale against the usage limits of the promotions applied to it
+      const itemPromotions = await tx
+        .select({ promotionIds: preSaleItems.promotionIds })
+        .from(preSaleItems)
+        .where(eq(preSaleItems.preSaleId, id));
+
+      await promotionService.registerUsage(
+        itemPromotions.flatMap(item => item.promotionIds || []),
+        tx
+      );
+    } else if (newStatus === 'approved') {
+      // Approving reserves the items
+      await stockReservationService.reserveForPreSale(id, tx);
+    } else if (newStatus === 'cancelled' || newStatus === 'expired' || newStatus === 'awaiting_approval') {
+      // Cancelling, expiring or waiting for a discount approval gives the reserved units back
+      await stockReservationService.releaseForPreSale(id, tx);
+    }
+
+    const result = await tx
+      .update(preSales)
+      .set({
+        status: newStatus,
+        updatedAt: new Date(),
+      })
+      .where(eq(preSales.id, id))
+      .returning();
+
+    await preSaleStatusHistoryService.record({
+      preSaleId: id,
+      fromStatus: currentStatus,
+      toStatus: newStatus,
+      ...context,
+      note: discountCheck.note ?? context.note
+    }, tx);
+
+    return result[0];
+  }
+
+  /**
+   * Private method to find the status a pre-sale moves to once its discount is checked
+   * Pending and approved become awaiting_approval while the discount is above the limit of the salesperson and
+   * was not approved, conversion is refused. The note explains the change for the status history.
+   */
+  private async checkDiscountApproval(
+    preSale: Pick<PreSale, 'salespersonId' | 'requestedDiscount' | 'discountApprovedPercentage'>,
+    status: PreSaleStatus
+  ): Promise<{ status: PreSaleStatus; note?: string }> {
+    if (!DISCOUNT_GATED_STATUSES.includes(status) && status !== 'converted') {
+      return { status };
+    }
+
+    const requestedDiscount = parseFloat(preSale.requestedDiscount);
+    const approvedDiscount = preSale.discountApprovedPercentage === null
+      ? null
+      : parseFloat(preSale.discountApprovedPercentage);
+    const limit = await this.getSalespersonDiscountLimit(preSale.salespersonId);
+
+    if (!requiresDiscountApproval(requestedDiscount, limit, approvedDiscount)) {
+      return { status };
+    }
+
+    if (status === 'converted') {
+      throw new Error(`Discount of ${requestedDiscount}% requires manager approval before conversion`);
+    }
+
+    return {
+      status: 'awaiting_approval',
+      note: `Desconto de ${requestedDiscount}% acima do limite de ${limit}%`
+    };
+  }
+
+  /**
+   * Private method to get the discount limit of a salesperson from their role
+   */
+  private async getSalespersonDiscountLimit(salespersonId: string | null): Promise<number | null> {
+    const settings = await settingsService.get();
+
+    if (!salespersonId) {
+      return getDiscountLimit(null, settings);
+    }
+
+    const salesperson = await db
+      .select({ role: users.role })
+      .from(users)
+      .where(eq(users.id, salespersonId))
+      .limit(1);
+
+    return getDiscountLimit(salesperson[0]?.role ?? null, settings);
+  }
+
+  /**
+   * Private method to lock a pre-sale that is waiting for its discount to be approved or rejected
+   */
+  private async findAwaitingApproval(id: string, tx: ReservationExecutor): Promise<PreSale> {
+    const [preSale] = await tx
+      .select()
+      .from(preSales)
+      .where(eq(preSales.id, id))
+      .for('update');
+
+    if (!preSale) {
+      throw new Error('Pre-sale not found');
+    }
+
+    if (preSale.status !== 'awaiting_approval') {
+      throw new Error(`Pre-sale is not awaiting discount approval, its status is ${preSale.status}`);
+    }
+
+    return preSale;
+  }
+
   /**
    * Private method to validate customer exists
    */
@@ -840,7 +1422,10 @@ export class PreSalesService {
   /**
    * Private method to validate products exist and have sufficient stock using calculation utilities
    */
-  private async validateProductsAndStock(items: CreatePreSaleItemData[] | UpdatePreSaleItemData[]): Promise<void> {
+  private async validateProductsAndStock(
+    items: CreatePreSaleItemData[] | UpdatePreSaleItemData[],
+    preSaleId?: string
+  ): Promise<void> {
     // Convert items to calculation format
     const calculationItems: PreSaleItemCalculation[] = items.map(item => ({
       productId: item.productId,
@@ -850,7 +1435,7 @@ export class PreSalesService {
     }));
 
     // Use stock validation utility
-    const validation = await validateStockForPreSale(calculationItems);
+    const validation = await validateStockForPreSale(calculationItems, preSaleId);
 
     if (!validation.isValid) {
       throw new Error(validation.errors.join('; '));
@@ -868,10 +1453,12 @@ export class PreSalesService {
 
     const validTransitions: Record<PreSaleStatus, PreSaleStatus[]> = {
       draft: ['pending', 'cancelled'],
-      pending: ['approved', 'cancelled', 'converted'], // Agora permite conversão direta de pending
-      approved: ['converted', 'cancelled'],
+      pending: ['approved', 'cancelled', 'converted', 'expired'], // Agora permite conversão direta de pending
+      approved: ['converted', 'cancelled', 'expired'],
       cancelled: [], // Cannot transition from cancelled
       converted: [], // Cannot transition from converted
+      expired: ['cancelled'], // Back to pending only through renew, which reprices the items
+      awaiting_approval: ['pending', 'draft', 'cancelled', 'expired'], // Entered only when the discount is above the limit
     };
 
     const allowedTransitions = validTransitions[currentStatus];
@@ -912,7 +1499,7 @@ export class PreSalesService {
           {
             adjustmentType: 'remove',
             quantity: quantityToReduce,
-            reason: `Venda finalizada - Pré-venda #${preSaleId.substring(0, 8)}`
+            reason: `Venda finalizada - Pré-venda ${preSale.number}`
           },
           'system', // userId - using system for automatic adjustments
           'Sistema de Vendas', // userName
@@ -936,13 +1523,16 @@ export class PreSalesService {
     const preSaleResult = await tx
       .select({
         id: preSales.id,
+        number: preSales.number,
         customerId: preSales.customerId,
+        salespersonId: preSales.salespersonId,
         status: preSales.status,
         total: preSales.total,
         discount: preSales.discount,
         discountType: preSales.discountType,
         discountPercentage: preSales.discountPercentage,
         notes: preSales.notes,
+        validUntil: preSales.validUntil,
         createdAt: preSales.createdAt,
         updatedAt: preSales.updatedAt,
       })
@@ -966,6 +1556,9 @@ export class PreSalesService {
         discount: preSaleItems.discount,
         discountType: preSaleItems.discountType,
         discountPercentage: preSaleItems.discountPercentage,
+        promotionDiscount: preSaleItems.promotionDiscount,
+        promotionIds: preSaleItems.promotionIds,
+        taxBreakdown: preSaleItems.taxBreakdown,
         productCode: products.code,
         productName: products.name,
         productUnit: products.unit,
@@ -975,14 +1568,21 @@ export class PreSalesService {
       .innerJoin(products, eq(preSaleItems.productId, products.id))
       .where(eq(preSaleItems.preSaleId, preSaleId));
 
+    // Units reserved by other approved pre-sales cannot be sold
+    const reserved = await stockReservationService.getReservedQuantities(
+      itemsResult.map((item: { productId: string }) => item.productId),
+      { excludePreSaleId: preSaleId, tx }
+    );
+
     // Validate stock availability before processing
     for (const item of itemsResult) {
       const quantityToReduce = parseFloat(item.quantity);
+      const availableStock = calculateAvailableStock(item.productStock, reserved.get(item.productId) || 0);
 
-      if (item.productStock < quantityToReduce) {
+      if (availableStock < quantityToReduce) {
         throw new Error(
           `Insufficient stock for product ${item.productName} (${item.productCode}). ` +
-          `Available: ${item.productStock}, Required: ${quantityToReduce}`
+          `Available: ${availableStock}, Required: ${quantityToReduce}`
         );
       }
     }
@@ -990,7 +1590,7 @@ export class PreSalesService {
     // Process stock reduction for each item within the transaction
     for (const item of itemsResult) {
       const quantityToReduce = parseFloat(item.quantity);
-      const newStock = item.productStock - quantityToReduce;
+      const newStock = applyStockChange(item.productStock, -quantityToReduce);
 
       try {
         // Update product stock directly in the transaction
@@ -1011,7 +1611,7 @@ export class PreSalesService {
             quantity: quantityToReduce,
             previousStock: item.productStock,
             newStock: newStock,
-            reason: `Venda finalizada - Pré-venda #${preSaleId.substring(0, 8)}`,
+            reason: `Venda finalizada - Pré-venda ${preSaleResult[0].number}`,
             userId: null, // system adjustment
             userName: 'Sistema de Vendas',
             ipAddress: null,
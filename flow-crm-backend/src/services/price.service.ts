@@ -11,8 +11,14 @@ import {
     calculateMarginAndMarkup,
     suggestPrice,
     MarginMarkupResult,
+    PromotionRule,
+    applyPromotions,
+    resolveCustomerDiscountRate,
     roundMoney
 } from '../utils/price-calculations';
+import { promotionService } from './promotions.service';
+import { taxService } from './taxes.service';
+import { TaxBreakdown, emptyTaxBreakdown, calculateTaxBreakdown } from '../utils/tax-calculations';
 import { PerformanceMonitor } from '../utils/audit-logger';
 import {
     productCache,
@@ -31,6 +37,7 @@ export interface PriceCalculationParams {
     quantity: string | number;
     basePrice?: string | number; // If not provided, uses product's sale price
     customerId?: string; // For customer-specific discounts
+    destinationState?: string; // ICMS destination state, defaults to the customer's state
     applyPromotions?: boolean;
     includeTaxes?: boolean;
 }
@@ -48,9 +55,8 @@ export interface PriceCalculationResult {
         promotionalDiscount: number;
         totalDiscount: number;
     };
-    taxes: {
-        amount: number;
-        rate: number;
+    taxes: TaxBreakdown & {
+        destinationState: string | null;
     };
     finalPrice: number;
     margin: {
@@ -113,6 +119,7 @@ export class PriceService {
             quantity,
             basePrice,
             customerId,
+            destinationState,
             applyPromotions = true,
             includeTaxes = true
         } = params;
@@ -129,6 +136,7 @@ export class PriceService {
             quantity: qty,
             basePrice: basePrice ? this.validateAndConvertNumber(basePrice, 'base price') : undefined,
             customerId,
+            destinationState,
             applyPromotions,
             includeTaxes
         });
@@ -171,10 +179,14 @@ export class PriceService {
         // Calculate price after discounts
         const priceAfterDiscounts = roundMoney(subtotal - discounts.totalDiscount);
 
-        // Calculate taxes
-        const taxes = includeTaxes
-            ? await this.calculateTaxes({ productId, amount: priceAfterDiscounts })
-            : { amount: 0, rate: 0 };
+        // Calculate taxes for the destination state (explicit or the customer's)
+        const taxState = destinationState || customer?.state || null;
+        const taxes = {
+            ...(includeTaxes
+                ? await this.calculateTaxes({ productId, amount: priceAfterDiscounts, destinationState: taxState })
+                : emptyTaxBreakdown()),
+            destinationState: taxState
+        };
 
         // Calculate final price
         const finalPrice = roundMoney(priceAfterDiscounts + taxes.amount);
@@ -343,16 +355,7 @@ export class PriceService {
             // Get customer information to check for discount eligibility
             const customer = await this.getCustomerById(params.customerId);
 
-            // Placeholder for customer discount logic
-            // In a real implementation, this would:
-            // 1. Check customer tier/category
-            // 2. Look up customer-specific discount rules
-            // 3. Check for volume-based discounts
-            // 4. Apply time-based promotions for the customer
-
-            // For now, implement a simple customer loyalty discount
-            // This is a basic implementation that can be enhanced later
-            const customerDiscountRate = await this.getCustomerDiscountRate(customer.id);
+            const customerDiscountRate = this.getCustomerDiscountRate(customer);
 
             if (customerDiscountRate > 0) {
                 const discountAmount = (params.subtotal * customerDiscountRate) / 100;
@@ -368,19 +371,10 @@ export class PriceService {
     }
 
     /**
-     * Get customer discount rate based on customer history or tier
+     * Get customer discount rate based on the negotiated agreement or tier
      */
-    private async getCustomerDiscountRate(customerId: string): Promise<number> {
-        // Placeholder implementation for customer discount rate
-        // In a real system, this would check:
-        // 1. Customer tier (VIP, Premium, Regular)
-        // 2. Purchase history
-        // 3. Loyalty program status
-        // 4. Special agreements
-
-        // For now, return 0 (no customer-specific discount)
-        // This can be enhanced when customer tier system is implemented
-        return 0;
+    private getCustomerDiscountRate(customer: typeof customers.$inferSelect): number {
+        return resolveCustomerDiscountRate(customer.tier, customer.discountRate);
     }
 
     /**
@@ -401,21 +395,9 @@ export class PriceService {
 
             // Apply promotions in order of priority
             // Higher priority promotions are applied first
-            let totalPromotionalDiscount = 0;
-            let remainingAmount = params.subtotal;
-
-            for (const promotion of activePromotions) {
-                const discountAmount = this.calculatePromotionDiscount(promotion, remainingAmount);
-                totalPromotionalDiscount += discountAmount;
-                remainingAmount -= discountAmount;
-
-                // Stop if remaining amount is zero or negative
-                if (remainingAmount <= 0) {
-                    break;
-                }
-            }
+            const { totalDiscount } = applyPromotions(activePromotions, params.subtotal);
 
-            return roundMoney(Math.min(totalPromotionalDiscount, params.subtotal));
+            return roundMoney(Math.min(totalDiscount, params.subtotal));
         } catch (error) {
             // Log error but don't fail the calculation
             console.warn(`Error calculating promotional discount for product ${params.productId}:`, error);
@@ -425,117 +407,39 @@ export class PriceService {
 
     /**
      * Get active promotions for a product
+     * Matches promotions targeting all products, the product itself or its category
      */
-    private async getActivePromotions(productId: string): Promise<Array<{
-        id: string;
-        type: 'percentage' | 'fixed';
-        value: number;
-        priority: number;
-        minAmount?: number;
-        maxDiscount?: number;
-    }>> {
-        // Placeholder implementation for promotion detection
-        // In a real system, this would query a promotions table with conditions like:
-        // 1. Active date range (start_date <= now <= end_date)
-        // 2. Product eligibility (specific products, categories, or all products)
-        // 3. Customer eligibility (if applicable)
-        // 4. Usage limits (per customer, total uses)
-
-        // For now, return empty array (no active promotions)
-        // This can be enhanced when promotion system is implemented
-        return [];
-    }
-
-    /**
-     * Calculate discount amount for a specific promotion
-     */
-    private calculatePromotionDiscount(
-        promotion: {
-            type: 'percentage' | 'fixed';
-            value: number;
-            minAmount?: number;
-            maxDiscount?: number;
-        },
-        amount: number
-    ): number {
-        // Check minimum amount requirement
-        if (promotion.minAmount && amount < promotion.minAmount) {
-            return 0;
-        }
-
-        let discountAmount = 0;
+    private async getActivePromotions(productId: string): Promise<PromotionRule[]> {
+        const product = await this.getProductById(productId);
 
-        if (promotion.type === 'percentage') {
-            discountAmount = (amount * promotion.value) / 100;
-
-            // Apply maximum discount limit if specified
-            if (promotion.maxDiscount && discountAmount > promotion.maxDiscount) {
-                discountAmount = promotion.maxDiscount;
-            }
-        } else {
-            // Fixed discount
-            discountAmount = promotion.value;
-        }
-
-        // Ensure discount doesn't exceed the amount
-        return Math.min(discountAmount, amount);
+        return promotionService.findActiveForProduct(productId, product.category);
     }
 
     /**
      * Calculate taxes based on product tax rates
      * Implements tax calculation with proper order of operations: base price → discounts → taxes
+     * ICMS, IPI, PIS and COFINS are calculated separately over the discounted amount
      */
     private async calculateTaxes(params: {
         productId: string;
         amount: number;
-    }): Promise<{ amount: number; rate: number }> {
+        destinationState: string | null;
+    }): Promise<TaxBreakdown> {
         try {
             // Get product to check for tax configuration
             const product = await this.getProductById(params.productId);
 
-            // Get tax rate for the product
-            const taxRate = await this.getProductTaxRate(params.productId, product);
-
-            if (taxRate <= 0) {
-                return { amount: 0, rate: 0 };
-            }
+            // Resolve rates from the product, its NCM code and the destination state
+            const rates = await taxService.getRatesForProduct(product, params.destinationState);
 
-            // Calculate tax amount
-            const taxAmount = (params.amount * taxRate) / 100;
-
-            return {
-                amount: roundMoney(taxAmount),
-                rate: roundMoney(taxRate)
-            };
+            return calculateTaxBreakdown(params.amount, rates);
         } catch (error) {
             // Log error but don't fail the calculation
             console.warn(`Error calculating taxes for product ${params.productId}:`, error);
-            return { amount: 0, rate: 0 };
+            return emptyTaxBreakdown();
         }
     }
 
-    /**
-     * Get tax rate for a product
-     */
-    private async getProductTaxRate(productId: string, product: any): Promise<number> {
-        // Placeholder implementation for tax rate determination
-        // In a real system, this would:
-        // 1. Check product-specific tax configuration
-        // 2. Look up tax rates by product category
-        // 3. Consider regional tax rules
-        // 4. Handle tax exemptions
-        // 5. Apply compound tax calculations if needed
-
-        // For now, return 0 (no tax)
-        // This can be enhanced when tax system is implemented
-        // Common Brazilian tax rates could be:
-        // - ICMS: varies by state (7% to 25%)
-        // - IPI: varies by product type (0% to 365%)
-        // - PIS/COFINS: typically around 9.25%
-
-        return 0;
-    }
-
     /**
      * Calculate margin and markup for given cost and selling price
      */
@@ -0,0 +1,368 @@
+import { inArray } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { products } from '../db/schema/products';
+import {
+  validateCreateProduct,
+  validateUpdateProduct,
+  getValidationErrorDetails,
+  type ValidationErrorDetails
+} from '../schemas/products.schemas';
+import { ValidationError } from '../types/error.types';
+import {
+  type ImportAction,
+  type ImportChange,
+  type ImportFormat,
+  type ImportSummary,
+  parseSpreadsheet,
+  parseDecimalCell,
+  normalizeHeader,
+  summarizeImport,
+  diffFields,
+  ImportRollback,
+  UnchangedRow
+} from '../utils/import-formats';
+import { auditLogService, type AuditContext } from './audit-logs.service';
+import { productCodeGenerator } from './product-code-generator.service';
+import {
+  productService,
+  type Product,
+  type ProductExecutor,
+  type CreateProductData,
+  type UpdateProductData
+} from './products.service';
+
+/**
+ * Result of a single spreadsheet row
+ */
+export interface ProductImportRow {
+  row: number;
+  action: ImportAction;
+  code: string | null;
+  name: string | null;
+  generatedCode?: boolean;
+  changes?: ImportChange[];
+  errors?: ValidationErrorDetails[];
+}
+
+/**
+ * Result of an import, a preview when it is a dry run
+ */
+export interface ProductImportResult {
+  dryRun: boolean;
+  committed: boolean;
+  summary: ImportSummary;
+  rows: ProductImportRow[];
+}
+
+/**
+ * Import options
+ */
+export interface ProductImportOptions {
+  dryRun: boolean;
+  auditContext: AuditContext;
+}
+
+type ImportField = keyof CreateProductData;
+
+/**
+ * Maximum number of data rows in one file
+ */
+const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Spreadsheet headers per product field, normalized without accents, spaces or case
+ * The Portuguese headers are the ones written by the product export.
+ */
+const IMPORT_HEADERS: Record<string, ImportField> = {
+  codigo: 'code',
+  code: 'code',
+  nome: 'name',
+  name: 'name',
+  descricao: 'description',
+  description: 'description',
+  categoria: 'category',
+  category: 'category',
+  unidade: 'unit',
+  unit: 'unit',
+  tipodevenda: 'saleType',
+  saletype: 'saleType',
+  estoque: 'stock',
+  stock: 'stock',
+  precodecusto: 'purchasePrice',
+  precodecompra: 'purchasePrice',
+  purchaseprice: 'purchasePrice',
+  precodevenda: 'salePrice',
+  saleprice: 'salePrice',
+  ncm: 'ncm',
+  icms: 'icmsRate',
+  icmsrate: 'icmsRate',
+  ipi: 'ipiRate',
+  ipirate: 'ipiRate',
+  pis: 'pisRate',
+  pisrate: 'pisRate',
+  cofins: 'cofinsRate',
+  cofinsrate: 'cofinsRate'
+};
+
+const DECIMAL_FIELDS: ImportField[] = ['purchasePrice', 'salePrice', 'icmsRate', 'ipiRate', 'pisRate', 'cofinsRate'];
+
+const SALE_TYPES: Record<string, string> = {
+  unidade: 'unit',
+  unit: 'unit',
+  fracionado: 'fractional',
+  fracionada: 'fractional',
+  fractional: 'fractional'
+};
+
+/**
+ * Product import service class
+ * Rows are matched to products by code; rows without a code create products with a generated code.
+ * Every import runs in one transaction, a dry run rolls it back so the preview matches the real import.
+ */
+export class ProductImportService {
+  /**
+   * Import products from a CSV or XLSX file
+   */
+  async importProducts(format: ImportFormat, file: Buffer, options: ProductImportOptions): Promise<ProductImportResult> {
+    let sheet: string[][];
+    try {
+      sheet = parseSpreadsheet(format, file);
+    } catch (error) {
+      throw new ValidationError(`Could not read the ${format.toUpperCase()} file`, [
+        { field: 'content', message: error instanceof Error ? error.message : 'Invalid file' }
+      ]);
+    }
+
+    const [headerRow, ...dataRows] = sheet;
+    const fields = (headerRow || []).map(header => IMPORT_HEADERS[normalizeHeader(header)]);
+
+    if (!fields.includes('code') && !fields.includes('name')) {
+      throw new ValidationError('The first row must have the column headers, including Código or Nome');
+    }
+
+    if (dataRows.length === 0) {
+      throw new ValidationError('The file has no products to import');
+    }
+
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`At most ${MAX_IMPORT_ROWS} products can be imported at once`);
+    }
+
+    const records = dataRows.map(cells => this.toRecord(fields, cells));
+    const generatedCodes = await this.allocateCodes(records);
+
+    let result: ProductImportResult;
+    const created: Product[] = [];
+    const updated: { previous: Product; product: Product }[] = [];
+
+    try {
+      result = await db.transaction(async (tx) => {
+        const rows = await this.applyRecords(records, generatedCodes, tx, created, updated);
+        const summary = summarizeImport(rows);
+        const importResult: ProductImportResult = {
+          dryRun: options.dryRun,
+          committed: !options.dryRun && summary.errors === 0,
+          summary,
+          rows
+        };
+
+        if (!importResult.committed) {
+          throw new ImportRollback(importResult);
+        }
+
+        return importResult;
+      });
+    } catch (error) {
+      if (error instanceof ImportRollback) {
+        return error.result as ProductImportResult;
+      }
+      throw error;
+    }
+
+    productService.clearCachedProducts(updated.map(change => change.product.id));
+    await this.logImport(created, updated, options.auditContext);
+
+    return result;
+  }
+
+  /**
+   * Create or update the product of each record, each row inside its own savepoint
+   */
+  private async applyRecords(
+    records: Partial<Record<ImportField, unknown>>[],
+    generatedCodes: (string | null)[],
+    tx: ProductExecutor,
+    created: Product[],
+    updated: { previous: Product; product: Product }[]
+  ): Promise<ProductImportRow[]> {
+    const codes = records
+      .map(record => record.code)
+      .filter((code): code is string => typeof code === 'string');
+    const existingProducts = codes.length > 0
+      ? await tx.select().from(products).where(inArray(products.code, codes))
+      : [];
+    const existingByCode = new Map(existingProducts.map(product => [product.code, product]));
+    const seenCodes = new Set<string>();
+
+    const rows: ProductImportRow[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const code = (record.code as string | undefined) ?? generatedCodes[index];
+      const row: ProductImportRow = {
+        row: index + 2, // Spreadsheet line, after the header
+        action: 'error',
+        code,
+        name: typeof record.name === 'string' ? record.name : null
+      };
+      rows.push(row);
+
+      if (code && seenCodes.has(code)) {
+        row.errors = [{ field: 'code', message: 'Product code appears more than once in the file', value: code }];
+        continue;
+      }
+      if (code) seenCodes.add(code);
+
+      const existing = code ? existingByCode.get(code) : undefined;
+
+      if (existing) {
+        const data = { ...record };
+        delete data.code;
+        row.name = row.name ?? existing.name;
+
+        if (Object.keys(data).length === 0) {
+          row.action = 'unchanged';
+          continue;
+        }
+
+        const validation = validateUpdateProduct(data);
+        if (!validation.success) {
+          row.errors = getValidationErrorDetails(validation.error);
+          continue;
+        }
+
+        try {
+          await tx.transaction(async (savepoint) => {
+            const change = await productService.updateInTransaction(
+              existing.id,
+              validation.data as UpdateProductData,
+              savepoint
+            );
+            const changes = diffFields(change.previous, change.updated, Object.keys(validation.data));
+
+            if (changes.length === 0) {
+              throw new UnchangedRow();
+            }
+
+            row.action = 'update';
+            row.changes = changes;
+            updated.push({ previous: change.previous, product: change.updated });
+          });
+        } catch (error) {
+          if (error instanceof UnchangedRow) {
+            row.action = 'unchanged';
+          } else {
+            row.errors = [{ field: '', message: error instanceof Error ? error.message : 'Failed to update product' }];
+          }
+        }
+        continue;
+      }
+
+      const validation = validateCreateProduct({ ...record, code: code ?? undefined });
+      if (!validation.success) {
+        row.errors = getValidationErrorDetails(validation.error);
+        continue;
+      }
+
+      try {
+        const product = await tx.transaction(async (savepoint) =>
+          productService.create(validation.data as CreateProductData, savepoint)
+        );
+        row.action = 'create';
+        row.code = product.code;
+        row.generatedCode = !record.code;
+        created.push(product);
+      } catch (error) {
+        row.errors = [{ field: '', message: error instanceof Error ? error.message : 'Failed to create product' }];
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Convert the cells of a row to product fields, leaving out empty cells
+   */
+  private toRecord(fields: (ImportField | undefined)[], cells: string[]): Partial<Record<ImportField, unknown>> {
+    const record: Partial<Record<ImportField, unknown>> = {};
+
+    fields.forEach((field, index) => {
+      const value = (cells[index] ?? '').trim();
+      if (!field || value === '') return;
+
+      if (field === 'code') {
+        record.code = value.toUpperCase();
+      } else if (field === 'stock') {
+        const stock = parseDecimalCell(value);
+        record.stock = Number.isNaN(stock) ? value : stock;
+      } else if (DECIMAL_FIELDS.includes(field)) {
+        const amount = parseDecimalCell(value);
+        record[field] = Number.isNaN(amount) ? value : String(amount);
+      } else if (field === 'saleType') {
+        record.saleType = SALE_TYPES[normalizeHeader(value)] ?? value;
+      } else {
+        record[field] = value;
+      }
+    });
+
+    return record;
+  }
+
+  /**
+   * Reserve product codes for the rows without one
+   * The sequence is read once; codes already used in the file are skipped.
+   */
+  private async allocateCodes(records: Partial<Record<ImportField, unknown>>[]): Promise<(string | null)[]> {
+    const missing = records.filter(record => !record.code).length;
+    if (missing === 0) {
+      return records.map(() => null);
+    }
+
+    const fileCodes = new Set(records.map(record => record.code));
+    const { sequenceNumber } = await productCodeGenerator.generateCodeWithConcurrencySafety();
+    let sequence = sequenceNumber;
+
+    return records.map(record => {
+      if (record.code) return null;
+
+      let code = productCodeGenerator.formatCode(sequence++);
+      while (fileCodes.has(code)) {
+        code = productCodeGenerator.formatCode(sequence++);
+      }
+      return code;
+    });
+  }
+
+  /**
+   * Write one audit entry per imported product, failures do not undo the import
+   */
+  private async logImport(
+    created: Product[],
+    updated: { previous: Product; product: Product }[],
+    auditContext: AuditContext
+  ): Promise<void> {
+    try {
+      for (const product of created) {
+        await auditLogService.logMutation(auditContext, 'product', product.id, null, product, `Imported product ${product.code}`);
+      }
+
+      for (const { previous, product } of updated) {
+        await auditLogService.logMutation(auditContext, 'product', product.id, previous, product, `Import of product ${product.code}`);
+      }
+    } catch (auditError) {
+      console.error('Failed to create audit log:', auditError);
+    }
+  }
+}
+
+// Export singleton instance
+export const productImportService = new ProductImportService();
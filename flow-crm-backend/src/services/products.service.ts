@@ -1,7 +1,23 @@
 import { eq, ilike, or, and, sql, desc, asc } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { products } from '../db/schema/products';
+import { stockReservations } from '../db/schema/stock-reservations';
 import { BaseFilters } from '../types/common.types';
+import { ValidationError } from '../types/error.types';
+import { auditLogService, type AuditContext } from './audit-logs.service';
+import { productCache, calculationCache } from '../utils/cache-manager';
+import {
+  normalizeStockQuantity,
+  applyStockChange,
+  calculateAvailableStock,
+  calculateReorderQuantity,
+  getStockAlertSeverity,
+  hasOrderedStockLevels,
+  type StockAlertSeverity,
+  type StockLevels
+} from '../utils/stock-calculations';
+import { stockReservationService } from './stock-reservation.service';
+import { settingsService } from './settings.service';
 
 /**
  * Product entity interface
@@ -13,9 +29,20 @@ export interface Product {
   unit: string;
   description?: string | null;
   stock: number;
+  reservedStock?: number;
+  availableStock?: number;
+  minStock: number | null;
+  reorderPoint: number | null;
+  maxStock: number | null;
   purchasePrice: string;
   salePrice: string;
   saleType: string;
+  category?: string | null;
+  ncm?: string | null;
+  icmsRate?: string | null;
+  ipiRate?: string | null;
+  pisRate?: string | null;
+  cofinsRate?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,9 +56,18 @@ export interface CreateProductData {
   unit: string;
   description?: string | null;
   stock?: number;
+  minStock?: number | null;
+  reorderPoint?: number | null;
+  maxStock?: number | null;
   purchasePrice: string;
   salePrice: string;
   saleType: string;
+  category?: string | null;
+  ncm?: string | null;
+  icmsRate?: string | null;
+  ipiRate?: string | null;
+  pisRate?: string | null;
+  cofinsRate?: string | null;
 }
 
 /**
@@ -43,9 +79,18 @@ export interface UpdateProductData {
   unit?: string;
   description?: string | null;
   stock?: number;
+  minStock?: number | null;
+  reorderPoint?: number | null;
+  maxStock?: number | null;
   purchasePrice?: string;
   salePrice?: string;
   saleType?: string;
+  category?: string | null;
+  ncm?: string | null;
+  icmsRate?: string | null;
+  ipiRate?: string | null;
+  pisRate?: string | null;
+  cofinsRate?: string | null;
 }
 
 /**
@@ -54,12 +99,47 @@ export interface UpdateProductData {
 export interface ProductFilters extends BaseFilters {
   code?: string;
   name?: string;
+  unit?: string;
   saleType?: string;
   search?: string;
   minStock?: number;
   maxStock?: number;
 }
 
+/**
+ * Product whose available stock reached its reorder point
+ */
+export interface LowStockProduct extends Product {
+  severity: StockAlertSeverity;
+  reorderQuantity: number | null;
+}
+
+/**
+ * Low-stock query options
+ */
+export interface LowStockFilters {
+  threshold?: number;
+  limit?: number;
+}
+
+/**
+ * One row of a bulk product update
+ */
+export interface BulkProductUpdate {
+  id: string;
+  data: UpdateProductData;
+}
+
+/**
+ * Database or open transaction product queries run on
+ */
+export type ProductExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Products read per query while exporting
+ */
+const EXPORT_BATCH_SIZE = 500;
+
 /**
  * Product service class containing all product-related business logic
  */
@@ -75,6 +155,7 @@ export class ProductService {
       sortOrder = 'asc',
       code,
       name,
+      unit,
       saleType,
       search,
       minStock,
@@ -92,6 +173,10 @@ export class ProductService {
       conditions.push(ilike(products.name, `%${name}%`));
     }
 
+    if (unit) {
+      conditions.push(ilike(products.unit, unit));
+    }
+
     if (saleType) {
       conditions.push(ilike(products.saleType, `%${saleType}%`));
     }
@@ -137,15 +222,66 @@ export class ProductService {
     // Apply pagination
     const offset = (page - 1) * limit;
 
+    // Id breaks ties so consecutive pages never repeat or skip products
     const result = await db
       .select()
       .from(products)
       .where(whereCondition)
-      .orderBy(orderBy)
+      .orderBy(orderBy, asc(products.id))
       .limit(limit)
       .offset(offset);
 
-    return result;
+    return this.withAvailability(result);
+  }
+
+  /**
+   * Iterate over every product matching the filters, reading them in batches (used by exports)
+   */
+  async *iterateAll(filters: Omit<ProductFilters, 'page' | 'limit'> = {}): AsyncGenerator<Product> {
+    for (let page = 1; ; page++) {
+      const batch = await this.findAll({ ...filters, page, limit: EXPORT_BATCH_SIZE });
+      yield* batch;
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Find the products whose available stock reached their reorder point, the furthest below it first
+   * Products without stock levels use the threshold, by default the low-stock threshold of the system settings.
+   */
+  async findLowStock(filters: LowStockFilters = {}): Promise<LowStockProduct[]> {
+    const { limit = 100 } = filters;
+    const threshold = filters.threshold ?? (await settingsService.get()).lowStockThreshold;
+
+    const reserved = sql`coalesce((
+      select sum(${stockReservations.quantity})
+      from ${stockReservations}
+      where ${stockReservations.productId} = ${products.id} and ${stockReservations.status} = 'active'
+    ), 0)`;
+    const reorderPoint = sql`coalesce(${products.reorderPoint}, ${products.minStock}, ${threshold})`;
+    const shortage = sql`${products.stock} - ${reserved} - ${reorderPoint}`;
+
+    const result = await db
+      .select()
+      .from(products)
+      .where(sql`${shortage} <= 0`)
+      .orderBy(asc(shortage), asc(products.name))
+      .limit(limit);
+
+    const lowStock: LowStockProduct[] = [];
+    for (const product of await this.withAvailability(result)) {
+      const available = product.availableStock ?? product.stock;
+      const severity = getStockAlertSeverity(available, product, threshold);
+
+      if (severity) {
+        lowStock.push({ ...product, severity, reorderQuantity: calculateReorderQuantity(available, product.maxStock) });
+      }
+    }
+
+    return lowStock;
   }
 
   /**
@@ -158,7 +294,7 @@ export class ProductService {
       .where(eq(products.id, id))
       .limit(1);
 
-    return result[0] || null;
+    return result[0] ? (await this.withAvailability(result))[0] : null;
   }
 
   /**
@@ -171,15 +307,20 @@ export class ProductService {
       .where(eq(products.code, code))
       .limit(1);
 
-    return result[0] || null;
+    return result[0] ? (await this.withAvailability(result))[0] : null;
   }
 
   /**
    * Create a new product
    */
-  async create(productData: CreateProductData): Promise<Product> {
+  async create(productData: CreateProductData, executor: ProductExecutor = db): Promise<Product> {
     // Validate price values first
     this.validatePrices(productData.purchasePrice, productData.salePrice);
+    this.validateStockLevels({
+      minStock: productData.minStock ?? null,
+      reorderPoint: productData.reorderPoint ?? null,
+      maxStock: productData.maxStock ?? null
+    });
 
     // Determine the product code - generate automatically if not provided
     let productCode: string;
@@ -187,7 +328,7 @@ export class ProductService {
     if (productData.code && productData.code.trim()) {
       // Manual code provided - validate uniqueness and format
       productCode = productData.code.trim().toUpperCase();
-      await this.validateCodeUniqueness(productCode);
+      await this.validateCodeUniqueness(productCode, executor);
     } else {
       // Generate code automatically - simple implementation for task 7
       productCode = await this.generateNextCode();
@@ -199,13 +340,22 @@ export class ProductService {
       name: productData.name.trim(),
       unit: productData.unit.trim(),
       description: productData.description?.trim() || null,
-      stock: productData.stock || 0,
+      stock: normalizeStockQuantity(productData.stock || 0, productData),
+      minStock: productData.minStock ?? null,
+      reorderPoint: productData.reorderPoint ?? null,
+      maxStock: productData.maxStock ?? null,
       purchasePrice: productData.purchasePrice,
       salePrice: productData.salePrice,
-      saleType: productData.saleType.trim()
+      saleType: productData.saleType.trim(),
+      category: productData.category?.trim() || null,
+      ncm: productData.ncm || null,
+      icmsRate: productData.icmsRate ?? null,
+      ipiRate: productData.ipiRate ?? null,
+      pisRate: productData.pisRate ?? null,
+      cofinsRate: productData.cofinsRate ?? null
     };
 
-    const result = await db
+    const result = await executor
       .insert(products)
       .values(sanitizedData)
       .returning();
@@ -223,8 +373,131 @@ export class ProductService {
       throw new Error('Product not found');
     }
 
-    // Prepare update data
-    const updateData: any = {
+    const updateData = await this.buildUpdateData(existingProduct, productData);
+
+    const result = await db
+      .update(products)
+      .set(updateData)
+      .where(eq(products.id, id))
+      .returning();
+
+    // Cached prices depend on the product's prices and tax configuration
+    productCache.delete(id);
+    calculationCache.clear();
+
+    return result[0];
+  }
+
+  /**
+   * Update several products in one transaction
+   * Every row is validated; if any row fails nothing is saved and the errors are reported per row.
+   */
+  async bulkUpdate(updates: BulkProductUpdate[], auditContext: AuditContext): Promise<Product[]> {
+    const changes = await db.transaction(async (tx) => {
+      const rowErrors: { field: string; message: string; value: string }[] = [];
+      const applied: { previous: Product; updated: Product }[] = [];
+      const seenIds = new Set<string>();
+
+      for (const [index, update] of updates.entries()) {
+        try {
+          if (seenIds.has(update.id)) {
+            throw new Error('Product is listed more than once');
+          }
+          seenIds.add(update.id);
+
+          const { previous, updated } = await this.updateInTransaction(update.id, update.data, tx);
+          applied.push({ previous, updated });
+        } catch (error) {
+          rowErrors.push({
+            field: `updates.${index}`,
+            message: error instanceof Error ? error.message : 'Failed to update product',
+            value: update.id
+          });
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        throw new ValidationError(
+          `Bulk update failed for ${rowErrors.length} of ${updates.length} products, no product was updated`,
+          rowErrors
+        );
+      }
+
+      return applied;
+    });
+
+    this.clearCachedProducts(changes.map(change => change.updated.id));
+
+    // Audit entries are written once the batch is committed
+    for (const { previous, updated } of changes) {
+      try {
+        await auditLogService.logMutation(
+          auditContext,
+          'product',
+          updated.id,
+          previous,
+          updated,
+          `Bulk update of product ${updated.code}`
+        );
+      } catch (auditError) {
+        console.error('Failed to create audit log:', auditError);
+      }
+    }
+
+    return changes.map(change => change.updated);
+  }
+
+  /**
+   * Update a product inside an open transaction, locking its row first
+   * Cached prices are left to the caller, to be cleared once the transaction commits.
+   */
+  async updateInTransaction(
+    id: string,
+    productData: UpdateProductData,
+    tx: ProductExecutor
+  ): Promise<{ previous: Product; updated: Product }> {
+    // Lock the row so a concurrent edit cannot interleave with the transaction
+    const existing = await tx
+      .select()
+      .from(products)
+      .where(eq(products.id, id))
+      .for('update')
+      .limit(1);
+
+    if (existing.length === 0) {
+      throw new Error('Product not found');
+    }
+
+    const updateData = await this.buildUpdateData(existing[0], productData, tx);
+
+    const result = await tx
+      .update(products)
+      .set(updateData)
+      .where(eq(products.id, id))
+      .returning();
+
+    return { previous: existing[0], updated: result[0] };
+  }
+
+  /**
+   * Drop cached products and prices after products changed
+   */
+  clearCachedProducts(ids: string[]): void {
+    for (const id of ids) {
+      productCache.delete(id);
+    }
+    calculationCache.clear();
+  }
+
+  /**
+   * Build the column values of a product update, validating them against the current product
+   */
+  private async buildUpdateData(
+    existingProduct: Product,
+    productData: UpdateProductData,
+    executor: ProductExecutor = db
+  ): Promise<Record<string, unknown>> {
+    const updateData: Record<string, unknown> = {
       updatedAt: new Date()
     };
 
@@ -232,7 +505,7 @@ export class ProductService {
       const code = productData.code.trim().toUpperCase();
       // Check code uniqueness only if it's different from current code
       if (code !== existingProduct.code) {
-        await this.validateCodeUniqueness(code);
+        await this.validateCodeUniqueness(code, executor);
       }
       updateData.code = code;
     }
@@ -249,8 +522,31 @@ export class ProductService {
       updateData.description = productData.description?.trim() || null;
     }
 
-    if (productData.stock !== undefined) {
-      updateData.stock = productData.stock;
+    // Stock must follow the unit rules of the product as it will be after the update
+    if (productData.stock !== undefined || productData.saleType !== undefined) {
+      const stock = normalizeStockQuantity(productData.stock ?? existingProduct.stock, {
+        unit: productData.unit ?? existingProduct.unit,
+        saleType: productData.saleType ?? existingProduct.saleType
+      });
+
+      if (productData.stock !== undefined) {
+        updateData.stock = stock;
+      }
+    }
+
+    // Levels are validated as they will be after the update
+    if (
+      productData.minStock !== undefined ||
+      productData.reorderPoint !== undefined ||
+      productData.maxStock !== undefined
+    ) {
+      const levels = {
+        minStock: productData.minStock !== undefined ? productData.minStock : existingProduct.minStock,
+        reorderPoint: productData.reorderPoint !== undefined ? productData.reorderPoint : existingProduct.reorderPoint,
+        maxStock: productData.maxStock !== undefined ? productData.maxStock : existingProduct.maxStock
+      };
+      this.validateStockLevels(levels);
+      Object.assign(updateData, levels);
     }
 
     if (productData.purchasePrice !== undefined) {
@@ -272,13 +568,31 @@ export class ProductService {
       updateData.saleType = productData.saleType.trim();
     }
 
-    const result = await db
-      .update(products)
-      .set(updateData)
-      .where(eq(products.id, id))
-      .returning();
+    if (productData.category !== undefined) {
+      updateData.category = productData.category?.trim() || null;
+    }
 
-    return result[0];
+    if (productData.ncm !== undefined) {
+      updateData.ncm = productData.ncm || null;
+    }
+
+    if (productData.icmsRate !== undefined) {
+      updateData.icmsRate = productData.icmsRate;
+    }
+
+    if (productData.ipiRate !== undefined) {
+      updateData.ipiRate = productData.ipiRate;
+    }
+
+    if (productData.pisRate !== undefined) {
+      updateData.pisRate = productData.pisRate;
+    }
+
+    if (productData.cofinsRate !== undefined) {
+      updateData.cofinsRate = productData.cofinsRate;
+    }
+
+    return updateData;
   }
 
   /**
@@ -318,7 +632,7 @@ export class ProductService {
     const result = await db
       .update(products)
       .set({
-        stock: quantity,
+        stock: normalizeStockQuantity(quantity, existingProduct),
         updatedAt: new Date()
       })
       .where(eq(products.id, id))
@@ -337,7 +651,7 @@ export class ProductService {
       throw new Error('Product not found');
     }
 
-    const newStock = existingProduct.stock + adjustment;
+    const newStock = applyStockChange(existingProduct.stock, normalizeStockQuantity(adjustment, existingProduct));
 
     // Validate that stock doesn't go negative
     if (newStock < 0) {
@@ -360,7 +674,7 @@ export class ProductService {
    * Count total products with filters
    */
   async count(filters: ProductFilters = {}): Promise<number> {
-    const { code, name, saleType, search, minStock, maxStock } = filters;
+    const { code, name, unit, saleType, search, minStock, maxStock } = filters;
 
     const conditions = [];
 
@@ -372,6 +686,10 @@ export class ProductService {
       conditions.push(ilike(products.name, `%${name}%`));
     }
 
+    if (unit) {
+      conditions.push(ilike(products.unit, unit));
+    }
+
     if (saleType) {
       conditions.push(ilike(products.saleType, `%${saleType}%`));
     }
@@ -405,6 +723,22 @@ export class ProductService {
     return result[0].count;
   }
 
+  /**
+   * Attach the quantity reserved by approved pre-sales and the stock still available
+   */
+  private async withAvailability(productList: Product[]): Promise<Product[]> {
+    const reserved = await stockReservationService.getReservedQuantities(productList.map(product => product.id));
+
+    return productList.map(product => {
+      const reservedStock = reserved.get(product.id) || 0;
+      return {
+        ...product,
+        reservedStock,
+        availableStock: calculateAvailableStock(product.stock, reservedStock)
+      };
+    });
+  }
+
   /**
    * Generate next automatic product code
    */
@@ -432,8 +766,8 @@ export class ProductService {
   /**
    * Private method to validate product code uniqueness
    */
-  private async validateCodeUniqueness(code: string): Promise<void> {
-    const existing = await db
+  private async validateCodeUniqueness(code: string, executor: ProductExecutor = db): Promise<void> {
+    const existing = await executor
       .select({ id: products.id })
       .from(products)
       .where(eq(products.code, code))
@@ -444,6 +778,15 @@ export class ProductService {
     }
   }
 
+  /**
+   * Private method to validate the stock levels of a product
+   */
+  private validateStockLevels(levels: StockLevels): void {
+    if (!hasOrderedStockLevels(levels)) {
+      throw new Error('Stock levels must follow minimum stock <= reorder point <= maximum stock');
+    }
+  }
+
   /**
    * Private method to validate price values
    */
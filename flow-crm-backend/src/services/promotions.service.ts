@@ -0,0 +1,460 @@
+import { eq, ilike, and, or, desc, asc, sql, lte, gte, gt, lt, isNull, inArray, type AnyColumn } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { promotions } from '../db/schema/promotions';
+import { products } from '../db/schema/products';
+import { BaseFilters } from '../types/common.types';
+import { PromotionRule, applyPromotions } from '../utils/price-calculations';
+import { promotionCache, calculationCache } from '../utils/cache-manager';
+import type { ReservationExecutor } from './stock-reservation.service';
+
+/**
+ * Promotion discount type
+ */
+export type PromotionType = 'percentage' | 'fixed';
+
+/**
+ * Promotion scope
+ */
+export type PromotionScope = 'all' | 'product' | 'category';
+
+/**
+ * Promotion entity interface
+ */
+export interface Promotion {
+  id: string;
+  name: string;
+  description: string | null;
+  type: PromotionType;
+  value: string;
+  scope: PromotionScope;
+  productId: string | null;
+  category: string | null;
+  startDate: Date;
+  endDate: Date;
+  priority: number;
+  minAmount: string | null;
+  maxDiscount: string | null;
+  usageLimit: number | null;
+  usageCount: number;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Promotion creation data interface
+ */
+export interface CreatePromotionData {
+  name: string;
+  description?: string | null;
+  type: PromotionType;
+  value: string;
+  scope?: PromotionScope;
+  productId?: string | null;
+  category?: string | null;
+  startDate: Date;
+  endDate: Date;
+  priority?: number;
+  minAmount?: string | null;
+  maxDiscount?: string | null;
+  usageLimit?: number | null;
+  isActive?: boolean;
+  createdBy?: string;
+}
+
+/**
+ * Promotion update data interface
+ */
+export interface UpdatePromotionData {
+  name?: string;
+  description?: string | null;
+  type?: PromotionType;
+  value?: string;
+  scope?: PromotionScope;
+  productId?: string | null;
+  category?: string | null;
+  startDate?: Date;
+  endDate?: Date;
+  priority?: number;
+  minAmount?: string | null;
+  maxDiscount?: string | null;
+  usageLimit?: number | null;
+  isActive?: boolean;
+}
+
+/**
+ * Promotion filters interface
+ */
+export interface PromotionFilters extends BaseFilters {
+  isActive?: boolean;
+  status?: 'current' | 'scheduled' | 'expired';
+  scope?: PromotionScope;
+  productId?: string;
+  search?: string;
+}
+
+/**
+ * Result of applying promotions to a single line amount
+ */
+export interface LinePromotionResult {
+  discount: number;
+  promotionIds: string[];
+}
+
+/**
+ * Promotion service class containing all promotion-related business logic
+ */
+export class PromotionService {
+  /**
+   * Find all promotions with optional filtering
+   */
+  async findAll(filters: PromotionFilters = {}): Promise<Promotion[]> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'priority',
+      sortOrder = 'desc'
+    } = filters;
+
+    const whereCondition = this.buildWhereCondition(filters);
+
+    // Determine sort order
+    const sortColumns: Record<string, AnyColumn> = {
+      name: promotions.name,
+      startDate: promotions.startDate,
+      endDate: promotions.endDate,
+      createdAt: promotions.createdAt,
+      priority: promotions.priority
+    };
+    const sortColumn = sortColumns[sortBy] ?? promotions.priority;
+    const orderBy = sortOrder === 'desc' ? desc(sortColumn) : asc(sortColumn);
+
+    // Apply pagination
+    const offset = (page - 1) * limit;
+
+    const result = await db
+      .select()
+      .from(promotions)
+      .where(whereCondition)
+      .orderBy(orderBy, asc(promotions.name))
+      .limit(limit)
+      .offset(offset);
+
+    return result;
+  }
+
+  /**
+   * Count total promotions with filters
+   */
+  async count(filters: PromotionFilters = {}): Promise<number> {
+    const whereCondition = this.buildWhereCondition(filters);
+
+    const result = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(promotions)
+      .where(whereCondition);
+
+    return result[0]?.count || 0;
+  }
+
+  /**
+   * Find promotion by ID
+   */
+  async findById(id: string): Promise<Promotion | null> {
+    const result = await db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.id, id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new promotion
+   */
+  async create(data: CreatePromotionData): Promise<Promotion> {
+    const scope = data.scope || 'all';
+
+    await this.validateTarget(scope, data.productId, data.category);
+    this.validateDateWindow(data.startDate, data.endDate);
+
+    const result = await db
+      .insert(promotions)
+      .values({
+        name: data.name.trim(),
+        description: data.description || null,
+        type: data.type,
+        value: data.value,
+        scope,
+        productId: scope === 'product' ? data.productId || null : null,
+        category: scope === 'category' ? data.category?.trim() || null : null,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        priority: data.priority ?? 0,
+        minAmount: data.minAmount || null,
+        maxDiscount: data.maxDiscount || null,
+        usageLimit: data.usageLimit ?? null,
+        isActive: data.isActive !== undefined ? data.isActive : true,
+        createdBy: data.createdBy || null
+      })
+      .returning();
+
+    this.invalidateCaches();
+
+    return result[0];
+  }
+
+  /**
+   * Update a promotion
+   */
+  async update(id: string, data: UpdatePromotionData): Promise<Promotion | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    // Validate the promotion as it will look after the update
+    const scope = data.scope ?? existing.scope;
+    const productId = data.productId !== undefined ? data.productId : existing.productId;
+    const category = data.category !== undefined ? data.category : existing.category;
+    const type = data.type ?? existing.type;
+    const value = data.value ?? existing.value;
+
+    await this.validateTarget(scope, productId, category);
+    this.validateDateWindow(data.startDate ?? existing.startDate, data.endDate ?? existing.endDate);
+
+    if (type === 'percentage' && parseFloat(value) > 100) {
+      throw new Error('Percentage promotions cannot exceed 100%');
+    }
+
+    const updateData: Partial<typeof promotions.$inferInsert> = {
+      updatedAt: new Date()
+    };
+
+    if (data.name !== undefined) updateData.name = data.name.trim();
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.type !== undefined) updateData.type = data.type;
+    if (data.value !== undefined) updateData.value = data.value;
+    if (data.startDate !== undefined) updateData.startDate = data.startDate;
+    if (data.endDate !== undefined) updateData.endDate = data.endDate;
+    if (data.priority !== undefined) updateData.priority = data.priority;
+    if (data.minAmount !== undefined) updateData.minAmount = data.minAmount || null;
+    if (data.maxDiscount !== undefined) updateData.maxDiscount = data.maxDiscount || null;
+    if (data.usageLimit !== undefined) updateData.usageLimit = data.usageLimit;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+    // Keep only the target that matches the scope
+    updateData.scope = scope;
+    updateData.productId = scope === 'product' ? productId : null;
+    updateData.category = scope === 'category' ? category : null;
+
+    const result = await db
+      .update(promotions)
+      .set(updateData)
+      .where(eq(promotions.id, id))
+      .returning();
+
+    this.invalidateCaches();
+
+    return result[0] || null;
+  }
+
+  /**
+   * Delete a promotion
+   */
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return false;
+    }
+
+    await db
+      .delete(promotions)
+      .where(eq(promotions.id, id));
+
+    this.invalidateCaches();
+
+    return true;
+  }
+
+  /**
+   * Find promotions currently applicable to a product
+   * A promotion applies when it is active, inside its date window, below its usage limit
+   * and targets all products, the given product or the product's category.
+   */
+  async findActiveForProduct(productId: string, category?: string | null): Promise<PromotionRule[]> {
+    const cacheKey = `product:${productId}:${category || ''}`;
+    const cached = promotionCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const now = new Date();
+
+    const targetConditions = [
+      eq(promotions.scope, 'all'),
+      and(eq(promotions.scope, 'product'), eq(promotions.productId, productId))
+    ];
+
+    if (category) {
+      targetConditions.push(and(eq(promotions.scope, 'category'), eq(promotions.category, category)));
+    }
+
+    const result = await db
+      .select()
+      .from(promotions)
+      .where(
+        and(
+          eq(promotions.isActive, true),
+          lte(promotions.startDate, now),
+          gte(promotions.endDate, now),
+          or(isNull(promotions.usageLimit), lt(promotions.usageCount, promotions.usageLimit)),
+          or(...targetConditions)
+        )
+      )
+      .orderBy(desc(promotions.priority), asc(promotions.createdAt));
+
+    const rules: PromotionRule[] = result.map(promotion => ({
+      id: promotion.id,
+      type: promotion.type,
+      value: parseFloat(promotion.value),
+      priority: promotion.priority,
+      minAmount: promotion.minAmount ? parseFloat(promotion.minAmount) : undefined,
+      maxDiscount: promotion.maxDiscount ? parseFloat(promotion.maxDiscount) : undefined
+    }));
+
+    promotionCache.set(cacheKey, rules);
+
+    return rules;
+  }
+
+  /**
+   * Calculate the promotional discount for a pre-sale line
+   */
+  async calculateLineDiscount(productId: string, amount: number): Promise<LinePromotionResult> {
+    if (amount <= 0) {
+      return { discount: 0, promotionIds: [] };
+    }
+
+    const product = await db
+      .select({ category: products.category })
+      .from(products)
+      .where(eq(products.id, productId))
+      .limit(1);
+
+    const rules = await this.findActiveForProduct(productId, product[0]?.category);
+    const { totalDiscount, applied } = applyPromotions(rules, amount);
+
+    return {
+      discount: totalDiscount,
+      promotionIds: applied.map(promotion => promotion.id)
+    };
+  }
+
+  /**
+   * Register one use of each promotion (called when a pre-sale is converted)
+   */
+  async registerUsage(promotionIds: string[], tx: ReservationExecutor = db): Promise<void> {
+    const uniqueIds = [...new Set(promotionIds)];
+    if (uniqueIds.length === 0) {
+      return;
+    }
+
+    await tx
+      .update(promotions)
+      .set({
+        usageCount: sql`${promotions.usageCount} + 1`,
+        updatedAt: new Date()
+      })
+      .where(inArray(promotions.id, uniqueIds));
+
+    this.invalidateCaches();
+  }
+
+  /**
+   * Build where condition from filters
+   */
+  private buildWhereCondition(filters: PromotionFilters) {
+    const { isActive, status, scope, productId, search } = filters;
+    const now = new Date();
+
+    const conditions = [];
+
+    if (isActive !== undefined) {
+      conditions.push(eq(promotions.isActive, isActive));
+    }
+
+    if (status === 'current') {
+      conditions.push(lte(promotions.startDate, now), gte(promotions.endDate, now));
+    } else if (status === 'scheduled') {
+      conditions.push(gt(promotions.startDate, now));
+    } else if (status === 'expired') {
+      conditions.push(lt(promotions.endDate, now));
+    }
+
+    if (scope) {
+      conditions.push(eq(promotions.scope, scope));
+    }
+
+    if (productId) {
+      conditions.push(eq(promotions.productId, productId));
+    }
+
+    // Global search across name, description and category
+    if (search) {
+      const searchTerm = `%${search}%`;
+      conditions.push(
+        sql`(${ilike(promotions.name, searchTerm)} OR ${ilike(promotions.description, searchTerm)} OR ${ilike(promotions.category, searchTerm)})`
+      );
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  /**
+   * Validate that the promotion target matches its scope
+   */
+  private async validateTarget(scope: PromotionScope, productId?: string | null, category?: string | null): Promise<void> {
+    if (scope === 'product') {
+      if (!productId) {
+        throw new Error('Product is required for product promotions');
+      }
+
+      const product = await db
+        .select({ id: products.id })
+        .from(products)
+        .where(eq(products.id, productId))
+        .limit(1);
+
+      if (product.length === 0) {
+        throw new Error('Product not found');
+      }
+    }
+
+    if (scope === 'category' && !category) {
+      throw new Error('Category is required for category promotions');
+    }
+  }
+
+  /**
+   * Validate the promotion date window
+   */
+  private validateDateWindow(startDate: Date, endDate: Date): void {
+    if (endDate <= startDate) {
+      throw new Error('End date must be after start date');
+    }
+  }
+
+  /**
+   * Drop cached promotions and price calculations that may include them
+   */
+  private invalidateCaches(): void {
+    promotionCache.clear();
+    calculationCache.clear();
+  }
+}
+
+// Export singleton instance
+export const promotionService = new PromotionService();
@@ -0,0 +1,700 @@
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { purchaseOrders, purchaseOrderItems } from '../db/schema/purchase-orders';
+import { suppliers } from '../db/schema/suppliers';
+import { products } from '../db/schema/products';
+import { stockAdjustments } from '../db/schema/stock-adjustments';
+import type { BaseFilters } from '../types/common.types';
+import { productService } from './products.service';
+import { settingsService } from './settings.service';
+import { auditLogService, type AuditContext } from './audit-logs.service';
+import type { AuditValue } from '../utils/audit-diff';
+import { applyStockChange, normalizeStockQuantity, type StockAlertSeverity } from '../utils/stock-calculations';
+import {
+  calculatePurchaseOrderTotal,
+  calculateSuggestedOrderQuantity,
+  getOutstandingQuantity,
+  getReceivingStatus
+} from '../utils/purchasing-calculations';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Purchase order status
+ */
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+/**
+ * Purchase order entity interface
+ */
+export interface PurchaseOrder {
+  id: string;
+  number: number;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  expectedDate: string | null;
+  total: string;
+  notes: string | null;
+  createdBy: string | null;
+  orderedAt: Date | null;
+  receivedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Purchase order line with its product
+ */
+export interface PurchaseOrderItem {
+  id: string;
+  purchaseOrderId: string;
+  productId: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: string;
+  product: {
+    id: string;
+    code: string;
+    name: string;
+    unit: string;
+    saleType: string;
+  };
+}
+
+/**
+ * Stock entry created by receiving a purchase order
+ */
+export interface PurchaseOrderReceipt {
+  id: string;
+  productId: string;
+  quantity: number;
+  reason: string;
+  userName: string;
+  createdAt: Date;
+}
+
+/**
+ * Purchase order as listed, with its supplier
+ */
+export interface PurchaseOrderSummary extends PurchaseOrder {
+  supplier: {
+    id: string;
+    name: string;
+  };
+  itemCount: number;
+}
+
+/**
+ * Purchase order with its lines and receipts
+ */
+export interface PurchaseOrderWithDetails extends PurchaseOrderSummary {
+  items: PurchaseOrderItem[];
+  receipts: PurchaseOrderReceipt[];
+}
+
+/**
+ * Purchase order line data
+ */
+export interface PurchaseOrderItemData {
+  productId: string;
+  quantity: number;
+  unitCost: string;
+}
+
+/**
+ * Purchase order creation data interface
+ */
+export interface CreatePurchaseOrderData {
+  supplierId: string;
+  expectedDate?: string | null;
+  notes?: string | null;
+  items: PurchaseOrderItemData[];
+}
+
+/**
+ * Purchase order update data interface, the lines given replace the current ones
+ */
+export type UpdatePurchaseOrderData = Partial<CreatePurchaseOrderData>;
+
+/**
+ * Quantities received for the lines of a purchase order
+ */
+export interface ReceivePurchaseOrderData {
+  items: Array<{
+    itemId: string;
+    quantity: number;
+  }>;
+  notes?: string | null;
+}
+
+/**
+ * Purchase order filters interface
+ */
+export interface PurchaseOrderFilters extends BaseFilters {
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+}
+
+/**
+ * Product suggested for a purchase order because it reached its reorder point
+ */
+export interface PurchaseOrderSuggestion {
+  productId: string;
+  code: string;
+  name: string;
+  unit: string;
+  saleType: string;
+  availableStock: number;
+  onOrder: number;
+  reorderPoint: number | null;
+  maxStock: number | null;
+  severity: StockAlertSeverity;
+  suggestedQuantity: number;
+  unitCost: string;
+  lastSupplier: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+/**
+ * Statuses whose outstanding lines are still expected to arrive
+ */
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'ordered', 'partially_received'];
+
+/**
+ * Purchase order service class containing purchasing and goods receiving logic
+ */
+export class PurchaseOrderService {
+  /**
+   * Find all purchase orders with optional filtering, newest first
+   */
+  async findAll(filters: PurchaseOrderFilters = {}): Promise<PurchaseOrderSummary[]> {
+    const { page = 1, limit = 20 } = filters;
+
+    const result = await db
+      .select({
+        order: purchaseOrders,
+        supplierName: suppliers.name,
+        itemCount: sql<number>`(
+          select count(*)::int from ${purchaseOrderItems}
+          where ${purchaseOrderItems.purchaseOrderId} = ${purchaseOrders.id}
+        )`
+      })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(this.buildWhereCondition(filters))
+      .orderBy(desc(purchaseOrders.number))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return result.map(row => ({
+      ...row.order,
+      supplier: { id: row.order.supplierId, name: row.supplierName },
+      itemCount: row.itemCount
+    }));
+  }
+
+  /**
+   * Count purchase orders with filters
+   */
+  async count(filters: PurchaseOrderFilters = {}): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(purchaseOrders)
+      .where(this.buildWhereCondition(filters));
+
+    return result[0]?.count || 0;
+  }
+
+  /**
+   * Find a purchase order with its lines and receipts
+   */
+  async findById(id: string, executor: typeof db | Transaction = db): Promise<PurchaseOrderWithDetails | null> {
+    const result = await executor
+      .select({ order: purchaseOrders, supplierName: suppliers.name })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(eq(purchaseOrders.id, id))
+      .limit(1);
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    const items = await executor
+      .select({
+        item: purchaseOrderItems,
+        product: {
+          id: products.id,
+          code: products.code,
+          name: products.name,
+          unit: products.unit,
+          saleType: products.saleType
+        }
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(products, eq(purchaseOrderItems.productId, products.id))
+      .where(eq(purchaseOrderItems.purchaseOrderId, id))
+      .orderBy(asc(products.name));
+
+    const receipts = await executor
+      .select({
+        id: stockAdjustments.id,
+        productId: stockAdjustments.productId,
+        quantity: stockAdjustments.quantity,
+        reason: stockAdjustments.reason,
+        userName: stockAdjustments.userName,
+        createdAt: stockAdjustments.createdAt
+      })
+      .from(stockAdjustments)
+      .where(eq(stockAdjustments.purchaseOrderId, id))
+      .orderBy(desc(stockAdjustments.createdAt));
+
+    const { order, supplierName } = result[0];
+
+    return {
+      ...order,
+      supplier: { id: order.supplierId, name: supplierName },
+      itemCount: items.length,
+      items: items.map(row => ({ ...row.item, product: row.product })),
+      receipts
+    };
+  }
+
+  /**
+   * Create a draft purchase order
+   */
+  async create(data: CreatePurchaseOrderData, userId?: string): Promise<PurchaseOrderWithDetails> {
+    await this.validateSupplier(data.supplierId);
+    const items = await this.prepareItems(data.items);
+
+    const id = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .insert(purchaseOrders)
+        .values({
+          supplierId: data.supplierId,
+          status: 'draft',
+          expectedDate: data.expectedDate || null,
+          notes: data.notes || null,
+          total: calculatePurchaseOrderTotal(items).toFixed(2),
+          createdBy: userId || null
+        })
+        .returning({ id: purchaseOrders.id });
+
+      await tx
+        .insert(purchaseOrderItems)
+        .values(items.map(item => ({ ...item, purchaseOrderId: order.id })));
+
+      return order.id;
+    });
+
+    return this.getOrThrow(id);
+  }
+
+  /**
+   * Update a draft purchase order
+   */
+  async update(id: string, data: UpdatePurchaseOrderData): Promise<PurchaseOrderWithDetails> {
+    const existing = await this.getOrThrow(id);
+
+    if (existing.status !== 'draft') {
+      throw new Error('Only draft purchase orders can be edited');
+    }
+
+    if (data.supplierId !== undefined && data.supplierId !== existing.supplierId) {
+      await this.validateSupplier(data.supplierId);
+    }
+
+    const items = data.items ? await this.prepareItems(data.items) : null;
+
+    await db.transaction(async (tx) => {
+      const updateData: Partial<typeof purchaseOrders.$inferInsert> = {
+        updatedAt: new Date()
+      };
+
+      if (data.supplierId !== undefined) updateData.supplierId = data.supplierId;
+      if (data.expectedDate !== undefined) updateData.expectedDate = data.expectedDate || null;
+      if (data.notes !== undefined) updateData.notes = data.notes || null;
+
+      if (items) {
+        updateData.total = calculatePurchaseOrderTotal(items).toFixed(2);
+
+        await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+        await tx
+          .insert(purchaseOrderItems)
+          .values(items.map(item => ({ ...item, purchaseOrderId: id })));
+      }
+
+      await tx.update(purchaseOrders).set(updateData).where(eq(purchaseOrders.id, id));
+    });
+
+    return this.getOrThrow(id);
+  }
+
+  /**
+   * Place or cancel a purchase order
+   * Receiving moves the order to partially received or received. Cancelling keeps what was already received.
+   */
+  async updateStatus(id: string, status: 'ordered' | 'cancelled'): Promise<PurchaseOrderWithDetails> {
+    const existing = await this.getOrThrow(id);
+
+    const validTransitions: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+      draft: ['ordered', 'cancelled'],
+      ordered: ['cancelled'],
+      partially_received: ['cancelled'],
+      received: [],
+      cancelled: []
+    };
+
+    if (!validTransitions[existing.status].includes(status)) {
+      throw new Error(`Invalid status transition from ${existing.status} to ${status}`);
+    }
+
+    await db
+      .update(purchaseOrders)
+      .set({
+        status,
+        orderedAt: status === 'ordered' ? new Date() : existing.orderedAt,
+        updatedAt: new Date()
+      })
+      .where(eq(purchaseOrders.id, id));
+
+    return this.getOrThrow(id);
+  }
+
+  /**
+   * Delete a draft purchase order
+   */
+  async delete(id: string): Promise<PurchaseOrderWithDetails | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.status !== 'draft') {
+      throw new Error('Only draft purchase orders can be deleted, cancel it instead');
+    }
+
+    await db.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+
+    return existing;
+  }
+
+  /**
+   * Receive quantities of the lines of an ordered purchase order
+   * Each line raises the product stock through a stock adjustment linked to the order and sets the product
+   * purchase price to the line cost. Lines can be received in parts until their ordered quantity.
+   */
+  async receive(id: string, data: ReceivePurchaseOrderData, context: AuditContext): Promise<PurchaseOrderWithDetails> {
+    const productChanges: Array<{
+      productId: string;
+      code: string;
+      before: { stock: number; purchasePrice: string };
+      after: { stock: number; purchasePrice: string };
+    }> = [];
+
+    await db.transaction(async (tx) => {
+      // Lock the order so two receipts of the same lines cannot interleave
+      const locked = await tx
+        .select({ id: purchaseOrders.id })
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for('update')
+        .limit(1);
+
+      if (locked.length === 0) {
+        throw new Error('Purchase order not found');
+      }
+
+      const order = await this.findById(id, tx);
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+
+      if (order.status !== 'ordered' && order.status !== 'partially_received') {
+        throw new Error('Only ordered purchase orders can be received');
+      }
+
+      const receivedItems = new Set<string>();
+
+      for (const line of data.items) {
+        const item = order.items.find(candidate => candidate.id === line.itemId);
+        if (!item) {
+          throw new Error(`Purchase order item not found: ${line.itemId}`);
+        }
+
+        if (receivedItems.has(item.id)) {
+          throw new Error(`Purchase order item received twice: ${item.product.code}`);
+        }
+        receivedItems.add(item.id);
+
+        const quantity = normalizeStockQuantity(line.quantity, item.product);
+        if (quantity <= 0) {
+          throw new Error(`Invalid received quantity for product ${item.product.code}: ${line.quantity}`);
+        }
+
+        const outstanding = getOutstandingQuantity(item);
+        if (quantity > outstanding) {
+          throw new Error(
+            `Received quantity exceeds the outstanding quantity of product ${item.product.code}. ` +
+            `Outstanding: ${outstanding}, received: ${quantity}`
+          );
+        }
+
+        item.receivedQuantity = applyStockChange(item.receivedQuantity, quantity);
+        await tx
+          .update(purchaseOrderItems)
+          .set({ receivedQuantity: item.receivedQuantity })
+          .where(eq(purchaseOrderItems.id, item.id));
+
+        // Lock the product, a pre-sale conversion may be moving its stock
+        const [product] = await tx
+          .select({ stock: products.stock, purchasePrice: products.purchasePrice })
+          .from(products)
+          .where(eq(products.id, item.productId))
+          .for('update')
+          .limit(1);
+
+        const newStock = applyStockChange(product.stock, quantity);
+
+        await tx
+          .update(products)
+          .set({ stock: newStock, purchasePrice: item.unitCost, updatedAt: new Date() })
+          .where(eq(products.id, item.productId));
+
+        await tx
+          .insert(stockAdjustments)
+          .values({
+            productId: item.productId,
+            adjustmentType: 'add',
+            quantity,
+            previousStock: product.stock,
+            newStock,
+            reason: data.notes
+              ? `Recebimento do pedido de compra #${order.number}: ${data.notes}`
+              : `Recebimento do pedido de compra #${order.number}`,
+            purchaseOrderId: id,
+            userId: context.userId || null,
+            userName: context.userName,
+            ipAddress: context.ipAddress || null,
+            userAgent: context.userAgent || null
+          });
+
+        productChanges.push({
+          productId: item.productId,
+          code: item.product.code,
+          before: { stock: product.stock, purchasePrice: product.purchasePrice },
+          after: { stock: newStock, purchasePrice: item.unitCost }
+        });
+      }
+
+      const status = getReceivingStatus(order.items);
+
+      await tx
+        .update(purchaseOrders)
+        .set({
+          status,
+          receivedAt: status === 'received' ? new Date() : null,
+          updatedAt: new Date()
+        })
+        .where(eq(purchaseOrders.id, id));
+    });
+
+    productService.clearCachedProducts(productChanges.map(change => change.productId));
+
+    for (const change of productChanges) {
+      try {
+        await auditLogService.logMutation(
+          context,
+          'product',
+          change.productId,
+          change.before,
+          change.after,
+          `Received ${applyStockChange(change.after.stock, -change.before.stock)} of product ${change.code} from a purchase order`
+        );
+      } catch (auditError) {
+        console.error('Failed to create audit log:', auditError);
+      }
+    }
+
+    return this.getOrThrow(id);
+  }
+
+  /**
+   * Products at or below their reorder point with the quantity to order
+   * What is already on open purchase orders counts as stock, so a product is not suggested twice. The unit cost and
+   * supplier come from the last order of the product, the cost falls back to its purchase price.
+   */
+  async getSuggestions(): Promise<PurchaseOrderSuggestion[]> {
+    const { lowStockThreshold } = await settingsService.get();
+    const lowStock = await productService.findLowStock({ threshold: lowStockThreshold, limit: 500 });
+
+    if (lowStock.length === 0) {
+      return [];
+    }
+
+    const productIds = lowStock.map(product => product.id);
+
+    const onOrderRows = await db
+      .select({
+        productId: purchaseOrderItems.productId,
+        onOrder: sql<string>`sum(${purchaseOrderItems.quantity} - ${purchaseOrderItems.receivedQuantity})`
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .where(and(inArray(purchaseOrderItems.productId, productIds), inArray(purchaseOrders.status, OPEN_STATUSES)))
+      .groupBy(purchaseOrderItems.productId);
+
+    const lastOrderRows = await db
+      .selectDistinctOn([purchaseOrderItems.productId], {
+        productId: purchaseOrderItems.productId,
+        unitCost: purchaseOrderItems.unitCost,
+        supplierId: suppliers.id,
+        supplierName: suppliers.name
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(inArray(purchaseOrderItems.productId, productIds))
+      .orderBy(purchaseOrderItems.productId, desc(purchaseOrders.createdAt));
+
+    const onOrder = new Map(onOrderRows.map(row => [row.productId, Number(row.onOrder)]));
+    const lastOrders = new Map(lastOrderRows.map(row => [row.productId, row]));
+
+    const suggestions: PurchaseOrderSuggestion[] = [];
+    for (const product of lowStock) {
+      const available = product.availableStock ?? product.stock;
+      const productOnOrder = onOrder.get(product.id) || 0;
+      const suggestedQuantity = calculateSuggestedOrderQuantity(
+        applyStockChange(available, productOnOrder),
+        product,
+        lowStockThreshold,
+        product
+      );
+
+      if (suggestedQuantity <= 0) {
+        continue;
+      }
+
+      const lastOrder = lastOrders.get(product.id);
+      suggestions.push({
+        productId: product.id,
+        code: product.code,
+        name: product.name,
+        unit: product.unit,
+        saleType: product.saleType,
+        availableStock: available,
+        onOrder: productOnOrder,
+        reorderPoint: product.reorderPoint,
+        maxStock: product.maxStock,
+        severity: product.severity,
+        suggestedQuantity,
+        unitCost: lastOrder?.unitCost ?? product.purchasePrice,
+        lastSupplier: lastOrder ? { id: lastOrder.supplierId, name: lastOrder.supplierName } : null
+      });
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Flatten a purchase order for the audit trail, with one line per item
+   */
+  toAuditSnapshot(order: PurchaseOrderWithDetails): Record<string, AuditValue> {
+    return {
+      number: order.number,
+      supplier: order.supplier.name,
+      status: order.status,
+      expectedDate: order.expectedDate,
+      total: order.total,
+      notes: order.notes,
+      items: order.items
+        .map(item => `${item.product.code} x ${item.quantity} @ ${item.unitCost} (${item.receivedQuantity} received)`)
+        .join('; ')
+    };
+  }
+
+  /**
+   * Private method to load a purchase order that must exist
+   */
+  private async getOrThrow(id: string): Promise<PurchaseOrderWithDetails> {
+    const order = await this.findById(id);
+    if (!order) {
+      throw new Error('Purchase order not found');
+    }
+    return order;
+  }
+
+  /**
+   * Private method to build the filter conditions shared by findAll and count
+   */
+  private buildWhereCondition(filters: PurchaseOrderFilters) {
+    const conditions = [];
+
+    if (filters.status) {
+      conditions.push(eq(purchaseOrders.status, filters.status));
+    }
+
+    if (filters.supplierId) {
+      conditions.push(eq(purchaseOrders.supplierId, filters.supplierId));
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  /**
+   * Private method to check that orders can be placed with a supplier
+   */
+  private async validateSupplier(supplierId: string): Promise<void> {
+    const result = await db
+      .select({ isActive: suppliers.isActive })
+      .from(suppliers)
+      .where(eq(suppliers.id, supplierId))
+      .limit(1);
+
+    if (result.length === 0) {
+      throw new Error('Supplier not found');
+    }
+
+    if (!result[0].isActive) {
+      throw new Error('Supplier is inactive');
+    }
+  }
+
+  /**
+   * Private method to validate the lines of an order against their products
+   * Quantities follow the unit rules of each product and a product appears in one line only.
+   */
+  private async prepareItems(items: PurchaseOrderItemData[]): Promise<PurchaseOrderItemData[]> {
+    const productIds = items.map(item => item.productId);
+
+    if (new Set(productIds).size !== productIds.length) {
+      throw new Error('Each product can appear only once in a purchase order');
+    }
+
+    const found = await db
+      .select({ id: products.id, code: products.code, unit: products.unit, saleType: products.saleType })
+      .from(products)
+      .where(inArray(products.id, productIds));
+
+    const productsById = new Map(found.map(product => [product.id, product]));
+
+    return items.map(item => {
+      const product = productsById.get(item.productId);
+      if (!product) {
+        throw new Error(`Product not found: ${item.productId}`);
+      }
+
+      const quantity = normalizeStockQuantity(item.quantity, product);
+      if (quantity <= 0) {
+        throw new Error(`Invalid quantity for product ${product.code}: ${item.quantity}`);
+      }
+
+      return { productId: item.productId, quantity, unitCost: item.unitCost };
+    });
+  }
+}
+
+// Export singleton instance
+export const purchaseOrderService = new PurchaseOrderService();
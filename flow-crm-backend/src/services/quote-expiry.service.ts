@@ -0,0 +1,91 @@
+import { env } from '../config/environment';
+import { IntervalJob } from '../utils/interval-job';
+import { preSalesService } from './presales.service';
+
+/**
+ * Status of the quote expiry job, exposed by the monitoring routes
+ */
+export interface QuoteExpiryStatus {
+  enabled: boolean;
+  intervalHours: number;
+  running: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastExpiredCount: number;
+  lastError: string | null;
+}
+
+/**
+ * Quote expiry service class
+ * Moves the open pre-sales past their validity to expired on a fixed interval,
+ * so old quotes stop showing up as pending and stop holding reserved stock.
+ */
+export class QuoteExpiryService {
+  private readonly scheduler = new IntervalJob({
+    run: () => this.expireOverdue(),
+    intervalMs: env.QUOTE_EXPIRY_INTERVAL_HOURS * 60 * 60 * 1000,
+    firstRunDelayMs: 30 * 1000
+  });
+  private status: Pick<QuoteExpiryStatus, 'lastRunAt' | 'lastSuccessAt' | 'lastExpiredCount' | 'lastError'> = {
+    lastRunAt: null,
+    lastSuccessAt: null,
+    lastExpiredCount: 0,
+    lastError: null
+  };
+
+  /**
+   * Start running the job on the configured interval
+   */
+  start(): void {
+    if (env.QUOTE_EXPIRY_ENABLED) {
+      this.scheduler.start();
+    }
+  }
+
+  /**
+   * Stop running the job
+   */
+  stop(): void {
+    this.scheduler.stop();
+  }
+
+  /**
+   * Expire the overdue quotes once, unless a run is already in progress
+   */
+  async run(): Promise<void> {
+    await this.scheduler.run();
+  }
+
+  /**
+   * Status of the scheduler and of its last run
+   */
+  getStatus(): QuoteExpiryStatus {
+    return {
+      enabled: env.QUOTE_EXPIRY_ENABLED,
+      intervalHours: env.QUOTE_EXPIRY_INTERVAL_HOURS,
+      running: this.scheduler.isRunning(),
+      nextRunAt: this.scheduler.getNextRunAt(),
+      ...this.status
+    };
+  }
+
+  /**
+   * Failures are recorded in the status, the next run tries again
+   */
+  private async expireOverdue(): Promise<void> {
+    this.status.lastRunAt = new Date();
+
+    try {
+      this.status.lastExpiredCount = await preSalesService.expireOverdue();
+      this.status.lastSuccessAt = new Date();
+      this.status.lastError = null;
+    } catch (error) {
+      console.error('Quote expiry job failed:', error);
+      this.status.lastError = error instanceof Error ? error.message : 'Quote expiry job failed';
+    }
+  }
+}
+
+// Export singleton instance
+export const quoteExpiryService = new QuoteExpiryService();
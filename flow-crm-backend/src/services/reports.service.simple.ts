@@ -1,8 +1,8 @@
-import { eq, and, gte, lte, sql, desc } from 'drizzle-orm';
+import { eq, and, sql, desc } from 'drizzle-orm';
 import { db } from '../db/connection';
 import { preSales } from '../db/schema/presales';
 import { paymentMethods } from '../db/schema/payment-methods';
-import type { ReportFilters, PaymentMethodReportData, ReportSummary } from './reports.service';
+import { convertedWithin, type ReportFilters, type PaymentMethodReportData, type ReportSummary } from './reports.service';
 
 /**
  * Simplified reports service for debugging
@@ -71,10 +71,7 @@ export class SimpleReportsService {
 
                     // Add date range filter if provided
                     if (filters?.dateRange) {
-                        conditions.push(
-                            gte(preSales.createdAt, filters.dateRange.startDate),
-                            lte(preSales.createdAt, filters.dateRange.endDate)
-                        );
+                        conditions.push(convertedWithin(filters.dateRange));
                     }
 
                     // Get aggregated data for this payment method using LEFT JOIN
@@ -87,10 +84,7 @@ export class SimpleReportsService {
                         .leftJoin(preSales, and(
                             eq(paymentMethods.id, preSales.paymentMethodId),
                             eq(preSales.status, 'converted'),
-                            ...(filters?.dateRange ? [
-                                gte(preSales.createdAt, filters.dateRange.startDate),
-                                lte(preSales.createdAt, filters.dateRange.endDate)
-                            ] : [])
+                            ...(filters?.dateRange ? [convertedWithin(filters.dateRange)] : [])
                         ))
                         .where(eq(paymentMethods.id, pm.id))
                         .limit(1);
@@ -163,10 +157,7 @@ export class SimpleReportsService {
 
             // Add date range filter if provided
             if (filters?.dateRange) {
-                conditions.push(
-                    gte(preSales.createdAt, filters.dateRange.startDate),
-                    lte(preSales.createdAt, filters.dateRange.endDate)
-                );
+                conditions.push(convertedWithin(filters.dateRange));
             }
 
             // Add payment method filter if provided
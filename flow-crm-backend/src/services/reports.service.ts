@@ -1,6 +1,6 @@
-import { eq, and, gte, lte, sql, desc } from 'drizzle-orm';
+import { eq, and, gte, lte, sql, desc, inArray } from 'drizzle-orm';
 import { db } from '../db/connection';
-import { preSales } from '../db/schema/presales';
+import { preSales, preSaleStatusHistory } from '../db/schema/presales';
 import { paymentMethods } from '../db/schema/payment-methods';
 
 /**
@@ -46,6 +46,24 @@ export interface ReportSummary {
     };
 }
 
+/**
+ * Condition matching the pre-sales converted within a date range
+ * Sales are counted on the day they were converted, taken from the status history, not on the day the quote was created
+ */
+export function convertedWithin(dateRange: NonNullable<ReportFilters['dateRange']>) {
+    return inArray(
+        preSales.id,
+        db
+            .select({ preSaleId: preSaleStatusHistory.preSaleId })
+            .from(preSaleStatusHistory)
+            .where(and(
+                eq(preSaleStatusHistory.toStatus, 'converted'),
+                gte(preSaleStatusHistory.changedAt, dateRange.startDate),
+                lte(preSaleStatusHistory.changedAt, dateRange.endDate)
+            ))
+    );
+}
+
 /**
  * Reports service class containing all reports-related business logic
  */
@@ -63,10 +81,7 @@ export class ReportsService {
 
             // Add date range filter if provided
             if (filters?.dateRange) {
-                conditions.push(
-                    gte(preSales.createdAt, filters.dateRange.startDate),
-                    lte(preSales.createdAt, filters.dateRange.endDate)
-                );
+                conditions.push(convertedWithin(filters.dateRange));
             }
 
             // Add payment method filter if provided
@@ -94,10 +109,7 @@ export class ReportsService {
                     and(
                         eq(paymentMethods.id, preSales.paymentMethodId),
                         eq(preSales.status, 'converted'),
-                        ...(filters?.dateRange ? [
-                            gte(preSales.createdAt, filters.dateRange.startDate),
-                            lte(preSales.createdAt, filters.dateRange.endDate)
-                        ] : [])
+                        ...(filters?.dateRange ? [convertedWithin(filters.dateRange)] : [])
                     )
                 )
                 .where(
@@ -151,10 +163,7 @@ export class ReportsService {
 
             // Add date range filter if provided
             if (filters?.dateRange) {
-                conditions.push(
-                    gte(preSales.createdAt, filters.dateRange.startDate),
-                    lte(preSales.createdAt, filters.dateRange.endDate)
-                );
+                conditions.push(convertedWithin(filters.dateRange));
             }
 
             // Add payment method filter if provided
@@ -0,0 +1,301 @@
+import { mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { asc, inArray, lt } from 'drizzle-orm';
+import { env } from '../config/environment';
+import { db } from '../db/connection';
+import { auditLogs } from '../db/schema/audit-logs';
+import { stockAdjustments } from '../db/schema/stock-adjustments';
+import { IntervalJob } from '../utils/interval-job';
+import { readNdjsonArchive, writeNdjsonArchive } from '../utils/ndjson-archive';
+
+type Executor = Pick<typeof db, 'select' | 'insert' | 'delete'>;
+
+/**
+ * Row of a table with retention, every one has an ID and a creation date
+ */
+interface RetainedRow {
+  id: string;
+  createdAt: Date;
+}
+
+/**
+ * Table whose expired rows are archived and deleted
+ */
+interface RetentionJob {
+  name: string;
+  daysToKeep: number;
+  findExpired(cutoff: Date, limit: number, offset: number): Promise<RetainedRow[]>;
+  deleteByIds(ids: string[], executor: Executor): Promise<void>;
+  restore(rows: Record<string, unknown>[]): Promise<number>;
+}
+
+/**
+ * Status of a retention job, exposed by the monitoring routes
+ */
+export interface RetentionJobStatus {
+  name: string;
+  daysToKeep: number;
+  running: boolean;
+  lastRunAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastArchivedRows: number;
+  lastArchiveFile: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Status of the retention scheduler and its jobs
+ */
+export interface RetentionStatus {
+  enabled: boolean;
+  intervalHours: number;
+  archiveDir: string;
+  nextRunAt: Date | null;
+  jobs: RetentionJobStatus[];
+}
+
+/**
+ * Rows read per query while archiving and deleted per statement
+ */
+const BATCH_SIZE = 1000;
+
+/**
+ * Rows archived by one run of a job, the rest waits for the next run
+ */
+const MAX_ROWS_PER_RUN = 100000;
+
+const ARCHIVE_EXTENSION = '.ndjson.gz';
+
+// Archives store dates as ISO strings
+const reviveDates = (row: Record<string, unknown>) => ({
+  ...row,
+  createdAt: new Date(row.createdAt as string)
+});
+
+const RETENTION_JOBS: RetentionJob[] = [
+  {
+    name: 'audit_logs',
+    daysToKeep: env.AUDIT_LOG_RETENTION_DAYS,
+    findExpired: (cutoff, limit, offset) =>
+      db
+        .select()
+        .from(auditLogs)
+        .where(lt(auditLogs.createdAt, cutoff))
+        .orderBy(asc(auditLogs.createdAt), asc(auditLogs.id))
+        .limit(limit)
+        .offset(offset),
+    deleteByIds: async (ids, executor) => {
+      await executor.delete(auditLogs).where(inArray(auditLogs.id, ids));
+    },
+    restore: async (rows) => {
+      const restored = await db
+        .insert(auditLogs)
+        .values(rows.map(reviveDates) as (typeof auditLogs.$inferInsert)[])
+        .onConflictDoNothing()
+        .returning({ id: auditLogs.id });
+      return restored.length;
+    }
+  },
+  {
+    name: 'stock_adjustments',
+    daysToKeep: env.STOCK_ADJUSTMENT_RETENTION_DAYS,
+    findExpired: (cutoff, limit, offset) =>
+      db
+        .select()
+        .from(stockAdjustments)
+        .where(lt(stockAdjustments.createdAt, cutoff))
+        .orderBy(asc(stockAdjustments.createdAt), asc(stockAdjustments.id))
+        .limit(limit)
+        .offset(offset),
+    deleteByIds: async (ids, executor) => {
+      await executor.delete(stockAdjustments).where(inArray(stockAdjustments.id, ids));
+    },
+    restore: async (rows) => {
+      const restored = await db
+        .insert(stockAdjustments)
+        .values(rows.map(reviveDates) as (typeof stockAdjustments.$inferInsert)[])
+        .onConflictDoNothing()
+        .returning({ id: stockAdjustments.id });
+      return restored.length;
+    }
+  }
+];
+
+/**
+ * Split a list in chunks of at most `size` items
+ */
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+};
+
+/**
+ * Retention service class
+ * Runs in the server process on a fixed interval. Expired rows are written to a compressed NDJSON archive on
+ * local disk and only deleted once the archive is complete; `restore` loads an archive back into its table.
+ */
+export class RetentionService {
+  private readonly statuses = new Map<string, RetentionJobStatus>(
+    RETENTION_JOBS.map(job => [
+      job.name,
+      {
+        name: job.name,
+        daysToKeep: job.daysToKeep,
+        running: false,
+        lastRunAt: null,
+        lastSuccessAt: null,
+        lastArchivedRows: 0,
+        lastArchiveFile: null,
+        lastError: null
+      }
+    ])
+  );
+
+  private readonly scheduler = new IntervalJob({
+    run: () => this.runAll(),
+    intervalMs: env.RETENTION_INTERVAL_HOURS * 60 * 60 * 1000,
+    firstRunDelayMs: 60 * 1000
+  });
+
+  /**
+   * Start running the jobs on the configured interval
+   */
+  start(): void {
+    if (env.RETENTION_ENABLED) {
+      this.scheduler.start();
+    }
+  }
+
+  /**
+   * Stop running the jobs
+   */
+  stop(): void {
+    this.scheduler.stop();
+  }
+
+  /**
+   * Run every job once, one after the other
+   * A failing job is recorded in its status and does not stop the others.
+   */
+  async runAll(): Promise<void> {
+    for (const job of RETENTION_JOBS) {
+      const status = this.statuses.get(job.name);
+      if (!status || status.running) continue;
+
+      status.running = true;
+      status.lastRunAt = new Date();
+
+      try {
+        const { archivedRows, archiveFile } = await this.archiveExpired(job);
+        status.lastSuccessAt = new Date();
+        status.lastArchivedRows = archivedRows;
+        status.lastArchiveFile = archiveFile;
+        status.lastError = null;
+      } catch (error) {
+        console.error(`Retention job ${job.name} failed:`, error);
+        status.lastError = error instanceof Error ? error.message : 'Retention job failed';
+      } finally {
+        status.running = false;
+      }
+    }
+  }
+
+  /**
+   * Status of the scheduler and of each job
+   */
+  getStatus(): RetentionStatus {
+    return {
+      enabled: env.RETENTION_ENABLED,
+      intervalHours: env.RETENTION_INTERVAL_HOURS,
+      archiveDir: path.resolve(env.RETENTION_ARCHIVE_DIR),
+      nextRunAt: this.scheduler.getNextRunAt(),
+      jobs: Array.from(this.statuses.values(), status => ({ ...status }))
+    };
+  }
+
+  /**
+   * Load the rows of an archive back into its table, rows that still exist are skipped
+   * The table is identified by the archive file name.
+   */
+  async restore(filePath: string): Promise<{ job: string; restoredRows: number; skippedRows: number }> {
+    const fileName = path.basename(filePath);
+    const job = RETENTION_JOBS.find(candidate => fileName.startsWith(`${candidate.name}_`));
+
+    if (!job || !fileName.endsWith(ARCHIVE_EXTENSION)) {
+      throw new Error(`Not a retention archive: ${fileName}`);
+    }
+
+    let batch: Record<string, unknown>[] = [];
+    let restoredRows = 0;
+    let totalRows = 0;
+
+    for await (const row of readNdjsonArchive(filePath)) {
+      batch.push(row);
+      totalRows++;
+
+      if (batch.length === BATCH_SIZE) {
+        restoredRows += await job.restore(batch);
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      restoredRows += await job.restore(batch);
+    }
+
+    return { job: job.name, restoredRows, skippedRows: totalRows - restoredRows };
+  }
+
+  /**
+   * Archive the rows older than the retention period of a job, then delete them
+   */
+  private async archiveExpired(job: RetentionJob): Promise<{ archivedRows: number; archiveFile: string | null }> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - job.daysToKeep);
+
+    const firstBatch = await job.findExpired(cutoff, BATCH_SIZE, 0);
+    if (firstBatch.length === 0) {
+      return { archivedRows: 0, archiveFile: null };
+    }
+
+    const archiveDir = path.resolve(env.RETENTION_ARCHIVE_DIR);
+    const archiveFile = path.join(
+      archiveDir,
+      `${job.name}_${new Date().toISOString().replace(/[:.]/g, '-')}${ARCHIVE_EXTENSION}`
+    );
+    await mkdir(archiveDir, { recursive: true });
+
+    // Nothing is deleted while reading, so offsets stay stable
+    const ids: string[] = [];
+    async function* expiredRows(): AsyncGenerator<RetainedRow> {
+      let batch = firstBatch;
+      while (batch.length > 0) {
+        for (const row of batch) {
+          ids.push(row.id);
+          yield row;
+        }
+
+        if (batch.length < BATCH_SIZE || ids.length >= MAX_ROWS_PER_RUN) {
+          return;
+        }
+        batch = await job.findExpired(cutoff, BATCH_SIZE, ids.length);
+      }
+    }
+
+    const archivedRows = await writeNdjsonArchive(archiveFile, expiredRows());
+
+    await db.transaction(async (tx) => {
+      for (const idsChunk of chunk(ids, BATCH_SIZE)) {
+        await job.deleteByIds(idsChunk, tx);
+      }
+    });
+
+    return { archivedRows, archiveFile };
+  }
+}
+
+// Export singleton instance
+export const retentionService = new RetentionService();
@@ -0,0 +1,122 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { systemSettings } from '../db/schema/settings';
+import type { AuditValue } from '../utils/audit-diff';
+
+/**
+ * System settings entity interface
+ */
+export interface SystemSettings {
+  id: string;
+  companyName: string | null;
+  companyCnpj: string | null;
+  companyAddress: string | null;
+  companyLogo: string | null;
+  defaultMarkup: number;
+  lowStockThreshold: number;
+  productCodePrefix: string;
+  paymentMethodCodePrefix: string;
+  quoteValidityDays: number;
+  quoteTerms: string | null;
+  employeeDiscountLimit: number;
+  managerDiscountLimit: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * System settings update data interface
+ */
+export interface UpdateSystemSettingsData {
+  companyName?: string | null;
+  companyCnpj?: string | null;
+  companyAddress?: string | null;
+  companyLogo?: string | null;
+  defaultMarkup?: number;
+  lowStockThreshold?: number;
+  productCodePrefix?: string;
+  paymentMethodCodePrefix?: string;
+  quoteValidityDays?: number;
+  quoteTerms?: string | null;
+  employeeDiscountLimit?: number;
+  managerDiscountLimit?: number;
+}
+
+/**
+ * Settings service class
+ * The settings live in a single row, created with the column defaults the first time it is read
+ */
+export class SettingsService {
+  /**
+   * Get the system settings
+   */
+  async get(): Promise<SystemSettings> {
+    const result = await db
+      .select()
+      .from(systemSettings)
+      .orderBy(asc(systemSettings.createdAt))
+      .limit(1);
+
+    if (result[0]) {
+      return result[0];
+    }
+
+    const created = await db.insert(systemSettings).values({}).returning();
+    return created[0];
+  }
+
+  /**
+   * Update the system settings, fields left undefined keep their value
+   */
+  async update(data: UpdateSystemSettingsData): Promise<SystemSettings> {
+    const current = await this.get();
+
+    const updateData: Partial<typeof systemSettings.$inferInsert> = {
+      updatedAt: new Date()
+    };
+
+    if (data.companyName !== undefined) updateData.companyName = data.companyName;
+    if (data.companyCnpj !== undefined) updateData.companyCnpj = data.companyCnpj;
+    if (data.companyAddress !== undefined) updateData.companyAddress = data.companyAddress;
+    if (data.companyLogo !== undefined) updateData.companyLogo = data.companyLogo;
+    if (data.defaultMarkup !== undefined) updateData.defaultMarkup = data.defaultMarkup;
+    if (data.lowStockThreshold !== undefined) updateData.lowStockThreshold = data.lowStockThreshold;
+    if (data.productCodePrefix !== undefined) updateData.productCodePrefix = data.productCodePrefix;
+    if (data.paymentMethodCodePrefix !== undefined) updateData.paymentMethodCodePrefix = data.paymentMethodCodePrefix;
+    if (data.quoteValidityDays !== undefined) updateData.quoteValidityDays = data.quoteValidityDays;
+    if (data.quoteTerms !== undefined) updateData.quoteTerms = data.quoteTerms;
+    if (data.employeeDiscountLimit !== undefined) updateData.employeeDiscountLimit = data.employeeDiscountLimit;
+    if (data.managerDiscountLimit !== undefined) updateData.managerDiscountLimit = data.managerDiscountLimit;
+
+    const result = await db
+      .update(systemSettings)
+      .set(updateData)
+      .where(eq(systemSettings.id, current.id))
+      .returning();
+
+    return result[0];
+  }
+
+  /**
+   * Flatten the settings for the audit trail, the logo is recorded as present or not instead of its data URL
+   */
+  toAuditSnapshot(settings: SystemSettings): Record<string, AuditValue> {
+    return {
+      companyName: settings.companyName,
+      companyCnpj: settings.companyCnpj,
+      companyAddress: settings.companyAddress,
+      companyLogo: settings.companyLogo ? 'logo' : null,
+      defaultMarkup: settings.defaultMarkup,
+      lowStockThreshold: settings.lowStockThreshold,
+      productCodePrefix: settings.productCodePrefix,
+      paymentMethodCodePrefix: settings.paymentMethodCodePrefix,
+      quoteValidityDays: settings.quoteValidityDays,
+      quoteTerms: settings.quoteTerms,
+      employeeDiscountLimit: settings.employeeDiscountLimit,
+      managerDiscountLimit: settings.managerDiscountLimit
+    };
+  }
+}
+
+// Export singleton instance
+export const settingsService = new SettingsService();
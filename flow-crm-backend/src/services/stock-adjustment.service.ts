@@ -5,6 +5,7 @@ import { products } from '../db/schema/products';
 import { productService } from './products.service';
 import { auditLogService } from './audit-logs.service';
 import { BaseFilters } from '../types/common.types';
+import { normalizeStockQuantity, applyStockChange } from '../utils/stock-calculations';
 
 /**
  * Stock adjustment types
@@ -24,6 +25,7 @@ export interface StockAdjustment {
     previousStock: number;
     newStock: number;
     reason: string;
+    purchaseOrderId: string | null;
     userId: string | null;
     userName: string;
     ipAddress: string | null;
@@ -96,13 +98,19 @@ export class StockAdjustmentService {
                 throw new Error('Product not found');
             }
 
+            // Whole quantities for products sold by unit, unit precision for fractional products
+            const quantity = normalizeStockQuantity(data.quantity, product);
+            if (quantity <= 0) {
+                throw new Error(`Invalid adjustment quantity for unit ${product.unit}: ${data.quantity}`);
+            }
+
             const previousStock = product.stock;
-            const adjustmentAmount = data.adjustmentType === 'add' ? data.quantity : -data.quantity;
-            const newStock = previousStock + adjustmentAmount;
+            const adjustmentAmount = data.adjustmentType === 'add' ? quantity : -quantity;
+            const newStock = applyStockChange(previousStock, adjustmentAmount);
 
             // Validate stock doesn't go negative
             if (newStock < 0) {
-                throw new Error(`Insufficient stock for this operation. Current stock: ${previousStock}, requested removal: ${data.quantity}`);
+                throw new Error(`Insufficient stock for this operation. Current stock: ${previousStock}, requested removal: ${quantity}`);
             }
 
             // Update product stock
@@ -114,7 +122,7 @@ export class StockAdjustmentService {
                 .values({
                     productId,
                     adjustmentType: data.adjustmentType,
-                    quantity: data.quantity,
+                    quantity,
                     previousStock,
                     newStock,
                     reason: data.reason,
@@ -127,14 +135,13 @@ export class StockAdjustmentService {
 
             // Log audit entry
             try {
-                await auditLogService.logUpdate(
-                    userId || 'system',
-                    userName,
+                await auditLogService.logMutation(
+                    { userId, userName, ipAddress, userAgent },
                     'product_stock',
                     productId,
-                    `Stock ${data.adjustmentType}: ${data.quantity} units. Previous: ${previousStock}, New: ${newStock}. Reason: ${data.reason}`,
-                    ipAddress,
-                    userAgent
+                    { stock: previousStock },
+                    { stock: newStock },
+                    `Stock ${data.adjustmentType}: ${quantity} ${product.unit}. Reason: ${data.reason}`
                 );
             } catch (auditError) {
                 console.error('Failed to create audit log:', auditError);
@@ -150,7 +157,7 @@ export class StockAdjustmentService {
                 adjustment: {
                     id: adjustmentRecord[0].id,
                     type: data.adjustmentType,
-                    quantity: data.quantity,
+                    quantity,
                     reason: data.reason,
                     createdAt: adjustmentRecord[0].createdAt
                 }
@@ -221,6 +228,7 @@ export class StockAdjustmentService {
                 previousStock: stockAdjustments.previousStock,
                 newStock: stockAdjustments.newStock,
                 reason: stockAdjustments.reason,
+                purchaseOrderId: stockAdjustments.purchaseOrderId,
                 userId: stockAdjustments.userId,
                 userName: stockAdjustments.userName,
                 ipAddress: stockAdjustments.ipAddress,
@@ -245,6 +253,7 @@ export class StockAdjustmentService {
             previousStock: row.previousStock,
             newStock: row.newStock,
             reason: row.reason,
+            purchaseOrderId: row.purchaseOrderId,
             userId: row.userId,
             userName: row.userName,
             ipAddress: row.ipAddress,
@@ -0,0 +1,162 @@
+import { eq, and, ne, inArray, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { stockReservations } from '../db/schema/stock-reservations';
+import { preSaleItems } from '../db/schema/presales';
+import { products } from '../db/schema/products';
+import { calculateAvailableStock, roundQuantity } from '../utils/stock-calculations';
+
+/**
+ * Stock reservation status
+ */
+export type StockReservationStatus = 'active' | 'released' | 'consumed';
+
+/**
+ * Database or open transaction the reservation queries run on
+ */
+export type ReservationExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Reserved quantity lookup options
+ */
+export interface ReservedQuantityOptions {
+    excludePreSaleId?: string;
+    tx?: ReservationExecutor;
+}
+
+/**
+ * Stock reservation service class
+ * Approved pre-sales hold their quantities until they are converted (consumed) or cancelled (released)
+ */
+export class StockReservationService {
+    /**
+     * Get the quantity held by active reservations per product
+     */
+    async getReservedQuantities(
+        productIds: string[],
+        options: ReservedQuantityOptions = {}
+    ): Promise<Map<string, number>> {
+        const reserved = new Map<string, number>();
+        const uniqueIds = [...new Set(productIds)];
+        if (uniqueIds.length === 0) {
+            return reserved;
+        }
+
+        const { excludePreSaleId, tx = db } = options;
+        const conditions = [
+            inArray(stockReservations.productId, uniqueIds),
+            eq(stockReservations.status, 'active')
+        ];
+
+        if (excludePreSaleId) {
+            conditions.push(ne(stockReservations.preSaleId, excludePreSaleId));
+        }
+
+        const result = await tx
+            .select({
+                productId: stockReservations.productId,
+                quantity: sql<string>`coalesce(sum(${stockReservations.quantity}), 0)`
+            })
+            .from(stockReservations)
+            .where(and(...conditions))
+            .groupBy(stockReservations.productId);
+
+        for (const row of result) {
+            reserved.set(row.productId, roundQuantity(parseFloat(row.quantity)));
+        }
+
+        return reserved;
+    }
+
+    /**
+     * Reserve the items of a pre-sale, replacing any reservation it already holds
+     * Product rows are locked so concurrent approvals cannot promise the same units.
+     */
+    async reserveForPreSale(preSaleId: string, tx: ReservationExecutor): Promise<void> {
+        await this.updateActiveReservations(preSaleId, 'released', tx);
+
+        const items = await tx
+            .select({
+                productId: preSaleItems.productId,
+                quantity: preSaleItems.quantity
+            })
+            .from(preSaleItems)
+            .where(eq(preSaleItems.preSaleId, preSaleId));
+
+        const quantities = new Map<string, number>();
+        for (const item of items) {
+            quantities.set(item.productId, roundQuantity((quantities.get(item.productId) || 0) + parseFloat(item.quantity)));
+        }
+
+        const productIds = [...quantities.keys()];
+        if (productIds.length === 0) {
+            return;
+        }
+
+        const lockedProducts = await tx
+            .select({
+                id: products.id,
+                code: products.code,
+                name: products.name,
+                stock: products.stock
+            })
+            .from(products)
+            .where(inArray(products.id, productIds))
+            .orderBy(products.id)
+            .for('update');
+
+        const reserved = await this.getReservedQuantities(productIds, { excludePreSaleId: preSaleId, tx });
+
+        for (const product of lockedProducts) {
+            const required = quantities.get(product.id) || 0;
+            const available = calculateAvailableStock(product.stock, reserved.get(product.id) || 0);
+
+            if (available < required) {
+                throw new Error(
+                    `Insufficient stock for product ${product.name} (${product.code}). ` +
+                    `Available: ${available}, Required: ${required}`
+                );
+            }
+        }
+
+        await tx
+            .insert(stockReservations)
+            .values(productIds.map(productId => ({
+                productId,
+                preSaleId,
+                quantity: quantities.get(productId) as number
+            })));
+    }
+
+    /**
+     * Release the active reservations of a pre-sale (pre-sale cancelled)
+     */
+    async releaseForPreSale(preSaleId: string, tx: ReservationExecutor = db): Promise<void> {
+        await this.updateActiveReservations(preSaleId, 'released', tx);
+    }
+
+    /**
+     * Consume the active reservations of a pre-sale (pre-sale converted, stock already reduced)
+     */
+    async consumeForPreSale(preSaleId: string, tx: ReservationExecutor = db): Promise<void> {
+        await this.updateActiveReservations(preSaleId, 'consumed', tx);
+    }
+
+    /**
+     * Close the active reservations of a pre-sale with the given status
+     */
+    private async updateActiveReservations(preSaleId: string, status: StockReservationStatus, tx: ReservationExecutor): Promise<void> {
+        await tx
+            .update(stockReservations)
+            .set({
+                status,
+                updatedAt: new Date()
+            })
+            .where(and(
+                eq(stockReservations.preSaleId, preSaleId),
+                eq(stockReservations.status, 'active')
+            ));
+    }
+}
+
+// Export singleton instance
+export const stockReservationService = new StockReservationService();
@@ -0,0 +1,217 @@
+import { eq, ne, ilike, and, asc, sql } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { suppliers } from '../db/schema/suppliers';
+import { purchaseOrders } from '../db/schema/purchase-orders';
+import type { BaseFilters } from '../types/common.types';
+
+/**
+ * Supplier entity interface
+ */
+export interface Supplier {
+  id: string;
+  name: string;
+  cnpj: string | null;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Supplier creation data interface
+ */
+export interface CreateSupplierData {
+  name: string;
+  cnpj?: string | null;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Supplier update data interface
+ */
+export type UpdateSupplierData = Partial<CreateSupplierData>;
+
+/**
+ * Supplier filters interface
+ */
+export interface SupplierFilters extends BaseFilters {
+  search?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Supplier service class containing all supplier-related business logic
+ */
+export class SupplierService {
+  /**
+   * Find all suppliers with optional filtering, ordered by name
+   */
+  async findAll(filters: SupplierFilters = {}): Promise<Supplier[]> {
+    const { page = 1, limit = 50 } = filters;
+
+    return db
+      .select()
+      .from(suppliers)
+      .where(this.buildWhereCondition(filters))
+      .orderBy(asc(suppliers.name))
+      .limit(limit)
+      .offset((page - 1) * limit);
+  }
+
+  /**
+   * Count suppliers with filters
+   */
+  async count(filters: SupplierFilters = {}): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(suppliers)
+      .where(this.buildWhereCondition(filters));
+
+    return result[0]?.count || 0;
+  }
+
+  /**
+   * Find supplier by ID
+   */
+  async findById(id: string): Promise<Supplier | null> {
+    const result = await db
+      .select()
+      .from(suppliers)
+      .where(eq(suppliers.id, id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new supplier
+   */
+  async create(data: CreateSupplierData): Promise<Supplier> {
+    if (data.cnpj) {
+      await this.validateCnpjUniqueness(data.cnpj);
+    }
+
+    const result = await db
+      .insert(suppliers)
+      .values({
+        name: data.name.trim(),
+        cnpj: data.cnpj || null,
+        contactName: data.contactName || null,
+        email: data.email || null,
+        phone: data.phone || null,
+        notes: data.notes || null,
+        isActive: data.isActive ?? true
+      })
+      .returning();
+
+    return result[0];
+  }
+
+  /**
+   * Update a supplier
+   */
+  async update(id: string, data: UpdateSupplierData): Promise<Supplier> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      throw new Error('Supplier not found');
+    }
+
+    if (data.cnpj && data.cnpj !== existing.cnpj) {
+      await this.validateCnpjUniqueness(data.cnpj, id);
+    }
+
+    const updateData: Partial<typeof suppliers.$inferInsert> = {
+      updatedAt: new Date()
+    };
+
+    if (data.name !== undefined) updateData.name = data.name.trim();
+    if (data.cnpj !== undefined) updateData.cnpj = data.cnpj || null;
+    if (data.contactName !== undefined) updateData.contactName = data.contactName || null;
+    if (data.email !== undefined) updateData.email = data.email || null;
+    if (data.phone !== undefined) updateData.phone = data.phone || null;
+    if (data.notes !== undefined) updateData.notes = data.notes || null;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+    const result = await db
+      .update(suppliers)
+      .set(updateData)
+      .where(eq(suppliers.id, id))
+      .returning();
+
+    return result[0];
+  }
+
+  /**
+   * Delete a supplier
+   * Suppliers with purchase orders keep their history and can only be deactivated.
+   */
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return false;
+    }
+
+    const orders = await db
+      .select({ id: purchaseOrders.id })
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.supplierId, id))
+      .limit(1);
+
+    if (orders.length > 0) {
+      throw new Error('Supplier has purchase orders and cannot be deleted, deactivate it instead');
+    }
+
+    const result = await db
+      .delete(suppliers)
+      .where(eq(suppliers.id, id))
+      .returning({ id: suppliers.id });
+
+    return result.length > 0;
+  }
+
+  /**
+   * Private method to build the filter conditions shared by findAll and count
+   */
+  private buildWhereCondition(filters: SupplierFilters) {
+    const conditions = [];
+
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(suppliers.isActive, filters.isActive));
+    }
+
+    // Search across name, contact and CNPJ
+    if (filters.search) {
+      const searchTerm = `%${filters.search}%`;
+      conditions.push(
+        sql`(${ilike(suppliers.name, searchTerm)} OR ${ilike(suppliers.contactName, searchTerm)} OR ${ilike(suppliers.cnpj, searchTerm)})`
+      );
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  /**
+   * Private method to check that no other supplier has the CNPJ
+   */
+  private async validateCnpjUniqueness(cnpj: string, excludeId?: string): Promise<void> {
+    const existing = await db
+      .select({ id: suppliers.id })
+      .from(suppliers)
+      .where(excludeId ? and(eq(suppliers.cnpj, cnpj), ne(suppliers.id, excludeId)) : eq(suppliers.cnpj, cnpj))
+      .limit(1);
+
+    if (existing.length > 0) {
+      throw new Error('Supplier CNPJ already exists');
+    }
+  }
+}
+
+// Export singleton instance
+export const supplierService = new SupplierService();
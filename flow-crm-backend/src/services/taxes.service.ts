@@ -0,0 +1,359 @@
+import { eq, ilike, or, sql, asc, desc } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { ncmTaxRates, icmsStateRates } from '../db/schema/taxes';
+import { products } from '../db/schema/products';
+import type { BaseFilters } from '../types/common.types';
+import {
+  type TaxBreakdown,
+  type TaxRates,
+  type TaxRateSource,
+  resolveTaxRates,
+  calculateTaxBreakdown
+} from '../utils/tax-calculations';
+import { calculationCache } from '../utils/cache-manager';
+
+/**
+ * NCM tax rate entity interface
+ */
+export interface NcmTaxRate {
+  id: string;
+  ncm: string;
+  description: string | null;
+  icmsRate: string | null;
+  ipiRate: string | null;
+  pisRate: string | null;
+  cofinsRate: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * NCM tax rate creation data interface
+ */
+export interface CreateNcmTaxRateData {
+  ncm: string;
+  description?: string | null;
+  icmsRate?: string | null;
+  ipiRate?: string | null;
+  pisRate?: string | null;
+  cofinsRate?: string | null;
+}
+
+/**
+ * NCM tax rate update data interface
+ */
+export interface UpdateNcmTaxRateData {
+  ncm?: string;
+  description?: string | null;
+  icmsRate?: string | null;
+  ipiRate?: string | null;
+  pisRate?: string | null;
+  cofinsRate?: string | null;
+}
+
+/**
+ * NCM tax rate filters interface
+ */
+export interface NcmTaxRateFilters extends BaseFilters {
+  search?: string;
+}
+
+/**
+ * ICMS rate for a destination state
+ */
+export interface IcmsStateRate {
+  state: string;
+  rate: string;
+  updatedAt: Date;
+}
+
+/**
+ * Tax configuration carried by a product
+ */
+export interface ProductTaxConfig {
+  ncm: string | null;
+  icmsRate: string | null;
+  ipiRate: string | null;
+  pisRate: string | null;
+  cofinsRate: string | null;
+}
+
+/**
+ * Tax service class containing tax configuration and tax calculation logic
+ */
+export class TaxService {
+  /**
+   * Find all NCM tax rates with optional filtering
+   */
+  async findAllNcmRates(filters: NcmTaxRateFilters = {}): Promise<NcmTaxRate[]> {
+    const {
+      page = 1,
+      limit = 50,
+      sortBy = 'ncm',
+      sortOrder = 'asc'
+    } = filters;
+
+    const orderColumn = sortBy === 'createdAt' ? ncmTaxRates.createdAt : ncmTaxRates.ncm;
+    const orderBy = sortOrder === 'desc' ? desc(orderColumn) : asc(orderColumn);
+
+    // Apply pagination
+    const offset = (page - 1) * limit;
+
+    return db
+      .select()
+      .from(ncmTaxRates)
+      .where(this.buildNcmWhereCondition(filters))
+      .orderBy(orderBy)
+      .limit(limit)
+      .offset(offset);
+  }
+
+  /**
+   * Count NCM tax rates with filters
+   */
+  async countNcmRates(filters: NcmTaxRateFilters = {}): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(ncmTaxRates)
+      .where(this.buildNcmWhereCondition(filters));
+
+    return Number(result[0].count);
+  }
+
+  /**
+   * Find NCM tax rate by ID
+   */
+  async findNcmRateById(id: string): Promise<NcmTaxRate | null> {
+    const result = await db
+      .select()
+      .from(ncmTaxRates)
+      .where(eq(ncmTaxRates.id, id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Find NCM tax rate by NCM code
+   */
+  async findNcmRateByCode(ncm: string): Promise<NcmTaxRate | null> {
+    const result = await db
+      .select()
+      .from(ncmTaxRates)
+      .where(eq(ncmTaxRates.ncm, ncm))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new NCM tax rate
+   */
+  async createNcmRate(data: CreateNcmTaxRateData): Promise<NcmTaxRate> {
+    await this.validateNcmUniqueness(data.ncm);
+
+    const result = await db
+      .insert(ncmTaxRates)
+      .values({
+        ncm: data.ncm,
+        description: data.description?.trim() || null,
+        icmsRate: data.icmsRate ?? null,
+        ipiRate: data.ipiRate ?? null,
+        pisRate: data.pisRate ?? null,
+        cofinsRate: data.cofinsRate ?? null
+      })
+      .returning();
+
+    this.invalidateCaches();
+
+    return result[0];
+  }
+
+  /**
+   * Update an NCM tax rate
+   */
+  async updateNcmRate(id: string, data: UpdateNcmTaxRateData): Promise<NcmTaxRate | null> {
+    const existing = await this.findNcmRateById(id);
+    if (!existing) {
+      return null;
+    }
+
+    if (data.ncm !== undefined && data.ncm !== existing.ncm) {
+      await this.validateNcmUniqueness(data.ncm);
+    }
+
+    const updateData: Partial<typeof ncmTaxRates.$inferInsert> = {
+      updatedAt: new Date()
+    };
+
+    if (data.ncm !== undefined) updateData.ncm = data.ncm;
+    if (data.description !== undefined) updateData.description = data.description?.trim() || null;
+    if (data.icmsRate !== undefined) updateData.icmsRate = data.icmsRate;
+    if (data.ipiRate !== undefined) updateData.ipiRate = data.ipiRate;
+    if (data.pisRate !== undefined) updateData.pisRate = data.pisRate;
+    if (data.cofinsRate !== undefined) updateData.cofinsRate = data.cofinsRate;
+
+    const result = await db
+      .update(ncmTaxRates)
+      .set(updateData)
+      .where(eq(ncmTaxRates.id, id))
+      .returning();
+
+    this.invalidateCaches();
+
+    return result[0] || null;
+  }
+
+  /**
+   * Delete an NCM tax rate
+   */
+  async deleteNcmRate(id: string): Promise<boolean> {
+    const result = await db
+      .delete(ncmTaxRates)
+      .where(eq(ncmTaxRates.id, id))
+      .returning({ id: ncmTaxRates.id });
+
+    this.invalidateCaches();
+
+    return result.length > 0;
+  }
+
+  /**
+   * Find all configured ICMS state rates
+   */
+  async findAllStateRates(): Promise<IcmsStateRate[]> {
+    return db
+      .select()
+      .from(icmsStateRates)
+      .orderBy(asc(icmsStateRates.state));
+  }
+
+  /**
+   * Create or replace the ICMS rate of a destination state
+   */
+  async upsertStateRate(state: string, rate: string): Promise<IcmsStateRate> {
+    const result = await db
+      .insert(icmsStateRates)
+      .values({ state, rate })
+      .onConflictDoUpdate({
+        target: icmsStateRates.state,
+        set: { rate, updatedAt: new Date() }
+      })
+      .returning();
+
+    this.invalidateCaches();
+
+    return result[0];
+  }
+
+  /**
+   * Remove the ICMS rate of a destination state
+   */
+  async deleteStateRate(state: string): Promise<boolean> {
+    const result = await db
+      .delete(icmsStateRates)
+      .where(eq(icmsStateRates.state, state))
+      .returning({ state: icmsStateRates.state });
+
+    this.invalidateCaches();
+
+    return result.length > 0;
+  }
+
+  /**
+   * Resolve the tax rates for a product and destination state
+   */
+  async getRatesForProduct(product: ProductTaxConfig, destinationState?: string | null): Promise<TaxRates> {
+    const ncmRate = product.ncm ? await this.findNcmRateByCode(product.ncm) : null;
+
+    let stateIcmsRate: string | null = null;
+    if (destinationState) {
+      const result = await db
+        .select({ rate: icmsStateRates.rate })
+        .from(icmsStateRates)
+        .where(eq(icmsStateRates.state, destinationState))
+        .limit(1);
+
+      stateIcmsRate = result[0]?.rate ?? null;
+    }
+
+    return resolveTaxRates({
+      product: this.toRateSource(product),
+      ncm: ncmRate ? this.toRateSource(ncmRate) : null,
+      stateIcmsRate
+    });
+  }
+
+  /**
+   * Calculate the tax breakdown of a pre-sale line
+   */
+  async calculateLineTaxes(productId: string, amount: number, destinationState?: string | null): Promise<TaxBreakdown> {
+    const result = await db
+      .select({
+        ncm: products.ncm,
+        icmsRate: products.icmsRate,
+        ipiRate: products.ipiRate,
+        pisRate: products.pisRate,
+        cofinsRate: products.cofinsRate
+      })
+      .from(products)
+      .where(eq(products.id, productId))
+      .limit(1);
+
+    if (result.length === 0) {
+      throw new Error('Product not found');
+    }
+
+    const rates = await this.getRatesForProduct(result[0], destinationState);
+
+    return calculateTaxBreakdown(amount, rates);
+  }
+
+  /**
+   * Build where condition for NCM filters
+   */
+  private buildNcmWhereCondition(filters: NcmTaxRateFilters) {
+    if (!filters.search) {
+      return undefined;
+    }
+
+    const searchTerm = `%${filters.search}%`;
+    return or(
+      ilike(ncmTaxRates.ncm, searchTerm),
+      ilike(ncmTaxRates.description, searchTerm)
+    );
+  }
+
+  /**
+   * Map stored rate columns to a tax rate source
+   */
+  private toRateSource(config: Omit<ProductTaxConfig, 'ncm'>): TaxRateSource {
+    return {
+      icms: config.icmsRate,
+      ipi: config.ipiRate,
+      pis: config.pisRate,
+      cofins: config.cofinsRate
+    };
+  }
+
+  /**
+   * Private method to validate NCM uniqueness
+   */
+  private async validateNcmUniqueness(ncm: string): Promise<void> {
+    const existing = await this.findNcmRateByCode(ncm);
+
+    if (existing) {
+      throw new Error('NCM already exists');
+    }
+  }
+
+  /**
+   * Clear cached price calculations after tax configuration changes
+   */
+  private invalidateCaches(): void {
+    calculationCache.clear();
+  }
+}
+
+// Export singleton instance
+export const taxService = new TaxService();
@@ -12,6 +12,31 @@ export interface User {
   updatedAt: Date;
 }
 
+/**
+ * Permissions stored in the users.permissions JSON column
+ */
+export interface UserPermissions {
+  modules: {
+    products: boolean;
+    customers: boolean;
+    reports: boolean;
+    paymentMethods: boolean;
+    userManagement: boolean;
+  };
+  presales: {
+    canCreate: boolean;
+    canViewOwn: boolean;
+    canViewAll: boolean;
+  };
+}
+
+/**
+ * Permission identifier in the format "group.key", e.g. "modules.customers"
+ */
+export type PermissionKey =
+  | `modules.${keyof UserPermissions['modules']}`
+  | `presales.${keyof UserPermissions['presales']}`;
+
 export interface CreateUserData {
   email: string;
   password: string;
@@ -28,12 +53,17 @@ export interface LoginCredentials {
 export interface AuthResponse {
   user: User;
   token: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
 }
 
 export interface AuthService {
   login(credentials: LoginCredentials): Promise<AuthResponse>;
   register(userData: CreateUserData): Promise<User>;
   validateToken(token: string): Promise<User>;
+  refreshSession(refreshToken: string): Promise<AuthResponse>;
+  logout(token: string | null, refreshToken?: string): Promise<void>;
+  logoutAll(userId: string): Promise<void>;
   hashPassword(password: string): Promise<string>;
   comparePassword(password: string, hash: string): Promise<boolean>;
 }
\ No newline at end of file
@@ -52,7 +52,7 @@ export type UserRole = 'admin' | 'manager' | 'employee';
 /**
  * Pre-sale status enum
  */
-export type PreSaleStatus = 'draft' | 'pending' | 'approved' | 'cancelled' | 'converted';
+export type PreSaleStatus = 'draft' | 'pending' | 'approved' | 'cancelled' | 'converted' | 'expired' | 'awaiting_approval';
 
 /**
  * Common filter parameters for list endpoints
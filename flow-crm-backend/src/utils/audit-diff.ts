@@ -0,0 +1,94 @@
+/**
+ * Audit trail diff utilities
+ * Mutations are stored in audit_logs.details as JSON: a summary and the changed fields with old and new values.
+ */
+
+/**
+ * Value of a field in the audit trail
+ */
+export type AuditValue = string | number | boolean | null;
+
+/**
+ * Field changed by a mutation
+ */
+export interface AuditFieldChange {
+  field: string;
+  from: AuditValue;
+  to: AuditValue;
+}
+
+/**
+ * Structured details of a mutation
+ */
+export interface AuditDetails {
+  summary: string;
+  changes: AuditFieldChange[];
+}
+
+/**
+ * State of a record before or after a mutation
+ */
+export type AuditSnapshot = object;
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+const NUMERIC_REGEX = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Convert a field value to something that can be stored and compared
+ */
+const toAuditValue = (value: unknown): AuditValue => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * Compare two values, numbers stored as decimal strings are compared by value ("10.00" equals "10")
+ */
+const isSameValue = (from: AuditValue, to: AuditValue): boolean => {
+  if (from === to) return true;
+  if (from === null || to === null) return false;
+
+  const isNumeric = NUMERIC_REGEX.test(String(from)) && NUMERIC_REGEX.test(String(to));
+  return isNumeric && Number(from) === Number(to);
+};
+
+/**
+ * Fields that differ between two snapshots of a record
+ * A created record has no previous snapshot and a deleted one has no next snapshot. On updates only the
+ * fields of the next snapshot are compared, so values computed when reading (e.g. reserved stock) are skipped.
+ */
+export const diffAuditSnapshots = (before: AuditSnapshot | null, after: AuditSnapshot | null): AuditFieldChange[] => {
+  const fields = Object.keys(after ?? before ?? {}).filter(field => !IGNORED_FIELDS.has(field));
+  const changes: AuditFieldChange[] = [];
+
+  for (const field of fields) {
+    const from = before ? toAuditValue((before as Record<string, unknown>)[field]) : null;
+    const to = after ? toAuditValue((after as Record<string, unknown>)[field]) : null;
+
+    if (!isSameValue(from, to)) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Read the details of an audit entry, returning null for entries written as plain text
+ */
+export const parseAuditDetails = (details: string | null): AuditDetails | null => {
+  if (!details?.startsWith('{')) return null;
+
+  try {
+    const parsed = JSON.parse(details) as Partial<AuditDetails>;
+    return typeof parsed.summary === 'string' && Array.isArray(parsed.changes)
+      ? { summary: parsed.summary, changes: parsed.changes }
+      : null;
+  } catch {
+    return null;
+  }
+};
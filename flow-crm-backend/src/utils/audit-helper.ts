@@ -1,5 +1,6 @@
 import { FastifyRequest } from 'fastify';
-import { auditLogService, AuditAction } from '../services/audit-logs.service';
+import { auditLogService, AuditAction, type AuditContext } from '../services/audit-logs.service';
+import type { AuditSnapshot } from './audit-diff';
 
 /**
  * Extract IP address from Fastify request
@@ -34,6 +35,38 @@ export function extractUserAgent(request: FastifyRequest): string | undefined {
  * Audit log helper for easy logging throughout the application
  */
 export class AuditHelper {
+  /**
+   * Who is performing the request, for services that log their own mutations
+   */
+  static getContext(request: FastifyRequest): AuditContext {
+    const user = request.user;
+
+    return {
+      userId: user?.id ?? null,
+      userName: user?.name || user?.email || 'Unknown',
+      ipAddress: extractIpAddress(request),
+      userAgent: extractUserAgent(request)
+    };
+  }
+
+  /**
+   * Log a create, update or delete with the old and new value of every changed field
+   */
+  static async logMutation(
+    resource: string,
+    resourceId: string,
+    request: FastifyRequest,
+    before: AuditSnapshot | null,
+    after: AuditSnapshot | null,
+    summary: string
+  ): Promise<void> {
+    try {
+      await auditLogService.logMutation(AuditHelper.getContext(request), resource, resourceId, before, after, summary);
+    } catch (error) {
+      console.error('Failed to log mutation:', error);
+    }
+  }
+
   /**
    * Log an action with automatic extraction of IP and User Agent
    */
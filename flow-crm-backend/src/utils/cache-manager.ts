@@ -290,6 +290,7 @@ export function generateCalculationCacheKey(params: {
     quantity: number;
     basePrice?: number;
     customerId?: string;
+    destinationState?: string;
     applyPromotions?: boolean;
     includeTaxes?: boolean;
 }): string {
@@ -299,6 +300,7 @@ export function generateCalculationCacheKey(params: {
         params.quantity.toString(),
         params.basePrice?.toString() || 'default',
         params.customerId || 'no-customer',
+        params.destinationState || 'no-state',
         params.applyPromotions ? 'promo' : 'no-promo',
         params.includeTaxes ? 'tax' : 'no-tax'
     ];
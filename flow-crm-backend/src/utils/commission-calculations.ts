@@ -0,0 +1,108 @@
+/**
+ * Commission calculation utilities
+ * Handles commission rule matching, monthly volume tiers and allocation of pre-sale totals
+ */
+
+import { roundMoney } from './price-calculations';
+
+/**
+ * Rate that replaces the base rate once the salesperson's monthly volume reaches `minVolume`
+ */
+export interface CommissionTier {
+    minVolume: number;
+    rate: number;
+}
+
+/**
+ * Fields of a commission rule used for matching and rate resolution
+ * Null salesperson or category means the rule applies to all of them
+ */
+export interface CommissionRuleMatch {
+    salespersonId: string | null;
+    category: string | null;
+    rate: string | number;
+    tiers?: CommissionTier[] | null;
+}
+
+/**
+ * Find the most specific rule for a salesperson and product category
+ * Salesperson rules win over category rules, which win over general rules.
+ * Ties keep the first rule in the list.
+ */
+export function findCommissionRule<T extends CommissionRuleMatch>(
+    rules: T[],
+    salespersonId: string,
+    category: string | null
+): T | null {
+    const normalizedCategory = category?.trim().toLowerCase() || null;
+    let bestRule: T | null = null;
+    let bestScore = -1;
+
+    for (const rule of rules) {
+        if (rule.salespersonId && rule.salespersonId !== salespersonId) {
+            continue;
+        }
+
+        const ruleCategory = rule.category?.trim().toLowerCase() || null;
+        if (ruleCategory && ruleCategory !== normalizedCategory) {
+            continue;
+        }
+
+        const score = (rule.salespersonId ? 2 : 0) + (ruleCategory ? 1 : 0);
+        if (score > bestScore) {
+            bestRule = rule;
+            bestScore = score;
+        }
+    }
+
+    return bestRule;
+}
+
+/**
+ * Resolve the commission rate of a rule for a monthly volume
+ * Uses the highest tier reached, or the base rate when no tier is reached
+ */
+export function resolveCommissionRate(rule: CommissionRuleMatch, monthlyVolume: number): number {
+    const tiers = [...(rule.tiers || [])].sort((a, b) => Number(b.minVolume) - Number(a.minVolume));
+    const tier = tiers.find(t => monthlyVolume >= Number(t.minVolume));
+
+    return Number(tier ? tier.rate : rule.rate) || 0;
+}
+
+/**
+ * Calculate the commission amount for an amount and percentage rate
+ */
+export function calculateCommission(amount: number, rate: number): number {
+    return roundMoney(Math.max(0, amount) * rate / 100);
+}
+
+/**
+ * Split a total across lines proportionally to their amounts
+ * The last line absorbs rounding differences so the parts always add up to the total
+ */
+export function allocateAmount(total: number, lineAmounts: number[]): number[] {
+    const linesTotal = lineAmounts.reduce((sum, amount) => sum + amount, 0);
+    if (lineAmounts.length === 0) {
+        return [];
+    }
+
+    let allocated = 0;
+    return lineAmounts.map((amount, index) => {
+        if (index === lineAmounts.length - 1) {
+            return roundMoney(total - allocated);
+        }
+
+        const share = linesTotal > 0
+            ? roundMoney(total * amount / linesTotal)
+            : roundMoney(total / lineAmounts.length);
+        allocated += share;
+        return share;
+    });
+}
+
+/**
+ * Month key (YYYY-MM) used to group monthly volumes
+ */
+export function getMonthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
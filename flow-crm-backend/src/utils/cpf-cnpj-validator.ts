@@ -1,8 +1,14 @@
 /**
- * CPF validation utility function
- * Validates Brazilian CPF (Cadastro de Pessoas Físicas) format and check digits
+ * CPF and CNPJ validation utility functions
+ * Validates Brazilian CPF (Cadastro de Pessoas Físicas) and
+ * CNPJ (Cadastro Nacional da Pessoa Jurídica) format and check digits
  */
 
+/**
+ * Customer document type
+ */
+export type DocumentType = 'cpf' | 'cnpj';
+
 /**
  * Validates a CPF string
  * @param cpf - CPF string in format XXX.XXX.XXX-XX or XXXXXXXXXXX
@@ -62,4 +68,76 @@ export const formatCpf = (cpf: string): string => {
  */
 export const cleanCpf = (cpf: string): string => {
   return cpf.replace(/\D/g, '');
-};
\ No newline at end of file
+};
+
+/**
+ * Validates a CNPJ string
+ * @param cnpj - CNPJ string in format XX.XXX.XXX/XXXX-XX or XXXXXXXXXXXXXX
+ * @returns true if CNPJ is valid, false otherwise
+ */
+export const validateCnpj = (cnpj: string): boolean => {
+  if (!cnpj) return false;
+
+  // Remove all non-numeric characters
+  const cleanCnpj = cnpj.replace(/\D/g, '');
+
+  // Check if CNPJ has 14 digits
+  if (cleanCnpj.length !== 14) return false;
+
+  // Check if all digits are the same (invalid CNPJ)
+  if (/^(\d)\1{13}$/.test(cleanCnpj)) return false;
+
+  // Check digits use weights 2..9 cycling from right to left
+  const calculateCheckDigit = (digits: string): number => {
+    let sum = 0;
+    let weight = 2;
+    for (let i = digits.length - 1; i >= 0; i--) {
+      sum += Number(digits.charAt(i)) * weight;
+      weight = weight === 9 ? 2 : weight + 1;
+    }
+    const remainder = sum % 11;
+    return remainder < 2 ? 0 : 11 - remainder;
+  };
+
+  // Validate first check digit
+  const firstCheckDigit = calculateCheckDigit(cleanCnpj.substring(0, 12));
+  if (Number(cleanCnpj.charAt(12)) !== firstCheckDigit) return false;
+
+  // Validate second check digit
+  const secondCheckDigit = calculateCheckDigit(cleanCnpj.substring(0, 13));
+  if (Number(cleanCnpj.charAt(13)) !== secondCheckDigit) return false;
+
+  return true;
+};
+
+/**
+ * Formats a CNPJ string to XX.XXX.XXX/XXXX-XX format
+ * @param cnpj - CNPJ string with only numbers
+ * @returns formatted CNPJ string
+ */
+export const formatCnpj = (cnpj: string): string => {
+  const cleanCnpj = cnpj.replace(/\D/g, '');
+  if (cleanCnpj.length !== 14) return cnpj;
+
+  return cleanCnpj.replace(/(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})/, '$1.$2.$3/$4-$5');
+};
+
+/**
+ * Validates a CPF or CNPJ according to the document type
+ * @param document - document string with or without formatting
+ * @param type - document type
+ * @returns true if the document is valid for the given type
+ */
+export const validateDocument = (document: string, type: DocumentType): boolean => {
+  return type === 'cnpj' ? validateCnpj(document) : validateCpf(document);
+};
+
+/**
+ * Formats a CPF or CNPJ according to the document type
+ * @param document - document string with only numbers
+ * @param type - document type
+ * @returns formatted document string
+ */
+export const formatDocument = (document: string, type: DocumentType): string => {
+  return type === 'cnpj' ? formatCnpj(document) : formatCpf(document);
+};
@@ -0,0 +1,79 @@
+/**
+ * Discount approval utilities
+ * Each role may give discounts up to a limit, in percent of the gross total, set in the system settings.
+ * Pre-sales with a larger discount wait for a manager or an administrator to approve it before they move on.
+ * Promotion discounts are granted by the store itself and do not count against the limit.
+ */
+
+import type { UserRole } from '../types/common.types';
+
+/**
+ * Line of a pre-sale as seen by the discount check, discount is the amount given on the line
+ */
+export interface DiscountLine {
+    quantity: number;
+    unitPrice: number;
+    discount: number;
+}
+
+/**
+ * Discount limits of the system settings, in percent
+ */
+export interface DiscountLimits {
+    employeeDiscountLimit: number;
+    managerDiscountLimit: number;
+}
+
+const roundPercentage = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Largest discount of a pre-sale in percent: the one given on a single line or the one of the whole pre-sale,
+ * item discounts plus the global discount over the gross total, whichever is larger
+ */
+export function calculateRequestedDiscount(lines: DiscountLine[], globalDiscount: number): number {
+    let grossTotal = 0;
+    let discountTotal = globalDiscount;
+    let largestLineDiscount = 0;
+
+    for (const line of lines) {
+        const gross = line.quantity * line.unitPrice;
+        grossTotal += gross;
+        discountTotal += line.discount;
+
+        if (gross > 0) {
+            largestLineDiscount = Math.max(largestLineDiscount, line.discount / gross);
+        }
+    }
+
+    const overallDiscount = grossTotal > 0 ? discountTotal / grossTotal : 0;
+
+    return roundPercentage(Math.min(1, Math.max(largestLineDiscount, overallDiscount)) * 100);
+}
+
+/**
+ * Largest discount a role may give or approve, null when there is no limit (administrators)
+ * Pre-sales without a salesperson follow the employee limit.
+ */
+export function getDiscountLimit(role: UserRole | null, limits: DiscountLimits): number | null {
+    if (role === 'admin') {
+        return null;
+    }
+
+    return role === 'manager' ? limits.managerDiscountLimit : limits.employeeDiscountLimit;
+}
+
+/**
+ * Check whether a discount needs approval
+ * An approval covers any discount up to the one approved, a larger discount needs a new approval.
+ */
+export function requiresDiscountApproval(
+    requestedDiscount: number,
+    limit: number | null,
+    approvedDiscount: number | null
+): boolean {
+    if (limit === null || requestedDiscount <= limit) {
+        return false;
+    }
+
+    return approvedDiscount === null || requestedDiscount > approvedDiscount;
+}
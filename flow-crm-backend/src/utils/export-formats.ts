@@ -0,0 +1,302 @@
+/**
+ * Spreadsheet export utilities
+ * Streams rows as CSV (Excel pt-BR flavour) or XLSX without loading the whole list in memory
+ */
+
+import { Readable, pipeline } from 'node:stream';
+import { createDeflateRaw } from 'node:zlib';
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Value of a single exported cell
+ */
+export type ExportCellValue = string | number | null | undefined;
+
+/**
+ * Column definition of an export
+ */
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportCellValue;
+}
+
+/**
+ * HTTP content type per export format
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Byte order mark so Excel opens the UTF-8 CSV with the right encoding
+const CSV_BOM = '\uFEFF';
+const CSV_DELIMITER = ';';
+
+/**
+ * Format a CSV cell the way Excel in pt-BR reads it back
+ * Numbers use decimal comma; text starting with a formula character is prefixed to keep it as text
+ */
+export const formatCsvCell = (value: ExportCellValue): string => {
+  if (value === null || value === undefined) return '';
+
+  if (typeof value === 'number') {
+    return String(value).replace('.', ',');
+  }
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  if (/[";\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+};
+
+/**
+ * Stream rows as a semicolon separated CSV
+ */
+export async function* streamCsv<T>(columns: ExportColumn<T>[], rows: AsyncIterable<T>): AsyncGenerator<string> {
+  yield `${CSV_BOM}${columns.map(column => formatCsvCell(column.header)).join(CSV_DELIMITER)}\n`;
+
+  for await (const row of rows) {
+    yield `${columns.map(column => formatCsvCell(column.value(row))).join(CSV_DELIMITER)}\n`;
+  }
+}
+
+/**
+ * Escape text for XML content, dropping characters XML 1.0 does not allow
+ */
+const escapeXml = (value: string): string =>
+  value
+    // biome-ignore lint/suspicious/noControlCharactersInRegex: XML 1.0 does not allow these characters
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const xlsxCell = (value: ExportCellValue, style = 0): string => {
+  const styleAttribute = style ? ` s="${style}"` : '';
+
+  if (value === null || value === undefined || value === '') {
+    return `<c${styleAttribute}/>`;
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c${styleAttribute}><v>${value}</v></c>`;
+  }
+
+  return `<c t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const xlsxStaticParts = (sheetName: string): { name: string; content: string }[] => [
+  {
+    name: '[Content_Types].xml',
+    content: XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>'
+  },
+  {
+    name: '_rels/.rels',
+    content: XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+  },
+  {
+    name: 'xl/workbook.xml',
+    content: XML_HEADER +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'
+  },
+  {
+    name: 'xl/_rels/workbook.xml.rels',
+    content: XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>'
+  },
+  {
+    // Style 1 is the bold header row
+    name: 'xl/styles.xml',
+    content: XML_HEADER +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>'
+  }
+];
+
+async function* xlsxSheet<T>(columns: ExportColumn<T>[], rows: AsyncIterable<T>): AsyncGenerator<Buffer> {
+  yield Buffer.from(
+    XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+    `<row>${columns.map(column => xlsxCell(column.header, 1)).join('')}</row>`
+  );
+
+  for await (const row of rows) {
+    yield Buffer.from(`<row>${columns.map(column => xlsxCell(column.value(row))).join('')}</row>`);
+  }
+
+  yield Buffer.from('</sheetData></worksheet>');
+}
+
+/**
+ * Stream rows as a single sheet XLSX workbook
+ */
+export async function* streamXlsx<T>(
+  columns: ExportColumn<T>[],
+  rows: AsyncIterable<T>,
+  sheetName: string
+): AsyncGenerator<Buffer> {
+  const zip = new ZipStreamWriter();
+
+  for (const part of xlsxStaticParts(sheetName)) {
+    yield* zip.addEntry(part.name, toAsyncIterable(Buffer.from(part.content)));
+  }
+
+  yield* zip.addEntry('xl/worksheets/sheet1.xml', xlsxSheet(columns, rows));
+  yield zip.finish();
+}
+
+async function* toAsyncIterable(buffer: Buffer): AsyncGenerator<Buffer> {
+  yield buffer;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (zip flavour), pass the previous result to continue over several chunks
+ */
+export const crc32 = (data: Buffer, previous = 0): number => {
+  let crc = previous ^ 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+// Flag bit 3: sizes and CRC follow the data in a data descriptor, so entries can be streamed
+const ZIP_STREAMED_FLAG = 0x0008;
+const ZIP_DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+/**
+ * Minimal streaming zip writer (deflate entries with data descriptors, no zip64)
+ */
+class ZipStreamWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private readonly time: number;
+  private readonly date: number;
+
+  constructor(modifiedAt: Date = new Date()) {
+    this.time = (modifiedAt.getHours() << 11) | (modifiedAt.getMinutes() << 5) | Math.floor(modifiedAt.getSeconds() / 2);
+    this.date = ((modifiedAt.getFullYear() - 1980) << 9) | ((modifiedAt.getMonth() + 1) << 5) | modifiedAt.getDate();
+  }
+
+  async *addEntry(name: string, content: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+    const entry: ZipEntry = { name: Buffer.from(name), offset: this.offset, crc: 0, compressedSize: 0, size: 0 };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_STREAMED_FLAG, 6);
+    header.writeUInt16LE(ZIP_DEFLATE, 8);
+    header.writeUInt16LE(this.time, 10);
+    header.writeUInt16LE(this.date, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    yield this.track(Buffer.concat([header, entry.name]));
+
+    const source = Readable.from((async function* () {
+      for await (const chunk of content) {
+        entry.crc = crc32(chunk, entry.crc);
+        entry.size += chunk.length;
+        yield chunk;
+      }
+    })());
+    const deflate = createDeflateRaw();
+    pipeline(source, deflate, () => undefined);
+
+    for await (const chunk of deflate) {
+      entry.compressedSize += chunk.length;
+      yield this.track(chunk);
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield this.track(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  finish(): Buffer {
+    const centralDirectory = this.entries.map(entry => {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(ZIP_STREAMED_FLAG, 8);
+      header.writeUInt16LE(ZIP_DEFLATE, 10);
+      header.writeUInt16LE(this.time, 12);
+      header.writeUInt16LE(this.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([header, entry.name]);
+    });
+    const centralDirectorySize = centralDirectory.reduce((sum, header) => sum + header.length, 0);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(centralDirectorySize, 12);
+    end.writeUInt32LE(this.offset, 16);
+
+    return Buffer.concat([...centralDirectory, end]);
+  }
+
+  private track(chunk: Buffer): Buffer {
+    this.offset += chunk.length;
+    return chunk;
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Spreadsheet import utilities
+ * Reads CSV (comma or semicolon separated) and XLSX files into rows of text cells
+ */
+
+import { inflateRawSync } from 'node:zlib';
+import type { ExportFormat } from './export-formats';
+
+/**
+ * Supported import formats, the same as the exports so exported files can be edited and imported back
+ */
+export type ImportFormat = ExportFormat;
+
+// Characters the CSV export prefixes with an apostrophe to keep formulas as text
+const FORMULA_PREFIX_REGEX = /^'[=+\-@\t\r]/;
+
+/**
+ * Parse CSV text into rows of cells
+ * The delimiter is detected from the header line; quoted cells may contain delimiters and line breaks.
+ */
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = firstLine.split(';').length >= firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map(cells => cells.map(value => FORMULA_PREFIX_REGEX.test(value) ? value.slice(1) : value))
+    .filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+/**
+ * Decode the XML entities used in spreadsheet content
+ */
+const decodeXml = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(code[1].toLowerCase() === 'x'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10));
+    }
+  });
+
+/**
+ * Join the text runs of a shared or inline string
+ */
+const readStringItem = (xml: string): string =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => decodeXml(match[1])).join('');
+
+/**
+ * Zero based column index of a cell reference such as "AB12"
+ */
+const columnIndex = (reference: string): number => {
+  let index = 0;
+  for (const letter of reference.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+/**
+ * Read the files of a zip archive through its central directory
+ */
+const readZipEntries = (zip: Buffer): Map<string, Buffer> => {
+  const signature = Buffer.from([0x50, 0x4b, 0x05, 0x06]);
+  const end = zip.lastIndexOf(signature);
+  if (end < 0) {
+    throw new Error('Invalid XLSX file');
+  }
+
+  const count = zip.readUInt16LE(end + 10);
+  let position = zip.readUInt32LE(end + 16);
+  const entries = new Map<string, Buffer>();
+
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(position) !== 0x02014b50) {
+      throw new Error('Invalid XLSX file');
+    }
+
+    const method = zip.readUInt16LE(position + 10);
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const extraLength = zip.readUInt16LE(position + 30);
+    const commentLength = zip.readUInt16LE(position + 32);
+    const localOffset = zip.readUInt32LE(position + 42);
+    const name = zip.subarray(position + 46, position + 46 + nameLength).toString();
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === 0 ? data : inflateRawSync(data));
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+/**
+ * Parse the first worksheet of an XLSX file into rows of cells
+ * Numbers are returned as written in the file (dot decimal separator).
+ */
+export const parseXlsx = (file: Buffer): string[][] => {
+  const entries = readZipEntries(file);
+  const read = (name: string): string | undefined => entries.get(name)?.toString('utf8');
+
+  // First sheet of the workbook, resolved through the workbook relationships
+  const workbook = read('xl/workbook.xml') || '';
+  const relations = read('xl/_rels/workbook.xml.rels') || '';
+  const sheetRelationId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  const target = [...relations.matchAll(/<Relationship\b[^>]*>/g)]
+    .map(match => match[0])
+    .find(relation => relation.includes(`Id="${sheetRelationId}"`))
+    ?.match(/Target="([^"]+)"/)?.[1];
+  const sheetPath = target
+    ? target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    : 'xl/worksheets/sheet1.xml';
+
+  const sheet = read(sheetPath);
+  if (!sheet) {
+    throw new Error('XLSX file has no worksheet');
+  }
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => readStringItem(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const reference = /\br="([A-Z]+\d+)"/i.exec(attributes)?.[1];
+      const type = /\bt="([^"]+)"/.exec(attributes)?.[1];
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value: string;
+      if (type === 'inlineStr') {
+        value = readStringItem(body);
+      } else if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else {
+        value = rawValue !== undefined ? decodeXml(rawValue) : '';
+      }
+
+      const index = reference ? columnIndex(reference) : cells.length;
+      while (cells.length < index) cells.push('');
+      cells[index] = value;
+    }
+
+    rows.push(cells);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+/**
+ * Parse an uploaded spreadsheet into rows of cells
+ */
+export const parseSpreadsheet = (format: ImportFormat, file: Buffer): string[][] =>
+  format === 'xlsx' ? parseXlsx(file) : parseCsv(file.toString('utf8'));
+
+/**
+ * Normalize a header or label for matching: no accents, spaces, punctuation or case
+ */
+export const normalizeHeader = (header: string): string =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parse a number typed with either decimal comma (1.234,5) or decimal dot (1234.5)
+ */
+export const parseDecimalCell = (value: string): number => {
+  const text = value.trim().replace(/\s/g, '').replace(/^R\$/i, '');
+  if (text === '') return NaN;
+
+  const normalized = text.includes(',')
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text;
+
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+};
+
+/**
+ * What an imported row does to the stored records
+ */
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+/**
+ * Field changed by an imported row
+ */
+export interface ImportChange {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+/**
+ * Number of rows per action
+ */
+export interface ImportSummary {
+  total: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  errors: number;
+}
+
+/**
+ * Count the actions of the imported rows
+ */
+export const summarizeImport = (rows: { action: ImportAction }[]): ImportSummary => {
+  const count = (action: ImportAction) => rows.filter(row => row.action === action).length;
+
+  return {
+    total: rows.length,
+    created: count('create'),
+    updated: count('update'),
+    unchanged: count('unchanged'),
+    errors: count('error')
+  };
+};
+
+/**
+ * Fields whose stored value differs after an update, numbers are compared by value
+ */
+export const diffFields = <T extends object>(previous: T, updated: T, fields: string[]): ImportChange[] => {
+  const changes: ImportChange[] = [];
+
+  for (const field of fields) {
+    const from = (previous[field as keyof T] ?? null) as string | number | null;
+    const to = (updated[field as keyof T] ?? null) as string | number | null;
+    const isNumeric = from !== null && to !== null && !Number.isNaN(Number(from)) && !Number.isNaN(Number(to));
+
+    if (isNumeric ? Number(from) !== Number(to) : from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Thrown inside an import transaction to roll it back while keeping the row results
+ */
+export class ImportRollback<T> extends Error {
+  constructor(public result: T) {
+    super('Import rolled back');
+  }
+}
+
+/**
+ * Thrown inside a row savepoint when the row would not change the stored record
+ */
+export class UnchangedRow extends Error {}
@@ -0,0 +1,90 @@
+/**
+ * Interval job utilities
+ * Runs background work in the server process on a fixed interval, counted from the end of the previous run
+ */
+
+/**
+ * Options of an interval job
+ */
+export interface IntervalJobOptions {
+    // Work done on every run, it should record its own failures
+    run: () => Promise<void>;
+    intervalMs: number;
+    // Delay before the first run, so the job does not compete with the server start
+    firstRunDelayMs: number;
+}
+
+/**
+ * Interval job class
+ * A run never overlaps another one, and the timer does not keep the process alive on shutdown.
+ */
+export class IntervalJob {
+    private timer: NodeJS.Timeout | null = null;
+    private nextRunAt: Date | null = null;
+    private running = false;
+
+    constructor(private readonly options: IntervalJobOptions) {}
+
+    /**
+     * Start running on the interval, does nothing when already started
+     */
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.schedule(this.options.firstRunDelayMs);
+    }
+
+    /**
+     * Stop the timer, a run in progress finishes on its own
+     */
+    stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.nextRunAt = null;
+    }
+
+    /**
+     * Run once now, skipped when a run is already in progress
+     */
+    async run(): Promise<void> {
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        try {
+            await this.options.run();
+        } finally {
+            this.running = false;
+        }
+    }
+
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    getNextRunAt(): Date | null {
+        return this.nextRunAt;
+    }
+
+    private schedule(delayMs: number): void {
+        this.nextRunAt = new Date(Date.now() + delayMs);
+        this.timer = setTimeout(async () => {
+            try {
+                await this.run();
+            } catch (error) {
+                // The next run tries again
+                console.error('Interval job failed:', error);
+            }
+            // Stopped while running
+            if (this.timer) {
+                this.schedule(this.options.intervalMs);
+            }
+        }, delayMs);
+        this.timer.unref();
+    }
+}
@@ -1,3 +1,4 @@
+import { randomBytes, randomUUID, createHash } from 'node:crypto';
 import jwt, { SignOptions, JwtPayload as JwtLibPayload } from 'jsonwebtoken';
 import { jwtConfig, JwtPayload } from '../config/jwt';
 
@@ -7,17 +8,20 @@ import { jwtConfig, JwtPayload } from '../config/jwt';
 
 /**
  * Generate a JWT token for a user
+ * Every token gets a unique id (jti) so it can be revoked before it expires, and its issue time in milliseconds
+ * so it can be told apart from a revocation made in the same second
  * @param payload - User data to include in token
  * @returns Promise that resolves to JWT token string
  */
-export const generateToken = async (payload: Omit<JwtPayload, 'iat' | 'exp' | 'iss'>): Promise<string> => {
+export const generateToken = async (payload: Omit<JwtPayload, 'iat' | 'iatMs' | 'exp' | 'iss' | 'jti'>): Promise<string> => {
   return new Promise((resolve, reject) => {
     jwt.sign(
-      payload,
+      { ...payload, iatMs: Date.now() },
       jwtConfig.secret,
       {
         expiresIn: jwtConfig.expiresIn,
         issuer: jwtConfig.issuer,
+        jwtid: randomUUID(),
       } as SignOptions,
       (error: Error | null, token?: string) => {
         if (error) {
@@ -96,4 +100,21 @@ export const isTokenExpired = (token: string): boolean => {
   } catch (error) {
     return true;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Generate an opaque refresh token
+ * @returns Random URL-safe token string
+ */
+export const generateRefreshToken = (): string => {
+  return randomBytes(48).toString('base64url');
+};
+
+/**
+ * Hash a refresh token for storage, the plain token is never persisted
+ * @param token - Refresh token string
+ * @returns Hex encoded SHA-256 hash
+ */
+export const hashRefreshToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
@@ -0,0 +1,52 @@
+/**
+ * Compressed NDJSON archive utilities
+ * Rows are written one JSON document per line to a gzip file and read back the same way.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { rename, rm } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createGunzip, createGzip } from 'node:zlib';
+
+/**
+ * Write rows to a gzip compressed NDJSON file, returning the number of rows written
+ * The file is written under a temporary name and only renamed once complete, so a crash never leaves a
+ * truncated archive behind the final name.
+ */
+export const writeNdjsonArchive = async (filePath: string, rows: AsyncIterable<object>): Promise<number> => {
+  const partialPath = `${filePath}.partial`;
+  let count = 0;
+
+  async function* lines(): AsyncGenerator<string> {
+    for await (const row of rows) {
+      count++;
+      yield `${JSON.stringify(row)}\n`;
+    }
+  }
+
+  try {
+    await pipeline(Readable.from(lines()), createGzip(), createWriteStream(partialPath));
+    await rename(partialPath, filePath);
+  } catch (error) {
+    await rm(partialPath, { force: true });
+    throw error;
+  }
+
+  return count;
+};
+
+/**
+ * Read the rows of a gzip compressed NDJSON file
+ */
+export async function* readNdjsonArchive(filePath: string): AsyncGenerator<Record<string, unknown>> {
+  const input = createReadStream(filePath).pipe(createGunzip());
+  const reader = createInterface({ input, crlfDelay: Infinity });
+
+  for await (const line of reader) {
+    if (line.trim() !== '') {
+      yield JSON.parse(line) as Record<string, unknown>;
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Pre-sale number utilities
+ * Pre-sales get a yearly sequential number (PV-2026-000123) that customers can read back over the phone
+ */
+
+export const PRESALE_NUMBER_PREFIX = 'PV';
+export const PRESALE_SEQUENCE_LENGTH = 6;
+
+const PRESALE_NUMBER_REGEX = /^PV-?(\d{4})-?(\d{1,6})$/;
+
+/**
+ * Format the pre-sale number of a sequence within a year
+ */
+export function formatPreSaleNumber(year: number, sequence: number): string {
+    return `${PRESALE_NUMBER_PREFIX}-${year}-${sequence.toString().padStart(PRESALE_SEQUENCE_LENGTH, '0')}`;
+}
+
+/**
+ * Normalize a pre-sale number typed by a user to the stored format
+ * Accepts lowercase, missing dashes and missing zero padding ("pv2026123" -> "PV-2026-000123").
+ * Returns null when the value is not a pre-sale number.
+ */
+export function normalizePreSaleNumber(value: string): string | null {
+    const match = value.trim().toUpperCase().match(PRESALE_NUMBER_REGEX);
+    if (!match) {
+        return null;
+    }
+
+    const sequence = parseInt(match[2], 10);
+    if (sequence < 1) {
+        return null;
+    }
+
+    return formatPreSaleNumber(parseInt(match[1], 10), sequence);
+}
@@ -6,6 +6,8 @@
 import { db } from '../db/connection';
 import { products } from '../db/schema/products';
 import { eq } from 'drizzle-orm';
+import { getQuantityDecimals, calculateAvailableStock } from './stock-calculations';
+import { stockReservationService } from '../services/stock-reservation.service';
 
 /**
  * Discount type
@@ -183,14 +185,21 @@ export function recalculatePreSaleTotals(
 }
 
 /**
- * Validate stock availability for pre-sale items
+ * Validate stock availability for pre-sale items against the available stock (stock minus reservations)
  */
 export async function validateStockForPreSale(
-  items: PreSaleItemCalculation[]
+  items: PreSaleItemCalculation[],
+  excludePreSaleId?: string
 ): Promise<StockValidationResult> {
   const errors: string[] = [];
   const productDetails: StockValidationResult['productDetails'] = [];
 
+  // Stock held by approved pre-sales is not available, except what the pre-sale being edited holds itself
+  const reserved = await stockReservationService.getReservedQuantities(
+    items.map(item => item.productId),
+    { excludePreSaleId }
+  );
+
   for (const item of items) {
     try {
       // Get product information
@@ -199,6 +208,8 @@ export async function validateStockForPreSale(
           id: products.id,
           name: products.name,
           stock: products.stock,
+          unit: products.unit,
+          saleType: products.saleType,
         })
         .from(products)
         .where(eq(products.id, item.productId))
@@ -211,18 +222,19 @@ export async function validateStockForPreSale(
 
       const productInfo = product[0];
       const requestedQuantity = typeof item.quantity === 'string' ? parseFloat(item.quantity) : item.quantity;
+      const availableStock = calculateAvailableStock(productInfo.stock, reserved.get(item.productId) || 0);
 
       productDetails.push({
         productId: item.productId,
         productName: productInfo.name,
-        availableStock: productInfo.stock,
+        availableStock,
         requestedQuantity,
       });
 
       // Check stock availability
-      if (requestedQuantity > productInfo.stock) {
+      if (requestedQuantity > availableStock) {
         errors.push(
-          `Insufficient stock for "${productInfo.name}". Available: ${productInfo.stock}, Requested: ${requestedQuantity}`
+          `Insufficient stock for "${productInfo.name}". Available: ${availableStock}, Requested: ${requestedQuantity}`
         );
       }
 
@@ -230,6 +242,11 @@ export async function validateStockForPreSale(
       if (requestedQuantity <= 0) {
         errors.push(`Invalid quantity for "${productInfo.name}": must be greater than 0`);
       }
+
+      // Products sold by unit can't be sold in fractions
+      if (getQuantityDecimals(productInfo) === 0 && !Number.isInteger(requestedQuantity)) {
+        errors.push(`Invalid quantity for "${productInfo.name}": must be a whole number, product is sold by unit`);
+      }
     } catch (error) {
       errors.push(`Error validating product ${item.productId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -368,4 +368,118 @@ export function convertMarkupToMargin(markupPercentage: number): number {
 
     const marginPercentage = (markupPercentage / (100 + markupPercentage)) * 100;
     return roundMoney(marginPercentage);
-}
\ No newline at end of file
+}
+
+/**
+ * Interface for a promotion rule used in discount calculations
+ */
+export interface PromotionRule {
+    id: string;
+    type: 'percentage' | 'fixed';
+    value: number;
+    priority: number;
+    minAmount?: number;
+    maxDiscount?: number;
+}
+
+/**
+ * Interface for the result of applying promotions to an amount
+ */
+export interface PromotionApplicationResult {
+    totalDiscount: number;
+    applied: Array<{ id: string; amount: number }>;
+}
+
+/**
+ * Calculate discount amount for a single promotion
+ * Respects the minimum amount requirement and the maximum discount cap
+ */
+export function calculatePromotionDiscount(
+    promotion: Pick<PromotionRule, 'type' | 'value' | 'minAmount' | 'maxDiscount'>,
+    amount: number
+): number {
+    // Check minimum amount requirement
+    if (promotion.minAmount && amount < promotion.minAmount) {
+        return 0;
+    }
+
+    let discountAmount = 0;
+
+    if (promotion.type === 'percentage') {
+        discountAmount = (amount * promotion.value) / 100;
+
+        // Apply maximum discount limit if specified
+        if (promotion.maxDiscount && discountAmount > promotion.maxDiscount) {
+            discountAmount = promotion.maxDiscount;
+        }
+    } else {
+        // Fixed discount
+        discountAmount = promotion.value;
+    }
+
+    // Ensure discount doesn't exceed the amount
+    return Math.max(0, Math.min(discountAmount, amount));
+}
+
+/**
+ * Apply promotions to an amount in order of priority
+ * Higher priority promotions are applied first, each one over the amount left by the previous
+ */
+export function applyPromotions(promotions: PromotionRule[], amount: number): PromotionApplicationResult {
+    const ordered = [...promotions].sort((a, b) => b.priority - a.priority);
+    const applied: PromotionApplicationResult['applied'] = [];
+
+    let totalDiscount = 0;
+    let remainingAmount = amount;
+
+    for (const promotion of ordered) {
+        // Stop if remaining amount is zero or negative
+        if (remainingAmount <= 0) {
+            break;
+        }
+
+        const discountAmount = roundMoney(calculatePromotionDiscount(promotion, remainingAmount));
+        if (discountAmount <= 0) {
+            continue;
+        }
+
+        applied.push({ id: promotion.id, amount: discountAmount });
+        totalDiscount += discountAmount;
+        remainingAmount -= discountAmount;
+    }
+
+    return {
+        totalDiscount: roundMoney(Math.min(totalDiscount, amount)),
+        applied,
+    };
+}
+
+/**
+ * Customer tiers recognised by the discount engine
+ */
+export type CustomerTier = 'regular' | 'premium' | 'vip';
+
+/**
+ * Default discount percentage granted to each customer tier
+ */
+export const CUSTOMER_TIER_DISCOUNT_RATES: Record<CustomerTier, number> = {
+    regular: 0,
+    premium: 5,
+    vip: 10,
+};
+
+/**
+ * Resolve the discount percentage that applies to a customer
+ * A negotiated rate takes precedence over the tier default, even when it is lower
+ */
+export function resolveCustomerDiscountRate(
+    tier: CustomerTier | null | undefined,
+    negotiatedRate?: string | number | null
+): number {
+    if (negotiatedRate !== null && negotiatedRate !== undefined && negotiatedRate !== '') {
+        const rate = validateAndConvertNumber(negotiatedRate, 'discount rate');
+        return Math.max(0, Math.min(rate, 100));
+    }
+
+    return CUSTOMER_TIER_DISCOUNT_RATES[tier ?? 'regular'] ?? 0;
+}
@@ -0,0 +1,74 @@
+/**
+ * Purchasing calculation utilities
+ * Handles purchase order totals, receiving progress and suggested order quantities
+ */
+
+import { roundMoney } from './price-calculations';
+import {
+    type StockLevels,
+    type StockUnitInfo,
+    applyStockChange,
+    getQuantityDecimals,
+    getReorderPoint,
+    roundQuantity,
+} from './stock-calculations';
+
+/**
+ * Purchase order statuses reached by receiving
+ */
+export type ReceivingStatus = 'ordered' | 'partially_received' | 'received';
+
+/**
+ * Quantities of a purchase order line
+ */
+export interface PurchaseOrderLine {
+    quantity: number;
+    receivedQuantity: number;
+}
+
+/**
+ * Expected cost of the lines of a purchase order
+ */
+export function calculatePurchaseOrderTotal(lines: Array<{ quantity: number; unitCost: string | number }>): number {
+    return roundMoney(lines.reduce((sum, line) => sum + line.quantity * Number(line.unitCost), 0));
+}
+
+/**
+ * Quantity of a line still waiting to be received
+ */
+export function getOutstandingQuantity(line: PurchaseOrderLine): number {
+    return Math.max(0, applyStockChange(line.quantity, -line.receivedQuantity));
+}
+
+/**
+ * Status of an order from what its lines received: nothing, part of it or everything
+ */
+export function getReceivingStatus(lines: PurchaseOrderLine[]): ReceivingStatus {
+    if (lines.every(line => getOutstandingQuantity(line) === 0)) {
+        return 'received';
+    }
+
+    return lines.some(line => line.receivedQuantity > 0) ? 'partially_received' : 'ordered';
+}
+
+/**
+ * Quantity to order for a product at or below its reorder point
+ * Orders up to the maximum stock, or twice the reorder point without a maximum. The quantity is rounded up to the
+ * precision of the product unit and is 0 when the stock is already there.
+ */
+export function calculateSuggestedOrderQuantity(
+    available: number,
+    levels: StockLevels,
+    defaultThreshold: number,
+    product: StockUnitInfo
+): number {
+    const target = levels.maxStock ?? getReorderPoint(levels, defaultThreshold) * 2;
+    const missing = applyStockChange(target, -available);
+
+    if (missing <= 0) {
+        return 0;
+    }
+
+    const factor = 10 ** getQuantityDecimals(product);
+    return roundQuantity(Math.ceil(roundQuantity(missing * factor)) / factor);
+}
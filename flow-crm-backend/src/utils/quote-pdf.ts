@@ -0,0 +1,382 @@
+/**
+ * Quote PDF utilities
+ * Renders the pre-sale quote (orçamento) handed to customers: company header, items table paged with
+ * repeated headers, totals broken down by discount, validity date, terms and a signature block
+ */
+
+import { jsPDF } from 'jspdf';
+import { autoTable, type RowInput } from 'jspdf-autotable';
+import { roundMoney } from './price-calculations';
+import type { DocumentType } from './cpf-cnpj-validator';
+import { QUOTE_TIME_ZONE } from './quote-validity';
+import { TAX_KINDS, type TaxBreakdown } from './tax-calculations';
+
+const PAGE_MARGIN = 14;
+const FOOTER_HEIGHT = 14;
+const SIGNATURE_BLOCK_HEIGHT = 30;
+const HEADER_COLOR: [number, number, number] = [37, 99, 235];
+
+/**
+ * Company data printed on the quote header
+ */
+export interface QuoteCompany {
+    name: string | null;
+    cnpj: string | null;
+    address: string | null;
+    logo: string | null;
+}
+
+/**
+ * Customer data printed on the quote
+ */
+export interface QuoteCustomer {
+    name: string;
+    companyName: string | null;
+    document: string;
+    documentType: DocumentType;
+    email: string;
+    phone: string | null;
+    address: string | null;
+}
+
+/**
+ * Quote line, `totalPrice` is the line amount after the item and promotional discounts
+ * `taxBreakdown` is null for lines saved before taxes were calculated
+ */
+export interface QuoteItem {
+    code: string;
+    name: string;
+    unit: string;
+    quantity: number;
+    unitPrice: number;
+    discount: number;
+    promotionDiscount: number;
+    totalPrice: number;
+    taxBreakdown: TaxBreakdown | null;
+}
+
+/**
+ * Everything printed on a quote
+ */
+export interface QuoteDocument {
+    number: string;
+    issuedAt: Date;
+    // Last day the quote is valid, YYYY-MM-DD
+    validUntil: string;
+    company: QuoteCompany;
+    customer: QuoteCustomer;
+    salespersonName: string | null;
+    paymentMethod: string | null;
+    items: QuoteItem[];
+    globalDiscount: number;
+    notes: string | null;
+    terms: string | null;
+}
+
+/**
+ * Quote totals
+ * `taxes` are informational, they are already included in the line prices
+ */
+export interface QuoteTotals {
+    grossTotal: number;
+    itemDiscounts: number;
+    subtotal: number;
+    globalDiscount: number;
+    total: number;
+    taxes: number;
+}
+
+/**
+ * Calculate the totals printed on the quote
+ * The item discounts cover both the discounts given on the lines and the active promotions.
+ */
+export function calculateQuoteTotals(items: QuoteItem[], globalDiscount: number): QuoteTotals {
+    const grossTotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+    const itemDiscounts = items.reduce((sum, item) => sum + item.discount + item.promotionDiscount, 0);
+    const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+    const taxes = items.reduce((sum, item) => sum + (item.taxBreakdown?.amount ?? 0), 0);
+    const appliedGlobalDiscount = Math.min(Math.max(0, globalDiscount), subtotal);
+
+    return {
+        grossTotal: roundMoney(grossTotal),
+        itemDiscounts: roundMoney(itemDiscounts),
+        subtotal: roundMoney(subtotal),
+        globalDiscount: roundMoney(appliedGlobalDiscount),
+        total: roundMoney(subtotal - appliedGlobalDiscount),
+        taxes: roundMoney(taxes)
+    };
+}
+
+/**
+ * File name offered when downloading the quote
+ */
+export function getQuoteFileName(number: string): string {
+    return `orcamento-${number}.pdf`;
+}
+
+const formatMoney = (value: number): string =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatQuantity = (value: number): string =>
+    new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 3 }).format(value);
+
+const formatRate = (value: number): string =>
+    new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 2 }).format(value);
+
+const formatDate = (value: Date): string =>
+    value.toLocaleDateString('pt-BR', { timeZone: QUOTE_TIME_ZONE });
+
+const formatDay = (value: string): string => value.split('-').reverse().join('/');
+
+/**
+ * Image format of a logo data URL, null when it cannot be embedded
+ */
+function getLogoFormat(logo: string): 'PNG' | 'JPEG' | null {
+    const match = logo.match(/^data:image\/(png|jpeg);base64,/);
+    return match ? (match[1] === 'png' ? 'PNG' : 'JPEG') : null;
+}
+
+/**
+ * Draw the company header and return the vertical position after it
+ */
+function drawHeader(doc: jsPDF, company: QuoteCompany): number {
+    let textX = PAGE_MARGIN;
+    let logoBottom = PAGE_MARGIN;
+
+    const logoFormat = company.logo ? getLogoFormat(company.logo) : null;
+    if (company.logo && logoFormat) {
+        try {
+            const { width, height } = doc.getImageProperties(company.logo);
+            const logoHeight = 18;
+            const logoWidth = Math.min(45, (width / height) * logoHeight);
+            doc.addImage(company.logo, logoFormat, PAGE_MARGIN, PAGE_MARGIN, logoWidth, logoHeight);
+            textX = PAGE_MARGIN + logoWidth + 6;
+            logoBottom = PAGE_MARGIN + logoHeight;
+        } catch {
+            // A logo that cannot be decoded should not prevent the quote from being issued
+        }
+    }
+
+    let y = PAGE_MARGIN + 5;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text(company.name || 'Orçamento', textX, y);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    if (company.cnpj) {
+        y += 5;
+        doc.text(`CNPJ: ${company.cnpj}`, textX, y);
+    }
+    if (company.address) {
+        const lines = doc.splitTextToSize(company.address, doc.internal.pageSize.getWidth() - textX - PAGE_MARGIN);
+        y += 5;
+        doc.text(lines, textX, y);
+        y += (lines.length - 1) * 4;
+    }
+
+    y = Math.max(y, logoBottom) + 4;
+    doc.setDrawColor(200);
+    doc.line(PAGE_MARGIN, y, doc.internal.pageSize.getWidth() - PAGE_MARGIN, y);
+    return y + 8;
+}
+
+/**
+ * Draw a label followed by its value and return the vertical position of the next line
+ */
+function drawField(doc: jsPDF, label: string, value: string, x: number, y: number): number {
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, x, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, x + doc.getTextWidth(`${label}: `), y);
+    return y + 5;
+}
+
+/**
+ * Per-tax line printed under an item, e.g. "ICMS 18%: R$ 15,30 | IPI 0%: R$ 0,00 | ..."
+ */
+export function formatTaxBreakdown(breakdown: TaxBreakdown): string {
+    return TAX_KINDS
+        .map(kind => `${kind.toUpperCase()} ${formatRate(breakdown[kind].rate)}%: ${formatMoney(breakdown[kind].amount)}`)
+        .join(' | ');
+}
+
+/**
+ * Add a new page when the content about to be drawn does not fit in the current one
+ */
+function ensureSpace(doc: jsPDF, y: number, height: number): number {
+    if (y + height > doc.internal.pageSize.getHeight() - FOOTER_HEIGHT) {
+        doc.addPage();
+        return PAGE_MARGIN + 6;
+    }
+    return y;
+}
+
+/**
+ * Draw a titled text block, wrapping and paging long texts
+ */
+function drawTextBlock(doc: jsPDF, title: string, text: string, y: number): number {
+    const width = doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+
+    y = ensureSpace(doc, y, 12);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text(title, PAGE_MARGIN, y);
+    y += 5;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    for (const line of doc.splitTextToSize(text, width) as string[]) {
+        y = ensureSpace(doc, y, 4);
+        doc.text(line, PAGE_MARGIN, y);
+        y += 4;
+    }
+
+    return y + 4;
+}
+
+/**
+ * Render the quote as a PDF file
+ */
+export function renderQuotePdf(quote: QuoteDocument): Buffer {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const rightX = pageWidth - PAGE_MARGIN;
+    const totals = calculateQuoteTotals(quote.items, quote.globalDiscount);
+
+    doc.setProperties({ title: `Orçamento ${quote.number}` });
+
+    let y = drawHeader(doc, quote.company);
+
+    // Title, issue date and validity
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.text(`Orçamento ${quote.number}`, PAGE_MARGIN, y);
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Emitido em ${formatDate(quote.issuedAt)}`, rightX, y - 4, { align: 'right' });
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Válido até ${formatDay(quote.validUntil)}`, rightX, y + 1, { align: 'right' });
+    y += 10;
+
+    // Customer and sale conditions
+    doc.setFontSize(9);
+    const { customer } = quote;
+    y = drawField(doc, 'Cliente', customer.companyName ? `${customer.companyName} (${customer.name})` : customer.name, PAGE_MARGIN, y);
+    y = drawField(doc, customer.documentType === 'cnpj' ? 'CNPJ' : 'CPF', customer.document, PAGE_MARGIN, y);
+    y = drawField(doc, 'Contato', [customer.email, customer.phone].filter(Boolean).join(' · '), PAGE_MARGIN, y);
+    if (customer.address) {
+        y = drawField(doc, 'Endereço', customer.address, PAGE_MARGIN, y);
+    }
+    y = drawField(doc, 'Vendedor', quote.salespersonName || '-', PAGE_MARGIN, y);
+    y = drawField(doc, 'Forma de pagamento', quote.paymentMethod || 'A combinar', PAGE_MARGIN, y);
+
+    // Items, the header row is repeated on every page and each line with taxes gets a sub-row with the breakdown
+    const columns = ['Código', 'Produto', 'Qtd.', 'Un.', 'Preço Unit.', 'Desconto', 'Total'];
+    const body: RowInput[] = [];
+    // Item of each body row, so a line and its tax sub-row share the same stripe
+    const rowItems: number[] = [];
+    quote.items.forEach((item, index) => {
+        body.push([
+            item.code,
+            item.name,
+            formatQuantity(item.quantity),
+            item.unit,
+            formatMoney(item.unitPrice),
+            formatMoney(roundMoney(item.discount + item.promotionDiscount)),
+            formatMoney(item.totalPrice)
+        ]);
+        rowItems.push(index);
+
+        if (item.taxBreakdown) {
+            body.push([{
+                content: formatTaxBreakdown(item.taxBreakdown),
+                colSpan: columns.length,
+                styles: { fontSize: 7, textColor: 100, cellPadding: { top: 0, right: 1.5, bottom: 1.5, left: 1.5 } }
+            }]);
+            rowItems.push(index);
+        }
+    });
+
+    autoTable(doc, {
+        startY: y + 3,
+        margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, bottom: FOOTER_HEIGHT + 4 },
+        showHead: 'everyPage',
+        head: [columns],
+        body,
+        didParseCell: data => {
+            if (data.section === 'body') {
+                data.cell.styles.fillColor = rowItems[data.row.index] % 2 === 1 ? 245 : 255;
+            }
+        },
+        styles: { fontSize: 8, cellPadding: 1.5 },
+        headStyles: { fillColor: HEADER_COLOR },
+        columnStyles: {
+            0: { cellWidth: 22 },
+            2: { halign: 'right', cellWidth: 14 },
+            3: { cellWidth: 10 },
+            4: { halign: 'right', cellWidth: 24 },
+            5: { halign: 'right', cellWidth: 22 },
+            6: { halign: 'right', cellWidth: 26 }
+        }
+    });
+
+    y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+
+    // Totals
+    const totalLines: [string, number][] = [
+        ['Valor bruto', totals.grossTotal],
+        ['Descontos nos itens', -totals.itemDiscounts],
+        ['Subtotal', totals.subtotal],
+        ['Desconto geral', -totals.globalDiscount]
+    ];
+    y = ensureSpace(doc, y, totalLines.length * 5 + 16);
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    for (const [label, value] of totalLines) {
+        doc.text(label, rightX - 60, y);
+        doc.text(formatMoney(value), rightX, y, { align: 'right' });
+        y += 5;
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text('Total', rightX - 60, y + 1);
+    doc.text(formatMoney(totals.total), rightX, y + 1, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    y += 6;
+    doc.text(`Impostos inclusos: ${formatMoney(totals.taxes)}`, rightX, y, { align: 'right' });
+    y += 10;
+
+    if (quote.notes) {
+        y = drawTextBlock(doc, 'Observações', quote.notes, y);
+    }
+    if (quote.terms) {
+        y = drawTextBlock(doc, 'Condições comerciais', quote.terms, y);
+    }
+
+    // Signature block
+    y = ensureSpace(doc, y, SIGNATURE_BLOCK_HEIGHT);
+    y += 18;
+    const signatureWidth = 75;
+    doc.setDrawColor(0);
+    doc.setFontSize(9);
+    doc.line(PAGE_MARGIN, y, PAGE_MARGIN + signatureWidth, y);
+    doc.text(customer.companyName || customer.name, PAGE_MARGIN, y + 5);
+    doc.line(rightX - signatureWidth, y, rightX, y);
+    doc.text(quote.company.name || 'Responsável', rightX - signatureWidth, y + 5);
+
+    // Footer with the quote number and page count on every page
+    const pageCount = doc.getNumberOfPages();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.text(`Orçamento ${quote.number}`, PAGE_MARGIN, pageHeight - 8);
+        doc.text(`Página ${page} de ${pageCount}`, rightX, pageHeight - 8, { align: 'right' });
+    }
+
+    return Buffer.from(doc.output('arraybuffer'));
+}
@@ -0,0 +1,56 @@
+/**
+ * Quote validity utilities
+ * Pre-sales are quotes valid until the end of a calendar day (`valid_until`, YYYY-MM-DD). Days are counted in the
+ * time zone of the stores so a quote does not expire in the evening because the server runs in UTC.
+ */
+
+/**
+ * Time zone used to decide which calendar day it is
+ */
+export const QUOTE_TIME_ZONE = 'America/Sao_Paulo';
+
+const QUOTE_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Calendar day of a moment in the stores time zone, as YYYY-MM-DD
+ */
+export function toQuoteDate(date: Date): string {
+    // The Canadian English locale formats dates as YYYY-MM-DD
+    return date.toLocaleDateString('en-CA', { timeZone: QUOTE_TIME_ZONE });
+}
+
+/**
+ * Check whether a value is a real calendar day in the YYYY-MM-DD format
+ */
+export function isQuoteDate(value: string): boolean {
+    if (!QUOTE_DATE_REGEX.test(value)) {
+        return false;
+    }
+
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Add calendar days to a YYYY-MM-DD date
+ */
+export function addQuoteDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Last day a quote issued at a given moment is valid
+ */
+export function calculateQuoteValidUntil(issuedAt: Date, validityDays: number): string {
+    return addQuoteDays(toQuoteDate(issuedAt), validityDays);
+}
+
+/**
+ * Check whether a quote valid until a given day has expired at a given moment
+ * The quote is still valid during its last day.
+ */
+export function isQuoteOverdue(validUntil: string, now: Date = new Date()): boolean {
+    return validUntil < toQuoteDate(now);
+}
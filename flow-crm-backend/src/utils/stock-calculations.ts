@@ -0,0 +1,151 @@
+/**
+ * Stock quantity utilities
+ * Handles the precision of stock quantities for products sold by unit or by weight/length/volume
+ */
+
+/**
+ * Decimal places stored for stock quantities (decimal(12, 3) columns)
+ */
+export const STOCK_DECIMAL_PLACES = 3;
+
+/**
+ * Decimal places kept for fractional products per unit
+ * Units not listed use STOCK_DECIMAL_PLACES
+ */
+const FRACTIONAL_UNIT_DECIMALS: Record<string, number> = {
+    kg: 3, // grams
+    l: 3, // milliliters
+    m: 3, // millimeters
+    g: 1,
+    ml: 1,
+    cm: 1,
+};
+
+/**
+ * Product fields that define how its quantities are rounded
+ */
+export interface StockUnitInfo {
+    unit: string;
+    saleType: string;
+}
+
+/**
+ * Get the decimal places allowed for a product quantity
+ * Products sold by unit only move whole quantities
+ */
+export function getQuantityDecimals(product: StockUnitInfo): number {
+    if (product.saleType !== 'fractional') {
+        return 0;
+    }
+
+    return FRACTIONAL_UNIT_DECIMALS[product.unit.trim().toLowerCase()] ?? STOCK_DECIMAL_PLACES;
+}
+
+/**
+ * Round a quantity to the given decimal places
+ * toPrecision removes binary noise first, so 2.3 - 0.1 rounds to 2.2 and not 2.1999
+ */
+export function roundQuantity(value: number, decimals: number = STOCK_DECIMAL_PLACES): number {
+    const factor = 10 ** decimals;
+    return Math.round(Number((value * factor).toPrecision(15))) / factor;
+}
+
+/**
+ * Check that a quantity fits the stock columns (at most STOCK_DECIMAL_PLACES decimals)
+ */
+export function hasStockPrecision(value: number): boolean {
+    return Number.isFinite(value) && roundQuantity(value) === value;
+}
+
+/**
+ * Normalize a quantity moved in or out of stock according to the product unit
+ * Fractions are rejected for products sold by unit, fractional products are rounded to their unit precision
+ */
+export function normalizeStockQuantity(quantity: number, product: StockUnitInfo): number {
+    const decimals = getQuantityDecimals(product);
+
+    if (decimals === 0 && !Number.isInteger(roundQuantity(quantity))) {
+        throw new Error(`Quantity must be a whole number for products sold by unit. Received: ${quantity}`);
+    }
+
+    return roundQuantity(quantity, decimals);
+}
+
+/**
+ * Apply a stock movement, keeping the stored precision
+ */
+export function applyStockChange(currentStock: number, change: number): number {
+    return roundQuantity(currentStock + change);
+}
+
+/**
+ * Stock that can still be promised: on hand minus the quantity reserved by approved pre-sales
+ * Never negative, stock adjusted below the reserved quantity leaves nothing available
+ */
+export function calculateAvailableStock(stock: number, reserved: number): number {
+    return Math.max(0, applyStockChange(stock, -reserved));
+}
+
+/**
+ * Stock levels configured on a product, null when not configured
+ */
+export interface StockLevels {
+    minStock: number | null;
+    reorderPoint: number | null;
+    maxStock: number | null;
+}
+
+/**
+ * Severity of a low-stock alert
+ */
+export type StockAlertSeverity = 'low' | 'critical';
+
+/**
+ * Stock at which a product must be reordered: its reorder point, its minimum or the default threshold
+ */
+export function getReorderPoint(levels: StockLevels, defaultThreshold: number): number {
+    return levels.reorderPoint ?? levels.minStock ?? defaultThreshold;
+}
+
+/**
+ * Get the alert raised by the available stock of a product, null when the stock is fine
+ * Stock at or below the reorder point is low and at or below the minimum is critical. Without a reorder point the
+ * minimum is used, without a minimum only an empty stock is critical; without either the default threshold is the
+ * reorder point and half of it the minimum.
+ */
+export function getStockAlertSeverity(
+    available: number,
+    levels: StockLevels,
+    defaultThreshold: number
+): StockAlertSeverity | null {
+    const reorderPoint = getReorderPoint(levels, defaultThreshold);
+    const minStock = levels.minStock ?? (levels.reorderPoint === null ? defaultThreshold / 2 : 0);
+
+    if (available <= minStock) {
+        return 'critical';
+    }
+
+    return available <= reorderPoint ? 'low' : null;
+}
+
+/**
+ * Quantity to order to bring the available stock back to the maximum, null without a maximum
+ */
+export function calculateReorderQuantity(available: number, maxStock: number | null): number | null {
+    if (maxStock === null) {
+        return null;
+    }
+
+    return Math.max(0, applyStockChange(maxStock, -available));
+}
+
+/**
+ * Check that the configured levels are ordered: minimum <= reorder point <= maximum
+ */
+export function hasOrderedStockLevels(levels: StockLevels): boolean {
+    const configured = [levels.minStock, levels.reorderPoint, levels.maxStock].filter(
+        (level): level is number => level !== null
+    );
+
+    return configured.every((level, index) => index === 0 || configured[index - 1] <= level);
+}
@@ -0,0 +1,122 @@
+/**
+ * Tax calculation utilities
+ * Handles Brazilian tax rate resolution (ICMS, IPI, PIS, COFINS) and per-tax breakdowns
+ */
+
+import { roundMoney } from './price-calculations';
+
+/**
+ * Brazilian federative units accepted as ICMS destination states
+ */
+export const BRAZILIAN_STATES = [
+    'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+    'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO'
+] as const;
+
+export type BrazilianState = typeof BRAZILIAN_STATES[number];
+
+/**
+ * Taxes computed for every line
+ */
+export const TAX_KINDS = ['icms', 'ipi', 'pis', 'cofins'] as const;
+
+export type TaxKind = typeof TAX_KINDS[number];
+
+/**
+ * Percentage rates for each tax
+ */
+export type TaxRates = Record<TaxKind, number>;
+
+/**
+ * Optional rates coming from a configuration source (product or NCM code)
+ * Null or undefined means the source does not define that tax
+ */
+export type TaxRateSource = Partial<Record<TaxKind, string | number | null>>;
+
+/**
+ * Rate and amount of a single tax
+ */
+export interface TaxLine {
+    rate: number;
+    amount: number;
+}
+
+/**
+ * Per-tax breakdown for an amount
+ * `amount` and `rate` hold the combined values of all taxes
+ */
+export interface TaxBreakdown extends Record<TaxKind, TaxLine> {
+    amount: number;
+    rate: number;
+}
+
+/**
+ * Check whether a value is a valid Brazilian state code
+ */
+export function isBrazilianState(value: string): value is BrazilianState {
+    return (BRAZILIAN_STATES as readonly string[]).includes(value);
+}
+
+/**
+ * Convert an optional configured rate to a number, returning null when it is not defined
+ */
+function toRate(value: string | number | null | undefined): number | null {
+    if (value === null || value === undefined || value === '') {
+        return null;
+    }
+
+    const rate = typeof value === 'string' ? parseFloat(value) : value;
+    return Number.isNaN(rate) ? null : Math.max(0, rate);
+}
+
+/**
+ * Resolve the rates that apply to a product
+ * Product overrides win over everything else. ICMS then uses the destination state rate,
+ * and any tax still undefined falls back to the NCM configuration or zero.
+ */
+export function resolveTaxRates(sources: {
+    product?: TaxRateSource | null;
+    ncm?: TaxRateSource | null;
+    stateIcmsRate?: string | number | null;
+}): TaxRates {
+    const rates = {} as TaxRates;
+
+    for (const kind of TAX_KINDS) {
+        const productRate = toRate(sources.product?.[kind]);
+        const stateRate = kind === 'icms' ? toRate(sources.stateIcmsRate) : null;
+        const ncmRate = toRate(sources.ncm?.[kind]);
+
+        rates[kind] = productRate ?? stateRate ?? ncmRate ?? 0;
+    }
+
+    return rates;
+}
+
+/**
+ * Calculate each tax separately over the same taxable amount
+ */
+export function calculateTaxBreakdown(amount: number, rates: TaxRates): TaxBreakdown {
+    const taxableAmount = Math.max(0, amount);
+    const breakdown = { amount: 0, rate: 0 } as TaxBreakdown;
+
+    for (const kind of TAX_KINDS) {
+        const rate = roundMoney(rates[kind]);
+        const taxAmount = roundMoney((taxableAmount * rate) / 100);
+
+        breakdown[kind] = { rate, amount: taxAmount };
+        breakdown.amount += taxAmount;
+        breakdown.rate += rate;
+    }
+
+    breakdown.amount = roundMoney(breakdown.amount);
+    breakdown.rate = roundMoney(breakdown.rate);
+
+    return breakdown;
+}
+
+/**
+ * Breakdown used when taxes are not calculated
+ */
+export function emptyTaxBreakdown(): TaxBreakdown {
+    return calculateTaxBreakdown(0, { icms: 0, ipi: 0, pis: 0, cofins: 0 });
+}
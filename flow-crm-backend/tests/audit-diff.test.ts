@@ -0,0 +1,59 @@
+/**
+ * Tests for audit trail diff utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffAuditSnapshots, parseAuditDetails } from '../src/utils/audit-diff';
+
+describe('Audit Diff', () => {
+    describe('diffAuditSnapshots', () => {
+        it('should list the changed fields of an update', () => {
+            const before = { id: '1', name: 'Arroz', salePrice: '10.00', stock: 5, updatedAt: new Date('2026-01-01') };
+            const after = { id: '1', name: 'Arroz', salePrice: '12.50', stock: 5, updatedAt: new Date('2026-02-01') };
+
+            expect(diffAuditSnapshots(before, after)).toEqual([
+                { field: 'salePrice', from: '10.00', to: '12.50' },
+            ]);
+        });
+
+        it('should compare decimal strings by value', () => {
+            expect(diffAuditSnapshots({ discountRate: '10.00' }, { discountRate: '10' })).toEqual([]);
+        });
+
+        it('should skip fields that only the previous snapshot has', () => {
+            expect(diffAuditSnapshots({ stock: 5, reservedStock: 2 }, { stock: 3 })).toEqual([
+                { field: 'stock', from: 5, to: 3 },
+            ]);
+        });
+
+        it('should record every filled field of created and deleted records', () => {
+            const record = { id: '1', name: 'Ana', companyName: null, tags: ['vip'] };
+
+            expect(diffAuditSnapshots(null, record)).toEqual([
+                { field: 'name', from: null, to: 'Ana' },
+                { field: 'tags', from: null, to: '["vip"]' },
+            ]);
+            expect(diffAuditSnapshots(record, null)).toEqual([
+                { field: 'name', from: 'Ana', to: null },
+                { field: 'tags', from: '["vip"]', to: null },
+            ]);
+        });
+    });
+
+    describe('parseAuditDetails', () => {
+        it('should read structured details', () => {
+            const details = JSON.stringify({ summary: 'Updated product', changes: [{ field: 'name', from: 'A', to: 'B' }] });
+
+            expect(parseAuditDetails(details)).toEqual({
+                summary: 'Updated product',
+                changes: [{ field: 'name', from: 'A', to: 'B' }],
+            });
+        });
+
+        it('should return null for plain text details', () => {
+            expect(parseAuditDetails('Updated NCM tax rate: 1234')).toBeNull();
+            expect(parseAuditDetails('{not json')).toBeNull();
+            expect(parseAuditDetails(null)).toBeNull();
+        });
+    });
+});
@@ -377,6 +377,89 @@ describe('Auth Service Database Integration', () => {
         });
     });
 
+    describe('Session Management', () => {
+        beforeEach(async () => {
+            await authService.register(testUser1);
+        });
+
+        const login = () => authService.login({
+            email: testUser1.email,
+            password: testUser1.password
+        });
+
+        it('should issue a refresh token on login', async () => {
+            const authResponse = await login();
+
+            expect(typeof authResponse.refreshToken).toBe('string');
+            expect(authResponse.expiresIn).toBeGreaterThan(0);
+        });
+
+        it('should rotate the refresh token', async () => {
+            const authResponse = await login();
+
+            const refreshed = await authService.refreshSession(authResponse.refreshToken);
+
+            expect(refreshed.user.email).toBe(testUser1.email);
+            expect(refreshed.refreshToken).not.toBe(authResponse.refreshToken);
+            await expect(authService.validateToken(refreshed.token)).resolves.toBeDefined();
+        });
+
+        it('should revoke the session when a rotated refresh token is reused', async () => {
+            const authResponse = await login();
+            const refreshed = await authService.refreshSession(authResponse.refreshToken);
+
+            await expect(
+                authService.refreshSession(authResponse.refreshToken)
+            ).rejects.toThrow('Refresh token has been revoked');
+
+            // The token issued by the legitimate rotation is revoked as well
+            await expect(
+                authService.refreshSession(refreshed.refreshToken)
+            ).rejects.toThrow('Refresh token has been revoked');
+        });
+
+        it('should reject unknown refresh tokens', async () => {
+            await expect(
+                authService.refreshSession('unknown-refresh-token')
+            ).rejects.toThrow('Invalid refresh token');
+        });
+
+        it('should revoke the access and refresh tokens on logout', async () => {
+            const authResponse = await login();
+
+            await authService.logout(authResponse.token, authResponse.refreshToken);
+
+            await expect(authService.validateToken(authResponse.token)).rejects.toThrow('revoked');
+            await expect(
+                authService.refreshSession(authResponse.refreshToken)
+            ).rejects.toThrow('Refresh token has been revoked');
+        });
+
+        it('should end every session of the user', async () => {
+            const firstSession = await login();
+            const secondSession = await login();
+
+            await authService.logoutAll(firstSession.user.id);
+
+            await expect(authService.validateToken(firstSession.token)).rejects.toThrow('revoked');
+            await expect(authService.validateToken(secondSession.token)).rejects.toThrow('revoked');
+            await expect(
+                authService.refreshSession(secondSession.refreshToken)
+            ).rejects.toThrow('Refresh token has been revoked');
+        });
+
+        it('should accept tokens issued right after all sessions were ended', async () => {
+            const session = await login();
+
+            await authService.logoutAll(session.user.id);
+            const newSession = await login();
+            const refreshed = await authService.refreshSession(newSession.refreshToken);
+
+            await expect(authService.validateToken(newSession.token)).resolves.toBeDefined();
+            await expect(authService.validateToken(refreshed.token)).resolves.toBeDefined();
+        });
+    });
+
     describe('Data Persistence', () => {
         it('should persist user data between operations', async () => {
             // Register user
@@ -0,0 +1,96 @@
+/**
+ * Tests for commission calculation utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    findCommissionRule,
+    resolveCommissionRate,
+    calculateCommission,
+    allocateAmount,
+    getMonthKey,
+} from '../src/utils/commission-calculations';
+
+describe('Commission Calculations', () => {
+    const rules = [
+        { id: 'general', salespersonId: null, category: null, rate: '2.00' },
+        { id: 'category', salespersonId: null, category: 'Ferramentas', rate: '3.00' },
+        { id: 'salesperson', salespersonId: 'user-1', category: null, rate: '4.00' },
+        { id: 'both', salespersonId: 'user-1', category: 'Ferramentas', rate: '5.00' },
+    ];
+
+    describe('findCommissionRule', () => {
+        it('should prefer the most specific rule', () => {
+            expect(findCommissionRule(rules, 'user-1', 'Ferramentas')?.id).toBe('both');
+            expect(findCommissionRule(rules, 'user-1', 'Elétrica')?.id).toBe('salesperson');
+            expect(findCommissionRule(rules, 'user-2', 'Ferramentas')?.id).toBe('category');
+            expect(findCommissionRule(rules, 'user-2', null)?.id).toBe('general');
+        });
+
+        it('should match categories ignoring case and spaces', () => {
+            expect(findCommissionRule(rules, 'user-2', ' ferramentas ')?.id).toBe('category');
+        });
+
+        it('should return null when no rule applies', () => {
+            expect(findCommissionRule(rules.slice(1), 'user-2', null)).toBeNull();
+        });
+    });
+
+    describe('resolveCommissionRate', () => {
+        const rule = {
+            salespersonId: null,
+            category: null,
+            rate: '2.00',
+            tiers: [
+                { minVolume: 50000, rate: 4 },
+                { minVolume: 20000, rate: 3 },
+            ],
+        };
+
+        it('should use the base rate below the first tier', () => {
+            expect(resolveCommissionRate(rule, 19999.99)).toBe(2);
+        });
+
+        it('should use the highest tier reached', () => {
+            expect(resolveCommissionRate(rule, 20000)).toBe(3);
+            expect(resolveCommissionRate(rule, 75000)).toBe(4);
+        });
+
+        it('should use the base rate without tiers', () => {
+            expect(resolveCommissionRate({ ...rule, tiers: null }, 75000)).toBe(2);
+        });
+    });
+
+    describe('calculateCommission', () => {
+        it('should round the commission to cents', () => {
+            expect(calculateCommission(333.33, 2.5)).toBe(8.33);
+        });
+
+        it('should not pay commission on negative amounts', () => {
+            expect(calculateCommission(-100, 5)).toBe(0);
+        });
+    });
+
+    describe('allocateAmount', () => {
+        it('should split the total proportionally to the lines', () => {
+            expect(allocateAmount(90, [50, 50])).toEqual([45, 45]);
+        });
+
+        it('should keep the parts adding up to the total', () => {
+            const parts = allocateAmount(100, [1, 1, 1]);
+
+            expect(parts).toEqual([33.33, 33.33, 33.34]);
+        });
+
+        it('should split evenly when lines have no amount', () => {
+            expect(allocateAmount(10, [0, 0])).toEqual([5, 5]);
+        });
+    });
+
+    describe('getMonthKey', () => {
+        it('should format the year and month', () => {
+            expect(getMonthKey(new Date(2026, 0, 15))).toBe('2026-01');
+            expect(getMonthKey(new Date(2026, 10, 1))).toBe('2026-11');
+        });
+    });
+});
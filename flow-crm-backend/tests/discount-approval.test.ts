@@ -0,0 +1,70 @@
+/**
+ * Tests for discount approval utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    calculateRequestedDiscount,
+    getDiscountLimit,
+    requiresDiscountApproval
+} from '../src/utils/discount-approval';
+
+const LIMITS = { employeeDiscountLimit: 10, managerDiscountLimit: 20 };
+
+describe('Discount approval', () => {
+    describe('calculateRequestedDiscount', () => {
+        it('should add item and global discounts over the gross total', () => {
+            const requested = calculateRequestedDiscount([
+                { quantity: 2, unitPrice: 50, discount: 5 },
+                { quantity: 1, unitPrice: 100, discount: 5 }
+            ], 10);
+
+            expect(requested).toBe(10);
+        });
+
+        it('should use the largest line discount when it is above the overall discount', () => {
+            const requested = calculateRequestedDiscount([
+                { quantity: 1, unitPrice: 10, discount: 3 },
+                { quantity: 1, unitPrice: 990, discount: 0 }
+            ], 0);
+
+            expect(requested).toBe(30);
+        });
+
+        it('should round to two decimal places and never exceed 100%', () => {
+            expect(calculateRequestedDiscount([{ quantity: 3, unitPrice: 10, discount: 1 }], 0)).toBe(3.33);
+            expect(calculateRequestedDiscount([{ quantity: 1, unitPrice: 10, discount: 0 }], 50)).toBe(100);
+        });
+
+        it('should return zero without items or prices', () => {
+            expect(calculateRequestedDiscount([], 0)).toBe(0);
+            expect(calculateRequestedDiscount([{ quantity: 1, unitPrice: 0, discount: 0 }], 0)).toBe(0);
+        });
+    });
+
+    describe('getDiscountLimit', () => {
+        it('should give each role its limit and none to administrators', () => {
+            expect(getDiscountLimit('employee', LIMITS)).toBe(10);
+            expect(getDiscountLimit('manager', LIMITS)).toBe(20);
+            expect(getDiscountLimit('admin', LIMITS)).toBeNull();
+        });
+
+        it('should use the employee limit without a salesperson', () => {
+            expect(getDiscountLimit(null, LIMITS)).toBe(10);
+        });
+    });
+
+    describe('requiresDiscountApproval', () => {
+        it('should only require approval above the limit', () => {
+            expect(requiresDiscountApproval(10, 10, null)).toBe(false);
+            expect(requiresDiscountApproval(10.01, 10, null)).toBe(true);
+            expect(requiresDiscountApproval(90, null, null)).toBe(false);
+        });
+
+        it('should accept discounts up to the approved one', () => {
+            expect(requiresDiscountApproval(15, 10, 15)).toBe(false);
+            expect(requiresDiscountApproval(12, 10, 15)).toBe(false);
+            expect(requiresDiscountApproval(16, 10, 15)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for spreadsheet export utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'node:zlib';
+import {
+    type ExportColumn,
+    formatCsvCell,
+    streamCsv,
+    streamXlsx,
+    crc32,
+} from '../src/utils/export-formats';
+
+interface Row {
+    name: string;
+    price: number;
+}
+
+const columns: ExportColumn<Row>[] = [
+    { header: 'Nome', value: row => row.name },
+    { header: 'Preço', value: row => row.price },
+];
+
+async function* rowsOf(rows: Row[]): AsyncGenerator<Row> {
+    yield* rows;
+}
+
+const collect = async (chunks: AsyncIterable<string | Buffer>): Promise<Buffer> => {
+    const parts: Buffer[] = [];
+    for await (const chunk of chunks) {
+        parts.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(parts);
+};
+
+/**
+ * Read the entries of a zip file through its central directory
+ */
+const readZip = (zip: Buffer): Map<string, string> => {
+    const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    const count = zip.readUInt16LE(end + 10);
+    let position = zip.readUInt32LE(end + 16);
+    const entries = new Map<string, string>();
+
+    for (let i = 0; i < count; i++) {
+        const compressedSize = zip.readUInt32LE(position + 20);
+        const nameLength = zip.readUInt16LE(position + 28);
+        const localOffset = zip.readUInt32LE(position + 42);
+        const name = zip.subarray(position + 46, position + 46 + nameLength).toString();
+
+        const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+        const content = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+        expect(crc32(content)).toBe(zip.readUInt32LE(position + 16));
+
+        entries.set(name, content.toString());
+        position += 46 + nameLength;
+    }
+
+    return entries;
+};
+
+describe('Export Formats', () => {
+    describe('formatCsvCell', () => {
+        it('should use decimal comma for numbers', () => {
+            expect(formatCsvCell(10.5)).toBe('10,5');
+            expect(formatCsvCell(3)).toBe('3');
+        });
+
+        it('should quote cells with delimiters, quotes or line breaks', () => {
+            expect(formatCsvCell('a;b')).toBe('"a;b"');
+            expect(formatCsvCell('say "hi"')).toBe('"say ""hi"""');
+            expect(formatCsvCell('line\nbreak')).toBe('"line\nbreak"');
+        });
+
+        it('should keep formulas as text', () => {
+            expect(formatCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+            expect(formatCsvCell('-10')).toBe("'-10");
+        });
+
+        it('should leave empty values blank', () => {
+            expect(formatCsvCell(null)).toBe('');
+            expect(formatCsvCell(undefined)).toBe('');
+        });
+    });
+
+    describe('streamCsv', () => {
+        it('should write a BOM, the header and one line per row', async () => {
+            const csv = (await collect(streamCsv(columns, rowsOf([
+                { name: 'Arroz', price: 25.9 },
+                { name: 'Feijão', price: 8 },
+            ])))).toString();
+
+            expect(csv.startsWith('\uFEFF')).toBe(true);
+            expect(csv.slice(1).split('\n')).toEqual(['Nome;Preço', 'Arroz;25,9', 'Feijão;8', '']);
+        });
+    });
+
+    describe('crc32', () => {
+        it('should match the standard check value', () => {
+            expect(crc32(Buffer.from('123456789'))).toBe(0xCBF43926);
+        });
+
+        it('should continue over several chunks', () => {
+            expect(crc32(Buffer.from('6789'), crc32(Buffer.from('12345')))).toBe(0xCBF43926);
+        });
+    });
+
+    describe('streamXlsx', () => {
+        it('should write a workbook with the rows as a sheet', async () => {
+            const entries = readZip(await collect(streamXlsx(columns, rowsOf([
+                { name: 'Café & <Leite>', price: 12.5 },
+            ]), 'Produtos')));
+
+            expect([...entries.keys()]).toEqual([
+                '[Content_Types].xml',
+                '_rels/.rels',
+                'xl/workbook.xml',
+                'xl/_rels/workbook.xml.rels',
+                'xl/styles.xml',
+                'xl/worksheets/sheet1.xml',
+            ]);
+            expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Produtos"');
+
+            const sheet = entries.get('xl/worksheets/sheet1.xml');
+            expect(sheet).toContain('<t xml:space="preserve">Nome</t>');
+            expect(sheet).toContain('Café &amp; &lt;Leite&gt;');
+            expect(sheet).toContain('<v>12.5</v>');
+        });
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tests for spreadsheet import utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { type ExportColumn, streamCsv, streamXlsx, crc32 } from '../src/utils/export-formats';
+import { parseCsv, parseXlsx, parseDecimalCell, summarizeImport, diffFields } from '../src/utils/import-formats';
+
+interface Row {
+    name: string;
+    price: number;
+}
+
+const columns: ExportColumn<Row>[] = [
+    { header: 'Nome', value: row => row.name },
+    { header: 'Preço', value: row => row.price },
+];
+
+async function* rowsOf(rows: Row[]): AsyncGenerator<Row> {
+    yield* rows;
+}
+
+const collect = async (chunks: AsyncIterable<string | Buffer>): Promise<Buffer> => {
+    const parts: Buffer[] = [];
+    for await (const chunk of chunks) {
+        parts.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(parts);
+};
+
+/**
+ * Build a zip file with deflated entries and sizes in the local headers, as Excel writes them
+ */
+const buildZip = (files: Record<string, string>): Buffer => {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const [name, content] of Object.entries(files)) {
+        const data = Buffer.from(content);
+        const compressed = deflateRawSync(data);
+        const fileName = Buffer.from(name);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt32LE(crc32(data), 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(fileName.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt32LE(crc32(data), 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(fileName.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, fileName, compressed);
+        centrals.push(central, fileName);
+        offset += local.length + fileName.length + compressed.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+};
+
+describe('Import Formats', () => {
+    describe('parseCsv', () => {
+        it('should read back an exported CSV', async () => {
+            const csv = (await collect(streamCsv(columns, rowsOf([
+                { name: 'Arroz; tipo 1', price: 25.9 },
+                { name: '-desconto', price: 8 },
+            ])))).toString();
+
+            expect(parseCsv(csv)).toEqual([
+                ['Nome', 'Preço'],
+                ['Arroz; tipo 1', '25,9'],
+                ['-desconto', '8'],
+            ]);
+        });
+
+        it('should detect comma separated files', () => {
+            expect(parseCsv('code,name\r\nPROD0000001,"Café, 500g"\r\n')).toEqual([
+                ['code', 'name'],
+                ['PROD0000001', 'Café, 500g'],
+            ]);
+        });
+
+        it('should keep line breaks and quotes inside quoted cells', () => {
+            expect(parseCsv('Nome;Descrição\nA;"linha 1\nlinha ""2"""\n\n')).toEqual([
+                ['Nome', 'Descrição'],
+                ['A', 'linha 1\nlinha "2"'],
+            ]);
+        });
+    });
+
+    describe('parseXlsx', () => {
+        it('should read back an exported workbook', async () => {
+            const xlsx = await collect(streamXlsx(columns, rowsOf([
+                { name: 'Café & <Leite>', price: 12.5 },
+            ]), 'Produtos'));
+
+            expect(parseXlsx(xlsx)).toEqual([
+                ['Nome', 'Preço'],
+                ['Café & <Leite>', '12.5'],
+            ]);
+        });
+
+        it('should read shared strings and skipped cells', () => {
+            const xlsx = buildZip({
+                'xl/workbook.xml': '<workbook><sheets><sheet name="Plan1" sheetId="1" r:id="rId1"/></sheets></workbook>',
+                'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+                'xl/sharedStrings.xml': '<sst><si><t>Código</t></si><si><r><t>No</t></r><r><t>me</t></r></si><si><t>Feijão</t></si></sst>',
+                'xl/worksheets/sheet1.xml': '<worksheet><sheetData>'
+                    + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>'
+                    + '<row r="2"><c r="A2" t="str"><v>P-1</v></c><c r="C2" t="s"><v>2</v></c></row>'
+                    + '</sheetData></worksheet>',
+            });
+
+            expect(parseXlsx(xlsx)).toEqual([
+                ['Código', '', 'Nome'],
+                ['P-1', '', 'Feijão'],
+            ]);
+        });
+
+        it('should reject files that are not zip archives', () => {
+            expect(() => parseXlsx(Buffer.from('not a workbook'))).toThrow('Invalid XLSX file');
+        });
+    });
+
+    describe('parseDecimalCell', () => {
+        it('should accept decimal comma and decimal dot', () => {
+            expect(parseDecimalCell('1.234,56')).toBe(1234.56);
+            expect(parseDecimalCell('10,5')).toBe(10.5);
+            expect(parseDecimalCell('12.5')).toBe(12.5);
+            expect(parseDecimalCell('R$ 8,00')).toBe(8);
+        });
+
+        it('should return NaN for text', () => {
+            expect(parseDecimalCell('abc')).toBeNaN();
+            expect(parseDecimalCell('')).toBeNaN();
+        });
+    });
+
+    describe('summarizeImport', () => {
+        it('should count the rows per action', () => {
+            expect(summarizeImport([
+                { action: 'create' },
+                { action: 'update' },
+                { action: 'create' },
+                { action: 'error' },
+            ])).toEqual({ total: 4, created: 2, updated: 1, unchanged: 0, errors: 1 });
+        });
+    });
+
+    describe('diffFields', () => {
+        it('should compare numbers by value and text exactly', () => {
+            const previous = { name: 'Ana', discountRate: '10.00', phone: '11999990000', address: null };
+            const updated = { name: 'Ana Souza', discountRate: '10', phone: '11999990000', address: 'Rua A' };
+
+            expect(diffFields(previous, updated, ['name', 'discountRate', 'phone', 'address'])).toEqual([
+                { field: 'name', from: 'Ana', to: 'Ana Souza' },
+                { field: 'address', from: null, to: 'Rua A' },
+            ]);
+        });
+    });
+});
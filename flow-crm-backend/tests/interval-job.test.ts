@@ -0,0 +1,63 @@
+/**
+ * Tests for interval job utilities
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IntervalJob } from '../src/utils/interval-job';
+
+describe('IntervalJob', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should run after the first delay and then on every interval', async () => {
+        const run = vi.fn().mockResolvedValue(undefined);
+        const job = new IntervalJob({ run, intervalMs: 1000, firstRunDelayMs: 100 });
+
+        job.start();
+        expect(job.getNextRunAt()).not.toBeNull();
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(run).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(run).toHaveBeenCalledTimes(2);
+
+        job.stop();
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(run).toHaveBeenCalledTimes(2);
+        expect(job.getNextRunAt()).toBeNull();
+    });
+
+    it('should not start a run while another is in progress', async () => {
+        let finish = () => {};
+        const run = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+        const job = new IntervalJob({ run, intervalMs: 1000, firstRunDelayMs: 100 });
+
+        const first = job.run();
+        await job.run();
+        expect(job.isRunning()).toBe(true);
+        expect(run).toHaveBeenCalledTimes(1);
+
+        finish();
+        await first;
+        expect(job.isRunning()).toBe(false);
+    });
+
+    it('should keep the schedule going after a failed run', async () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const run = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+        const job = new IntervalJob({ run, intervalMs: 1000, firstRunDelayMs: 100 });
+
+        job.start();
+        await vi.advanceTimersByTimeAsync(1100);
+        job.stop();
+
+        expect(run).toHaveBeenCalledTimes(2);
+        consoleError.mockRestore();
+    });
+});
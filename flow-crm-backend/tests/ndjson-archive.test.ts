@@ -0,0 +1,70 @@
+/**
+ * Tests for compressed NDJSON archive utilities
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { readNdjsonArchive, writeNdjsonArchive } from '../src/utils/ndjson-archive';
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+    for (const item of items) {
+        yield item;
+    }
+}
+
+const collect = async (filePath: string): Promise<Record<string, unknown>[]> => {
+    const rows: Record<string, unknown>[] = [];
+    for await (const row of readNdjsonArchive(filePath)) {
+        rows.push(row);
+    }
+    return rows;
+};
+
+describe('NDJSON archive', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'ndjson-archive-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read back the rows it wrote', async () => {
+        const filePath = path.join(dir, 'rows.ndjson.gz');
+        const createdAt = new Date('2026-01-01T03:00:00.000Z');
+        const rows = [
+            { id: '1', details: 'line\nbreak', createdAt },
+            { id: '2', details: null, createdAt },
+        ];
+
+        const written = await writeNdjsonArchive(filePath, fromArray(rows));
+
+        expect(written).toBe(2);
+        expect(await collect(filePath)).toEqual([
+            { id: '1', details: 'line\nbreak', createdAt: createdAt.toISOString() },
+            { id: '2', details: null, createdAt: createdAt.toISOString() },
+        ]);
+    });
+
+    it('should write an empty archive when there are no rows', async () => {
+        const filePath = path.join(dir, 'empty.ndjson.gz');
+
+        expect(await writeNdjsonArchive(filePath, fromArray([]))).toBe(0);
+        expect(await collect(filePath)).toEqual([]);
+    });
+
+    it('should not leave a file behind when the rows fail', async () => {
+        const filePath = path.join(dir, 'failed.ndjson.gz');
+        async function* failing(): AsyncGenerator<object> {
+            yield { id: '1' };
+            throw new Error('query failed');
+        }
+
+        await expect(writeNdjsonArchive(filePath, failing())).rejects.toThrow('query failed');
+        expect(await readdir(dir)).toEqual([]);
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * Tests for pre-sale number utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatPreSaleNumber, normalizePreSaleNumber } from '../src/utils/presale-numbers';
+
+describe('Pre-sale Numbers', () => {
+    describe('formatPreSaleNumber', () => {
+        it('should pad the sequence within the year', () => {
+            expect(formatPreSaleNumber(2026, 1)).toBe('PV-2026-000001');
+            expect(formatPreSaleNumber(2026, 123)).toBe('PV-2026-000123');
+            expect(formatPreSaleNumber(2027, 999999)).toBe('PV-2027-999999');
+        });
+    });
+
+    describe('normalizePreSaleNumber', () => {
+        it('should keep numbers already in the stored format', () => {
+            expect(normalizePreSaleNumber('PV-2026-000123')).toBe('PV-2026-000123');
+        });
+
+        it('should accept numbers typed without dashes, padding or uppercase', () => {
+            expect(normalizePreSaleNumber(' pv-2026-123 ')).toBe('PV-2026-000123');
+            expect(normalizePreSaleNumber('PV2026000123')).toBe('PV-2026-000123');
+            expect(normalizePreSaleNumber('pv2026123')).toBe('PV-2026-000123');
+        });
+
+        it('should reject values that are not pre-sale numbers', () => {
+            expect(normalizePreSaleNumber('123')).toBeNull();
+            expect(normalizePreSaleNumber('PV-26-000123')).toBeNull();
+            expect(normalizePreSaleNumber('PV-2026-0000000')).toBeNull();
+            expect(normalizePreSaleNumber('PV-2026-000000')).toBeNull();
+            expect(normalizePreSaleNumber('Maria')).toBeNull();
+        });
+    });
+});
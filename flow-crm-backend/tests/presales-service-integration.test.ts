@@ -3,6 +3,7 @@ import { eq } from 'drizzle-orm';
 import { preSalesService, CreatePreSaleData, UpdatePreSaleData } from '../src/services/presales.service';
 import { customerService } from '../src/services/customers.service';
 import { productService } from '../src/services/products.service';
+import { preSaleStatusHistoryService } from '../src/services/presale-status-history.service';
 import { db, checkDatabaseConnection } from '../src/db/connection';
 import { preSales, preSaleItems } from '../src/db/schema/presales';
 import { customers } from '../src/db/schema/customers';
@@ -381,6 +382,46 @@ describe('PreSales Service Database Integration', () => {
             ).rejects.toThrow('Invalid status transition from cancelled to pending');
         });
 
+        it('should record every status change in the history', async () => {
+            await preSalesService.updateStatus(preSaleId, 'pending');
+            await preSalesService.updateStatus(preSaleId, 'cancelled', { changedBy: null, note: 'Cliente desistiu' });
+
+            const history = await preSaleStatusHistoryService.findByPreSaleId(preSaleId);
+
+            expect(history.map(entry => [entry.fromStatus, entry.toStatus])).toEqual([
+                [null, 'draft'],
+                ['draft', 'pending'],
+                ['pending', 'cancelled']
+            ]);
+            expect(history[2].note).toBe('Cliente desistiu');
+            expect(history[2].changedBy).toBeNull();
+        });
+
+        it('should hold pre-sales with a discount above the limit until it is approved', async () => {
+            // 20% discount, above the default employee limit of 10%
+            const preSale = await preSalesService.create({
+                customerId: testCustomerId,
+                status: 'draft',
+                discount: '400.00',
+                items: [{ productId: testProduct1Id, quantity: '1', unitPrice: '2000.00' }]
+            });
+            expect(parseFloat(preSale.requestedDiscount)).toBe(20);
+
+            const waiting = await preSalesService.updateStatus(preSale.id, 'pending');
+            expect(waiting.status).toBe('awaiting_approval');
+
+            await expect(
+                preSalesService.updateStatus(preSale.id, 'pending')
+            ).rejects.toThrow('requires manager approval');
+
+            const rejected = await preSalesService.rejectDiscount(preSale.id, { changedBy: null, note: 'Desconto alto demais' });
+            expect(rejected.status).toBe('draft');
+
+            const history = await preSaleStatusHistoryService.findByPreSaleId(preSale.id);
+            expect(history.map(entry => entry.toStatus)).toEqual(['draft', 'awaiting_approval', 'draft']);
+            expect(history[2].note).toBe('Desconto alto demais');
+        });
+
         it('should throw error when trying to update status of non-existent pre-sale', async () => {
             const nonExistentId = '550e8400-e29b-41d4-a716-446655440000';
 
@@ -14,6 +14,9 @@ import {
     convertMarginToMarkup,
     convertMarkupToMargin,
     batchCalculateMargins,
+    calculatePromotionDiscount,
+    applyPromotions,
+    resolveCustomerDiscountRate,
 } from '../src/utils/price-calculations';
 
 describe('Price Calculations', () => {
@@ -142,4 +145,73 @@ describe('Price Calculations', () => {
             expect(results[0].productId).toBe('prod1');
         });
     });
-});
\ No newline at end of file
+
+    describe('calculatePromotionDiscount', () => {
+        it('should calculate percentage discount', () => {
+            expect(calculatePromotionDiscount({ type: 'percentage', value: 10 }, 200)).toBe(20);
+        });
+
+        it('should cap percentage discount at maxDiscount', () => {
+            expect(calculatePromotionDiscount({ type: 'percentage', value: 50, maxDiscount: 30 }, 200)).toBe(30);
+        });
+
+        it('should ignore amounts below minAmount', () => {
+            expect(calculatePromotionDiscount({ type: 'fixed', value: 15, minAmount: 100 }, 99.99)).toBe(0);
+        });
+
+        it('should never exceed the amount', () => {
+            expect(calculatePromotionDiscount({ type: 'fixed', value: 50 }, 20)).toBe(20);
+        });
+    });
+
+    describe('applyPromotions', () => {
+        it('should apply promotions by priority over the remaining amount', () => {
+            const result = applyPromotions([
+                { id: 'low', type: 'fixed', value: 10, priority: 1 },
+                { id: 'high', type: 'percentage', value: 10, priority: 5 },
+            ], 100);
+
+            expect(result.applied).toEqual([
+                { id: 'high', amount: 10 },
+                { id: 'low', amount: 10 },
+            ]);
+            expect(result.totalDiscount).toBe(20);
+        });
+
+        it('should skip promotions whose minimum amount is no longer met', () => {
+            const result = applyPromotions([
+                { id: 'first', type: 'fixed', value: 20, priority: 2 },
+                { id: 'second', type: 'fixed', value: 5, priority: 1, minAmount: 90 },
+            ], 100);
+
+            expect(result.applied).toEqual([{ id: 'first', amount: 20 }]);
+            expect(result.totalDiscount).toBe(20);
+        });
+
+        it('should return no discount when there are no promotions', () => {
+            expect(applyPromotions([], 100)).toEqual({ totalDiscount: 0, applied: [] });
+        });
+    });
+
+    describe('resolveCustomerDiscountRate', () => {
+        it('should use the tier default rate when there is no negotiated rate', () => {
+            expect(resolveCustomerDiscountRate('regular')).toBe(0);
+            expect(resolveCustomerDiscountRate('premium', null)).toBe(5);
+            expect(resolveCustomerDiscountRate('vip', undefined)).toBe(10);
+        });
+
+        it('should prefer the negotiated rate over the tier default', () => {
+            expect(resolveCustomerDiscountRate('vip', '3.50')).toBe(3.5);
+            expect(resolveCustomerDiscountRate('regular', 12)).toBe(12);
+        });
+
+        it('should clamp negotiated rates to the 0-100 range', () => {
+            expect(resolveCustomerDiscountRate('regular', '150')).toBe(100);
+            expect(resolveCustomerDiscountRate('regular', -5)).toBe(0);
+        });
+
+        it('should treat a missing tier as regular', () => {
+            expect(resolveCustomerDiscountRate(null)).toBe(0);
+        });
+    });
+});
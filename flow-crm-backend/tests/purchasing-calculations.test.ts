@@ -0,0 +1,74 @@
+/**
+ * Tests for purchasing calculation utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    calculatePurchaseOrderTotal,
+    getOutstandingQuantity,
+    getReceivingStatus,
+    calculateSuggestedOrderQuantity,
+} from '../src/utils/purchasing-calculations';
+
+describe('Purchasing Calculations', () => {
+    const unitProduct = { unit: 'un', saleType: 'unit' };
+    const kgProduct = { unit: 'kg', saleType: 'fractional' };
+    const noLevels = { minStock: null, reorderPoint: null, maxStock: null };
+
+    describe('calculatePurchaseOrderTotal', () => {
+        it('should sum quantity times unit cost rounded to cents', () => {
+            expect(calculatePurchaseOrderTotal([
+                { quantity: 3, unitCost: '10.10' },
+                { quantity: 1.255, unitCost: 4 },
+            ])).toBe(35.32);
+        });
+
+        it('should be zero without lines', () => {
+            expect(calculatePurchaseOrderTotal([])).toBe(0);
+        });
+    });
+
+    describe('getOutstandingQuantity', () => {
+        it('should subtract the received quantity keeping the stock precision', () => {
+            expect(getOutstandingQuantity({ quantity: 2.3, receivedQuantity: 0.1 })).toBe(2.2);
+            expect(getOutstandingQuantity({ quantity: 5, receivedQuantity: 5 })).toBe(0);
+        });
+    });
+
+    describe('getReceivingStatus', () => {
+        it('should follow what the lines received', () => {
+            expect(getReceivingStatus([
+                { quantity: 5, receivedQuantity: 0 },
+                { quantity: 2, receivedQuantity: 0 },
+            ])).toBe('ordered');
+            expect(getReceivingStatus([
+                { quantity: 5, receivedQuantity: 5 },
+                { quantity: 2, receivedQuantity: 0 },
+            ])).toBe('partially_received');
+            expect(getReceivingStatus([
+                { quantity: 5, receivedQuantity: 5 },
+                { quantity: 2, receivedQuantity: 2 },
+            ])).toBe('received');
+        });
+    });
+
+    describe('calculateSuggestedOrderQuantity', () => {
+        it('should order up to the maximum stock', () => {
+            expect(calculateSuggestedOrderQuantity(3, { ...noLevels, reorderPoint: 5, maxStock: 20 }, 10, unitProduct)).toBe(17);
+        });
+
+        it('should order twice the reorder point without a maximum', () => {
+            expect(calculateSuggestedOrderQuantity(4, { ...noLevels, reorderPoint: 5 }, 10, unitProduct)).toBe(6);
+            expect(calculateSuggestedOrderQuantity(4, noLevels, 10, unitProduct)).toBe(16);
+        });
+
+        it('should round up to the unit precision', () => {
+            expect(calculateSuggestedOrderQuantity(2.5, { ...noLevels, maxStock: 10 }, 10, unitProduct)).toBe(8);
+            expect(calculateSuggestedOrderQuantity(2.5004, { ...noLevels, maxStock: 10 }, 10, kgProduct)).toBe(7.5);
+        });
+
+        it('should not order when the stock already reached the target', () => {
+            expect(calculateSuggestedOrderQuantity(25, { ...noLevels, maxStock: 20 }, 10, unitProduct)).toBe(0);
+        });
+    });
+});
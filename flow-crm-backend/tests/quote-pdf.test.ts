@@ -0,0 +1,149 @@
+/**
+ * Tests for quote PDF utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    calculateQuoteTotals,
+    formatTaxBreakdown,
+    getQuoteFileName,
+    renderQuotePdf,
+    type QuoteDocument,
+    type QuoteItem
+} from '../src/utils/quote-pdf';
+import { calculateTaxBreakdown } from '../src/utils/tax-calculations';
+
+const PNG_LOGO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const buildItem = (overrides: Partial<QuoteItem> = {}): QuoteItem => ({
+    code: 'PROD0001',
+    name: 'Produto de teste',
+    unit: 'UN',
+    quantity: 2,
+    unitPrice: 50,
+    discount: 10,
+    promotionDiscount: 5,
+    totalPrice: 85,
+    taxBreakdown: calculateTaxBreakdown(85, { icms: 18, ipi: 0, pis: 0, cofins: 0 }),
+    ...overrides
+});
+
+const buildQuote = (overrides: Partial<QuoteDocument> = {}): QuoteDocument => ({
+    number: 'PV-2026-000123',
+    issuedAt: new Date('2026-10-19T15:00:00Z'),
+    validUntil: '2026-10-26',
+    company: {
+        name: 'Flow Comércio Ltda.',
+        cnpj: '11.222.333/0001-81',
+        address: 'Rua das Flores, 100 - Centro, São Paulo - SP',
+        logo: PNG_LOGO
+    },
+    customer: {
+        name: 'Maria Souza',
+        companyName: null,
+        document: '123.456.789-09',
+        documentType: 'cpf',
+        email: 'maria@example.com',
+        phone: '(11) 99999-0000',
+        address: null
+    },
+    salespersonName: 'João Vendedor',
+    paymentMethod: 'PIX',
+    items: [buildItem()],
+    globalDiscount: 5,
+    notes: null,
+    terms: 'Entrega em até 5 dias úteis.',
+    ...overrides
+});
+
+const countPages = (pdf: Buffer): number =>
+    (pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length;
+
+describe('Quote PDF', () => {
+    describe('calculateQuoteTotals', () => {
+        it('should break the total down by item and global discounts', () => {
+            const totals = calculateQuoteTotals([
+                buildItem(),
+                buildItem({
+                    quantity: 1,
+                    unitPrice: 30,
+                    discount: 0,
+                    promotionDiscount: 0,
+                    totalPrice: 30,
+                    taxBreakdown: calculateTaxBreakdown(30, { icms: 18, ipi: 0, pis: 0, cofins: 0 })
+                })
+            ], 15);
+
+            expect(totals).toEqual({
+                grossTotal: 130,
+                itemDiscounts: 15,
+                subtotal: 115,
+                globalDiscount: 15,
+                total: 100,
+                taxes: 20.7
+            });
+        });
+
+        it('should never discount more than the subtotal', () => {
+            const totals = calculateQuoteTotals([buildItem({ totalPrice: 10 })], 50);
+
+            expect(totals.globalDiscount).toBe(10);
+            expect(totals.total).toBe(0);
+        });
+    });
+
+    describe('formatTaxBreakdown', () => {
+        it('should list the rate and amount of every tax', () => {
+            const breakdown = calculateTaxBreakdown(100, { icms: 18, ipi: 5, pis: 1.65, cofins: 7.6 });
+
+            expect(formatTaxBreakdown(breakdown).replace(/\s/g, ' ')).toBe(
+                'ICMS 18%: R$ 18,00 | IPI 5%: R$ 5,00 | PIS 1,65%: R$ 1,65 | COFINS 7,6%: R$ 7,60'
+            );
+        });
+    });
+
+    describe('getQuoteFileName', () => {
+        it('should name the file after the pre-sale number', () => {
+            expect(getQuoteFileName('PV-2026-000123')).toBe('orcamento-PV-2026-000123.pdf');
+        });
+    });
+
+    describe('renderQuotePdf', () => {
+        it('should render a single page PDF for a short quote', () => {
+            const pdf = renderQuotePdf(buildQuote());
+
+            expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+            expect(countPages(pdf)).toBe(1);
+        });
+
+        it('should spread long quotes over several pages', () => {
+            const items = Array.from({ length: 80 }, (_, index) => buildItem({ code: `PROD${index}` }));
+            const pdf = renderQuotePdf(buildQuote({ items }));
+
+            expect(countPages(pdf)).toBeGreaterThan(1);
+        });
+
+        it('should print the tax breakdown under each line', () => {
+            const pdf = renderQuotePdf(buildQuote({
+                items: [
+                    buildItem(),
+                    buildItem({ code: 'PROD0002', taxBreakdown: null })
+                ]
+            })).toString('latin1');
+
+            expect(pdf.match(/ICMS 18%/g)).toHaveLength(1);
+            expect(pdf).toContain('COFINS 0%');
+        });
+
+        it('should render quotes without company data or logo', () => {
+            const pdf = renderQuotePdf(buildQuote({
+                company: { name: null, cnpj: null, address: null, logo: null },
+                salespersonName: null,
+                paymentMethod: null,
+                terms: null
+            }));
+
+            expect(countPages(pdf)).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for quote validity utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    addQuoteDays,
+    calculateQuoteValidUntil,
+    isQuoteDate,
+    isQuoteOverdue,
+    toQuoteDate
+} from '../src/utils/quote-validity';
+
+describe('Quote Validity', () => {
+    describe('toQuoteDate', () => {
+        it('should use the calendar day of the stores time zone', () => {
+            expect(toQuoteDate(new Date('2026-10-19T15:00:00Z'))).toBe('2026-10-19');
+            // 01:00 UTC is still the previous evening in Brazil
+            expect(toQuoteDate(new Date('2026-10-20T01:00:00Z'))).toBe('2026-10-19');
+        });
+    });
+
+    describe('isQuoteDate', () => {
+        it('should accept only real days in the YYYY-MM-DD format', () => {
+            expect(isQuoteDate('2026-10-19')).toBe(true);
+            expect(isQuoteDate('2028-02-29')).toBe(true);
+            expect(isQuoteDate('2026-02-30')).toBe(false);
+            expect(isQuoteDate('19/10/2026')).toBe(false);
+            expect(isQuoteDate('2026-10-19T00:00:00Z')).toBe(false);
+        });
+    });
+
+    describe('calculateQuoteValidUntil', () => {
+        it('should add the validity days to the issue day', () => {
+            expect(addQuoteDays('2026-12-28', 7)).toBe('2027-01-04');
+            expect(calculateQuoteValidUntil(new Date('2026-10-20T01:00:00Z'), 7)).toBe('2026-10-26');
+        });
+    });
+
+    describe('isQuoteOverdue', () => {
+        it('should keep the quote valid during its last day', () => {
+            expect(isQuoteOverdue('2026-10-19', new Date('2026-10-19T23:00:00Z'))).toBe(false);
+            expect(isQuoteOverdue('2026-10-19', new Date('2026-10-20T12:00:00Z'))).toBe(true);
+            expect(isQuoteOverdue('2026-10-26', new Date('2026-10-20T12:00:00Z'))).toBe(false);
+        });
+    });
+});
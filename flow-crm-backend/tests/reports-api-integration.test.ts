@@ -3,9 +3,10 @@ import { FastifyInstance } from 'fastify';
 import { buildApp } from '../src/app';
 import { db } from '../src/db/connection';
 import { paymentMethods } from '../src/db/schema/payment-methods';
-import { preSales } from '../src/db/schema/presales';
+import { preSales, preSaleStatusHistory } from '../src/db/schema/presales';
 import { customers } from '../src/db/schema/customers';
 import { users } from '../src/db/schema/users';
+import { commissionRules } from '../src/db/schema/commissions';
 import { eq } from 'drizzle-orm';
 
 describe('Reports API Integration Tests', () => {
@@ -15,6 +16,20 @@ describe('Reports API Integration Tests', () => {
     let testCustomerId: string;
     let testPaymentMethodId: string;
     let testPaymentMethod2Id: string;
+    let preSaleSequence = 0;
+
+    // Pre-sales inserted directly need the number PreSalesService.create would assign
+    const nextPreSaleNumber = () => `PV-1999-${String(++preSaleSequence).padStart(6, '0')}`;
+    // Fixtures only need a validity date, none of them expires
+    const quoteValidUntil = '2099-12-31';
+    // Date filters count sales by their conversion, which PreSalesService.updateStatus records in the history
+    const recordConversion = (preSaleId: string, changedAt: Date) =>
+        db.insert(preSaleStatusHistory).values({
+            preSaleId,
+            fromStatus: 'pending',
+            toStatus: 'converted',
+            changedAt
+        });
 
     beforeAll(async () => {
         // Build the Fastify app
@@ -123,6 +138,8 @@ describe('Reports API Integration Tests', () => {
             // Create test presales
             await db.insert(preSales).values([
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethodId,
                     status: 'converted',
@@ -132,6 +149,8 @@ describe('Reports API Integration Tests', () => {
                     discountPercentage: '0'
                 },
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethodId,
                     status: 'converted',
@@ -141,6 +160,8 @@ describe('Reports API Integration Tests', () => {
                     discountPercentage: '0'
                 },
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethod2Id,
                     status: 'converted',
@@ -188,8 +209,10 @@ describe('Reports API Integration Tests', () => {
             const tomorrow = new Date();
             tomorrow.setDate(tomorrow.getDate() + 1);
 
-            // Create presale with specific date
-            await db.insert(preSales).values({
+            // Create presale converted today
+            const [preSale] = await db.insert(preSales).values({
+                number: nextPreSaleNumber(),
+                validUntil: quoteValidUntil,
                 customerId: testCustomerId,
                 paymentMethodId: testPaymentMethodId,
                 status: 'converted',
@@ -198,7 +221,8 @@ describe('Reports API Integration Tests', () => {
                 discountType: 'fixed',
                 discountPercentage: '0',
                 createdAt: new Date() // Today
-            });
+            }).returning({ id: preSales.id });
+            await recordConversion(preSale.id, new Date());
 
             // Test with date range that includes today
             const response = await app.inject({
@@ -222,6 +246,8 @@ describe('Reports API Integration Tests', () => {
             // Create presales for both payment methods
             await db.insert(preSales).values([
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethodId,
                     status: 'converted',
@@ -231,6 +257,8 @@ describe('Reports API Integration Tests', () => {
                     discountPercentage: '0'
                 },
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethod2Id,
                     status: 'converted',
@@ -368,6 +396,8 @@ describe('Reports API Integration Tests', () => {
             // Create test presales
             await db.insert(preSales).values([
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethodId,
                     status: 'converted',
@@ -377,6 +407,8 @@ describe('Reports API Integration Tests', () => {
                     discountPercentage: '0'
                 },
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethod2Id,
                     status: 'converted',
@@ -386,6 +418,8 @@ describe('Reports API Integration Tests', () => {
                     discountPercentage: '0'
                 },
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethodId,
                     status: 'converted',
@@ -420,8 +454,10 @@ describe('Reports API Integration Tests', () => {
             const tomorrow = new Date();
             tomorrow.setDate(tomorrow.getDate() + 1);
 
-            // Create presale with specific date
-            await db.insert(preSales).values({
+            // Create presale converted today
+            const [preSale] = await db.insert(preSales).values({
+                number: nextPreSaleNumber(),
+                validUntil: quoteValidUntil,
                 customerId: testCustomerId,
                 paymentMethodId: testPaymentMethodId,
                 status: 'converted',
@@ -430,7 +466,8 @@ describe('Reports API Integration Tests', () => {
                 discountType: 'fixed',
                 discountPercentage: '0',
                 createdAt: new Date() // Today
-            });
+            }).returning({ id: preSales.id });
+            await recordConversion(preSale.id, new Date());
 
             // Test with date range that includes today
             const response = await app.inject({
@@ -450,10 +487,70 @@ describe('Reports API Integration Tests', () => {
             expect(data.data.period.endDate).toBe(tomorrow.toISOString());
         });
 
+        it('should filter summary by conversion date, not by creation date', async () => {
+            const yesterday = new Date();
+            yesterday.setDate(yesterday.getDate() - 1);
+
+            const tomorrow = new Date();
+            tomorrow.setDate(tomorrow.getDate() + 1);
+
+            const lastMonth = new Date();
+            lastMonth.setDate(lastMonth.getDate() - 30);
+
+            const twoMonthsAgo = new Date();
+            twoMonthsAgo.setDate(twoMonthsAgo.getDate() - 60);
+
+            // Both quotes were created two months ago, only the first was converted today
+            const [convertedToday, convertedLastMonth] = await db.insert(preSales).values([
+                {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
+                    customerId: testCustomerId,
+                    paymentMethodId: testPaymentMethodId,
+                    status: 'converted',
+                    total: '100.00',
+                    discount: '0',
+                    discountType: 'fixed',
+                    discountPercentage: '0',
+                    createdAt: twoMonthsAgo
+                },
+                {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
+                    customerId: testCustomerId,
+                    paymentMethodId: testPaymentMethodId,
+                    status: 'converted',
+                    total: '200.00',
+                    discount: '0',
+                    discountType: 'fixed',
+                    discountPercentage: '0',
+                    createdAt: twoMonthsAgo
+                }
+            ]).returning({ id: preSales.id });
+            await recordConversion(convertedToday.id, new Date());
+            await recordConversion(convertedLastMonth.id, lastMonth);
+
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/reports/summary?startDate=${yesterday.toISOString()}&endDate=${tomorrow.toISOString()}`,
+                headers: {
+                    authorization: `Bearer ${authToken}`
+                }
+            });
+
+            expect(response.statusCode).toBe(200);
+            const data = JSON.parse(response.body);
+            expect(data.success).toBe(true);
+            expect(data.data.totalAmount).toBe(100);
+            expect(data.data.totalSalesCount).toBe(1);
+        });
+
         it('should filter summary by payment method ID correctly', async () => {
             // Create presales for both payment methods
             await db.insert(preSales).values([
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethodId,
                     status: 'converted',
@@ -463,6 +560,8 @@ describe('Reports API Integration Tests', () => {
                     discountPercentage: '0'
                 },
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethod2Id,
                     status: 'converted',
@@ -505,6 +604,81 @@ describe('Reports API Integration Tests', () => {
         });
     });
 
+    describe('GET /api/reports/commissions', () => {
+        it('should date commissions and tier volumes by conversion, not by creation', async () => {
+            const yesterday = new Date();
+            yesterday.setDate(yesterday.getDate() - 1);
+
+            const tomorrow = new Date();
+            tomorrow.setDate(tomorrow.getDate() + 1);
+
+            // Always in an earlier calendar month
+            const previousMonth = new Date();
+            previousMonth.setDate(previousMonth.getDate() - 45);
+
+            const twoMonthsAgo = new Date();
+            twoMonthsAgo.setDate(twoMonthsAgo.getDate() - 60);
+
+            // The tier is only reached if the sale converted last month counts in the current month
+            await db.insert(commissionRules).values({
+                name: 'Test Rule',
+                salespersonId: testUserId,
+                rate: '10',
+                tiers: [{ minVolume: 250, rate: 20 }]
+            });
+
+            // The first quote was created two months ago and converted today,
+            // the second was created today but its conversion is dated last month
+            const [convertedToday, convertedLastMonth] = await db.insert(preSales).values([
+                {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
+                    customerId: testCustomerId,
+                    salespersonId: testUserId,
+                    paymentMethodId: testPaymentMethodId,
+                    status: 'converted',
+                    total: '100.00',
+                    discount: '0',
+                    discountType: 'fixed',
+                    discountPercentage: '0',
+                    createdAt: twoMonthsAgo
+                },
+                {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
+                    customerId: testCustomerId,
+                    salespersonId: testUserId,
+                    paymentMethodId: testPaymentMethodId,
+                    status: 'converted',
+                    total: '200.00',
+                    discount: '0',
+                    discountType: 'fixed',
+                    discountPercentage: '0'
+                }
+            ]).returning({ id: preSales.id });
+            await recordConversion(convertedToday.id, new Date());
+            await recordConversion(convertedLastMonth.id, previousMonth);
+
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/reports/commissions?startDate=${yesterday.toISOString()}&endDate=${tomorrow.toISOString()}`,
+                headers: {
+                    authorization: `Bearer ${authToken}`
+                }
+            });
+
+            await db.delete(commissionRules).where(eq(commissionRules.salespersonId, testUserId));
+
+            expect(response.statusCode).toBe(200);
+            const data = JSON.parse(response.body);
+            expect(data.success).toBe(true);
+            expect(data.data).toHaveLength(1);
+            expect(data.data[0].salesCount).toBe(1);
+            expect(data.data[0].totalAmount).toBe(100);
+            expect(data.data[0].commissionAmount).toBe(10);
+        });
+    });
+
     describe('Edge Cases and Error Handling', () => {
         it('should handle non-existent payment method ID gracefully', async () => {
             const nonExistentId = '00000000-0000-0000-0000-000000000000';
@@ -550,6 +724,8 @@ describe('Reports API Integration Tests', () => {
             // Create presales with different statuses
             await db.insert(preSales).values([
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethodId,
                     status: 'converted',
@@ -559,6 +735,8 @@ describe('Reports API Integration Tests', () => {
                     discountPercentage: '0'
                 },
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethodId,
                     status: 'pending',
@@ -568,6 +746,8 @@ describe('Reports API Integration Tests', () => {
                     discountPercentage: '0'
                 },
                 {
+                    number: nextPreSaleNumber(),
+                    validUntil: quoteValidUntil,
                     customerId: testCustomerId,
                     paymentMethodId: testPaymentMethodId,
                     status: 'cancelled',
@@ -606,6 +786,8 @@ describe('Reports API Integration Tests', () => {
 
             // Create presale with inactive payment method
             await db.insert(preSales).values({
+                number: nextPreSaleNumber(),
+                validUntil: quoteValidUntil,
                 customerId: testCustomerId,
                 paymentMethodId: inactivePaymentMethod[0].id,
                 status: 'converted',
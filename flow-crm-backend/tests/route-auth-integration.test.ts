@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import jwt from 'jsonwebtoken';
+import { buildApp } from '../src/app';
+import { jwtConfig } from '../src/config/jwt';
+import { generateToken } from '../src/utils/jwt';
+import { authService } from '../src/services/auth.service';
+import type { User } from '../src/types/auth.types';
+
+describe('Presales and Customers Route Authentication Tests', () => {
+    let app: FastifyInstance;
+
+    const employeePayload = {
+        userId: '00000000-0000-4000-8000-000000000001',
+        email: 'employee@example.com',
+        role: 'employee' as const
+    };
+
+    const buildUser = (overrides: Partial<User> = {}): User => ({
+        id: employeePayload.userId,
+        email: employeePayload.email,
+        name: 'Employee User',
+        role: 'employee',
+        permissions: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    });
+
+    beforeAll(async () => {
+        app = buildApp();
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe.each(['/api/customers', '/api/presales'])('JWT validation on %s', (url) => {
+        it('should reject requests without token', async () => {
+            const response = await app.inject({ method: 'GET', url });
+
+            expect(response.statusCode).toBe(401);
+        });
+
+        it('should reject a token signed with another secret', async () => {
+            const forgedToken = jwt.sign(
+                { ...employeePayload, role: 'admin' },
+                'a-forged-secret-that-is-also-at-least-thirty-two-chars',
+                { issuer: jwtConfig.issuer }
+            );
+
+            const response = await app.inject({
+                method: 'GET',
+                url,
+                headers: { authorization: `Bearer ${forgedToken}` }
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(JSON.parse(response.body).error.code).toBe('INVALID_TOKEN');
+        });
+
+        it('should reject an unsigned token', async () => {
+            const unsignedToken = jwt.sign(
+                { ...employeePayload, role: 'admin', iss: jwtConfig.issuer },
+                '',
+                { algorithm: 'none' }
+            );
+
+            const response = await app.inject({
+                method: 'GET',
+                url,
+                headers: { authorization: `Bearer ${unsignedToken}` }
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(JSON.parse(response.body).error.code).toBe('INVALID_TOKEN');
+        });
+
+        it('should reject a valid token with a tampered payload', async () => {
+            const validToken = await generateToken(employeePayload);
+            const [header, , signature] = validToken.split('.');
+            const tamperedPayload = Buffer.from(JSON.stringify({
+                ...employeePayload,
+                role: 'admin',
+                iss: jwtConfig.issuer
+            })).toString('base64url');
+
+            const response = await app.inject({
+                method: 'GET',
+                url,
+                headers: { authorization: `Bearer ${header}.${tamperedPayload}.${signature}` }
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(JSON.parse(response.body).error.code).toBe('INVALID_TOKEN');
+        });
+    });
+
+    describe('Permission guard', () => {
+        it('should reject users without the customers module', async () => {
+            vi.spyOn(authService, 'validateToken').mockResolvedValue(buildUser({
+                permissions: { modules: { customers: false } }
+            }));
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/customers',
+                headers: { authorization: 'Bearer valid-token' }
+            });
+
+            expect(response.statusCode).toBe(403);
+            expect(JSON.parse(response.body).error.code).toBe('FORBIDDEN');
+        });
+
+        it('should reject users that cannot create pre-sales', async () => {
+            vi.spyOn(authService, 'validateToken').mockResolvedValue(buildUser({
+                permissions: { presales: { canCreate: false } }
+            }));
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/presales',
+                headers: { authorization: 'Bearer valid-token' },
+                payload: {}
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+
+        it('should reject users that cannot view any pre-sales', async () => {
+            vi.spyOn(authService, 'validateToken').mockResolvedValue(buildUser({
+                permissions: { presales: { canViewOwn: false, canViewAll: false } }
+            }));
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/presales',
+                headers: { authorization: 'Bearer valid-token' }
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+
+        it('should use role defaults when the user has no permissions stored', async () => {
+            vi.spyOn(authService, 'validateToken').mockResolvedValue(buildUser());
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/presales',
+                headers: { authorization: 'Bearer valid-token' },
+                payload: {}
+            });
+
+            // Passes the guard and fails body validation
+            expect(response.statusCode).toBe(422);
+        });
+
+        it('should let admins through regardless of stored permissions', async () => {
+            vi.spyOn(authService, 'validateToken').mockResolvedValue(buildUser({
+                role: 'admin',
+                permissions: { modules: { customers: false } }
+            }));
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/customers',
+                headers: { authorization: 'Bearer valid-token' },
+                payload: {}
+            });
+
+            expect(response.statusCode).toBe(422);
+        });
+    });
+});
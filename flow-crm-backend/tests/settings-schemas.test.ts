@@ -0,0 +1,74 @@
+/**
+ * Tests for system settings validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateUpdateSystemSettings } from '../src/schemas/settings.schemas';
+
+describe('System settings validation', () => {
+    it('should format the CNPJ and uppercase the code prefixes', () => {
+        const result = validateUpdateSystemSettings({
+            companyCnpj: '11222333000181',
+            productCodePrefix: 'prd',
+            paymentMethodCodePrefix: ' pg ',
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({
+            companyCnpj: '11.222.333/0001-81',
+            productCodePrefix: 'PRD',
+            paymentMethodCodePrefix: 'PG',
+        });
+    });
+
+    it('should clear the company profile with empty strings', () => {
+        const result = validateUpdateSystemSettings({
+            companyName: '',
+            companyCnpj: '',
+            companyAddress: '  ',
+            companyLogo: '',
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({
+            companyName: null,
+            companyCnpj: null,
+            companyAddress: null,
+            companyLogo: null,
+        });
+    });
+
+    it('should accept the quote validity and clear the quote terms with an empty string', () => {
+        const result = validateUpdateSystemSettings({ quoteValidityDays: 15, quoteTerms: ' ' });
+
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({ quoteValidityDays: 15, quoteTerms: null });
+    });
+
+    it('should accept the discount limits of each role', () => {
+        const result = validateUpdateSystemSettings({ employeeDiscountLimit: 5, managerDiscountLimit: 15.5 });
+
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({ employeeDiscountLimit: 5, managerDiscountLimit: 15.5 });
+    });
+
+    it('should accept PNG and JPEG data URLs as logo', () => {
+        expect(validateUpdateSystemSettings({ companyLogo: 'data:image/png;base64,iVBORw0KGgo=' }).success).toBe(true);
+        expect(validateUpdateSystemSettings({ companyLogo: 'data:image/jpeg;base64,/9j/4AAQ' }).success).toBe(true);
+    });
+
+    it('should reject invalid values', () => {
+        expect(validateUpdateSystemSettings({ companyCnpj: '11222333000180' }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ companyLogo: 'data:image/svg+xml;base64,PHN2Zz4=' }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ defaultMarkup: -1 }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ lowStockThreshold: 1.2345 }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ productCodePrefix: 'PR0D' }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ quoteValidityDays: 0 }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ quoteValidityDays: 7.5 }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ employeeDiscountLimit: -1 }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ managerDiscountLimit: 101 }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ employeeDiscountLimit: 20, managerDiscountLimit: 10 }).success).toBe(false);
+        expect(validateUpdateSystemSettings({ unknownField: true }).success).toBe(false);
+        expect(validateUpdateSystemSettings({}).success).toBe(false);
+    });
+});
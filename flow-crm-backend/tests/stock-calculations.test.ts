@@ -0,0 +1,141 @@
+/**
+ * Tests for stock quantity utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getQuantityDecimals,
+    roundQuantity,
+    hasStockPrecision,
+    normalizeStockQuantity,
+    applyStockChange,
+    calculateAvailableStock,
+    getStockAlertSeverity,
+    calculateReorderQuantity,
+    hasOrderedStockLevels,
+} from '../src/utils/stock-calculations';
+
+describe('Stock Calculations', () => {
+    const unitProduct = { unit: 'un', saleType: 'unit' };
+    const kgProduct = { unit: 'kg', saleType: 'fractional' };
+    const gramProduct = { unit: 'G', saleType: 'fractional' };
+
+    describe('getQuantityDecimals', () => {
+        it('should only allow whole quantities for products sold by unit', () => {
+            expect(getQuantityDecimals(unitProduct)).toBe(0);
+            expect(getQuantityDecimals({ unit: 'kg', saleType: 'unit' })).toBe(0);
+        });
+
+        it('should use the precision of the unit for fractional products', () => {
+            expect(getQuantityDecimals(kgProduct)).toBe(3);
+            expect(getQuantityDecimals(gramProduct)).toBe(1);
+            expect(getQuantityDecimals({ unit: 'pc', saleType: 'fractional' })).toBe(3);
+        });
+    });
+
+    describe('roundQuantity', () => {
+        it('should remove floating point noise', () => {
+            expect(roundQuantity(0.1 + 0.2)).toBe(0.3);
+            expect(roundQuantity(10.1 - 2.3)).toBe(7.8);
+            expect(roundQuantity(1.0005, 3)).toBe(1.001);
+        });
+
+        it('should round to the given decimal places', () => {
+            expect(roundQuantity(2.25, 1)).toBe(2.3);
+            expect(roundQuantity(2.4, 0)).toBe(2);
+        });
+    });
+
+    describe('hasStockPrecision', () => {
+        it('should accept up to three decimal places', () => {
+            expect(hasStockPrecision(2.5)).toBe(true);
+            expect(hasStockPrecision(2.125)).toBe(true);
+            expect(hasStockPrecision(2.1255)).toBe(false);
+            expect(hasStockPrecision(Number.NaN)).toBe(false);
+        });
+    });
+
+    describe('normalizeStockQuantity', () => {
+        it('should reject fractions for products sold by unit', () => {
+            expect(normalizeStockQuantity(3, unitProduct)).toBe(3);
+            expect(() => normalizeStockQuantity(2.5, unitProduct)).toThrow('whole number');
+        });
+
+        it('should round fractional quantities to the unit precision', () => {
+            expect(normalizeStockQuantity(2.5, kgProduct)).toBe(2.5);
+            expect(normalizeStockQuantity(2.5004, kgProduct)).toBe(2.5);
+            expect(normalizeStockQuantity(12.25, gramProduct)).toBe(12.3);
+        });
+    });
+
+    describe('applyStockChange', () => {
+        it('should keep the stored precision', () => {
+            expect(applyStockChange(10, -2.5)).toBe(7.5);
+            expect(applyStockChange(0.3, -0.1)).toBe(0.2);
+        });
+    });
+
+    describe('calculateAvailableStock', () => {
+        it('should subtract the reserved quantity', () => {
+            expect(calculateAvailableStock(10, 4)).toBe(6);
+            expect(calculateAvailableStock(5.5, 2.25)).toBe(3.25);
+        });
+
+        it('should not go below zero', () => {
+            expect(calculateAvailableStock(2, 5)).toBe(0);
+        });
+    });
+
+    describe('getStockAlertSeverity', () => {
+        const noLevels = { minStock: null, reorderPoint: null, maxStock: null };
+
+        it('should use the product levels', () => {
+            const levels = { minStock: 5, reorderPoint: 20, maxStock: 100 };
+            expect(getStockAlertSeverity(21, levels, 10)).toBeNull();
+            expect(getStockAlertSeverity(20, levels, 10)).toBe('low');
+            expect(getStockAlertSeverity(5, levels, 10)).toBe('critical');
+        });
+
+        it('should use the minimum as reorder point', () => {
+            const levels = { minStock: 8, reorderPoint: null, maxStock: null };
+            expect(getStockAlertSeverity(9, levels, 10)).toBeNull();
+            expect(getStockAlertSeverity(8, levels, 10)).toBe('critical');
+        });
+
+        it('should only flag an empty stock as critical without a minimum', () => {
+            const levels = { minStock: null, reorderPoint: 3.5, maxStock: null };
+            expect(getStockAlertSeverity(3.5, levels, 10)).toBe('low');
+            expect(getStockAlertSeverity(0, levels, 10)).toBe('critical');
+        });
+
+        it('should fall back to the default threshold', () => {
+            expect(getStockAlertSeverity(11, noLevels, 10)).toBeNull();
+            expect(getStockAlertSeverity(10, noLevels, 10)).toBe('low');
+            expect(getStockAlertSeverity(5, noLevels, 10)).toBe('critical');
+        });
+    });
+
+    describe('calculateReorderQuantity', () => {
+        it('should order up to the maximum', () => {
+            expect(calculateReorderQuantity(3.25, 10)).toBe(6.75);
+            expect(calculateReorderQuantity(12, 10)).toBe(0);
+        });
+
+        it('should not suggest a quantity without a maximum', () => {
+            expect(calculateReorderQuantity(3, null)).toBeNull();
+        });
+    });
+
+    describe('hasOrderedStockLevels', () => {
+        it('should accept ordered or missing levels', () => {
+            expect(hasOrderedStockLevels({ minStock: 5, reorderPoint: 10, maxStock: 50 })).toBe(true);
+            expect(hasOrderedStockLevels({ minStock: 5, reorderPoint: null, maxStock: 5 })).toBe(true);
+            expect(hasOrderedStockLevels({ minStock: null, reorderPoint: null, maxStock: null })).toBe(true);
+        });
+
+        it('should reject levels out of order', () => {
+            expect(hasOrderedStockLevels({ minStock: 10, reorderPoint: 5, maxStock: null })).toBe(false);
+            expect(hasOrderedStockLevels({ minStock: 10, reorderPoint: null, maxStock: 8 })).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for tax calculation utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    resolveTaxRates,
+    calculateTaxBreakdown,
+    emptyTaxBreakdown,
+    isBrazilianState,
+} from '../src/utils/tax-calculations';
+
+describe('Tax Calculations', () => {
+    describe('resolveTaxRates', () => {
+        it('should use NCM rates when the product has no overrides', () => {
+            const rates = resolveTaxRates({
+                product: { icms: null, ipi: null, pis: null, cofins: null },
+                ncm: { icms: '18.00', ipi: '5.00', pis: '1.65', cofins: '7.60' },
+            });
+
+            expect(rates).toEqual({ icms: 18, ipi: 5, pis: 1.65, cofins: 7.6 });
+        });
+
+        it('should prefer the destination state ICMS rate over the NCM rate', () => {
+            const rates = resolveTaxRates({
+                ncm: { icms: '18.00', ipi: '5.00' },
+                stateIcmsRate: '12.00',
+            });
+
+            expect(rates.icms).toBe(12);
+            expect(rates.ipi).toBe(5);
+        });
+
+        it('should prefer product overrides over state and NCM rates', () => {
+            const rates = resolveTaxRates({
+                product: { icms: '7', pis: '0' },
+                ncm: { icms: '18.00', pis: '1.65' },
+                stateIcmsRate: '12.00',
+            });
+
+            expect(rates.icms).toBe(7);
+            expect(rates.pis).toBe(0);
+        });
+
+        it('should default every tax to zero without configuration', () => {
+            expect(resolveTaxRates({})).toEqual({ icms: 0, ipi: 0, pis: 0, cofins: 0 });
+        });
+    });
+
+    describe('calculateTaxBreakdown', () => {
+        it('should calculate each tax separately over the same amount', () => {
+            const breakdown = calculateTaxBreakdown(1000, { icms: 18, ipi: 5, pis: 1.65, cofins: 7.6 });
+
+            expect(breakdown.icms).toEqual({ rate: 18, amount: 180 });
+            expect(breakdown.ipi).toEqual({ rate: 5, amount: 50 });
+            expect(breakdown.pis).toEqual({ rate: 1.65, amount: 16.5 });
+            expect(breakdown.cofins).toEqual({ rate: 7.6, amount: 76 });
+            expect(breakdown.amount).toBe(322.5);
+            expect(breakdown.rate).toBe(32.25);
+        });
+
+        it('should round each tax to cents', () => {
+            const breakdown = calculateTaxBreakdown(33.33, { icms: 17, ipi: 0, pis: 1.65, cofins: 7.6 });
+
+            expect(breakdown.icms.amount).toBe(5.67);
+            expect(breakdown.pis.amount).toBe(0.55);
+            expect(breakdown.cofins.amount).toBe(2.53);
+            expect(breakdown.amount).toBe(8.75);
+        });
+
+        it('should not tax negative amounts', () => {
+            expect(calculateTaxBreakdown(-10, { icms: 18, ipi: 0, pis: 0, cofins: 0 }).amount).toBe(0);
+        });
+    });
+
+    describe('emptyTaxBreakdown', () => {
+        it('should return zero for every tax', () => {
+            const breakdown = emptyTaxBreakdown();
+
+            expect(breakdown.amount).toBe(0);
+            expect(breakdown.rate).toBe(0);
+            expect(breakdown.icms).toEqual({ rate: 0, amount: 0 });
+        });
+    });
+
+    describe('isBrazilianState', () => {
+        it('should accept valid UF codes only', () => {
+            expect(isBrazilianState('SP')).toBe(true);
+            expect(isBrazilianState('DF')).toBe(true);
+            expect(isBrazilianState('XX')).toBe(false);
+            expect(isBrazilianState('sp')).toBe(false);
+        });
+    });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { validateCpf, formatCpf, cleanCpf } from '../src/utils/cpf-cnpj-validator.js';
+import { validateCpf, formatCpf, cleanCpf, validateCnpj, formatCnpj, validateDocument } from '../src/utils/cpf-cnpj-validator.js';
 import { hashPassword, comparePassword } from '../src/utils/password-hash.js';
-import { generateToken, verifyToken, extractTokenFromHeader, isTokenExpired } from '../src/utils/jwt.js';
+import { generateToken, verifyToken, extractTokenFromHeader, isTokenExpired, generateRefreshToken, hashRefreshToken } from '../src/utils/jwt.js';
 
 describe('CPF Validation Utilities', () => {
   it('should validate correct CPF', () => {
@@ -25,6 +25,31 @@ describe('CPF Validation Utilities', () => {
   });
 });
 
+describe('CNPJ Validation Utilities', () => {
+  it('should validate correct CNPJ', () => {
+    expect(validateCnpj('11.222.333/0001-81')).toBe(true);
+    expect(validateCnpj('11444777000161')).toBe(true);
+  });
+
+  it('should reject invalid CNPJ', () => {
+    expect(validateCnpj('11.222.333/0001-80')).toBe(false);
+    expect(validateCnpj('11.111.111/1111-11')).toBe(false);
+    expect(validateCnpj('12345678909')).toBe(false);
+    expect(validateCnpj('')).toBe(false);
+  });
+
+  it('should format CNPJ correctly', () => {
+    expect(formatCnpj('11222333000181')).toBe('11.222.333/0001-81');
+  });
+
+  it('should validate documents according to their type', () => {
+    expect(validateDocument('123.456.789-09', 'cpf')).toBe(true);
+    expect(validateDocument('123.456.789-09', 'cnpj')).toBe(false);
+    expect(validateDocument('11.222.333/0001-81', 'cnpj')).toBe(true);
+    expect(validateDocument('11.222.333/0001-81', 'cpf')).toBe(false);
+  });
+});
+
 describe('Password Hashing Utilities', () => {
   it('should hash password', async () => {
     const password = 'testpassword123';
@@ -61,6 +86,31 @@ describe('JWT Utilities', () => {
     expect(decoded.role).toBe(testPayload.role);
   });
 
+  it('should give every token a unique id', async () => {
+    const first = await verifyToken(await generateToken(testPayload));
+    const second = await verifyToken(await generateToken(testPayload));
+
+    expect(first.jti).toBeDefined();
+    expect(first.jti).not.toBe(second.jti);
+  });
+
+  it('should record the issue time in milliseconds', async () => {
+    const before = Date.now();
+    const decoded = await verifyToken(await generateToken(testPayload));
+
+    expect(decoded.iatMs).toBeGreaterThanOrEqual(before);
+    expect(decoded.iatMs).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should generate and hash refresh tokens', () => {
+    const refreshToken = generateRefreshToken();
+
+    expect(refreshToken).not.toBe(generateRefreshToken());
+    expect(hashRefreshToken(refreshToken)).toMatch(/^[a-f0-9]{64}$/);
+    expect(hashRefreshToken(refreshToken)).toBe(hashRefreshToken(refreshToken));
+    expect(hashRefreshToken(refreshToken)).not.toContain(refreshToken);
+  });
+
   it('should extract token from Authorization header', () => {
     const token = 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9';
     const authHeader = `Bearer ${token}`;
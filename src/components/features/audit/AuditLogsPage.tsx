@@ -0,0 +1,438 @@
+import { Download, RefreshCw } from 'lucide-react';
+import type React from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import { userService } from '../../../services/userService';
+import type {
+	AuditAction,
+	AuditLog,
+	AuditLogFilters,
+	AuditUserStatistics,
+	User,
+} from '../../../types';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+import Select, { type SelectOption } from '../../common/Select';
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+	login: 'Login',
+	logout: 'Logout',
+	create: 'Criação',
+	update: 'Alteração',
+	delete: 'Exclusão',
+	view: 'Visualização',
+};
+
+const ACTION_BADGES: Record<AuditAction, string> = {
+	login: 'bg-gray-100 text-gray-700',
+	logout: 'bg-gray-100 text-gray-700',
+	create: 'bg-green-100 text-green-800',
+	update: 'bg-blue-100 text-blue-800',
+	delete: 'bg-red-100 text-red-800',
+	view: 'bg-purple-100 text-purple-800',
+};
+
+const RESOURCE_LABELS: Record<string, string> = {
+	auth: 'Autenticação',
+	product: 'Produtos',
+	product_stock: 'Estoque',
+	customer: 'Clientes',
+	presale: 'Pré-vendas',
+	payment_methods: 'Formas de Pagamento',
+	promotions: 'Promoções',
+	taxes: 'Impostos',
+	commissions: 'Comissões',
+};
+
+const actionOptions: SelectOption[] = [
+	{ value: '', label: 'Todas as ações' },
+	...Object.entries(ACTION_LABELS).map(([value, label]) => ({ value, label })),
+];
+
+const resourceOptions: SelectOption[] = [
+	{ value: '', label: 'Todos os recursos' },
+	...Object.entries(RESOURCE_LABELS).map(([value, label]) => ({
+		value,
+		label,
+	})),
+];
+
+interface FilterValues {
+	userId: string;
+	action: string;
+	resource: string;
+	startDate: string;
+	endDate: string;
+}
+
+const emptyFilters: FilterValues = {
+	userId: '',
+	action: '',
+	resource: '',
+	startDate: '',
+	endDate: '',
+};
+
+/**
+ * Convert the form values to API filters, the end date includes the whole day
+ */
+const toAuditLogFilters = (values: FilterValues): AuditLogFilters => {
+	const toDate = (value: string, endOfDay: boolean): Date => {
+		const [year, month, day] = value.split('-').map(Number);
+		return endOfDay
+			? new Date(year, month - 1, day, 23, 59, 59, 999)
+			: new Date(year, month - 1, day);
+	};
+
+	return {
+		userId: values.userId || undefined,
+		action: (values.action || undefined) as AuditAction | undefined,
+		resource: values.resource || undefined,
+		startDate: values.startDate ? toDate(values.startDate, false) : undefined,
+		endDate: values.endDate ? toDate(values.endDate, true) : undefined,
+	};
+};
+
+/**
+ * Structured details hold a summary and the changed fields; older entries are plain text
+ */
+const describeDetails = (details?: string | null): string => {
+	if (!details) return '-';
+	if (!details.startsWith('{')) return details;
+
+	try {
+		const parsed = JSON.parse(details) as {
+			summary?: string;
+			changes?: Array<{ field: string }>;
+		};
+		const fields = parsed.changes?.map((change) => change.field) ?? [];
+		return fields.length > 0
+			? `${parsed.summary ?? ''} (${fields.join(', ')})`
+			: (parsed.summary ?? details);
+	} catch {
+		return details;
+	}
+};
+
+/**
+ * AuditLogsPage - Administrator view of the audit trail
+ * Logs are filtered and paginated by the server; the export uses the same filters.
+ */
+const AuditLogsPage: React.FC = () => {
+	const [formValues, setFormValues] = useState<FilterValues>(emptyFilters);
+	const [appliedValues, setAppliedValues] =
+		useState<FilterValues>(emptyFilters);
+	const [page, setPage] = useState(1);
+	const [logs, setLogs] = useState<AuditLog[]>([]);
+	const [total, setTotal] = useState(0);
+	const [totalPages, setTotalPages] = useState(0);
+	const [users, setUsers] = useState<User[]>([]);
+	const [stats, setStats] = useState<AuditUserStatistics | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+	const [isExporting, setIsExporting] = useState(false);
+
+	const periodError =
+		formValues.startDate &&
+		formValues.endDate &&
+		formValues.startDate > formValues.endDate
+			? TOAST_MESSAGES.audit.invalidPeriod
+			: undefined;
+
+	const fetchLogs = useCallback(async () => {
+		setIsLoading(true);
+		try {
+			const result = await userService.getAuditLogs({
+				...toAuditLogFilters(appliedValues),
+				page,
+				limit: PAGE_SIZE,
+			});
+			setLogs(result.logs);
+			setTotal(result.total);
+			setTotalPages(result.totalPages);
+		} catch (error) {
+			console.error('Error loading audit logs:', error);
+			toastService.error(TOAST_MESSAGES.audit.loadError);
+		} finally {
+			setIsLoading(false);
+		}
+	}, [appliedValues, page]);
+
+	useEffect(() => {
+		fetchLogs();
+	}, [fetchLogs]);
+
+	// Statistics are shown for the user being filtered
+	useEffect(() => {
+		if (!appliedValues.userId) {
+			setStats(null);
+			return;
+		}
+
+		userService
+			.getUserAuditStats(appliedValues.userId)
+			.then(setStats)
+			.catch((error) => {
+				console.error('Error loading user audit statistics:', error);
+				toastService.error(TOAST_MESSAGES.audit.statsLoadError);
+			});
+	}, [appliedValues.userId]);
+
+	useEffect(() => {
+		userService
+			.getAllUsers()
+			.then(setUsers)
+			.catch((error) => console.error('Error loading users:', error));
+	}, []);
+
+	const userOptions: SelectOption[] = useMemo(
+		() => [
+			{ value: '', label: 'Todos os usuários' },
+			...users.map((user) => ({ value: user.id, label: user.name })),
+		],
+		[users],
+	);
+
+	const updateFilter = (field: keyof FilterValues) => (value: string) =>
+		setFormValues((current) => ({ ...current, [field]: value }));
+
+	const handleApplyFilters = () => {
+		if (periodError) return;
+		setAppliedValues(formValues);
+		setPage(1);
+	};
+
+	const handleClearFilters = () => {
+		setFormValues(emptyFilters);
+		setAppliedValues(emptyFilters);
+		setPage(1);
+	};
+
+	const handleExport = async () => {
+		setIsExporting(true);
+		try {
+			const blob = await userService.exportAuditLogs(
+				toAuditLogFilters(appliedValues),
+			);
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement('a');
+			link.setAttribute('href', url);
+			link.setAttribute(
+				'download',
+				`auditoria_${new Date().toISOString().split('T')[0]}.csv`,
+			);
+			link.style.visibility = 'hidden';
+			document.body.appendChild(link);
+			link.click();
+			document.body.removeChild(link);
+			URL.revokeObjectURL(url);
+
+			toastService.success(TOAST_MESSAGES.audit.exported);
+		} catch (error) {
+			console.error('Error exporting audit logs:', error);
+			toastService.error(TOAST_MESSAGES.audit.exportError);
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	const selectedUser = users.find((user) => user.id === appliedValues.userId);
+
+	return (
+		<div className="p-6 space-y-6">
+			<div className="flex items-center justify-between">
+				<div>
+					<h1 className="text-2xl font-bold text-gray-900">Auditoria</h1>
+					<p className="text-sm text-gray-500">
+						Ações registradas pelos usuários do sistema
+					</p>
+				</div>
+				<div className="flex space-x-2">
+					<Button
+						variant="secondary"
+						size="sm"
+						onClick={fetchLogs}
+						disabled={isLoading}
+						title="Atualizar lista"
+					>
+						<RefreshCw size={14} />
+					</Button>
+					<Button
+						variant="secondary"
+						size="sm"
+						onClick={handleExport}
+						disabled={isExporting || total === 0}
+						loading={isExporting}
+					>
+						<Download size={14} className="mr-1" />
+						Exportar CSV
+					</Button>
+				</div>
+			</div>
+
+			{/* Filters */}
+			<div className="bg-white rounded-lg border border-gray-200 p-6">
+				<div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+					<Select
+						label="Usuário"
+						value={formValues.userId}
+						onChange={updateFilter('userId')}
+						options={userOptions}
+					/>
+					<Select
+						label="Ação"
+						value={formValues.action}
+						onChange={updateFilter('action')}
+						options={actionOptions}
+					/>
+					<Select
+						label="Recurso"
+						value={formValues.resource}
+						onChange={updateFilter('resource')}
+						options={resourceOptions}
+					/>
+					<Input
+						type="date"
+						label="Data Inicial"
+						value={formValues.startDate}
+						onChange={updateFilter('startDate')}
+						error={periodError}
+					/>
+					<Input
+						type="date"
+						label="Data Final"
+						value={formValues.endDate}
+						onChange={updateFilter('endDate')}
+					/>
+				</div>
+				<div className="flex justify-end space-x-3 mt-4">
+					<Button variant="secondary" onClick={handleClearFilters}>
+						Limpar
+					</Button>
+					<Button
+						variant="primary"
+						onClick={handleApplyFilters}
+						disabled={!!periodError || isLoading}
+					>
+						Aplicar Filtros
+					</Button>
+				</div>
+			</div>
+
+			{/* User statistics */}
+			{stats && selectedUser && (
+				<div className="bg-white rounded-lg border border-gray-200 p-6">
+					<h2 className="text-lg font-medium text-gray-900 mb-4">
+						Atividade de {selectedUser.name}
+					</h2>
+					<div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-4">
+						<div>
+							<p className="text-xs text-gray-500">Total</p>
+							<p className="text-xl font-semibold text-gray-900">
+								{stats.totalActions}
+							</p>
+						</div>
+						{(Object.keys(ACTION_LABELS) as AuditAction[]).map((action) => (
+							<div key={action}>
+								<p className="text-xs text-gray-500">{ACTION_LABELS[action]}</p>
+								<p className="text-xl font-semibold text-gray-900">
+									{stats.actionsByType[action] ?? 0}
+								</p>
+							</div>
+						))}
+					</div>
+					{stats.lastAction && (
+						<p className="mt-4 text-sm text-gray-500">
+							Última ação em{' '}
+							{new Date(stats.lastAction.createdAt).toLocaleString('pt-BR')}
+						</p>
+					)}
+				</div>
+			)}
+
+			{/* Logs */}
+			<div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+				<table className="min-w-full divide-y divide-gray-200">
+					<thead className="bg-gray-50">
+						<tr>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Data
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Usuário
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Ação
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Recurso
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Detalhes
+							</th>
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-gray-200">
+						{logs.map((log) => (
+							<tr key={log.id}>
+								<td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">
+									{log.createdAt.toLocaleString('pt-BR')}
+								</td>
+								<td className="px-4 py-2 text-sm text-gray-900">
+									{log.userName}
+								</td>
+								<td className="px-4 py-2 text-sm">
+									<span
+										className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${ACTION_BADGES[log.action] ?? 'bg-gray-100 text-gray-700'}`}
+									>
+										{ACTION_LABELS[log.action] ?? log.action}
+									</span>
+								</td>
+								<td className="px-4 py-2 text-sm text-gray-700">
+									{RESOURCE_LABELS[log.resource] ?? log.resource}
+								</td>
+								<td className="px-4 py-2 text-sm text-gray-600">
+									{describeDetails(log.details)}
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+
+				{logs.length === 0 && !isLoading && (
+					<div className="text-center py-8">
+						<p className="text-gray-500">Nenhum registro encontrado.</p>
+					</div>
+				)}
+			</div>
+
+			{/* Pagination */}
+			{totalPages > 1 && (
+				<div className="flex justify-center items-center space-x-2">
+					<Button
+						onClick={() => setPage(page - 1)}
+						disabled={page <= 1 || isLoading}
+						variant="secondary"
+						size="sm"
+					>
+						Anterior
+					</Button>
+					<span className="text-sm text-gray-600">
+						Página {page} de {totalPages} ({total} registros)
+					</span>
+					<Button
+						onClick={() => setPage(page + 1)}
+						disabled={page >= totalPages || isLoading}
+						variant="secondary"
+						size="sm"
+					>
+						Próxima
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default AuditLogsPage;
@@ -0,0 +1 @@
+export { default as AuditLogsPage } from './AuditLogsPage';
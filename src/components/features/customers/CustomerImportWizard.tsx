@@ -0,0 +1,272 @@
+import type React from 'react';
+import { useState } from 'react';
+import { customerService } from '../../../services/customerService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type {
+	CustomerImportResult,
+	CustomerImportRow,
+	ImportAction,
+} from '../../../types/api';
+import { formatCNPJ, formatCPF } from '../../../utils';
+import Button from '../../common/Button';
+import Modal from '../../common/Modal';
+
+interface CustomerImportWizardProps {
+	isOpen: boolean;
+	onClose: () => void;
+	onImported: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+	name: 'Nome',
+	email: 'E-mail',
+	phone: 'Telefone',
+	cpf: 'CPF/CNPJ',
+	documentType: 'Tipo de Documento',
+	companyName: 'Razão Social',
+	stateRegistration: 'Inscrição Estadual',
+	address: 'Endereço',
+	state: 'UF',
+	tier: 'Nível',
+	discountRate: 'Desconto',
+};
+
+const ACTION_BADGES: Record<
+	ImportAction,
+	{ label: string; className: string }
+> = {
+	create: { label: 'Novo', className: 'bg-green-100 text-green-800' },
+	update: { label: 'Alterado', className: 'bg-blue-100 text-blue-800' },
+	unchanged: {
+		label: 'Sem alteração',
+		className: 'bg-gray-100 text-gray-600',
+	},
+	error: { label: 'Erro', className: 'bg-red-100 text-red-800' },
+};
+
+const formatRowDocument = (document: string | null): string => {
+	if (!document) return '-';
+	return document.length === 14 ? formatCNPJ(document) : formatCPF(document);
+};
+
+const describeRow = (row: CustomerImportRow): string => {
+	if (row.errors && row.errors.length > 0) {
+		return row.errors
+			.map((error) =>
+				error.field
+					? `${FIELD_LABELS[error.field] || error.field}: ${error.message}`
+					: error.message,
+			)
+			.join(' • ');
+	}
+
+	if (row.changes && row.changes.length > 0) {
+		return row.changes
+			.map(
+				(change) =>
+					`${FIELD_LABELS[change.field] || change.field}: ${change.from ?? '-'} → ${change.to ?? '-'}`,
+			)
+			.join(' • ');
+	}
+
+	return '';
+};
+
+/**
+ * CustomerImportWizard - Upload a CSV of customers, review what each row does and confirm the import
+ * Rows are matched to customers by CPF/CNPJ; the preview rolls the import back, so confirming saves what was shown.
+ */
+const CustomerImportWizard: React.FC<CustomerImportWizardProps> = ({
+	isOpen,
+	onClose,
+	onImported,
+}) => {
+	const [file, setFile] = useState<File | null>(null);
+	const [preview, setPreview] = useState<CustomerImportResult | null>(null);
+	const [isProcessing, setIsProcessing] = useState(false);
+
+	const handleClose = () => {
+		setFile(null);
+		setPreview(null);
+		onClose();
+	};
+
+	const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		setFile(e.target.files?.[0] || null);
+		setPreview(null);
+	};
+
+	const handlePreview = async () => {
+		if (!file) return;
+
+		setIsProcessing(true);
+		try {
+			setPreview(await customerService.importCustomers(file, true));
+		} catch (error) {
+			console.error('Error previewing customer import:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: TOAST_MESSAGES.customer.importError,
+			);
+		} finally {
+			setIsProcessing(false);
+		}
+	};
+
+	const handleImport = async () => {
+		if (!file) return;
+
+		setIsProcessing(true);
+		try {
+			const result = await customerService.importCustomers(file, false);
+			if (!result.committed) {
+				// The customers changed since the preview; show the new row results
+				setPreview(result);
+				toastService.error(TOAST_MESSAGES.customer.importHasErrors);
+				return;
+			}
+
+			toastService.success(TOAST_MESSAGES.customer.imported);
+			setFile(null);
+			setPreview(null);
+			onImported();
+		} catch (error) {
+			console.error('Error importing customers:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: TOAST_MESSAGES.customer.importError,
+			);
+		} finally {
+			setIsProcessing(false);
+		}
+	};
+
+	const hasChanges =
+		!!preview && preview.summary.created + preview.summary.updated > 0;
+	const hasErrors = !!preview && preview.summary.errors > 0;
+
+	return (
+		<Modal isOpen={isOpen} onClose={handleClose} title="Importar Clientes">
+			<div className="space-y-4">
+				{/* Step 1: file */}
+				<div className="space-y-2">
+					<p className="text-sm text-gray-600">
+						Envie um arquivo CSV com cabeçalho na primeira linha (as mesmas
+						colunas da exportação). Clientes com CPF/CNPJ já cadastrado são
+						atualizados; os demais são cadastrados.
+					</p>
+					<div className="flex items-center space-x-2">
+						<input
+							type="file"
+							accept=".csv,text/csv"
+							onChange={handleFileChange}
+							disabled={isProcessing}
+							className="flex-1 text-sm text-gray-700"
+						/>
+						<Button
+							variant="secondary"
+							size="sm"
+							onClick={handlePreview}
+							disabled={!file || isProcessing}
+							loading={isProcessing && !preview}
+						>
+							Gerar prévia
+						</Button>
+					</div>
+				</div>
+
+				{/* Step 2: preview */}
+				{preview && (
+					<>
+						<div className="flex flex-wrap gap-2 text-sm">
+							<span className="px-2 py-1 rounded-full bg-green-100 text-green-800">
+								{preview.summary.created} novos
+							</span>
+							<span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800">
+								{preview.summary.updated} alterados
+							</span>
+							<span className="px-2 py-1 rounded-full bg-gray-100 text-gray-600">
+								{preview.summary.unchanged} sem alteração
+							</span>
+							<span className="px-2 py-1 rounded-full bg-red-100 text-red-800">
+								{preview.summary.errors} com erro
+							</span>
+						</div>
+
+						<div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+							<table className="min-w-full text-sm">
+								<thead className="bg-gray-50 sticky top-0">
+									<tr>
+										<th className="px-3 py-2 text-left font-medium text-gray-700">
+											Linha
+										</th>
+										<th className="px-3 py-2 text-left font-medium text-gray-700">
+											Ação
+										</th>
+										<th className="px-3 py-2 text-left font-medium text-gray-700">
+											Cliente
+										</th>
+										<th className="px-3 py-2 text-left font-medium text-gray-700">
+											Detalhes
+										</th>
+									</tr>
+								</thead>
+								<tbody className="divide-y divide-gray-100">
+									{preview.rows.map((row) => (
+										<tr key={row.row}>
+											<td className="px-3 py-2 text-gray-500">{row.row}</td>
+											<td className="px-3 py-2">
+												<span
+													className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${ACTION_BADGES[row.action].className}`}
+												>
+													{ACTION_BADGES[row.action].label}
+												</span>
+											</td>
+											<td className="px-3 py-2 text-gray-900">
+												{row.name || '-'}
+												<span className="block text-xs text-gray-500">
+													{formatRowDocument(row.document)}
+												</span>
+											</td>
+											<td
+												className={`px-3 py-2 text-xs ${row.action === 'error' ? 'text-red-600' : 'text-gray-600'}`}
+											>
+												{describeRow(row)}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+
+						{hasErrors && (
+							<p className="text-sm text-red-600">
+								Corrija as linhas com erro no arquivo e gere a prévia novamente.
+								Nenhum cliente é importado enquanto houver erros.
+							</p>
+						)}
+					</>
+				)}
+
+				{/* Step 3: confirm */}
+				<div className="flex justify-end space-x-3">
+					<Button variant="secondary" onClick={handleClose}>
+						Cancelar
+					</Button>
+					<Button
+						variant="primary"
+						onClick={handleImport}
+						disabled={!hasChanges || hasErrors || isProcessing}
+						loading={isProcessing && !!preview}
+					>
+						Importar
+					</Button>
+				</div>
+			</div>
+		</Modal>
+	);
+};
+
+export default CustomerImportWizard;
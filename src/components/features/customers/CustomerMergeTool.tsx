@@ -0,0 +1,187 @@
+import type React from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { customerService } from '../../../services/customerService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type { DuplicateCustomerGroup } from '../../../types/api';
+import { formatCNPJ, formatCPF } from '../../../utils';
+import Button from '../../common/Button';
+import Modal from '../../common/Modal';
+
+interface CustomerMergeToolProps {
+	isOpen: boolean;
+	onClose: () => void;
+	onMerged: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateCustomerGroup['reason'], string> = {
+	name: 'Mesmo nome',
+	email: 'Mesmo e-mail',
+	phone: 'Mesmo telefone',
+};
+
+const groupKey = (group: DuplicateCustomerGroup) =>
+	`${group.reason}:${group.value}`;
+
+/**
+ * CustomerMergeTool - Review customers that look duplicated and merge them into the one to keep
+ * The pre-sales of the merged customers move to the kept customer and the spare records are deleted.
+ */
+const CustomerMergeTool: React.FC<CustomerMergeToolProps> = ({
+	isOpen,
+	onClose,
+	onMerged,
+}) => {
+	const [groups, setGroups] = useState<DuplicateCustomerGroup[]>([]);
+	const [targets, setTargets] = useState<Record<string, string>>({});
+	const [isLoading, setIsLoading] = useState(false);
+	const [mergingGroup, setMergingGroup] = useState<string | null>(null);
+
+	const loadDuplicates = useCallback(async () => {
+		setIsLoading(true);
+		try {
+			const duplicates = await customerService.getDuplicates();
+			setGroups(duplicates);
+			// The oldest record is kept by default
+			setTargets(
+				Object.fromEntries(
+					duplicates.map((group) => [groupKey(group), group.customers[0].id]),
+				),
+			);
+		} catch (error) {
+			console.error('Error loading duplicate customers:', error);
+			toastService.error(TOAST_MESSAGES.customer.duplicatesLoadError);
+		} finally {
+			setIsLoading(false);
+		}
+	}, []);
+
+	// Reload every time the tool opens
+	useEffect(() => {
+		if (isOpen) {
+			loadDuplicates();
+		}
+	}, [isOpen, loadDuplicates]);
+
+	const handleMerge = async (group: DuplicateCustomerGroup) => {
+		const key = groupKey(group);
+		const target = group.customers.find(
+			(customer) => customer.id === targets[key],
+		);
+		if (!target) return;
+
+		const sources = group.customers.filter(
+			(customer) => customer.id !== target.id,
+		);
+		if (
+			!confirm(
+				`Mesclar ${sources.length} cadastro(s) em "${target.name}"? As pré-vendas serão transferidas e os cadastros duplicados serão excluídos.`,
+			)
+		) {
+			return;
+		}
+
+		setMergingGroup(key);
+		try {
+			for (const source of sources) {
+				await customerService.mergeCustomers(source.id, target.id);
+			}
+			toastService.success(TOAST_MESSAGES.customer.merged);
+			onMerged();
+		} catch (error) {
+			console.error('Error merging customers:', error);
+			toastService.error(TOAST_MESSAGES.customer.mergeError);
+		} finally {
+			setMergingGroup(null);
+			await loadDuplicates();
+		}
+	};
+
+	return (
+		<Modal
+			isOpen={isOpen}
+			onClose={onClose}
+			title="Mesclar Clientes Duplicados"
+		>
+			<div className="space-y-4">
+				<p className="text-sm text-gray-600">
+					Clientes com o mesmo nome, e-mail ou telefone. Escolha o cadastro a
+					manter: as pré-vendas dos demais são transferidas para ele e os
+					cadastros duplicados são excluídos.
+				</p>
+
+				{isLoading && groups.length === 0 ? (
+					<p className="text-sm text-gray-500">Buscando duplicados...</p>
+				) : groups.length === 0 ? (
+					<p className="text-sm text-gray-500">
+						Nenhum cliente duplicado encontrado.
+					</p>
+				) : (
+					<div className="max-h-96 overflow-y-auto space-y-3">
+						{groups.map((group) => {
+							const key = groupKey(group);
+							return (
+								<div
+									key={key}
+									className="border border-gray-200 rounded-lg p-3 space-y-2"
+								>
+									<div className="flex items-center justify-between">
+										<span className="text-sm font-medium text-gray-800">
+											{REASON_LABELS[group.reason]}:{' '}
+											<span className="text-gray-600">{group.value}</span>
+										</span>
+										<Button
+											variant="secondary"
+											size="sm"
+											onClick={() => handleMerge(group)}
+											disabled={mergingGroup !== null}
+											loading={mergingGroup === key}
+										>
+											Mesclar
+										</Button>
+									</div>
+									{group.customers.map((customer) => (
+										<label
+											key={customer.id}
+											className="flex items-start space-x-2 text-sm cursor-pointer"
+										>
+											<input
+												type="radio"
+												name={key}
+												checked={targets[key] === customer.id}
+												onChange={() =>
+													setTargets((current) => ({
+														...current,
+														[key]: customer.id,
+													}))
+												}
+												className="mt-1"
+											/>
+											<span>
+												<span className="text-gray-900">{customer.name}</span>
+												<span className="block text-xs text-gray-500">
+													{customer.documentType === 'cnpj'
+														? formatCNPJ(customer.cpf)
+														: formatCPF(customer.cpf)}{' '}
+													• {customer.email} • {customer.phone} •{' '}
+													{customer.preSaleCount} pré-venda(s)
+												</span>
+											</span>
+										</label>
+									))}
+								</div>
+							);
+						})}
+					</div>
+				)}
+
+				<div className="flex justify-end">
+					<Button variant="secondary" onClick={onClose}>
+						Fechar
+					</Button>
+				</div>
+			</div>
+		</Modal>
+	);
+};
+
+export default CustomerMergeTool;
@@ -1,24 +1,99 @@
-import { Loader2, RefreshCw, Search, SquarePen, Trash2 } from 'lucide-react';
+import {
+	Download,
+	History,
+	Loader2,
+	Merge,
+	RefreshCw,
+	Search,
+	SquarePen,
+	Trash2,
+	Upload,
+} from 'lucide-react';
 import type React from 'react';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '../../../context/AuthContext';
 import { useCustomers } from '../../../hooks/useCustomers';
+import { customerService } from '../../../services/customerService';
 import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
 import type {
 	Customer as ApiCustomer,
 	CreateCustomerRequest,
+	CustomerTier,
+	DocumentType,
 } from '../../../types/api';
-import { formatCPF, validateCPF } from '../../../utils';
+import {
+	BRAZILIAN_STATES,
+	formatCNPJ,
+	formatCPF,
+	validateCNPJ,
+	validateCPF,
+} from '../../../utils';
 import Button from '../../common/Button';
 import Input from '../../common/Input';
+import type { SelectOption } from '../../common/Select';
+import Select from '../../common/Select';
+import { HistoryDrawer } from '../shared/historyDrawer';
+import CustomerImportWizard from './CustomerImportWizard';
+import CustomerMergeTool from './CustomerMergeTool';
 
 type TabType = 'list' | 'register';
 // All fields are now consolidated into a single form - no subtabs needed
 
+// Default discount granted by each tier (mirrors the backend price engine)
+const tierOptions: SelectOption[] = [
+	{ value: 'regular', label: 'Regular (sem desconto)' },
+	{ value: 'premium', label: 'Premium (5% de desconto)' },
+	{ value: 'vip', label: 'VIP (10% de desconto)' },
+];
+
+const tierBadges: Record<CustomerTier, { label: string; className: string }> = {
+	regular: { label: 'Regular', className: 'bg-gray-100 text-gray-800' },
+	premium: { label: 'Premium', className: 'bg-blue-100 text-blue-800' },
+	vip: { label: 'VIP', className: 'bg-purple-100 text-purple-800' },
+};
+
+const documentTypeOptions: SelectOption[] = [
+	{ value: 'cpf', label: 'Pessoa Física (CPF)' },
+	{ value: 'cnpj', label: 'Pessoa Jurídica (CNPJ)' },
+];
+
+const formatDocument = (document: string, documentType: DocumentType) =>
+	documentType === 'cnpj' ? formatCNPJ(document) : formatCPF(document);
+
+const stateOptions: SelectOption[] = [
+	{ value: '', label: 'Não informada' },
+	...BRAZILIAN_STATES.map((state) => ({ value: state, label: state })),
+];
+
+const emptyFormData = {
+	name: '',
+	cpf: '',
+	documentType: 'cpf' as DocumentType,
+	companyName: '',
+	stateRegistration: '',
+	email: '',
+	phone: '',
+	address: '',
+	state: '',
+	tier: 'regular' as CustomerTier,
+	discountRate: '',
+};
+
 const SimplifiedCustomers: React.FC = () => {
 	const { isAdmin, isEmployee, hasPermission, user } = useAuth();
 	const [activeTab, setActiveTab] = useState<TabType>('list');
 	const [searchQuery, setSearchQuery] = useState('');
+	const [isExporting, setIsExporting] = useState(false);
+	const [isImportWizardOpen, setIsImportWizardOpen] = useState(false);
+	const [isMergeToolOpen, setIsMergeToolOpen] = useState(false);
+	const [historyCustomer, setHistoryCustomer] = useState<ApiCustomer | null>(
+		null,
+	);
+	const loadCustomerHistory = useCallback(
+		(page: number) =>
+			customerService.getHistory(historyCustomer?.id ?? '', page),
+		[historyCustomer?.id],
+	);
 
 	// Use the custom hook for customer management
 	const {
@@ -42,13 +117,36 @@ const SimplifiedCustomers: React.FC = () => {
 		}
 	};
 
-	const [formData, setFormData] = useState({
-		name: '',
-		cpf: '',
-		email: '',
-		phone: '',
-		address: '',
-	});
+	// Export the customers matching the current search
+	const handleExport = async () => {
+		setIsExporting(true);
+		try {
+			const blob = await customerService.exportCustomers({
+				search: searchQuery.trim() || undefined,
+			});
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement('a');
+			link.setAttribute('href', url);
+			link.setAttribute(
+				'download',
+				`clientes_${new Date().toISOString().split('T')[0]}.csv`,
+			);
+			link.style.visibility = 'hidden';
+			document.body.appendChild(link);
+			link.click();
+			document.body.removeChild(link);
+			URL.revokeObjectURL(url);
+
+			toastService.success(TOAST_MESSAGES.customer.exported);
+		} catch (error) {
+			console.error('Error exporting customers:', error);
+			toastService.error(TOAST_MESSAGES.customer.exportError);
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	const [formData, setFormData] = useState(emptyFormData);
 
 	const [errors, setErrors] = useState<Record<string, string>>({});
 	const [isSubmitting, setIsSubmitting] = useState(false);
@@ -68,10 +166,16 @@ const SimplifiedCustomers: React.FC = () => {
 		setEditingCustomer(customer);
 		setFormData({
 			name: customer.name,
-			cpf: customer.cpf,
+			cpf: formatDocument(customer.cpf, customer.documentType || 'cpf'),
+			documentType: customer.documentType || 'cpf',
+			companyName: customer.companyName || '',
+			stateRegistration: customer.stateRegistration || '',
 			email: customer.email,
 			phone: customer.phone,
 			address: customer.address || '',
+			state: customer.state || '',
+			tier: customer.tier || 'regular',
+			discountRate: customer.discountRate || '',
 		});
 		setActiveTab('register');
 		toastService.info(`Editando cliente: ${customer.name}`);
@@ -106,9 +210,9 @@ const SimplifiedCustomers: React.FC = () => {
 	const handleInputChange = (field: string) => (value: string) => {
 		let processedValue = value;
 
-		// Format CPF as user types
+		// Format CPF/CNPJ as user types
 		if (field === 'cpf') {
-			processedValue = formatCPF(value);
+			processedValue = formatDocument(value, formData.documentType);
 		}
 
 		// Format phone as user types
@@ -141,7 +245,17 @@ const SimplifiedCustomers: React.FC = () => {
 			newErrors.email = 'Email inválido';
 		}
 
-		if (!formData.cpf.trim()) {
+		if (formData.documentType === 'cnpj') {
+			if (!formData.cpf.trim()) {
+				newErrors.cpf = 'CNPJ é obrigatório';
+			} else if (!validateCNPJ(formData.cpf)) {
+				newErrors.cpf = 'CNPJ inválido';
+			}
+
+			if (!formData.companyName.trim()) {
+				newErrors.companyName = 'Razão social é obrigatória';
+			}
+		} else if (!formData.cpf.trim()) {
 			newErrors.cpf = 'CPF é obrigatório';
 		} else if (!validateCPF(formData.cpf)) {
 			newErrors.cpf = 'CPF inválido';
@@ -151,6 +265,13 @@ const SimplifiedCustomers: React.FC = () => {
 			newErrors.phone = 'Telefone é obrigatório';
 		}
 
+		if (formData.discountRate.trim()) {
+			const rate = Number(formData.discountRate.replace(',', '.'));
+			if (Number.isNaN(rate) || rate < 0 || rate > 100) {
+				newErrors.discountRate = 'Desconto deve estar entre 0 e 100%';
+			}
+		}
+
 		setErrors(newErrors);
 		return Object.keys(newErrors).length === 0;
 	};
@@ -170,7 +291,19 @@ const SimplifiedCustomers: React.FC = () => {
 				email: formData.email.trim(),
 				phone: formData.phone.trim(),
 				cpf: formData.cpf.replace(/\D/g, ''), // Remove formatting for API
+				documentType: formData.documentType,
+				companyName:
+					formData.documentType === 'cnpj' ? formData.companyName.trim() : null,
+				stateRegistration:
+					formData.documentType === 'cnpj'
+						? formData.stateRegistration.trim() || null
+						: null,
 				address: formData.address.trim() || undefined,
+				state: formData.state || null,
+				tier: formData.tier,
+				discountRate: formData.discountRate.trim()
+					? Number(formData.discountRate.replace(',', '.')).toFixed(2)
+					: null,
 			};
 
 			let success = false;
@@ -203,13 +336,7 @@ const SimplifiedCustomers: React.FC = () => {
 			// Only proceed with UI updates if the operation was successful
 			if (success) {
 				// Reset form after successful submit
-				setFormData({
-					name: '',
-					cpf: '',
-					email: '',
-					phone: '',
-					address: '',
-				});
+				setFormData(emptyFormData);
 				setErrors({});
 				setActiveTab('list');
 			}
@@ -232,13 +359,7 @@ const SimplifiedCustomers: React.FC = () => {
 
 	const handleCancelEdit = () => {
 		setEditingCustomer(null);
-		setFormData({
-			name: '',
-			cpf: '',
-			email: '',
-			phone: '',
-			address: '',
-		});
+		setFormData(emptyFormData);
 		setErrors({});
 		setActiveTab('list');
 	};
@@ -255,6 +376,34 @@ const SimplifiedCustomers: React.FC = () => {
 							<span className="text-sm text-gray-500">
 								{customers.length} clientes
 							</span>
+							<Button
+								onClick={handleExport}
+								disabled={isExporting || loading}
+								loading={isExporting}
+								variant="secondary"
+								size="sm"
+							>
+								<Download size={14} className="mr-1" />
+								Exportar CSV
+							</Button>
+							<Button
+								onClick={() => setIsImportWizardOpen(true)}
+								disabled={loading}
+								variant="secondary"
+								size="sm"
+							>
+								<Upload size={14} className="mr-1" />
+								Importar
+							</Button>
+							<Button
+								onClick={() => setIsMergeToolOpen(true)}
+								disabled={loading}
+								variant="secondary"
+								size="sm"
+							>
+								<Merge size={14} className="mr-1" />
+								Mesclar duplicados
+							</Button>
 							<button
 								type="button"
 								onClick={refetch}
@@ -279,7 +428,7 @@ const SimplifiedCustomers: React.FC = () => {
 							/>
 							<input
 								type="text"
-								placeholder="Buscar clientes por nome, email ou CPF..."
+								placeholder="Buscar clientes por nome, email, CPF ou CNPJ..."
 								value={searchQuery}
 								onChange={(e) => setSearchQuery(e.target.value)}
 								onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
@@ -333,10 +482,18 @@ const SimplifiedCustomers: React.FC = () => {
 											<h3 className="font-semibold text-gray-900 line-clamp-1">
 												{customer.name}
 											</h3>
+											{customer.companyName && (
+												<p className="text-xs text-gray-500 line-clamp-1">
+													{customer.companyName}
+												</p>
+											)}
 											<p className="text-xs text-gray-600">
-												CPF:{' '}
+												{customer.documentType === 'cnpj' ? 'CNPJ' : 'CPF'}:{' '}
 												{customer.cpf
-													? formatCPF(customer.cpf)
+													? formatDocument(
+															customer.cpf,
+															customer.documentType || 'cpf',
+														)
 													: 'Não informado'}
 											</p>
 										</div>
@@ -350,34 +507,55 @@ const SimplifiedCustomers: React.FC = () => {
 										<p className="line-clamp-1">{customer.email}</p>
 										<p className="text-xs text-gray-500 mt-1">
 											{customer.address}
+											{customer.state &&
+												`${customer.address ? ' · ' : ''}UF: ${customer.state}`}
 										</p>
 									</div>
 									<div className="flex justify-between items-center pt-3 border-t border-gray-100 mt-auto">
-										<span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
-											Ativo
-										</span>
-										{(isAdmin || hasPermission('modules.customers')) && (
-											<div className="flex space-x-2">
-												<button
-													type="button"
-													className="text-blue-600 hover:text-blue-800 text-sm disabled:opacity-50"
-													onClick={() => handleEditCustomer(customer)}
-													title="Editar cliente"
-													disabled={loading}
-												>
-													<SquarePen size={16} />
-												</button>
-												<button
-													type="button"
-													className="text-red-600 hover:text-red-800 text-sm disabled:opacity-50"
-													onClick={() => handleDeleteCustomer(customer)}
-													title="Excluir cliente"
-													disabled={loading}
-												>
-													<Trash2 size={16} />
-												</button>
-											</div>
-										)}
+										<div className="flex items-center space-x-2">
+											<span
+												className={`text-xs px-2 py-1 rounded-full ${tierBadges[customer.tier || 'regular'].className}`}
+											>
+												{tierBadges[customer.tier || 'regular'].label}
+											</span>
+											{customer.discountRate && (
+												<span className="text-xs text-gray-600">
+													{Number(customer.discountRate)}% negociado
+												</span>
+											)}
+										</div>
+										<div className="flex space-x-2">
+											<button
+												type="button"
+												className="text-gray-500 hover:text-gray-700 text-sm"
+												onClick={() => setHistoryCustomer(customer)}
+												title="Histórico"
+											>
+												<History size={16} />
+											</button>
+											{(isAdmin || hasPermission('modules.customers')) && (
+												<>
+													<button
+														type="button"
+														className="text-blue-600 hover:text-blue-800 text-sm disabled:opacity-50"
+														onClick={() => handleEditCustomer(customer)}
+														title="Editar cliente"
+														disabled={loading}
+													>
+														<SquarePen size={16} />
+													</button>
+													<button
+														type="button"
+														className="text-red-600 hover:text-red-800 text-sm disabled:opacity-50"
+														onClick={() => handleDeleteCustomer(customer)}
+														title="Excluir cliente"
+														disabled={loading}
+													>
+														<Trash2 size={16} />
+													</button>
+												</>
+											)}
+										</div>
 									</div>
 								</div>
 							))}
@@ -416,28 +594,81 @@ const SimplifiedCustomers: React.FC = () => {
 						)}
 					</div>
 					<div className="space-y-6">
-						{/* First row: Name and CPF */}
-						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+						{/* First row: Document type, Name and CPF/CNPJ */}
+						<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+							<Select
+								label="Tipo de Pessoa"
+								value={formData.documentType}
+								onChange={(value) => {
+									setFormData((prev) => ({
+										...prev,
+										documentType: value as DocumentType,
+										cpf: '',
+									}));
+									setErrors((prev) => ({ ...prev, cpf: '', companyName: '' }));
+								}}
+								options={documentTypeOptions}
+								size="sm"
+							/>
+
 							<Input
-								label="Nome Completo*"
+								label={
+									formData.documentType === 'cnpj'
+										? 'Nome Fantasia*'
+										: 'Nome Completo*'
+								}
 								value={formData.name}
 								onChange={handleInputChange('name')}
-								placeholder="Digite o nome completo"
+								placeholder={
+									formData.documentType === 'cnpj'
+										? 'Digite o nome fantasia'
+										: 'Digite o nome completo'
+								}
 								error={errors.name}
 								required
 							/>
 
 							<Input
-								label="CPF/CNPJ*"
+								label={formData.documentType === 'cnpj' ? 'CNPJ*' : 'CPF*'}
 								value={formData.cpf}
 								onChange={handleInputChange('cpf')}
-								placeholder="000.000.000-00"
+								placeholder={
+									formData.documentType === 'cnpj'
+										? '00.000.000/0000-00'
+										: '000.000.000-00'
+								}
 								error={errors.cpf}
-								maxLength={14}
+								maxLength={formData.documentType === 'cnpj' ? 18 : 14}
 								required
 							/>
 						</div>
 
+						{/* Company fields, CNPJ only */}
+						{formData.documentType === 'cnpj' && (
+							<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+								<div className="md:col-span-2">
+									<Input
+										label="Razão Social*"
+										value={formData.companyName}
+										onChange={handleInputChange('companyName')}
+										placeholder="Digite a razão social"
+										error={errors.companyName}
+										maxLength={255}
+										required
+									/>
+								</div>
+
+								<Input
+									label="Inscrição Estadual"
+									value={formData.stateRegistration}
+									onChange={handleInputChange('stateRegistration')}
+									placeholder="Número ou ISENTO"
+									error={errors.stateRegistration}
+									maxLength={20}
+								/>
+							</div>
+						)}
+
 						{/* Second row: Email and Phone */}
 						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
 							<Input
@@ -461,13 +692,52 @@ const SimplifiedCustomers: React.FC = () => {
 							/>
 						</div>
 
-						{/* Third row: Address */}
-						<div>
+						{/* Third row: Address and state */}
+						<div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+							<div className="md:col-span-3">
+								<Input
+									label="Endereço"
+									value={formData.address}
+									onChange={handleInputChange('address')}
+									placeholder="Rua, número, bairro, cidade - UF"
+								/>
+							</div>
+
+							<Select
+								label="UF"
+								value={formData.state}
+								onChange={handleInputChange('state')}
+								options={stateOptions}
+								placeholder="Selecione"
+								size="sm"
+							/>
+						</div>
+
+						{/* Fourth row: Commercial conditions */}
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<Select
+								label="Categoria do Cliente"
+								value={formData.tier}
+								onChange={(value) =>
+									setFormData((prev) => ({
+										...prev,
+										tier: value as CustomerTier,
+									}))
+								}
+								options={tierOptions}
+								size="sm"
+							/>
+
 							<Input
-								label="Endereço"
-								value={formData.address}
-								onChange={handleInputChange('address')}
-								placeholder="Rua, número, bairro, cidade - UF"
+								label="Desconto Negociado (%)"
+								type="number"
+								min="0"
+								max="100"
+								step="0.01"
+								value={formData.discountRate}
+								onChange={handleInputChange('discountRate')}
+								placeholder="Usar desconto da categoria"
+								error={errors.discountRate}
 							/>
 						</div>
 					</div>
@@ -482,13 +752,7 @@ const SimplifiedCustomers: React.FC = () => {
 							if (editingCustomer) {
 								handleCancelEdit();
 							} else {
-								setFormData({
-									name: '',
-									cpf: '',
-									email: '',
-									phone: '',
-									address: '',
-								});
+								setFormData(emptyFormData);
 								setErrors({});
 							}
 						}}
@@ -588,6 +852,28 @@ const SimplifiedCustomers: React.FC = () => {
 			{(isAdmin || hasPermission('modules.customers')) && (
 				<div className="mt-6">{renderTabContent()}</div>
 			)}
+
+			<CustomerImportWizard
+				isOpen={isImportWizardOpen}
+				onClose={() => setIsImportWizardOpen(false)}
+				onImported={() => {
+					setIsImportWizardOpen(false);
+					refetch();
+				}}
+			/>
+
+			<CustomerMergeTool
+				isOpen={isMergeToolOpen}
+				onClose={() => setIsMergeToolOpen(false)}
+				onMerged={refetch}
+			/>
+
+			<HistoryDrawer
+				isOpen={!!historyCustomer}
+				onClose={() => setHistoryCustomer(null)}
+				title={`Histórico - ${historyCustomer?.name ?? ''}`}
+				loadHistory={loadCustomerHistory}
+			/>
 		</div>
 	);
 };
@@ -161,7 +161,7 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
 	};
 
 	const handlePresaleSubmit = async (
-		presaleData: Omit<PreSale, 'id' | 'createdAt' | 'updatedAt'>,
+		presaleData: Omit<PreSale, 'id' | 'number' | 'createdAt' | 'updatedAt'>,
 	) => {
 		try {
 			// Converter dados do modal para o formato da API
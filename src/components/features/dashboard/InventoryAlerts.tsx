@@ -1,6 +1,7 @@
 import { AlertTriangle, Package } from 'lucide-react';
 import type React from 'react';
 import type { InventoryAlert } from '../../../services/dashboardService';
+import { formatQuantity } from '../../../utils';
 
 interface InventoryAlertsProps {
 	alerts: InventoryAlert[];
@@ -116,14 +117,24 @@ const InventoryAlerts: React.FC<InventoryAlertsProps> = ({
 									<div className="flex-1 min-w-0">
 										<p className="text-sm font-medium">{alert.productName}</p>
 										<p className="text-xs mt-1">
-											Estoque atual: {alert.currentStock} unidades
+											Estoque atual: {formatQuantity(alert.currentStock, alert)}{' '}
+											{alert.unit}
 											{alert.severity === 'critical' && ' (Crítico!)'}
 										</p>
 									</div>
-									<div className="flex-shrink-0">
-										<span className="text-xs font-medium">
-											Min: {alert.minimumStock}
-										</span>
+									<div className="flex-shrink-0 text-right text-xs font-medium space-y-0.5">
+										{alert.minimumStock !== null && (
+											<p>Min: {formatQuantity(alert.minimumStock, alert)}</p>
+										)}
+										{alert.reorderPoint !== null && (
+											<p>Pedido: {formatQuantity(alert.reorderPoint, alert)}</p>
+										)}
+										{alert.reorderQuantity !== null && (
+											<p>
+												Repor: {formatQuantity(alert.reorderQuantity, alert)}{' '}
+												{alert.unit}
+											</p>
+										)}
 									</div>
 								</div>
 							</div>
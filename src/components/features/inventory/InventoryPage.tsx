@@ -16,6 +16,11 @@ import inventoryService, {
 } from '../../../services/inventoryService';
 import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
 import type { Product } from '../../../types';
+import {
+	formatQuantity,
+	getQuantityDecimals,
+	roundQuantity,
+} from '../../../utils';
 import Button from '../../common/Button/Button';
 import Input from '../../common/Input/Input';
 
@@ -384,6 +389,21 @@ const InventoryPage: React.FC = () => {
 		}
 	};
 
+	// Quantities follow the product unit: whole numbers for products sold by unit,
+	// up to the unit precision for fractional products (e.g. grams for kg)
+	const quantityDecimals = selectedProduct
+		? getQuantityDecimals(selectedProduct)
+		: 0;
+	const quantityStep = quantityDecimals > 0 ? 10 ** -quantityDecimals : 1;
+
+	const getQuantityPrecisionError = (quantity: number): string | undefined => {
+		if (roundQuantity(quantity, quantityDecimals) === quantity)
+			return undefined;
+		return quantityDecimals === 0
+			? 'Quantidade deve ser um número inteiro para produtos vendidos por unidade'
+			: `Quantidade deve ter no máximo ${quantityDecimals} casas decimais`;
+	};
+
 	const validateForm = (): boolean => {
 		const errors: { [key: string]: string } = {};
 
@@ -403,14 +423,15 @@ const InventoryPage: React.FC = () => {
 			errors.quantity = TOAST_MESSAGES.inventory.quantityRequired;
 		} else {
 			const quantity = Number(formData.quantity);
+			const precisionError = getQuantityPrecisionError(quantity);
 			if (isNaN(quantity)) {
 				errors.quantity = 'Quantidade deve ser um número válido';
 			} else if (quantity <= 0) {
 				errors.quantity = TOAST_MESSAGES.inventory.invalidQuantity;
 			} else if (quantity > 999999) {
 				errors.quantity = TOAST_MESSAGES.inventory.quantityTooHigh;
-			} else if (!Number.isInteger(quantity)) {
-				errors.quantity = 'Quantidade deve ser um número inteiro';
+			} else if (precisionError) {
+				errors.quantity = precisionError;
 			}
 		}
 
@@ -437,7 +458,7 @@ const InventoryPage: React.FC = () => {
 		) {
 			const quantity = Number(formData.quantity);
 			if (!isNaN(quantity) && quantity > selectedProduct.stock) {
-				errors.quantity = `${TOAST_MESSAGES.inventory.insufficientStock} Disponível: ${selectedProduct.stock}`;
+				errors.quantity = `${TOAST_MESSAGES.inventory.insufficientStock} Disponível: ${formatQuantity(selectedProduct.stock, selectedProduct)}`;
 			}
 		}
 
@@ -478,8 +499,8 @@ const InventoryPage: React.FC = () => {
 				if (isNaN(quantity)) return 'Quantidade deve ser um número válido';
 				if (quantity <= 0) return TOAST_MESSAGES.inventory.invalidQuantity;
 				if (quantity > 999999) return TOAST_MESSAGES.inventory.quantityTooHigh;
-				if (!Number.isInteger(quantity))
-					return 'Quantidade deve ser um número inteiro';
+				const precisionError = getQuantityPrecisionError(quantity);
+				if (precisionError) return precisionError;
 
 				// Check stock limits for remove operations
 				if (
@@ -487,7 +508,7 @@ const InventoryPage: React.FC = () => {
 					formData.adjustmentType === 'remove' &&
 					quantity > selectedProduct.stock
 				) {
-					return `${TOAST_MESSAGES.inventory.insufficientStock} Disponível: ${selectedProduct.stock}`;
+					return `${TOAST_MESSAGES.inventory.insufficientStock} Disponível: ${formatQuantity(selectedProduct.stock, selectedProduct)}`;
 				}
 
 				// Check maximum stock for add operations
@@ -561,7 +582,7 @@ const InventoryPage: React.FC = () => {
 			// Show warning if stock changed
 			if (refreshedProduct.stock !== selectedProduct.stock) {
 				toastService.info(
-					`Estoque atualizado: ${refreshedProduct.stock} ${refreshedProduct.unit}`,
+					`Estoque atualizado: ${formatQuantity(refreshedProduct.stock, refreshedProduct)} ${refreshedProduct.unit}`,
 				);
 			}
 		} catch (error) {
@@ -789,7 +810,8 @@ const InventoryPage: React.FC = () => {
 			if (
 				formData.adjustmentType === 'remove' &&
 				currentProductStock !== selectedProduct!.stock &&
-				updatedProduct.stock !== currentProductStock - Number(formData.quantity)
+				updatedProduct.stock !==
+					roundQuantity(currentProductStock - Number(formData.quantity))
 			) {
 				toastService.warning(
 					'O estoque foi alterado por outro usuário. Verifique o valor atual.',
@@ -935,7 +957,11 @@ const InventoryPage: React.FC = () => {
 													Código: {selectedProduct.code}
 												</p>
 												<p className="text-sm text-blue-700">
-													Estoque atual: {selectedProduct.stock}{' '}
+													Estoque atual:{' '}
+													{formatQuantity(
+														selectedProduct.stock,
+														selectedProduct,
+													)}{' '}
 													{selectedProduct.unit}
 												</p>
 											</div>
@@ -989,7 +1015,8 @@ const InventoryPage: React.FC = () => {
 										onChange={handleInputChange('quantity')}
 										placeholder="Digite a quantidade"
 										error={formErrors.quantity}
-										min="1"
+										min={quantityStep}
+										step={quantityStep}
 										required
 									/>
 								</div>
@@ -1197,7 +1224,7 @@ const InventoryPage: React.FC = () => {
 											<div className="mt-2 ml-11">
 												<p className="text-sm text-gray-700">
 													<span className="font-medium">Quantidade:</span>{' '}
-													{adjustment.quantity}
+													{formatQuantity(adjustment.quantity)}
 												</p>
 												<p className="text-sm text-gray-700">
 													<span className="font-medium">Motivo:</span>{' '}
@@ -1365,7 +1392,8 @@ const InventoryPage: React.FC = () => {
 												</div>
 												<div className="text-right">
 													<p className="text-sm font-medium text-gray-900">
-														Estoque: {product.stock} {product.unit}
+														Estoque: {formatQuantity(product.stock, product)}{' '}
+														{product.unit}
 													</p>
 													<p className="text-xs text-gray-500">
 														R$ {product.salePrice?.toFixed(2) || '0.00'}
@@ -1,6 +1,7 @@
 import { SquarePen, Trash2 } from 'lucide-react';
 import type React from 'react';
 import { useEffect, useState } from 'react';
+import { useSettings } from '../../../hooks/useSettings';
 import { paymentMethodService } from '../../../services/paymentMethodService';
 import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
 import type { PaymentMethod } from '../../../types';
@@ -26,6 +27,9 @@ const PaymentMethodsPage: React.FC = () => {
 	const [activeTab, setActiveTab] = useState<TabType>('list');
 	const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
 	const [isLoading, setIsLoading] = useState(false);
+	const {
+		settings: { paymentMethodCodePrefix },
+	} = useSettings();
 	const [confirmationDialog, setConfirmationDialog] =
 		useState<ConfirmationDialogState>({
 			isOpen: false,
@@ -47,12 +51,6 @@ const PaymentMethodsPage: React.FC = () => {
 			try {
 				const data = await paymentMethodService.getAll();
 				setPaymentMethods(data);
-
-				// Initialize auto code service with existing codes
-				const existingCodes = data
-					.map((pm: any) => pm.code)
-					.filter((code: any) => code && typeof code === 'string');
-				AutoCodeService.initializeFromExisting('paymentMethod', existingCodes);
 			} catch (error) {
 				console.error('Error loading payment methods:', error);
 				toastService.error(TOAST_MESSAGES.paymentMethod.loadError);
@@ -64,6 +62,15 @@ const PaymentMethodsPage: React.FC = () => {
 		loadPaymentMethods();
 	}, []);
 
+	// Initialize auto code service with the configured prefix and existing codes
+	useEffect(() => {
+		const existingCodes = paymentMethods
+			.map((pm: any) => pm.code)
+			.filter((code: any) => code && typeof code === 'string');
+		AutoCodeService.setPrefix('paymentMethod', paymentMethodCodePrefix);
+		AutoCodeService.initializeFromExisting('paymentMethod', existingCodes);
+	}, [paymentMethods, paymentMethodCodePrefix]);
+
 	const [formData, setFormData] = useState({
 		code: '',
 		description: '',
@@ -0,0 +1,290 @@
+import { CheckCircle, RefreshCw, ShieldAlert, XCircle } from 'lucide-react';
+import type React from 'react';
+import { useCallback, useEffect, useId, useState } from 'react';
+import { useAuth } from '../../../../context/AuthContext';
+import { useSettings } from '../../../../hooks/useSettings';
+import { presaleService } from '../../../../services/presaleService';
+import toastService, {
+	TOAST_MESSAGES,
+} from '../../../../services/ToastService';
+import type { PreSale } from '../../../../types/api';
+import Button from '../../../common/Button';
+import SimpleModal from '../../../common/SimpleModal';
+
+type ReviewAction = 'approve' | 'reject';
+
+interface PendingReview {
+	preSale: PreSale;
+	action: ReviewAction;
+}
+
+const formatCurrency = (value: string) =>
+	Number(value).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const formatPercentage = (value: string | number) =>
+	`${Number(value).toLocaleString('pt-BR', { maximumFractionDigits: 2 })}%`;
+
+/**
+ * DiscountApprovalQueue - Pre-sales waiting for a manager to approve their discount
+ * Approving moves the pre-sale back to pending, rejecting sends it back to draft with the reason in its timeline.
+ */
+const DiscountApprovalQueue: React.FC = () => {
+	const { isAdmin, isManager } = useAuth();
+	const { settings } = useSettings();
+	const [preSales, setPreSales] = useState<PreSale[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [review, setReview] = useState<PendingReview | null>(null);
+	const [reason, setReason] = useState('');
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const reasonId = useId();
+
+	const canApprove = isAdmin || isManager;
+	// Managers approve discounts up to their own limit, admins have no limit
+	const approvalLimit = isAdmin ? null : settings.managerDiscountLimit;
+
+	const loadQueue = useCallback(async () => {
+		setIsLoading(true);
+		try {
+			const response = await presaleService.getAll({
+				status: 'awaiting_approval',
+				sortBy: 'createdAt',
+				sortOrder: 'asc',
+				limit: 100,
+			});
+			if (!response.success) {
+				throw new Error(response.message);
+			}
+			setPreSales(response.data);
+		} catch (error) {
+			console.error('Error loading discount approval queue:', error);
+			toastService.error(TOAST_MESSAGES.presale.approvalQueueLoadError);
+		} finally {
+			setIsLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		if (canApprove) {
+			loadQueue();
+		}
+	}, [canApprove, loadQueue]);
+
+	const openReview = (preSale: PreSale, action: ReviewAction) => {
+		setReview({ preSale, action });
+		setReason('');
+	};
+
+	const closeReview = () => {
+		if (isSubmitting) return;
+		setReview(null);
+		setReason('');
+	};
+
+	const handleConfirm = async () => {
+		if (!review) return;
+
+		const trimmedReason = reason.trim();
+		if (review.action === 'reject' && !trimmedReason) {
+			toastService.error(TOAST_MESSAGES.presale.discountRejectReasonRequired);
+			return;
+		}
+
+		setIsSubmitting(true);
+		try {
+			if (review.action === 'approve') {
+				await presaleService.approveDiscount(
+					review.preSale.id,
+					trimmedReason || undefined,
+				);
+				toastService.success(TOAST_MESSAGES.presale.discountApproved);
+			} else {
+				await presaleService.rejectDiscount(review.preSale.id, trimmedReason);
+				toastService.success(TOAST_MESSAGES.presale.discountRejected);
+			}
+			setPreSales((prev) =>
+				prev.filter((preSale) => preSale.id !== review.preSale.id),
+			);
+			setReview(null);
+			setReason('');
+		} catch (error) {
+			console.error('Error reviewing pre-sale discount:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: review.action === 'approve'
+						? TOAST_MESSAGES.presale.discountApprovalError
+						: TOAST_MESSAGES.presale.discountRejectError,
+			);
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	if (!canApprove) {
+		return (
+			<div className="p-6">
+				<h1 className="text-2xl font-bold text-gray-900 mb-6">
+					Aprovação de Descontos
+				</h1>
+				<div className="bg-blue-50 border border-blue-200 rounded-lg px-4 py-3 text-sm text-blue-800">
+					Somente gerentes e administradores podem aprovar descontos.
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="p-6">
+			<div className="flex items-center justify-between mb-6">
+				<div>
+					<h1 className="text-2xl font-bold text-gray-900">
+						Aprovação de Descontos
+					</h1>
+					<p className="text-sm text-gray-500 mt-1">
+						{approvalLimit === null
+							? 'Como administrador, você pode aprovar qualquer desconto.'
+							: `Você pode aprovar descontos de até ${formatPercentage(approvalLimit)}.`}
+					</p>
+				</div>
+				<Button
+					type="button"
+					variant="secondary"
+					onClick={loadQueue}
+					disabled={isLoading}
+				>
+					<RefreshCw className="h-4 w-4 mr-2" />
+					Atualizar
+				</Button>
+			</div>
+
+			{isLoading ? (
+				<p className="text-sm text-gray-500">Carregando pré-vendas...</p>
+			) : preSales.length === 0 ? (
+				<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+					<CheckCircle className="h-10 w-10 text-green-500 mx-auto mb-3" />
+					<p className="text-gray-600">
+						Nenhuma pré-venda aguardando aprovação de desconto.
+					</p>
+				</div>
+			) : (
+				<div className="space-y-4">
+					{preSales.map((preSale) => {
+						const requestedDiscount = preSale.requestedDiscount ?? '0';
+						const isAboveLimit =
+							approvalLimit !== null &&
+							Number(requestedDiscount) > approvalLimit;
+
+						return (
+							<div
+								key={preSale.id}
+								className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+							>
+								<div className="space-y-1">
+									<div className="flex items-center gap-2">
+										<ShieldAlert className="h-5 w-5 text-amber-600" />
+										<span className="font-semibold text-gray-900">
+											{preSale.number}
+										</span>
+										<span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+											Desconto de {formatPercentage(requestedDiscount)}
+										</span>
+									</div>
+									<p className="text-sm text-gray-700">
+										{preSale.customer?.name} •{' '}
+										{preSale.salesperson?.name ?? 'Sem vendedor'}
+									</p>
+									<p className="text-sm text-gray-500">
+										Total {formatCurrency(preSale.total)} • Criada em{' '}
+										{new Date(preSale.createdAt).toLocaleDateString('pt-BR')}
+									</p>
+									{isAboveLimit && (
+										<p className="text-xs text-red-600">
+											Acima do seu limite de aprovação, encaminhe a um
+											administrador.
+										</p>
+									)}
+								</div>
+								<div className="flex gap-2">
+									<Button
+										type="button"
+										variant="danger"
+										onClick={() => openReview(preSale, 'reject')}
+									>
+										<XCircle className="h-4 w-4 mr-2" />
+										Recusar
+									</Button>
+									<Button
+										type="button"
+										variant="primary"
+										onClick={() => openReview(preSale, 'approve')}
+										disabled={isAboveLimit}
+									>
+										<CheckCircle className="h-4 w-4 mr-2" />
+										Aprovar
+									</Button>
+								</div>
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			<SimpleModal
+				isOpen={review !== null}
+				onClose={closeReview}
+				title={
+					review?.action === 'approve' ? 'Aprovar Desconto' : 'Recusar Desconto'
+				}
+			>
+				{review && (
+					<div className="space-y-4">
+						<p className="text-sm text-gray-700">
+							{review.action === 'approve'
+								? `O desconto de ${formatPercentage(review.preSale.requestedDiscount ?? '0')} da pré-venda ${review.preSale.number} será aprovado e ela voltará para pendente.`
+								: `A pré-venda ${review.preSale.number} voltará para rascunho para o vendedor revisar o desconto.`}
+						</p>
+						<div>
+							<label
+								htmlFor={reasonId}
+								className="block text-sm font-medium text-gray-700 mb-1"
+							>
+								{review.action === 'approve'
+									? 'Motivo (Opcional)'
+									: 'Motivo da Recusa'}
+							</label>
+							<textarea
+								id={reasonId}
+								value={reason}
+								onChange={(e) => setReason(e.target.value)}
+								className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+								rows={3}
+								maxLength={500}
+								required={review.action === 'reject'}
+							/>
+						</div>
+						<div className="flex justify-end gap-2">
+							<Button
+								type="button"
+								variant="secondary"
+								onClick={closeReview}
+								disabled={isSubmitting}
+							>
+								Cancelar
+							</Button>
+							<Button
+								type="button"
+								variant={review.action === 'approve' ? 'primary' : 'danger'}
+								onClick={handleConfirm}
+								disabled={isSubmitting}
+							>
+								{review.action === 'approve' ? 'Aprovar' : 'Recusar'}
+							</Button>
+						</div>
+					</div>
+				)}
+			</SimpleModal>
+		</div>
+	);
+};
+
+export default DiscountApprovalQueue;
@@ -0,0 +1,102 @@
+import { Clock } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { presaleService } from '../../../../services/presaleService';
+import toastService, {
+	TOAST_MESSAGES,
+} from '../../../../services/ToastService';
+import type { PreSale, PreSaleStatusHistoryEntry } from '../../../../types/api';
+
+interface PreSaleStatusTimelineProps {
+	preSaleId: string;
+	getStatusLabel: (status: PreSale['status']) => string;
+	getStatusColor: (status: PreSale['status']) => string;
+}
+
+/**
+ * PreSaleStatusTimeline - Status changes of a pre-sale, oldest first
+ * Each entry shows the new status, who changed it (or the system) and the note left with the change.
+ */
+const PreSaleStatusTimeline: React.FC<PreSaleStatusTimelineProps> = ({
+	preSaleId,
+	getStatusLabel,
+	getStatusColor,
+}) => {
+	const [entries, setEntries] = useState<PreSaleStatusHistoryEntry[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+
+	useEffect(() => {
+		let isMounted = true;
+
+		setIsLoading(true);
+		presaleService
+			.getStatusHistory(preSaleId)
+			.then((history) => {
+				if (isMounted) setEntries(history);
+			})
+			.catch((error) => {
+				console.error('Error loading status history:', error);
+				toastService.error(TOAST_MESSAGES.presale.statusHistoryLoadError);
+			})
+			.finally(() => {
+				if (isMounted) setIsLoading(false);
+			});
+
+		return () => {
+			isMounted = false;
+		};
+	}, [preSaleId]);
+
+	if (isLoading) {
+		return (
+			<p className="text-sm text-gray-500">Carregando linha do tempo...</p>
+		);
+	}
+
+	if (entries.length === 0) {
+		return (
+			<p className="text-sm text-gray-500">
+				Nenhuma mudança de status registrada.
+			</p>
+		);
+	}
+
+	return (
+		<ol className="relative border-l border-gray-200 ml-2 space-y-4">
+			{entries.map((entry) => (
+				<li key={entry.id} className="ml-4">
+					<span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+					<div className="flex flex-wrap items-center gap-2 text-sm">
+						{entry.fromStatus ? (
+							<>
+								<span
+									className={`px-2 py-0.5 rounded text-xs font-medium ${getStatusColor(entry.fromStatus)}`}
+								>
+									{getStatusLabel(entry.fromStatus)}
+								</span>
+								<span className="text-gray-400">→</span>
+							</>
+						) : (
+							<span className="text-gray-600">Criada como</span>
+						)}
+						<span
+							className={`px-2 py-0.5 rounded text-xs font-medium ${getStatusColor(entry.toStatus)}`}
+						>
+							{getStatusLabel(entry.toStatus)}
+						</span>
+					</div>
+					<p className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+						<Clock className="h-3 w-3" />
+						{new Date(entry.changedAt).toLocaleString('pt-BR')} •{' '}
+						{entry.changedBy?.name ?? 'Sistema'}
+					</p>
+					{entry.note && (
+						<p className="text-sm text-gray-700 mt-1">{entry.note}</p>
+					)}
+				</li>
+			))}
+		</ol>
+	);
+};
+
+export default PreSaleStatusTimeline;
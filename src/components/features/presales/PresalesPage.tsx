@@ -1,36 +1,43 @@
-import jsPDF from 'jspdf';
 import {
 	Calculator,
 	Calendar,
+	CalendarX,
 	CheckCircle,
 	Clock,
 	Download,
 	Edit,
 	Eye,
 	FileText,
+	History,
 	Plus,
+	RefreshCw,
 	RotateCcw,
 	Search,
+	ShieldAlert,
 	Sparkles,
 	Trash2,
 	X,
 	XCircle,
 } from 'lucide-react';
 import type React from 'react';
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useId, useMemo, useState } from 'react';
 import { useAuth } from '../../../context/AuthContext';
 import { useCustomers } from '../../../hooks/useCustomers';
 import { usePresales } from '../../../hooks/usePresales';
 import { useProducts } from '../../../hooks/useProducts';
+import { presaleService } from '../../../services/presaleService';
 import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
 import type { PreSale, PreSaleItem } from '../../../types';
 import type { PreSale as ApiPreSale } from '../../../types/api';
+import { formatCNPJ, formatCPF } from '../../../utils';
 import Button from '../../common/Button';
 import InPageModal from '../../common/InPageModal';
 import Select from '../../common/Select';
 import SimpleModal from '../../common/SimpleModal';
+import { HistoryDrawer } from '../shared/historyDrawer';
 import { UnifiedPresaleModal } from '../shared/presaleModal';
 import PreSaleItemsDisplay from './PreSaleItemsDisplay';
+import PreSaleStatusTimeline from './PreSaleStatusTimeline';
 
 const PresalesPage: React.FC = () => {
 	const { isAdmin, isEmployee, user, hasPermission } = useAuth();
@@ -42,6 +49,14 @@ const PresalesPage: React.FC = () => {
 	const [showEditModal, setShowEditModal] = useState(false);
 	const [showStatusModal, setShowStatusModal] = useState(false);
 	const [showPdfConfirmModal, setShowPdfConfirmModal] = useState(false);
+	const [historyPreSale, setHistoryPreSale] = useState<PreSale | null>(null);
+	const loadPreSaleHistory = useCallback(
+		(page: number) => presaleService.getHistory(historyPreSale?.id ?? '', page),
+		[historyPreSale?.id],
+	);
+	// Reason for the status change, kept in the status history
+	const [statusNote, setStatusNote] = useState('');
+	const statusNoteId = useId();
 	const [pendingConversion, setPendingConversion] = useState<PreSale | null>(
 		null,
 	);
@@ -111,13 +126,17 @@ const PresalesPage: React.FC = () => {
 
 				return {
 					id: apiPresale.id,
+					number: apiPresale.number,
 					customer: {
 						id: apiPresale.customer.id,
 						name: apiPresale.customer.name,
 						email: apiPresale.customer.email,
 						phone: apiPresale.customer.phone || '',
 						cpf: apiPresale.customer.cpf,
+						documentType: apiPresale.customer.documentType || 'cpf',
+						companyName: apiPresale.customer.companyName ?? null,
 						address: apiPresale.customer.address || '',
+						state: apiPresale.customer.state ?? null,
 						createdAt: apiPresale.customer.createdAt
 							? new Date(apiPresale.customer.createdAt)
 							: new Date(),
@@ -162,6 +181,7 @@ const PresalesPage: React.FC = () => {
 								unitPrice: Number(item.unitPrice) || 0,
 								totalPrice: Number(item.totalPrice) || 0,
 								discount: item.discount ? Number(item.discount) : undefined,
+								taxBreakdown: item.taxBreakdown ?? null,
 							};
 						})
 						.filter(Boolean) as PreSaleItem[], // Remove itens nulos
@@ -172,8 +192,9 @@ const PresalesPage: React.FC = () => {
 						? Number(apiPresale.discount)
 						: undefined,
 					discountType: apiPresale.discountType || 'percentage',
-					salesperson: 'Sistema', // Não vem da API, valor padrão
-					salespersonId: '1', // Não vem da API, valor padrão
+					validUntil: apiPresale.validUntil,
+					salesperson: apiPresale.salesperson?.name || 'Sistema',
+					salespersonId: apiPresale.salespersonId || '',
 					createdAt: apiPresale.createdAt
 						? new Date(apiPresale.createdAt)
 						: new Date(),
@@ -282,6 +303,8 @@ const PresalesPage: React.FC = () => {
 		{ value: 'approved', label: 'Aprovada' },
 		{ value: 'cancelled', label: 'Cancelada' },
 		{ value: 'converted', label: 'Convertida' },
+		{ value: 'expired', label: 'Expirada' },
+		{ value: 'awaiting_approval', label: 'Aguardando Aprovação' },
 	];
 
 	const getStatusLabel = (status: PreSale['status']) => {
@@ -291,6 +314,8 @@ const PresalesPage: React.FC = () => {
 			approved: 'Aprovada',
 			cancelled: 'Cancelada',
 			converted: 'Convertida',
+			expired: 'Expirada',
+			awaiting_approval: 'Aguardando Aprovação',
 		};
 		return statusLabels[status];
 	};
@@ -302,6 +327,8 @@ const PresalesPage: React.FC = () => {
 			approved: 'bg-green-100 text-green-800',
 			cancelled: 'bg-red-100 text-red-800',
 			converted: 'bg-blue-100 text-blue-800',
+			expired: 'bg-orange-100 text-orange-800',
+			awaiting_approval: 'bg-amber-100 text-amber-800',
 		};
 		return statusColors[status];
 	};
@@ -316,7 +343,7 @@ const PresalesPage: React.FC = () => {
 			preSale.customer.name
 				?.toLowerCase()
 				?.includes(searchTerm.toLowerCase()) ||
-			preSale.id?.toLowerCase()?.includes(searchTerm.toLowerCase());
+			preSale.number?.toLowerCase()?.includes(searchTerm.toLowerCase());
 		const matchesStatus =
 			statusFilter === 'all' || preSale.status === statusFilter;
 
@@ -378,6 +405,27 @@ const PresalesPage: React.FC = () => {
 		}
 	};
 
+	const handleRenewPreSale = async (preSale: PreSale) => {
+		if (!confirm(TOAST_MESSAGES.presale.renewConfirm)) return;
+
+		try {
+			await presaleService.renew(preSale.id);
+			toastService.success(TOAST_MESSAGES.presale.renewed);
+			await refreshPresales();
+		} catch (error) {
+			console.error('Erro ao renovar orçamento:', error);
+			toastService.error('Erro ao renovar orçamento. Tente novamente.');
+		}
+	};
+
+	// Open quotes past their validity, until the expiry job catches up
+	const isPreSaleOverdue = (preSale: PreSale) =>
+		(preSale.status === 'pending' || preSale.status === 'approved') &&
+		preSale.validUntil < today;
+
+	const formatValidUntil = (validUntil: string) =>
+		validUntil.split('-').reverse().join('/');
+
 	const handleEditPreSale = (preSale: PreSale) => {
 		setSelectedPreSale(preSale);
 		setShowEditModal(true);
@@ -385,6 +433,7 @@ const PresalesPage: React.FC = () => {
 
 	const handleStatusChange = (preSale: PreSale) => {
 		setSelectedPreSale(preSale);
+		setStatusNote('');
 		setShowStatusModal(true);
 	};
 
@@ -403,8 +452,12 @@ const PresalesPage: React.FC = () => {
 			const updatedPresale = await updatePresaleStatus(
 				selectedPreSale.id,
 				newStatus,
+				statusNote.trim() || undefined,
 			);
-			if (updatedPresale) {
+			if (updatedPresale?.status === 'awaiting_approval') {
+				toastService.warning(TOAST_MESSAGES.presale.awaitingApproval);
+				await refreshPresales();
+			} else if (updatedPresale) {
 				toastService.success(
 					`Status da pré-venda alterado para ${getStatusLabel(newStatus)}`,
 				);
@@ -428,6 +481,7 @@ const PresalesPage: React.FC = () => {
 			const updatedPresale = await updatePresaleStatus(
 				pendingConversion.id,
 				'converted',
+				statusNote.trim() || undefined,
 			);
 			if (updatedPresale) {
 				toastService.success('Pré-venda convertida com sucesso!');
@@ -463,107 +517,22 @@ const PresalesPage: React.FC = () => {
 		setEndDate(todayDate);
 	};
 
-	// Generate PDF function using jsPDF
-	const handleGeneratePDF = (preSale: PreSale) => {
+	// Download the quote PDF rendered by the backend
+	const handleGeneratePDF = async (preSale: PreSale) => {
 		try {
-			// Validar dados antes de gerar PDF
-			if (
-				!preSale ||
-				!preSale.customer ||
-				!preSale.items ||
-				preSale.items.length === 0
-			) {
-				toastService.error('Dados da pré-venda incompletos para gerar PDF.');
-				return;
-			}
-
 			toastService.info('Gerando PDF da pré-venda...');
 
-			const doc = new jsPDF();
-
-			// Header
-			doc.setFontSize(20);
-			doc.text(`PRÉ-VENDA #${preSale.id}`, 20, 20);
-
-			// Customer info
-			doc.setFontSize(12);
-			doc.text('DADOS DO CLIENTE', 20, 40);
-			doc.setFontSize(10);
-			doc.text(`Nome: ${preSale.customer.name}`, 20, 50);
-			doc.text(`Email: ${preSale.customer.email}`, 20, 55);
-			doc.text(`CPF: ${preSale.customer.cpf}`, 20, 60);
-			doc.text(`Telefone: ${preSale.customer.phone}`, 20, 65);
-
-			// Pre-sale info
-			doc.setFontSize(12);
-			doc.text('INFORMAÇÕES DA PRÉ-VENDA', 20, 80);
-			doc.setFontSize(10);
-			doc.text(
-				`Data: ${preSale.createdAt.toLocaleDateString('pt-BR')}`,
-				20,
-				90,
-			);
-			doc.text(`Status: ${getStatusLabel(preSale.status)}`, 20, 95);
-
-			// Items section - Manual table
-			doc.setFontSize(12);
-			doc.text('ITENS DA PRÉ-VENDA', 20, 105);
-
-			// Table header
-			doc.setFontSize(9);
-			doc.setFont('helvetica', 'bold');
-			doc.text('#', 20, 115);
-			doc.text('Produto', 30, 115);
-			doc.text('Código', 90, 115);
-			doc.text('Qtd', 130, 115);
-			doc.text('Valor Unit.', 150, 115);
-			doc.text('Total', 180, 115);
-
-			// Draw header line
-			doc.line(20, 117, 200, 117);
-
-			// Table rows
-			doc.setFont('helvetica', 'normal');
-			let currentY = 125;
-
-			preSale.items.forEach((item, index) => {
-				if (currentY > 270) {
-					// New page if needed
-					doc.addPage();
-					currentY = 20;
-				}
-
-				doc.text(`${index + 1}`, 20, currentY);
-				doc.text(item.product.name.substring(0, 25), 30, currentY); // Limit text length
-				doc.text(item.product.code, 90, currentY);
-				doc.text(`${item.quantity}`, 130, currentY);
-				doc.text(`R$ ${item.unitPrice.toFixed(2)}`, 150, currentY);
-				doc.text(`R$ ${item.totalPrice.toFixed(2)}`, 180, currentY);
-
-				currentY += 8;
-			});
-
-			// Draw bottom line
-			doc.line(20, currentY, 200, currentY);
+			const blob = await presaleService.downloadPdf(preSale.id);
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement('a');
+			link.setAttribute('href', url);
+			link.setAttribute('download', `orcamento-${preSale.number}.pdf`);
+			link.style.visibility = 'hidden';
+			document.body.appendChild(link);
+			link.click();
+			document.body.removeChild(link);
+			URL.revokeObjectURL(url);
 
-			// Total section
-			const finalY = currentY + 10;
-			doc.setFontSize(12);
-			if (preSale.discount) {
-				doc.text(`Desconto: R$ ${preSale.discount.toFixed(2)}`, 20, finalY);
-			}
-			doc.setFontSize(14);
-			doc.text(`TOTAL: R$ ${preSale.total.toFixed(2)}`, 20, finalY + 10);
-
-			// Notes
-			if (preSale.notes) {
-				doc.setFontSize(10);
-				doc.text('Observações:', 20, finalY + 25);
-				doc.text(preSale.notes, 20, finalY + 30);
-			}
-
-			// Save PDF
-			doc.save(`presale-${preSale.id}.pdf`);
 			toastService.success('PDF gerado com sucesso! 📄');
 		} catch (error) {
 			console.error('Erro ao gerar PDF:', error);
@@ -572,7 +541,7 @@ const PresalesPage: React.FC = () => {
 	};
 
 	const handleCreatePresale = async (
-		presaleData: Omit<PreSale, 'id' | 'createdAt' | 'updatedAt'>,
+		presaleData: Omit<PreSale, 'id' | 'number' | 'createdAt' | 'updatedAt'>,
 	) => {
 		try {
 			// Converter dados do modal para o formato da API
@@ -586,6 +555,7 @@ const PresalesPage: React.FC = () => {
 						? presaleData.discount?.toString() || '0'
 						: '0',
 				notes: presaleData.notes || '',
+				validUntil: presaleData.validUntil,
 				items: presaleData.items.map((item) => ({
 					productId: item.product.id,
 					quantity: item.quantity.toString(),
@@ -596,7 +566,10 @@ const PresalesPage: React.FC = () => {
 			// Usar o hook para criar a pré-venda
 			const createdPresale = await createPresaleAPI(apiPresaleData);
 
-			if (createdPresale) {
+			if (createdPresale?.status === 'awaiting_approval') {
+				toastService.warning(TOAST_MESSAGES.presale.awaitingApproval);
+				await refreshPresales();
+			} else if (createdPresale) {
 				toastService.success(TOAST_MESSAGES.presale.created);
 				// Recarregar a lista de pré-vendas para mostrar a nova
 				await refreshPresales();
@@ -610,7 +583,7 @@ const PresalesPage: React.FC = () => {
 	};
 
 	const handleUpdatePresale = async (
-		presaleData: Omit<PreSale, 'id' | 'createdAt' | 'updatedAt'>,
+		presaleData: Omit<PreSale, 'id' | 'number' | 'createdAt' | 'updatedAt'>,
 	) => {
 		if (!selectedPreSale) return;
 
@@ -626,6 +599,11 @@ const PresalesPage: React.FC = () => {
 						? presaleData.discount?.toString() || '0'
 						: '0',
 				notes: presaleData.notes || '',
+				// An unchanged validity may already be in the past
+				validUntil:
+					presaleData.validUntil !== selectedPreSale.validUntil
+						? presaleData.validUntil
+						: undefined,
 				items: presaleData.items.map((item) => ({
 					productId: item.product.id,
 					quantity: item.quantity.toString(),
@@ -638,7 +616,13 @@ const PresalesPage: React.FC = () => {
 				apiPresaleData,
 			);
 
-			if (updatedPresale) {
+			if (
+				updatedPresale?.status === 'awaiting_approval' &&
+				selectedPreSale.status !== 'awaiting_approval'
+			) {
+				toastService.warning(TOAST_MESSAGES.presale.awaitingApproval);
+				await refreshPresales();
+			} else if (updatedPresale) {
 				toastService.success(TOAST_MESSAGES.presale.updated);
 				await refreshPresales();
 			} else {
@@ -665,7 +649,7 @@ const PresalesPage: React.FC = () => {
 								<Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
 								<input
 									type="text"
-									placeholder="Buscar por cliente ou ID..."
+									placeholder="Buscar por cliente ou número..."
 									value={searchTerm}
 									onChange={(e) => setSearchTerm(e.target.value)}
 									className="w-full pl-10 pr-4 py-3 sm:py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base sm:text-sm"
@@ -804,7 +788,7 @@ const PresalesPage: React.FC = () => {
 								<div className="flex justify-between items-start mb-3">
 									<div>
 										<h3 className="font-semibold text-gray-900">
-											#{preSale.id}
+											{preSale.number}
 										</h3>
 										<p className="text-sm text-gray-600">
 											{preSale.customer.name}
@@ -833,6 +817,18 @@ const PresalesPage: React.FC = () => {
 											{preSale.items.length}
 										</span>
 									</div>
+									<div className="flex justify-between items-center mt-1">
+										<span className="text-sm text-gray-600">Válido até:</span>
+										<span
+											className={`text-sm font-medium ${
+												isPreSaleOverdue(preSale)
+													? 'text-red-600'
+													: 'text-gray-700'
+											}`}
+										>
+											{formatValidUntil(preSale.validUntil)}
+										</span>
+									</div>
 								</div>
 
 								<div className="flex justify-between items-center pt-3 border-t border-gray-200">
@@ -856,6 +852,15 @@ const PresalesPage: React.FC = () => {
 											<Eye className="h-4 w-4" />
 										</button>
 
+										<button
+											type="button"
+											onClick={() => setHistoryPreSale(preSale)}
+											className="p-2 sm:p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
+											title="Histórico"
+										>
+											<History className="h-4 w-4" />
+										</button>
+
 										{/* Edit button - only for own presales (employees) or all presales (admins) */}
 										{(preSale.status === 'draft' ||
 											preSale.status === 'pending') &&
@@ -884,6 +889,20 @@ const PresalesPage: React.FC = () => {
 											</button>
 										)}
 
+										{/* Renew button - reprices the quote and restarts its validity */}
+										{presaleService.canRenewPresale(preSale.status) &&
+											(isAdmin ||
+												(isEmployee && preSale.salespersonId === user?.id)) && (
+												<button
+													type="button"
+													onClick={() => handleRenewPreSale(preSale)}
+													className="p-2 sm:p-1 text-orange-600 hover:text-orange-800 hover:bg-orange-100 rounded transition-colors"
+													title="Renovar Orçamento"
+												>
+													<RefreshCw className="h-4 w-4" />
+												</button>
+											)}
+
 										{/* Delete button - only for admins or own presales (and not converted) */}
 										{preSale.status !== 'converted' &&
 											(isAdmin ||
@@ -986,7 +1005,7 @@ const PresalesPage: React.FC = () => {
 				<InPageModal
 					isOpen={showViewModal}
 					onClose={() => setShowViewModal(false)}
-					title={`Pré-venda #${selectedPreSale.id}`}
+					title={`Pré-venda ${selectedPreSale.number}`}
 				>
 					<div className="p-6 space-y-6">
 						{/* Header com informações e ações */}
@@ -1000,6 +1019,15 @@ const PresalesPage: React.FC = () => {
 										Criada em{' '}
 										{selectedPreSale.createdAt.toLocaleDateString('pt-BR')}
 									</p>
+									<p
+										className={`text-sm ${
+											isPreSaleOverdue(selectedPreSale)
+												? 'text-red-600'
+												: 'text-gray-500'
+										}`}
+									>
+										Válido até {formatValidUntil(selectedPreSale.validUntil)}
+									</p>
 								</div>
 							</div>
 							<Button
@@ -1037,9 +1065,15 @@ const PresalesPage: React.FC = () => {
 									</dd>
 								</div>
 								<div>
-									<dt className="text-blue-700">CPF:</dt>
+									<dt className="text-blue-700">
+										{selectedPreSale.customer.documentType === 'cnpj'
+											? 'CNPJ:'
+											: 'CPF:'}
+									</dt>
 									<dd className="font-mono font-medium text-blue-900">
-										{selectedPreSale.customer.cpf}
+										{selectedPreSale.customer.documentType === 'cnpj'
+											? formatCNPJ(selectedPreSale.customer.cpf)
+											: formatCPF(selectedPreSale.customer.cpf)}
 									</dd>
 								</div>
 							</dl>
@@ -1080,9 +1114,27 @@ const PresalesPage: React.FC = () => {
 								</div>
 							)}
 						</section>
+
+						{/* Linha do tempo */}
+						<section>
+							<h3 className="text-sm font-medium text-gray-900 mb-3">
+								Linha do Tempo
+							</h3>
+							<PreSaleStatusTimeline
+								preSaleId={selectedPreSale.id}
+								getStatusLabel={getStatusLabel}
+								getStatusColor={getStatusColor}
+							/>
+						</section>
 					</div>
 				</InPageModal>
 			)}
+			<HistoryDrawer
+				isOpen={!!historyPreSale}
+				onClose={() => setHistoryPreSale(null)}
+				title={`Histórico - Pré-venda ${historyPreSale?.number ?? ''}`}
+				loadHistory={loadPreSaleHistory}
+			/>
 			{/* Create Pre-sale Modal */}
 			{customers && products && (
 				<UnifiedPresaleModal
@@ -1107,7 +1159,7 @@ const PresalesPage: React.FC = () => {
 					customers={convertCustomersForModal(customers) as any}
 					products={convertProductsForModal(products) as any}
 					editingPresale={selectedPreSale}
-					title={`Editar Pré-venda #${selectedPreSale.id}`}
+					title={`Editar Pré-venda ${selectedPreSale.number}`}
 				/>
 			)}
 
@@ -1124,7 +1176,7 @@ const PresalesPage: React.FC = () => {
 							<RotateCcw className="h-5 w-5 text-blue-600" />
 							<div className="flex-1">
 								<p className="font-medium text-gray-900">
-									#{selectedPreSale.id} - {selectedPreSale.customer.name}
+									{selectedPreSale.number} - {selectedPreSale.customer.name}
 								</p>
 								<p className="text-sm text-gray-600">
 									R$ {selectedPreSale.total.toFixed(2)}
@@ -1146,28 +1198,17 @@ const PresalesPage: React.FC = () => {
 									'approved',
 									'cancelled',
 									'converted',
+									'expired',
+									'awaiting_approval',
 								] as PreSale['status'][]
 							)
-								.filter((status) => {
-									if (status === selectedPreSale.status) return true;
-
-									const validTransitions: Record<
-										PreSale['status'],
-										PreSale['status'][]
-									> = {
-										draft: ['pending', 'cancelled'],
-										pending: ['approved', 'cancelled', 'converted'],
-										approved: ['converted', 'cancelled'],
-										cancelled: [],
-										converted: [],
-									};
-
-									return (
-										validTransitions[selectedPreSale.status]?.includes(
-											status,
-										) || false
-									);
-								})
+								.filter(
+									(status) =>
+										status === selectedPreSale.status ||
+										presaleService
+											.getValidNextStatuses(selectedPreSale.status)
+											.includes(status),
+								)
 								.map((status) => {
 									const isCurrent = selectedPreSale.status === status;
 
@@ -1202,6 +1243,18 @@ const PresalesPage: React.FC = () => {
 											bg: 'bg-purple-50',
 											border: 'border-purple-200',
 										},
+										expired: {
+											icon: CalendarX,
+											color: 'text-orange-600',
+											bg: 'bg-orange-50',
+											border: 'border-orange-200',
+										},
+										awaiting_approval: {
+											icon: ShieldAlert,
+											color: 'text-amber-600',
+											bg: 'bg-amber-50',
+											border: 'border-amber-200',
+										},
 									};
 
 									const config = statusConfig[status];
@@ -1245,6 +1298,24 @@ const PresalesPage: React.FC = () => {
 									);
 								})}
 						</div>
+
+						<div>
+							<label
+								htmlFor={statusNoteId}
+								className="block text-sm font-medium text-gray-700 mb-1"
+							>
+								Observação (opcional)
+							</label>
+							<textarea
+								id={statusNoteId}
+								value={statusNote}
+								onChange={(e) => setStatusNote(e.target.value)}
+								maxLength={500}
+								rows={2}
+								placeholder="Motivo da mudança de status..."
+								className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+							/>
+						</div>
 					</div>
 				</SimpleModal>
 			)}
@@ -1266,7 +1337,7 @@ const PresalesPage: React.FC = () => {
 								<Sparkles className="h-6 w-6 text-green-600" />
 							</div>
 							<p className="text-gray-600">
-								#{pendingConversion.id} - {pendingConversion.customer.name}
+								{pendingConversion.number} - {pendingConversion.customer.name}
 							</p>
 							<p className="font-semibold text-green-600">
 								R$ {pendingConversion.total.toFixed(2)}
@@ -57,6 +57,8 @@ const SimplifiedPresales: React.FC = () => {
 		{ value: 'approved', label: 'Aprovada' },
 		{ value: 'cancelled', label: 'Cancelada' },
 		{ value: 'converted', label: 'Convertida' },
+		{ value: 'expired', label: 'Expirada' },
+		{ value: 'awaiting_approval', label: 'Aguardando Aprovação' },
 	];
 
 	const filteredPresales = presales.filter((preSale) => {
@@ -94,7 +96,9 @@ const SimplifiedPresales: React.FC = () => {
 			return;
 		}
 
-		if (confirm(`Tem certeza que deseja excluir a pré-venda #${preSale.id}?`)) {
+		if (
+			confirm(`Tem certeza que deseja excluir a pré-venda ${preSale.number}?`)
+		) {
 			const success = await deletePresale(preSale.id);
 			if (success) {
 				console.log('Pre-sale deleted successfully');
@@ -127,7 +131,7 @@ const SimplifiedPresales: React.FC = () => {
 
 		if (
 			confirm(
-				`Tem certeza que deseja converter a pré-venda #${preSale.id} em venda?`,
+				`Tem certeza que deseja converter a pré-venda ${preSale.number} em venda?`,
 			)
 		) {
 			const result = await convertPresaleToSale(preSale.id);
@@ -254,7 +258,9 @@ const SimplifiedPresales: React.FC = () => {
 						>
 							<div className="flex justify-between items-start mb-3">
 								<div>
-									<h3 className="font-semibold text-gray-900">#{preSale.id}</h3>
+									<h3 className="font-semibold text-gray-900">
+										{preSale.number}
+									</h3>
 									<p className="text-sm text-gray-600">
 										{preSale.customer.name}
 									</p>
@@ -1 +1,2 @@
+export { default as DiscountApprovalQueue } from './DiscountApprovalQueue';
 export { default as Presales } from './PresalesPage';
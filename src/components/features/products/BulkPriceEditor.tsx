@@ -0,0 +1,220 @@
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import { usePricing } from '../../../hooks/usePricing';
+import { productService } from '../../../services/productService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type { Product } from '../../../types';
+import { formatCurrency } from '../../../utils';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+import Modal from '../../common/Modal';
+import Select, { type SelectOption } from '../../common/Select';
+
+type BulkPriceMode = 'percentage' | 'markup';
+
+interface BulkPriceEditorProps {
+	isOpen: boolean;
+	products: Product[];
+	onClose: () => void;
+	onApplied: () => void;
+}
+
+interface RowValidationDetail {
+	field: string;
+	message: string;
+}
+
+const modeOptions: SelectOption[] = [
+	{ value: 'percentage', label: 'Reajuste percentual no preço de venda' },
+	{ value: 'markup', label: 'Recalcular pelo markup sobre o custo' },
+];
+
+/**
+ * Map the per-row errors of a rejected bulk update to the product ids
+ * The backend reports rows as "updates.<index>" or "updates.<index>.data.<field>".
+ */
+const getRowErrors = (
+	error: unknown,
+	products: Product[],
+): Record<string, string> => {
+	const details = (
+		error as { response?: { data?: { error?: { details?: unknown } } } }
+	).response?.data?.error?.details;
+	const rowErrors: Record<string, string> = {};
+
+	if (!Array.isArray(details)) return rowErrors;
+
+	for (const detail of details as RowValidationDetail[]) {
+		const match = /^updates\.(\d+)/.exec(detail.field || '');
+		const product = match ? products[Number(match[1])] : undefined;
+		if (product && !rowErrors[product.id]) {
+			rowErrors[product.id] = detail.message;
+		}
+	}
+
+	return rowErrors;
+};
+
+/**
+ * BulkPriceEditor - Change the sale price of the selected products at once
+ * All prices are saved in a single transaction; if any product is rejected nothing changes.
+ */
+const BulkPriceEditor: React.FC<BulkPriceEditorProps> = ({
+	isOpen,
+	products,
+	onClose,
+	onApplied,
+}) => {
+	const { calculatePriceFromMarkup } = usePricing();
+	const [mode, setMode] = useState<BulkPriceMode>('percentage');
+	const [value, setValue] = useState('');
+	const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+	const [isSaving, setIsSaving] = useState(false);
+
+	// New sale price per product, null when it cannot be computed
+	const newPrices = useMemo(() => {
+		const prices = new Map<string, number | null>();
+		const percent = Number.parseFloat(value);
+
+		for (const product of products) {
+			if (value === '' || Number.isNaN(percent)) {
+				prices.set(product.id, null);
+			} else if (mode === 'percentage') {
+				const price = Number(
+					(product.salePrice * (1 + percent / 100)).toFixed(2),
+				);
+				prices.set(product.id, price > 0 ? price : null);
+			} else {
+				try {
+					prices.set(
+						product.id,
+						calculatePriceFromMarkup(product.purchasePrice, percent),
+					);
+				} catch {
+					prices.set(product.id, null);
+				}
+			}
+		}
+
+		return prices;
+	}, [products, mode, value, calculatePriceFromMarkup]);
+
+	const hasInvalidPrice = products.some(
+		(product) => newPrices.get(product.id) == null,
+	);
+
+	const handleClose = () => {
+		setValue('');
+		setRowErrors({});
+		onClose();
+	};
+
+	const handleApply = async () => {
+		if (products.length === 0 || hasInvalidPrice) {
+			toastService.error(TOAST_MESSAGES.product.bulkInvalidValue);
+			return;
+		}
+
+		setIsSaving(true);
+		setRowErrors({});
+		try {
+			await productService.bulkUpdateProducts(
+				products.map((product) => ({
+					id: product.id,
+					data: {
+						salePrice: (newPrices.get(product.id) as number).toFixed(2),
+					},
+				})),
+			);
+			toastService.success(TOAST_MESSAGES.product.bulkUpdated);
+			setValue('');
+			onApplied();
+		} catch (error) {
+			console.error('Error bulk updating products:', error);
+			const errors = getRowErrors(error, products);
+			setRowErrors(errors);
+			toastService.error(
+				Object.keys(errors).length > 0
+					? TOAST_MESSAGES.product.bulkRowErrors
+					: TOAST_MESSAGES.product.bulkUpdateError,
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Modal
+			isOpen={isOpen}
+			onClose={handleClose}
+			title={`Editar preços em lote (${products.length} produtos)`}
+		>
+			<div className="space-y-4">
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+					<Select
+						label="Tipo de alteração"
+						value={mode}
+						onChange={(selected) => setMode(selected as BulkPriceMode)}
+						options={modeOptions}
+					/>
+					<Input
+						label={mode === 'percentage' ? 'Reajuste (%)' : 'Markup (%)'}
+						type="number"
+						step="0.01"
+						min={mode === 'markup' ? '0' : undefined}
+						value={value}
+						onChange={setValue}
+						placeholder={mode === 'percentage' ? 'Ex.: 8 ou -5' : 'Ex.: 60'}
+					/>
+				</div>
+
+				<div className="max-h-72 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+					{products.map((product) => {
+						const newPrice = newPrices.get(product.id);
+						return (
+							<div key={product.id} className="px-3 py-2 text-sm">
+								<div className="flex justify-between gap-4">
+									<span className="text-gray-900 line-clamp-1">
+										{product.code} - {product.name}
+									</span>
+									<span className="whitespace-nowrap text-gray-600">
+										{formatCurrency(product.salePrice)} →{' '}
+										<span className="font-semibold text-green-700">
+											{newPrice != null ? formatCurrency(newPrice) : '-'}
+										</span>
+									</span>
+								</div>
+								{rowErrors[product.id] && (
+									<p className="text-xs text-red-600">
+										{rowErrors[product.id]}
+									</p>
+								)}
+							</div>
+						);
+					})}
+				</div>
+
+				<p className="text-sm text-gray-500">
+					Os preços são salvos juntos: se algum produto for recusado, nenhum
+					preço é alterado.
+				</p>
+
+				<div className="flex justify-end space-x-3">
+					<Button variant="secondary" onClick={handleClose}>
+						Cancelar
+					</Button>
+					<Button
+						variant="primary"
+						onClick={handleApply}
+						disabled={isSaving || value === '' || products.length === 0}
+						loading={isSaving}
+					>
+						Aplicar
+					</Button>
+				</div>
+			</div>
+		</Modal>
+	);
+};
+
+export default BulkPriceEditor;
@@ -0,0 +1,272 @@
+import type React from 'react';
+import { useState } from 'react';
+import { productService } from '../../../services/productService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type {
+	ImportAction,
+	ProductImportResult,
+	ProductImportRow,
+} from '../../../types/api';
+import Button from '../../common/Button';
+import Modal from '../../common/Modal';
+
+interface ProductImportWizardProps {
+	isOpen: boolean;
+	onClose: () => void;
+	onImported: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+	code: 'Código',
+	name: 'Nome',
+	description: 'Descrição',
+	category: 'Categoria',
+	unit: 'Unidade',
+	saleType: 'Tipo de Venda',
+	stock: 'Estoque',
+	purchasePrice: 'Preço de Custo',
+	salePrice: 'Preço de Venda',
+	ncm: 'NCM',
+	icmsRate: 'ICMS',
+	ipiRate: 'IPI',
+	pisRate: 'PIS',
+	cofinsRate: 'COFINS',
+};
+
+const ACTION_BADGES: Record<
+	ImportAction,
+	{ label: string; className: string }
+> = {
+	create: { label: 'Novo', className: 'bg-green-100 text-green-800' },
+	update: { label: 'Alterado', className: 'bg-blue-100 text-blue-800' },
+	unchanged: { label: 'Sem alteração', className: 'bg-gray-100 text-gray-600' },
+	error: { label: 'Erro', className: 'bg-red-100 text-red-800' },
+};
+
+const describeRow = (row: ProductImportRow): string => {
+	if (row.errors && row.errors.length > 0) {
+		return row.errors
+			.map((error) =>
+				error.field
+					? `${FIELD_LABELS[error.field] || error.field}: ${error.message}`
+					: error.message,
+			)
+			.join(' • ');
+	}
+
+	if (row.changes && row.changes.length > 0) {
+		return row.changes
+			.map(
+				(change) =>
+					`${FIELD_LABELS[change.field] || change.field}: ${change.from ?? '-'} → ${change.to ?? '-'}`,
+			)
+			.join(' • ');
+	}
+
+	if (row.action === 'create' && row.generatedCode) {
+		return 'Código gerado automaticamente';
+	}
+
+	return '';
+};
+
+/**
+ * ProductImportWizard - Upload a CSV/XLSX catalog, review what each row does and confirm the import
+ * The preview runs the whole import and rolls it back, so confirming saves exactly what was shown.
+ */
+const ProductImportWizard: React.FC<ProductImportWizardProps> = ({
+	isOpen,
+	onClose,
+	onImported,
+}) => {
+	const [file, setFile] = useState<File | null>(null);
+	const [preview, setPreview] = useState<ProductImportResult | null>(null);
+	const [isProcessing, setIsProcessing] = useState(false);
+
+	const handleClose = () => {
+		setFile(null);
+		setPreview(null);
+		onClose();
+	};
+
+	const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		setFile(e.target.files?.[0] || null);
+		setPreview(null);
+	};
+
+	const handlePreview = async () => {
+		if (!file) return;
+
+		setIsProcessing(true);
+		try {
+			setPreview(await productService.importProducts(file, true));
+		} catch (error) {
+			console.error('Error previewing product import:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: TOAST_MESSAGES.product.importError,
+			);
+		} finally {
+			setIsProcessing(false);
+		}
+	};
+
+	const handleImport = async () => {
+		if (!file) return;
+
+		setIsProcessing(true);
+		try {
+			const result = await productService.importProducts(file, false);
+			if (!result.committed) {
+				// The catalog changed since the preview; show the new row results
+				setPreview(result);
+				toastService.error(TOAST_MESSAGES.product.importHasErrors);
+				return;
+			}
+
+			toastService.success(TOAST_MESSAGES.product.imported);
+			setFile(null);
+			setPreview(null);
+			onImported();
+		} catch (error) {
+			console.error('Error importing products:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: TOAST_MESSAGES.product.importError,
+			);
+		} finally {
+			setIsProcessing(false);
+		}
+	};
+
+	const hasChanges =
+		!!preview && preview.summary.created + preview.summary.updated > 0;
+	const hasErrors = !!preview && preview.summary.errors > 0;
+
+	return (
+		<Modal isOpen={isOpen} onClose={handleClose} title="Importar Produtos">
+			<div className="space-y-4">
+				{/* Step 1: file */}
+				<div className="space-y-2">
+					<p className="text-sm text-gray-600">
+						Envie um arquivo CSV ou XLSX com cabeçalho na primeira linha (as
+						mesmas colunas da exportação). Produtos com código existente são
+						atualizados; sem código, são cadastrados com código gerado.
+					</p>
+					<div className="flex items-center space-x-2">
+						<input
+							type="file"
+							accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+							onChange={handleFileChange}
+							disabled={isProcessing}
+							className="flex-1 text-sm text-gray-700"
+						/>
+						<Button
+							variant="secondary"
+							size="sm"
+							onClick={handlePreview}
+							disabled={!file || isProcessing}
+							loading={isProcessing && !preview}
+						>
+							Gerar prévia
+						</Button>
+					</div>
+				</div>
+
+				{/* Step 2: preview */}
+				{preview && (
+					<>
+						<div className="flex flex-wrap gap-2 text-sm">
+							<span className="px-2 py-1 rounded-full bg-green-100 text-green-800">
+								{preview.summary.created} novos
+							</span>
+							<span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800">
+								{preview.summary.updated} alterados
+							</span>
+							<span className="px-2 py-1 rounded-full bg-gray-100 text-gray-600">
+								{preview.summary.unchanged} sem alteração
+							</span>
+							<span className="px-2 py-1 rounded-full bg-red-100 text-red-800">
+								{preview.summary.errors} com erro
+							</span>
+						</div>
+
+						<div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+							<table className="min-w-full text-sm">
+								<thead className="bg-gray-50 sticky top-0">
+									<tr>
+										<th className="px-3 py-2 text-left font-medium text-gray-700">
+											Linha
+										</th>
+										<th className="px-3 py-2 text-left font-medium text-gray-700">
+											Ação
+										</th>
+										<th className="px-3 py-2 text-left font-medium text-gray-700">
+											Produto
+										</th>
+										<th className="px-3 py-2 text-left font-medium text-gray-700">
+											Detalhes
+										</th>
+									</tr>
+								</thead>
+								<tbody className="divide-y divide-gray-100">
+									{preview.rows.map((row) => (
+										<tr key={row.row}>
+											<td className="px-3 py-2 text-gray-500">{row.row}</td>
+											<td className="px-3 py-2">
+												<span
+													className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${ACTION_BADGES[row.action].className}`}
+												>
+													{ACTION_BADGES[row.action].label}
+												</span>
+											</td>
+											<td className="px-3 py-2 text-gray-900">
+												{row.code || '-'}
+												{row.name && (
+													<span className="block text-xs text-gray-500">
+														{row.name}
+													</span>
+												)}
+											</td>
+											<td
+												className={`px-3 py-2 text-xs ${row.action === 'error' ? 'text-red-600' : 'text-gray-600'}`}
+											>
+												{describeRow(row)}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+
+						{hasErrors && (
+							<p className="text-sm text-red-600">
+								Corrija as linhas com erro no arquivo e gere a prévia novamente.
+								Nenhum produto é importado enquanto houver erros.
+							</p>
+						)}
+					</>
+				)}
+
+				{/* Step 3: confirm */}
+				<div className="flex justify-end space-x-3">
+					<Button variant="secondary" onClick={handleClose}>
+						Cancelar
+					</Button>
+					<Button
+						variant="primary"
+						onClick={handleImport}
+						disabled={!hasChanges || hasErrors || isProcessing}
+						loading={isProcessing && !!preview}
+					>
+						Importar
+					</Button>
+				</div>
+			</div>
+		</Modal>
+	);
+};
+
+export default ProductImportWizard;
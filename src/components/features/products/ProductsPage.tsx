@@ -1,22 +1,40 @@
-import { RefreshCw, Search, SquarePen, Trash2 } from 'lucide-react';
+import {
+	Download,
+	History,
+	ListChecks,
+	RefreshCw,
+	Search,
+	SquarePen,
+	Trash2,
+	Upload,
+} from 'lucide-react';
 import type React from 'react';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '../../../context/AuthContext';
 import { usePricing } from '../../../hooks/usePricing';
 import { useProducts } from '../../../hooks/useProducts';
-import { TOAST_MESSAGES } from '../../../services/ToastService';
+import { useSettings } from '../../../hooks/useSettings';
+import { productService } from '../../../services/productService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
 import type { Product } from '../../../types';
 import type { CreateProductRequest } from '../../../types/api';
-import { AutoCodeService } from '../../../utils';
+import {
+	AutoCodeService,
+	formatQuantity,
+	getQuantityDecimals,
+} from '../../../utils';
 import Button from '../../common/Button';
 import type { CheckboxOption } from '../../common/CheckboxGroup';
 import CheckboxGroup from '../../common/CheckboxGroup';
 import Input from '../../common/Input';
 import type { SelectOption } from '../../common/Select';
 import Select from '../../common/Select';
+import { HistoryDrawer } from '../shared/historyDrawer';
+import BulkPriceEditor from './BulkPriceEditor';
+import ProductImportWizard from './ProductImportWizard';
 
 type TabType = 'list' | 'register';
-type SubTabType = 'basic' | 'pricesStock';
+type SubTabType = 'basic' | 'pricesStock' | 'taxes';
 
 const ProductsPage: React.FC = () => {
 	const { isAdmin, isEmployee, hasPermission, user } = useAuth();
@@ -25,6 +43,17 @@ const ProductsPage: React.FC = () => {
 	const [searchQuery, setSearchQuery] = useState('');
 	const [editingProduct, setEditingProduct] = useState<Product | null>(null);
 	const [currentFilters] = useState({});
+	const [exportFormat, setExportFormat] = useState<'csv' | 'xlsx'>('csv');
+	const [isExporting, setIsExporting] = useState(false);
+	const [isSelecting, setIsSelecting] = useState(false);
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+	const [isBulkEditorOpen, setIsBulkEditorOpen] = useState(false);
+	const [isImportWizardOpen, setIsImportWizardOpen] = useState(false);
+	const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+	const loadProductHistory = useCallback(
+		(page: number) => productService.getHistory(historyProduct?.id ?? '', page),
+		[historyProduct?.id],
+	);
 
 	// Use the products hook for API integration
 	const {
@@ -43,14 +72,18 @@ const ProductsPage: React.FC = () => {
 
 	// Use the pricing hook for price calculations
 	const { priceSuggestions, getPriceSuggestions, isCalculating } = usePricing();
+	const {
+		settings: { defaultMarkup, productCodePrefix },
+	} = useSettings();
 
-	// Initialize auto code service with existing product codes
+	// Initialize auto code service with the configured prefix and existing product codes
 	useEffect(() => {
 		const existingCodes = products
 			.map((p) => p.code)
 			.filter((code) => code && typeof code === 'string');
+		AutoCodeService.setPrefix('product', productCodePrefix);
 		AutoCodeService.initializeFromExisting('product', existingCodes);
-	}, [products]);
+	}, [products, productCodePrefix]);
 
 	// Options for dropdowns
 	const unitOptions: SelectOption[] = [
@@ -81,9 +114,18 @@ const ProductsPage: React.FC = () => {
 		unit: 'un',
 		stock: '',
 		saleType: 'unit' as 'unit' | 'fractional',
+		category: '',
 		purchasePrice: '',
 		markup: '',
 		salePrice: '',
+		ncm: '',
+		icmsRate: '',
+		ipiRate: '',
+		pisRate: '',
+		cofinsRate: '',
+		minStock: '',
+		reorderPoint: '',
+		maxStock: '',
 	});
 
 	const handleInputChange = (field: string) => (value: string) => {
@@ -116,10 +158,21 @@ const ProductsPage: React.FC = () => {
 				name: formData.name,
 				unit: formData.unit,
 				description: formData.description || undefined,
-				stock: formData.stock ? parseInt(formData.stock) : 0,
+				stock: formData.stock ? parseFloat(formData.stock) : 0,
 				purchasePrice: formData.purchasePrice,
 				salePrice: formData.salePrice,
 				saleType: formData.saleType,
+				category: formData.category.trim() || null,
+				ncm: formData.ncm.replace(/\D/g, '') || null,
+				icmsRate: formData.icmsRate || null,
+				ipiRate: formData.ipiRate || null,
+				pisRate: formData.pisRate || null,
+				cofinsRate: formData.cofinsRate || null,
+				minStock: formData.minStock ? parseFloat(formData.minStock) : null,
+				reorderPoint: formData.reorderPoint
+					? parseFloat(formData.reorderPoint)
+					: null,
+				maxStock: formData.maxStock ? parseFloat(formData.maxStock) : null,
 			};
 
 			let success = false;
@@ -146,9 +199,18 @@ const ProductsPage: React.FC = () => {
 					unit: 'un',
 					stock: '',
 					saleType: 'unit' as 'unit' | 'fractional',
+					category: '',
 					purchasePrice: '',
 					markup: '',
 					salePrice: '',
+					ncm: '',
+					icmsRate: '',
+					ipiRate: '',
+					pisRate: '',
+					cofinsRate: '',
+					minStock: '',
+					reorderPoint: '',
+					maxStock: '',
 				});
 
 				// Always refresh the list to ensure consistency
@@ -181,9 +243,18 @@ const ProductsPage: React.FC = () => {
 			unit: product.unit,
 			stock: product.stock.toString(),
 			saleType: product.saleType,
+			category: product.category || '',
 			purchasePrice: product.purchasePrice.toString(),
 			markup: '',
 			salePrice: product.salePrice.toString(),
+			ncm: product.ncm || '',
+			icmsRate: product.icmsRate || '',
+			ipiRate: product.ipiRate || '',
+			pisRate: product.pisRate || '',
+			cofinsRate: product.cofinsRate || '',
+			minStock: product.minStock?.toString() ?? '',
+			reorderPoint: product.reorderPoint?.toString() ?? '',
+			maxStock: product.maxStock?.toString() ?? '',
 		});
 		setActiveTab('register');
 		setActiveSubTab('basic');
@@ -208,6 +279,71 @@ const ProductsPage: React.FC = () => {
 		}
 	};
 
+	// Export every product matching the current search as CSV or XLSX
+	const handleExport = async () => {
+		setIsExporting(true);
+		try {
+			const blob = await productService.exportProducts(exportFormat, {
+				search: searchQuery.trim() || undefined,
+			});
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement('a');
+			link.setAttribute('href', url);
+			link.setAttribute(
+				'download',
+				`produtos_${new Date().toISOString().split('T')[0]}.${exportFormat}`,
+			);
+			link.style.visibility = 'hidden';
+			document.body.appendChild(link);
+			link.click();
+			document.body.removeChild(link);
+			URL.revokeObjectURL(url);
+
+			toastService.success(TOAST_MESSAGES.product.exported);
+		} catch (error) {
+			console.error('Error exporting products:', error);
+			toastService.error(TOAST_MESSAGES.product.exportError);
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	// Selection for bulk price changes
+	const selectedProducts = products.filter((product) =>
+		selectedIds.has(product.id),
+	);
+	const allSelected =
+		products.length > 0 && selectedProducts.length === products.length;
+
+	const toggleProductSelection = (productId: string) => {
+		setSelectedIds((prev) => {
+			const next = new Set(prev);
+			if (next.has(productId)) {
+				next.delete(productId);
+			} else {
+				next.add(productId);
+			}
+			return next;
+		});
+	};
+
+	const toggleAllSelection = () => {
+		setSelectedIds(
+			allSelected ? new Set() : new Set(products.map((product) => product.id)),
+		);
+	};
+
+	const exitSelectionMode = () => {
+		setIsSelecting(false);
+		setSelectedIds(new Set());
+	};
+
+	const handleBulkApplied = async () => {
+		setIsBulkEditorOpen(false);
+		exitSelectionMode();
+		await refreshProducts();
+	};
+
 	const renderTabContent = () => {
 		if (activeTab === 'list') {
 			return (
@@ -222,6 +358,54 @@ const ProductsPage: React.FC = () => {
 									? `${pagination.total} produtos`
 									: `${products.length} produtos`}
 							</span>
+							<div className="flex items-center space-x-2">
+								<select
+									value={exportFormat}
+									onChange={(e) =>
+										setExportFormat(e.target.value as 'csv' | 'xlsx')
+									}
+									disabled={isExporting}
+									className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+									title="Formato da exportação"
+								>
+									<option value="csv">CSV</option>
+									<option value="xlsx">XLSX</option>
+								</select>
+								<Button
+									onClick={handleExport}
+									disabled={isExporting || isLoading}
+									loading={isExporting}
+									variant="secondary"
+									size="sm"
+								>
+									<Download size={14} className="mr-1" />
+									Exportar
+								</Button>
+								{(isAdmin || hasPermission('modules.products')) && (
+									<Button
+										onClick={() => setIsImportWizardOpen(true)}
+										disabled={isLoading}
+										variant="secondary"
+										size="sm"
+									>
+										<Upload size={14} className="mr-1" />
+										Importar
+									</Button>
+								)}
+								{(isAdmin || hasPermission('modules.products')) && (
+									<Button
+										onClick={() =>
+											isSelecting ? exitSelectionMode() : setIsSelecting(true)
+										}
+										disabled={isLoading}
+										variant="secondary"
+										size="sm"
+									>
+										<ListChecks size={14} className="mr-1" />
+										{isSelecting ? 'Cancelar seleção' : 'Editar em lote'}
+									</Button>
+								)}
+							</div>
 							<button
 								type="button"
 								onClick={refreshProducts}
@@ -262,6 +446,31 @@ const ProductsPage: React.FC = () => {
 						</Button>
 					</div>
 
+					{/* Bulk Selection Bar */}
+					{isSelecting && (
+						<div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-4 py-2">
+							<label className="flex items-center space-x-2 text-sm text-gray-700">
+								<input
+									type="checkbox"
+									checked={allSelected}
+									onChange={toggleAllSelection}
+									className="h-4 w-4"
+								/>
+								<span>
+									{selectedProducts.length} de {products.length} selecionados
+								</span>
+							</label>
+							<Button
+								onClick={() => setIsBulkEditorOpen(true)}
+								disabled={selectedProducts.length === 0}
+								variant="primary"
+								size="sm"
+							>
+								Editar preços
+							</Button>
+						</div>
+					)}
+
 					{/* Error Display */}
 					{error && (
 						<div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -294,6 +503,15 @@ const ProductsPage: React.FC = () => {
 									className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:shadow-md transition-shadow flex flex-col h-full" // Adicionado flex flex-col h-full
 								>
 									<div className="flex justify-between items-start mb-2">
+										{isSelecting && (
+											<input
+												type="checkbox"
+												checked={selectedIds.has(product.id)}
+												onChange={() => toggleProductSelection(product.id)}
+												className="h-4 w-4 mt-1 mr-2 flex-shrink-0"
+												aria-label={`Selecionar ${product.name}`}
+											/>
+										)}
 										<div className="flex-grow pr-2">
 											<h3 className="font-semibold text-gray-900 line-clamp-1">
 												{product.name}
@@ -325,34 +543,48 @@ const ProductsPage: React.FC = () => {
 										{product.stock > 0 ? (
 											<span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded-full">
 												Estoque:{' '}
-												<span className="font-semibold">{product.stock}</span>
+												<span className="font-semibold">
+													{formatQuantity(product.stock, product)}
+												</span>
 											</span>
 										) : (
 											<span className="text-xs bg-red-100 text-red-800 px-2 py-1 rounded-full">
 												Estoque:{' '}
-												<span className="font-semibold">{product.stock}</span>
+												<span className="font-semibold">
+													{formatQuantity(product.stock, product)}
+												</span>
 											</span>
 										)}
-										{(isAdmin || hasPermission('modules.products')) && (
-											<div className="flex space-x-2">
-												<button
-													type="button"
-													className="text-blue-600 hover:text-blue-800 text-sm"
-													onClick={() => handleEditProduct(product)}
-													title="Editar produto"
-												>
-													<SquarePen size={16} />
-												</button>
-												<button
-													type="button"
-													className="text-red-600 hover:text-red-800 text-sm"
-													onClick={() => handleDeleteProduct(product)}
-													title="Excluir produto"
-												>
-													<Trash2 size={16} />
-												</button>
-											</div>
-										)}
+										<div className="flex space-x-2">
+											<button
+												type="button"
+												className="text-gray-500 hover:text-gray-700 text-sm"
+												onClick={() => setHistoryProduct(product)}
+												title="Histórico"
+											>
+												<History size={16} />
+											</button>
+											{(isAdmin || hasPermission('modules.products')) && (
+												<>
+													<button
+														type="button"
+														className="text-blue-600 hover:text-blue-800 text-sm"
+														onClick={() => handleEditProduct(product)}
+														title="Editar produto"
+													>
+														<SquarePen size={16} />
+													</button>
+													<button
+														type="button"
+														className="text-red-600 hover:text-red-800 text-sm"
+														onClick={() => handleDeleteProduct(product)}
+														title="Excluir produto"
+													>
+														<Trash2 size={16} />
+													</button>
+												</>
+											)}
+										</div>
 									</div>
 								</div>
 							))}
@@ -369,6 +601,29 @@ const ProductsPage: React.FC = () => {
 						</div>
 					)}
 
+					<BulkPriceEditor
+						isOpen={isBulkEditorOpen}
+						products={selectedProducts}
+						onClose={() => setIsBulkEditorOpen(false)}
+						onApplied={handleBulkApplied}
+					/>
+
+					<ProductImportWizard
+						isOpen={isImportWizardOpen}
+						onClose={() => setIsImportWizardOpen(false)}
+						onImported={async () => {
+							setIsImportWizardOpen(false);
+							await refreshProducts();
+						}}
+					/>
+
+					<HistoryDrawer
+						isOpen={!!historyProduct}
+						onClose={() => setHistoryProduct(null)}
+						title={`Histórico - ${historyProduct?.code ?? ''}`}
+						loadHistory={loadProductHistory}
+					/>
+
 					{/* Pagination */}
 					{pagination && pagination.totalPages > 1 && (
 						<div className="flex justify-center items-center space-x-2 mt-6">
@@ -455,6 +710,17 @@ const ProductsPage: React.FC = () => {
 							/>
 						</div>
 
+						{/* Category */}
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<Input
+								label="Categoria (Opcional)"
+								value={formData.category}
+								onChange={handleInputChange('category')}
+								placeholder="Ex.: Bebidas, Limpeza"
+								maxLength={100}
+							/>
+						</div>
+
 						{/* Description */}
 						<div>
 							<label className="block text-sm font-medium text-gray-700 mb-2">
@@ -498,14 +764,18 @@ const ProductsPage: React.FC = () => {
 							// Use custom markup
 							return purchasePrice * (1 + markupPercent / 100);
 						} else {
-							// Use a simple default calculation (50% markup)
-							return purchasePrice * 1.5;
+							// Use the default markup from the settings
+							return purchasePrice * (1 + defaultMarkup / 100);
 						}
 					}
 					return 0;
 				};
 
 				const suggestedPrice = calculateSuggestedPrice();
+				const stockStep =
+					getQuantityDecimals(formData) > 0
+						? 10 ** -getQuantityDecimals(formData)
+						: 1;
 
 				const applySuggestedPrice = () => {
 					if (suggestedPrice > 0) {
@@ -549,7 +819,7 @@ const ProductsPage: React.FC = () => {
 									step="0.01"
 									value={formData.markup}
 									onChange={handleInputChange('markup')}
-									placeholder="Ex: 50 (para 50%)"
+									placeholder={`Padrão: ${defaultMarkup}%`}
 									min="0"
 								/>
 
@@ -676,10 +946,120 @@ const ProductsPage: React.FC = () => {
 									onChange={handleInputChange('stock')}
 									placeholder="0"
 									min="0"
+									step={stockStep}
 									required
 								/>
 							</div>
 						</div>
+
+						{/* Stock Levels Section */}
+						<div>
+							<h3 className="text-lg font-medium text-gray-900 mb-1">
+								Níveis de Estoque
+							</h3>
+							<p className="text-sm text-gray-500 mb-4">
+								O produto entra nos alertas quando o estoque disponível chega ao
+								ponto de pedido e fica crítico no estoque mínimo. Deixe em
+								branco para usar o limite de estoque baixo das configurações.
+							</p>
+							<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+								<Input
+									label="Estoque Mínimo"
+									type="number"
+									value={formData.minStock}
+									onChange={handleInputChange('minStock')}
+									placeholder="Opcional"
+									min="0"
+									step={stockStep}
+								/>
+								<Input
+									label="Ponto de Pedido"
+									type="number"
+									value={formData.reorderPoint}
+									onChange={handleInputChange('reorderPoint')}
+									placeholder="Opcional"
+									min="0"
+									step={stockStep}
+								/>
+								<Input
+									label="Estoque Máximo"
+									type="number"
+									value={formData.maxStock}
+									onChange={handleInputChange('maxStock')}
+									placeholder="Opcional"
+									min="0"
+									step={stockStep}
+								/>
+							</div>
+						</div>
+					</div>
+				);
+			}
+
+			if (activeSubTab === 'taxes') {
+				return (
+					<div className="space-y-6">
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<Input
+								label="NCM"
+								value={formData.ncm}
+								onChange={handleInputChange('ncm')}
+								placeholder="0000.00.00"
+								maxLength={10}
+							/>
+						</div>
+
+						<div>
+							<h3 className="text-lg font-medium text-gray-900 mb-1">
+								Alíquotas Próprias
+							</h3>
+							<p className="text-sm text-gray-500 mb-4">
+								Deixe em branco para usar as alíquotas do NCM e o ICMS da UF de
+								destino.
+							</p>
+							<div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+								<Input
+									label="ICMS (%)"
+									type="number"
+									min="0"
+									max="100"
+									step="0.01"
+									value={formData.icmsRate}
+									onChange={handleInputChange('icmsRate')}
+									placeholder="Padrão"
+								/>
+								<Input
+									label="IPI (%)"
+									type="number"
+									min="0"
+									max="100"
+									step="0.01"
+									value={formData.ipiRate}
+									onChange={handleInputChange('ipiRate')}
+									placeholder="Padrão"
+								/>
+								<Input
+									label="PIS (%)"
+									type="number"
+									min="0"
+									max="100"
+									step="0.01"
+									value={formData.pisRate}
+									onChange={handleInputChange('pisRate')}
+									placeholder="Padrão"
+								/>
+								<Input
+									label="COFINS (%)"
+									type="number"
+									min="0"
+									max="100"
+									step="0.01"
+									value={formData.cofinsRate}
+									onChange={handleInputChange('cofinsRate')}
+									placeholder="Padrão"
+								/>
+							</div>
+						</div>
 					</div>
 				);
 			}
@@ -717,6 +1097,18 @@ const ProductsPage: React.FC = () => {
 							>
 								Preços e Estoque
 							</button>
+							<button
+								key="taxes-subtab"
+								type="button"
+								onClick={() => setActiveSubTab('taxes')}
+								className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm ${
+									activeSubTab === 'taxes'
+										? 'border-blue-500 text-blue-600'
+										: 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+								}`}
+							>
+								Tributação
+							</button>
 						</nav>
 					</div>
 				</div>
@@ -740,9 +1132,18 @@ const ProductsPage: React.FC = () => {
 									unit: 'un',
 									stock: '',
 									saleType: 'unit' as 'unit' | 'fractional',
+									category: '',
 									purchasePrice: '',
 									markup: '',
 									salePrice: '',
+									ncm: '',
+									icmsRate: '',
+									ipiRate: '',
+									pisRate: '',
+									cofinsRate: '',
+									minStock: '',
+									reorderPoint: '',
+									maxStock: '',
 								});
 								setEditingProduct(null);
 								setActiveSubTab('basic');
@@ -0,0 +1,675 @@
+import { SquarePen, Trash2 } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useId, useState } from 'react';
+import { productService } from '../../../services/productService';
+import { promotionService } from '../../../services/promotionService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type { Product, Promotion } from '../../../types';
+import type { CreatePromotionRequest } from '../../../types/api';
+import { formatCurrency } from '../../../utils';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+import Modal from '../../common/Modal';
+import type { SelectOption } from '../../common/Select';
+import Select from '../../common/Select';
+import Switch from '../../common/Switch';
+
+type TabType = 'list' | 'register';
+
+interface ConfirmationDialogState {
+	isOpen: boolean;
+	promotion: Promotion | null;
+}
+
+interface PromotionFormData {
+	name: string;
+	description: string;
+	type: Promotion['type'];
+	value: string;
+	scope: Promotion['scope'];
+	productId: string;
+	category: string;
+	startDate: string;
+	endDate: string;
+	priority: string;
+	minAmount: string;
+	maxDiscount: string;
+	usageLimit: string;
+	isActive: boolean;
+}
+
+const emptyFormData: PromotionFormData = {
+	name: '',
+	description: '',
+	type: 'percentage',
+	value: '',
+	scope: 'all',
+	productId: '',
+	category: '',
+	startDate: '',
+	endDate: '',
+	priority: '0',
+	minAmount: '',
+	maxDiscount: '',
+	usageLimit: '',
+	isActive: true,
+};
+
+const typeOptions: SelectOption[] = [
+	{ value: 'percentage', label: 'Percentual (%)' },
+	{ value: 'fixed', label: 'Valor fixo (R$)' },
+];
+
+const scopeOptions: SelectOption[] = [
+	{ value: 'all', label: 'Todos os produtos' },
+	{ value: 'product', label: 'Produto específico' },
+	{ value: 'category', label: 'Categoria' },
+];
+
+// Converts an ISO date from the API to the yyyy-mm-dd format used by date inputs
+const toDateInput = (value: string): string => value.slice(0, 10);
+
+const formatDate = (value: string): string =>
+	new Date(value).toLocaleDateString('pt-BR');
+
+const getPromotionStatus = (
+	promotion: Promotion,
+): { label: string; className: string } => {
+	const now = new Date();
+
+	if (!promotion.isActive) {
+		return { label: 'Inativa', className: 'bg-gray-100 text-gray-800' };
+	}
+	if (new Date(promotion.startDate) > now) {
+		return { label: 'Agendada', className: 'bg-yellow-100 text-yellow-800' };
+	}
+	if (new Date(promotion.endDate) < now) {
+		return { label: 'Encerrada', className: 'bg-red-100 text-red-800' };
+	}
+	if (
+		promotion.usageLimit !== null &&
+		promotion.usageLimit !== undefined &&
+		promotion.usageCount >= promotion.usageLimit
+	) {
+		return { label: 'Esgotada', className: 'bg-red-100 text-red-800' };
+	}
+	return { label: 'Vigente', className: 'bg-green-100 text-green-800' };
+};
+
+const PromotionsPage: React.FC = () => {
+	const [activeTab, setActiveTab] = useState<TabType>('list');
+	const [promotions, setPromotions] = useState<Promotion[]>([]);
+	const [products, setProducts] = useState<Product[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(
+		null,
+	);
+	const [confirmationDialog, setConfirmationDialog] =
+		useState<ConfirmationDialogState>({
+			isOpen: false,
+			promotion: null,
+		});
+	const [formData, setFormData] = useState<PromotionFormData>(emptyFormData);
+	const categoryListId = useId();
+
+	// Load promotions and products on component mount
+	useEffect(() => {
+		const loadData = async () => {
+			setIsLoading(true);
+			try {
+				const [promotionsData, productsResponse] = await Promise.all([
+					promotionService.getAll(),
+					productService.getProducts({ limit: 100, sortBy: 'name' }),
+				]);
+				setPromotions(promotionsData);
+				setProducts(productsResponse?.data || []);
+			} catch (error) {
+				console.error('Error loading promotions:', error);
+				toastService.error(TOAST_MESSAGES.promotion.loadError);
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		loadData();
+	}, []);
+
+	const productOptions: SelectOption[] = products.map((product) => ({
+		value: product.id,
+		label: `${product.code} - ${product.name}`,
+	}));
+
+	const categoryOptions = Array.from(
+		new Set(
+			products
+				.map((product) => product.category)
+				.filter((category): category is string => !!category),
+		),
+	);
+
+	const handleInputChange =
+		(field: keyof PromotionFormData) => (value: string) => {
+			setFormData((prev) => ({ ...prev, [field]: value }));
+		};
+
+	const resetForm = () => {
+		setFormData(emptyFormData);
+		setEditingPromotion(null);
+	};
+
+	const handleTabChange = (tab: TabType) => {
+		setActiveTab(tab);
+		if (tab === 'list') {
+			resetForm();
+		}
+	};
+
+	const buildRequest = (): CreatePromotionRequest => ({
+		name: formData.name.trim(),
+		description: formData.description.trim() || null,
+		type: formData.type,
+		value: formData.value,
+		scope: formData.scope,
+		productId: formData.scope === 'product' ? formData.productId : null,
+		category: formData.scope === 'category' ? formData.category.trim() : null,
+		startDate: `${formData.startDate}T00:00:00`,
+		endDate: `${formData.endDate}T23:59:59`,
+		priority: parseInt(formData.priority, 10) || 0,
+		minAmount: formData.minAmount || null,
+		maxDiscount:
+			formData.type === 'percentage' && formData.maxDiscount
+				? formData.maxDiscount
+				: null,
+		usageLimit: formData.usageLimit ? parseInt(formData.usageLimit, 10) : null,
+		isActive: formData.isActive,
+	});
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (
+			!formData.name.trim() ||
+			!formData.value ||
+			!formData.startDate ||
+			!formData.endDate ||
+			(formData.scope === 'product' && !formData.productId) ||
+			(formData.scope === 'category' && !formData.category.trim())
+		) {
+			toastService.error(TOAST_MESSAGES.promotion.invalidData);
+			return;
+		}
+
+		if (formData.endDate < formData.startDate) {
+			toastService.error(TOAST_MESSAGES.promotion.invalidPeriod);
+			return;
+		}
+
+		setIsLoading(true);
+		try {
+			const request = buildRequest();
+
+			if (editingPromotion) {
+				const updatedPromotion = await promotionService.update(
+					editingPromotion.id,
+					request,
+				);
+				setPromotions((prev) =>
+					prev.map((promotion) =>
+						promotion.id === editingPromotion.id ? updatedPromotion : promotion,
+					),
+				);
+				toastService.success(TOAST_MESSAGES.promotion.updated);
+			} else {
+				const newPromotion = await promotionService.create(request);
+				setPromotions((prev) => [newPromotion, ...prev]);
+				toastService.success(TOAST_MESSAGES.promotion.created);
+			}
+
+			resetForm();
+			setActiveTab('list');
+		} catch (error) {
+			console.error('Erro ao salvar promoção:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: TOAST_MESSAGES.promotion.invalidData,
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const handleEditClick = (promotion: Promotion) => {
+		setEditingPromotion(promotion);
+		setFormData({
+			name: promotion.name,
+			description: promotion.description || '',
+			type: promotion.type,
+			value: promotion.value,
+			scope: promotion.scope,
+			productId: promotion.productId || '',
+			category: promotion.category || '',
+			startDate: toDateInput(promotion.startDate),
+			endDate: toDateInput(promotion.endDate),
+			priority: promotion.priority.toString(),
+			minAmount: promotion.minAmount || '',
+			maxDiscount: promotion.maxDiscount || '',
+			usageLimit: promotion.usageLimit?.toString() || '',
+			isActive: promotion.isActive,
+		});
+		setActiveTab('register');
+	};
+
+	// Handle delete confirmation dialog
+	const handleDeleteClick = (promotion: Promotion) => {
+		setConfirmationDialog({
+			isOpen: true,
+			promotion,
+		});
+	};
+
+	const handleDeleteCancel = () => {
+		setConfirmationDialog({
+			isOpen: false,
+			promotion: null,
+		});
+	};
+
+	const handleDeleteConfirm = async () => {
+		if (!confirmationDialog.promotion) return;
+
+		const promotionId = confirmationDialog.promotion.id;
+
+		setIsLoading(true);
+		try {
+			await promotionService.delete(promotionId);
+			setPromotions((prev) =>
+				prev.filter((promotion) => promotion.id !== promotionId),
+			);
+			toastService.success(TOAST_MESSAGES.promotion.deleted);
+		} catch (error) {
+			console.error('Erro ao excluir promoção:', error);
+			toastService.error(
+				error instanceof Error ? error.message : 'Erro ao excluir promoção.',
+			);
+		} finally {
+			setIsLoading(false);
+			handleDeleteCancel();
+		}
+	};
+
+	const describeValue = (promotion: Promotion) =>
+		promotion.type === 'percentage'
+			? `${Number(promotion.value)}% de desconto`
+			: `${formatCurrency(Number(promotion.value))} de desconto`;
+
+	const describeScope = (promotion: Promotion) => {
+		if (promotion.scope === 'product') {
+			const product = products.find((p) => p.id === promotion.productId);
+			return `Produto: ${product ? product.name : 'não encontrado'}`;
+		}
+		if (promotion.scope === 'category') {
+			return `Categoria: ${promotion.category}`;
+		}
+		return 'Todos os produtos';
+	};
+
+	const renderTabContent = () => {
+		if (activeTab === 'list') {
+			return (
+				<div className="space-y-4">
+					<div className="flex items-center justify-between">
+						<h2 className="text-xl font-semibold text-gray-800">
+							Promoções Cadastradas
+						</h2>
+						<span className="text-sm text-gray-500">
+							{promotions.length} promoções
+						</span>
+					</div>
+
+					<div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+						{promotions.map((promotion) => {
+							const status = getPromotionStatus(promotion);
+
+							return (
+								<div
+									key={promotion.id}
+									className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:shadow-md transition-shadow flex flex-col h-full"
+								>
+									<div className="flex justify-between items-start mb-2">
+										<div className="flex-grow pr-2">
+											<h3 className="font-semibold text-gray-900 line-clamp-1">
+												{promotion.name}
+											</h3>
+											<p className="text-sm text-blue-700 font-medium">
+												{describeValue(promotion)}
+											</p>
+										</div>
+										<div className="text-right flex-shrink-0">
+											<span
+												className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.className}`}
+											>
+												{status.label}
+											</span>
+										</div>
+									</div>
+									<div className="space-y-1 text-xs text-gray-600 mb-3">
+										<p>{describeScope(promotion)}</p>
+										<p>
+											Período: {formatDate(promotion.startDate)} até{' '}
+											{formatDate(promotion.endDate)}
+										</p>
+										{promotion.minAmount && (
+											<p>
+												Valor mínimo:{' '}
+												{formatCurrency(Number(promotion.minAmount))}
+											</p>
+										)}
+										{promotion.maxDiscount && (
+											<p>
+												Desconto máximo:{' '}
+												{formatCurrency(Number(promotion.maxDiscount))}
+											</p>
+										)}
+									</div>
+									<div className="flex justify-between items-center pt-3 border-t border-gray-100 mt-auto">
+										<span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded-full">
+											Prioridade {promotion.priority} ·{' '}
+											{promotion.usageLimit
+												? `${promotion.usageCount}/${promotion.usageLimit} usos`
+												: `${promotion.usageCount} usos`}
+										</span>
+										<div className="flex space-x-2">
+											<button
+												type="button"
+												className="text-blue-600 hover:text-blue-800 text-sm"
+												title="Editar promoção"
+												onClick={() => handleEditClick(promotion)}
+												disabled={isLoading}
+											>
+												<SquarePen size={16} />
+											</button>
+											<button
+												type="button"
+												className="text-red-600 hover:text-red-800 text-sm"
+												title="Excluir promoção"
+												onClick={() => handleDeleteClick(promotion)}
+												disabled={isLoading}
+											>
+												<Trash2 size={16} />
+											</button>
+										</div>
+									</div>
+								</div>
+							);
+						})}
+					</div>
+
+					{promotions.length === 0 && (
+						<div className="text-center py-8">
+							<p className="text-gray-500">
+								Nenhuma promoção cadastrada ainda.
+							</p>
+						</div>
+					)}
+				</div>
+			);
+		}
+
+		// Register tab: form for creating and editing promotions
+		return (
+			<form onSubmit={handleSubmit} className="space-y-8">
+				<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+					<div className="space-y-6">
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<Input
+								label="Nome"
+								value={formData.name}
+								onChange={handleInputChange('name')}
+								placeholder="Ex.: Semana do Cliente"
+								maxLength={255}
+								required
+							/>
+
+							<Input
+								label="Descrição (Opcional)"
+								value={formData.description}
+								onChange={handleInputChange('description')}
+								placeholder="Detalhes da campanha"
+							/>
+						</div>
+
+						<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+							<Select
+								label="Tipo de Desconto"
+								value={formData.type}
+								onChange={handleInputChange('type')}
+								options={typeOptions}
+								size="sm"
+								required
+							/>
+
+							<Input
+								label={
+									formData.type === 'percentage' ? 'Valor (%)' : 'Valor (R$)'
+								}
+								type="number"
+								min="0.01"
+								max={formData.type === 'percentage' ? '100' : undefined}
+								step="0.01"
+								value={formData.value}
+								onChange={handleInputChange('value')}
+								placeholder="0,00"
+								required
+							/>
+
+							<Input
+								label="Prioridade"
+								type="number"
+								min="0"
+								step="1"
+								value={formData.priority}
+								onChange={handleInputChange('priority')}
+							/>
+						</div>
+
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<Select
+								label="Aplicar em"
+								value={formData.scope}
+								onChange={handleInputChange('scope')}
+								options={scopeOptions}
+								size="sm"
+								required
+							/>
+
+							{formData.scope === 'product' && (
+								<Select
+									label="Produto"
+									value={formData.productId}
+									onChange={handleInputChange('productId')}
+									options={productOptions}
+									placeholder="Selecione o produto"
+									size="sm"
+									required
+								/>
+							)}
+
+							{formData.scope === 'category' && (
+								<div>
+									<Input
+										label="Categoria"
+										value={formData.category}
+										onChange={handleInputChange('category')}
+										placeholder="Ex.: Bebidas"
+										list={categoryListId}
+										required
+									/>
+									<datalist id={categoryListId}>
+										{categoryOptions.map((category) => (
+											<option key={category} value={category} />
+										))}
+									</datalist>
+								</div>
+							)}
+						</div>
+
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<Input
+								label="Início"
+								type="date"
+								value={formData.startDate}
+								onChange={handleInputChange('startDate')}
+								required
+							/>
+
+							<Input
+								label="Fim"
+								type="date"
+								value={formData.endDate}
+								onChange={handleInputChange('endDate')}
+								required
+							/>
+						</div>
+
+						<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+							<Input
+								label="Valor mínimo (R$)"
+								type="number"
+								min="0"
+								step="0.01"
+								value={formData.minAmount}
+								onChange={handleInputChange('minAmount')}
+								placeholder="Sem mínimo"
+							/>
+
+							{formData.type === 'percentage' && (
+								<Input
+									label="Desconto máximo (R$)"
+									type="number"
+									min="0"
+									step="0.01"
+									value={formData.maxDiscount}
+									onChange={handleInputChange('maxDiscount')}
+									placeholder="Sem limite"
+								/>
+							)}
+
+							<Input
+								label="Limite de usos"
+								type="number"
+								min="1"
+								step="1"
+								value={formData.usageLimit}
+								onChange={handleInputChange('usageLimit')}
+								placeholder="Ilimitado"
+							/>
+						</div>
+
+						<div className="pt-4 border-t border-gray-200">
+							<Switch
+								checked={formData.isActive}
+								onChange={(checked) =>
+									setFormData((prev) => ({ ...prev, isActive: checked }))
+								}
+								label="Promoção ativa"
+								description="Quando ativa, a promoção é aplicada automaticamente nos preços e pré-vendas dentro do período"
+							/>
+						</div>
+					</div>
+				</div>
+
+				{/* Action Buttons */}
+				<div className="flex justify-end space-x-3">
+					<Button type="button" variant="secondary" onClick={resetForm}>
+						{editingPromotion ? 'Cancelar Edição' : 'Limpar'}
+					</Button>
+					<Button type="submit" variant="primary" disabled={isLoading}>
+						{isLoading
+							? 'Salvando...'
+							: editingPromotion
+								? 'Salvar Promoção'
+								: 'Cadastrar Promoção'}
+					</Button>
+				</div>
+			</form>
+		);
+	};
+
+	return (
+		<div className="p-6">
+			<h1 className="text-2xl font-bold text-gray-900 mb-6">Promoções</h1>
+
+			{/* Tabs */}
+			<div className="mb-6">
+				<div className="border-b border-gray-200">
+					<nav className="-mb-px flex space-x-8" aria-label="Tabs">
+						<button
+							type="button"
+							onClick={() => handleTabChange('list')}
+							className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm ${
+								activeTab === 'list'
+									? 'border-blue-500 text-blue-600'
+									: 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+							}`}
+						>
+							Listagem
+						</button>
+						<button
+							type="button"
+							onClick={() => handleTabChange('register')}
+							className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm ${
+								activeTab === 'register'
+									? 'border-blue-500 text-blue-600'
+									: 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+							}`}
+						>
+							{editingPromotion ? 'Edição' : 'Cadastro'}
+						</button>
+					</nav>
+				</div>
+			</div>
+
+			{/* Tab Content */}
+			<div className="mt-6">{renderTabContent()}</div>
+
+			{/* Delete Confirmation Dialog */}
+			<Modal
+				isOpen={confirmationDialog.isOpen}
+				onClose={handleDeleteCancel}
+				title="Confirmar Exclusão"
+			>
+				<div className="space-y-4">
+					<p className="text-gray-700">
+						Tem certeza que deseja excluir a promoção{' '}
+						<strong>"{confirmationDialog.promotion?.name}"</strong>?
+					</p>
+					<p className="text-sm text-gray-500">
+						Esta ação não pode ser desfeita. Pré-vendas já criadas mantêm o
+						desconto aplicado.
+					</p>
+					<div className="flex justify-end space-x-3 pt-4">
+						<Button
+							type="button"
+							variant="secondary"
+							onClick={handleDeleteCancel}
+							disabled={isLoading}
+						>
+							Cancelar
+						</Button>
+						<Button
+							type="button"
+							variant="danger"
+							onClick={handleDeleteConfirm}
+							disabled={isLoading}
+						>
+							{isLoading ? 'Excluindo...' : 'Excluir'}
+						</Button>
+					</div>
+				</div>
+			</Modal>
+		</div>
+	);
+};
+
+export default PromotionsPage;
@@ -0,0 +1 @@
+export { default as PromotionsPage } from './PromotionsPage';
@@ -0,0 +1,251 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { purchasingService } from '../../../services/purchasingService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type { PurchaseOrder, PurchaseOrderItem } from '../../../types';
+import {
+	formatCurrency,
+	formatQuantity,
+	getQuantityDecimals,
+	roundQuantity,
+} from '../../../utils';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+import Modal from '../../common/Modal';
+
+interface PurchaseOrderDetailsModalProps {
+	orderId: string | null;
+	onClose: () => void;
+	onOrderChange: (order: PurchaseOrder) => void;
+}
+
+const formatDateTime = (value: string): string =>
+	new Date(value).toLocaleString('pt-BR');
+
+const getOutstandingQuantity = (item: PurchaseOrderItem): number =>
+	roundQuantity(item.quantity - item.receivedQuantity);
+
+const PurchaseOrderDetailsModal: React.FC<PurchaseOrderDetailsModalProps> = ({
+	orderId,
+	onClose,
+	onOrderChange,
+}) => {
+	const [order, setOrder] = useState<PurchaseOrder | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+	// Quantity being received per order item, keyed by item id
+	const [receiving, setReceiving] = useState<Record<string, string>>({});
+	const [notes, setNotes] = useState('');
+
+	useEffect(() => {
+		if (!orderId) {
+			setOrder(null);
+			return;
+		}
+
+		const loadOrder = async () => {
+			setIsLoading(true);
+			try {
+				setOrder(await purchasingService.getPurchaseOrder(orderId));
+				setReceiving({});
+				setNotes('');
+			} catch (error) {
+				console.error('Error loading purchase order:', error);
+				toastService.error(TOAST_MESSAGES.purchasing.loadError);
+				onClose();
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		loadOrder();
+	}, [orderId, onClose]);
+
+	const canReceive =
+		order?.status === 'ordered' || order?.status === 'partially_received';
+
+	// Fills every line with its outstanding quantity
+	const handleReceiveAll = () => {
+		if (!order?.items) return;
+
+		setReceiving(
+			Object.fromEntries(
+				order.items.map((item) => [
+					item.id,
+					String(getOutstandingQuantity(item)),
+				]),
+			),
+		);
+	};
+
+	const handleReceive = async () => {
+		if (!order) return;
+
+		const items = Object.entries(receiving)
+			.map(([itemId, quantity]) => ({ itemId, quantity: Number(quantity) }))
+			.filter((item) => item.quantity > 0);
+
+		if (items.length === 0) {
+			toastService.error(TOAST_MESSAGES.purchasing.nothingToReceive);
+			return;
+		}
+
+		setIsLoading(true);
+		try {
+			const updatedOrder = await purchasingService.receivePurchaseOrder(
+				order.id,
+				{ items, notes: notes.trim() || null },
+			);
+			setOrder(updatedOrder);
+			setReceiving({});
+			setNotes('');
+			onOrderChange(updatedOrder);
+			toastService.success(TOAST_MESSAGES.purchasing.received);
+		} catch (error) {
+			console.error('Erro ao receber pedido de compra:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: 'Erro ao receber pedido de compra.',
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	return (
+		<Modal
+			isOpen={orderId !== null}
+			onClose={onClose}
+			title={order ? `Pedido de Compra #${order.number}` : 'Pedido de Compra'}
+		>
+			{!order ? (
+				<p className="text-gray-500">Carregando...</p>
+			) : (
+				<div className="space-y-4">
+					<div className="text-sm text-gray-600 space-y-1">
+						<p>
+							Fornecedor:{' '}
+							<strong className="text-gray-900">{order.supplier.name}</strong>
+						</p>
+						{order.expectedDate && (
+							<p>
+								Previsão de entrega:{' '}
+								{new Date(`${order.expectedDate}T00:00:00`).toLocaleDateString(
+									'pt-BR',
+								)}
+							</p>
+						)}
+						<p>Total previsto: {formatCurrency(Number(order.total))}</p>
+						{order.notes && <p>Observações: {order.notes}</p>}
+					</div>
+
+					<div className="space-y-2">
+						{order.items?.map((item) => {
+							const outstanding = getOutstandingQuantity(item);
+
+							return (
+								<div
+									key={item.id}
+									className="border border-gray-200 rounded-md p-3 flex items-center justify-between gap-3"
+								>
+									<div className="text-sm">
+										<p className="font-medium text-gray-900">
+											{item.product.code} - {item.product.name}
+										</p>
+										<p className="text-gray-500">
+											Recebido{' '}
+											{formatQuantity(item.receivedQuantity, item.product)}/
+											{formatQuantity(item.quantity, item.product)}{' '}
+											{item.product.unit} ·{' '}
+											{formatCurrency(Number(item.unitCost))}/
+											{item.product.unit}
+										</p>
+									</div>
+									{canReceive && outstanding > 0 && (
+										<div className="w-28 flex-shrink-0">
+											<Input
+												type="number"
+												min="0"
+												max={String(outstanding)}
+												step={
+													getQuantityDecimals(item.product) > 0
+														? String(10 ** -getQuantityDecimals(item.product))
+														: '1'
+												}
+												value={receiving[item.id] || ''}
+												onChange={(value) =>
+													setReceiving((prev) => ({
+														...prev,
+														[item.id]: value,
+													}))
+												}
+												placeholder="0"
+												aria-label={`Quantidade recebida de ${item.product.name}`}
+											/>
+										</div>
+									)}
+								</div>
+							);
+						})}
+					</div>
+
+					{canReceive && (
+						<div className="space-y-3">
+							<Input
+								label="Observações do recebimento (Opcional)"
+								value={notes}
+								onChange={setNotes}
+								placeholder="Ex.: NF 1234"
+								maxLength={200}
+							/>
+							<div className="flex justify-end space-x-3">
+								<Button
+									type="button"
+									variant="secondary"
+									onClick={handleReceiveAll}
+									disabled={isLoading}
+								>
+									Receber tudo
+								</Button>
+								<Button
+									type="button"
+									variant="primary"
+									onClick={handleReceive}
+									disabled={isLoading}
+								>
+									{isLoading ? 'Registrando...' : 'Registrar Recebimento'}
+								</Button>
+							</div>
+						</div>
+					)}
+
+					{order.receipts && order.receipts.length > 0 && (
+						<div className="pt-4 border-t border-gray-200">
+							<h4 className="text-sm font-semibold text-gray-800 mb-2">
+								Recebimentos
+							</h4>
+							<ul className="space-y-1 text-xs text-gray-600">
+								{order.receipts.map((receipt) => {
+									const item = order.items?.find(
+										(orderItem) => orderItem.productId === receipt.productId,
+									);
+
+									return (
+										<li key={receipt.id}>
+											{formatDateTime(receipt.createdAt)} · +
+											{formatQuantity(receipt.quantity, item?.product)}{' '}
+											{item?.product.unit} {item?.product.name} ·{' '}
+											{receipt.userName}
+										</li>
+									);
+								})}
+							</ul>
+						</div>
+					)}
+				</div>
+			)}
+		</Modal>
+	);
+};
+
+export default PurchaseOrderDetailsModal;
@@ -0,0 +1,805 @@
+import { Eye, Send, SquarePen, Trash2, XCircle } from 'lucide-react';
+import type React from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { productService } from '../../../services/productService';
+import { purchasingService } from '../../../services/purchasingService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type {
+	Product,
+	PurchaseOrder,
+	PurchaseOrderStatus,
+	Supplier,
+} from '../../../types';
+import type { CreatePurchaseOrderRequest } from '../../../types/api';
+import { formatCurrency, getQuantityDecimals } from '../../../utils';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+import Modal from '../../common/Modal';
+import type { SelectOption } from '../../common/Select';
+import Select from '../../common/Select';
+import PurchaseOrderDetailsModal from './PurchaseOrderDetailsModal';
+import SuppliersPanel from './SuppliersPanel';
+
+type TabType = 'list' | 'register' | 'suppliers';
+
+interface PurchaseOrderLineFormData {
+	// Client-side key, order lines have no id until they are saved
+	key: string;
+	productId: string;
+	quantity: string;
+	unitCost: string;
+}
+
+interface PurchaseOrderFormData {
+	supplierId: string;
+	expectedDate: string;
+	notes: string;
+	items: PurchaseOrderLineFormData[];
+}
+
+interface StatusAction {
+	order: PurchaseOrder;
+	action: 'ordered' | 'cancelled' | 'delete';
+}
+
+const emptyFormData: PurchaseOrderFormData = {
+	supplierId: '',
+	expectedDate: '',
+	notes: '',
+	items: [],
+};
+
+const STATUS_LABELS: Record<
+	PurchaseOrderStatus,
+	{ label: string; className: string }
+> = {
+	draft: { label: 'Rascunho', className: 'bg-gray-100 text-gray-800' },
+	ordered: { label: 'Enviado', className: 'bg-blue-100 text-blue-800' },
+	partially_received: {
+		label: 'Recebido parcial',
+		className: 'bg-yellow-100 text-yellow-800',
+	},
+	received: { label: 'Recebido', className: 'bg-green-100 text-green-800' },
+	cancelled: { label: 'Cancelado', className: 'bg-red-100 text-red-800' },
+};
+
+const statusFilterOptions: SelectOption[] = [
+	{ value: '', label: 'Todos os status' },
+	...Object.entries(STATUS_LABELS).map(([value, { label }]) => ({
+		value,
+		label,
+	})),
+];
+
+const STATUS_ACTION_LABELS: Record<
+	StatusAction['action'],
+	{ title: string; description: string; confirm: string }
+> = {
+	ordered: {
+		title: 'Enviar Pedido',
+		description:
+			'O pedido não poderá mais ser editado e ficará disponível para recebimento.',
+		confirm: 'Enviar',
+	},
+	cancelled: {
+		title: 'Cancelar Pedido',
+		description:
+			'Itens ainda não recebidos deixam de ser considerados nas sugestões de compra. Entradas já recebidas permanecem no estoque.',
+		confirm: 'Cancelar Pedido',
+	},
+	delete: {
+		title: 'Confirmar Exclusão',
+		description: 'Esta ação não pode ser desfeita.',
+		confirm: 'Excluir',
+	},
+};
+
+let lineKeySequence = 0;
+const nextLineKey = (): string => {
+	lineKeySequence += 1;
+	return `line-${lineKeySequence}`;
+};
+
+const formatDate = (value: string): string =>
+	new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString('pt-BR');
+
+const PurchasingPage: React.FC = () => {
+	const [activeTab, setActiveTab] = useState<TabType>('list');
+	const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+	const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+	const [products, setProducts] = useState<Product[]>([]);
+	const [statusFilter, setStatusFilter] = useState('');
+	const [isLoading, setIsLoading] = useState(false);
+	const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+	const [detailsOrderId, setDetailsOrderId] = useState<string | null>(null);
+	const [statusAction, setStatusAction] = useState<StatusAction | null>(null);
+	const [formData, setFormData] =
+		useState<PurchaseOrderFormData>(emptyFormData);
+
+	// Load suppliers and products on component mount
+	useEffect(() => {
+		const loadData = async () => {
+			try {
+				const [suppliersResponse, productsResponse] = await Promise.all([
+					purchasingService.getSuppliers(),
+					productService.getProducts({ limit: 100, sortBy: 'name' }),
+				]);
+				setSuppliers(suppliersResponse?.data || []);
+				setProducts(productsResponse?.data || []);
+			} catch (error) {
+				console.error('Error loading purchasing data:', error);
+				toastService.error(TOAST_MESSAGES.purchasing.loadError);
+			}
+		};
+
+		loadData();
+	}, []);
+
+	// Reload orders whenever the status filter changes
+	useEffect(() => {
+		const loadOrders = async () => {
+			setIsLoading(true);
+			try {
+				const response = await purchasingService.getPurchaseOrders({
+					status: (statusFilter || undefined) as
+						| PurchaseOrderStatus
+						| undefined,
+					limit: 100,
+				});
+				setOrders(response?.data || []);
+			} catch (error) {
+				console.error('Error loading purchase orders:', error);
+				toastService.error(TOAST_MESSAGES.purchasing.loadError);
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		loadOrders();
+	}, [statusFilter]);
+
+	const supplierOptions: SelectOption[] = suppliers
+		.filter(
+			(supplier) =>
+				supplier.isActive || supplier.id === editingOrder?.supplierId,
+		)
+		.map((supplier) => ({ value: supplier.id, label: supplier.name }));
+
+	const productOptions: SelectOption[] = products.map((product) => ({
+		value: product.id,
+		label: `${product.code} - ${product.name}`,
+	}));
+
+	const formTotal = formData.items.reduce(
+		(total, line) =>
+			total + (Number(line.quantity) || 0) * (Number(line.unitCost) || 0),
+		0,
+	);
+
+	const handleInputChange =
+		(field: 'supplierId' | 'expectedDate' | 'notes') => (value: string) => {
+			setFormData((prev) => ({ ...prev, [field]: value }));
+		};
+
+	const handleLineChange =
+		(key: string, field: 'productId' | 'quantity' | 'unitCost') =>
+		(value: string) => {
+			setFormData((prev) => ({
+				...prev,
+				items: prev.items.map((line) => {
+					if (line.key !== key) return line;
+
+					// Picking a product fills the cost with its current purchase price
+					if (field === 'productId') {
+						const product = products.find((p) => p.id === value);
+						return {
+							...line,
+							productId: value,
+							unitCost: product
+								? Number(product.purchasePrice).toFixed(2)
+								: line.unitCost,
+						};
+					}
+
+					return { ...line, [field]: value };
+				}),
+			}));
+		};
+
+	const handleAddLine = () => {
+		setFormData((prev) => ({
+			...prev,
+			items: [
+				...prev.items,
+				{ key: nextLineKey(), productId: '', quantity: '', unitCost: '' },
+			],
+		}));
+	};
+
+	const handleRemoveLine = (key: string) => {
+		setFormData((prev) => ({
+			...prev,
+			items: prev.items.filter((line) => line.key !== key),
+		}));
+	};
+
+	// Fills the order with the products at their reorder point
+	const handleSuggest = async () => {
+		setIsLoading(true);
+		try {
+			const suggestions = await purchasingService.getSuggestions();
+
+			if (suggestions.length === 0) {
+				toastService.info(TOAST_MESSAGES.purchasing.noSuggestions);
+				return;
+			}
+
+			setFormData((prev) => {
+				const supplierId =
+					prev.supplierId ||
+					suggestions.find((suggestion) => suggestion.lastSupplier)
+						?.lastSupplier?.id ||
+					'';
+				const existingProducts = new Set(
+					prev.items.map((line) => line.productId),
+				);
+
+				return {
+					...prev,
+					supplierId,
+					items: [
+						...prev.items,
+						...suggestions
+							.filter(
+								(suggestion) => !existingProducts.has(suggestion.productId),
+							)
+							.map((suggestion) => ({
+								key: nextLineKey(),
+								productId: suggestion.productId,
+								quantity: String(suggestion.suggestedQuantity),
+								unitCost: suggestion.unitCost,
+							})),
+					],
+				};
+			});
+		} catch (error) {
+			console.error('Error loading purchase suggestions:', error);
+			toastService.error(TOAST_MESSAGES.purchasing.loadError);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const resetForm = () => {
+		setFormData(emptyFormData);
+		setEditingOrder(null);
+	};
+
+	const handleTabChange = (tab: TabType) => {
+		setActiveTab(tab);
+		if (tab !== 'register') {
+			resetForm();
+		}
+	};
+
+	const replaceOrder = (updatedOrder: PurchaseOrder) => {
+		setOrders((prev) =>
+			prev.map((order) =>
+				order.id === updatedOrder.id ? updatedOrder : order,
+			),
+		);
+	};
+
+	const buildRequest = (): CreatePurchaseOrderRequest => ({
+		supplierId: formData.supplierId,
+		expectedDate: formData.expectedDate || null,
+		notes: formData.notes.trim() || null,
+		items: formData.items.map((line) => ({
+			productId: line.productId,
+			quantity: Number(line.quantity),
+			unitCost: Number(line.unitCost).toFixed(2),
+		})),
+	});
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (!formData.supplierId || formData.items.length === 0) {
+			toastService.error(TOAST_MESSAGES.purchasing.invalidOrder);
+			return;
+		}
+
+		if (
+			formData.items.some(
+				(line) =>
+					!line.productId ||
+					!(Number(line.quantity) > 0) ||
+					line.unitCost === '' ||
+					!(Number(line.unitCost) >= 0),
+			)
+		) {
+			toastService.error(TOAST_MESSAGES.purchasing.invalidItem);
+			return;
+		}
+
+		setIsLoading(true);
+		try {
+			const request = buildRequest();
+
+			if (editingOrder) {
+				replaceOrder(
+					await purchasingService.updatePurchaseOrder(editingOrder.id, request),
+				);
+				toastService.success(TOAST_MESSAGES.purchasing.orderUpdated);
+			} else {
+				const newOrder = await purchasingService.createPurchaseOrder(request);
+				setOrders((prev) => [newOrder, ...prev]);
+				toastService.success(TOAST_MESSAGES.purchasing.orderCreated);
+			}
+
+			resetForm();
+			setActiveTab('list');
+		} catch (error) {
+			console.error('Erro ao salvar pedido de compra:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: TOAST_MESSAGES.purchasing.invalidOrder,
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const handleEditClick = async (order: PurchaseOrder) => {
+		setIsLoading(true);
+		try {
+			const details = await purchasingService.getPurchaseOrder(order.id);
+			setEditingOrder(details);
+			setFormData({
+				supplierId: details.supplierId,
+				expectedDate: details.expectedDate?.slice(0, 10) || '',
+				notes: details.notes || '',
+				items: (details.items || []).map((item) => ({
+					key: nextLineKey(),
+					productId: item.productId,
+					quantity: String(item.quantity),
+					unitCost: item.unitCost,
+				})),
+			});
+			setActiveTab('register');
+		} catch (error) {
+			console.error('Error loading purchase order:', error);
+			toastService.error(TOAST_MESSAGES.purchasing.loadError);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const handleStatusActionConfirm = async () => {
+		if (!statusAction) return;
+
+		const { order, action } = statusAction;
+
+		setIsLoading(true);
+		try {
+			if (action === 'delete') {
+				await purchasingService.deletePurchaseOrder(order.id);
+				setOrders((prev) => prev.filter((item) => item.id !== order.id));
+				toastService.success(TOAST_MESSAGES.purchasing.orderDeleted);
+			} else {
+				replaceOrder(
+					await purchasingService.updatePurchaseOrderStatus(order.id, action),
+				);
+				toastService.success(
+					action === 'ordered'
+						? TOAST_MESSAGES.purchasing.orderPlaced
+						: TOAST_MESSAGES.purchasing.orderCancelled,
+				);
+			}
+		} catch (error) {
+			console.error('Erro ao atualizar pedido de compra:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: 'Erro ao atualizar pedido de compra.',
+			);
+		} finally {
+			setIsLoading(false);
+			setStatusAction(null);
+		}
+	};
+
+	const handleDetailsClose = useCallback(() => setDetailsOrderId(null), []);
+
+	const renderOrdersList = () => (
+		<div className="space-y-4">
+			<div className="flex items-center justify-between">
+				<h2 className="text-xl font-semibold text-gray-800">
+					Pedidos de Compra
+				</h2>
+				<div className="w-56">
+					<Select
+						value={statusFilter}
+						onChange={setStatusFilter}
+						options={statusFilterOptions}
+						placeholder="Todos os status"
+						size="sm"
+					/>
+				</div>
+			</div>
+
+			<div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+				<table className="min-w-full divide-y divide-gray-200">
+					<thead className="bg-gray-50">
+						<tr>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+								Nº
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+								Fornecedor
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+								Status
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+								Previsão
+							</th>
+							<th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+								Itens
+							</th>
+							<th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+								Total
+							</th>
+							<th className="px-4 py-3" />
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-gray-200">
+						{orders.map((order) => {
+							const status = STATUS_LABELS[order.status];
+
+							return (
+								<tr key={order.id}>
+									<td className="px-4 py-3 text-sm font-medium text-gray-900">
+										#{order.number}
+									</td>
+									<td className="px-4 py-3 text-sm text-gray-700">
+										{order.supplier.name}
+									</td>
+									<td className="px-4 py-3 text-sm">
+										<span
+											className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.className}`}
+										>
+											{status.label}
+										</span>
+									</td>
+									<td className="px-4 py-3 text-sm text-gray-600">
+										{order.expectedDate ? formatDate(order.expectedDate) : '-'}
+									</td>
+									<td className="px-4 py-3 text-sm text-right text-gray-600">
+										{order.itemCount}
+									</td>
+									<td className="px-4 py-3 text-sm text-right text-gray-900">
+										{formatCurrency(Number(order.total))}
+									</td>
+									<td className="px-4 py-3">
+										<div className="flex justify-end space-x-2">
+											<button
+												type="button"
+												className="text-gray-600 hover:text-gray-800"
+												title={
+													order.status === 'ordered' ||
+													order.status === 'partially_received'
+														? 'Detalhes e recebimento'
+														: 'Detalhes'
+												}
+												onClick={() => setDetailsOrderId(order.id)}
+												disabled={isLoading}
+											>
+												<Eye size={16} />
+											</button>
+											{order.status === 'draft' && (
+												<>
+													<button
+														type="button"
+														className="text-blue-600 hover:text-blue-800"
+														title="Editar pedido"
+														onClick={() => handleEditClick(order)}
+														disabled={isLoading}
+													>
+														<SquarePen size={16} />
+													</button>
+													<button
+														type="button"
+														className="text-green-600 hover:text-green-800"
+														title="Enviar ao fornecedor"
+														onClick={() =>
+															setStatusAction({ order, action: 'ordered' })
+														}
+														disabled={isLoading}
+													>
+														<Send size={16} />
+													</button>
+													<button
+														type="button"
+														className="text-red-600 hover:text-red-800"
+														title="Excluir pedido"
+														onClick={() =>
+															setStatusAction({ order, action: 'delete' })
+														}
+														disabled={isLoading}
+													>
+														<Trash2 size={16} />
+													</button>
+												</>
+											)}
+											{(order.status === 'ordered' ||
+												order.status === 'partially_received') && (
+												<button
+													type="button"
+													className="text-red-600 hover:text-red-800"
+													title="Cancelar pedido"
+													onClick={() =>
+														setStatusAction({ order, action: 'cancelled' })
+													}
+													disabled={isLoading}
+												>
+													<XCircle size={16} />
+												</button>
+											)}
+										</div>
+									</td>
+								</tr>
+							);
+						})}
+					</tbody>
+				</table>
+
+				{orders.length === 0 && (
+					<div className="text-center py-8">
+						<p className="text-gray-500">
+							{isLoading
+								? 'Carregando...'
+								: 'Nenhum pedido de compra encontrado.'}
+						</p>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+
+	const renderOrderForm = () => (
+		<form onSubmit={handleSubmit} className="space-y-8">
+			<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+				<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+					<Select
+						label="Fornecedor"
+						value={formData.supplierId}
+						onChange={handleInputChange('supplierId')}
+						options={supplierOptions}
+						placeholder="Selecione o fornecedor"
+						size="sm"
+						required
+					/>
+
+					<Input
+						label="Previsão de entrega (Opcional)"
+						type="date"
+						value={formData.expectedDate}
+						onChange={handleInputChange('expectedDate')}
+					/>
+
+					<Input
+						label="Observações (Opcional)"
+						value={formData.notes}
+						onChange={handleInputChange('notes')}
+						placeholder="Condições de pagamento, frete..."
+					/>
+				</div>
+
+				<div className="pt-4 border-t border-gray-200 space-y-3">
+					<div className="flex items-center justify-between">
+						<h3 className="text-lg font-semibold text-gray-800">Itens</h3>
+						<div className="flex space-x-3">
+							<Button
+								type="button"
+								variant="secondary"
+								onClick={handleSuggest}
+								disabled={isLoading}
+							>
+								Sugerir pedido
+							</Button>
+							<Button type="button" variant="secondary" onClick={handleAddLine}>
+								Adicionar item
+							</Button>
+						</div>
+					</div>
+
+					{formData.items.map((line) => {
+						const product = products.find((p) => p.id === line.productId);
+						const decimals = product ? getQuantityDecimals(product) : 0;
+
+						return (
+							<div
+								key={line.key}
+								className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end"
+							>
+								<div className="md:col-span-6">
+									<Select
+										label="Produto"
+										value={line.productId}
+										onChange={handleLineChange(line.key, 'productId')}
+										options={productOptions}
+										placeholder="Selecione o produto"
+										size="sm"
+										required
+									/>
+								</div>
+								<div className="md:col-span-2">
+									<Input
+										label={
+											product ? `Quantidade (${product.unit})` : 'Quantidade'
+										}
+										type="number"
+										min="0"
+										step={decimals > 0 ? String(10 ** -decimals) : '1'}
+										value={line.quantity}
+										onChange={handleLineChange(line.key, 'quantity')}
+										required
+									/>
+								</div>
+								<div className="md:col-span-2">
+									<Input
+										label="Custo unitário (R$)"
+										type="number"
+										min="0"
+										step="0.01"
+										value={line.unitCost}
+										onChange={handleLineChange(line.key, 'unitCost')}
+										required
+									/>
+								</div>
+								<div className="md:col-span-2 flex justify-end pb-2">
+									<button
+										type="button"
+										className="text-red-600 hover:text-red-800"
+										title="Remover item"
+										onClick={() => handleRemoveLine(line.key)}
+									>
+										<Trash2 size={16} />
+									</button>
+								</div>
+							</div>
+						);
+					})}
+
+					{formData.items.length === 0 && (
+						<p className="text-sm text-gray-500">
+							Adicione itens manualmente ou use "Sugerir pedido" para incluir os
+							produtos que atingiram o ponto de pedido.
+						</p>
+					)}
+
+					<p className="text-right text-sm text-gray-700">
+						Total previsto:{' '}
+						<strong className="text-gray-900">
+							{formatCurrency(formTotal)}
+						</strong>
+					</p>
+				</div>
+			</div>
+
+			{/* Action Buttons */}
+			<div className="flex justify-end space-x-3">
+				<Button type="button" variant="secondary" onClick={resetForm}>
+					{editingOrder ? 'Cancelar Edição' : 'Limpar'}
+				</Button>
+				<Button type="submit" variant="primary" disabled={isLoading}>
+					{isLoading
+						? 'Salvando...'
+						: editingOrder
+							? 'Salvar Pedido'
+							: 'Criar Pedido'}
+				</Button>
+			</div>
+		</form>
+	);
+
+	const renderTabContent = () => {
+		if (activeTab === 'list') return renderOrdersList();
+		if (activeTab === 'register') return renderOrderForm();
+		return (
+			<SuppliersPanel suppliers={suppliers} onSuppliersChange={setSuppliers} />
+		);
+	};
+
+	const tabs: Array<{ id: TabType; label: string }> = [
+		{ id: 'list', label: 'Pedidos' },
+		{ id: 'register', label: editingOrder ? 'Edição' : 'Novo Pedido' },
+		{ id: 'suppliers', label: 'Fornecedores' },
+	];
+
+	return (
+		<div className="p-6">
+			<h1 className="text-2xl font-bold text-gray-900 mb-6">Compras</h1>
+
+			{/* Tabs */}
+			<div className="mb-6">
+				<div className="border-b border-gray-200">
+					<nav className="-mb-px flex space-x-8" aria-label="Tabs">
+						{tabs.map((tab) => (
+							<button
+								key={tab.id}
+								type="button"
+								onClick={() => handleTabChange(tab.id)}
+								className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm ${
+									activeTab === tab.id
+										? 'border-blue-500 text-blue-600'
+										: 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+								}`}
+							>
+								{tab.label}
+							</button>
+						))}
+					</nav>
+				</div>
+			</div>
+
+			{/* Tab Content */}
+			<div className="mt-6">{renderTabContent()}</div>
+
+			<PurchaseOrderDetailsModal
+				orderId={detailsOrderId}
+				onClose={handleDetailsClose}
+				onOrderChange={replaceOrder}
+			/>
+
+			{/* Status Change Confirmation Dialog */}
+			<Modal
+				isOpen={statusAction !== null}
+				onClose={() => setStatusAction(null)}
+				title={
+					statusAction ? STATUS_ACTION_LABELS[statusAction.action].title : ''
+				}
+			>
+				<div className="space-y-4">
+					<p className="text-gray-700">
+						Pedido de compra <strong>#{statusAction?.order.number}</strong> ·{' '}
+						{statusAction?.order.supplier.name}
+					</p>
+					<p className="text-sm text-gray-500">
+						{statusAction
+							? STATUS_ACTION_LABELS[statusAction.action].description
+							: ''}
+					</p>
+					<div className="flex justify-end space-x-3 pt-4">
+						<Button
+							type="button"
+							variant="secondary"
+							onClick={() => setStatusAction(null)}
+							disabled={isLoading}
+						>
+							Voltar
+						</Button>
+						<Button
+							type="button"
+							variant={
+								statusAction?.action === 'ordered' ? 'primary' : 'danger'
+							}
+							onClick={handleStatusActionConfirm}
+							disabled={isLoading}
+						>
+							{isLoading
+								? 'Processando...'
+								: statusAction
+									? STATUS_ACTION_LABELS[statusAction.action].confirm
+									: ''}
+						</Button>
+					</div>
+				</div>
+			</Modal>
+		</div>
+	);
+};
+
+export default PurchasingPage;
@@ -0,0 +1,352 @@
+import { SquarePen, Trash2 } from 'lucide-react';
+import type React from 'react';
+import { useState } from 'react';
+import { purchasingService } from '../../../services/purchasingService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type { Supplier } from '../../../types';
+import type { CreateSupplierRequest } from '../../../types/api';
+import { formatCNPJ } from '../../../utils';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+import Modal from '../../common/Modal';
+import Switch from '../../common/Switch';
+
+interface SuppliersPanelProps {
+	suppliers: Supplier[];
+	onSuppliersChange: (suppliers: Supplier[]) => void;
+}
+
+interface SupplierFormData {
+	name: string;
+	cnpj: string;
+	contactName: string;
+	email: string;
+	phone: string;
+	notes: string;
+	isActive: boolean;
+}
+
+const emptyFormData: SupplierFormData = {
+	name: '',
+	cnpj: '',
+	contactName: '',
+	email: '',
+	phone: '',
+	notes: '',
+	isActive: true,
+};
+
+const SuppliersPanel: React.FC<SuppliersPanelProps> = ({
+	suppliers,
+	onSuppliersChange,
+}) => {
+	const [isLoading, setIsLoading] = useState(false);
+	const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+	const [supplierToDelete, setSupplierToDelete] = useState<Supplier | null>(
+		null,
+	);
+	const [formData, setFormData] = useState<SupplierFormData>(emptyFormData);
+
+	const handleInputChange =
+		(field: keyof SupplierFormData) => (value: string) => {
+			setFormData((prev) => ({ ...prev, [field]: value }));
+		};
+
+	const resetForm = () => {
+		setFormData(emptyFormData);
+		setEditingSupplier(null);
+	};
+
+	const buildRequest = (): CreateSupplierRequest => ({
+		name: formData.name.trim(),
+		cnpj: formData.cnpj.trim() || null,
+		contactName: formData.contactName.trim() || null,
+		email: formData.email.trim() || null,
+		phone: formData.phone.trim() || null,
+		notes: formData.notes.trim() || null,
+		isActive: formData.isActive,
+	});
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (!formData.name.trim()) {
+			toastService.error(TOAST_MESSAGES.purchasing.invalidSupplier);
+			return;
+		}
+
+		setIsLoading(true);
+		try {
+			const request = buildRequest();
+
+			if (editingSupplier) {
+				const updatedSupplier = await purchasingService.updateSupplier(
+					editingSupplier.id,
+					request,
+				);
+				onSuppliersChange(
+					suppliers.map((supplier) =>
+						supplier.id === editingSupplier.id ? updatedSupplier : supplier,
+					),
+				);
+				toastService.success(TOAST_MESSAGES.purchasing.supplierUpdated);
+			} else {
+				const newSupplier = await purchasingService.createSupplier(request);
+				onSuppliersChange(
+					[...suppliers, newSupplier].sort((a, b) =>
+						a.name.localeCompare(b.name),
+					),
+				);
+				toastService.success(TOAST_MESSAGES.purchasing.supplierCreated);
+			}
+
+			resetForm();
+		} catch (error) {
+			console.error('Erro ao salvar fornecedor:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: TOAST_MESSAGES.purchasing.invalidSupplier,
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const handleEditClick = (supplier: Supplier) => {
+		setEditingSupplier(supplier);
+		setFormData({
+			name: supplier.name,
+			cnpj: supplier.cnpj ? formatCNPJ(supplier.cnpj) : '',
+			contactName: supplier.contactName || '',
+			email: supplier.email || '',
+			phone: supplier.phone || '',
+			notes: supplier.notes || '',
+			isActive: supplier.isActive,
+		});
+	};
+
+	const handleDeleteConfirm = async () => {
+		if (!supplierToDelete) return;
+
+		const supplierId = supplierToDelete.id;
+
+		setIsLoading(true);
+		try {
+			await purchasingService.deleteSupplier(supplierId);
+			onSuppliersChange(
+				suppliers.filter((supplier) => supplier.id !== supplierId),
+			);
+			toastService.success(TOAST_MESSAGES.purchasing.supplierDeleted);
+		} catch (error) {
+			console.error('Erro ao excluir fornecedor:', error);
+			toastService.error(
+				error instanceof Error ? error.message : 'Erro ao excluir fornecedor.',
+			);
+		} finally {
+			setIsLoading(false);
+			setSupplierToDelete(null);
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			<form
+				onSubmit={handleSubmit}
+				className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6"
+			>
+				<h2 className="text-lg font-semibold text-gray-800">
+					{editingSupplier ? 'Editar Fornecedor' : 'Novo Fornecedor'}
+				</h2>
+
+				<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+					<Input
+						label="Nome"
+						value={formData.name}
+						onChange={handleInputChange('name')}
+						placeholder="Razão social ou nome fantasia"
+						maxLength={255}
+						required
+					/>
+
+					<Input
+						label="CNPJ (Opcional)"
+						value={formData.cnpj}
+						onChange={handleInputChange('cnpj')}
+						placeholder="00.000.000/0000-00"
+						maxLength={18}
+					/>
+
+					<Input
+						label="Contato (Opcional)"
+						value={formData.contactName}
+						onChange={handleInputChange('contactName')}
+						placeholder="Nome do vendedor"
+					/>
+
+					<Input
+						label="E-mail (Opcional)"
+						type="email"
+						value={formData.email}
+						onChange={handleInputChange('email')}
+						placeholder="compras@fornecedor.com.br"
+					/>
+
+					<Input
+						label="Telefone (Opcional)"
+						value={formData.phone}
+						onChange={handleInputChange('phone')}
+						placeholder="(00) 00000-0000"
+						maxLength={20}
+					/>
+
+					<Input
+						label="Observações (Opcional)"
+						value={formData.notes}
+						onChange={handleInputChange('notes')}
+						placeholder="Prazo de entrega, condições..."
+					/>
+				</div>
+
+				<div className="flex items-center justify-between pt-4 border-t border-gray-200">
+					<Switch
+						checked={formData.isActive}
+						onChange={(checked) =>
+							setFormData((prev) => ({ ...prev, isActive: checked }))
+						}
+						label="Fornecedor ativo"
+						description="Somente fornecedores ativos podem receber novos pedidos de compra"
+					/>
+					<div className="flex space-x-3">
+						<Button type="button" variant="secondary" onClick={resetForm}>
+							{editingSupplier ? 'Cancelar Edição' : 'Limpar'}
+						</Button>
+						<Button type="submit" variant="primary" disabled={isLoading}>
+							{isLoading
+								? 'Salvando...'
+								: editingSupplier
+									? 'Salvar Fornecedor'
+									: 'Cadastrar Fornecedor'}
+						</Button>
+					</div>
+				</div>
+			</form>
+
+			<div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+				<table className="min-w-full divide-y divide-gray-200">
+					<thead className="bg-gray-50">
+						<tr>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+								Fornecedor
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+								CNPJ
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+								Contato
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+								Status
+							</th>
+							<th className="px-4 py-3" />
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-gray-200">
+						{suppliers.map((supplier) => (
+							<tr key={supplier.id}>
+								<td className="px-4 py-3 text-sm font-medium text-gray-900">
+									{supplier.name}
+								</td>
+								<td className="px-4 py-3 text-sm text-gray-600">
+									{supplier.cnpj ? formatCNPJ(supplier.cnpj) : '-'}
+								</td>
+								<td className="px-4 py-3 text-sm text-gray-600">
+									{[supplier.contactName, supplier.phone, supplier.email]
+										.filter(Boolean)
+										.join(' · ') || '-'}
+								</td>
+								<td className="px-4 py-3 text-sm">
+									<span
+										className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+											supplier.isActive
+												? 'bg-green-100 text-green-800'
+												: 'bg-gray-100 text-gray-800'
+										}`}
+									>
+										{supplier.isActive ? 'Ativo' : 'Inativo'}
+									</span>
+								</td>
+								<td className="px-4 py-3 text-right">
+									<div className="flex justify-end space-x-2">
+										<button
+											type="button"
+											className="text-blue-600 hover:text-blue-800"
+											title="Editar fornecedor"
+											onClick={() => handleEditClick(supplier)}
+											disabled={isLoading}
+										>
+											<SquarePen size={16} />
+										</button>
+										<button
+											type="button"
+											className="text-red-600 hover:text-red-800"
+											title="Excluir fornecedor"
+											onClick={() => setSupplierToDelete(supplier)}
+											disabled={isLoading}
+										>
+											<Trash2 size={16} />
+										</button>
+									</div>
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+
+				{suppliers.length === 0 && (
+					<div className="text-center py-8">
+						<p className="text-gray-500">Nenhum fornecedor cadastrado ainda.</p>
+					</div>
+				)}
+			</div>
+
+			{/* Delete Confirmation Dialog */}
+			<Modal
+				isOpen={supplierToDelete !== null}
+				onClose={() => setSupplierToDelete(null)}
+				title="Confirmar Exclusão"
+			>
+				<div className="space-y-4">
+					<p className="text-gray-700">
+						Tem certeza que deseja excluir o fornecedor{' '}
+						<strong>"{supplierToDelete?.name}"</strong>?
+					</p>
+					<p className="text-sm text-gray-500">
+						Fornecedores com pedidos de compra não podem ser excluídos, apenas
+						inativados.
+					</p>
+					<div className="flex justify-end space-x-3 pt-4">
+						<Button
+							type="button"
+							variant="secondary"
+							onClick={() => setSupplierToDelete(null)}
+							disabled={isLoading}
+						>
+							Cancelar
+						</Button>
+						<Button
+							type="button"
+							variant="danger"
+							onClick={handleDeleteConfirm}
+							disabled={isLoading}
+						>
+							{isLoading ? 'Excluindo...' : 'Excluir'}
+						</Button>
+					</div>
+				</div>
+			</Modal>
+		</div>
+	);
+};
+
+export default SuppliersPanel;
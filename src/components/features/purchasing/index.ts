@@ -0,0 +1 @@
+export { default as PurchasingPage } from './PurchasingPage';
@@ -0,0 +1,415 @@
+import { Plus, SquarePen, Trash2, X } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { commissionService } from '../../../services/commissionService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type { CommissionRule, User } from '../../../types';
+import type { CreateCommissionRuleRequest } from '../../../types/api';
+import { formatCurrency } from '../../../utils';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+import Modal from '../../common/Modal';
+import Select, { type SelectOption } from '../../common/Select';
+
+interface CommissionRulesProps {
+	salespeople: User[];
+}
+
+interface TierFormData {
+	// Client-side key, tiers have no id of their own
+	key: string;
+	minVolume: string;
+	rate: string;
+}
+
+interface RuleFormData {
+	name: string;
+	salespersonId: string;
+	category: string;
+	rate: string;
+	tiers: TierFormData[];
+}
+
+const emptyFormData: RuleFormData = {
+	name: '',
+	salespersonId: '',
+	category: '',
+	rate: '',
+	tiers: [],
+};
+
+const isValidRate = (rate: string): boolean =>
+	rate !== '' && Number(rate) >= 0 && Number(rate) <= 100;
+
+/**
+ * CommissionRules - Administrators manage commission rules per salesperson and category
+ */
+const CommissionRules: React.FC<CommissionRulesProps> = ({ salespeople }) => {
+	const [rules, setRules] = useState<CommissionRule[]>([]);
+	const [formData, setFormData] = useState<RuleFormData>(emptyFormData);
+	const [editingRule, setEditingRule] = useState<CommissionRule | null>(null);
+	const [ruleToDelete, setRuleToDelete] = useState<CommissionRule | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+
+	// Load commission rules on component mount
+	useEffect(() => {
+		const loadRules = async () => {
+			try {
+				setRules(await commissionService.getRules());
+			} catch (error) {
+				console.error('Error loading commission rules:', error);
+				toastService.error(TOAST_MESSAGES.commission.loadError);
+			}
+		};
+
+		loadRules();
+	}, []);
+
+	const salespersonOptions: SelectOption[] = useMemo(
+		() => [
+			{ value: '', label: 'Todos os vendedores' },
+			...salespeople.map((user) => ({ value: user.id, label: user.name })),
+		],
+		[salespeople],
+	);
+
+	const handleInputChange =
+		(field: keyof Omit<RuleFormData, 'tiers'>) => (value: string) => {
+			setFormData((prev) => ({ ...prev, [field]: value }));
+		};
+
+	const handleTierChange =
+		(index: number, field: Exclude<keyof TierFormData, 'key'>) =>
+		(value: string) => {
+			setFormData((prev) => ({
+				...prev,
+				tiers: prev.tiers.map((tier, i) =>
+					i === index ? { ...tier, [field]: value } : tier,
+				),
+			}));
+		};
+
+	const handleAddTier = () => {
+		setFormData((prev) => ({
+			...prev,
+			tiers: [
+				...prev.tiers,
+				{ key: crypto.randomUUID(), minVolume: '', rate: '' },
+			],
+		}));
+	};
+
+	const handleRemoveTier = (index: number) => {
+		setFormData((prev) => ({
+			...prev,
+			tiers: prev.tiers.filter((_, i) => i !== index),
+		}));
+	};
+
+	const resetForm = () => {
+		setFormData(emptyFormData);
+		setEditingRule(null);
+	};
+
+	const handleEditClick = (rule: CommissionRule) => {
+		setEditingRule(rule);
+		setFormData({
+			name: rule.name,
+			salespersonId: rule.salespersonId || '',
+			category: rule.category || '',
+			rate: Number(rule.rate).toString(),
+			tiers: (rule.tiers || []).map((tier) => ({
+				key: crypto.randomUUID(),
+				minVolume: tier.minVolume.toString(),
+				rate: tier.rate.toString(),
+			})),
+		});
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (!formData.name.trim() || !isValidRate(formData.rate)) {
+			toastService.error(TOAST_MESSAGES.commission.invalidRule);
+			return;
+		}
+
+		if (
+			formData.tiers.some(
+				(tier) => !(Number(tier.minVolume) > 0) || !isValidRate(tier.rate),
+			)
+		) {
+			toastService.error(TOAST_MESSAGES.commission.invalidTier);
+			return;
+		}
+
+		const ruleData: CreateCommissionRuleRequest = {
+			name: formData.name.trim(),
+			salespersonId: formData.salespersonId || null,
+			category: formData.category.trim() || null,
+			rate: Number(formData.rate).toFixed(2),
+			tiers: formData.tiers.map((tier) => ({
+				minVolume: Number(tier.minVolume),
+				rate: Number(tier.rate),
+			})),
+		};
+
+		setIsLoading(true);
+		try {
+			if (editingRule) {
+				const updated = await commissionService.updateRule(
+					editingRule.id,
+					ruleData,
+				);
+				setRules((prev) =>
+					prev.map((rule) => (rule.id === updated.id ? updated : rule)),
+				);
+				toastService.success(TOAST_MESSAGES.commission.ruleUpdated);
+			} else {
+				const created = await commissionService.createRule(ruleData);
+				setRules((prev) => [...prev, created]);
+				toastService.success(TOAST_MESSAGES.commission.ruleCreated);
+			}
+			resetForm();
+		} catch (error) {
+			console.error('Erro ao salvar regra de comissão:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: 'Erro ao salvar regra de comissão.',
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const handleDeleteConfirm = async () => {
+		if (!ruleToDelete) return;
+
+		const ruleId = ruleToDelete.id;
+
+		setIsLoading(true);
+		try {
+			await commissionService.deleteRule(ruleId);
+			setRules((prev) => prev.filter((rule) => rule.id !== ruleId));
+			if (editingRule?.id === ruleId) resetForm();
+			toastService.success(TOAST_MESSAGES.commission.ruleDeleted);
+		} catch (error) {
+			console.error('Erro ao excluir regra de comissão:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: 'Erro ao excluir regra de comissão.',
+			);
+		} finally {
+			setIsLoading(false);
+			setRuleToDelete(null);
+		}
+	};
+
+	const describeTiers = (rule: CommissionRule): string =>
+		(rule.tiers || [])
+			.map(
+				(tier) => `${tier.rate}% a partir de ${formatCurrency(tier.minVolume)}`,
+			)
+			.join(' • ');
+
+	return (
+		<div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+			<div className="flex items-center justify-between">
+				<h2 className="text-xl font-semibold text-gray-800">
+					Regras de Comissão
+				</h2>
+				<span className="text-sm text-gray-500">{rules.length} regras</span>
+			</div>
+
+			{/* Rules List */}
+			<div className="divide-y divide-gray-200">
+				{rules.map((rule) => (
+					<div
+						key={rule.id}
+						className="py-3 flex items-start justify-between gap-4"
+					>
+						<div>
+							<p className="font-medium text-gray-900">
+								{rule.name}{' '}
+								<span className="text-green-700">{Number(rule.rate)}%</span>
+								{!rule.isActive && (
+									<span className="ml-2 text-xs text-gray-500">(inativa)</span>
+								)}
+							</p>
+							<p className="text-sm text-gray-600">
+								{rule.salesperson?.name || 'Todos os vendedores'} •{' '}
+								{rule.category || 'Todas as categorias'}
+							</p>
+							{rule.tiers && rule.tiers.length > 0 && (
+								<p className="text-xs text-gray-500">{describeTiers(rule)}</p>
+							)}
+						</div>
+						<div className="flex space-x-2">
+							<button
+								type="button"
+								className="text-blue-600 hover:text-blue-800 text-sm"
+								title="Editar regra"
+								onClick={() => handleEditClick(rule)}
+								disabled={isLoading}
+							>
+								<SquarePen size={16} />
+							</button>
+							<button
+								type="button"
+								className="text-red-600 hover:text-red-800 text-sm"
+								title="Excluir regra"
+								onClick={() => setRuleToDelete(rule)}
+								disabled={isLoading}
+							>
+								<Trash2 size={16} />
+							</button>
+						</div>
+					</div>
+				))}
+
+				{rules.length === 0 && (
+					<p className="py-4 text-center text-gray-500">
+						Nenhuma regra cadastrada. Sem regras, nenhuma comissão é calculada.
+					</p>
+				)}
+			</div>
+
+			{/* Rule Form */}
+			<form
+				onSubmit={handleSubmit}
+				className="space-y-4 pt-4 border-t border-gray-200"
+			>
+				<h3 className="text-lg font-medium text-gray-900">
+					{editingRule ? 'Editar Regra' : 'Nova Regra'}
+				</h3>
+				<div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+					<Input
+						label="Nome"
+						value={formData.name}
+						onChange={handleInputChange('name')}
+						placeholder="Ex.: Comissão padrão"
+						maxLength={255}
+						required
+					/>
+					<Select
+						label="Vendedor"
+						value={formData.salespersonId}
+						onChange={handleInputChange('salespersonId')}
+						options={salespersonOptions}
+					/>
+					<Input
+						label="Categoria (Opcional)"
+						value={formData.category}
+						onChange={handleInputChange('category')}
+						placeholder="Todas as categorias"
+						maxLength={100}
+					/>
+					<Input
+						label="Comissão (%)"
+						type="number"
+						min="0"
+						max="100"
+						step="0.01"
+						value={formData.rate}
+						onChange={handleInputChange('rate')}
+						placeholder="0,00"
+						required
+					/>
+				</div>
+
+				{/* Tiers by monthly volume */}
+				<div className="space-y-2">
+					{formData.tiers.map((tier, index) => (
+						<div
+							key={tier.key}
+							className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end"
+						>
+							<Input
+								label="Volume mensal a partir de (R$)"
+								type="number"
+								min="0"
+								step="0.01"
+								value={tier.minVolume}
+								onChange={handleTierChange(index, 'minVolume')}
+							/>
+							<Input
+								label="Comissão da faixa (%)"
+								type="number"
+								min="0"
+								max="100"
+								step="0.01"
+								value={tier.rate}
+								onChange={handleTierChange(index, 'rate')}
+							/>
+							<button
+								type="button"
+								className="mb-2 text-red-600 hover:text-red-800"
+								title="Remover faixa"
+								onClick={() => handleRemoveTier(index)}
+							>
+								<X size={16} />
+							</button>
+						</div>
+					))}
+					<Button
+						type="button"
+						variant="secondary"
+						size="sm"
+						onClick={handleAddTier}
+					>
+						<Plus size={14} className="mr-1" />
+						Faixa por volume mensal
+					</Button>
+				</div>
+
+				<p className="text-sm text-gray-500">
+					Regras do vendedor têm prioridade sobre regras da categoria, que têm
+					prioridade sobre regras gerais.
+				</p>
+
+				<div className="flex justify-end space-x-3">
+					<Button type="button" variant="secondary" onClick={resetForm}>
+						{editingRule ? 'Cancelar Edição' : 'Limpar'}
+					</Button>
+					<Button type="submit" variant="primary" disabled={isLoading}>
+						{isLoading
+							? 'Salvando...'
+							: editingRule
+								? 'Salvar Regra'
+								: 'Cadastrar Regra'}
+					</Button>
+				</div>
+			</form>
+
+			{/* Delete Confirmation Dialog */}
+			<Modal
+				isOpen={!!ruleToDelete}
+				onClose={() => setRuleToDelete(null)}
+				title="Confirmar Exclusão"
+			>
+				<div className="space-y-4">
+					<p className="text-gray-700">
+						Tem certeza que deseja excluir a regra{' '}
+						<strong>{ruleToDelete?.name}</strong>?
+					</p>
+					<div className="flex justify-end space-x-3 pt-4">
+						<Button variant="secondary" onClick={() => setRuleToDelete(null)}>
+							Cancelar
+						</Button>
+						<Button
+							variant="danger"
+							onClick={handleDeleteConfirm}
+							disabled={isLoading}
+						>
+							Excluir
+						</Button>
+					</div>
+				</div>
+			</Modal>
+		</div>
+	);
+};
+
+export default CommissionRules;
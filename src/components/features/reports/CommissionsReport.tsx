@@ -0,0 +1,325 @@
+import type React from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { usePermissions } from '../../../hooks/usePermissions';
+import { reportsService } from '../../../services/reportsService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import { userService } from '../../../services/userService';
+import type { CommissionReportData, User } from '../../../types';
+import { formatCurrency } from '../../../utils';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+import Select, { type SelectOption } from '../../common/Select';
+import CommissionRules from './CommissionRules';
+
+const toDateInput = (date: Date): string => {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const formatDecimal = (value: number): string =>
+	value.toFixed(2).replace('.', ',');
+
+// Current month up to today, the period shown when the report opens
+const getCurrentMonthPeriod = () => {
+	const today = new Date();
+	return {
+		startDate: toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)),
+		endDate: toDateInput(today),
+	};
+};
+
+interface CommissionsReportFilters {
+	startDate: string;
+	endDate: string;
+	salespersonId: string;
+}
+
+/**
+ * CommissionsReport - Commission per salesperson over converted pre-sales
+ * Administrators also manage the commission rules used by the report
+ */
+const CommissionsReport: React.FC = () => {
+	const permissions = usePermissions();
+	const isAdmin = permissions.isAdmin();
+
+	const [startDate, setStartDate] = useState(
+		() => getCurrentMonthPeriod().startDate,
+	);
+	const [endDate, setEndDate] = useState(() => getCurrentMonthPeriod().endDate);
+	const [salespersonId, setSalespersonId] = useState('');
+	const [salespeople, setSalespeople] = useState<User[]>([]);
+	const [reportData, setReportData] = useState<CommissionReportData[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+
+	const dateError = useMemo(() => {
+		if (!startDate || !endDate) return 'Informe o período';
+		if (startDate > endDate)
+			return 'Data final deve ser maior ou igual à data inicial';
+		if (startDate > toDateInput(new Date()))
+			return 'Data inicial não pode ser no futuro';
+		return undefined;
+	}, [startDate, endDate]);
+
+	const loadReport = useCallback(async (filters: CommissionsReportFilters) => {
+		setIsLoading(true);
+		try {
+			const [startYear, startMonth, startDay] = filters.startDate
+				.split('-')
+				.map(Number);
+			const [endYear, endMonth, endDay] = filters.endDate
+				.split('-')
+				.map(Number);
+			const data = await reportsService.getCommissionsReport({
+				dateRange: {
+					startDate: new Date(startYear, startMonth - 1, startDay),
+					endDate: new Date(endYear, endMonth - 1, endDay, 23, 59, 59, 999),
+				},
+				salespersonId: filters.salespersonId || undefined,
+			});
+			setReportData(data);
+		} catch (error) {
+			console.error('Error loading commissions report:', error);
+			toastService.error(
+				error instanceof Error && error.message
+					? error.message
+					: TOAST_MESSAGES.commission.loadError,
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	}, []);
+
+	const fetchReport = useCallback(() => {
+		if (dateError) return;
+		loadReport({ startDate, endDate, salespersonId });
+	}, [dateError, startDate, endDate, salespersonId, loadReport]);
+
+	// Load the report for the current month on mount, later periods are loaded on demand
+	useEffect(() => {
+		loadReport({ ...getCurrentMonthPeriod(), salespersonId: '' });
+	}, [loadReport]);
+
+	// Salespeople are listed for administrators, other users only see their own commission
+	useEffect(() => {
+		if (!isAdmin) return;
+
+		userService
+			.getAllUsers()
+			.then(setSalespeople)
+			.catch((error) => console.error('Error loading salespeople:', error));
+	}, [isAdmin]);
+
+	const salespersonOptions: SelectOption[] = useMemo(
+		() => [
+			{ value: '', label: 'Todos os vendedores' },
+			...salespeople.map((user) => ({ value: user.id, label: user.name })),
+		],
+		[salespeople],
+	);
+
+	const totals = useMemo(
+		() =>
+			reportData.reduce(
+				(acc, row) => ({
+					salesCount: acc.salesCount + row.salesCount,
+					totalAmount: acc.totalAmount + row.totalAmount,
+					commissionAmount: acc.commissionAmount + row.commissionAmount,
+				}),
+				{ salesCount: 0, totalAmount: 0, commissionAmount: 0 },
+			),
+		[reportData],
+	);
+
+	// Export data to CSV
+	const handleExportCSV = () => {
+		if (reportData.length === 0) return;
+
+		try {
+			const headers = [
+				'Vendedor',
+				'Vendas Convertidas',
+				'Total Convertido (R$)',
+				'Comissão (R$)',
+				'Taxa Média (%)',
+			];
+
+			const rows = reportData.map((row) => [
+				row.salesperson.name,
+				row.salesCount.toString(),
+				formatDecimal(row.totalAmount),
+				formatDecimal(row.commissionAmount),
+				formatDecimal(row.averageRate),
+			]);
+
+			const csvContent = [
+				headers.join(';'),
+				...rows.map((row) => row.join(';')),
+				[
+					'Total',
+					totals.salesCount.toString(),
+					formatDecimal(totals.totalAmount),
+					formatDecimal(totals.commissionAmount),
+					'',
+				].join(';'),
+			].join('\n');
+
+			// Add BOM for proper UTF-8 encoding in Excel
+			const BOM = '\uFEFF';
+			const blob = new Blob([BOM + csvContent], {
+				type: 'text/csv;charset=utf-8;',
+			});
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement('a');
+			link.setAttribute('href', url);
+			link.setAttribute(
+				'download',
+				`relatorio-comissoes_periodo-${startDate}-a-${endDate}.csv`,
+			);
+			link.style.visibility = 'hidden';
+			document.body.appendChild(link);
+			link.click();
+			document.body.removeChild(link);
+			URL.revokeObjectURL(url);
+
+			toastService.success(TOAST_MESSAGES.commission.reportExported);
+		} catch (error) {
+			console.error('Error exporting commissions CSV:', error);
+			toastService.error(TOAST_MESSAGES.commission.exportError);
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			{/* Filters */}
+			<div className="bg-white rounded-lg border border-gray-200 p-6">
+				<div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+					<Input
+						type="date"
+						label="Data Inicial"
+						value={startDate}
+						onChange={setStartDate}
+						error={dateError}
+						required
+						disabled={isLoading}
+					/>
+					<Input
+						type="date"
+						label="Data Final"
+						value={endDate}
+						onChange={setEndDate}
+						required
+						disabled={isLoading}
+					/>
+					{isAdmin && (
+						<Select
+							label="Vendedor"
+							value={salespersonId}
+							onChange={setSalespersonId}
+							options={salespersonOptions}
+							disabled={isLoading}
+						/>
+					)}
+					<div className="flex space-x-3">
+						<Button
+							variant="primary"
+							onClick={fetchReport}
+							disabled={!!dateError || isLoading}
+							loading={isLoading}
+						>
+							Aplicar Filtros
+						</Button>
+						<Button
+							variant="secondary"
+							onClick={handleExportCSV}
+							disabled={reportData.length === 0 || isLoading}
+						>
+							CSV
+						</Button>
+					</div>
+				</div>
+				<p className="mt-4 text-sm text-gray-500">
+					Comissões calculadas sobre o total das pré-vendas convertidas. Faixas
+					por volume consideram o total convertido pelo vendedor no mês.
+				</p>
+			</div>
+
+			{/* Report Table */}
+			<div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+				<table className="min-w-full divide-y divide-gray-200">
+					<thead className="bg-gray-50">
+						<tr>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Vendedor
+							</th>
+							<th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Vendas
+							</th>
+							<th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Total Convertido
+							</th>
+							<th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Comissão
+							</th>
+							<th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Taxa Média
+							</th>
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-gray-200">
+						{reportData.map((row) => (
+							<tr key={row.salesperson.id}>
+								<td className="px-4 py-2 text-sm font-medium text-gray-900">
+									{row.salesperson.name}
+								</td>
+								<td className="px-4 py-2 text-sm text-right text-gray-700">
+									{row.salesCount}
+								</td>
+								<td className="px-4 py-2 text-sm text-right text-gray-700">
+									{formatCurrency(row.totalAmount)}
+								</td>
+								<td className="px-4 py-2 text-sm text-right font-semibold text-green-700">
+									{formatCurrency(row.commissionAmount)}
+								</td>
+								<td className="px-4 py-2 text-sm text-right text-gray-700">
+									{formatDecimal(row.averageRate)}%
+								</td>
+							</tr>
+						))}
+					</tbody>
+					{reportData.length > 0 && (
+						<tfoot className="bg-gray-50">
+							<tr>
+								<td className="px-4 py-2 text-sm font-semibold text-gray-900">
+									Total
+								</td>
+								<td className="px-4 py-2 text-sm text-right font-semibold text-gray-900">
+									{totals.salesCount}
+								</td>
+								<td className="px-4 py-2 text-sm text-right font-semibold text-gray-900">
+									{formatCurrency(totals.totalAmount)}
+								</td>
+								<td className="px-4 py-2 text-sm text-right font-semibold text-green-700">
+									{formatCurrency(totals.commissionAmount)}
+								</td>
+								<td />
+							</tr>
+						</tfoot>
+					)}
+				</table>
+
+				{reportData.length === 0 && !isLoading && (
+					<div className="text-center py-8">
+						<p className="text-gray-500">
+							Nenhuma venda convertida no período.
+						</p>
+					</div>
+				)}
+			</div>
+
+			{isAdmin && <CommissionRules salespeople={salespeople} />}
+		</div>
+	);
+};
+
+export default CommissionsReport;
@@ -1,7 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { usePermissions } from '../../../hooks/usePermissions';
 import Breadcrumb from '../../common/Breadcrumb';
 import ErrorBoundary from '../../common/ErrorBoundary';
+import CommissionsReport from './CommissionsReport';
 import PaymentMethodsReport from './PaymentMethodsReport';
 import ReportsPermissionCheck from './ReportsPermissionCheck';
 
@@ -9,13 +10,38 @@ interface ReportsPageProps {
 	className?: string;
 }
 
+type ReportTab = 'payment-methods' | 'commissions';
+
+const reportTabs: {
+	id: ReportTab;
+	label: string;
+	title: string;
+	description: string;
+}[] = [
+	{
+		id: 'payment-methods',
+		label: 'Formas de Pagamento',
+		title: 'Relatório de Formas de Pagamento',
+		description: 'Análise de vendas por finalizadora',
+	},
+	{
+		id: 'commissions',
+		label: 'Comissões',
+		title: 'Relatório de Comissões',
+		description: 'Comissões por vendedor sobre pré-vendas convertidas',
+	},
+];
+
 /**
- * ReportsPage - Simplified container component for payment methods report
- * Directly displays the payment methods report without navigation or report type selection
+ * ReportsPage - Container component for the reports
+ * Switches between the payment methods and commissions reports
  */
 const ReportsPage: React.FC<ReportsPageProps> = React.memo(
 	({ className = '' }) => {
 		const permissions = usePermissions();
+		const [activeTab, setActiveTab] = useState<ReportTab>('payment-methods');
+		const currentTab =
+			reportTabs.find((tab) => tab.id === activeTab) || reportTabs[0];
 
 		// Check if user has permission to access reports
 		const canAccessReports = permissions.canAccessReports();
@@ -25,7 +51,7 @@ const ReportsPage: React.FC<ReportsPageProps> = React.memo(
 			return <ReportsPermissionCheck />;
 		}
 
-		// Main reports page content - directly render payment methods report
+		// Main reports page content
 		return (
 			<ErrorBoundary
 				fallback={
@@ -58,15 +84,38 @@ const ReportsPage: React.FC<ReportsPageProps> = React.memo(
 						{/* Page Header */}
 						<div className="mb-6 sm:mb-8">
 							<h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
-								Relatório de Formas de Pagamento
+								{currentTab.title}
 							</h1>
 							<p className="mt-1 sm:mt-2 text-sm sm:text-base text-gray-600">
-								Análise de vendas por finalizadora
+								{currentTab.description}
 							</p>
 						</div>
 
-						{/* Payment Methods Report */}
-						<PaymentMethodsReport />
+						{/* Report Tabs */}
+						<div className="mb-6 border-b border-gray-200">
+							<nav className="-mb-px flex space-x-8" aria-label="Tabs">
+								{reportTabs.map((tab) => (
+									<button
+										key={tab.id}
+										type="button"
+										onClick={() => setActiveTab(tab.id)}
+										className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm ${
+											activeTab === tab.id
+												? 'border-blue-500 text-blue-600'
+												: 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+										}`}
+									>
+										{tab.label}
+									</button>
+								))}
+							</nav>
+						</div>
+
+						{activeTab === 'payment-methods' ? (
+							<PaymentMethodsReport />
+						) : (
+							<CommissionsReport />
+						)}
 					</div>
 				</div>
 			</ErrorBoundary>
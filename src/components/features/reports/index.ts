@@ -1,3 +1,5 @@
+export { default as CommissionRules } from './CommissionRules';
+export { default as CommissionsReport } from './CommissionsReport';
 export { default as PaymentMethodsReport } from './PaymentMethodsReport';
 export { default as ReportFilters } from './ReportFilters';
 export { default as ReportSummary } from './ReportSummary';
@@ -0,0 +1,472 @@
+import type React from 'react';
+import { useEffect, useId, useState } from 'react';
+import { useAuth } from '../../../context/AuthContext';
+import { settingsService } from '../../../services/settingsService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type { SystemSettings } from '../../../types';
+import type { UpdateSystemSettingsRequest } from '../../../types/api';
+import { formatCNPJ, validateCNPJ } from '../../../utils';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+
+interface SettingsFormData {
+	companyName: string;
+	companyCnpj: string;
+	companyAddress: string;
+	companyLogo: string;
+	defaultMarkup: string;
+	lowStockThreshold: string;
+	productCodePrefix: string;
+	paymentMethodCodePrefix: string;
+	quoteValidityDays: string;
+	quoteTerms: string;
+	employeeDiscountLimit: string;
+	managerDiscountLimit: string;
+}
+
+const emptyFormData: SettingsFormData = {
+	companyName: '',
+	companyCnpj: '',
+	companyAddress: '',
+	companyLogo: '',
+	defaultMarkup: '',
+	lowStockThreshold: '',
+	productCodePrefix: '',
+	paymentMethodCodePrefix: '',
+	quoteValidityDays: '',
+	quoteTerms: '',
+	employeeDiscountLimit: '',
+	managerDiscountLimit: '',
+};
+
+const MAX_LOGO_SIZE = 500 * 1024;
+const LOGO_TYPES = ['image/png', 'image/jpeg'];
+
+const toFormData = (settings: SystemSettings): SettingsFormData => ({
+	companyName: settings.companyName ?? '',
+	companyCnpj: settings.companyCnpj ?? '',
+	companyAddress: settings.companyAddress ?? '',
+	companyLogo: settings.companyLogo ?? '',
+	defaultMarkup: Number(settings.defaultMarkup).toString(),
+	lowStockThreshold: Number(settings.lowStockThreshold).toString(),
+	productCodePrefix: settings.productCodePrefix,
+	paymentMethodCodePrefix: settings.paymentMethodCodePrefix,
+	quoteValidityDays: settings.quoteValidityDays.toString(),
+	quoteTerms: settings.quoteTerms ?? '',
+	employeeDiscountLimit: Number(settings.employeeDiscountLimit).toString(),
+	managerDiscountLimit: Number(settings.managerDiscountLimit).toString(),
+});
+
+const isValidPrefix = (prefix: string): boolean =>
+	/^[A-Z]{1,10}$/.test(prefix.trim().toUpperCase());
+
+const isValidNumber = (value: string): boolean =>
+	value.trim() !== '' && Number(value) >= 0;
+
+const isValidQuoteValidity = (value: string): boolean =>
+	Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= 365;
+
+const isValidDiscountLimit = (value: string): boolean =>
+	isValidNumber(value) && Number(value) <= 100;
+
+const SettingsPage: React.FC = () => {
+	const { isAdmin } = useAuth();
+	const [formData, setFormData] = useState<SettingsFormData>(emptyFormData);
+	const [savedSettings, setSavedSettings] = useState<SystemSettings | null>(
+		null,
+	);
+	const [isLoading, setIsLoading] = useState(false);
+	const quoteTermsId = useId();
+
+	// Load settings on component mount
+	useEffect(() => {
+		const loadSettings = async () => {
+			setIsLoading(true);
+			try {
+				const settings = await settingsService.getSettings();
+				setSavedSettings(settings);
+				setFormData(toFormData(settings));
+			} catch (error) {
+				console.error('Error loading settings:', error);
+				toastService.error(TOAST_MESSAGES.settings.loadError);
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		loadSettings();
+	}, []);
+
+	const handleInputChange =
+		(field: keyof SettingsFormData) => (value: string) => {
+			setFormData((prev) => ({ ...prev, [field]: value }));
+		};
+
+	const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = '';
+		if (!file) return;
+
+		if (!LOGO_TYPES.includes(file.type) || file.size > MAX_LOGO_SIZE) {
+			toastService.error(TOAST_MESSAGES.settings.invalidLogo);
+			return;
+		}
+
+		const reader = new FileReader();
+		reader.onload = () => {
+			if (typeof reader.result === 'string') {
+				handleInputChange('companyLogo')(reader.result);
+			}
+		};
+		reader.readAsDataURL(file);
+	};
+
+	const handleReset = () => {
+		setFormData(savedSettings ? toFormData(savedSettings) : emptyFormData);
+	};
+
+	const buildRequest = (): UpdateSystemSettingsRequest => ({
+		companyName: formData.companyName.trim() || null,
+		companyCnpj: formData.companyCnpj.trim() || null,
+		companyAddress: formData.companyAddress.trim() || null,
+		companyLogo: formData.companyLogo || null,
+		defaultMarkup: Number(formData.defaultMarkup),
+		lowStockThreshold: Number(formData.lowStockThreshold),
+		productCodePrefix: formData.productCodePrefix.trim().toUpperCase(),
+		paymentMethodCodePrefix: formData.paymentMethodCodePrefix
+			.trim()
+			.toUpperCase(),
+		quoteValidityDays: Number(formData.quoteValidityDays),
+		quoteTerms: formData.quoteTerms.trim() || null,
+		employeeDiscountLimit: Number(formData.employeeDiscountLimit),
+		managerDiscountLimit: Number(formData.managerDiscountLimit),
+	});
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (formData.companyCnpj.trim() && !validateCNPJ(formData.companyCnpj)) {
+			toastService.error(TOAST_MESSAGES.settings.invalidCnpj);
+			return;
+		}
+
+		if (
+			!isValidNumber(formData.defaultMarkup) ||
+			!isValidNumber(formData.lowStockThreshold)
+		) {
+			toastService.error(TOAST_MESSAGES.settings.invalidNumber);
+			return;
+		}
+
+		if (
+			!isValidPrefix(formData.productCodePrefix) ||
+			!isValidPrefix(formData.paymentMethodCodePrefix)
+		) {
+			toastService.error(TOAST_MESSAGES.settings.invalidPrefix);
+			return;
+		}
+
+		if (!isValidQuoteValidity(formData.quoteValidityDays)) {
+			toastService.error(TOAST_MESSAGES.settings.invalidQuoteValidity);
+			return;
+		}
+
+		if (
+			!isValidDiscountLimit(formData.employeeDiscountLimit) ||
+			!isValidDiscountLimit(formData.managerDiscountLimit) ||
+			Number(formData.managerDiscountLimit) <
+				Number(formData.employeeDiscountLimit)
+		) {
+			toastService.error(TOAST_MESSAGES.settings.invalidDiscountLimits);
+			return;
+		}
+
+		setIsLoading(true);
+		try {
+			const settings = await settingsService.updateSettings(buildRequest());
+			setSavedSettings(settings);
+			setFormData(toFormData(settings));
+			toastService.success(TOAST_MESSAGES.settings.updated);
+		} catch (error) {
+			console.error('Error saving settings:', error);
+			toastService.error(
+				error instanceof Error ? error.message : TOAST_MESSAGES.generic.error,
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const isReadOnly = !isAdmin || isLoading;
+
+	return (
+		<div className="p-6">
+			<h1 className="text-2xl font-bold text-gray-900 mb-6">Configurações</h1>
+
+			{!isAdmin && (
+				<div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg px-4 py-3 text-sm text-blue-800">
+					Somente administradores podem alterar as configurações.
+				</div>
+			)}
+
+			<form onSubmit={handleSubmit} className="space-y-8">
+				{/* Company Profile */}
+				<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+					<h2 className="text-lg font-medium text-gray-900 mb-4">
+						Dados da Empresa
+					</h2>
+					<div className="space-y-6">
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<Input
+								label="Nome da Empresa"
+								value={formData.companyName}
+								onChange={handleInputChange('companyName')}
+								placeholder="Ex.: Flow Comércio Ltda."
+								maxLength={255}
+								disabled={isReadOnly}
+							/>
+							<Input
+								label="CNPJ"
+								value={formData.companyCnpj}
+								onChange={handleInputChange('companyCnpj')}
+								onBlur={() =>
+									handleInputChange('companyCnpj')(
+										formatCNPJ(formData.companyCnpj),
+									)
+								}
+								placeholder="00.000.000/0000-00"
+								maxLength={18}
+								disabled={isReadOnly}
+							/>
+						</div>
+
+						<Input
+							label="Endereço"
+							value={formData.companyAddress}
+							onChange={handleInputChange('companyAddress')}
+							placeholder="Rua, número, bairro, cidade - UF"
+							maxLength={500}
+							disabled={isReadOnly}
+						/>
+
+						<div>
+							<span className="block text-sm font-medium text-gray-700 mb-1">
+								Logotipo
+							</span>
+							<div className="flex items-center space-x-4">
+								<div className="h-16 w-40 flex items-center justify-center border border-dashed border-gray-300 rounded-md bg-gray-50">
+									{formData.companyLogo ? (
+										<img
+											src={formData.companyLogo}
+											alt="Logotipo da empresa"
+											className="max-h-14 max-w-36 object-contain"
+										/>
+									) : (
+										<span className="text-xs text-gray-400">Sem logotipo</span>
+									)}
+								</div>
+								{isAdmin && (
+									<div className="flex items-center space-x-2">
+										<label className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+											Enviar imagem
+											<input
+												type="file"
+												accept={LOGO_TYPES.join(',')}
+												onChange={handleLogoChange}
+												disabled={isReadOnly}
+												className="hidden"
+											/>
+										</label>
+										{formData.companyLogo && (
+											<Button
+												type="button"
+												variant="secondary"
+												onClick={() => handleInputChange('companyLogo')('')}
+												disabled={isReadOnly}
+											>
+												Remover
+											</Button>
+										)}
+									</div>
+								)}
+							</div>
+							<p className="mt-2 text-sm text-gray-500">
+								O nome, o CNPJ, o endereço e o logotipo (PNG ou JPEG de até
+								500KB) aparecem no cabeçalho dos PDFs de pré-venda.
+							</p>
+						</div>
+					</div>
+				</div>
+
+				{/* System Preferences */}
+				<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+					<h2 className="text-lg font-medium text-gray-900 mb-4">
+						Preferências
+					</h2>
+					<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+						<Input
+							label="Markup Padrão (%)"
+							type="number"
+							min="0"
+							step="0.01"
+							value={formData.defaultMarkup}
+							onChange={handleInputChange('defaultMarkup')}
+							placeholder="50"
+							disabled={isReadOnly}
+							required
+						/>
+						<Input
+							label="Limite de Estoque Baixo"
+							type="number"
+							min="0"
+							step="0.001"
+							value={formData.lowStockThreshold}
+							onChange={handleInputChange('lowStockThreshold')}
+							placeholder="10"
+							disabled={isReadOnly}
+							required
+						/>
+					</div>
+					<p className="mt-4 text-sm text-gray-500">
+						O markup padrão é usado nas sugestões de preço de venda. Produtos
+						com estoque abaixo do limite aparecem nos alertas do dashboard.
+					</p>
+				</div>
+
+				{/* Code Prefixes */}
+				<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+					<h2 className="text-lg font-medium text-gray-900 mb-4">
+						Códigos Automáticos
+					</h2>
+					<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+						<Input
+							label="Prefixo de Produtos"
+							value={formData.productCodePrefix}
+							onChange={handleInputChange('productCodePrefix')}
+							placeholder="PROD"
+							maxLength={10}
+							disabled={isReadOnly}
+							required
+						/>
+						<Input
+							label="Prefixo de Formas de Pagamento"
+							value={formData.paymentMethodCodePrefix}
+							onChange={handleInputChange('paymentMethodCodePrefix')}
+							placeholder="PAG"
+							maxLength={10}
+							disabled={isReadOnly}
+							required
+						/>
+					</div>
+					<p className="mt-4 text-sm text-gray-500">
+						Os prefixos valem para os próximos códigos gerados. Códigos já
+						cadastrados não são alterados.
+					</p>
+				</div>
+
+				{/* Quotes */}
+				<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+					<h2 className="text-lg font-medium text-gray-900 mb-4">Orçamentos</h2>
+					<div className="space-y-6">
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<Input
+								label="Validade do Orçamento (dias)"
+								type="number"
+								min="1"
+								max="365"
+								step="1"
+								value={formData.quoteValidityDays}
+								onChange={handleInputChange('quoteValidityDays')}
+								placeholder="7"
+								disabled={isReadOnly}
+								required
+							/>
+						</div>
+						<div>
+							<label
+								htmlFor={quoteTermsId}
+								className="block text-sm font-medium text-gray-700 mb-1"
+							>
+								Condições Comerciais (Opcional)
+							</label>
+							<textarea
+								id={quoteTermsId}
+								value={formData.quoteTerms}
+								onChange={(e) =>
+									handleInputChange('quoteTerms')(e.target.value)
+								}
+								placeholder="Ex.: Entrega em até 5 dias úteis após a confirmação do pedido."
+								className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none disabled:bg-gray-50"
+								rows={4}
+								maxLength={2000}
+								disabled={isReadOnly}
+							/>
+						</div>
+					</div>
+					<p className="mt-4 text-sm text-gray-500">
+						A validade e as condições comerciais são impressas no PDF do
+						orçamento, acima do campo de assinatura.
+					</p>
+				</div>
+
+				{/* Discount Limits */}
+				<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+					<h2 className="text-lg font-medium text-gray-900 mb-4">
+						Limites de Desconto
+					</h2>
+					<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+						<Input
+							label="Funcionário (%)"
+							type="number"
+							min="0"
+							max="100"
+							step="0.01"
+							value={formData.employeeDiscountLimit}
+							onChange={handleInputChange('employeeDiscountLimit')}
+							placeholder="10"
+							disabled={isReadOnly}
+							required
+						/>
+						<Input
+							label="Gerente (%)"
+							type="number"
+							min="0"
+							max="100"
+							step="0.01"
+							value={formData.managerDiscountLimit}
+							onChange={handleInputChange('managerDiscountLimit')}
+							placeholder="20"
+							disabled={isReadOnly}
+							required
+						/>
+					</div>
+					<p className="mt-4 text-sm text-gray-500">
+						Pré-vendas com desconto acima do limite do vendedor aguardam a
+						aprovação de um gerente ou administrador antes de serem convertidas.
+						Gerentes aprovam até o próprio limite; administradores não têm
+						limite.
+					</p>
+				</div>
+
+				{/* Action Buttons */}
+				{isAdmin && (
+					<div className="flex justify-end space-x-3">
+						<Button
+							type="button"
+							variant="secondary"
+							onClick={handleReset}
+							disabled={isLoading}
+						>
+							Descartar Alterações
+						</Button>
+						<Button type="submit" variant="primary" disabled={isLoading}>
+							{isLoading ? 'Salvando...' : 'Salvar Configurações'}
+						</Button>
+					</div>
+				)}
+			</form>
+		</div>
+	);
+};
+
+export default SettingsPage;
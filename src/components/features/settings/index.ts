@@ -0,0 +1 @@
+export { default as SettingsPage } from './SettingsPage';
@@ -0,0 +1,235 @@
+import { History, X } from 'lucide-react';
+import type React from 'react';
+import { useCallback, useEffect, useId, useState } from 'react';
+import toastService, {
+	TOAST_MESSAGES,
+} from '../../../../services/ToastService';
+import type {
+	AuditFieldChange,
+	AuditHistoryEntry,
+	PaginatedResponse,
+} from '../../../../types/api';
+import Button from '../../../common/Button';
+
+interface HistoryDrawerProps {
+	isOpen: boolean;
+	onClose: () => void;
+	title: string;
+	// Memoize it, the history is loaded again whenever it changes
+	loadHistory: (page: number) => Promise<PaginatedResponse<AuditHistoryEntry>>;
+}
+
+// Fields of products, customers and pre-sales as stored in the audit trail
+const FIELD_LABELS: Record<string, string> = {
+	code: 'Código',
+	name: 'Nome',
+	description: 'Descrição',
+	category: 'Categoria',
+	unit: 'Unidade',
+	saleType: 'Tipo de Venda',
+	stock: 'Estoque',
+	purchasePrice: 'Preço de Custo',
+	salePrice: 'Preço de Venda',
+	ncm: 'NCM',
+	icmsRate: 'ICMS',
+	ipiRate: 'IPI',
+	pisRate: 'PIS',
+	cofinsRate: 'COFINS',
+	email: 'E-mail',
+	phone: 'Telefone',
+	cpf: 'CPF/CNPJ',
+	documentType: 'Tipo de Documento',
+	companyName: 'Razão Social',
+	stateRegistration: 'Inscrição Estadual',
+	address: 'Endereço',
+	state: 'UF',
+	tier: 'Nível',
+	discountRate: 'Desconto do Cliente',
+	customer: 'Cliente',
+	salesperson: 'Vendedor',
+	status: 'Status',
+	discount: 'Desconto',
+	discountType: 'Tipo de Desconto',
+	discountPercentage: 'Desconto (%)',
+	total: 'Total',
+	notes: 'Observações',
+	validUntil: 'Válido até',
+	items: 'Itens',
+};
+
+const ACTION_BADGES: Record<string, { label: string; className: string }> = {
+	create: { label: 'Criado', className: 'bg-green-100 text-green-800' },
+	update: { label: 'Alterado', className: 'bg-blue-100 text-blue-800' },
+	delete: { label: 'Excluído', className: 'bg-red-100 text-red-800' },
+};
+
+const formatValue = (value: AuditFieldChange['from']): string => {
+	if (value === null || value === '') return '-';
+	if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+	return String(value);
+};
+
+/**
+ * HistoryDrawer - Side panel listing the audit trail of a record, newest first
+ * Each entry shows who changed the record and the old and new value of every changed field.
+ */
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({
+	isOpen,
+	onClose,
+	title,
+	loadHistory,
+}) => {
+	const [entries, setEntries] = useState<AuditHistoryEntry[]>([]);
+	const [page, setPage] = useState(1);
+	const [hasNext, setHasNext] = useState(false);
+	const [isLoading, setIsLoading] = useState(false);
+	const titleId = useId();
+
+	const loadPage = useCallback(
+		async (nextPage: number) => {
+			setIsLoading(true);
+			try {
+				const response = await loadHistory(nextPage);
+				setEntries((current) =>
+					nextPage === 1 ? response.data : [...current, ...response.data],
+				);
+				setPage(nextPage);
+				setHasNext(response.pagination.hasNext);
+			} catch (error) {
+				console.error('Error loading history:', error);
+				toastService.error(TOAST_MESSAGES.audit.historyLoadError);
+			} finally {
+				setIsLoading(false);
+			}
+		},
+		[loadHistory],
+	);
+
+	// Start from the first page every time the drawer opens
+	useEffect(() => {
+		if (isOpen) {
+			setEntries([]);
+			loadPage(1);
+		}
+	}, [isOpen, loadPage]);
+
+	useEffect(() => {
+		const handleEscape = (event: KeyboardEvent) => {
+			if (event.key === 'Escape') {
+				onClose();
+			}
+		};
+
+		if (isOpen) {
+			document.addEventListener('keydown', handleEscape);
+		}
+
+		return () => {
+			document.removeEventListener('keydown', handleEscape);
+		};
+	}, [isOpen, onClose]);
+
+	if (!isOpen) {
+		return null;
+	}
+
+	return (
+		<div
+			className="fixed inset-0 z-[9999] flex justify-end"
+			aria-labelledby={titleId}
+			role="dialog"
+			aria-modal="true"
+		>
+			{/* Background overlay */}
+			<div
+				className="fixed inset-0 bg-black bg-opacity-50 cursor-pointer"
+				aria-hidden="true"
+				onClick={onClose}
+			/>
+
+			{/* Drawer panel */}
+			<div className="relative bg-white shadow-xl w-full max-w-md h-full flex flex-col">
+				<div className="flex items-center justify-between p-4 border-b border-gray-200">
+					<h3
+						className="flex items-center text-lg font-medium text-gray-900"
+						id={titleId}
+					>
+						<History className="h-5 w-5 mr-2 text-gray-500" />
+						{title}
+					</h3>
+					<button
+						type="button"
+						className="rounded-md text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+						onClick={onClose}
+						aria-label="Fechar histórico"
+					>
+						<X className="h-6 w-6" />
+					</button>
+				</div>
+
+				<div className="flex-1 overflow-y-auto p-4 space-y-3">
+					{isLoading && entries.length === 0 ? (
+						<p className="text-sm text-gray-500">Carregando histórico...</p>
+					) : entries.length === 0 ? (
+						<p className="text-sm text-gray-500">
+							Nenhuma alteração registrada.
+						</p>
+					) : (
+						entries.map((entry) => {
+							const badge = ACTION_BADGES[entry.action] ?? {
+								label: entry.action,
+								className: 'bg-gray-100 text-gray-600',
+							};
+							return (
+								<div
+									key={entry.id}
+									className="border border-gray-200 rounded-lg p-3 space-y-2"
+								>
+									<div className="flex items-center justify-between text-xs text-gray-500">
+										<span>
+											{new Date(entry.createdAt).toLocaleString('pt-BR')} •{' '}
+											{entry.userName}
+										</span>
+										<span
+											className={`px-2 py-0.5 rounded-full ${badge.className}`}
+										>
+											{badge.label}
+										</span>
+									</div>
+									<p className="text-sm text-gray-900">{entry.summary}</p>
+									{entry.action === 'update' && entry.changes.length > 0 && (
+										<ul className="text-xs text-gray-600 space-y-1">
+											{entry.changes.map((change) => (
+												<li key={change.field}>
+													<span className="font-medium text-gray-700">
+														{FIELD_LABELS[change.field] || change.field}:
+													</span>{' '}
+													{formatValue(change.from)} → {formatValue(change.to)}
+												</li>
+											))}
+										</ul>
+									)}
+								</div>
+							);
+						})
+					)}
+
+					{hasNext && (
+						<div className="flex justify-center">
+							<Button
+								variant="secondary"
+								size="sm"
+								onClick={() => loadPage(page + 1)}
+								loading={isLoading}
+							>
+								Carregar mais
+							</Button>
+						</div>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default HistoryDrawer;
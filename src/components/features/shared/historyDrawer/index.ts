@@ -0,0 +1 @@
+export { default as HistoryDrawer } from './HistoryDrawer';
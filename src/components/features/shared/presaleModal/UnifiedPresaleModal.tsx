@@ -1,7 +1,9 @@
-import { Package, Plus, Search, User, X } from 'lucide-react';
+import { Package, Plus, Search, ShieldAlert, User, X } from 'lucide-react';
 import type React from 'react';
 import { useEffect, useId, useMemo, useState } from 'react';
 import paymentMethodService from '@/services/paymentMethodService';
+import { useAuth } from '../../../../context/AuthContext';
+import { useSettings } from '../../../../hooks/useSettings';
 import toastService from '../../../../services/ToastService';
 import type {
 	Customer,
@@ -10,15 +12,31 @@ import type {
 	PreSaleItem,
 	Product,
 } from '../../../../types';
+import { formatQuantity, roundQuantity } from '../../../../utils';
 import Button from '../../../common/Button';
 import InPageModal from '../../../common/InPageModal';
 import Select from '../../../common/Select';
 
+// Local calendar day as YYYY-MM-DD, the format of date inputs
+const toDateInputValue = (date: Date) => {
+	const year = date.getFullYear();
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${year}-${month}-${day}`;
+};
+
+// Quote validity of a new pre-sale, counted from today
+const getDefaultValidUntil = (validityDays: number) => {
+	const date = new Date();
+	date.setDate(date.getDate() + validityDays);
+	return toDateInputValue(date);
+};
+
 interface UnifiedPresaleModalProps {
 	isOpen: boolean;
 	onClose: () => void;
 	onSubmit: (
-		presaleData: Omit<PreSale, 'id' | 'createdAt' | 'updatedAt'>,
+		presaleData: Omit<PreSale, 'id' | 'number' | 'createdAt' | 'updatedAt'>,
 	) => void;
 	customers: Customer[];
 	products: Product[];
@@ -36,6 +54,8 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 	title = 'Nova Pré-venda',
 }) => {
 	const formId = useId();
+	const { settings } = useSettings();
+	const { isAdmin, isManager } = useAuth();
 	const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
 
 	// Form state
@@ -45,6 +65,7 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 		notes: '',
 		discount: '',
 		discountType: 'percentage' as 'percentage' | 'fixed',
+		validUntil: '',
 	});
 
 	const [formItems, setFormItems] = useState<
@@ -90,6 +111,7 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 				notes: editingPresale.notes || '',
 				discount: editingPresale.discount?.toString() || '',
 				discountType: editingPresale.discountType || 'percentage',
+				validUntil: editingPresale.validUntil,
 			});
 
 			setCustomerSearchTerm(editingPresale.customer.name);
@@ -105,6 +127,20 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 		}
 	}, [editingPresale]);
 
+	// New pre-sales start with the validity from the settings
+	useEffect(() => {
+		if (isOpen && !editingPresale) {
+			setFormData((prev) =>
+				prev.validUntil
+					? prev
+					: {
+							...prev,
+							validUntil: getDefaultValidUntil(settings.quoteValidityDays),
+						},
+			);
+		}
+	}, [isOpen, editingPresale, settings.quoteValidityDays]);
+
 	// Select options - only show active payment methods
 	const paymentMethodOptions = (paymentMethods || [])
 		.filter((method) => method?.isActive)
@@ -144,6 +180,18 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 				?.includes(newItemForm.productDescription.toLowerCase()),
 	);
 
+	// Available = stock minus units reserved by approved pre-sales. The units an
+	// approved pre-sale being edited already holds stay available to it
+	const getAvailableStock = (product: Product): number => {
+		const available = product.availableStock ?? product.stock;
+		if (editingPresale?.status !== 'approved') return available;
+
+		const ownReserved = editingPresale.items
+			.filter((item) => item.product.id === product.id)
+			.reduce((sum, item) => sum + Number(item.quantity), 0);
+		return roundQuantity(available + ownReserved);
+	};
+
 	const handleInputChange = (field: string) => (value: string) => {
 		setFormData((prev) => ({ ...prev, [field]: value }));
 	};
@@ -287,6 +335,17 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 			(item) => item.product.id === selectedProduct.id,
 		);
 
+		const requestedQuantity =
+			newItemForm.quantity +
+			(existingItemIndex >= 0 ? formItems[existingItemIndex].quantity : 0);
+		const availableStock = getAvailableStock(selectedProduct);
+		if (requestedQuantity > availableStock) {
+			toastService.error(
+				`Estoque disponível insuficiente para "${selectedProduct.name}". Disponível: ${formatQuantity(availableStock, selectedProduct)}`,
+			);
+			return;
+		}
+
 		if (existingItemIndex >= 0) {
 			// If product already exists, update quantity and price
 			setFormItems((prev) =>
@@ -345,6 +404,25 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 		return itemsTotal - discountAmount;
 	};
 
+	// Discount of the whole pre-sale in percent, checked against the limit of the user's role
+	const calculateDiscountPercentage = () => {
+		const itemsTotal = formItems.reduce(
+			(sum, item) => sum + calculateItemTotal(item.quantity, item.unitPrice),
+			0,
+		);
+		if (itemsTotal <= 0) return 0;
+		return ((itemsTotal - calculateFormTotal()) / itemsTotal) * 100;
+	};
+
+	// Admins have no discount limit
+	const discountLimit = isAdmin
+		? null
+		: isManager
+			? settings.managerDiscountLimit
+			: settings.employeeDiscountLimit;
+	const isDiscountAboveLimit =
+		discountLimit !== null && calculateDiscountPercentage() > discountLimit;
+
 	const resetForm = () => {
 		setFormData({
 			customerId: '',
@@ -352,6 +430,7 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 			notes: '',
 			discount: '',
 			discountType: 'percentage',
+			validUntil: '',
 		});
 		setFormItems([]);
 		setNewItemForm({
@@ -384,12 +463,24 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 			return;
 		}
 
+		if (
+			formData.validUntil !== editingPresale?.validUntil &&
+			(!formData.validUntil ||
+				formData.validUntil < toDateInputValue(new Date()))
+		) {
+			toastService.error('Informe uma validade a partir de hoje!');
+			return;
+		}
+
 		const selectedCustomer = customers?.find(
 			(c) => c.id === formData.customerId,
 		);
 		if (!selectedCustomer) return;
 
-		const presaleData: Omit<PreSale, 'id' | 'createdAt' | 'updatedAt'> = {
+		const presaleData: Omit<
+			PreSale,
+			'id' | 'number' | 'createdAt' | 'updatedAt'
+		> = {
 			customer: {
 				...selectedCustomer,
 				createdAt:
@@ -426,6 +517,7 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 			discount: Number(formData.discount) || undefined,
 			discountType: formData.discountType,
 			paymentMethodId: formData.paymentMethodId,
+			validUntil: formData.validUntil,
 			salesperson: editingPresale ? editingPresale.salesperson : 'Current User',
 		};
 
@@ -561,7 +653,11 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 																: '0.00'}
 														</p>
 														<p className="text-xs text-gray-500">
-															Estoque: {product.stock}
+															Disponível:{' '}
+															{formatQuantity(
+																getAvailableStock(product),
+																product,
+															)}
 														</p>
 													</div>
 												</button>
@@ -723,7 +819,7 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 
 					{/* Desconto e Observações */}
 					{formItems.length > 0 && (
-						<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+						<div className="grid grid-cols-1 md:grid-cols-4 gap-4">
 							<div>
 								<label className="block text-sm font-medium text-gray-700 mb-1">
 									Desconto
@@ -763,6 +859,25 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 									className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
 								/>
 							</div>
+
+							<div>
+								<label
+									htmlFor={`${formId}-valid-until`}
+									className="block text-sm font-medium text-gray-700 mb-1"
+								>
+									Válido até
+								</label>
+								<input
+									id={`${formId}-valid-until`}
+									type="date"
+									value={formData.validUntil}
+									min={toDateInputValue(new Date())}
+									onChange={(e) =>
+										handleInputChange('validUntil')(e.target.value)
+									}
+									className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+								/>
+							</div>
 						</div>
 					)}
 
@@ -796,6 +911,18 @@ const UnifiedPresaleModal: React.FC<UnifiedPresaleModalProps> = ({
 						</div>
 					)}
 
+					{isDiscountAboveLimit && (
+						<div className="flex items-start gap-2 bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 text-sm text-amber-800">
+							<ShieldAlert className="h-5 w-5 flex-shrink-0" />
+							<span>
+								O desconto de {calculateDiscountPercentage().toFixed(2)}% está
+								acima do seu limite de {discountLimit}%. A pré-venda ficará
+								aguardando a aprovação de um gerente antes de poder ser
+								convertida.
+							</span>
+						</div>
+					)}
+
 					{/* Actions */}
 					<div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
 						<Button
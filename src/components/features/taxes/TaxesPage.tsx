@@ -0,0 +1,584 @@
+import { SquarePen, Trash2 } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { taxService } from '../../../services/taxService';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
+import type { NcmTaxRate } from '../../../types';
+import type { CreateNcmTaxRateRequest } from '../../../types/api';
+import { BRAZILIAN_STATES, formatNcm } from '../../../utils';
+import Button from '../../common/Button';
+import Input from '../../common/Input';
+import Modal from '../../common/Modal';
+
+type TabType = 'list' | 'register' | 'states';
+
+interface ConfirmationDialogState {
+	isOpen: boolean;
+	ncmRate: NcmTaxRate | null;
+}
+
+interface NcmFormData {
+	ncm: string;
+	description: string;
+	icmsRate: string;
+	ipiRate: string;
+	pisRate: string;
+	cofinsRate: string;
+}
+
+const emptyFormData: NcmFormData = {
+	ncm: '',
+	description: '',
+	icmsRate: '',
+	ipiRate: '',
+	pisRate: '',
+	cofinsRate: '',
+};
+
+const isValidRate = (rate: string): boolean =>
+	rate === '' || (Number(rate) >= 0 && Number(rate) <= 100);
+
+const describeRate = (rate: string | null | undefined): string =>
+	rate ? `${Number(rate)}%` : '-';
+
+const TaxesPage: React.FC = () => {
+	const [activeTab, setActiveTab] = useState<TabType>('list');
+	const [ncmRates, setNcmRates] = useState<NcmTaxRate[]>([]);
+	const [stateRates, setStateRates] = useState<Record<string, string>>({});
+	const [savedStateRates, setSavedStateRates] = useState<
+		Record<string, string>
+	>({});
+	const [isLoading, setIsLoading] = useState(false);
+	const [editingNcmRate, setEditingNcmRate] = useState<NcmTaxRate | null>(null);
+	const [confirmationDialog, setConfirmationDialog] =
+		useState<ConfirmationDialogState>({
+			isOpen: false,
+			ncmRate: null,
+		});
+	const [formData, setFormData] = useState<NcmFormData>(emptyFormData);
+
+	// Load NCM and state rates on component mount
+	useEffect(() => {
+		const loadData = async () => {
+			setIsLoading(true);
+			try {
+				const [ncmData, stateData] = await Promise.all([
+					taxService.getNcmRates(),
+					taxService.getStateRates(),
+				]);
+				const ratesByState = Object.fromEntries(
+					stateData.map((stateRate) => [
+						stateRate.state,
+						Number(stateRate.rate).toString(),
+					]),
+				);
+				setNcmRates(ncmData);
+				setStateRates(ratesByState);
+				setSavedStateRates(ratesByState);
+			} catch (error) {
+				console.error('Error loading taxes:', error);
+				toastService.error(TOAST_MESSAGES.tax.loadError);
+			} finally {
+				setIsLoading(false);
+			}
+		};
+
+		loadData();
+	}, []);
+
+	const handleInputChange = (field: keyof NcmFormData) => (value: string) => {
+		setFormData((prev) => ({ ...prev, [field]: value }));
+	};
+
+	const resetForm = () => {
+		setFormData(emptyFormData);
+		setEditingNcmRate(null);
+	};
+
+	const handleTabChange = (tab: TabType) => {
+		setActiveTab(tab);
+		if (tab !== 'register') {
+			resetForm();
+		}
+	};
+
+	const buildRequest = (): CreateNcmTaxRateRequest => ({
+		ncm: formData.ncm.replace(/\D/g, ''),
+		description: formData.description.trim() || null,
+		icmsRate: formData.icmsRate || null,
+		ipiRate: formData.ipiRate || null,
+		pisRate: formData.pisRate || null,
+		cofinsRate: formData.cofinsRate || null,
+	});
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (formData.ncm.replace(/\D/g, '').length !== 8) {
+			toastService.error(TOAST_MESSAGES.tax.invalidNcm);
+			return;
+		}
+
+		if (
+			![
+				formData.icmsRate,
+				formData.ipiRate,
+				formData.pisRate,
+				formData.cofinsRate,
+			].every(isValidRate)
+		) {
+			toastService.error(TOAST_MESSAGES.tax.invalidRate);
+			return;
+		}
+
+		setIsLoading(true);
+		try {
+			const request = buildRequest();
+
+			if (editingNcmRate) {
+				const updatedNcmRate = await taxService.updateNcmRate(
+					editingNcmRate.id,
+					request,
+				);
+				setNcmRates((prev) =>
+					prev.map((ncmRate) =>
+						ncmRate.id === editingNcmRate.id ? updatedNcmRate : ncmRate,
+					),
+				);
+				toastService.success(TOAST_MESSAGES.tax.ncmUpdated);
+			} else {
+				const newNcmRate = await taxService.createNcmRate(request);
+				setNcmRates((prev) =>
+					[...prev, newNcmRate].sort((a, b) => a.ncm.localeCompare(b.ncm)),
+				);
+				toastService.success(TOAST_MESSAGES.tax.ncmCreated);
+			}
+
+			resetForm();
+			setActiveTab('list');
+		} catch (error) {
+			console.error('Erro ao salvar NCM:', error);
+			toastService.error(
+				error instanceof Error ? error.message : 'Erro ao salvar NCM.',
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const handleEditClick = (ncmRate: NcmTaxRate) => {
+		setEditingNcmRate(ncmRate);
+		setFormData({
+			ncm: formatNcm(ncmRate.ncm),
+			description: ncmRate.description || '',
+			icmsRate: ncmRate.icmsRate || '',
+			ipiRate: ncmRate.ipiRate || '',
+			pisRate: ncmRate.pisRate || '',
+			cofinsRate: ncmRate.cofinsRate || '',
+		});
+		setActiveTab('register');
+	};
+
+	// Handle delete confirmation dialog
+	const handleDeleteClick = (ncmRate: NcmTaxRate) => {
+		setConfirmationDialog({
+			isOpen: true,
+			ncmRate,
+		});
+	};
+
+	const handleDeleteCancel = () => {
+		setConfirmationDialog({
+			isOpen: false,
+			ncmRate: null,
+		});
+	};
+
+	const handleDeleteConfirm = async () => {
+		if (!confirmationDialog.ncmRate) return;
+
+		const ncmRateId = confirmationDialog.ncmRate.id;
+
+		setIsLoading(true);
+		try {
+			await taxService.deleteNcmRate(ncmRateId);
+			setNcmRates((prev) => prev.filter((ncmRate) => ncmRate.id !== ncmRateId));
+			toastService.success(TOAST_MESSAGES.tax.ncmDeleted);
+		} catch (error) {
+			console.error('Erro ao excluir NCM:', error);
+			toastService.error(
+				error instanceof Error ? error.message : 'Erro ao excluir NCM.',
+			);
+		} finally {
+			setIsLoading(false);
+			handleDeleteCancel();
+		}
+	};
+
+	const handleStateRateSave = async (state: string) => {
+		const rate = stateRates[state] ?? '';
+
+		if (rate === '' || !isValidRate(rate)) {
+			toastService.error(TOAST_MESSAGES.tax.invalidRate);
+			return;
+		}
+
+		setIsLoading(true);
+		try {
+			const saved = await taxService.setStateRate(state, rate);
+			const savedRate = Number(saved.rate).toString();
+			setStateRates((prev) => ({ ...prev, [state]: savedRate }));
+			setSavedStateRates((prev) => ({ ...prev, [state]: savedRate }));
+			toastService.success(TOAST_MESSAGES.tax.stateRateSaved);
+		} catch (error) {
+			console.error('Erro ao salvar alíquota de ICMS:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: 'Erro ao salvar alíquota de ICMS.',
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const handleStateRateRemove = async (state: string) => {
+		setIsLoading(true);
+		try {
+			await taxService.deleteStateRate(state);
+			const removeState = (prev: Record<string, string>) => {
+				const { [state]: _removed, ...rest } = prev;
+				return rest;
+			};
+			setStateRates(removeState);
+			setSavedStateRates(removeState);
+			toastService.success(TOAST_MESSAGES.tax.stateRateRemoved);
+		} catch (error) {
+			console.error('Erro ao remover alíquota de ICMS:', error);
+			toastService.error(
+				error instanceof Error
+					? error.message
+					: 'Erro ao remover alíquota de ICMS.',
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const renderNcmList = () => (
+		<div className="space-y-4">
+			<div className="flex items-center justify-between">
+				<h2 className="text-xl font-semibold text-gray-800">
+					Tributação por NCM
+				</h2>
+				<span className="text-sm text-gray-500">{ncmRates.length} NCMs</span>
+			</div>
+
+			<div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+				{ncmRates.map((ncmRate) => (
+					<div
+						key={ncmRate.id}
+						className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:shadow-md transition-shadow flex flex-col h-full"
+					>
+						<div className="mb-2">
+							<h3 className="font-semibold text-gray-900">
+								{formatNcm(ncmRate.ncm)}
+							</h3>
+							{ncmRate.description && (
+								<p className="text-sm text-gray-600 line-clamp-2">
+									{ncmRate.description}
+								</p>
+							)}
+						</div>
+						<div className="grid grid-cols-2 gap-1 text-xs text-gray-600 mb-3">
+							<p>ICMS: {describeRate(ncmRate.icmsRate)}</p>
+							<p>IPI: {describeRate(ncmRate.ipiRate)}</p>
+							<p>PIS: {describeRate(ncmRate.pisRate)}</p>
+							<p>COFINS: {describeRate(ncmRate.cofinsRate)}</p>
+						</div>
+						<div className="flex justify-end items-center pt-3 border-t border-gray-100 mt-auto">
+							<div className="flex space-x-2">
+								<button
+									type="button"
+									className="text-blue-600 hover:text-blue-800 text-sm"
+									title="Editar NCM"
+									onClick={() => handleEditClick(ncmRate)}
+									disabled={isLoading}
+								>
+									<SquarePen size={16} />
+								</button>
+								<button
+									type="button"
+									className="text-red-600 hover:text-red-800 text-sm"
+									title="Excluir NCM"
+									onClick={() => handleDeleteClick(ncmRate)}
+									disabled={isLoading}
+								>
+									<Trash2 size={16} />
+								</button>
+							</div>
+						</div>
+					</div>
+				))}
+			</div>
+
+			{ncmRates.length === 0 && (
+				<div className="text-center py-8">
+					<p className="text-gray-500">Nenhum NCM cadastrado ainda.</p>
+				</div>
+			)}
+		</div>
+	);
+
+	const renderNcmForm = () => (
+		<form onSubmit={handleSubmit} className="space-y-8">
+			<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+				<div className="space-y-6">
+					<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+						<Input
+							label="NCM"
+							value={formData.ncm}
+							onChange={handleInputChange('ncm')}
+							placeholder="0000.00.00"
+							maxLength={10}
+							required
+						/>
+
+						<Input
+							label="Descrição (Opcional)"
+							value={formData.description}
+							onChange={handleInputChange('description')}
+							placeholder="Ex.: Parafusos de aço"
+							maxLength={255}
+						/>
+					</div>
+
+					<div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+						<Input
+							label="ICMS (%)"
+							type="number"
+							min="0"
+							max="100"
+							step="0.01"
+							value={formData.icmsRate}
+							onChange={handleInputChange('icmsRate')}
+							placeholder="0,00"
+						/>
+						<Input
+							label="IPI (%)"
+							type="number"
+							min="0"
+							max="100"
+							step="0.01"
+							value={formData.ipiRate}
+							onChange={handleInputChange('ipiRate')}
+							placeholder="0,00"
+						/>
+						<Input
+							label="PIS (%)"
+							type="number"
+							min="0"
+							max="100"
+							step="0.01"
+							value={formData.pisRate}
+							onChange={handleInputChange('pisRate')}
+							placeholder="0,00"
+						/>
+						<Input
+							label="COFINS (%)"
+							type="number"
+							min="0"
+							max="100"
+							step="0.01"
+							value={formData.cofinsRate}
+							onChange={handleInputChange('cofinsRate')}
+							placeholder="0,00"
+						/>
+					</div>
+
+					<p className="text-sm text-gray-500">
+						As alíquotas do NCM são usadas quando o produto não possui alíquota
+						própria. O ICMS configurado para a UF de destino tem prioridade
+						sobre o ICMS do NCM.
+					</p>
+				</div>
+			</div>
+
+			{/* Action Buttons */}
+			<div className="flex justify-end space-x-3">
+				<Button type="button" variant="secondary" onClick={resetForm}>
+					{editingNcmRate ? 'Cancelar Edição' : 'Limpar'}
+				</Button>
+				<Button type="submit" variant="primary" disabled={isLoading}>
+					{isLoading
+						? 'Salvando...'
+						: editingNcmRate
+							? 'Salvar NCM'
+							: 'Cadastrar NCM'}
+				</Button>
+			</div>
+		</form>
+	);
+
+	const renderStateRates = () => (
+		<div className="space-y-4">
+			<div className="flex items-center justify-between">
+				<h2 className="text-xl font-semibold text-gray-800">ICMS por UF</h2>
+				<span className="text-sm text-gray-500">
+					{Object.keys(savedStateRates).length} UFs configuradas
+				</span>
+			</div>
+
+			<div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+				<table className="min-w-full divide-y divide-gray-200">
+					<thead className="bg-gray-50">
+						<tr>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+								UF de destino
+							</th>
+							<th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Alíquota ICMS (%)
+							</th>
+							<th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+								Ações
+							</th>
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-gray-200">
+						{BRAZILIAN_STATES.map((state) => {
+							const isConfigured = savedStateRates[state] !== undefined;
+							const hasChanges =
+								(stateRates[state] ?? '') !== (savedStateRates[state] ?? '');
+
+							return (
+								<tr key={state}>
+									<td className="px-4 py-2 text-sm font-medium text-gray-900">
+										{state}
+									</td>
+									<td className="px-4 py-2">
+										<Input
+											type="number"
+											min="0"
+											max="100"
+											step="0.01"
+											value={stateRates[state] ?? ''}
+											onChange={(value) =>
+												setStateRates((prev) => ({ ...prev, [state]: value }))
+											}
+											placeholder="Usar NCM"
+										/>
+									</td>
+									<td className="px-4 py-2 text-right space-x-2">
+										<Button
+											type="button"
+											variant="primary"
+											size="sm"
+											onClick={() => handleStateRateSave(state)}
+											disabled={isLoading || !hasChanges}
+										>
+											Salvar
+										</Button>
+										<Button
+											type="button"
+											variant="secondary"
+											size="sm"
+											onClick={() => handleStateRateRemove(state)}
+											disabled={isLoading || !isConfigured}
+										>
+											Remover
+										</Button>
+									</td>
+								</tr>
+							);
+						})}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	);
+
+	const renderTabContent = () => {
+		if (activeTab === 'list') return renderNcmList();
+		if (activeTab === 'register') return renderNcmForm();
+		return renderStateRates();
+	};
+
+	const tabs: { id: TabType; label: string }[] = [
+		{ id: 'list', label: 'NCM' },
+		{ id: 'register', label: editingNcmRate ? 'Edição' : 'Cadastro' },
+		{ id: 'states', label: 'ICMS por UF' },
+	];
+
+	return (
+		<div className="p-6">
+			<h1 className="text-2xl font-bold text-gray-900 mb-6">Impostos</h1>
+
+			{/* Tabs */}
+			<div className="mb-6">
+				<div className="border-b border-gray-200">
+					<nav className="-mb-px flex space-x-8" aria-label="Tabs">
+						{tabs.map((tab) => (
+							<button
+								key={tab.id}
+								type="button"
+								onClick={() => handleTabChange(tab.id)}
+								className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm ${
+									activeTab === tab.id
+										? 'border-blue-500 text-blue-600'
+										: 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+								}`}
+							>
+								{tab.label}
+							</button>
+						))}
+					</nav>
+				</div>
+			</div>
+
+			{/* Tab Content */}
+			<div className="mt-6">{renderTabContent()}</div>
+
+			{/* Delete Confirmation Dialog */}
+			<Modal
+				isOpen={confirmationDialog.isOpen}
+				onClose={handleDeleteCancel}
+				title="Confirmar Exclusão"
+			>
+				<div className="space-y-4">
+					<p className="text-gray-700">
+						Tem certeza que deseja excluir o NCM{' '}
+						<strong>
+							{confirmationDialog.ncmRate &&
+								formatNcm(confirmationDialog.ncmRate.ncm)}
+						</strong>
+						?
+					</p>
+					<p className="text-sm text-gray-500">
+						Produtos com este NCM passam a usar apenas suas alíquotas próprias.
+						Pré-vendas já criadas mantêm os impostos calculados.
+					</p>
+					<div className="flex justify-end space-x-3 pt-4">
+						<Button
+							type="button"
+							variant="secondary"
+							onClick={handleDeleteCancel}
+							disabled={isLoading}
+						>
+							Cancelar
+						</Button>
+						<Button
+							type="button"
+							variant="danger"
+							onClick={handleDeleteConfirm}
+							disabled={isLoading}
+						>
+							{isLoading ? 'Excluindo...' : 'Excluir'}
+						</Button>
+					</div>
+				</div>
+			</Modal>
+		</div>
+	);
+};
+
+export default TaxesPage;
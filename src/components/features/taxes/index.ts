@@ -0,0 +1 @@
+export { default as TaxesPage } from './TaxesPage';
@@ -1,7 +1,8 @@
-import { ChevronDown, LogOut, Menu, X } from 'lucide-react';
+import { ChevronDown, LogOut, Menu, MonitorOff, X } from 'lucide-react';
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../../context/AuthContext';
+import toastService, { TOAST_MESSAGES } from '../../../services/ToastService';
 import type { User as UserType } from '../../../types';
 
 interface HeaderProps {
@@ -13,7 +14,7 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ title, user, className = '', onMobileMenuToggle }) => {
 	const navigate = useNavigate();
-	const { logout } = useAuth();
+	const { logout, logoutAllSessions } = useAuth();
 	const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
 
 	// CSS para animação do dropdown
@@ -44,6 +45,19 @@ const Header: React.FC<HeaderProps> = ({ title, user, className = '', onMobileMe
 		navigate('/login');
 	};
 
+	// Handle logout from every device
+	const handleLogoutAllSessions = async () => {
+		setIsUserMenuOpen(false);
+		try {
+			await logoutAllSessions();
+			toastService.success(TOAST_MESSAGES.session.allEnded);
+			navigate('/login');
+		} catch (error) {
+			console.error('Error ending all sessions:', error);
+			toastService.error(TOAST_MESSAGES.session.endAllError);
+		}
+	};
+
 	// Função para gerar iniciais do usuário
 	const getUserInitials = (name: string | undefined): string => {
 		if (!name) return 'U';
@@ -175,6 +189,15 @@ const Header: React.FC<HeaderProps> = ({ title, user, className = '', onMobileMe
 													<LogOut className="h-4 w-4 mr-3" />
 													Sair
 												</button>
+												<button
+													type="button"
+													className="flex items-center w-full text-left px-4 py-2.5 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors text-sm"
+													onClick={handleLogoutAllSessions}
+													title="Sair de todos os dispositivos"
+												>
+													<MonitorOff className="h-4 w-4 mr-3" />
+													Encerrar todas as sessões
+												</button>
 											</div>
 										</div>
 									</>
@@ -7,7 +7,12 @@ import {
 	Home,
 	LogOut,
 	Package,
+	Receipt,
+	ShieldAlert,
+	ShieldCheck,
 	ShoppingCart,
+	Tag,
+	Truck,
 	Users,
 } from 'lucide-react';
 import type React from 'react';
@@ -30,7 +35,7 @@ const Sidebar: React.FC<SidebarProps> = ({
 }) => {
 	const navigate = useNavigate();
 	const location = useLocation();
-	const { logout } = useAuth();
+	const { logout, isAdmin, isManager } = useAuth();
 	const permissions = usePermissions();
 	const [expandedItems, setExpandedItems] = useState<string[]>([]);
 	const [hoveredItem, setHoveredItem] = useState<string | null>(null);
@@ -69,11 +74,16 @@ const Sidebar: React.FC<SidebarProps> = ({
 		const path = location.pathname;
 		if (path === '/dashboard') return 'dashboard';
 		if (path === '/presales') return 'presales';
+		if (path === '/discount-approvals') return 'discount-approvals';
 		if (path === '/products') return 'products';
 		if (path === '/customers') return 'customers';
 		if (path === '/payment-methods') return 'payment-methods';
+		if (path === '/promotions') return 'promotions';
+		if (path === '/taxes') return 'taxes';
 		if (path === '/users') return 'users';
 		if (path === '/inventory') return 'inventory';
+		if (path === '/purchasing') return 'purchasing';
+		if (path === '/audit') return 'audit';
 		if (path === '/settings') return 'settings';
 		return 'dashboard';
 	};
@@ -95,6 +105,15 @@ const Sidebar: React.FC<SidebarProps> = ({
 		) {
 			setExpandedItems((prev) => [...prev, 'cadastros']);
 		}
+		if (
+			path.startsWith('/promotions') &&
+			!expandedItems.includes('cadastros')
+		) {
+			setExpandedItems((prev) => [...prev, 'cadastros']);
+		}
+		if (path.startsWith('/taxes') && !expandedItems.includes('cadastros')) {
+			setExpandedItems((prev) => [...prev, 'cadastros']);
+		}
 		if (path.startsWith('/users') && !expandedItems.includes('cadastros')) {
 			setExpandedItems((prev) => [...prev, 'cadastros']);
 		}
@@ -144,6 +163,21 @@ const Sidebar: React.FC<SidebarProps> = ({
 			});
 		}
 
+		if (permissions.isAdmin()) {
+			cadastrosChildren.push({
+				id: 'promotions',
+				label: 'Promoções',
+				icon: 'Tag',
+				path: '/promotions',
+			});
+			cadastrosChildren.push({
+				id: 'taxes',
+				label: 'Impostos',
+				icon: 'Receipt',
+				path: '/taxes',
+			});
+		}
+
 		if (permissions.canAccessUserManagement()) {
 			cadastrosChildren.push({
 				id: 'users',
@@ -177,6 +211,16 @@ const Sidebar: React.FC<SidebarProps> = ({
 			});
 		}
 
+		// Add Aprovação de Descontos for whoever can approve discounts above the limit
+		if (isAdmin || isManager) {
+			baseMenuItems.push({
+				id: 'discount-approvals',
+				label: 'Aprovação de Descontos',
+				icon: 'ShieldAlert',
+				path: '/discount-approvals',
+			});
+		}
+
 		// Add Estoque - for now, we'll show it to all authenticated users
 		// This can be refined later with specific inventory permissions
 		baseMenuItems.push({
@@ -186,6 +230,14 @@ const Sidebar: React.FC<SidebarProps> = ({
 			path: '/inventory',
 		});
 
+		// Add Compras with the same access as Estoque
+		baseMenuItems.push({
+			id: 'purchasing',
+			label: 'Compras',
+			icon: 'Truck',
+			path: '/purchasing',
+		});
+
 		// Add Relatórios if user has reports permission
 		if (permissions.canAccessReports()) {
 			baseMenuItems.push({
@@ -196,6 +248,16 @@ const Sidebar: React.FC<SidebarProps> = ({
 			});
 		}
 
+		// Add Auditoria for whoever manages the users
+		if (permissions.canAccessUserManagement()) {
+			baseMenuItems.push({
+				id: 'audit',
+				label: 'Auditoria',
+				icon: 'ShieldCheck',
+				path: '/audit',
+			});
+		}
+
 		return baseMenuItems;
 	};
 
@@ -222,6 +284,11 @@ const Sidebar: React.FC<SidebarProps> = ({
 		FileText,
 		LogOut,
 		CreditCard,
+		Tag,
+		Receipt,
+		ShieldAlert,
+		ShieldCheck,
+		Truck,
 	};
 
 	const toggleExpanded = (itemId: string) => {
@@ -240,6 +240,7 @@ const convertApiUserToAuthUser = (user: User): AuthUser => {
 		email: user.email,
 		password: '', // Don't store password in context
 		userType: user.role === 'admin' ? 'admin' : 'employee',
+		role: user.role,
 		permissions: extractPermissionsFromUser(user),
 		isActive: true,
 		createdAt: new Date(user.createdAt),
@@ -376,6 +377,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 		}
 	}, []);
 
+	// End every session of the user, on all devices
+	const logoutAllSessions = useCallback(async () => {
+		authDebugLog('Attempting logout from all sessions');
+		try {
+			await authService.logoutAllSessions();
+			authDebugLog('All sessions ended');
+		} finally {
+			// Local tokens are cleared even if the server request fails
+			dispatch({ type: 'LOGOUT' });
+		}
+	}, []);
+
 	// Clear error function
 	const clearError = useCallback(() => {
 		dispatch({ type: 'CLEAR_ERROR' });
@@ -508,6 +521,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
 	const isAdmin = state.user?.userType === 'admin';
 	const isEmployee = state.user?.userType === 'employee';
+	// Managers are employees that may also approve discounts above the limit
+	const isManager = state.user?.role === 'manager';
 
 	// Default empty permissions for when user is not authenticated
 	const defaultPermissions: UserPermissions = {
@@ -533,11 +548,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 		error: state.error,
 		login,
 		logout,
+		logoutAllSessions,
 		clearError,
 		permissions: state.permissions || defaultPermissions,
 		hasPermission,
 		isAdmin,
 		isEmployee,
+		isManager,
 	};
 
 	// Show loading screen during initialization
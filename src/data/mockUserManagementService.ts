@@ -2,6 +2,7 @@ import avatarPNG from '../assets/avatar.jpg';
 import type {
 	AuditLog,
 	AuditLogFilters,
+	AuditLogPage,
 	CreateUserRequest,
 	DefaultPermissions,
 	UpdateUserRequest,
@@ -522,7 +523,7 @@ export const mockUserManagementService: UserManagementService = {
 	/**
 	 * Gets audit logs with optional filters
 	 */
-	async getAuditLogs(filters?: AuditLogFilters): Promise<AuditLog[]> {
+	async getAuditLogs(filters?: AuditLogFilters): Promise<AuditLogPage> {
 		await delay();
 
 		let logs = getStoredAuditLogs();
@@ -550,14 +551,15 @@ export const mockUserManagementService: UserManagementService = {
 		logs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 
 		// Apply pagination
-		if (filters?.offset) {
-			logs = logs.slice(filters.offset);
-		}
-		if (filters?.limit) {
-			logs = logs.slice(0, filters.limit);
-		}
-
-		return logs;
+		const page = filters?.page ?? 1;
+		const limit = filters?.limit ?? 50;
+
+		return {
+			logs: logs.slice((page - 1) * limit, page * limit),
+			total: logs.length,
+			page,
+			totalPages: Math.ceil(logs.length / limit),
+		};
 	},
 };
 
@@ -3,3 +3,4 @@ export { useErrorHandler } from './useErrorHandler';
 export { useKeyboardShortcut, useSearchShortcut } from './useKeyboardShortcut';
 export { usePermissions } from './usePermissions';
 export { useProducts } from './useProducts';
+export { useSettings } from './useSettings';
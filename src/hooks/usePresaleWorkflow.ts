@@ -86,6 +86,8 @@ export const usePresaleWorkflow = (): UsePresaleWorkflowReturn => {
 			approved: 'Aprovada',
 			cancelled: 'Cancelada',
 			converted: 'Convertida',
+			expired: 'Expirada',
+			awaiting_approval: 'Aguardando Aprovação',
 		};
 		return statusLabels[status];
 	}, []);
@@ -97,6 +99,8 @@ export const usePresaleWorkflow = (): UsePresaleWorkflowReturn => {
 			approved: 'bg-green-100 text-green-800',
 			cancelled: 'bg-red-100 text-red-800',
 			converted: 'bg-blue-100 text-blue-800',
+			expired: 'bg-orange-100 text-orange-800',
+			awaiting_approval: 'bg-amber-100 text-amber-800',
 		};
 		return statusColors[status];
 	}, []);
@@ -108,6 +112,8 @@ export const usePresaleWorkflow = (): UsePresaleWorkflowReturn => {
 			approved: '✅',
 			cancelled: '❌',
 			converted: '💰',
+			expired: '⌛',
+			awaiting_approval: '🛡️',
 		};
 		return statusIcons[status];
 	}, []);
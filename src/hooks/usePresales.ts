@@ -36,6 +36,7 @@ interface UsePresalesReturn {
 	updatePresaleStatus: (
 		id: string,
 		status: PreSale['status'],
+		note?: string,
 	) => Promise<PreSale | null>;
 	convertToSale: (id: string) => Promise<PreSale | null>;
 	getPresaleById: (id: string) => Promise<PreSale | null>;
@@ -192,12 +193,16 @@ export const usePresales = (
 	}, []);
 
 	const updatePresaleStatus = useCallback(
-		async (id: string, status: PreSale['status']): Promise<PreSale | null> => {
+		async (
+			id: string,
+			status: PreSale['status'],
+			note?: string,
+		): Promise<PreSale | null> => {
 			try {
 				setLoading(true);
 				setError(null);
 
-				const response = await presaleService.updateStatus(id, status);
+				const response = await presaleService.updateStatus(id, status, note);
 
 				if (response.success) {
 					// Update the pre-sale status in the list
@@ -1,4 +1,5 @@
 import { useCallback, useState } from 'react';
+import { useSettings } from './useSettings';
 
 export interface PriceCalculationData {
 	purchasePrice: number;
@@ -50,6 +51,14 @@ export const usePricing = (): UsePricingReturn => {
 	const [priceSuggestions, setPriceSuggestions] =
 		useState<PricingStrategies | null>(null);
 	const [isCalculating, setIsCalculating] = useState(false);
+	const {
+		settings: { defaultMarkup },
+	} = useSettings();
+
+	// Margin that gives the default markup from the settings: markup / (100 + markup)
+	const defaultMargin = Number(
+		((defaultMarkup / (100 + defaultMarkup)) * 100).toFixed(2),
+	);
 
 	/**
 	 * Calculate margin and markup from purchase and sale prices
@@ -88,7 +97,10 @@ export const usePricing = (): UsePricingReturn => {
 	 * Calculate suggested prices based on different strategies
 	 */
 	const calculateSuggestedPrices = useCallback(
-		(purchasePrice: number, targetMargin = 30): PricingStrategies => {
+		(
+			purchasePrice: number,
+			targetMargin = defaultMargin,
+		): PricingStrategies => {
 			try {
 				setError(null);
 
@@ -100,15 +112,15 @@ export const usePricing = (): UsePricingReturn => {
 				const suggested = calculatePriceFromMargin(purchasePrice, targetMargin);
 				const competitive = calculatePriceFromMargin(
 					purchasePrice,
-					targetMargin - 5,
+					Math.max(targetMargin - 5, 0),
 				);
 				const premium = calculatePriceFromMargin(
 					purchasePrice,
-					targetMargin + 10,
+					Math.min(targetMargin + 10, 99),
 				);
 				const budget = calculatePriceFromMargin(
 					purchasePrice,
-					targetMargin - 10,
+					Math.max(targetMargin - 10, 0),
 				);
 
 				return {
@@ -126,7 +138,7 @@ export const usePricing = (): UsePricingReturn => {
 				throw new Error(errorMessage);
 			}
 		},
-		[],
+		[defaultMargin],
 	);
 
 	/**
@@ -205,7 +217,7 @@ export const usePricing = (): UsePricingReturn => {
 	 * Get price suggestions and store in state
 	 */
 	const getPriceSuggestions = useCallback(
-		(purchasePrice: number, targetMargin = 30) => {
+		(purchasePrice: number, targetMargin = defaultMargin) => {
 			try {
 				setIsCalculating(true);
 				setError(null);
@@ -226,7 +238,7 @@ export const usePricing = (): UsePricingReturn => {
 				setIsCalculating(false);
 			}
 		},
-		[calculateSuggestedPrices],
+		[calculateSuggestedPrices, defaultMargin],
 	);
 
 	return {
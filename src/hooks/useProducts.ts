@@ -68,7 +68,18 @@ export const useProducts = (
 				unit: apiProduct.unit,
 				description: apiProduct.description,
 				stock: apiProduct.stock,
+				reservedStock: apiProduct.reservedStock,
+				availableStock: apiProduct.availableStock,
 				saleType: apiProduct.saleType as 'unit' | 'fractional',
+				category: apiProduct.category || undefined,
+				ncm: apiProduct.ncm,
+				icmsRate: apiProduct.icmsRate,
+				ipiRate: apiProduct.ipiRate,
+				pisRate: apiProduct.pisRate,
+				cofinsRate: apiProduct.cofinsRate,
+				minStock: apiProduct.minStock,
+				reorderPoint: apiProduct.reorderPoint,
+				maxStock: apiProduct.maxStock,
 				purchasePrice:
 					typeof apiProduct.purchasePrice === 'string'
 						? parseFloat(apiProduct.purchasePrice)
@@ -110,7 +121,18 @@ export const useProducts = (
 					unit: apiProduct.unit,
 					description: apiProduct.description,
 					stock: apiProduct.stock,
+					reservedStock: apiProduct.reservedStock,
+					availableStock: apiProduct.availableStock,
 					saleType: apiProduct.saleType as 'unit' | 'fractional',
+					category: apiProduct.category || undefined,
+					ncm: apiProduct.ncm,
+					icmsRate: apiProduct.icmsRate,
+					ipiRate: apiProduct.ipiRate,
+					pisRate: apiProduct.pisRate,
+					cofinsRate: apiProduct.cofinsRate,
+					minStock: apiProduct.minStock,
+					reorderPoint: apiProduct.reorderPoint,
+					maxStock: apiProduct.maxStock,
 					purchasePrice:
 						typeof apiProduct.purchasePrice === 'string'
 							? parseFloat(apiProduct.purchasePrice)
@@ -160,7 +182,18 @@ export const useProducts = (
 					unit: apiProduct.unit,
 					description: apiProduct.description,
 					stock: apiProduct.stock,
+					reservedStock: apiProduct.reservedStock,
+					availableStock: apiProduct.availableStock,
 					saleType: apiProduct.saleType as 'unit' | 'fractional',
+					category: apiProduct.category || undefined,
+					ncm: apiProduct.ncm,
+					icmsRate: apiProduct.icmsRate,
+					ipiRate: apiProduct.ipiRate,
+					pisRate: apiProduct.pisRate,
+					cofinsRate: apiProduct.cofinsRate,
+					minStock: apiProduct.minStock,
+					reorderPoint: apiProduct.reorderPoint,
+					maxStock: apiProduct.maxStock,
 					purchasePrice:
 						typeof apiProduct.purchasePrice === 'string'
 							? parseFloat(apiProduct.purchasePrice)
@@ -239,7 +272,18 @@ export const useProducts = (
 					unit: apiProduct.unit,
 					description: apiProduct.description,
 					stock: apiProduct.stock,
+					reservedStock: apiProduct.reservedStock,
+					availableStock: apiProduct.availableStock,
 					saleType: apiProduct.saleType as 'unit' | 'fractional',
+					category: apiProduct.category || undefined,
+					ncm: apiProduct.ncm,
+					icmsRate: apiProduct.icmsRate,
+					ipiRate: apiProduct.ipiRate,
+					pisRate: apiProduct.pisRate,
+					cofinsRate: apiProduct.cofinsRate,
+					minStock: apiProduct.minStock,
+					reorderPoint: apiProduct.reorderPoint,
+					maxStock: apiProduct.maxStock,
 					purchasePrice:
 						typeof apiProduct.purchasePrice === 'string'
 							? parseFloat(apiProduct.purchasePrice)
@@ -295,7 +339,18 @@ export const useProducts = (
 					unit: apiProduct.unit,
 					description: apiProduct.description,
 					stock: apiProduct.stock,
+					reservedStock: apiProduct.reservedStock,
+					availableStock: apiProduct.availableStock,
 					saleType: apiProduct.saleType as 'unit' | 'fractional',
+					category: apiProduct.category || undefined,
+					ncm: apiProduct.ncm,
+					icmsRate: apiProduct.icmsRate,
+					ipiRate: apiProduct.ipiRate,
+					pisRate: apiProduct.pisRate,
+					cofinsRate: apiProduct.cofinsRate,
+					minStock: apiProduct.minStock,
+					reorderPoint: apiProduct.reorderPoint,
+					maxStock: apiProduct.maxStock,
 					purchasePrice:
 						typeof apiProduct.purchasePrice === 'string'
 							? parseFloat(apiProduct.purchasePrice)
@@ -329,7 +384,7 @@ export const useProducts = (
 	);
 
 	const getLowStockProducts = useCallback(
-		async (threshold: number = 10): Promise<Product[]> => {
+		async (threshold?: number): Promise<Product[]> => {
 			try {
 				const apiProducts = await productService.getLowStockProducts(threshold);
 
@@ -344,7 +399,18 @@ export const useProducts = (
 					unit: apiProduct.unit,
 					description: apiProduct.description,
 					stock: apiProduct.stock,
+					reservedStock: apiProduct.reservedStock,
+					availableStock: apiProduct.availableStock,
 					saleType: apiProduct.saleType as 'unit' | 'fractional',
+					category: apiProduct.category || undefined,
+					ncm: apiProduct.ncm,
+					icmsRate: apiProduct.icmsRate,
+					ipiRate: apiProduct.ipiRate,
+					pisRate: apiProduct.pisRate,
+					cofinsRate: apiProduct.cofinsRate,
+					minStock: apiProduct.minStock,
+					reorderPoint: apiProduct.reorderPoint,
+					maxStock: apiProduct.maxStock,
 					purchasePrice:
 						typeof apiProduct.purchasePrice === 'string'
 							? parseFloat(apiProduct.purchasePrice)
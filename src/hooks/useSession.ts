@@ -1,5 +1,8 @@
 import { useCallback, useEffect, useState } from 'react';
+import { authDebugLog, config } from '../config/environment';
 import { useAuth } from '../context/AuthContext';
+import { authService } from '../services/authService';
+import { tokenStorage } from '../utils/tokenStorage';
 
 interface SessionInfo {
 	isActive: boolean;
@@ -15,8 +18,35 @@ interface UseSession extends SessionInfo {
 	getSessionStatus: () => 'active' | 'warning' | 'expired';
 }
 
+// Whether the access token expires within the refresh threshold
+const isTokenExpiring = (token: string): boolean => {
+	try {
+		const payload = JSON.parse(atob(token.split('.')[1]));
+		return payload.exp * 1000 - Date.now() <= config.tokenRefreshThreshold;
+	} catch {
+		return false;
+	}
+};
+
+// Renew the short-lived access token before it expires, so active users are never logged out by it
+const refreshTokenIfNeeded = async (): Promise<void> => {
+	const token = tokenStorage.getToken();
+	if (!token || !tokenStorage.getRefreshToken() || !isTokenExpiring(token)) {
+		return;
+	}
+
+	try {
+		await authService.refreshToken();
+		authDebugLog('Access token refreshed silently');
+	} catch (error) {
+		// The session was ended on the server, the next request will log the user out
+		authDebugLog('Silent token refresh failed:', error);
+	}
+};
+
 /**
  * Hook for managing user session information and warnings
+ * While the user is active, the access token is refreshed silently before it expires
  */
 export const useSession = (): UseSession => {
 	const { user, logout } = useAuth();
@@ -76,6 +106,11 @@ export const useSession = (): UseSession => {
 			showWarning,
 		}));
 
+		// Only active sessions keep their access token fresh
+		if (timeRemaining > 0) {
+			refreshTokenIfNeeded();
+		}
+
 		// Auto-logout if session expired (but not during initial load)
 		if (timeRemaining <= 0 && timeSinceActivity > sessionInfo.sessionTimeout) {
 			console.warn('Session expired, logging out user');
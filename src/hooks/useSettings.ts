@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import {
+	DEFAULT_SYSTEM_SETTINGS,
+	settingsService,
+} from '../services/settingsService';
+import type { SystemSettings } from '../types';
+
+type SettingsValues = Omit<SystemSettings, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface UseSettingsReturn {
+	settings: SettingsValues;
+	isLoading: boolean;
+}
+
+/**
+ * Hook for the system settings
+ * Returns the default preferences until the settings are loaded, and keeps
+ * them if the settings cannot be loaded.
+ */
+export const useSettings = (): UseSettingsReturn => {
+	const [settings, setSettings] = useState<SettingsValues>(
+		DEFAULT_SYSTEM_SETTINGS,
+	);
+	const [isLoading, setIsLoading] = useState(true);
+
+	useEffect(() => {
+		let isMounted = true;
+
+		settingsService
+			.getSettings()
+			.then((loaded) => {
+				if (isMounted) setSettings(loaded);
+			})
+			.catch((error) => {
+				console.error('Erro ao carregar configurações:', error);
+			})
+			.finally(() => {
+				if (isMounted) setIsLoading(false);
+			});
+
+		return () => {
+			isMounted = false;
+		};
+	}, []);
+
+	return { settings, isLoading };
+};
+
+export default useSettings;
@@ -30,13 +30,43 @@ const Presales = lazy(() =>
 		default: module.Presales,
 	})),
 );
+const DiscountApprovalQueue = lazy(() =>
+	import('../components/features/presales').then((module) => ({
+		default: module.DiscountApprovalQueue,
+	})),
+);
 const ProductsPage = lazy(
 	() => import('../components/features/products/ProductsPage'),
 );
+const PromotionsPage = lazy(() =>
+	import('../components/features/promotions').then((module) => ({
+		default: module.PromotionsPage,
+	})),
+);
+const PurchasingPage = lazy(() =>
+	import('../components/features/purchasing').then((module) => ({
+		default: module.PurchasingPage,
+	})),
+);
+const TaxesPage = lazy(() =>
+	import('../components/features/taxes').then((module) => ({
+		default: module.TaxesPage,
+	})),
+);
 const UsersPage = lazy(() => import('../components/features/users/UsersPage'));
+const AuditLogsPage = lazy(() =>
+	import('../components/features/audit').then((module) => ({
+		default: module.AuditLogsPage,
+	})),
+);
 const ReportsPage = lazy(
 	() => import('../components/features/reports/ReportsPage'),
 );
+const SettingsPage = lazy(() =>
+	import('../components/features/settings').then((module) => ({
+		default: module.SettingsPage,
+	})),
+);
 
 // Loading component
 const LoadingSpinner = () => (
@@ -109,6 +139,18 @@ export const router = createHashRouter([
 			</ProtectedRoute>
 		),
 	},
+	{
+		path: '/discount-approvals',
+		element: (
+			<ProtectedRoute requiredPermission="presales.canViewAll">
+				<LayoutWrapper title="Aprovação de Descontos">
+					<LazyWrapper>
+						<DiscountApprovalQueue />
+					</LazyWrapper>
+				</LayoutWrapper>
+			</ProtectedRoute>
+		),
+	},
 	{
 		path: '/products',
 		element: (
@@ -145,6 +187,30 @@ export const router = createHashRouter([
 			</ProtectedRoute>
 		),
 	},
+	{
+		path: '/promotions',
+		element: (
+			<ProtectedRoute requiredUserType="admin">
+				<LayoutWrapper title="Promoções">
+					<LazyWrapper>
+						<PromotionsPage />
+					</LazyWrapper>
+				</LayoutWrapper>
+			</ProtectedRoute>
+		),
+	},
+	{
+		path: '/taxes',
+		element: (
+			<ProtectedRoute requiredUserType="admin">
+				<LayoutWrapper title="Impostos">
+					<LazyWrapper>
+						<TaxesPage />
+					</LazyWrapper>
+				</LayoutWrapper>
+			</ProtectedRoute>
+		),
+	},
 	{
 		path: '/inventory',
 		element: (
@@ -157,6 +223,18 @@ export const router = createHashRouter([
 			</ProtectedRoute>
 		),
 	},
+	{
+		path: '/purchasing',
+		element: (
+			<ProtectedRoute>
+				<LayoutWrapper title="Compras">
+					<LazyWrapper>
+						<PurchasingPage />
+					</LazyWrapper>
+				</LayoutWrapper>
+			</ProtectedRoute>
+		),
+	},
 	{
 		path: '/users',
 		element: (
@@ -172,6 +250,21 @@ export const router = createHashRouter([
 			</ProtectedRoute>
 		),
 	},
+	{
+		path: '/audit',
+		element: (
+			<ProtectedRoute
+				requiredUserType="admin"
+				requiredPermission="modules.userManagement"
+			>
+				<LayoutWrapper title="Auditoria">
+					<LazyWrapper>
+						<AuditLogsPage />
+					</LazyWrapper>
+				</LayoutWrapper>
+			</ProtectedRoute>
+		),
+	},
 	{
 		path: '/reports',
 		element: (
@@ -189,16 +282,9 @@ export const router = createHashRouter([
 		element: (
 			<ProtectedRoute>
 				<LayoutWrapper title="Configurações">
-					<div className="p-6">
-						<h1 className="text-2xl font-bold text-gray-900 mb-6">
-							Configurações
-						</h1>
-						<div className="bg-white rounded-lg shadow p-6">
-							<p className="text-gray-600">
-								Página de configurações em desenvolvimento...
-							</p>
-						</div>
-					</div>
+					<LazyWrapper>
+						<SettingsPage />
+					</LazyWrapper>
 				</LayoutWrapper>
 			</ProtectedRoute>
 		),
@@ -21,6 +21,20 @@ export const TOAST_MESSAGES = {
 		statusChanged: 'Status da pré-venda alterado com sucesso!',
 		invalidData: 'Selecione um cliente e adicione pelo menos um item!',
 		deleteConfirm: 'Tem certeza que deseja excluir esta pré-venda?',
+		renewed: 'Orçamento renovado com os preços atuais!',
+		renewConfirm:
+			'Renovar o orçamento? Os itens serão atualizados para os preços atuais e a validade será reiniciada.',
+		statusHistoryLoadError:
+			'Erro ao carregar a linha do tempo da pré-venda. Tente novamente.',
+		awaitingApproval:
+			'O desconto está acima do limite do vendedor. A pré-venda aguarda aprovação de um gerente.',
+		discountApproved: 'Desconto aprovado! A pré-venda voltou para pendente.',
+		discountRejected: 'Desconto recusado. A pré-venda voltou para rascunho.',
+		discountRejectReasonRequired: 'Informe o motivo da recusa!',
+		discountApprovalError: 'Erro ao aprovar o desconto. Tente novamente.',
+		discountRejectError: 'Erro ao recusar o desconto. Tente novamente.',
+		approvalQueueLoadError:
+			'Erro ao carregar as pré-vendas aguardando aprovação. Tente novamente.',
 	},
 
 	// Produtos
@@ -30,6 +44,16 @@ export const TOAST_MESSAGES = {
 		deleted: 'Produto excluído com sucesso!',
 		invalidData: 'Preencha todos os campos obrigatórios!',
 		deleteConfirm: 'Tem certeza que deseja excluir este produto?',
+		exported: 'Produtos exportados com sucesso!',
+		exportError: 'Erro ao exportar produtos. Tente novamente.',
+		bulkUpdated: 'Preços atualizados com sucesso!',
+		bulkUpdateError: 'Erro ao atualizar produtos em lote. Tente novamente.',
+		bulkRowErrors:
+			'Alguns produtos foram recusados. Nenhum preço foi alterado.',
+		bulkInvalidValue: 'Informe um valor válido para todos os produtos.',
+		imported: 'Produtos importados com sucesso!',
+		importError: 'Erro ao importar produtos. Tente novamente.',
+		importHasErrors: 'Corrija as linhas com erro no arquivo antes de importar.',
 	},
 
 	// Clientes
@@ -39,6 +63,14 @@ export const TOAST_MESSAGES = {
 		deleted: 'Cliente excluído com sucesso!',
 		invalidData: 'Preencha todos os campos obrigatórios!',
 		deleteConfirm: 'Tem certeza que deseja excluir este cliente?',
+		exported: 'Clientes exportados com sucesso!',
+		exportError: 'Erro ao exportar clientes. Tente novamente.',
+		imported: 'Clientes importados com sucesso!',
+		importError: 'Erro ao importar clientes. Tente novamente.',
+		importHasErrors: 'Corrija as linhas com erro no arquivo antes de importar.',
+		duplicatesLoadError: 'Erro ao buscar clientes duplicados. Tente novamente.',
+		merged: 'Clientes mesclados com sucesso!',
+		mergeError: 'Erro ao mesclar clientes. Tente novamente.',
 	},
 
 	// Inventário
@@ -94,6 +126,89 @@ export const TOAST_MESSAGES = {
 		retrying: 'Tentando novamente...',
 	},
 
+	// Promoções
+	promotion: {
+		created: 'Promoção criada com sucesso!',
+		updated: 'Promoção atualizada com sucesso!',
+		deleted: 'Promoção excluída com sucesso!',
+		invalidData: 'Preencha todos os campos obrigatórios!',
+		invalidPeriod: 'A data final deve ser posterior à data inicial!',
+		loadError: 'Erro ao carregar promoções. Tente novamente.',
+	},
+
+	// Impostos
+	tax: {
+		ncmCreated: 'NCM cadastrado com sucesso!',
+		ncmUpdated: 'NCM atualizado com sucesso!',
+		ncmDeleted: 'NCM excluído com sucesso!',
+		stateRateSaved: 'Alíquota de ICMS salva com sucesso!',
+		stateRateRemoved: 'Alíquota de ICMS removida com sucesso!',
+		invalidNcm: 'Informe um NCM com 8 dígitos!',
+		invalidRate: 'Informe uma alíquota entre 0 e 100%!',
+		loadError: 'Erro ao carregar impostos. Tente novamente.',
+	},
+
+	// Comissões
+	commission: {
+		ruleCreated: 'Regra de comissão cadastrada com sucesso!',
+		ruleUpdated: 'Regra de comissão atualizada com sucesso!',
+		ruleDeleted: 'Regra de comissão excluída com sucesso!',
+		invalidRule: 'Informe o nome e uma taxa entre 0 e 100%!',
+		invalidTier:
+			'Informe volume maior que zero e taxa entre 0 e 100% em cada faixa!',
+		reportExported: 'Relatório de comissões exportado com sucesso!',
+		exportError: 'Erro ao exportar relatório. Tente novamente.',
+		loadError: 'Erro ao carregar comissões. Tente novamente.',
+	},
+
+	// Sessões
+	session: {
+		allEnded: 'Todas as sessões foram encerradas. Faça login novamente.',
+		endAllError: 'Erro ao encerrar as sessões. Tente novamente.',
+	},
+
+	// Histórico de alterações
+	audit: {
+		historyLoadError: 'Erro ao carregar histórico. Tente novamente.',
+		loadError: 'Erro ao carregar registros de auditoria. Tente novamente.',
+		statsLoadError: 'Erro ao carregar estatísticas do usuário.',
+		exported: 'Registros de auditoria exportados com sucesso!',
+		exportError: 'Erro ao exportar registros de auditoria. Tente novamente.',
+		invalidPeriod: 'A data final deve ser posterior à data inicial!',
+	},
+
+	// Compras
+	purchasing: {
+		supplierCreated: 'Fornecedor cadastrado com sucesso!',
+		supplierUpdated: 'Fornecedor atualizado com sucesso!',
+		supplierDeleted: 'Fornecedor excluído com sucesso!',
+		orderCreated: 'Pedido de compra criado com sucesso!',
+		orderUpdated: 'Pedido de compra atualizado com sucesso!',
+		orderDeleted: 'Pedido de compra excluído com sucesso!',
+		orderPlaced: 'Pedido de compra enviado ao fornecedor!',
+		orderCancelled: 'Pedido de compra cancelado!',
+		received: 'Recebimento registrado e estoque atualizado!',
+		invalidSupplier: 'Informe o nome do fornecedor!',
+		invalidOrder: 'Selecione o fornecedor e inclua ao menos um item!',
+		invalidItem: 'Informe quantidade e custo válidos para todos os itens!',
+		nothingToReceive: 'Informe a quantidade recebida de ao menos um item!',
+		noSuggestions: 'Nenhum produto abaixo do ponto de pedido.',
+		loadError: 'Erro ao carregar dados de compras. Tente novamente.',
+	},
+
+	// Configurações
+	settings: {
+		updated: 'Configurações salvas com sucesso!',
+		loadError: 'Erro ao carregar configurações. Tente novamente.',
+		invalidCnpj: 'Informe um CNPJ válido!',
+		invalidPrefix: 'O prefixo deve ter de 1 a 10 letras!',
+		invalidNumber: 'Informe valores numéricos maiores ou iguais a zero!',
+		invalidLogo: 'O logotipo deve ser uma imagem PNG ou JPEG de até 500KB!',
+		invalidQuoteValidity: 'A validade do orçamento deve ser de 1 a 365 dias!',
+		invalidDiscountLimits:
+			'Os limites de desconto devem ser de 0 a 100%, e o do gerente não pode ser menor que o do funcionário!',
+	},
+
 	// Genéricas
 	generic: {
 		success: 'Operação realizada com sucesso!',
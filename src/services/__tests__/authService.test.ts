@@ -9,6 +9,7 @@ vi.mock('../httpClient', () => ({
 		get: vi.fn(),
 		setAuthTokens: vi.fn(),
 		clearAuthTokens: vi.fn(),
+		refreshAccessToken: vi.fn(),
 	},
 }));
 
@@ -48,11 +49,37 @@ describe('AuthService', () => {
 
 	describe('logout', () => {
 		it('should logout successfully', async () => {
+			localStorage.setItem('flowcrm_refresh_token', 'refresh-token');
 			vi.mocked(httpClient.post).mockResolvedValue(null);
 
 			await authService.logout();
 
-			expect(httpClient.post).toHaveBeenCalledWith('/auth/logout');
+			expect(httpClient.post).toHaveBeenCalledWith('/auth/logout', {
+				refreshToken: 'refresh-token',
+			});
+			expect(httpClient.clearAuthTokens).toHaveBeenCalled();
+		});
+
+		it('should end all sessions', async () => {
+			vi.mocked(httpClient.post).mockResolvedValue(null);
+
+			await authService.logoutAllSessions();
+
+			expect(httpClient.post).toHaveBeenCalledWith('/auth/logout-all');
+			expect(httpClient.clearAuthTokens).toHaveBeenCalled();
+		});
+	});
+
+	describe('refreshToken', () => {
+		it('should clear tokens when the refresh fails', async () => {
+			vi.mocked(httpClient.refreshAccessToken).mockRejectedValue(
+				new Error('Invalid refresh token'),
+			);
+
+			await expect(authService.refreshToken()).rejects.toThrow(
+				'Invalid refresh token',
+			);
+			expect(httpClient.clearAuthTokens).toHaveBeenCalled();
 		});
 	});
 });
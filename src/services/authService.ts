@@ -1,10 +1,5 @@
 import { authDebugLog } from '../config/environment';
-import type {
-	LoginRequest,
-	LoginResponse,
-	RefreshTokenResponse,
-	User,
-} from '../types/api';
+import type { LoginRequest, LoginResponse, User } from '../types/api';
 import { tokenStorage } from '../utils/tokenStorage';
 import { httpClient } from './httpClient';
 
@@ -55,11 +50,13 @@ export class AuthService {
 	}
 
 	/**
-	 * Logout user
+	 * Logout user, revoking the current session on the server
 	 */
 	async logout(): Promise<void> {
 		try {
-			await httpClient.post('/auth/logout');
+			await httpClient.post('/auth/logout', {
+				refreshToken: tokenStorage.getRefreshToken(),
+			});
 		} catch (error) {
 			console.warn('Logout request failed:', error);
 		} finally {
@@ -67,6 +64,17 @@ export class AuthService {
 		}
 	}
 
+	/**
+	 * End every session of the current user, on all devices
+	 */
+	async logoutAllSessions(): Promise<void> {
+		try {
+			await httpClient.post('/auth/logout-all');
+		} finally {
+			httpClient.clearAuthTokens();
+		}
+	}
+
 	/**
 	 * Get current user profile
 	 */
@@ -85,12 +93,7 @@ export class AuthService {
 	 */
 	async refreshToken(): Promise<string> {
 		try {
-			const response = await httpClient.post<{ data: RefreshTokenResponse }>(
-				'/auth/refresh',
-			);
-			const { token, refreshToken } = response.data;
-			httpClient.setAuthTokens(token, refreshToken || '');
-			return token;
+			return await httpClient.refreshAccessToken();
 		} catch (error) {
 			httpClient.clearAuthTokens();
 			throw error;
@@ -125,8 +128,14 @@ export class AuthService {
 			authDebugLog('Initializing authentication state');
 
 			if (!this.isAuthenticated()) {
-				authDebugLog('No valid authentication found');
-				return null;
+				if (!tokenStorage.getRefreshToken()) {
+					authDebugLog('No valid authentication found');
+					return null;
+				}
+
+				// The access token expired while the app was closed, renew it silently
+				authDebugLog('Access token expired, refreshing session');
+				await this.refreshToken();
 			}
 
 			// Validate session with server
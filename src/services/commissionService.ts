@@ -0,0 +1,90 @@
+import type { CommissionRule } from '../types';
+import type {
+	CreateCommissionRuleRequest,
+	UpdateCommissionRuleRequest,
+} from '../types/api';
+import { httpClient } from './httpClient';
+
+/**
+ * Commission API Service
+ * Handles commission rules per salesperson and product category
+ */
+export class CommissionService {
+	private readonly baseUrl = '/commissions';
+
+	/**
+	 * Get all commission rules
+	 */
+	async getRules(): Promise<CommissionRule[]> {
+		try {
+			const response = await httpClient.get<{
+				success: boolean;
+				data: CommissionRule[];
+			}>(`${this.baseUrl}/rules`);
+			return response.data || [];
+		} catch (error) {
+			console.error('Error fetching commission rules:', error);
+			throw new Error('Erro ao carregar regras de comissão');
+		}
+	}
+
+	/**
+	 * Create commission rule
+	 */
+	async createRule(data: CreateCommissionRuleRequest): Promise<CommissionRule> {
+		try {
+			const response = await httpClient.post<{
+				success: boolean;
+				data: CommissionRule;
+			}>(`${this.baseUrl}/rules`, data);
+			return response.data;
+		} catch (error) {
+			console.error('Error creating commission rule:', error);
+			throw new Error(
+				error instanceof Error && error.message
+					? error.message
+					: 'Erro ao cadastrar regra de comissão',
+			);
+		}
+	}
+
+	/**
+	 * Update commission rule
+	 */
+	async updateRule(
+		id: string,
+		data: UpdateCommissionRuleRequest,
+	): Promise<CommissionRule> {
+		try {
+			const response = await httpClient.put<{
+				success: boolean;
+				data: CommissionRule;
+			}>(`${this.baseUrl}/rules/${id}`, data);
+			return response.data;
+		} catch (error) {
+			console.error('Error updating commission rule:', error);
+			throw new Error(
+				error instanceof Error && error.message
+					? error.message
+					: 'Erro ao atualizar regra de comissão',
+			);
+		}
+	}
+
+	/**
+	 * Delete commission rule
+	 */
+	async deleteRule(id: string): Promise<boolean> {
+		try {
+			await httpClient.delete<void>(`${this.baseUrl}/rules/${id}`);
+			return true;
+		} catch (error) {
+			console.error('Error deleting commission rule:', error);
+			throw new Error('Erro ao excluir regra de comissão');
+		}
+	}
+}
+
+// Export singleton instance
+export const commissionService = new CommissionService();
+export default commissionService;
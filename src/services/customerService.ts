@@ -1,7 +1,12 @@
 import type {
+	AuditHistoryEntry,
 	CreateCustomerRequest,
 	Customer,
+	CustomerImportResult,
+	CustomerMergeResult,
 	CustomerQueryParams,
+	DuplicateCustomerGroup,
+	ErrorResponse,
 	PaginatedResponse,
 	UpdateCustomerRequest,
 } from '../types/api';
@@ -31,6 +36,12 @@ export class CustomerService {
 		if (params?.search) {
 			queryParams.append('search', params.search);
 		}
+		if (params?.documentType) {
+			queryParams.append('documentType', params.documentType);
+		}
+		if (params?.tier) {
+			queryParams.append('tier', params.tier);
+		}
 		if (params?.sortBy) {
 			queryParams.append('sortBy', params.sortBy);
 		}
@@ -80,20 +91,112 @@ export class CustomerService {
 		try {
 			await httpClient.delete<void>(`${this.baseUrl}/${id}`);
 		} catch (error: any) {
-			// Verifica se é um erro de restrição de chave estrangeira
+			// Clientes com pré-vendas só podem ser removidos pela mesclagem
 			if (
+				error.response?.status === 409 ||
 				error.response?.data?.message?.includes('foreign key constraint') ||
 				error.message?.includes('foreign key constraint') ||
 				error.message?.includes('violates foreign key')
 			) {
 				throw new Error(
-					'Não é possível excluir este cliente pois ele possui pré-vendas associadas.',
+					'Não é possível excluir este cliente pois ele possui pré-vendas associadas. Para remover um cadastro duplicado, use "Mesclar duplicados".',
 				);
 			}
 			throw error;
 		}
 	}
 
+	/**
+	 * Export customers as a CSV file
+	 */
+	async exportCustomers(
+		params?: Pick<CustomerQueryParams, 'search' | 'documentType' | 'tier'>,
+	): Promise<Blob> {
+		const queryParams = new URLSearchParams();
+
+		if (params?.search) queryParams.append('search', params.search);
+		if (params?.documentType)
+			queryParams.append('documentType', params.documentType);
+		if (params?.tier) queryParams.append('tier', params.tier);
+
+		return httpClient.get<Blob>(
+			`${this.baseUrl}/export?${queryParams.toString()}`,
+			{ responseType: 'blob' },
+		);
+	}
+
+	/**
+	 * Import customers from a CSV file
+	 * With dryRun the backend previews each row and saves nothing.
+	 */
+	async importCustomers(
+		file: File,
+		dryRun: boolean = true,
+	): Promise<CustomerImportResult> {
+		const content = await this.readFileAsBase64(file);
+
+		try {
+			const response = await httpClient.post<{
+				success: boolean;
+				data: CustomerImportResult;
+			}>(`${this.baseUrl}/import`, { content, dryRun });
+			return response.data;
+		} catch (error) {
+			const errorBody = (error as { response?: { data?: ErrorResponse } })
+				.response?.data?.error;
+			const rejectedImport = errorBody?.details as
+				| CustomerImportResult
+				| undefined;
+
+			// Rejected imports still report the rows to fix
+			if (rejectedImport?.rows) {
+				return rejectedImport;
+			}
+
+			throw new Error(
+				errorBody?.message || 'Erro ao importar clientes. Tente novamente.',
+			);
+		}
+	}
+
+	/**
+	 * Get groups of customers that share a name, email or phone
+	 */
+	async getDuplicates(): Promise<DuplicateCustomerGroup[]> {
+		const response = await httpClient.get<{
+			success: boolean;
+			data: DuplicateCustomerGroup[];
+		}>(`${this.baseUrl}/duplicates`);
+		return response.data;
+	}
+
+	/**
+	 * Merge a duplicate customer into another one
+	 * The pre-sales move to the target customer and the source customer is deleted.
+	 */
+	async mergeCustomers(
+		sourceId: string,
+		targetId: string,
+	): Promise<CustomerMergeResult> {
+		const response = await httpClient.post<{
+			success: boolean;
+			data: CustomerMergeResult;
+		}>(`${this.baseUrl}/merge`, { sourceId, targetId });
+		return response.data;
+	}
+
+	/**
+	 * Get the change history of a customer, newest first
+	 */
+	async getHistory(
+		id: string,
+		page: number = 1,
+	): Promise<PaginatedResponse<AuditHistoryEntry>> {
+		return httpClient.get<PaginatedResponse<AuditHistoryEntry>>(
+			`${this.baseUrl}/${id}/history?page=${page}`,
+		);
+	}
+
 	/**
 	 * Search customers by name, email, or CPF
 	 */
@@ -103,6 +206,18 @@ export class CustomerService {
 	): Promise<PaginatedResponse<Customer>> {
 		return this.getCustomers({ ...params, search: query });
 	}
+
+	private readFileAsBase64(file: File): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const reader = new FileReader();
+			reader.onload = () => {
+				const dataUrl = reader.result as string;
+				resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+			};
+			reader.onerror = () => reject(new Error('Erro ao ler o arquivo.'));
+			reader.readAsDataURL(file);
+		});
+	}
 }
 
 // Export singleton instance
@@ -5,6 +5,7 @@ import type {
 	Product,
 } from '../types/api';
 import { httpClient } from './httpClient';
+import { productService } from './productService';
 
 export interface DashboardMetrics {
 	salesToday: {
@@ -50,7 +51,11 @@ export interface InventoryAlert {
 	id: string;
 	productName: string;
 	currentStock: number;
-	minimumStock: number;
+	minimumStock: number | null;
+	reorderPoint: number | null;
+	reorderQuantity: number | null;
+	unit: string;
+	saleType: 'unit' | 'fractional';
 	severity: 'low' | 'critical';
 }
 
@@ -64,11 +69,13 @@ class DashboardService {
 	async getDashboardMetrics(): Promise<DashboardMetrics> {
 		try {
 			// Buscar dados reais em paralelo
-			const [productsResponse, , presalesResponse] = await Promise.all([
-				httpClient.get<PaginatedResponse<Product>>('/products?limit=100'),
-				httpClient.get<PaginatedResponse<Customer>>('/customers?limit=100'),
-				httpClient.get<PaginatedResponse<PreSale>>('/presales?limit=100'),
-			]);
+			const [productsResponse, , presalesResponse, lowStockProducts] =
+				await Promise.all([
+					httpClient.get<PaginatedResponse<Product>>('/products?limit=100'),
+					httpClient.get<PaginatedResponse<Customer>>('/customers?limit=100'),
+					httpClient.get<PaginatedResponse<PreSale>>('/presales?limit=100'),
+					productService.getLowStockProducts(),
+				]);
 
 			const products = productsResponse.data || [];
 			const presales = presalesResponse.data || [];
@@ -138,14 +145,9 @@ class DashboardService {
 						? 100
 						: 0;
 
-			// Produtos com estoque baixo (menos de 10 unidades)
-			const lowStockProducts = products.filter(
-				(product: any) => product.stock < 10,
-			);
-
 			// Valor total do inventário
 			const inventoryValue = products.reduce((sum: number, product: any) => {
-				return sum + Number(product.purchasePrice) * product.stock;
+				return sum + Number(product.purchasePrice) * Number(product.stock);
 			}, 0);
 
 			// Clientes ativos (que fizeram pelo menos uma compra nos últimos 30 dias)
@@ -262,7 +264,7 @@ class DashboardService {
 				activities.push({
 					id: `sale-${presale.id}`,
 					type: 'sale',
-					description: `${presale.status === 'converted' ? 'Venda finalizada' : 'Nova pré-venda'} - Cliente: ${presale.customer?.name || 'N/A'} - R$ ${Number(presale.total).toFixed(2)}`,
+					description: `${presale.status === 'converted' ? 'Venda finalizada' : 'Nova pré-venda'} ${presale.number} - Cliente: ${presale.customer?.name || 'N/A'} - R$ ${Number(presale.total).toFixed(2)}`,
 					timestamp: new Date(presale.createdAt),
 				});
 			});
@@ -302,22 +304,19 @@ class DashboardService {
 	 */
 	async getInventoryAlerts(): Promise<InventoryAlert[]> {
 		try {
-			const response = await httpClient.get<PaginatedResponse<Product>>(
-				'/products?limit=100',
-			);
-			const products = response.data || [];
-
-			// Filtrar produtos com estoque baixo
-			const lowStockProducts = products.filter(
-				(product: any) => product.stock < 15,
-			);
+			// Níveis de cada produto (ou limite das configurações) avaliados no servidor
+			const lowStockProducts = await productService.getLowStockProducts();
 
-			return lowStockProducts.map((product: any) => ({
+			return lowStockProducts.map((product) => ({
 				id: product.id,
 				productName: product.name,
-				currentStock: product.stock,
-				minimumStock: 15, // Valor padrão, pode ser configurável no futuro
-				severity: product.stock <= 5 ? ('critical' as const) : ('low' as const),
+				currentStock: Number(product.availableStock ?? product.stock),
+				minimumStock: product.minStock ?? null,
+				reorderPoint: product.reorderPoint ?? null,
+				reorderQuantity: product.reorderQuantity,
+				unit: product.unit,
+				saleType: product.saleType as 'unit' | 'fractional',
+				severity: product.severity,
 			}));
 		} catch (error) {
 			console.error('Erro ao buscar alertas de inventário:', error);
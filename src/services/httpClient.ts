@@ -2,16 +2,30 @@ import axios, {
 	type AxiosInstance,
 	type AxiosRequestConfig,
 	type AxiosResponse,
+	type InternalAxiosRequestConfig,
 } from 'axios';
 import { config } from '../config';
+import type { RefreshTokenResponse } from '../types/api';
 import { tokenStorage } from '../utils/tokenStorage';
 
+// Requests that must not trigger a token refresh when they fail with 401
+const TOKEN_ENDPOINTS = ['/auth/login', '/auth/refresh', '/auth/logout'];
+
+// Exact path match, so /auth/logout-all is refreshed and retried like any other request
+const isTokenEndpoint = (url?: string): boolean =>
+	!!url && TOKEN_ENDPOINTS.includes(url.split('?')[0]);
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+	_retry?: boolean;
+}
+
 /**
  * HTTP Client Service
  * Provides a configured axios instance with authentication and error handling
  */
 class HttpClient {
 	private axiosInstance: AxiosInstance;
+	private refreshPromise: Promise<string> | null = null;
 
 	constructor() {
 		console.log('HttpClient initialized with baseURL:', config.apiBaseUrl);
@@ -66,7 +80,7 @@ class HttpClient {
 			(response: AxiosResponse) => {
 				return response;
 			},
-			(error) => {
+			async (error) => {
 				console.error('HTTP Client Error:', {
 					message: error.message,
 					status: error.response?.status,
@@ -76,15 +90,32 @@ class HttpClient {
 					fullURL: error.config?.baseURL + error.config?.url,
 				});
 
-				// Handle 401 errors by clearing token
+				// Handle 401 errors by refreshing the access token once and retrying
 				if (error.response?.status === 401) {
-					// Don't auto-redirect if this is a login request
-					const isLoginRequest =
-						error.config?.url?.includes('login') ||
-						error.config?.url?.includes('auth');
+					const originalRequest = error.config as
+						| RetriableRequestConfig
+						| undefined;
+					const isTokenRequest = isTokenEndpoint(originalRequest?.url);
+
+					if (
+						originalRequest &&
+						!isTokenRequest &&
+						!originalRequest._retry &&
+						tokenStorage.getRefreshToken()
+					) {
+						originalRequest._retry = true;
+						try {
+							const token = await this.refreshAccessToken();
+							originalRequest.headers.Authorization = `Bearer ${token}`;
+							return this.axiosInstance(originalRequest);
+						} catch (refreshError) {
+							console.warn('Token refresh failed:', refreshError);
+						}
+					}
 
-					if (!isLoginRequest) {
-						tokenStorage.removeToken();
+					// Don't auto-redirect if this is a login, refresh or logout request
+					if (!isTokenRequest) {
+						this.clearAuthTokens();
 						// Dispatch logout event instead of direct redirect
 						if (typeof window !== 'undefined') {
 							window.dispatchEvent(
@@ -144,6 +175,51 @@ class HttpClient {
 		return response.data;
 	}
 
+	/**
+	 * Exchange the stored refresh token for a new token pair
+	 * Concurrent callers share the same request, so the refresh token is rotated only once
+	 */
+	refreshAccessToken(): Promise<string> {
+		if (!this.refreshPromise) {
+			this.refreshPromise = this.requestTokenRefresh().finally(() => {
+				this.refreshPromise = null;
+			});
+		}
+		return this.refreshPromise;
+	}
+
+	private async requestTokenRefresh(): Promise<string> {
+		const refreshToken = tokenStorage.getRefreshToken();
+		if (!refreshToken) {
+			throw new Error('No refresh token available');
+		}
+
+		const rotate = async (): Promise<string> => {
+			// Another tab may have rotated the shared refresh token while this one waited
+			const currentRefreshToken = tokenStorage.getRefreshToken();
+			const currentToken = tokenStorage.getToken();
+			if (!currentRefreshToken) {
+				throw new Error('No refresh token available');
+			}
+			if (currentRefreshToken !== refreshToken && currentToken) {
+				return currentToken;
+			}
+
+			const response = await this.axiosInstance.post<{
+				data: RefreshTokenResponse;
+			}>('/auth/refresh', { refreshToken: currentRefreshToken });
+			const { token, refreshToken: newRefreshToken } = response.data.data;
+			this.setAuthTokens(token, newRefreshToken || '');
+			return token;
+		};
+
+		// Tabs share the stored tokens, only one of them may rotate the refresh token at a time
+		if ('locks' in navigator) {
+			return navigator.locks.request('flowcrm_token_refresh', rotate);
+		}
+		return rotate();
+	}
+
 	// Authentication token management
 	setAuthTokens(token: string, refreshToken: string): void {
 		tokenStorage.setToken(token);
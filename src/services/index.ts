@@ -1,6 +1,7 @@
 // Service exports for easy importing
 
 export { authService } from './authService';
+export { commissionService } from './commissionService';
 export { customerService } from './customerService';
 export { dashboardService } from './dashboardService';
 export { httpClient } from './httpClient';
@@ -16,6 +17,10 @@ export { paymentMethodService } from './paymentMethodService';
 export * as permissionsService from './permissionsService';
 export { presaleService } from './presaleService';
 export { productService } from './productService';
+export { promotionService } from './promotionService';
+export { purchasingService } from './purchasingService';
 export { reportsService } from './reportsService';
+export { settingsService } from './settingsService';
+export { taxService } from './taxService';
 export { ToastService } from './ToastService';
 export { userService } from './userService';
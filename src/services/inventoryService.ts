@@ -45,6 +45,8 @@ export interface StockAdjustment {
 	reason: string;
 	userId: string;
 	userName: string;
+	// Set when the entry comes from receiving a purchase order
+	purchaseOrderId?: string | null;
 	createdAt: string;
 }
 
@@ -1,9 +1,11 @@
 import type {
 	ApiResponse,
+	AuditHistoryEntry,
 	CreatePreSaleRequest,
 	PaginatedResponse,
 	PreSale,
 	PreSaleQueryParams,
+	PreSaleStatusHistoryEntry,
 	UpdatePreSaleRequest,
 } from '../types/api';
 import { httpClient } from './httpClient';
@@ -25,8 +27,12 @@ export class PresaleService {
 			if (params?.status) queryParams.append('status', params.status);
 			if (params?.customerId)
 				queryParams.append('customerId', params.customerId);
+			if (params?.salespersonId)
+				queryParams.append('salespersonId', params.salespersonId);
 			if (params?.dateFrom) queryParams.append('dateFrom', params.dateFrom);
 			if (params?.dateTo) queryParams.append('dateTo', params.dateTo);
+			if (params?.number) queryParams.append('number', params.number);
+			if (params?.search) queryParams.append('search', params.search);
 			if (params?.sortBy) queryParams.append('sortBy', params.sortBy);
 			if (params?.sortOrder) queryParams.append('sortOrder', params.sortOrder);
 
@@ -187,16 +193,17 @@ export class PresaleService {
 	}
 
 	/**
-	 * Update pre-sale status
+	 * Update pre-sale status, the optional note is kept in the status history
 	 */
 	async updateStatus(
 		id: string,
 		status: PreSale['status'],
+		note?: string,
 	): Promise<ApiResponse<PreSale>> {
 		try {
 			const data = await httpClient.patch<PreSale>(
 				`${this.baseUrl}/${id}/status`,
-				{ status },
+				{ status, note },
 			);
 			return {
 				success: true,
@@ -258,6 +265,63 @@ export class PresaleService {
 		}>(`${this.baseUrl}/${id}/calculate`, { items });
 	}
 
+	/**
+	 * Get the status timeline of a pre-sale, oldest change first
+	 */
+	async getStatusHistory(id: string): Promise<PreSaleStatusHistoryEntry[]> {
+		return httpClient.get<PreSaleStatusHistoryEntry[]>(
+			`${this.baseUrl}/${id}/status-history`,
+		);
+	}
+
+	/**
+	 * Get the change history of a pre-sale, newest first
+	 */
+	async getHistory(
+		id: string,
+		page: number = 1,
+	): Promise<PaginatedResponse<AuditHistoryEntry>> {
+		return httpClient.get<PaginatedResponse<AuditHistoryEntry>>(
+			`${this.baseUrl}/${id}/history?page=${page}`,
+		);
+	}
+
+	/**
+	 * Renew a quote: reprice its items at the current product prices and
+	 * start a new validity period. Expired quotes go back to pending.
+	 */
+	async renew(id: string): Promise<PreSale> {
+		return httpClient.post<PreSale>(`${this.baseUrl}/${id}/renew`);
+	}
+
+	/**
+	 * Approve the discount of a pre-sale awaiting approval, it moves to pending.
+	 * Managers and admins only, managers up to their own discount limit.
+	 */
+	async approveDiscount(id: string, reason?: string): Promise<PreSale> {
+		return httpClient.post<PreSale>(`${this.baseUrl}/${id}/approve-discount`, {
+			reason: reason || null,
+		});
+	}
+
+	/**
+	 * Reject the discount of a pre-sale awaiting approval, it goes back to draft
+	 */
+	async rejectDiscount(id: string, reason: string): Promise<PreSale> {
+		return httpClient.post<PreSale>(`${this.baseUrl}/${id}/reject-discount`, {
+			reason,
+		});
+	}
+
+	/**
+	 * Download the quote PDF of a pre-sale, rendered by the backend
+	 */
+	async downloadPdf(id: string): Promise<Blob> {
+		return httpClient.get<Blob>(`${this.baseUrl}/${id}/pdf`, {
+			responseType: 'blob',
+		});
+	}
+
 	/**
 	 * Get pre-sales by customer ID
 	 */
@@ -298,10 +362,12 @@ export class PresaleService {
 	): boolean {
 		const validTransitions: Record<PreSale['status'], PreSale['status'][]> = {
 			draft: ['pending', 'cancelled'],
-			pending: ['approved', 'cancelled', 'converted'], // Agora permite conversão direta de pending
-			approved: ['converted', 'cancelled'],
+			pending: ['approved', 'cancelled', 'converted', 'expired'], // Agora permite conversão direta de pending
+			approved: ['converted', 'cancelled', 'expired'],
 			cancelled: [], // Cannot transition from cancelled
 			converted: [], // Cannot transition from converted
+			expired: ['cancelled'], // Back to pending only through renew
+			awaiting_approval: ['pending', 'draft', 'cancelled', 'expired'], // Entered only when the discount is above the limit
 		};
 
 		return validTransitions[currentStatus]?.includes(newStatus) || false;
@@ -313,10 +379,12 @@ export class PresaleService {
 	getValidNextStatuses(currentStatus: PreSale['status']): PreSale['status'][] {
 		const validTransitions: Record<PreSale['status'], PreSale['status'][]> = {
 			draft: ['pending', 'cancelled'],
-			pending: ['approved', 'cancelled', 'converted'], // Agora permite conversão direta de pending
-			approved: ['converted', 'cancelled'],
+			pending: ['approved', 'cancelled', 'converted', 'expired'], // Agora permite conversão direta de pending
+			approved: ['converted', 'cancelled', 'expired'],
 			cancelled: [],
 			converted: [],
+			expired: ['cancelled'],
+			awaiting_approval: ['draft', 'cancelled'], // Back to pending only through the discount approval
 		};
 
 		return validTransitions[currentStatus] || [];
@@ -418,6 +486,15 @@ export class PresaleService {
 		return status !== 'converted';
 	}
 
+	/**
+	 * Check if pre-sale can be renewed, approved quotes only once they expire
+	 */
+	canRenewPresale(status: PreSale['status']): boolean {
+		return ['draft', 'pending', 'expired', 'awaiting_approval'].includes(
+			status,
+		);
+	}
+
 	/**
 	 * Check if pre-sale can be converted to sale
 	 */
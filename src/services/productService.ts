@@ -1,12 +1,16 @@
 import type { Product } from '../types';
 import type {
 	ApiResponse,
+	AuditHistoryEntry,
 	CreateProductRequest,
+	ErrorResponse,
+	LowStockProduct,
 	MarginMarkupRequest,
 	MarginMarkupResult,
 	PaginatedResponse,
 	PriceCalculationRequest,
 	PriceCalculationResult,
+	ProductImportResult,
 	UpdateProductRequest,
 } from '../types/api';
 import { httpClient } from './httpClient';
@@ -243,11 +247,13 @@ class ProductService {
 	}
 
 	/**
-	 * Get products with low stock
+	 * Get products whose available stock reached their reorder point
+	 * Products without their own levels use the threshold, or the one in the system settings when omitted.
 	 */
-	async getLowStockProducts(threshold: number = 10): Promise<Product[]> {
-		const response = await httpClient.get<PaginatedResponse<Product>>(
-			`${this.baseUrl}/low-stock?threshold=${threshold}`,
+	async getLowStockProducts(threshold?: number): Promise<LowStockProduct[]> {
+		const query = threshold === undefined ? '' : `?threshold=${threshold}`;
+		const response = await httpClient.get<ApiResponse<LowStockProduct[]>>(
+			`${this.baseUrl}/low-stock${query}`,
 		);
 
 		return response?.data || [];
@@ -266,6 +272,65 @@ class ProductService {
 		return response;
 	}
 
+	/**
+	 * Import products from a CSV or XLSX file
+	 * With dryRun the backend only previews what each row would do.
+	 */
+	async importProducts(
+		file: File,
+		dryRun: boolean = true,
+	): Promise<ProductImportResult> {
+		const format = file.name.toLowerCase().endsWith('.xlsx') ? 'xlsx' : 'csv';
+		const content = await this.readFileAsBase64(file);
+
+		try {
+			const response = await httpClient.post<{
+				success: boolean;
+				data: ProductImportResult;
+			}>(`${this.baseUrl}/import`, { format, content, dryRun });
+			return response.data;
+		} catch (error) {
+			const errorBody = (error as { response?: { data?: ErrorResponse } })
+				.response?.data?.error;
+			const rejectedImport = errorBody?.details as
+				| ProductImportResult
+				| undefined;
+
+			// Rejected imports still report the rows to fix
+			if (rejectedImport?.rows) {
+				return rejectedImport;
+			}
+
+			throw new Error(
+				errorBody?.message || 'Erro ao importar produtos. Tente novamente.',
+			);
+		}
+	}
+
+	private readFileAsBase64(file: File): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const reader = new FileReader();
+			reader.onload = () => {
+				const dataUrl = reader.result as string;
+				resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+			};
+			reader.onerror = () => reject(new Error('Erro ao ler o arquivo.'));
+			reader.readAsDataURL(file);
+		});
+	}
+
+	/**
+	 * Get the change history of a product, newest first
+	 */
+	async getHistory(
+		id: string,
+		page: number = 1,
+	): Promise<PaginatedResponse<AuditHistoryEntry>> {
+		return httpClient.get<PaginatedResponse<AuditHistoryEntry>>(
+			`${this.baseUrl}/${id}/history?page=${page}`,
+		);
+	}
+
 	/**
 	 * Export products data
 	 */
@@ -0,0 +1,135 @@
+import type { Promotion } from '../types';
+import type {
+	CreatePromotionRequest,
+	UpdatePromotionRequest,
+} from '../types/api';
+import { httpClient } from './httpClient';
+
+export interface PromotionFilters {
+	search?: string;
+	isActive?: boolean;
+	status?: 'current' | 'scheduled' | 'expired';
+	scope?: Promotion['scope'];
+	productId?: string;
+	page?: number;
+	limit?: number;
+	sortBy?: 'name' | 'priority' | 'startDate' | 'endDate' | 'createdAt';
+	sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Promotion API Service
+ * Handles all promotion-related API operations
+ */
+export class PromotionService {
+	private readonly baseUrl = '/promotions';
+
+	/**
+	 * Get all promotions
+	 */
+	async getAll(filters: PromotionFilters = {}): Promise<Promotion[]> {
+		try {
+			const params = new URLSearchParams();
+
+			if (filters.search) params.append('search', filters.search);
+			if (filters.isActive !== undefined)
+				params.append('isActive', filters.isActive.toString());
+			if (filters.status) params.append('status', filters.status);
+			if (filters.scope) params.append('scope', filters.scope);
+			if (filters.productId) params.append('productId', filters.productId);
+			params.append('page', (filters.page || 1).toString());
+			params.append('limit', (filters.limit || 100).toString());
+			if (filters.sortBy) params.append('sortBy', filters.sortBy);
+			if (filters.sortOrder) params.append('sortOrder', filters.sortOrder);
+
+			const response = await httpClient.get<{
+				success: boolean;
+				data: Promotion[];
+			}>(`${this.baseUrl}?${params.toString()}`);
+			return response.data || [];
+		} catch (error) {
+			console.error('Error fetching promotions:', error);
+			throw new Error('Erro ao carregar promoções');
+		}
+	}
+
+	/**
+	 * Get promotion by ID
+	 */
+	async getById(id: string): Promise<Promotion> {
+		try {
+			const response = await httpClient.get<{
+				success: boolean;
+				data: Promotion;
+			}>(`${this.baseUrl}/${id}`);
+			return response.data;
+		} catch (error) {
+			console.error('Error fetching promotion:', error);
+			throw new Error('Erro ao carregar promoção');
+		}
+	}
+
+	/**
+	 * Create new promotion
+	 */
+	async create(data: CreatePromotionRequest): Promise<Promotion> {
+		try {
+			const response = await httpClient.post<{
+				success: boolean;
+				data: Promotion;
+			}>(this.baseUrl, data);
+			return response.data;
+		} catch (error) {
+			console.error('Error creating promotion:', error);
+			throw new Error(
+				error instanceof Error && error.message
+					? error.message
+					: 'Erro ao criar promoção',
+			);
+		}
+	}
+
+	/**
+	 * Update promotion
+	 */
+	async update(id: string, data: UpdatePromotionRequest): Promise<Promotion> {
+		try {
+			const response = await httpClient.put<{
+				success: boolean;
+				data: Promotion;
+			}>(`${this.baseUrl}/${id}`, data);
+			return response.data;
+		} catch (error) {
+			console.error('Error updating promotion:', error);
+			throw new Error(
+				error instanceof Error && error.message
+					? error.message
+					: 'Erro ao atualizar promoção',
+			);
+		}
+	}
+
+	/**
+	 * Delete promotion
+	 */
+	async delete(id: string): Promise<boolean> {
+		try {
+			await httpClient.delete<void>(`${this.baseUrl}/${id}`);
+			return true;
+		} catch (error) {
+			console.error('Error deleting promotion:', error);
+			throw new Error('Erro ao excluir promoção');
+		}
+	}
+
+	/**
+	 * Toggle promotion active status
+	 */
+	async toggleActive(id: string, isActive: boolean): Promise<Promotion> {
+		return this.update(id, { isActive });
+	}
+}
+
+// Export singleton instance
+export const promotionService = new PromotionService();
+export default promotionService;
@@ -0,0 +1,241 @@
+import type {
+	PurchaseOrder,
+	PurchaseOrderStatus,
+	PurchaseOrderSuggestion,
+	Supplier,
+} from '../types';
+import type {
+	ApiResponse,
+	CreatePurchaseOrderRequest,
+	CreateSupplierRequest,
+	PaginatedResponse,
+	ReceivePurchaseOrderRequest,
+	UpdatePurchaseOrderRequest,
+	UpdateSupplierRequest,
+} from '../types/api';
+import { httpClient } from './httpClient';
+
+export interface SupplierFilters {
+	search?: string;
+	isActive?: boolean;
+	page?: number;
+	limit?: number;
+}
+
+export interface PurchaseOrderFilters {
+	status?: PurchaseOrderStatus;
+	supplierId?: string;
+	page?: number;
+	limit?: number;
+}
+
+// Keeps the message sent by the API, falling back to a generic one
+const rethrow = (error: unknown, fallbackMessage: string): never => {
+	throw new Error(
+		error instanceof Error && error.message ? error.message : fallbackMessage,
+	);
+};
+
+/**
+ * Purchasing API Service
+ * Handles suppliers, purchase orders and goods receiving
+ */
+export class PurchasingService {
+	private readonly suppliersUrl = '/suppliers';
+	private readonly ordersUrl = '/purchase-orders';
+
+	/**
+	 * Get suppliers
+	 */
+	async getSuppliers(
+		filters: SupplierFilters = {},
+	): Promise<PaginatedResponse<Supplier>> {
+		const params = new URLSearchParams();
+
+		if (filters.search) params.append('search', filters.search);
+		if (filters.isActive !== undefined)
+			params.append('isActive', filters.isActive.toString());
+		params.append('page', (filters.page || 1).toString());
+		params.append('limit', (filters.limit || 100).toString());
+
+		return httpClient.get<PaginatedResponse<Supplier>>(
+			`${this.suppliersUrl}?${params.toString()}`,
+		);
+	}
+
+	/**
+	 * Create supplier
+	 */
+	async createSupplier(data: CreateSupplierRequest): Promise<Supplier> {
+		try {
+			const response = await httpClient.post<ApiResponse<Supplier>>(
+				this.suppliersUrl,
+				data,
+			);
+			return response.data;
+		} catch (error) {
+			console.error('Error creating supplier:', error);
+			return rethrow(error, 'Erro ao cadastrar fornecedor');
+		}
+	}
+
+	/**
+	 * Update supplier
+	 */
+	async updateSupplier(
+		id: string,
+		data: UpdateSupplierRequest,
+	): Promise<Supplier> {
+		try {
+			const response = await httpClient.put<ApiResponse<Supplier>>(
+				`${this.suppliersUrl}/${id}`,
+				data,
+			);
+			return response.data;
+		} catch (error) {
+			console.error('Error updating supplier:', error);
+			return rethrow(error, 'Erro ao atualizar fornecedor');
+		}
+	}
+
+	/**
+	 * Delete supplier, only suppliers without purchase orders can be deleted
+	 */
+	async deleteSupplier(id: string): Promise<void> {
+		try {
+			await httpClient.delete<void>(`${this.suppliersUrl}/${id}`);
+		} catch (error) {
+			console.error('Error deleting supplier:', error);
+			rethrow(error, 'Erro ao excluir fornecedor');
+		}
+	}
+
+	/**
+	 * Get purchase orders, newest first
+	 */
+	async getPurchaseOrders(
+		filters: PurchaseOrderFilters = {},
+	): Promise<PaginatedResponse<PurchaseOrder>> {
+		const params = new URLSearchParams();
+
+		if (filters.status) params.append('status', filters.status);
+		if (filters.supplierId) params.append('supplierId', filters.supplierId);
+		params.append('page', (filters.page || 1).toString());
+		params.append('limit', (filters.limit || 20).toString());
+
+		return httpClient.get<PaginatedResponse<PurchaseOrder>>(
+			`${this.ordersUrl}?${params.toString()}`,
+		);
+	}
+
+	/**
+	 * Get purchase order with its items and receipts
+	 */
+	async getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+		const response = await httpClient.get<ApiResponse<PurchaseOrder>>(
+			`${this.ordersUrl}/${id}`,
+		);
+		return response.data;
+	}
+
+	/**
+	 * Get the products at their reorder point with the quantity to order
+	 */
+	async getSuggestions(): Promise<PurchaseOrderSuggestion[]> {
+		const response = await httpClient.get<
+			ApiResponse<PurchaseOrderSuggestion[]>
+		>(`${this.ordersUrl}/suggestions`);
+		return response?.data || [];
+	}
+
+	/**
+	 * Create draft purchase order
+	 */
+	async createPurchaseOrder(
+		data: CreatePurchaseOrderRequest,
+	): Promise<PurchaseOrder> {
+		try {
+			const response = await httpClient.post<ApiResponse<PurchaseOrder>>(
+				this.ordersUrl,
+				data,
+			);
+			return response.data;
+		} catch (error) {
+			console.error('Error creating purchase order:', error);
+			return rethrow(error, 'Erro ao criar pedido de compra');
+		}
+	}
+
+	/**
+	 * Update draft purchase order
+	 */
+	async updatePurchaseOrder(
+		id: string,
+		data: UpdatePurchaseOrderRequest,
+	): Promise<PurchaseOrder> {
+		try {
+			const response = await httpClient.put<ApiResponse<PurchaseOrder>>(
+				`${this.ordersUrl}/${id}`,
+				data,
+			);
+			return response.data;
+		} catch (error) {
+			console.error('Error updating purchase order:', error);
+			return rethrow(error, 'Erro ao atualizar pedido de compra');
+		}
+	}
+
+	/**
+	 * Place or cancel purchase order
+	 */
+	async updatePurchaseOrderStatus(
+		id: string,
+		status: 'ordered' | 'cancelled',
+	): Promise<PurchaseOrder> {
+		try {
+			const response = await httpClient.patch<ApiResponse<PurchaseOrder>>(
+				`${this.ordersUrl}/${id}/status`,
+				{ status },
+			);
+			return response.data;
+		} catch (error) {
+			console.error('Error updating purchase order status:', error);
+			return rethrow(error, 'Erro ao alterar status do pedido de compra');
+		}
+	}
+
+	/**
+	 * Receive purchase order items into stock
+	 */
+	async receivePurchaseOrder(
+		id: string,
+		data: ReceivePurchaseOrderRequest,
+	): Promise<PurchaseOrder> {
+		try {
+			const response = await httpClient.post<ApiResponse<PurchaseOrder>>(
+				`${this.ordersUrl}/${id}/receive`,
+				data,
+			);
+			return response.data;
+		} catch (error) {
+			console.error('Error receiving purchase order:', error);
+			return rethrow(error, 'Erro ao receber pedido de compra');
+		}
+	}
+
+	/**
+	 * Delete draft purchase order
+	 */
+	async deletePurchaseOrder(id: string): Promise<void> {
+		try {
+			await httpClient.delete<void>(`${this.ordersUrl}/${id}`);
+		} catch (error) {
+			console.error('Error deleting purchase order:', error);
+			rethrow(error, 'Erro ao excluir pedido de compra');
+		}
+	}
+}
+
+// Export singleton instance
+export const purchasingService = new PurchasingService();
+export default purchasingService;
@@ -1,4 +1,6 @@
 import type {
+	CommissionReportData,
+	CommissionReportFilters,
 	PaymentMethodReportData,
 	ReportFilters,
 	ReportSummary,
@@ -137,7 +139,9 @@ class ReportsService {
 	/**
 	 * Build query parameters for API requests
 	 */
-	private buildQueryParams(filters?: ReportFilters): URLSearchParams {
+	private buildQueryParams(
+		filters?: ReportFilters | CommissionReportFilters,
+	): URLSearchParams {
 		const params = new URLSearchParams();
 
 		if (filters?.dateRange) {
@@ -149,6 +153,10 @@ class ReportsService {
 			params.append('paymentMethodId', filters.paymentMethodId);
 		}
 
+		if (filters && 'salespersonId' in filters && filters.salespersonId) {
+			params.append('salespersonId', filters.salespersonId);
+		}
+
 		return params;
 	}
 
@@ -261,6 +269,42 @@ class ReportsService {
 			this.handleError(error, 'getReportSummary');
 		}
 	}
+
+	/**
+	 * Get commissions report data with enhanced error handling and retry logic
+	 */
+	async getCommissionsReport(
+		filters?: CommissionReportFilters,
+	): Promise<CommissionReportData[]> {
+		try {
+			const params = this.buildQueryParams(filters);
+			const queryString = params.toString();
+			const url = `${this.baseUrl}/commissions${queryString ? `?${queryString}` : ''}`;
+
+			const response = await this.withRetry(async () => {
+				return await httpClient.get<{
+					success: boolean;
+					data: CommissionReportData[];
+					message: string;
+				}>(url);
+			});
+
+			// Extract data from standardized response
+			if (!response || !response.success || !Array.isArray(response.data)) {
+				throw new ReportsServiceError(
+					'Formato de resposta inválido do servidor.',
+					'SERVER_ERROR',
+				);
+			}
+
+			return response.data;
+		} catch (error: unknown) {
+			if (error instanceof ReportsServiceError) {
+				throw error;
+			}
+			this.handleError(error, 'getCommissionsReport');
+		}
+	}
 }
 
 // Export singleton instance
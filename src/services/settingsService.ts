@@ -0,0 +1,80 @@
+import type { SystemSettings } from '../types';
+import type { UpdateSystemSettingsRequest } from '../types/api';
+import { httpClient } from './httpClient';
+
+/**
+ * Preferences used while the settings are not loaded or cannot be loaded
+ */
+export const DEFAULT_SYSTEM_SETTINGS: Omit<
+	SystemSettings,
+	'id' | 'createdAt' | 'updatedAt'
+> = {
+	companyName: null,
+	companyCnpj: null,
+	companyAddress: null,
+	companyLogo: null,
+	defaultMarkup: 50,
+	lowStockThreshold: 10,
+	productCodePrefix: 'PROD',
+	paymentMethodCodePrefix: 'PAG',
+	quoteValidityDays: 7,
+	quoteTerms: null,
+	employeeDiscountLimit: 10,
+	managerDiscountLimit: 20,
+};
+
+/**
+ * Settings API Service
+ * Handles the company profile and the system-wide preferences. The settings
+ * rarely change, so they are loaded once and shared by every caller.
+ */
+export class SettingsService {
+	private readonly baseUrl = '/settings';
+	private settings: Promise<SystemSettings> | null = null;
+
+	/**
+	 * Get the system settings
+	 */
+	async getSettings(): Promise<SystemSettings> {
+		if (!this.settings) {
+			this.settings = httpClient
+				.get<{ success: boolean; data: SystemSettings }>(this.baseUrl)
+				.then((response) => response.data);
+		}
+
+		try {
+			return await this.settings;
+		} catch (error) {
+			this.settings = null;
+			console.error('Error fetching settings:', error);
+			throw new Error('Erro ao carregar configurações');
+		}
+	}
+
+	/**
+	 * Update the system settings (administrators only)
+	 */
+	async updateSettings(
+		data: UpdateSystemSettingsRequest,
+	): Promise<SystemSettings> {
+		try {
+			const response = await httpClient.put<{
+				success: boolean;
+				data: SystemSettings;
+			}>(this.baseUrl, data);
+			this.settings = Promise.resolve(response.data);
+			return response.data;
+		} catch (error) {
+			console.error('Error updating settings:', error);
+			throw new Error(
+				error instanceof Error && error.message
+					? error.message
+					: 'Erro ao salvar configurações',
+			);
+		}
+	}
+}
+
+// Export singleton instance
+export const settingsService = new SettingsService();
+export default settingsService;
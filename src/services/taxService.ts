@@ -0,0 +1,139 @@
+import type { IcmsStateRate, NcmTaxRate } from '../types';
+import type {
+	CreateNcmTaxRateRequest,
+	UpdateNcmTaxRateRequest,
+} from '../types/api';
+import { httpClient } from './httpClient';
+
+/**
+ * Tax API Service
+ * Handles NCM tax rates and ICMS rates per destination state
+ */
+export class TaxService {
+	private readonly baseUrl = '/taxes';
+
+	/**
+	 * Get all NCM tax rates
+	 */
+	async getNcmRates(search?: string): Promise<NcmTaxRate[]> {
+		try {
+			const params = new URLSearchParams();
+			if (search) params.append('search', search);
+			params.append('limit', '100');
+
+			const response = await httpClient.get<{
+				success: boolean;
+				data: NcmTaxRate[];
+			}>(`${this.baseUrl}/ncm?${params.toString()}`);
+			return response.data || [];
+		} catch (error) {
+			console.error('Error fetching NCM tax rates:', error);
+			throw new Error('Erro ao carregar tributação por NCM');
+		}
+	}
+
+	/**
+	 * Create NCM tax rate
+	 */
+	async createNcmRate(data: CreateNcmTaxRateRequest): Promise<NcmTaxRate> {
+		try {
+			const response = await httpClient.post<{
+				success: boolean;
+				data: NcmTaxRate;
+			}>(`${this.baseUrl}/ncm`, data);
+			return response.data;
+		} catch (error) {
+			console.error('Error creating NCM tax rate:', error);
+			throw new Error(
+				error instanceof Error && error.message
+					? error.message
+					: 'Erro ao cadastrar NCM',
+			);
+		}
+	}
+
+	/**
+	 * Update NCM tax rate
+	 */
+	async updateNcmRate(
+		id: string,
+		data: UpdateNcmTaxRateRequest,
+	): Promise<NcmTaxRate> {
+		try {
+			const response = await httpClient.put<{
+				success: boolean;
+				data: NcmTaxRate;
+			}>(`${this.baseUrl}/ncm/${id}`, data);
+			return response.data;
+		} catch (error) {
+			console.error('Error updating NCM tax rate:', error);
+			throw new Error(
+				error instanceof Error && error.message
+					? error.message
+					: 'Erro ao atualizar NCM',
+			);
+		}
+	}
+
+	/**
+	 * Delete NCM tax rate
+	 */
+	async deleteNcmRate(id: string): Promise<boolean> {
+		try {
+			await httpClient.delete<void>(`${this.baseUrl}/ncm/${id}`);
+			return true;
+		} catch (error) {
+			console.error('Error deleting NCM tax rate:', error);
+			throw new Error('Erro ao excluir NCM');
+		}
+	}
+
+	/**
+	 * Get ICMS rates for every configured state
+	 */
+	async getStateRates(): Promise<IcmsStateRate[]> {
+		try {
+			const response = await httpClient.get<{
+				success: boolean;
+				data: IcmsStateRate[];
+			}>(`${this.baseUrl}/states`);
+			return response.data || [];
+		} catch (error) {
+			console.error('Error fetching ICMS state rates:', error);
+			throw new Error('Erro ao carregar alíquotas de ICMS');
+		}
+	}
+
+	/**
+	 * Set the ICMS rate for a state
+	 */
+	async setStateRate(state: string, rate: string): Promise<IcmsStateRate> {
+		try {
+			const response = await httpClient.put<{
+				success: boolean;
+				data: IcmsStateRate;
+			}>(`${this.baseUrl}/states/${state}`, { rate });
+			return response.data;
+		} catch (error) {
+			console.error('Error saving ICMS state rate:', error);
+			throw new Error('Erro ao salvar alíquota de ICMS');
+		}
+	}
+
+	/**
+	 * Remove the ICMS rate for a state
+	 */
+	async deleteStateRate(state: string): Promise<boolean> {
+		try {
+			await httpClient.delete<void>(`${this.baseUrl}/states/${state}`);
+			return true;
+		} catch (error) {
+			console.error('Error deleting ICMS state rate:', error);
+			throw new Error('Erro ao remover alíquota de ICMS');
+		}
+	}
+}
+
+// Export singleton instance
+export const taxService = new TaxService();
+export default taxService;
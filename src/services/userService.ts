@@ -1,12 +1,15 @@
 import type {
 	AuditLog,
 	AuditLogFilters,
+	AuditLogPage,
+	AuditUserStatistics,
 	CreateUserRequest,
 	UpdateUserRequest,
 	User,
 	UserManagementService,
 	UserPermissions,
 } from '../types';
+import type { PaginatedResponse } from '../types/api';
 import { httpClient } from './httpClient';
 
 /**
@@ -353,24 +356,65 @@ export class UserService implements UserManagementService {
 	}
 
 	/**
-	 * Gets audit logs with optional filters
+	 * Gets a page of audit logs with optional filters
 	 */
-	async getAuditLogs(filters?: AuditLogFilters): Promise<AuditLog[]> {
-		try {
-			// This would connect to the audit logs API when available
-			const response = await httpClient.get<any[]>('/audit-logs', {
-				params: filters,
-			});
+	async getAuditLogs(filters?: AuditLogFilters): Promise<AuditLogPage> {
+		const response = await httpClient.get<
+			PaginatedResponse<
+				Omit<AuditLog, 'createdAt' | 'updatedAt'> & {
+					createdAt: string;
+				}
+			>
+		>('/audit-logs', { params: this.toAuditLogParams(filters) });
+
+		return {
+			logs: response.data.map(
+				(log): AuditLog => ({
+					...log,
+					createdAt: new Date(log.createdAt),
+					updatedAt: new Date(log.createdAt), // Audit logs are never updated
+				}),
+			),
+			total: response.pagination.total,
+			page: response.pagination.page,
+			totalPages: response.pagination.totalPages,
+		};
+	}
 
-			return response.map((log: any) => ({
-				...log,
-				createdAt: new Date(log.createdAt),
-				updatedAt: new Date(log.updatedAt),
-			}));
-		} catch (error) {
-			console.error('Failed to fetch audit logs:', error);
-			return []; // Return empty array if audit logs are not available
-		}
+	/**
+	 * Gets the number of actions of a user per action type
+	 */
+	async getUserAuditStats(userId: string): Promise<AuditUserStatistics> {
+		const response = await httpClient.get<{
+			success: boolean;
+			data: AuditUserStatistics;
+		}>(`/audit-logs/users/${userId}/stats`);
+
+		return response.data;
+	}
+
+	/**
+	 * Exports the audit logs matching the filters as a CSV file
+	 */
+	async exportAuditLogs(filters?: AuditLogFilters): Promise<Blob> {
+		return httpClient.get<Blob>('/audit-logs/export', {
+			params: this.toAuditLogParams(filters),
+			responseType: 'blob',
+		});
+	}
+
+	private toAuditLogParams(filters?: AuditLogFilters): Record<string, string> {
+		const params: Record<string, string> = {};
+
+		if (filters?.userId) params.userId = filters.userId;
+		if (filters?.action) params.action = filters.action;
+		if (filters?.resource) params.resource = filters.resource;
+		if (filters?.startDate) params.startDate = filters.startDate.toISOString();
+		if (filters?.endDate) params.endDate = filters.endDate.toISOString();
+		if (filters?.page) params.page = filters.page.toString();
+		if (filters?.limit) params.limit = filters.limit.toString();
+
+		return params;
 	}
 }
 
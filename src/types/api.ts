@@ -1,5 +1,7 @@
 // API Type Definitions based on api.json specification
 
+import type { TaxBreakdown } from './index';
+
 // Base Response Types
 export interface ApiResponse<T> {
 	success: boolean;
@@ -41,13 +43,23 @@ export interface User {
 	updatedAt: string;
 }
 
+export type CustomerTier = 'regular' | 'premium' | 'vip';
+
+export type DocumentType = 'cpf' | 'cnpj';
+
 export interface Customer {
 	id: string;
 	name: string;
 	email: string;
 	phone: string;
-	cpf: string;
+	cpf: string; // CPF or CNPJ digits, according to documentType
+	documentType?: DocumentType;
+	companyName?: string | null; // Razão social, CNPJ only
+	stateRegistration?: string | null; // Inscrição estadual, CNPJ only
 	address?: string;
+	state?: string | null; // UF used as the ICMS destination
+	tier?: CustomerTier;
+	discountRate?: string | null; // Negotiated percentage, overrides the tier default
 	createdAt: string;
 	updatedAt: string;
 }
@@ -59,13 +71,32 @@ export interface Product {
 	unit: string;
 	description?: string;
 	stock: number;
+	reservedStock?: number;
+	availableStock?: number;
 	purchasePrice: string;
 	salePrice: string;
 	saleType: string;
+	category?: string | null;
+	ncm?: string | null;
+	icmsRate?: string | null;
+	ipiRate?: string | null;
+	pisRate?: string | null;
+	cofinsRate?: string | null;
+	minStock?: number | null;
+	reorderPoint?: number | null;
+	maxStock?: number | null;
 	createdAt: string;
 	updatedAt: string;
 }
 
+export type StockAlertSeverity = 'low' | 'critical';
+
+// Product at or below its reorder point, returned by /products/low-stock
+export interface LowStockProduct extends Product {
+	severity: StockAlertSeverity;
+	reorderQuantity: number | null;
+}
+
 export interface PreSaleItem {
 	id: string;
 	preSaleId: string;
@@ -76,21 +107,42 @@ export interface PreSaleItem {
 	discount: string;
 	discountType: 'fixed' | 'percentage';
 	discountPercentage: string;
+	promotionDiscount?: string;
+	promotionIds?: string[] | null;
+	taxBreakdown?: TaxBreakdown | null;
 	product: Product;
 }
 
 export interface PreSale {
 	id: string;
+	// Sequential number per year shown to customers (PV-2026-000123)
+	number: string;
 	customerId: string;
-	status: 'draft' | 'pending' | 'approved' | 'cancelled' | 'converted';
+	status:
+		| 'draft'
+		| 'pending'
+		| 'approved'
+		| 'cancelled'
+		| 'converted'
+		| 'expired'
+		| 'awaiting_approval';
 	total: string;
 	discount: string;
 	discountType: 'fixed' | 'percentage';
 	discountPercentage: string;
 	notes?: string;
+	// Last day the quote is valid (YYYY-MM-DD)
+	validUntil: string;
+	// Largest discount in percent (per item or overall) and the approval given to it when above the limit
+	requestedDiscount?: string;
+	discountApprovedPercentage?: string | null;
+	discountApprovedBy?: string | null;
+	discountApprovedAt?: string | null;
+	salespersonId: string | null;
 	createdAt: string;
 	updatedAt: string;
 	customer: Customer;
+	salesperson: { id: string; name: string } | null;
 	items: PreSaleItem[];
 }
 
@@ -112,7 +164,13 @@ export interface CreateCustomerRequest {
 	email: string;
 	phone: string;
 	cpf: string;
+	documentType?: DocumentType;
+	companyName?: string | null;
+	stateRegistration?: string | null;
 	address?: string;
+	state?: string | null;
+	tier?: CustomerTier;
+	discountRate?: string | null;
 }
 
 export interface UpdateCustomerRequest extends Partial<CreateCustomerRequest> {}
@@ -126,11 +184,116 @@ export interface CreateProductRequest {
 	purchasePrice: string;
 	salePrice: string;
 	saleType: string;
+	category?: string | null;
+	ncm?: string | null;
+	icmsRate?: string | null;
+	ipiRate?: string | null;
+	pisRate?: string | null;
+	cofinsRate?: string | null;
+	minStock?: number | null;
+	reorderPoint?: number | null;
+	maxStock?: number | null;
 }
 
 export interface UpdateProductRequest
 	extends Partial<Omit<CreateProductRequest, 'code'>> {}
 
+// Imports: every spreadsheet row is previewed before anything is saved
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportChange {
+	field: string;
+	from: string | number | null;
+	to: string | number | null;
+}
+
+export interface ImportSummary {
+	total: number;
+	created: number;
+	updated: number;
+	unchanged: number;
+	errors: number;
+}
+
+export interface ProductImportRow {
+	row: number;
+	action: ImportAction;
+	code: string | null;
+	name: string | null;
+	generatedCode?: boolean;
+	changes?: ImportChange[];
+	errors?: Array<{ field: string; message: string }>;
+}
+
+export interface ProductImportResult {
+	dryRun: boolean;
+	committed: boolean;
+	summary: ImportSummary;
+	rows: ProductImportRow[];
+}
+
+export interface CustomerImportRow {
+	row: number;
+	action: ImportAction;
+	document: string | null; // CPF/CNPJ digits, identifies the customer
+	name: string | null;
+	changes?: ImportChange[];
+	errors?: Array<{ field: string; message: string }>;
+}
+
+export interface CustomerImportResult {
+	dryRun: boolean;
+	committed: boolean;
+	summary: ImportSummary;
+	rows: CustomerImportRow[];
+}
+
+// Customers that share a name, email or phone
+export interface DuplicateCustomerGroup {
+	reason: 'name' | 'email' | 'phone';
+	value: string;
+	customers: Array<Customer & { preSaleCount: number }>;
+}
+
+export interface CustomerMergeResult {
+	customer: Customer;
+	movedPreSales: number;
+}
+
+// Audit trail: one entry per mutation with the fields it changed
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditFieldChange {
+	field: string;
+	from: string | number | boolean | null;
+	to: string | number | boolean | null;
+}
+
+export interface AuditHistoryEntry {
+	id: string;
+	action: AuditAction | string;
+	resource: string;
+	userName: string;
+	summary: string;
+	changes: AuditFieldChange[];
+	createdAt: string;
+}
+
+// Status change of a pre-sale, the first entry (creation) has no fromStatus
+export interface PreSaleStatusHistoryEntry {
+	id: string;
+	preSaleId: string;
+	fromStatus: PreSale['status'] | null;
+	toStatus: PreSale['status'];
+	// Null for changes made by the system, like expired quotes
+	changedBy: {
+		id: string;
+		name: string;
+	} | null;
+	note: string | null;
+	changedAt: string;
+}
+
 export interface CreatePreSaleItemRequest {
 	productId: string;
 	quantity: string;
@@ -142,11 +305,12 @@ export interface CreatePreSaleItemRequest {
 
 export interface CreatePreSaleRequest {
 	customerId: string;
-	status: 'draft' | 'pending' | 'approved' | 'cancelled' | 'converted';
+	status: PreSale['status'];
 	discount?: string;
 	discountType?: 'fixed' | 'percentage';
 	discountPercentage?: string;
 	notes?: string;
+	validUntil?: string;
 	items: CreatePreSaleItemRequest[];
 }
 
@@ -164,11 +328,104 @@ export interface CreatePaymentMethodRequest {
 export interface UpdatePaymentMethodRequest
 	extends Partial<CreatePaymentMethodRequest> {}
 
+export interface CreatePromotionRequest {
+	name: string;
+	description?: string | null;
+	type: 'percentage' | 'fixed';
+	value: string;
+	scope: 'all' | 'product' | 'category';
+	productId?: string | null;
+	category?: string | null;
+	startDate: string;
+	endDate: string;
+	priority?: number;
+	minAmount?: string | null;
+	maxDiscount?: string | null;
+	usageLimit?: number | null;
+	isActive?: boolean;
+}
+
+export interface UpdatePromotionRequest
+	extends Partial<CreatePromotionRequest> {}
+
+export interface CreateNcmTaxRateRequest {
+	ncm: string;
+	description?: string | null;
+	icmsRate?: string | null;
+	ipiRate?: string | null;
+	pisRate?: string | null;
+	cofinsRate?: string | null;
+}
+
+export interface UpdateNcmTaxRateRequest
+	extends Partial<CreateNcmTaxRateRequest> {}
+
+export interface UpdateSystemSettingsRequest {
+	companyName?: string | null;
+	companyCnpj?: string | null;
+	companyAddress?: string | null;
+	companyLogo?: string | null;
+	defaultMarkup?: number;
+	lowStockThreshold?: number;
+	productCodePrefix?: string;
+	paymentMethodCodePrefix?: string;
+	quoteValidityDays?: number;
+	quoteTerms?: string | null;
+	employeeDiscountLimit?: number;
+	managerDiscountLimit?: number;
+}
+
+export interface CreateSupplierRequest {
+	name: string;
+	cnpj?: string | null;
+	contactName?: string | null;
+	email?: string | null;
+	phone?: string | null;
+	notes?: string | null;
+	isActive?: boolean;
+}
+
+export interface UpdateSupplierRequest extends Partial<CreateSupplierRequest> {}
+
+export interface PurchaseOrderItemRequest {
+	productId: string;
+	quantity: number;
+	unitCost: string;
+}
+
+export interface CreatePurchaseOrderRequest {
+	supplierId: string;
+	expectedDate?: string | null;
+	notes?: string | null;
+	items: PurchaseOrderItemRequest[];
+}
+
+export interface UpdatePurchaseOrderRequest
+	extends Partial<CreatePurchaseOrderRequest> {}
+
+export interface ReceivePurchaseOrderRequest {
+	items: Array<{ itemId: string; quantity: number }>;
+	notes?: string | null;
+}
+
+export interface CreateCommissionRuleRequest {
+	name: string;
+	salespersonId?: string | null;
+	category?: string | null;
+	rate: string;
+	tiers?: { minVolume: number; rate: number }[] | null;
+	isActive?: boolean;
+}
+
+export interface UpdateCommissionRuleRequest
+	extends Partial<CreateCommissionRuleRequest> {}
+
 // Price Calculation Types
 export interface PriceCalculationRequest {
 	quantity: string;
 	basePrice?: string;
 	customerId?: string;
+	destinationState?: string;
 	applyPromotions?: boolean;
 	includeTaxes?: boolean;
 }
@@ -183,9 +440,8 @@ export interface PriceCalculationResult {
 		promotionalDiscount: number;
 		totalDiscount: number;
 	};
-	taxes: {
-		amount: number;
-		rate: number;
+	taxes: TaxBreakdown & {
+		destinationState: string | null;
 	};
 	finalPrice: number;
 	margin: {
@@ -248,6 +504,8 @@ export interface PaginationParams {
 
 export interface CustomerQueryParams extends PaginationParams {
 	search?: string;
+	documentType?: DocumentType;
+	tier?: CustomerTier;
 	sortBy?: 'name' | 'email' | 'createdAt';
 	sortOrder?: 'asc' | 'desc';
 }
@@ -263,8 +521,11 @@ export interface ProductQueryParams extends PaginationParams {
 export interface PreSaleQueryParams extends PaginationParams {
 	status?: PreSale['status'];
 	customerId?: string;
+	salespersonId?: string;
 	dateFrom?: string;
 	dateTo?: string;
+	number?: string;
+	search?: string;
 	sortBy?: 'createdAt' | 'total' | 'status';
 	sortOrder?: 'asc' | 'desc';
 }
@@ -14,11 +14,21 @@ export interface Product extends BaseEntity {
 	unit: string;
 	description?: string;
 	stock: number;
+	reservedStock?: number;
+	availableStock?: number;
 	saleType: 'unit' | 'fractional';
 	purchasePrice: number;
 	salePrice: number;
 	suggestedSalePrice?: number;
 	category?: string;
+	ncm?: string | null;
+	icmsRate?: string | null;
+	ipiRate?: string | null;
+	pisRate?: string | null;
+	cofinsRate?: string | null;
+	minStock?: number | null;
+	reorderPoint?: number | null;
+	maxStock?: number | null;
 }
 
 // Tipos auxiliares para cálculo de preços
@@ -40,7 +50,13 @@ export interface Customer extends BaseEntity {
 	email: string;
 	phone: string;
 	cpf: string;
+	documentType?: 'cpf' | 'cnpj';
+	companyName?: string | null;
+	stateRegistration?: string | null;
 	address?: string;
+	state?: string | null;
+	tier?: 'regular' | 'premium' | 'vip';
+	discountRate?: string | null;
 }
 
 export interface PaymentMethod extends BaseEntity {
@@ -49,12 +65,164 @@ export interface PaymentMethod extends BaseEntity {
 	isActive: boolean;
 }
 
+export type PromotionType = 'percentage' | 'fixed';
+export type PromotionScope = 'all' | 'product' | 'category';
+
+export interface Promotion extends BaseEntity {
+	name: string;
+	description?: string | null;
+	type: PromotionType;
+	value: string;
+	scope: PromotionScope;
+	productId?: string | null;
+	category?: string | null;
+	startDate: string;
+	endDate: string;
+	priority: number;
+	minAmount?: string | null;
+	maxDiscount?: string | null;
+	usageLimit?: number | null;
+	usageCount: number;
+	isActive: boolean;
+}
+
+// Impostos (ICMS, IPI, PIS, COFINS)
+export interface TaxLine {
+	rate: number;
+	amount: number;
+}
+
+export interface TaxBreakdown {
+	amount: number;
+	rate: number;
+	icms: TaxLine;
+	ipi: TaxLine;
+	pis: TaxLine;
+	cofins: TaxLine;
+}
+
+export interface NcmTaxRate extends BaseEntity {
+	ncm: string;
+	description?: string | null;
+	icmsRate?: string | null;
+	ipiRate?: string | null;
+	pisRate?: string | null;
+	cofinsRate?: string | null;
+}
+
+export interface IcmsStateRate {
+	state: string;
+	rate: string;
+	updatedAt: string;
+}
+
+export interface SystemSettings extends BaseEntity {
+	companyName: string | null;
+	companyCnpj: string | null;
+	companyAddress: string | null;
+	companyLogo: string | null;
+	defaultMarkup: number;
+	lowStockThreshold: number;
+	productCodePrefix: string;
+	paymentMethodCodePrefix: string;
+	quoteValidityDays: number;
+	quoteTerms: string | null;
+	// Largest discount in percent each role may give without approval, admins have no limit
+	employeeDiscountLimit: number;
+	managerDiscountLimit: number;
+}
+
+// Compras: fornecedores, pedidos de compra e recebimentos
+export interface Supplier extends BaseEntity {
+	name: string;
+	cnpj: string | null;
+	contactName: string | null;
+	email: string | null;
+	phone: string | null;
+	notes: string | null;
+	isActive: boolean;
+}
+
+export type PurchaseOrderStatus =
+	| 'draft'
+	| 'ordered'
+	| 'partially_received'
+	| 'received'
+	| 'cancelled';
+
+export interface PurchaseOrderItem {
+	id: string;
+	productId: string;
+	quantity: number;
+	receivedQuantity: number;
+	unitCost: string;
+	product: {
+		id: string;
+		code: string;
+		name: string;
+		unit: string;
+		saleType: 'unit' | 'fractional';
+	};
+}
+
+// Stock entry created by receiving an order
+export interface PurchaseOrderReceipt {
+	id: string;
+	productId: string;
+	quantity: number;
+	reason: string;
+	userName: string;
+	createdAt: string;
+}
+
+export interface PurchaseOrder extends BaseEntity {
+	number: number;
+	supplierId: string;
+	supplier: { id: string; name: string };
+	status: PurchaseOrderStatus;
+	expectedDate: string | null;
+	total: string;
+	notes: string | null;
+	orderedAt: string | null;
+	receivedAt: string | null;
+	itemCount: number;
+	items?: PurchaseOrderItem[];
+	receipts?: PurchaseOrderReceipt[];
+}
+
+// Product at its reorder point with the quantity to order
+export interface PurchaseOrderSuggestion {
+	productId: string;
+	code: string;
+	name: string;
+	unit: string;
+	saleType: 'unit' | 'fractional';
+	availableStock: number;
+	onOrder: number;
+	reorderPoint: number | null;
+	maxStock: number | null;
+	severity: 'low' | 'critical';
+	suggestedQuantity: number;
+	unitCost: string;
+	lastSupplier: { id: string; name: string } | null;
+}
+
 export interface PreSale extends BaseEntity {
+	number: string;
 	customer: Customer;
 	items: PreSaleItem[];
 	total: number;
-	status: 'draft' | 'pending' | 'approved' | 'cancelled' | 'converted';
+	status:
+		| 'draft'
+		| 'pending'
+		| 'approved'
+		| 'cancelled'
+		| 'converted'
+		| 'expired'
+		| 'awaiting_approval';
 	notes?: string;
+	// Last day the quote is valid (YYYY-MM-DD)
+	validUntil: string;
 	discount?: number;
 	discountType?: 'percentage' | 'fixed';
 	salesperson?: string;
@@ -69,6 +237,8 @@ export interface PreSaleItem {
 	unitPrice: number;
 	totalPrice: number;
 	discount?: number;
+	promotionDiscount?: number;
+	taxBreakdown?: TaxBreakdown | null;
 	notes?: string;
 }
 
@@ -216,6 +386,8 @@ export interface UserCredentials {
 // Extended user type for authentication context
 export interface AuthUser extends User {
 	lastLoginAt?: Date;
+	// Role as stored by the backend, userType folds managers into employees
+	role?: 'admin' | 'manager' | 'employee';
 }
 
 // Authentication error type - expanded with more error codes
@@ -249,12 +421,14 @@ export interface AuthContextType {
 	error: AuthError | null;
 	login: (credentials: UserCredentials) => Promise<void>;
 	logout: () => void;
+	logoutAllSessions: () => Promise<void>;
 	clearError: () => void;
 	// New permission-related properties
 	permissions: UserPermissions;
 	hasPermission: (permission: string) => boolean;
 	isAdmin: boolean;
 	isEmployee: boolean;
+	isManager: boolean;
 }
 
 export interface AuthState {
@@ -271,8 +445,23 @@ export interface AuditLogFilters {
 	resource?: string;
 	startDate?: Date;
 	endDate?: Date;
+	page?: number;
 	limit?: number;
-	offset?: number;
+}
+
+// Page of audit logs, paginated by the server
+export interface AuditLogPage {
+	logs: AuditLog[];
+	total: number;
+	page: number;
+	totalPages: number;
+}
+
+// Actions performed by a user, from the audit logs
+export interface AuditUserStatistics {
+	totalActions: number;
+	actionsByType: Record<AuditLog['action'], number>;
+	lastAction?: AuditLog;
 }
 // Permission-related utility types
 export type UserType = 'admin' | 'employee';
@@ -310,6 +499,40 @@ export interface PaymentMethodReportData {
 	convertedPresalesAmount: number;
 }
 
+export interface CommissionReportFilters extends ReportFilters {
+	salespersonId?: string;
+}
+
+export interface CommissionReportData {
+	salesperson: {
+		id: string;
+		name: string;
+	};
+	salesCount: number;
+	totalAmount: number;
+	commissionAmount: number;
+	averageRate: number;
+}
+
+// Commission rate applied once the monthly volume reaches minVolume
+export interface CommissionTier {
+	minVolume: number;
+	rate: number;
+}
+
+export interface CommissionRule extends BaseEntity {
+	name: string;
+	salespersonId: string | null;
+	category: string | null;
+	rate: string;
+	tiers: CommissionTier[] | null;
+	isActive: boolean;
+	salesperson: {
+		id: string;
+		name: string;
+	} | null;
+}
+
 export interface ReportSummary {
 	totalAmount: number;
 	totalSalesCount: number;
@@ -359,7 +582,7 @@ export interface UserManagementService {
 		userId: string,
 		permissions: UserPermissions,
 	): Promise<void>;
-	getAuditLogs(filters?: AuditLogFilters): Promise<AuditLog[]>;
+	getAuditLogs(filters?: AuditLogFilters): Promise<AuditLogPage>;
 }
 
 // Auth service interface - expanded
@@ -43,6 +43,19 @@ class AutoCodeService {
 		}
 	}
 
+	/**
+	 * Set the prefix for an entity type (configured in the system settings)
+	 */
+	static setPrefix(
+		entityType: keyof typeof AutoCodeService.configs,
+		prefix: string,
+	): void {
+		const config = AutoCodeService.configs[entityType];
+		if (config) {
+			config.prefix = prefix;
+		}
+	}
+
 	/**
 	 * Get the next code without incrementing the counter
 	 */
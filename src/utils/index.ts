@@ -53,11 +53,131 @@ export const validateCPF = (cpf: string): boolean => {
 	return true;
 };
 
+export const formatCNPJ = (cnpj: string): string => {
+	// Check if cnpj is valid before processing
+	if (!cnpj || typeof cnpj !== 'string') {
+		return '';
+	}
+
+	const cleaned = cnpj.replace(/\D/g, '');
+	const match = cleaned.match(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/);
+	if (match) {
+		return `${match[1]}.${match[2]}.${match[3]}/${match[4]}-${match[5]}`;
+	}
+	return cnpj;
+};
+
+export const validateCNPJ = (cnpj: string): boolean => {
+	// Check if cnpj is valid before processing
+	if (!cnpj || typeof cnpj !== 'string') {
+		return false;
+	}
+
+	const cleaned = cnpj.replace(/\D/g, '');
+	if (cleaned.length !== 14) return false;
+
+	// Check for known invalid CNPJs
+	if (/^(\d)\1{13}$/.test(cleaned)) return false;
+
+	// Validate check digits (weights 2..9 cycling from right to left)
+	const checkDigit = (digits: string): number => {
+		let sum = 0;
+		let weight = 2;
+		for (let i = digits.length - 1; i >= 0; i--) {
+			sum += parseInt(digits.charAt(i), 10) * weight;
+			weight = weight === 9 ? 2 : weight + 1;
+		}
+		const remainder = sum % 11;
+		return remainder < 2 ? 0 : 11 - remainder;
+	};
+
+	if (checkDigit(cleaned.slice(0, 12)) !== parseInt(cleaned.charAt(12), 10))
+		return false;
+	if (checkDigit(cleaned.slice(0, 13)) !== parseInt(cleaned.charAt(13), 10))
+		return false;
+
+	return true;
+};
+
 export const validateEmail = (email: string): boolean => {
 	const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 	return emailRegex.test(email);
 };
 
+// Brazilian states (UF), used as the ICMS destination
+export const BRAZILIAN_STATES = [
+	'AC',
+	'AL',
+	'AM',
+	'AP',
+	'BA',
+	'CE',
+	'DF',
+	'ES',
+	'GO',
+	'MA',
+	'MG',
+	'MS',
+	'MT',
+	'PA',
+	'PB',
+	'PE',
+	'PI',
+	'PR',
+	'RJ',
+	'RN',
+	'RO',
+	'RR',
+	'RS',
+	'SC',
+	'SE',
+	'SP',
+	'TO',
+] as const;
+
+export const formatNcm = (ncm: string): string => {
+	const cleaned = ncm.replace(/\D/g, '');
+	const match = cleaned.match(/^(\d{4})(\d{2})(\d{2})$/);
+	if (match) {
+		return `${match[1]}.${match[2]}.${match[3]}`;
+	}
+	return ncm;
+};
+
+// Casas decimais de quantidades de estoque por unidade, para produtos fracionados
+// Unidades não listadas usam 3 casas (precisão do estoque)
+const FRACTIONAL_UNIT_DECIMALS: Record<string, number> = {
+	kg: 3,
+	l: 3,
+	m: 3,
+	g: 1,
+	ml: 1,
+	cm: 1,
+};
+
+// Produtos vendidos por unidade só movimentam quantidades inteiras
+export const getQuantityDecimals = (product: {
+	unit: string;
+	saleType: string;
+}): number => {
+	if (product.saleType !== 'fractional') return 0;
+	return FRACTIONAL_UNIT_DECIMALS[product.unit.trim().toLowerCase()] ?? 3;
+};
+
+export const roundQuantity = (value: number, decimals = 3): number => {
+	const factor = 10 ** decimals;
+	return Math.round(Number((value * factor).toPrecision(15))) / factor;
+};
+
+export const formatQuantity = (
+	value: number,
+	product?: { unit: string; saleType: string },
+): string => {
+	return new Intl.NumberFormat('pt-BR', {
+		maximumFractionDigits: product ? getQuantityDecimals(product) : 3,
+	}).format(value);
+};
+
 export const generateId = (): string => {
 	return Math.random().toString(36).substr(2, 9);
 };
@@ -45,13 +45,7 @@ export default defineConfig({
 					// UI libraries
 					'ui-vendor': ['lucide-react', 'react-toastify'],
 					// Other vendor libraries
-					vendor: [
-						'axios',
-						'@tanstack/react-query',
-						'js-cookie',
-						'jspdf',
-						'jspdf-autotable',
-					],
+					vendor: ['axios', '@tanstack/react-query', 'js-cookie'],
 				},
 			},
 		},